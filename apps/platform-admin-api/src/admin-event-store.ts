@@ -0,0 +1,35 @@
+import { type MikroORM } from '@mikro-orm/core';
+import {
+	CryptoShredder,
+	CryptoShreddingEventStore,
+	type EventStorePort,
+	type PiiFieldPolicy,
+	UpcasterRegistry,
+	UpcastingEventStore
+} from '@oksai/event-store';
+import { PgEventStore, PgKeyVault } from '@oksai/event-store-postgres';
+
+/**
+ * 时点查询需要解密的 PII 字段（与领域仓储写入时的策略保持一致）
+ */
+export const ADMIN_PII_POLICIES: Readonly<Record<string, PiiFieldPolicy>> = {
+	UserRegistered: { fields: ['email'] }
+};
+
+/**
+ * 创建时点查询使用的只读事件存储
+ *
+ * 装配顺序与领域仓储一致：PgEventStore → CryptoShreddingEventStore（先解密）→ UpcastingEventStore（再升级），
+ * 保证重放时拿到的是明文、最新 schemaVersion 的负载；密钥已销毁的字段读取为 `null`。
+ *
+ * @param orm - MikroORM 实例（不参与事务）
+ * @param registry - 事件升级器注册表（默认空）
+ */
+export function createAdminEventStore(orm: MikroORM, registry = new UpcasterRegistry()): EventStorePort {
+	const txHost = { getCurrentEntityManager: () => null };
+	const shredder = new CryptoShredder(new PgKeyVault(orm, txHost));
+	return new UpcastingEventStore(
+		new CryptoShreddingEventStore(new PgEventStore(orm, txHost), shredder, ADMIN_PII_POLICIES),
+		registry
+	);
+}
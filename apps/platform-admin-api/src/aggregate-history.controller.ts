@@ -0,0 +1,70 @@
+import { BadRequestException, Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiQuery, ApiResponse } from '@nestjs/swagger';
+import { JwtAuthGuard } from '@oksai/auth';
+import { type PointInTime } from '@oksai/event-store';
+import { AggregateHistoryService, type AggregateHistoryView } from './aggregate-history.service';
+
+/**
+ * 聚合时点查询控制器
+ *
+ * 提供合规审计接口：查询租户下某个聚合在指定时刻或版本的状态及其来源事件
+ */
+@ApiTags('审计')
+@Controller('tenants/:tenantId/aggregates')
+@UseGuards(JwtAuthGuard)
+export class AggregateHistoryController {
+	constructor(private readonly historyService: AggregateHistoryService) {}
+
+	/**
+	 * 查询聚合时点状态
+	 */
+	@Get(':aggregateType/:aggregateId/history')
+	@ApiOperation({
+		summary: '查询聚合时点状态',
+		description: '按事件流重建聚合在指定时刻（asOf）或版本（version）的状态，并返回产生该状态的事件列表'
+	})
+	@ApiQuery({
+		name: 'asOf',
+		required: false,
+		description: 'ISO 8601 时间，包含该时刻',
+		example: '2026-01-01T00:00:00Z'
+	})
+	@ApiQuery({ name: 'version', required: false, description: '事件流版本，包含该版本', example: 3 })
+	@ApiResponse({ status: 200, description: '查询成功' })
+	@ApiResponse({ status: 400, description: 'asOf 与 version 缺失、同时提供或格式非法' })
+	@ApiResponse({ status: 404, description: '聚合在该时间点不存在或不属于该租户' })
+	@ApiResponse({
+		status: 422,
+		description: '事件流中存在无法重放的事件（未知事件或 PII 字段已被擦除），消息包含事件 ID'
+	})
+	getStateAsOf(
+		@Param('tenantId') tenantId: string,
+		@Param('aggregateType') aggregateType: string,
+		@Param('aggregateId') aggregateId: string,
+		@Query('asOf') asOf?: string,
+		@Query('version') version?: string
+	): Promise<AggregateHistoryView> {
+		return this.historyService.getStateAsOf(tenantId, aggregateType, aggregateId, parsePointInTime(asOf, version));
+	}
+}
+
+/**
+ * 解析时间点查询参数（asOf 与 version 二选一）
+ */
+function parsePointInTime(asOf?: string, version?: string): PointInTime {
+	if ((asOf === undefined) === (version === undefined)) {
+		throw new BadRequestException('必须且只能提供 asOf 或 version 之一');
+	}
+	if (version !== undefined) {
+		const parsed = Number(version);
+		if (!Number.isInteger(parsed) || parsed < 1) {
+			throw new BadRequestException(`version 必须为正整数，实际为 ${version}`);
+		}
+		return parsed;
+	}
+	const timestamp = new Date(asOf as string);
+	if (Number.isNaN(timestamp.getTime())) {
+		throw new BadRequestException(`asOf 不是合法的 ISO 8601 时间：${asOf}`);
+	}
+	return timestamp;
+}
@@ -0,0 +1,157 @@
+import { Inject, Injectable, NotFoundException, UnprocessableEntityException } from '@nestjs/common';
+import { type EventStorePort, type PointInTime, type StoredEvent } from '@oksai/event-store';
+import { type EventSourcedAggregateRoot, UniqueEntityID } from '@oksai/kernel';
+import { Tenant } from '@oksai/tenant';
+import { User } from '@oksai/identity';
+
+/**
+ * 时点查询使用的事件存储 token
+ */
+export const ADMIN_EVENT_STORE = Symbol('ADMIN_EVENT_STORE');
+
+/**
+ * 可时点查询的聚合定义
+ */
+interface AggregateHistoryDefinition {
+	/**
+	 * 从历史事件重建聚合并导出状态
+	 *
+	 * @throws UnprocessableEntityException 事件无法重放时（未知事件、PII 字段已被擦除等）
+	 */
+	rebuildState: (aggregateId: string, events: readonly StoredEvent[]) => Record<string, unknown>;
+}
+
+const AGGREGATE_DEFINITIONS: Record<string, AggregateHistoryDefinition> = {
+	Tenant: {
+		rebuildState: (aggregateId, events) => {
+			const tenant = replayEvents(Tenant.fromHistory(new UniqueEntityID(aggregateId), []), events);
+			return {
+				name: tenant.name?.value,
+				plan: tenant.plan?.value,
+				status: tenant.status?.value
+			};
+		}
+	},
+	User: {
+		rebuildState: (aggregateId, events) => {
+			const user = replayEvents(User.fromHistory(new UniqueEntityID(aggregateId), []), events);
+			return {
+				email: user.email?.value,
+				disabled: user.disabled,
+				disabledReason: user.disabledReason,
+				roles: (user.roles ?? []).map((r) => r.value),
+				tenantMemberships: (user.tenantMemberships ?? []).map((id) => id.toString())
+			};
+		}
+	}
+};
+
+/**
+ * 逐个重放事件，失败时指明是哪一个事件
+ *
+ * 领域聚合对未知事件、非递增版本或已被擦除的 PII 字段抛出普通 Error，这里转换为 422，避免返回 500
+ */
+function replayEvents<A extends EventSourcedAggregateRoot<unknown>>(aggregate: A, events: readonly StoredEvent[]): A {
+	for (const event of events) {
+		try {
+			aggregate.loadFromHistory([event]);
+		} catch (error) {
+			throw new UnprocessableEntityException(
+				`事件无法重放：${event.eventId}（${event.eventName} v${event.eventVersion}）：${
+					error instanceof Error ? error.message : String(error)
+				}`
+			);
+		}
+	}
+	return aggregate;
+}
+
+/**
+ * 聚合历史事件（响应视图）
+ */
+export interface AggregateHistoryEventView {
+	eventId: string;
+	eventName: string;
+	eventVersion: number;
+	schemaVersion: number;
+	occurredAt: string;
+	payload: Record<string, unknown>;
+}
+
+/**
+ * 聚合时点状态（响应视图）
+ */
+export interface AggregateHistoryView {
+	tenantId: string;
+	aggregateType: string;
+	aggregateId: string;
+	asOf: { timestamp?: string; version?: number };
+	version: number;
+	state: Record<string, unknown>;
+	events: AggregateHistoryEventView[];
+}
+
+/**
+ * 聚合时点查询服务
+ *
+ * 用于合规审计：按租户重建聚合在指定时刻（或版本）的状态，并返回产生该状态的事件列表。
+ *
+ * 租户隔离：事件流中任一事件不属于请求的租户时，按“不存在”处理，避免跨租户探测。
+ */
+@Injectable()
+export class AggregateHistoryService {
+	constructor(@Inject(ADMIN_EVENT_STORE) private readonly eventStore: EventStorePort) {}
+
+	/**
+	 * 支持时点查询的聚合类型
+	 */
+	getSupportedTypes(): string[] {
+		return Object.keys(AGGREGATE_DEFINITIONS);
+	}
+
+	/**
+	 * 查询聚合在指定时间点的状态
+	 *
+	 * @param tenantId - 租户 ID
+	 * @param aggregateType - 聚合类型（如 Tenant、User）
+	 * @param aggregateId - 聚合 ID
+	 * @param asOf - 时间点（发生时间或事件流版本，均包含）
+	 * @throws NotFoundException 聚合类型不支持、聚合在该时间点不存在或不属于该租户时
+	 * @throws UnprocessableEntityException 事件流中存在无法重放的事件时（消息包含事件 ID）
+	 */
+	async getStateAsOf(
+		tenantId: string,
+		aggregateType: string,
+		aggregateId: string,
+		asOf: PointInTime
+	): Promise<AggregateHistoryView> {
+		const definition = AGGREGATE_DEFINITIONS[aggregateType];
+		if (!definition) {
+			throw new NotFoundException(
+				`不支持的聚合类型：${aggregateType}（支持：${this.getSupportedTypes().join('、')}）`
+			);
+		}
+
+		const stream = await this.eventStore.loadUntil(aggregateId, asOf);
+		if (!stream.hasEvents() || stream.events.some((e) => e.tenantId !== tenantId)) {
+			throw new NotFoundException(`未找到${aggregateType}: ${aggregateId}（tenantId=${tenantId}）`);
+		}
+
+		return {
+			tenantId,
+			aggregateType,
+			aggregateId,
+			asOf: asOf instanceof Date ? { timestamp: asOf.toISOString() } : { version: asOf },
+			version: stream.version,
+			state: definition.rebuildState(aggregateId, stream.events),
+			events: stream.events.map((e) => ({
+				eventId: e.eventId,
+				eventName: e.eventName,
+				eventVersion: e.eventVersion,
+				schemaVersion: e.schemaVersion,
+				occurredAt: e.occurredAt.toISOString(),
+				payload: e.payload
+			}))
+		};
+	}
+}
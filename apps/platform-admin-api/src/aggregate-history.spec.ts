@@ -0,0 +1,182 @@
+jest.mock('@oksai/auth', () => ({ JwtAuthGuard: class JwtAuthGuard {} }));
+
+import { BadRequestException, NotFoundException, UnprocessableEntityException } from '@nestjs/common';
+import { EventStream, StoredEvent, StoredEventStatus, UpcastingEventStore } from '@oksai/event-store';
+import { type MikroORM } from '@mikro-orm/core';
+import { createAdminEventStore } from './admin-event-store';
+import { AggregateHistoryController } from './aggregate-history.controller';
+import { AggregateHistoryService } from './aggregate-history.service';
+
+function createEvent(
+	eventVersion: number,
+	eventName: string,
+	payload: Record<string, unknown>,
+	tenantId = 'tenant-001'
+): StoredEvent {
+	return StoredEvent.fromProps({
+		eventId: `evt-${eventVersion}`,
+		eventName,
+		aggregateId: 'tenant-001',
+		tenantId,
+		payload,
+		eventVersion,
+		schemaVersion: 1,
+		occurredAt: new Date(`2026-01-0${eventVersion}T00:00:00.000Z`),
+		status: StoredEventStatus.PROCESSED
+	});
+}
+
+/**
+ * @description 创建 EventStorePort 的 mock
+ */
+const createMockEventStore = () => ({
+	append: jest.fn(),
+	load: jest.fn(),
+	loadFromVersion: jest.fn(),
+	loadUntil: jest.fn(),
+	hasEvents: jest.fn(),
+	readAll: jest.fn()
+});
+
+describe('AggregateHistoryService', () => {
+	let service: AggregateHistoryService;
+	let mockEventStore: ReturnType<typeof createMockEventStore>;
+
+	beforeEach(() => {
+		mockEventStore = createMockEventStore();
+		service = new AggregateHistoryService(mockEventStore);
+	});
+
+	it('应该重建租户在指定时间点的状态并返回来源事件', async () => {
+		const asOf = new Date('2026-01-02T12:00:00.000Z');
+		mockEventStore.loadUntil.mockResolvedValue(
+			EventStream.create('tenant-001', [
+				createEvent(1, 'TenantCreated', { tenantId: 'tenant-001', name: 'Acme', plan: 'free' }),
+				createEvent(2, 'TenantActivated', { tenantId: 'tenant-001' })
+			])
+		);
+
+		const result = await service.getStateAsOf('tenant-001', 'Tenant', 'tenant-001', asOf);
+
+		expect(mockEventStore.loadUntil).toHaveBeenCalledWith('tenant-001', asOf);
+		expect(result.state).toEqual({ name: 'Acme', plan: 'free', status: 'active' });
+		expect(result.version).toBe(2);
+		expect(result.asOf).toEqual({ timestamp: '2026-01-02T12:00:00.000Z' });
+		expect(result.events.map((e) => e.eventName)).toEqual(['TenantCreated', 'TenantActivated']);
+		expect(result.events[0].occurredAt).toBe('2026-01-01T00:00:00.000Z');
+	});
+
+	it('按版本查询时应该返回版本信息', async () => {
+		mockEventStore.loadUntil.mockResolvedValue(
+			EventStream.create('tenant-001', [
+				createEvent(1, 'TenantCreated', { tenantId: 'tenant-001', name: 'Acme', plan: 'free' })
+			])
+		);
+
+		const result = await service.getStateAsOf('tenant-001', 'Tenant', 'tenant-001', 1);
+
+		expect(result.asOf).toEqual({ version: 1 });
+		expect(result.state).toMatchObject({ status: 'pending' });
+	});
+
+	it('时间点之前不存在事件时应该抛出 NotFoundException', async () => {
+		mockEventStore.loadUntil.mockResolvedValue(EventStream.create('tenant-001', []));
+
+		await expect(service.getStateAsOf('tenant-001', 'Tenant', 'tenant-001', new Date())).rejects.toBeInstanceOf(
+			NotFoundException
+		);
+	});
+
+	it('事件不属于请求租户时应该抛出 NotFoundException', async () => {
+		mockEventStore.loadUntil.mockResolvedValue(
+			EventStream.create('tenant-001', [
+				createEvent(1, 'TenantCreated', { tenantId: 'tenant-001', name: 'Acme', plan: 'free' }, 'tenant-002')
+			])
+		);
+
+		await expect(service.getStateAsOf('tenant-001', 'Tenant', 'tenant-001', 1)).rejects.toBeInstanceOf(
+			NotFoundException
+		);
+	});
+
+	it('存在未知事件时应该抛出 422 并指明事件 ID', async () => {
+		mockEventStore.loadUntil.mockResolvedValue(
+			EventStream.create('tenant-001', [
+				createEvent(1, 'TenantCreated', { tenantId: 'tenant-001', name: 'Acme', plan: 'free' }),
+				createEvent(2, 'TenantRenamed', { name: 'Acme 2' })
+			])
+		);
+
+		const result = service.getStateAsOf('tenant-001', 'Tenant', 'tenant-001', 2);
+
+		await expect(result).rejects.toBeInstanceOf(UnprocessableEntityException);
+		await expect(result).rejects.toThrow('evt-2（TenantRenamed v2）');
+	});
+
+	it('PII 字段已被擦除时应该抛出 422 而不是 500', async () => {
+		mockEventStore.loadUntil.mockResolvedValue(
+			EventStream.create('tenant-001', [createEvent(1, 'UserRegistered', { email: null })])
+		);
+
+		const result = service.getStateAsOf('tenant-001', 'User', 'tenant-001', 1);
+
+		await expect(result).rejects.toBeInstanceOf(UnprocessableEntityException);
+		await expect(result).rejects.toThrow('evt-1（UserRegistered v1）');
+	});
+
+	it('不支持的聚合类型应该抛出 NotFoundException 且不访问事件存储', async () => {
+		await expect(service.getStateAsOf('tenant-001', 'Job', 'job-001', 1)).rejects.toThrow('不支持的聚合类型');
+		expect(mockEventStore.loadUntil).not.toHaveBeenCalled();
+	});
+});
+
+describe('AggregateHistoryController', () => {
+	let controller: AggregateHistoryController;
+	let mockService: { getStateAsOf: jest.Mock };
+
+	beforeEach(() => {
+		mockService = { getStateAsOf: jest.fn().mockResolvedValue({}) };
+		controller = new AggregateHistoryController(mockService as unknown as AggregateHistoryService);
+	});
+
+	it('应该把 asOf 解析为时间', async () => {
+		await controller.getStateAsOf('tenant-001', 'Tenant', 'tenant-001', '2026-01-01T00:00:00Z');
+
+		expect(mockService.getStateAsOf).toHaveBeenCalledWith(
+			'tenant-001',
+			'Tenant',
+			'tenant-001',
+			new Date('2026-01-01T00:00:00Z')
+		);
+	});
+
+	it('应该把 version 解析为版本号', async () => {
+		await controller.getStateAsOf('tenant-001', 'Tenant', 'tenant-001', undefined, '3');
+
+		expect(mockService.getStateAsOf).toHaveBeenCalledWith('tenant-001', 'Tenant', 'tenant-001', 3);
+	});
+
+	it('asOf 与 version 都缺失或同时提供时应该返回 400', () => {
+		expect(() => controller.getStateAsOf('tenant-001', 'Tenant', 'tenant-001')).toThrow(BadRequestException);
+		expect(() => controller.getStateAsOf('tenant-001', 'Tenant', 'tenant-001', '2026-01-01', '3')).toThrow(
+			BadRequestException
+		);
+	});
+
+	it('参数格式非法时应该返回 400', () => {
+		expect(() => controller.getStateAsOf('tenant-001', 'Tenant', 'tenant-001', 'yesterday')).toThrow(
+			'asOf 不是合法的 ISO 8601 时间'
+		);
+		expect(() => controller.getStateAsOf('tenant-001', 'Tenant', 'tenant-001', undefined, '0')).toThrow(
+			'version 必须为正整数'
+		);
+	});
+});
+
+describe('createAdminEventStore', () => {
+	it('应该经过解密与升级装饰器读取事件', () => {
+		const store = createAdminEventStore({} as MikroORM);
+
+		expect(store).toBeInstanceOf(UpcastingEventStore);
+	});
+});
@@ -3,9 +3,21 @@ import { ConfigModule, ConfigService } from '@oksai/config';
 import { OksaiPlatformModule } from '@oksai/app-kit';
 import { setupMikroOrmModule, createMikroOrmConfig } from '@oksai/database';
 import { AuthModule, betterAuthEntities } from '@oksai/auth';
+import { MikroORM } from '@mikro-orm/core';
+import {
+	IntegrationEventSubscriberControlService,
+	IntegrationOutboxDeadLetterService,
+	IntegrationSagaAdminService
+} from '@oksai/eda';
 import { HealthController } from './health.controller';
 import { SystemController } from './system.controller';
 import { AuthTestController } from './auth-test.controller.js';
+import { AggregateHistoryController } from './aggregate-history.controller';
+import { AggregateHistoryService, ADMIN_EVENT_STORE } from './aggregate-history.service';
+import { createAdminEventStore } from './admin-event-store';
+import { DeadLetterController } from './dead-letter.controller';
+import { SagaController } from './saga.controller';
+import { SubscriberControlController } from './subscriber-control.controller';
 import { appConfigSchema, createAppConfiguration } from './app.config';
 
 /**
@@ -15,7 +27,7 @@ import { appConfigSchema, createAppConfiguration } from './app.config';
  * - 导入并装配 OksaiPlatformModule
  * - 配置 MikroORM 数据库连接
  * - 导入 AuthModule 提供认证功能
- * - 注册管理控制器（健康检查、系统状态、认证测试等）
+ * - 注册管理控制器（健康检查、系统状态、认证测试、聚合时点查询、死信管理、Saga 运维、订阅者暂停/恢复等）
  * - 配置管理中间件和拦截器
  */
 @Module({
@@ -38,7 +50,8 @@ import { appConfigSchema, createAppConfiguration } from './app.config';
 					prettyLog: appConfig.prettyLog
 				};
 			},
-			inject: [ConfigService]
+			inject: [ConfigService],
+			enableTracing: true
 		}),
 		// 数据库模块 - MikroORM（包含 Better Auth 实体）
 		setupMikroOrmModule({
@@ -47,8 +60,41 @@ import { appConfigSchema, createAppConfiguration } from './app.config';
 		// 认证模块 - 提供 Better Auth 集成
 		AuthModule
 	],
-	controllers: [HealthController, SystemController, AuthTestController],
+	controllers: [
+		HealthController,
+		SystemController,
+		AuthTestController,
+		AggregateHistoryController,
+		DeadLetterController,
+		SagaController,
+		SubscriberControlController
+	],
 	providers: [
+		// 时点查询只读事件存储（解密 PII、升级 schema），不参与事务
+		{
+			provide: ADMIN_EVENT_STORE,
+			useFactory: (orm: MikroORM) => createAdminEventStore(orm),
+			inject: [MikroORM]
+		},
+		AggregateHistoryService,
+		// 死信管理：重放在服务内自行开启事务
+		{
+			provide: IntegrationOutboxDeadLetterService,
+			useFactory: (orm: MikroORM) => new IntegrationOutboxDeadLetterService({ em: orm.em }),
+			inject: [MikroORM]
+		},
+		// Saga 运维查询（只读）
+		{
+			provide: IntegrationSagaAdminService,
+			useFactory: (orm: MikroORM) => new IntegrationSagaAdminService({ em: orm.em }),
+			inject: [MikroORM]
+		},
+		// 订阅者暂停/恢复开关
+		{
+			provide: IntegrationEventSubscriberControlService,
+			useFactory: (orm: MikroORM) => new IntegrationEventSubscriberControlService({ em: orm.em }),
+			inject: [MikroORM]
+		},
 		{
 			provide: 'APP_CONFIG',
 			useFactory: (config: ConfigService) => {
@@ -0,0 +1,253 @@
+import {
+	BadRequestException,
+	Body,
+	Controller,
+	Get,
+	HttpCode,
+	HttpStatus,
+	NotFoundException,
+	Param,
+	Post,
+	Query,
+	UseGuards
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiQuery, ApiResponse } from '@nestjs/swagger';
+import { JwtAuthGuard, CurrentUser, type CurrentUserData } from '@oksai/auth';
+import {
+	IntegrationOutboxDeadLetterService,
+	type IntegrationDeadLetterBatchResult,
+	type IntegrationDeadLetterFilter,
+	type IntegrationDeadLetterRow
+} from '@oksai/eda';
+
+/**
+ * 单次批量操作的最大事件数
+ */
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * 死信（响应视图）
+ */
+export interface DeadLetterView {
+	eventId: string;
+	tenantId: string;
+	eventName: string;
+	eventVersion: number;
+	partitionKey: string;
+	retryCount: number;
+	lastError: string | null;
+	processorName: string | null;
+	consumerName: string | null;
+	occurredAt: string;
+	deadAt: string;
+	status: string;
+	discardedAt: string | null;
+	discardedBy: string | null;
+	discardNote: string | null;
+}
+
+/**
+ * 死信详情（含事件信封）
+ */
+export interface DeadLetterDetailView extends DeadLetterView {
+	envelope: unknown;
+}
+
+/**
+ * 集成事件死信管理控制器
+ *
+ * 提供运维接口：查询 integration_outbox 死信、查看事件信封、重放（回到 pending 并清零重试次数）与丢弃（记录审计备注）
+ */
+@ApiTags('运维')
+@Controller('integration/dead-letters')
+@UseGuards(JwtAuthGuard)
+export class DeadLetterController {
+	constructor(private readonly deadLetters: IntegrationOutboxDeadLetterService) {}
+
+	/**
+	 * 查询死信列表
+	 */
+	@Get()
+	@ApiOperation({
+		summary: '查询死信列表',
+		description: '按进入死信时间倒序分页返回，默认只返回待处理（dead）的死信'
+	})
+	@ApiQuery({ name: 'tenantId', required: false, description: '租户 ID' })
+	@ApiQuery({ name: 'eventName', required: false, description: '事件名称', example: 'identity.user.registered' })
+	@ApiQuery({ name: 'error', required: false, description: '错误信息包含的文本（不区分大小写）' })
+	@ApiQuery({ name: 'from', required: false, description: '进入死信时间下界（ISO 8601，包含）' })
+	@ApiQuery({ name: 'to', required: false, description: '进入死信时间上界（ISO 8601，不包含）' })
+	@ApiQuery({ name: 'status', required: false, description: 'dead 或 discarded，默认 dead' })
+	@ApiQuery({ name: 'limit', required: false, description: '单页条数（默认 20，最大 100）' })
+	@ApiQuery({ name: 'offset', required: false, description: '偏移量（默认 0）' })
+	@ApiResponse({ status: 200, description: '查询成功' })
+	@ApiResponse({ status: 400, description: '查询参数格式非法' })
+	async list(
+		@Query('tenantId') tenantId?: string,
+		@Query('eventName') eventName?: string,
+		@Query('error') error?: string,
+		@Query('from') from?: string,
+		@Query('to') to?: string,
+		@Query('status') status?: string,
+		@Query('limit') limit?: string,
+		@Query('offset') offset?: string
+	): Promise<{ items: DeadLetterView[]; total: number }> {
+		const filter: IntegrationDeadLetterFilter = {
+			tenantId: tenantId || undefined,
+			eventName: eventName || undefined,
+			errorContains: error || undefined,
+			deadFrom: parseOptionalDate('from', from),
+			deadTo: parseOptionalDate('to', to),
+			status: parseOptionalStatus(status),
+			limit: parseOptionalInt('limit', limit, 1),
+			offset: parseOptionalInt('offset', offset, 0)
+		};
+		const result = await this.deadLetters.list(filter);
+		return { items: result.items.map(toDeadLetterView), total: result.total };
+	}
+
+	/**
+	 * 查看死信详情
+	 */
+	@Get(':eventId')
+	@ApiOperation({ summary: '查看死信详情', description: '返回死信信息及完整的集成事件信封' })
+	@ApiResponse({ status: 200, description: '查询成功' })
+	@ApiResponse({ status: 404, description: '死信不存在' })
+	async get(@Param('eventId') eventId: string): Promise<DeadLetterDetailView> {
+		const row = await this.deadLetters.get(eventId);
+		if (!row) {
+			throw new NotFoundException(`未找到死信：eventId=${eventId}`);
+		}
+		return { ...toDeadLetterView(row), envelope: row.payload };
+	}
+
+	/**
+	 * 批量重放死信
+	 */
+	@Post('replay')
+	@HttpCode(HttpStatus.OK)
+	@ApiOperation({ summary: '批量重放死信', description: '事件回到 integration_outbox pending 并清零重试次数' })
+	@ApiResponse({ status: 200, description: '处理完成；不存在或已丢弃的事件计入 skipped' })
+	@ApiResponse({ status: 400, description: 'eventIds 缺失或超过上限' })
+	replayMany(@Body() body: { eventIds?: unknown }): Promise<IntegrationDeadLetterBatchResult> {
+		return this.deadLetters.replay(parseEventIds(body?.eventIds));
+	}
+
+	/**
+	 * 重放单条死信
+	 */
+	@Post(':eventId/replay')
+	@HttpCode(HttpStatus.OK)
+	@ApiOperation({ summary: '重放单条死信' })
+	@ApiResponse({ status: 200, description: '重放成功' })
+	@ApiResponse({ status: 404, description: '死信不存在或已丢弃' })
+	async replayOne(@Param('eventId') eventId: string): Promise<IntegrationDeadLetterBatchResult> {
+		const result = await this.deadLetters.replay([eventId]);
+		if (result.succeeded.length === 0) {
+			throw new NotFoundException(`未找到待处理的死信：eventId=${eventId}`);
+		}
+		return result;
+	}
+
+	/**
+	 * 批量丢弃死信
+	 */
+	@Post('discard')
+	@HttpCode(HttpStatus.OK)
+	@ApiOperation({ summary: '批量丢弃死信', description: '死信标记为 discarded，记录操作人与备注' })
+	@ApiResponse({ status: 200, description: '处理完成；不存在或已丢弃的事件计入 skipped' })
+	@ApiResponse({ status: 400, description: 'eventIds 或 note 缺失' })
+	discardMany(
+		@CurrentUser() user: CurrentUserData,
+		@Body() body: { eventIds?: unknown; note?: unknown }
+	): Promise<IntegrationDeadLetterBatchResult> {
+		return this.deadLetters.discard(parseEventIds(body?.eventIds), {
+			actor: user.id,
+			note: parseNote(body?.note)
+		});
+	}
+
+	/**
+	 * 丢弃单条死信
+	 */
+	@Post(':eventId/discard')
+	@HttpCode(HttpStatus.OK)
+	@ApiOperation({ summary: '丢弃单条死信' })
+	@ApiResponse({ status: 200, description: '丢弃成功' })
+	@ApiResponse({ status: 400, description: 'note 缺失' })
+	@ApiResponse({ status: 404, description: '死信不存在或已丢弃' })
+	async discardOne(
+		@CurrentUser() user: CurrentUserData,
+		@Param('eventId') eventId: string,
+		@Body() body: { note?: unknown }
+	): Promise<IntegrationDeadLetterBatchResult> {
+		const result = await this.deadLetters.discard([eventId], { actor: user.id, note: parseNote(body?.note) });
+		if (result.succeeded.length === 0) {
+			throw new NotFoundException(`未找到待处理的死信：eventId=${eventId}`);
+		}
+		return result;
+	}
+}
+
+function toDeadLetterView(row: IntegrationDeadLetterRow): DeadLetterView {
+	return {
+		eventId: row.event_id,
+		tenantId: row.tenant_id,
+		eventName: row.event_name,
+		eventVersion: row.event_version,
+		partitionKey: row.partition_key,
+		retryCount: row.retry_count,
+		lastError: row.last_error,
+		processorName: row.processor_name,
+		consumerName: row.consumer_name,
+		occurredAt: new Date(row.occurred_at).toISOString(),
+		deadAt: new Date(row.dead_at).toISOString(),
+		status: row.status,
+		discardedAt: row.discarded_at ? new Date(row.discarded_at).toISOString() : null,
+		discardedBy: row.discarded_by,
+		discardNote: row.discard_note
+	};
+}
+
+function parseOptionalDate(name: string, value?: string): Date | undefined {
+	if (!value) return undefined;
+	const parsed = new Date(value);
+	if (Number.isNaN(parsed.getTime())) {
+		throw new BadRequestException(`${name} 不是合法的 ISO 8601 时间：${value}`);
+	}
+	return parsed;
+}
+
+function parseOptionalInt(name: string, value: string | undefined, min: number): number | undefined {
+	if (!value) return undefined;
+	const parsed = Number(value);
+	if (!Number.isInteger(parsed) || parsed < min) {
+		throw new BadRequestException(`${name} 必须为不小于 ${min} 的整数，实际为 ${value}`);
+	}
+	return parsed;
+}
+
+function parseOptionalStatus(value?: string): IntegrationDeadLetterFilter['status'] {
+	if (!value) return undefined;
+	if (value !== 'dead' && value !== 'discarded') {
+		throw new BadRequestException(`status 只能为 dead 或 discarded，实际为 ${value}`);
+	}
+	return value;
+}
+
+function parseEventIds(value: unknown): string[] {
+	if (!Array.isArray(value) || value.length === 0 || value.some((id) => typeof id !== 'string' || !id.trim())) {
+		throw new BadRequestException('eventIds 必须为非空字符串数组');
+	}
+	if (value.length > MAX_BATCH_SIZE) {
+		throw new BadRequestException(`eventIds 单次最多 ${MAX_BATCH_SIZE} 个，实际为 ${value.length}`);
+	}
+	return value as string[];
+}
+
+function parseNote(value: unknown): string {
+	if (typeof value !== 'string' || !value.trim()) {
+		throw new BadRequestException('丢弃死信必须填写备注（note）');
+	}
+	return value;
+}
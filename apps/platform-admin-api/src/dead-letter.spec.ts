@@ -0,0 +1,150 @@
+jest.mock('@oksai/auth', () => ({ JwtAuthGuard: class JwtAuthGuard {}, CurrentUser: () => () => undefined }));
+
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import type { CurrentUserData } from '@oksai/auth';
+import type { IntegrationDeadLetterRow, IntegrationOutboxDeadLetterService } from '@oksai/eda';
+import { DeadLetterController } from './dead-letter.controller';
+
+function createRow(overrides: Partial<IntegrationDeadLetterRow> = {}): IntegrationDeadLetterRow {
+	return {
+		event_id: 'evt-001',
+		tenant_id: 'tenant-001',
+		event_name: 'identity.user.registered',
+		event_version: 1,
+		partition_key: 'tenant-001',
+		payload: { eventId: 'evt-001', data: { userId: 'u-001' } },
+		retry_count: 10,
+		last_error: 'timeout',
+		processor_name: 'communication.outbox-worker',
+		consumer_name: 'communication.email-sender',
+		occurred_at: new Date('2026-01-01T00:00:00.000Z'),
+		dead_at: '2026-01-02T00:00:00.000Z',
+		status: 'dead',
+		discarded_at: null,
+		discarded_by: null,
+		discard_note: null,
+		...overrides
+	};
+}
+
+/**
+ * @description 创建死信服务的 mock
+ */
+const createMockDeadLetterService = () => ({
+	list: jest.fn(),
+	get: jest.fn(),
+	replay: jest.fn(),
+	discard: jest.fn()
+});
+
+describe('DeadLetterController', () => {
+	const user = { id: 'admin-001' } as CurrentUserData;
+	let controller: DeadLetterController;
+	let mockService: ReturnType<typeof createMockDeadLetterService>;
+
+	beforeEach(() => {
+		mockService = createMockDeadLetterService();
+		controller = new DeadLetterController(mockService as unknown as IntegrationOutboxDeadLetterService);
+	});
+
+	describe('list', () => {
+		it('应该解析查询参数并返回视图', async () => {
+			mockService.list.mockResolvedValue({ items: [createRow()], total: 1 });
+
+			const result = await controller.list(
+				'tenant-001',
+				'identity.user.registered',
+				'time',
+				'2026-01-01T00:00:00Z',
+				'2026-02-01T00:00:00Z',
+				'dead',
+				'50',
+				'0'
+			);
+
+			expect(mockService.list).toHaveBeenCalledWith({
+				tenantId: 'tenant-001',
+				eventName: 'identity.user.registered',
+				errorContains: 'time',
+				deadFrom: new Date('2026-01-01T00:00:00Z'),
+				deadTo: new Date('2026-02-01T00:00:00Z'),
+				status: 'dead',
+				limit: 50,
+				offset: 0
+			});
+			expect(result.total).toBe(1);
+			expect(result.items[0]).toMatchObject({
+				eventId: 'evt-001',
+				retryCount: 10,
+				occurredAt: '2026-01-01T00:00:00.000Z',
+				deadAt: '2026-01-02T00:00:00.000Z',
+				discardedAt: null
+			});
+		});
+
+		it('查询参数格式非法时应该返回 400', async () => {
+			await expect(controller.list(undefined, undefined, undefined, 'yesterday')).rejects.toThrow(
+				'from 不是合法的 ISO 8601 时间'
+			);
+			await expect(
+				controller.list(undefined, undefined, undefined, undefined, undefined, 'replayed')
+			).rejects.toBeInstanceOf(BadRequestException);
+			await expect(
+				controller.list(undefined, undefined, undefined, undefined, undefined, undefined, '0')
+			).rejects.toThrow('limit 必须为不小于 1 的整数');
+			expect(mockService.list).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('get', () => {
+		it('应该返回包含事件信封的详情', async () => {
+			mockService.get.mockResolvedValue(createRow());
+
+			const result = await controller.get('evt-001');
+
+			expect(result.envelope).toEqual({ eventId: 'evt-001', data: { userId: 'u-001' } });
+		});
+
+		it('死信不存在时应该抛出 NotFoundException', async () => {
+			mockService.get.mockResolvedValue(null);
+
+			await expect(controller.get('evt-404')).rejects.toBeInstanceOf(NotFoundException);
+		});
+	});
+
+	describe('replay', () => {
+		it('批量重放应该校验 eventIds', () => {
+			expect(() => controller.replayMany({ eventIds: [] })).toThrow('eventIds 必须为非空字符串数组');
+			expect(() => controller.replayMany({ eventIds: ['evt-001', 1] })).toThrow(BadRequestException);
+			expect(() =>
+				controller.replayMany({ eventIds: Array.from({ length: 101 }, (_, i) => `evt-${i}`) })
+			).toThrow('eventIds 单次最多 100 个');
+			expect(mockService.replay).not.toHaveBeenCalled();
+		});
+
+		it('单条重放未命中待处理死信时应该抛出 NotFoundException', async () => {
+			mockService.replay.mockResolvedValue({ succeeded: [], skipped: ['evt-001'] });
+
+			await expect(controller.replayOne('evt-001')).rejects.toBeInstanceOf(NotFoundException);
+			expect(mockService.replay).toHaveBeenCalledWith(['evt-001']);
+		});
+	});
+
+	describe('discard', () => {
+		it('应该以当前用户作为操作人记录备注', async () => {
+			mockService.discard.mockResolvedValue({ succeeded: ['evt-001'], skipped: [] });
+
+			await controller.discardOne(user, 'evt-001', { note: '下游已人工补偿' });
+
+			expect(mockService.discard).toHaveBeenCalledWith(['evt-001'], {
+				actor: 'admin-001',
+				note: '下游已人工补偿'
+			});
+		});
+
+		it('缺少备注时应该返回 400', () => {
+			expect(() => controller.discardMany(user, { eventIds: ['evt-001'] })).toThrow('必须填写备注');
+			expect(mockService.discard).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -5,6 +5,7 @@ import { AppModule } from './app.module';
 import { ConfigService } from '@oksai/config';
 import { OksaiLoggerService } from '@oksai/logger';
 import { BetterAuthAdapter } from '@oksai/auth';
+import { configureOksaiTracing, createOksaiSpanExporter } from '@oksai/context';
 import { setupSwagger } from '@oksai/app-kit';
 import { appConfigSchema, createAppConfiguration } from './app.config';
 
@@ -29,6 +30,16 @@ async function bootstrap() {
 	const configService = app.get(ConfigService);
 	const appConfig = createAppConfiguration(configService.validate(appConfigSchema));
 
+	// 链路追踪：导出器由 OKSAI_TRACING_EXPORTER 选择（console / otlp-file / none）
+	// 须在 listen 之前配置（模块初始化与请求处理才开始产生 span）
+	configureOksaiTracing({
+		serviceName: 'platform-admin-api',
+		exporter: createOksaiSpanExporter({
+			exporter: configService.get('OKSAI_TRACING_EXPORTER'),
+			filePath: configService.get('OKSAI_TRACING_FILE')
+		})
+	});
+
 	// 启用 CORS
 	app.enableCors();
 
@@ -0,0 +1,182 @@
+import { BadRequestException, Controller, Get, NotFoundException, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiQuery, ApiResponse } from '@nestjs/swagger';
+import { JwtAuthGuard } from '@oksai/auth';
+import {
+	IntegrationSagaAdminService,
+	type IntegrationSagaFilter,
+	type IntegrationSagaInstanceRow,
+	type IntegrationSagaStatus,
+	type IntegrationSagaSummaryRow
+} from '@oksai/eda';
+
+const SAGA_STATUSES: IntegrationSagaStatus[] = ['running', 'compensating', 'completed', 'compensated', 'failed'];
+
+/**
+ * Saga 实例（响应视图）
+ */
+export interface SagaView {
+	id: string;
+	sagaName: string;
+	tenantId: string;
+	correlationId: string;
+	status: IntegrationSagaStatus;
+	currentStep: number;
+	currentStepName: string | null;
+	stepAttempts: number;
+	awaitingEventName: string | null;
+	deadlineAt: string | null;
+	lastError: string | null;
+	startedAt: string;
+	updatedAt: string;
+	finishedAt: string | null;
+}
+
+/**
+ * Saga 实例详情（含流程数据与状态迁移记录）
+ */
+export interface SagaDetailView extends SagaView {
+	state: unknown;
+	history: unknown;
+}
+
+/**
+ * Saga 统计（响应视图）
+ */
+export interface SagaSummaryView {
+	sagaName: string;
+	status: IntegrationSagaStatus;
+	count: number;
+	stuck: number;
+}
+
+/**
+ * 集成事件 Saga 运维控制器
+ *
+ * 提供只读运维接口：查询进行中与卡住的 Saga 实例、按流程统计、查看状态迁移记录
+ */
+@ApiTags('运维')
+@Controller('integration/sagas')
+@UseGuards(JwtAuthGuard)
+export class SagaController {
+	constructor(private readonly sagas: IntegrationSagaAdminService) {}
+
+	/**
+	 * 查询 Saga 实例列表
+	 */
+	@Get()
+	@ApiOperation({
+		summary: '查询 Saga 实例列表',
+		description: '按最近更新时间正序分页返回（最久未进展的在前），默认只返回进行中（running / compensating）的实例'
+	})
+	@ApiQuery({ name: 'sagaName', required: false, description: 'Saga 名称', example: 'tenant.onboarding' })
+	@ApiQuery({ name: 'tenantId', required: false, description: '租户 ID' })
+	@ApiQuery({ name: 'correlationId', required: false, description: '关联 ID' })
+	@ApiQuery({ name: 'status', required: false, description: '实例状态（stuck=true 时忽略）' })
+	@ApiQuery({ name: 'stuck', required: false, description: 'true 时只返回卡住的实例（failed 或长时间无进展）' })
+	@ApiQuery({ name: 'limit', required: false, description: '单页条数（默认 20，最大 100）' })
+	@ApiQuery({ name: 'offset', required: false, description: '偏移量（默认 0）' })
+	@ApiResponse({ status: 200, description: '查询成功' })
+	@ApiResponse({ status: 400, description: '查询参数格式非法' })
+	async list(
+		@Query('sagaName') sagaName?: string,
+		@Query('tenantId') tenantId?: string,
+		@Query('correlationId') correlationId?: string,
+		@Query('status') status?: string,
+		@Query('stuck') stuck?: string,
+		@Query('limit') limit?: string,
+		@Query('offset') offset?: string
+	): Promise<{ items: SagaView[]; total: number }> {
+		const filter: IntegrationSagaFilter = {
+			sagaName: sagaName || undefined,
+			tenantId: tenantId || undefined,
+			correlationId: correlationId || undefined,
+			status: parseOptionalStatus(status),
+			stuck: parseOptionalBoolean('stuck', stuck),
+			limit: parseOptionalInt('limit', limit, 1),
+			offset: parseOptionalInt('offset', offset, 0)
+		};
+		const result = await this.sagas.list(filter);
+		return { items: result.items.map(toSagaView), total: result.total };
+	}
+
+	/**
+	 * 按流程与状态统计
+	 */
+	@Get('summary')
+	@ApiOperation({
+		summary: '按流程与状态统计 Saga 实例',
+		description: '进行中与 failed 的实例全部统计，已结束的实例只统计最近 24 小时'
+	})
+	@ApiResponse({ status: 200, description: '查询成功' })
+	async summary(): Promise<SagaSummaryView[]> {
+		const rows = await this.sagas.summarize();
+		return rows.map(toSagaSummaryView);
+	}
+
+	/**
+	 * 查看 Saga 实例详情
+	 */
+	@Get(':id')
+	@ApiOperation({ summary: '查看 Saga 实例详情', description: '返回实例信息、流程数据及状态迁移记录' })
+	@ApiResponse({ status: 200, description: '查询成功' })
+	@ApiResponse({ status: 404, description: 'Saga 实例不存在' })
+	async get(@Param('id') id: string): Promise<SagaDetailView> {
+		const row = await this.sagas.get(id);
+		if (!row) {
+			throw new NotFoundException(`未找到 Saga 实例：id=${id}`);
+		}
+		return { ...toSagaView(row), state: row.state, history: row.history };
+	}
+}
+
+function toSagaView(row: IntegrationSagaInstanceRow): SagaView {
+	return {
+		id: row.id,
+		sagaName: row.saga_name,
+		tenantId: row.tenant_id,
+		correlationId: row.correlation_id,
+		status: row.status,
+		currentStep: Number(row.current_step),
+		currentStepName: row.current_step_name,
+		stepAttempts: Number(row.step_attempts),
+		awaitingEventName: row.awaiting_event_name,
+		deadlineAt: toOptionalIso(row.deadline_at),
+		lastError: row.last_error,
+		startedAt: new Date(row.started_at).toISOString(),
+		updatedAt: new Date(row.updated_at).toISOString(),
+		finishedAt: toOptionalIso(row.finished_at)
+	};
+}
+
+function toSagaSummaryView(row: IntegrationSagaSummaryRow): SagaSummaryView {
+	return { sagaName: row.saga_name, status: row.status, count: row.count, stuck: row.stuck };
+}
+
+function toOptionalIso(value: string | Date | null): string | null {
+	return value ? new Date(value).toISOString() : null;
+}
+
+function parseOptionalInt(name: string, value: string | undefined, min: number): number | undefined {
+	if (!value) return undefined;
+	const parsed = Number(value);
+	if (!Number.isInteger(parsed) || parsed < min) {
+		throw new BadRequestException(`${name} 必须为不小于 ${min} 的整数，实际为 ${value}`);
+	}
+	return parsed;
+}
+
+function parseOptionalBoolean(name: string, value?: string): boolean | undefined {
+	if (!value) return undefined;
+	if (value !== 'true' && value !== 'false') {
+		throw new BadRequestException(`${name} 只能为 true 或 false，实际为 ${value}`);
+	}
+	return value === 'true';
+}
+
+function parseOptionalStatus(value?: string): IntegrationSagaStatus | undefined {
+	if (!value) return undefined;
+	if (!SAGA_STATUSES.includes(value as IntegrationSagaStatus)) {
+		throw new BadRequestException(`status 只能为 ${SAGA_STATUSES.join(' / ')}，实际为 ${value}`);
+	}
+	return value as IntegrationSagaStatus;
+}
@@ -0,0 +1,116 @@
+jest.mock('@oksai/auth', () => ({ JwtAuthGuard: class JwtAuthGuard {} }));
+
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import type { IntegrationSagaAdminService, IntegrationSagaInstanceRow } from '@oksai/eda';
+import { SagaController } from './saga.controller';
+
+function createRow(overrides: Partial<IntegrationSagaInstanceRow> = {}): IntegrationSagaInstanceRow {
+	return {
+		id: 'saga-001',
+		saga_name: 'tenant.onboarding',
+		tenant_id: 'tenant-001',
+		correlation_id: 'req-001',
+		status: 'running',
+		current_step: 1,
+		current_step_name: 'create-default-roles',
+		step_attempts: 2,
+		awaiting_event_name: null,
+		deadline_at: new Date('2026-01-01T00:10:00.000Z'),
+		state: { ownerEmail: 'owner@example.com' },
+		history: [{ at: '2026-01-01T00:00:00.000Z', type: 'started' }],
+		last_error: '步骤 create-default-roles 命令执行失败：timeout',
+		started_at: '2026-01-01T00:00:00.000Z',
+		updated_at: new Date('2026-01-01T00:05:00.000Z'),
+		finished_at: null,
+		...overrides
+	};
+}
+
+/**
+ * @description 创建 Saga 运维服务的 mock
+ */
+const createMockSagaAdminService = () => ({
+	list: jest.fn(),
+	get: jest.fn(),
+	summarize: jest.fn()
+});
+
+describe('SagaController', () => {
+	let controller: SagaController;
+	let mockService: ReturnType<typeof createMockSagaAdminService>;
+
+	beforeEach(() => {
+		mockService = createMockSagaAdminService();
+		controller = new SagaController(mockService as unknown as IntegrationSagaAdminService);
+	});
+
+	describe('list', () => {
+		it('应该解析查询参数并返回视图', async () => {
+			mockService.list.mockResolvedValue({ items: [createRow()], total: 1 });
+
+			const result = await controller.list('tenant.onboarding', 'tenant-001', undefined, 'running', 'true', '50');
+
+			expect(mockService.list).toHaveBeenCalledWith({
+				sagaName: 'tenant.onboarding',
+				tenantId: 'tenant-001',
+				correlationId: undefined,
+				status: 'running',
+				stuck: true,
+				limit: 50,
+				offset: undefined
+			});
+			expect(result.total).toBe(1);
+			expect(result.items[0]).toMatchObject({
+				id: 'saga-001',
+				currentStepName: 'create-default-roles',
+				deadlineAt: '2026-01-01T00:10:00.000Z',
+				startedAt: '2026-01-01T00:00:00.000Z',
+				updatedAt: '2026-01-01T00:05:00.000Z',
+				finishedAt: null
+			});
+			expect(result.items[0]).not.toHaveProperty('history');
+		});
+
+		it('查询参数格式非法时应该返回 400', async () => {
+			await expect(controller.list(undefined, undefined, undefined, 'stuck')).rejects.toBeInstanceOf(
+				BadRequestException
+			);
+			await expect(controller.list(undefined, undefined, undefined, undefined, 'yes')).rejects.toThrow(
+				'stuck 只能为 true 或 false'
+			);
+			await expect(
+				controller.list(undefined, undefined, undefined, undefined, undefined, undefined, '-1')
+			).rejects.toThrow('offset 必须为不小于 0 的整数');
+			expect(mockService.list).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('summary', () => {
+		it('应该返回按流程与状态的统计视图', async () => {
+			mockService.summarize.mockResolvedValue([
+				{ saga_name: 'tenant.onboarding', status: 'failed', count: 2, stuck: 2 }
+			]);
+
+			await expect(controller.summary()).resolves.toEqual([
+				{ sagaName: 'tenant.onboarding', status: 'failed', count: 2, stuck: 2 }
+			]);
+		});
+	});
+
+	describe('get', () => {
+		it('应该返回包含流程数据与状态迁移记录的详情', async () => {
+			mockService.get.mockResolvedValue(createRow());
+
+			const result = await controller.get('saga-001');
+
+			expect(result.state).toEqual({ ownerEmail: 'owner@example.com' });
+			expect(result.history).toEqual([{ at: '2026-01-01T00:00:00.000Z', type: 'started' }]);
+		});
+
+		it('实例不存在时应该抛出 NotFoundException', async () => {
+			mockService.get.mockResolvedValue(null);
+
+			await expect(controller.get('saga-404')).rejects.toBeInstanceOf(NotFoundException);
+		});
+	});
+});
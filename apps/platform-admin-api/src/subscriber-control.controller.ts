@@ -0,0 +1,114 @@
+import {
+	BadRequestException,
+	Body,
+	Controller,
+	Get,
+	HttpCode,
+	HttpStatus,
+	NotFoundException,
+	Param,
+	Post,
+	UseGuards
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { JwtAuthGuard, CurrentUser, type CurrentUserData } from '@oksai/auth';
+import { IntegrationEventSubscriberControlService, type IntegrationSubscriberControlRow } from '@oksai/eda';
+
+/**
+ * 订阅者开关（响应视图）
+ */
+export interface SubscriberControlView {
+	subscriberName: string;
+	paused: boolean;
+	reason: string | null;
+	updatedBy: string | null;
+	pausedAt: string | null;
+	updatedAt: string;
+}
+
+/**
+ * 集成事件订阅者运维控制器
+ *
+ * 提供运维接口：暂停/恢复插件订阅者（所有 Worker 实例在下一批生效），查看当前开关
+ */
+@ApiTags('运维')
+@Controller('integration/subscribers')
+@UseGuards(JwtAuthGuard)
+export class SubscriberControlController {
+	constructor(private readonly controls: IntegrationEventSubscriberControlService) {}
+
+	/**
+	 * 查询订阅者开关列表
+	 */
+	@Get()
+	@ApiOperation({
+		summary: '查询订阅者开关列表',
+		description: '返回设置过开关的订阅者（已暂停的在前）；未出现的订阅者均在正常消费'
+	})
+	@ApiResponse({ status: 200, description: '查询成功' })
+	async list(): Promise<SubscriberControlView[]> {
+		const rows = await this.controls.list();
+		return rows.map(toSubscriberControlView);
+	}
+
+	/**
+	 * 暂停订阅者
+	 */
+	@Post(':subscriberName/pause')
+	@HttpCode(HttpStatus.OK)
+	@ApiOperation({
+		summary: '暂停订阅者',
+		description: '暂停期间事件保留为未处理，恢复后从积压继续消费；正在处理中的批次不受影响'
+	})
+	@ApiResponse({ status: 200, description: '暂停成功（重复暂停时更新原因）' })
+	@ApiResponse({ status: 400, description: 'reason 格式非法' })
+	async pause(
+		@CurrentUser() user: CurrentUserData,
+		@Param('subscriberName') subscriberName: string,
+		@Body() body: { reason?: unknown }
+	): Promise<SubscriberControlView> {
+		const row = await this.controls.pause(subscriberName, {
+			actor: user.id,
+			reason: parseOptionalReason(body?.reason)
+		});
+		return toSubscriberControlView(row);
+	}
+
+	/**
+	 * 恢复订阅者
+	 */
+	@Post(':subscriberName/resume')
+	@HttpCode(HttpStatus.OK)
+	@ApiOperation({ summary: '恢复订阅者' })
+	@ApiResponse({ status: 200, description: '恢复成功' })
+	@ApiResponse({ status: 404, description: '订阅者未暂停' })
+	async resume(
+		@CurrentUser() user: CurrentUserData,
+		@Param('subscriberName') subscriberName: string
+	): Promise<SubscriberControlView> {
+		const row = await this.controls.resume(subscriberName, { actor: user.id });
+		if (!row) {
+			throw new NotFoundException(`订阅者未暂停：subscriberName=${subscriberName}`);
+		}
+		return toSubscriberControlView(row);
+	}
+}
+
+function toSubscriberControlView(row: IntegrationSubscriberControlRow): SubscriberControlView {
+	return {
+		subscriberName: row.subscriber_name,
+		paused: row.paused,
+		reason: row.reason,
+		updatedBy: row.updated_by,
+		pausedAt: row.paused_at ? new Date(row.paused_at).toISOString() : null,
+		updatedAt: new Date(row.updated_at).toISOString()
+	};
+}
+
+function parseOptionalReason(value: unknown): string | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (typeof value !== 'string') {
+		throw new BadRequestException('reason 必须为字符串');
+	}
+	return value;
+}
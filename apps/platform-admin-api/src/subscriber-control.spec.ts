@@ -0,0 +1,98 @@
+jest.mock('@oksai/auth', () => ({ JwtAuthGuard: class JwtAuthGuard {}, CurrentUser: () => () => undefined }));
+
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import type { CurrentUserData } from '@oksai/auth';
+import type { IntegrationEventSubscriberControlService, IntegrationSubscriberControlRow } from '@oksai/eda';
+import { SubscriberControlController } from './subscriber-control.controller';
+
+function createRow(overrides: Partial<IntegrationSubscriberControlRow> = {}): IntegrationSubscriberControlRow {
+	return {
+		subscriber_name: 'job-notification',
+		paused: true,
+		reason: '下游邮件服务故障',
+		updated_by: 'admin-001',
+		paused_at: new Date('2026-01-01T00:00:00.000Z'),
+		updated_at: '2026-01-01T00:05:00.000Z',
+		...overrides
+	};
+}
+
+/**
+ * @description 创建订阅者开关服务的 mock
+ */
+const createMockSubscriberControlService = () => ({
+	list: jest.fn(),
+	pause: jest.fn(),
+	resume: jest.fn()
+});
+
+describe('SubscriberControlController', () => {
+	const user = { id: 'admin-001' } as CurrentUserData;
+	let controller: SubscriberControlController;
+	let mockService: ReturnType<typeof createMockSubscriberControlService>;
+
+	beforeEach(() => {
+		mockService = createMockSubscriberControlService();
+		controller = new SubscriberControlController(
+			mockService as unknown as IntegrationEventSubscriberControlService
+		);
+	});
+
+	describe('list', () => {
+		it('应该返回开关视图', async () => {
+			mockService.list.mockResolvedValue([createRow(), createRow({ subscriber_name: 'b', paused_at: null })]);
+
+			const result = await controller.list();
+
+			expect(result).toEqual([
+				{
+					subscriberName: 'job-notification',
+					paused: true,
+					reason: '下游邮件服务故障',
+					updatedBy: 'admin-001',
+					pausedAt: '2026-01-01T00:00:00.000Z',
+					updatedAt: '2026-01-01T00:05:00.000Z'
+				},
+				expect.objectContaining({ subscriberName: 'b', pausedAt: null })
+			]);
+		});
+	});
+
+	describe('pause', () => {
+		it('应该以当前用户为操作人暂停订阅者', async () => {
+			mockService.pause.mockResolvedValue(createRow());
+
+			const result = await controller.pause(user, 'job-notification', { reason: '下游邮件服务故障' });
+
+			expect(mockService.pause).toHaveBeenCalledWith('job-notification', {
+				actor: 'admin-001',
+				reason: '下游邮件服务故障'
+			});
+			expect(result.paused).toBe(true);
+		});
+
+		it('reason 不是字符串时应该返回 400', async () => {
+			await expect(controller.pause(user, 'job-notification', { reason: 1 })).rejects.toThrow(
+				BadRequestException
+			);
+			expect(mockService.pause).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('resume', () => {
+		it('应该恢复订阅者', async () => {
+			mockService.resume.mockResolvedValue(createRow({ paused: false }));
+
+			const result = await controller.resume(user, 'job-notification');
+
+			expect(mockService.resume).toHaveBeenCalledWith('job-notification', { actor: 'admin-001' });
+			expect(result.paused).toBe(false);
+		});
+
+		it('订阅者未暂停时应该返回 404', async () => {
+			mockService.resume.mockResolvedValue(null);
+
+			await expect(controller.resume(user, 'job-notification')).rejects.toThrow(NotFoundException);
+		});
+	});
+});
@@ -3,9 +3,13 @@ import { ConfigModule, ConfigService } from '@oksai/config';
 import { OksaiPlatformModule } from '@oksai/app-kit';
 import { setupMikroOrmModule, createMikroOrmConfig } from '@oksai/database';
 import { AuthModule, betterAuthEntities } from '@oksai/auth';
+import { MikroORM } from '@mikro-orm/core';
+import { IntegrationScheduledEventService, IntegrationWebhookService } from '@oksai/eda';
 import { HealthController } from './health.controller';
 import { AuthTestController } from './auth-test.controller.js';
-import { appConfigSchema, createAppConfiguration } from './app.config';
+import { WebhookController } from './webhook.controller';
+import { ScheduledEventController } from './scheduled-event.controller';
+import { appConfigSchema, createAppConfiguration, type AppConfiguration } from './app.config';
 
 /**
  * 平台 API 根模块
@@ -14,7 +18,7 @@ import { appConfigSchema, createAppConfiguration } from './app.config';
  * - 导入并装配 OksaiPlatformModule
  * - 配置 MikroORM 数据库连接
  * - 导入 AuthModule 提供认证功能
- * - 注册全局控制器（健康检查、认证测试等）
+ * - 注册全局控制器（健康检查、认证测试、租户 Webhook 管理、租户定时事件等）
  * - 配置中间件和拦截器
  */
 @Module({
@@ -37,7 +41,8 @@ import { appConfigSchema, createAppConfiguration } from './app.config';
 					prettyLog: appConfig.prettyLog
 				};
 			},
-			inject: [ConfigService]
+			inject: [ConfigService],
+			enableTracing: true
 		}),
 		// 数据库模块 - MikroORM（包含 Better Auth 实体）
 		setupMikroOrmModule({
@@ -46,8 +51,20 @@ import { appConfigSchema, createAppConfiguration } from './app.config';
 		// 认证模块 - 提供 Better Auth 集成
 		AuthModule
 	],
-	controllers: [HealthController, AuthTestController],
+	controllers: [HealthController, AuthTestController, WebhookController, ScheduledEventController],
 	providers: [
+		// 租户 Webhook 管理：非生产环境允许 http 地址，便于本地联调
+		{
+			provide: IntegrationWebhookService,
+			useFactory: (orm: MikroORM, appConfig: AppConfiguration) =>
+				new IntegrationWebhookService({ em: orm.em, allowInsecureUrls: !appConfig.isProduction }),
+			inject: [MikroORM, 'APP_CONFIG']
+		},
+		{
+			provide: IntegrationScheduledEventService,
+			useFactory: (orm: MikroORM) => new IntegrationScheduledEventService({ em: orm.em }),
+			inject: [MikroORM]
+		},
 		{
 			provide: 'APP_CONFIG',
 			useFactory: (config: ConfigService) => {
@@ -0,0 +1,113 @@
+jest.mock('@oksai/auth', () => ({ JwtAuthGuard: class JwtAuthGuard {} }));
+
+import { BadRequestException, ForbiddenException, type ExecutionContext } from '@nestjs/common';
+import { GUARDS_METADATA } from '@nestjs/common/constants';
+import type { IntegrationScheduledEventRow, IntegrationScheduledEventService } from '@oksai/eda';
+import { ScheduledEventController } from './scheduled-event.controller';
+import { TenantAccessGuard } from './tenant-access.guard';
+
+function createRow(overrides: Partial<IntegrationScheduledEventRow> = {}): IntegrationScheduledEventRow {
+	return {
+		event_id: 'evt-001',
+		tenant_id: 'tenant-001',
+		event_name: 'billing.trial.expired',
+		event_version: 1,
+		partition_key: 'tenant-001',
+		dedupe_key: 'trial-expiry:s-001',
+		deliver_at: new Date('2026-01-08T00:00:00.000Z'),
+		occurred_at: '2026-01-01T00:00:00.000Z',
+		payload: { eventId: 'evt-001' },
+		...overrides
+	};
+}
+
+/**
+ * @description 创建定时事件服务的 mock
+ */
+const createMockScheduledEventService = () => ({
+	list: jest.fn(),
+	cancel: jest.fn()
+});
+
+describe('ScheduledEventController', () => {
+	let controller: ScheduledEventController;
+	let mockService: ReturnType<typeof createMockScheduledEventService>;
+
+	beforeEach(() => {
+		mockService = createMockScheduledEventService();
+		controller = new ScheduledEventController(mockService as unknown as IntegrationScheduledEventService);
+	});
+
+	describe('租户访问控制', () => {
+		it('租户 A 的令牌访问 /tenants/B/scheduled-events 应该返回 403', () => {
+			const guards = Reflect.getMetadata(GUARDS_METADATA, ScheduledEventController) as unknown[];
+			const request = { params: { tenantId: 'tenant-B' }, organization: { id: 'tenant-A' } };
+			const context = { switchToHttp: () => ({ getRequest: () => request }) } as unknown as ExecutionContext;
+
+			expect(guards).toContain(TenantAccessGuard);
+			expect(() => new TenantAccessGuard().canActivate(context)).toThrow(ForbiddenException);
+		});
+	});
+
+	describe('list', () => {
+		it('应该按路由租户查询并返回不含事件数据的视图', async () => {
+			mockService.list.mockResolvedValue({ items: [createRow()], total: 1 });
+
+			const result = await controller.list(
+				'tenant-001',
+				'billing.trial.expired',
+				undefined,
+				'2026-02-01T00:00:00Z',
+				'50'
+			);
+
+			expect(mockService.list).toHaveBeenCalledWith('tenant-001', {
+				eventName: 'billing.trial.expired',
+				dedupeKey: undefined,
+				deliverBefore: new Date('2026-02-01T00:00:00Z'),
+				limit: 50,
+				offset: undefined
+			});
+			expect(result).toEqual({
+				items: [
+					{
+						eventId: 'evt-001',
+						eventName: 'billing.trial.expired',
+						eventVersion: 1,
+						partitionKey: 'tenant-001',
+						dedupeKey: 'trial-expiry:s-001',
+						deliverAt: '2026-01-08T00:00:00.000Z',
+						occurredAt: '2026-01-01T00:00:00.000Z'
+					}
+				],
+				total: 1
+			});
+		});
+
+		it('查询参数格式非法时应该返回 400', async () => {
+			await expect(controller.list('tenant-001', undefined, undefined, 'next-week')).rejects.toThrow(
+				'before 不是合法的 ISO 8601 时间'
+			);
+			await expect(controller.list('tenant-001', undefined, undefined, undefined, '0')).rejects.toBeInstanceOf(
+				BadRequestException
+			);
+			expect(mockService.list).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('cancel', () => {
+		it('应该按路由租户与去重键取消并返回取消数量', async () => {
+			mockService.cancel.mockResolvedValue(1);
+
+			await expect(controller.cancel('tenant-001', { dedupeKey: 'trial-expiry:s-001' })).resolves.toEqual({
+				cancelled: 1
+			});
+			expect(mockService.cancel).toHaveBeenCalledWith('tenant-001', 'trial-expiry:s-001');
+		});
+
+		it('缺少去重键时应该返回 400', async () => {
+			await expect(controller.cancel('tenant-001', {})).rejects.toThrow('dedupeKey 必须为非空字符串');
+			expect(mockService.cancel).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,130 @@
+import {
+	BadRequestException,
+	Body,
+	Controller,
+	Get,
+	HttpCode,
+	HttpStatus,
+	Param,
+	Post,
+	Query,
+	UseGuards
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiQuery, ApiResponse } from '@nestjs/swagger';
+import { JwtAuthGuard } from '@oksai/auth';
+import {
+	IntegrationScheduledEventService,
+	type IntegrationScheduledEventFilter,
+	type IntegrationScheduledEventRow
+} from '@oksai/eda';
+import { TenantAccessGuard } from './tenant-access.guard';
+
+/**
+ * 定时事件（响应视图，不含事件数据）
+ */
+export interface ScheduledEventView {
+	eventId: string;
+	eventName: string;
+	eventVersion: number;
+	partitionKey: string;
+	dedupeKey: string | null;
+	deliverAt: string;
+	occurredAt: string;
+}
+
+/**
+ * 租户定时事件控制器
+ *
+ * 提供租户接口：查看尚未投递的定时集成事件（试用到期、提醒等），按去重键取消
+ *
+ * 说明：
+ * - 路由中的 tenantId 必须是当前会话所属的租户（TenantAccessGuard），否则返回 403
+ * - 查询与取消均按 tenantId 隔离
+ * - 已被 Worker claim 或已投递的事件不会出现在列表中，也无法取消
+ */
+@ApiTags('定时事件')
+@Controller('tenants/:tenantId/scheduled-events')
+@UseGuards(JwtAuthGuard, TenantAccessGuard)
+export class ScheduledEventController {
+	constructor(private readonly scheduledEvents: IntegrationScheduledEventService) {}
+
+	/**
+	 * 查询定时事件列表
+	 */
+	@Get()
+	@ApiOperation({ summary: '查询定时事件列表', description: '按投递时间正序分页返回尚未投递的定时事件' })
+	@ApiQuery({ name: 'eventName', required: false, description: '事件名称', example: 'billing.trial.expired' })
+	@ApiQuery({ name: 'dedupeKey', required: false, description: '去重键' })
+	@ApiQuery({ name: 'before', required: false, description: '投递时间上界（ISO 8601，不包含）' })
+	@ApiQuery({ name: 'limit', required: false, description: '单页条数（默认 20，最大 100）' })
+	@ApiQuery({ name: 'offset', required: false, description: '偏移量（默认 0）' })
+	@ApiResponse({ status: 200, description: '查询成功' })
+	@ApiResponse({ status: 400, description: '查询参数格式非法' })
+	async list(
+		@Param('tenantId') tenantId: string,
+		@Query('eventName') eventName?: string,
+		@Query('dedupeKey') dedupeKey?: string,
+		@Query('before') before?: string,
+		@Query('limit') limit?: string,
+		@Query('offset') offset?: string
+	): Promise<{ items: ScheduledEventView[]; total: number }> {
+		const filter: IntegrationScheduledEventFilter = {
+			eventName: eventName || undefined,
+			dedupeKey: dedupeKey || undefined,
+			deliverBefore: parseOptionalDate('before', before),
+			limit: parseOptionalInt('limit', limit, 1),
+			offset: parseOptionalInt('offset', offset, 0)
+		};
+		const result = await this.scheduledEvents.list(tenantId, filter);
+		return { items: result.items.map(toScheduledEventView), total: result.total };
+	}
+
+	/**
+	 * 按去重键取消定时事件
+	 */
+	@Post('cancel')
+	@HttpCode(HttpStatus.OK)
+	@ApiOperation({ summary: '按去重键取消定时事件', description: '删除尚未投递的事件；没有匹配的事件时返回 0' })
+	@ApiResponse({ status: 200, description: '取消完成' })
+	@ApiResponse({ status: 400, description: 'dedupeKey 缺失' })
+	async cancel(
+		@Param('tenantId') tenantId: string,
+		@Body() body: { dedupeKey?: unknown }
+	): Promise<{ cancelled: number }> {
+		const dedupeKey = body?.dedupeKey;
+		if (typeof dedupeKey !== 'string' || !dedupeKey.trim()) {
+			throw new BadRequestException('dedupeKey 必须为非空字符串');
+		}
+		return { cancelled: await this.scheduledEvents.cancel(tenantId, dedupeKey) };
+	}
+}
+
+function toScheduledEventView(row: IntegrationScheduledEventRow): ScheduledEventView {
+	return {
+		eventId: row.event_id,
+		eventName: row.event_name,
+		eventVersion: row.event_version,
+		partitionKey: row.partition_key,
+		dedupeKey: row.dedupe_key,
+		deliverAt: new Date(row.deliver_at).toISOString(),
+		occurredAt: new Date(row.occurred_at).toISOString()
+	};
+}
+
+function parseOptionalDate(name: string, value?: string): Date | undefined {
+	if (!value) return undefined;
+	const parsed = new Date(value);
+	if (Number.isNaN(parsed.getTime())) {
+		throw new BadRequestException(`${name} 不是合法的 ISO 8601 时间：${value}`);
+	}
+	return parsed;
+}
+
+function parseOptionalInt(name: string, value: string | undefined, min: number): number | undefined {
+	if (!value) return undefined;
+	const parsed = Number(value);
+	if (!Number.isInteger(parsed) || parsed < min) {
+		throw new BadRequestException(`${name} 必须为不小于 ${min} 的整数，实际为 ${value}`);
+	}
+	return parsed;
+}
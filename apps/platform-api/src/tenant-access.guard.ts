@@ -0,0 +1,39 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, Logger } from '@nestjs/common';
+
+/**
+ * 请求对象（JwtAuthGuard 写入的组织信息与路由参数）
+ */
+interface RequestWithOrganization {
+	params?: { tenantId?: string };
+	organization?: { id: string };
+}
+
+/**
+ * 租户访问 Guard
+ *
+ * 校验路由中的 `:tenantId` 与当前会话所属的组织（租户）一致，防止跨租户访问。
+ * 需要放在 JwtAuthGuard 之后，依赖其写入的 `request.organization`。
+ *
+ * @example
+ * ```typescript
+ * @Controller('tenants/:tenantId/webhooks')
+ * @UseGuards(JwtAuthGuard, TenantAccessGuard)
+ * export class WebhookController {}
+ * ```
+ */
+@Injectable()
+export class TenantAccessGuard implements CanActivate {
+	private readonly logger = new Logger(TenantAccessGuard.name);
+
+	canActivate(context: ExecutionContext): boolean {
+		const request = context.switchToHttp().getRequest<RequestWithOrganization>();
+		const tenantId = request.params?.tenantId;
+		const organizationId = request.organization?.id;
+
+		if (!tenantId || !organizationId || tenantId !== organizationId) {
+			this.logger.warn(`拒绝跨租户访问：tenantId=${tenantId ?? ''}，会话组织=${organizationId ?? ''}`);
+			throw new ForbiddenException('无权访问该租户的资源');
+		}
+		return true;
+	}
+}
@@ -0,0 +1,298 @@
+jest.mock('@oksai/auth', () => ({ JwtAuthGuard: class JwtAuthGuard {} }));
+
+import { BadRequestException, ForbiddenException, NotFoundException, type ExecutionContext } from '@nestjs/common';
+import { GUARDS_METADATA } from '@nestjs/common/constants';
+import {
+	normalizeIntegrationWebhookUrl,
+	type IntegrationWebhookDeliveryRow,
+	type IntegrationWebhookEndpointRow,
+	type IntegrationWebhookService
+} from '@oksai/eda';
+import { TenantAccessGuard } from './tenant-access.guard';
+import { WebhookController } from './webhook.controller';
+
+function createEndpointRow(overrides: Partial<IntegrationWebhookEndpointRow> = {}): IntegrationWebhookEndpointRow {
+	return {
+		id: 'wh-001',
+		tenant_id: 'tenant-001',
+		url: 'https://example.com/hooks',
+		description: null,
+		event_names: ['tenant.user.*'],
+		status: 'active',
+		secret: 'whsec_secret',
+		previous_secret: null,
+		previous_secret_expires_at: null,
+		consecutive_failures: 0,
+		failing_since: null,
+		disabled_at: null,
+		disabled_reason: null,
+		created_at: new Date('2026-01-01T00:00:00.000Z'),
+		updated_at: '2026-01-01T00:00:00.000Z',
+		...overrides
+	};
+}
+
+function createDeliveryRow(overrides: Partial<IntegrationWebhookDeliveryRow> = {}): IntegrationWebhookDeliveryRow {
+	return {
+		id: 'd-001',
+		tenant_id: 'tenant-001',
+		endpoint_id: 'wh-001',
+		event_id: 'evt-001',
+		event_name: 'tenant.user.invited',
+		payload: { eventId: 'evt-001' },
+		status: 'dead',
+		attempt_count: 10,
+		next_attempt_at: null,
+		last_status_code: 500,
+		last_error: '接收方返回 HTTP 500',
+		delivered_at: null,
+		is_test: false,
+		created_at: '2026-01-01T00:00:00.000Z',
+		updated_at: '2026-01-02T00:00:00.000Z',
+		...overrides
+	};
+}
+
+/**
+ * @description 创建携带会话组织与路由参数的 HTTP 执行上下文
+ */
+function createHttpContext(request: { params: { tenantId: string }; organization?: { id: string } }) {
+	return { switchToHttp: () => ({ getRequest: () => request }) } as unknown as ExecutionContext;
+}
+
+/**
+ * @description 创建 Webhook 服务的 mock（normalizeUrl 使用真实校验）
+ */
+const createMockWebhookService = () => ({
+	normalizeUrl: jest.fn((url: string) => normalizeIntegrationWebhookUrl(url)),
+	listEndpoints: jest.fn(),
+	getEndpoint: jest.fn(),
+	createEndpoint: jest.fn(),
+	updateEndpoint: jest.fn(),
+	deleteEndpoint: jest.fn(),
+	rotateSecret: jest.fn(),
+	listDeliveries: jest.fn(),
+	getDelivery: jest.fn(),
+	redeliver: jest.fn(),
+	sendTestEvent: jest.fn()
+});
+
+describe('WebhookController', () => {
+	let controller: WebhookController;
+	let mockService: ReturnType<typeof createMockWebhookService>;
+
+	beforeEach(() => {
+		mockService = createMockWebhookService();
+		controller = new WebhookController(mockService as unknown as IntegrationWebhookService);
+	});
+
+	describe('租户访问控制', () => {
+		it('应该在 JwtAuthGuard 之后挂载 TenantAccessGuard', () => {
+			const guards = Reflect.getMetadata(GUARDS_METADATA, WebhookController) as unknown[];
+
+			expect(guards[guards.length - 1]).toBe(TenantAccessGuard);
+		});
+
+		it('租户 A 的令牌访问 /tenants/B/webhooks 应该返回 403', () => {
+			const guard = new TenantAccessGuard();
+
+			expect(() =>
+				guard.canActivate(
+					createHttpContext({ params: { tenantId: 'tenant-B' }, organization: { id: 'tenant-A' } })
+				)
+			).toThrow(ForbiddenException);
+			expect(() => guard.canActivate(createHttpContext({ params: { tenantId: 'tenant-B' } }))).toThrow(
+				ForbiddenException
+			);
+			expect(
+				guard.canActivate(
+					createHttpContext({ params: { tenantId: 'tenant-A' }, organization: { id: 'tenant-A' } })
+				)
+			).toBe(true);
+		});
+	});
+
+	describe('list / get', () => {
+		it('列表视图不应该包含密钥', async () => {
+			mockService.listEndpoints.mockResolvedValue([createEndpointRow()]);
+
+			const result = await controller.list('tenant-001');
+
+			expect(mockService.listEndpoints).toHaveBeenCalledWith('tenant-001');
+			expect(result.items[0]).toMatchObject({
+				id: 'wh-001',
+				eventNames: ['tenant.user.*'],
+				createdAt: '2026-01-01T00:00:00.000Z',
+				failingSince: null
+			});
+			expect(result.items[0]).not.toHaveProperty('secret');
+		});
+
+		it('端点不存在时应该返回 404', async () => {
+			mockService.getEndpoint.mockResolvedValue(null);
+
+			await expect(controller.get('tenant-001', 'wh-404')).rejects.toBeInstanceOf(NotFoundException);
+		});
+	});
+
+	describe('create', () => {
+		it('应该规范化输入并返回一次密钥', async () => {
+			mockService.createEndpoint.mockResolvedValue(createEndpointRow());
+
+			const result = await controller.create('tenant-001', {
+				url: 'https://example.com/hooks',
+				eventNames: ['tenant.user.*', ' tenant.user.* '],
+				description: '订单系统'
+			});
+
+			expect(mockService.createEndpoint).toHaveBeenCalledWith('tenant-001', {
+				url: 'https://example.com/hooks',
+				eventNames: ['tenant.user.*'],
+				description: '订单系统'
+			});
+			expect(result.secret).toBe('whsec_secret');
+		});
+
+		it('url 或 eventNames 不合法时应该返回 400', async () => {
+			await expect(controller.create('tenant-001', { url: 'http://example.com' })).rejects.toBeInstanceOf(
+				BadRequestException
+			);
+			await expect(controller.create('tenant-001', {})).rejects.toBeInstanceOf(BadRequestException);
+			await expect(
+				controller.create('tenant-001', { url: 'https://example.com', eventNames: ['*.invited'] })
+			).rejects.toBeInstanceOf(BadRequestException);
+			expect(mockService.createEndpoint).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('update / remove / rotateSecret', () => {
+		it('应该只传递提供的字段', async () => {
+			mockService.updateEndpoint.mockResolvedValue(createEndpointRow());
+
+			await controller.update('tenant-001', 'wh-001', { enabled: true, description: null });
+
+			expect(mockService.updateEndpoint).toHaveBeenCalledWith('tenant-001', 'wh-001', {
+				enabled: true,
+				description: null
+			});
+		});
+
+		it('enabled 不是布尔值时应该返回 400', async () => {
+			await expect(controller.update('tenant-001', 'wh-001', { enabled: 'yes' })).rejects.toBeInstanceOf(
+				BadRequestException
+			);
+		});
+
+		it('删除不存在的端点应该返回 404', async () => {
+			mockService.deleteEndpoint.mockResolvedValue(false);
+
+			await expect(controller.remove('tenant-001', 'wh-404')).rejects.toBeInstanceOf(NotFoundException);
+		});
+
+		it('轮换密钥应该返回新密钥与旧密钥失效时间', async () => {
+			mockService.rotateSecret.mockResolvedValue(
+				createEndpointRow({
+					secret: 'whsec_rotated',
+					previous_secret: 'whsec_secret',
+					previous_secret_expires_at: '2026-01-02T00:00:00.000Z'
+				})
+			);
+
+			const result = await controller.rotateSecret('tenant-001', 'wh-001', { graceMs: 3600_000 });
+
+			expect(mockService.rotateSecret).toHaveBeenCalledWith('tenant-001', 'wh-001', { graceMs: 3600_000 });
+			expect(result.secret).toBe('whsec_rotated');
+			expect(result.previousSecretExpiresAt).toBe('2026-01-02T00:00:00.000Z');
+			expect(result).not.toHaveProperty('previousSecret');
+		});
+
+		it('graceMs 超出范围时应该返回 400', async () => {
+			await expect(
+				controller.rotateSecret('tenant-001', 'wh-001', { graceMs: 30 * 24 * 3600_000 })
+			).rejects.toBeInstanceOf(BadRequestException);
+		});
+	});
+
+	describe('deliveries', () => {
+		it('应该解析查询参数并返回投递视图', async () => {
+			mockService.listDeliveries.mockResolvedValue({ items: [createDeliveryRow()], total: 1 });
+
+			const result = await controller.listDeliveries('tenant-001', 'wh-001', 'dead', '50', '0');
+
+			expect(mockService.listDeliveries).toHaveBeenCalledWith('tenant-001', 'wh-001', {
+				status: 'dead',
+				limit: 50,
+				offset: 0
+			});
+			expect(result.items[0]).toMatchObject({ id: 'd-001', lastStatusCode: 500, attemptCount: 10 });
+		});
+
+		it('status 不合法时应该返回 400', async () => {
+			await expect(controller.listDeliveries('tenant-001', 'wh-001', 'failed')).rejects.toBeInstanceOf(
+				BadRequestException
+			);
+		});
+
+		it('详情应该包含每次尝试的响应码', async () => {
+			mockService.getDelivery.mockResolvedValue({
+				delivery: createDeliveryRow(),
+				attempts: [
+					{
+						id: 'a-001',
+						delivery_id: 'd-001',
+						attempt_no: 1,
+						status_code: 500,
+						error: '接收方返回 HTTP 500',
+						duration_ms: 120,
+						response_body: 'oops',
+						attempted_at: '2026-01-01T00:00:01.000Z'
+					}
+				]
+			});
+
+			const result = await controller.getDelivery('tenant-001', 'wh-001', 'd-001');
+
+			expect(result.payload).toEqual({ eventId: 'evt-001' });
+			expect(result.attempts).toEqual([
+				{
+					attemptNo: 1,
+					statusCode: 500,
+					error: '接收方返回 HTTP 500',
+					durationMs: 120,
+					responseBody: 'oops',
+					attemptedAt: '2026-01-01T00:00:01.000Z'
+				}
+			]);
+		});
+
+		it('投递不属于该端点时应该返回 404 且不重投', async () => {
+			mockService.getDelivery.mockResolvedValue({
+				delivery: createDeliveryRow({ endpoint_id: 'wh-other' }),
+				attempts: []
+			});
+
+			await expect(controller.redeliver('tenant-001', 'wh-001', 'd-001')).rejects.toBeInstanceOf(
+				NotFoundException
+			);
+			expect(mockService.redeliver).not.toHaveBeenCalled();
+		});
+
+		it('重新投递应该返回 pending 投递', async () => {
+			mockService.getDelivery.mockResolvedValue({ delivery: createDeliveryRow(), attempts: [] });
+			mockService.redeliver.mockResolvedValue(
+				createDeliveryRow({ status: 'pending', attempt_count: 0, next_attempt_at: '2026-01-03T00:00:00.000Z' })
+			);
+
+			const result = await controller.redeliver('tenant-001', 'wh-001', 'd-001');
+
+			expect(mockService.redeliver).toHaveBeenCalledWith('tenant-001', 'd-001');
+			expect(result).toMatchObject({ status: 'pending', attemptCount: 0 });
+		});
+
+		it('发送测试事件时端点不存在应该返回 404', async () => {
+			mockService.sendTestEvent.mockResolvedValue(null);
+
+			await expect(controller.sendTestEvent('tenant-001', 'wh-404')).rejects.toBeInstanceOf(NotFoundException);
+		});
+	});
+});
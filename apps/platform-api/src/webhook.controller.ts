@@ -0,0 +1,429 @@
+import {
+	BadRequestException,
+	Body,
+	Controller,
+	Delete,
+	Get,
+	HttpCode,
+	HttpStatus,
+	NotFoundException,
+	Param,
+	Patch,
+	Post,
+	Query,
+	UseGuards
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiQuery, ApiResponse } from '@nestjs/swagger';
+import { JwtAuthGuard } from '@oksai/auth';
+import {
+	IntegrationWebhookService,
+	normalizeIntegrationWebhookEventNames,
+	type CreateIntegrationWebhookEndpointInput,
+	type IntegrationWebhookDeliveryAttemptRow,
+	type IntegrationWebhookDeliveryFilter,
+	type IntegrationWebhookDeliveryRow,
+	type IntegrationWebhookEndpointRow,
+	type UpdateIntegrationWebhookEndpointInput
+} from '@oksai/eda';
+import { TenantAccessGuard } from './tenant-access.guard';
+
+/**
+ * 密钥轮换宽限期上限（7 天）
+ */
+const MAX_SECRET_GRACE_MS = 7 * 24 * 3600_000;
+
+/**
+ * Webhook 端点（响应视图，不含密钥）
+ */
+export interface WebhookEndpointView {
+	id: string;
+	url: string;
+	description: string | null;
+	eventNames: string[];
+	status: string;
+	consecutiveFailures: number;
+	failingSince: string | null;
+	disabledAt: string | null;
+	disabledReason: string | null;
+	previousSecretExpiresAt: string | null;
+	createdAt: string;
+	updatedAt: string;
+}
+
+/**
+ * Webhook 端点（含密钥，仅在创建与轮换时返回）
+ */
+export interface WebhookEndpointWithSecretView extends WebhookEndpointView {
+	secret: string;
+}
+
+/**
+ * Webhook 投递（响应视图）
+ */
+export interface WebhookDeliveryView {
+	id: string;
+	endpointId: string;
+	eventId: string;
+	eventName: string;
+	status: string;
+	attemptCount: number;
+	nextAttemptAt: string | null;
+	lastStatusCode: number | null;
+	lastError: string | null;
+	deliveredAt: string | null;
+	isTest: boolean;
+	createdAt: string;
+}
+
+/**
+ * Webhook 投递尝试（响应视图）
+ */
+export interface WebhookDeliveryAttemptView {
+	attemptNo: number;
+	statusCode: number | null;
+	error: string | null;
+	durationMs: number;
+	responseBody: string | null;
+	attemptedAt: string;
+}
+
+/**
+ * Webhook 投递详情（含事件快照与尝试记录）
+ */
+export interface WebhookDeliveryDetailView extends WebhookDeliveryView {
+	payload: unknown;
+	attempts: WebhookDeliveryAttemptView[];
+}
+
+/**
+ * 租户 Webhook 管理控制器
+ *
+ * 提供租户接口：注册与维护接收端点、轮换签名密钥、发送测试事件、查看投递日志与重新投递
+ *
+ * 说明：
+ * - 路由中的 tenantId 必须是当前会话所属的租户（TenantAccessGuard），否则返回 403
+ * - 端点与投递均按 tenantId 隔离，访问其他租户的端点或投递返回 404
+ * - 密钥只在创建与轮换时返回一次
+ */
+@ApiTags('Webhook')
+@Controller('tenants/:tenantId/webhooks')
+@UseGuards(JwtAuthGuard, TenantAccessGuard)
+export class WebhookController {
+	constructor(private readonly webhooks: IntegrationWebhookService) {}
+
+	/**
+	 * 查询端点列表
+	 */
+	@Get()
+	@ApiOperation({ summary: '查询 Webhook 端点列表' })
+	@ApiResponse({ status: 200, description: '查询成功' })
+	async list(@Param('tenantId') tenantId: string): Promise<{ items: WebhookEndpointView[] }> {
+		const rows = await this.webhooks.listEndpoints(tenantId);
+		return { items: rows.map(toEndpointView) };
+	}
+
+	/**
+	 * 创建端点
+	 */
+	@Post()
+	@ApiOperation({
+		summary: '创建 Webhook 端点',
+		description: '返回的 secret 用于校验 oksai-signature 签名，只返回这一次'
+	})
+	@ApiResponse({ status: 201, description: '创建成功' })
+	@ApiResponse({ status: 400, description: 'url 或 eventNames 不合法' })
+	async create(
+		@Param('tenantId') tenantId: string,
+		@Body() body: { url?: unknown; eventNames?: unknown; description?: unknown }
+	): Promise<WebhookEndpointWithSecretView> {
+		const input: CreateIntegrationWebhookEndpointInput = {
+			url: this.parseUrl(body?.url),
+			eventNames: parseEventNames(body?.eventNames),
+			description: parseDescription(body?.description) ?? undefined
+		};
+		const row = await this.webhooks.createEndpoint(tenantId, input);
+		return { ...toEndpointView(row), secret: row.secret };
+	}
+
+	/**
+	 * 查看端点
+	 */
+	@Get(':id')
+	@ApiOperation({ summary: '查看 Webhook 端点' })
+	@ApiResponse({ status: 200, description: '查询成功' })
+	@ApiResponse({ status: 404, description: '端点不存在' })
+	async get(@Param('tenantId') tenantId: string, @Param('id') id: string): Promise<WebhookEndpointView> {
+		return toEndpointView(requireEndpoint(id, await this.webhooks.getEndpoint(tenantId, id)));
+	}
+
+	/**
+	 * 更新端点
+	 */
+	@Patch(':id')
+	@ApiOperation({
+		summary: '更新 Webhook 端点',
+		description: '未提供的字段保持不变；enabled=true 重新启用并清零连续失败计数'
+	})
+	@ApiResponse({ status: 200, description: '更新成功' })
+	@ApiResponse({ status: 400, description: '字段不合法' })
+	@ApiResponse({ status: 404, description: '端点不存在' })
+	async update(
+		@Param('tenantId') tenantId: string,
+		@Param('id') id: string,
+		@Body() body: { url?: unknown; eventNames?: unknown; description?: unknown; enabled?: unknown }
+	): Promise<WebhookEndpointView> {
+		const input: UpdateIntegrationWebhookEndpointInput = {};
+		if (body?.url !== undefined) input.url = this.parseUrl(body.url);
+		if (body?.eventNames !== undefined) input.eventNames = parseEventNames(body.eventNames);
+		if (body?.description !== undefined) input.description = parseDescription(body.description);
+		if (body?.enabled !== undefined) {
+			if (typeof body.enabled !== 'boolean') {
+				throw new BadRequestException('enabled 必须为布尔值');
+			}
+			input.enabled = body.enabled;
+		}
+		return toEndpointView(requireEndpoint(id, await this.webhooks.updateEndpoint(tenantId, id, input)));
+	}
+
+	/**
+	 * 删除端点
+	 */
+	@Delete(':id')
+	@HttpCode(HttpStatus.NO_CONTENT)
+	@ApiOperation({ summary: '删除 Webhook 端点', description: '投递记录随之删除' })
+	@ApiResponse({ status: 204, description: '删除成功' })
+	@ApiResponse({ status: 404, description: '端点不存在' })
+	async remove(@Param('tenantId') tenantId: string, @Param('id') id: string): Promise<void> {
+		if (!(await this.webhooks.deleteEndpoint(tenantId, id))) {
+			throw new NotFoundException(`未找到 Webhook 端点：id=${id}`);
+		}
+	}
+
+	/**
+	 * 轮换签名密钥
+	 */
+	@Post(':id/rotate-secret')
+	@HttpCode(HttpStatus.OK)
+	@ApiOperation({
+		summary: '轮换 Webhook 签名密钥',
+		description: '返回新密钥；宽限期内请求同时携带新旧两个签名，默认 24 小时'
+	})
+	@ApiResponse({ status: 200, description: '轮换成功' })
+	@ApiResponse({ status: 400, description: 'graceMs 不合法' })
+	@ApiResponse({ status: 404, description: '端点不存在' })
+	async rotateSecret(
+		@Param('tenantId') tenantId: string,
+		@Param('id') id: string,
+		@Body() body: { graceMs?: unknown }
+	): Promise<WebhookEndpointWithSecretView> {
+		const row = requireEndpoint(
+			id,
+			await this.webhooks.rotateSecret(tenantId, id, { graceMs: parseGraceMs(body?.graceMs) })
+		);
+		return { ...toEndpointView(row), secret: row.secret };
+	}
+
+	/**
+	 * 发送测试事件
+	 */
+	@Post(':id/test')
+	@HttpCode(HttpStatus.ACCEPTED)
+	@ApiOperation({
+		summary: '发送 Webhook 测试事件',
+		description: '生成一条 oksai.webhook.test 投递，只尝试一次且不计入端点健康度；结果见投递日志'
+	})
+	@ApiResponse({ status: 202, description: '已入队' })
+	@ApiResponse({ status: 404, description: '端点不存在' })
+	async sendTestEvent(@Param('tenantId') tenantId: string, @Param('id') id: string): Promise<WebhookDeliveryView> {
+		const row = await this.webhooks.sendTestEvent(tenantId, id);
+		if (!row) {
+			throw new NotFoundException(`未找到 Webhook 端点：id=${id}`);
+		}
+		return toDeliveryView(row);
+	}
+
+	/**
+	 * 查询投递日志
+	 */
+	@Get(':id/deliveries')
+	@ApiOperation({ summary: '查询 Webhook 投递日志', description: '按创建时间倒序分页返回' })
+	@ApiQuery({ name: 'status', required: false, description: 'pending / succeeded / dead' })
+	@ApiQuery({ name: 'limit', required: false, description: '单页条数（默认 20，最大 100）' })
+	@ApiQuery({ name: 'offset', required: false, description: '偏移量（默认 0）' })
+	@ApiResponse({ status: 200, description: '查询成功' })
+	@ApiResponse({ status: 400, description: '查询参数格式非法' })
+	async listDeliveries(
+		@Param('tenantId') tenantId: string,
+		@Param('id') id: string,
+		@Query('status') status?: string,
+		@Query('limit') limit?: string,
+		@Query('offset') offset?: string
+	): Promise<{ items: WebhookDeliveryView[]; total: number }> {
+		const filter: IntegrationWebhookDeliveryFilter = {
+			status: parseOptionalDeliveryStatus(status),
+			limit: parseOptionalInt('limit', limit, 1),
+			offset: parseOptionalInt('offset', offset, 0)
+		};
+		const result = await this.webhooks.listDeliveries(tenantId, id, filter);
+		return { items: result.items.map(toDeliveryView), total: result.total };
+	}
+
+	/**
+	 * 查看投递详情
+	 */
+	@Get(':id/deliveries/:deliveryId')
+	@ApiOperation({ summary: '查看 Webhook 投递详情', description: '返回事件快照及每次尝试的响应码、耗时与响应体' })
+	@ApiResponse({ status: 200, description: '查询成功' })
+	@ApiResponse({ status: 404, description: '投递不存在' })
+	async getDelivery(
+		@Param('tenantId') tenantId: string,
+		@Param('id') id: string,
+		@Param('deliveryId') deliveryId: string
+	): Promise<WebhookDeliveryDetailView> {
+		const result = await this.webhooks.getDelivery(tenantId, deliveryId);
+		if (!result || result.delivery.endpoint_id !== id) {
+			throw new NotFoundException(`未找到 Webhook 投递：deliveryId=${deliveryId}`);
+		}
+		return {
+			...toDeliveryView(result.delivery),
+			payload: result.delivery.payload,
+			attempts: result.attempts.map(toAttemptView)
+		};
+	}
+
+	/**
+	 * 重新投递
+	 */
+	@Post(':id/deliveries/:deliveryId/redeliver')
+	@HttpCode(HttpStatus.ACCEPTED)
+	@ApiOperation({ summary: '重新投递 Webhook', description: '投递回到 pending 并清零尝试次数，发送相同的事件快照' })
+	@ApiResponse({ status: 202, description: '已入队' })
+	@ApiResponse({ status: 404, description: '投递不存在' })
+	async redeliver(
+		@Param('tenantId') tenantId: string,
+		@Param('id') id: string,
+		@Param('deliveryId') deliveryId: string
+	): Promise<WebhookDeliveryView> {
+		const existing = await this.webhooks.getDelivery(tenantId, deliveryId);
+		if (!existing || existing.delivery.endpoint_id !== id) {
+			throw new NotFoundException(`未找到 Webhook 投递：deliveryId=${deliveryId}`);
+		}
+		const row = await this.webhooks.redeliver(tenantId, deliveryId);
+		if (!row) {
+			throw new NotFoundException(`未找到 Webhook 投递：deliveryId=${deliveryId}`);
+		}
+		return toDeliveryView(row);
+	}
+
+	private parseUrl(value: unknown): string {
+		if (typeof value !== 'string' || !value.trim()) {
+			throw new BadRequestException('url 必须为非空字符串');
+		}
+		try {
+			return this.webhooks.normalizeUrl(value);
+		} catch (e) {
+			throw new BadRequestException(e instanceof Error ? e.message : String(e));
+		}
+	}
+}
+
+function requireEndpoint(id: string, row: IntegrationWebhookEndpointRow | null): IntegrationWebhookEndpointRow {
+	if (!row) {
+		throw new NotFoundException(`未找到 Webhook 端点：id=${id}`);
+	}
+	return row;
+}
+
+function toEndpointView(row: IntegrationWebhookEndpointRow): WebhookEndpointView {
+	return {
+		id: row.id,
+		url: row.url,
+		description: row.description,
+		eventNames: row.event_names,
+		status: row.status,
+		consecutiveFailures: row.consecutive_failures,
+		failingSince: toIsoOrNull(row.failing_since),
+		disabledAt: toIsoOrNull(row.disabled_at),
+		disabledReason: row.disabled_reason,
+		previousSecretExpiresAt: toIsoOrNull(row.previous_secret_expires_at),
+		createdAt: new Date(row.created_at).toISOString(),
+		updatedAt: new Date(row.updated_at).toISOString()
+	};
+}
+
+function toDeliveryView(row: IntegrationWebhookDeliveryRow): WebhookDeliveryView {
+	return {
+		id: row.id,
+		endpointId: row.endpoint_id,
+		eventId: row.event_id,
+		eventName: row.event_name,
+		status: row.status,
+		attemptCount: row.attempt_count,
+		nextAttemptAt: toIsoOrNull(row.next_attempt_at),
+		lastStatusCode: row.last_status_code,
+		lastError: row.last_error,
+		deliveredAt: toIsoOrNull(row.delivered_at),
+		isTest: row.is_test,
+		createdAt: new Date(row.created_at).toISOString()
+	};
+}
+
+function toAttemptView(row: IntegrationWebhookDeliveryAttemptRow): WebhookDeliveryAttemptView {
+	return {
+		attemptNo: row.attempt_no,
+		statusCode: row.status_code,
+		error: row.error,
+		durationMs: row.duration_ms,
+		responseBody: row.response_body,
+		attemptedAt: new Date(row.attempted_at).toISOString()
+	};
+}
+
+function toIsoOrNull(value: string | Date | null): string | null {
+	return value ? new Date(value).toISOString() : null;
+}
+
+function parseEventNames(value: unknown): string[] {
+	if (value === undefined) return [];
+	if (!Array.isArray(value) || value.some((n) => typeof n !== 'string')) {
+		throw new BadRequestException('eventNames 必须为字符串数组');
+	}
+	try {
+		return normalizeIntegrationWebhookEventNames(value as string[]);
+	} catch (e) {
+		throw new BadRequestException(e instanceof Error ? e.message : String(e));
+	}
+}
+
+function parseDescription(value: unknown): string | null {
+	if (value === undefined || value === null) return null;
+	if (typeof value !== 'string' || value.length > 500) {
+		throw new BadRequestException('description 必须为不超过 500 个字符的字符串');
+	}
+	return value;
+}
+
+function parseGraceMs(value: unknown): number | undefined {
+	if (value === undefined) return undefined;
+	if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > MAX_SECRET_GRACE_MS) {
+		throw new BadRequestException(`graceMs 必须为 0 到 ${MAX_SECRET_GRACE_MS} 之间的整数`);
+	}
+	return value;
+}
+
+function parseOptionalDeliveryStatus(value?: string): IntegrationWebhookDeliveryFilter['status'] {
+	if (!value) return undefined;
+	if (value !== 'pending' && value !== 'succeeded' && value !== 'dead') {
+		throw new BadRequestException(`status 只能为 pending、succeeded 或 dead，实际为 ${value}`);
+	}
+	return value;
+}
+
+function parseOptionalInt(name: string, value: string | undefined, min: number): number | undefined {
+	if (!value) return undefined;
+	const parsed = Number(value);
+	if (!Number.isInteger(parsed) || parsed < min) {
+		throw new BadRequestException(`${name} 必须为不小于 ${min} 的整数，实际为 ${value}`);
+	}
+	return parsed;
+}
@@ -1,5 +1,19 @@
-import { DynamicModule, Module, Provider } from '@nestjs/common';
-import { TenantContextService, AsyncLocalStorageProvider } from '@oksai/context';
+import {
+	DynamicModule,
+	Inject,
+	MiddlewareConsumer,
+	Module,
+	NestModule,
+	OnApplicationShutdown,
+	Optional,
+	Provider
+} from '@nestjs/common';
+import {
+	TenantContextService,
+	AsyncLocalStorageProvider,
+	OksaiTraceMiddleware,
+	shutdownOksaiTracing
+} from '@oksai/context';
 import { ConfigModule } from '@oksai/config';
 import { LoggerModule } from '@oksai/logger';
 import { CommandBus, QueryBus } from '@oksai/cqrs';
@@ -25,6 +39,13 @@ export interface OksaiPlatformModuleOptions {
 	 */
 	enableEda?: boolean;
 
+	/**
+	 * 启用 HTTP 链路追踪中间件（默认 false）
+	 *
+	 * 导出器与服务名需在启动入口通过 `configureOksaiTracing()` 配置
+	 */
+	enableTracing?: boolean;
+
 	/**
 	 * 启用日志（默认 true）
 	 */
@@ -46,6 +67,11 @@ export interface OksaiPlatformModuleOptions {
 	plugins?: PluginInput[];
 }
 
+/**
+ * 是否启用 HTTP 链路追踪中间件
+ */
+const OKSAI_PLATFORM_TRACING_ENABLED = 'OKSAI_PLATFORM_TRACING_ENABLED';
+
 /**
  * 平台装配模块
  *
@@ -55,7 +81,7 @@ export interface OksaiPlatformModuleOptions {
  *
  * 能力矩阵（按需装配）：
  * - 必选：Config / Context / Logger
- * - 可选：CQRS / EDA / Plugins
+ * - 可选：CQRS / EDA / Tracing / Plugins
  *
  * @example
  * ```typescript
@@ -72,7 +98,27 @@ export interface OksaiPlatformModuleOptions {
  * ```
  */
 @Module({})
-export class OksaiPlatformModule {
+export class OksaiPlatformModule implements NestModule, OnApplicationShutdown {
+	constructor(@Optional() @Inject(OKSAI_PLATFORM_TRACING_ENABLED) private readonly tracingEnabled: boolean = false) {}
+
+	/**
+	 * 挂载 HTTP 链路追踪中间件（全部路由）
+	 */
+	configure(consumer: MiddlewareConsumer): void {
+		if (this.tracingEnabled) {
+			consumer.apply(OksaiTraceMiddleware).forRoutes('*');
+		}
+	}
+
+	/**
+	 * 应用关闭时刷新未导出的 span
+	 */
+	async onApplicationShutdown(): Promise<void> {
+		if (this.tracingEnabled) {
+			await shutdownOksaiTracing();
+		}
+	}
+
 	/**
 	 * 初始化平台装配模块
 	 *
@@ -85,7 +131,11 @@ export class OksaiPlatformModule {
 
 		// 注意：ConfigService 由 ConfigModule.forRootSync() 提供，不要重复注册
 		// 注意：OksaiLoggerService 由 LoggerModule 提供，不要重复注册
-		const providers: Provider[] = [AsyncLocalStorageProvider, TenantContextService];
+		const providers: Provider[] = [
+			AsyncLocalStorageProvider,
+			TenantContextService,
+			{ provide: OKSAI_PLATFORM_TRACING_ENABLED, useValue: options.enableTracing ?? false }
+		];
 
 		// ConfigService 通过 ConfigModule 的 exports 暴露，这里只需要 re-export
 		const exports: Provider[] = [TenantContextService];
@@ -158,6 +208,10 @@ export class OksaiPlatformModule {
 		useFactory: (...args: unknown[]) => Promise<OksaiPlatformModuleOptions> | OksaiPlatformModuleOptions;
 		inject?: unknown[];
 		isGlobal?: boolean;
+		/**
+		 * 启用 HTTP 链路追踪中间件（默认 false；中间件在模块装配期挂载，因此不从 useFactory 读取）
+		 */
+		enableTracing?: boolean;
 	}): DynamicModule {
 		const isGlobal = options.isGlobal ?? true;
 
@@ -178,7 +232,14 @@ export class OksaiPlatformModule {
 				})
 			],
 			// ConfigService 由 ConfigModule 提供，OksaiLoggerService 由 LoggerModule（global）提供
-			providers: [AsyncLocalStorageProvider, TenantContextService, CommandBus, QueryBus, EventBus],
+			providers: [
+				AsyncLocalStorageProvider,
+				TenantContextService,
+				CommandBus,
+				QueryBus,
+				EventBus,
+				{ provide: OKSAI_PLATFORM_TRACING_ENABLED, useValue: options.enableTracing ?? false }
+			],
 			// ConfigService 通过 ConfigModule 的 exports 暴露，OksaiLoggerService 由 LoggerModule（global）提供
 			exports: [TenantContextService, CommandBus, QueryBus, EventBus]
 		};
@@ -1,3 +1,4 @@
+import { OksaiTraceMiddleware } from '@oksai/context';
 import { OksaiPlatformModule } from '../lib/modules/oksai-platform.module';
 
 describe('OksaiPlatformModule', () => {
@@ -82,6 +83,18 @@ describe('OksaiPlatformModule', () => {
 			expect(hasLoggerModule).toBe(false);
 		});
 
+		it('启用链路追踪时应该挂载 OksaiTraceMiddleware', () => {
+			const forRoutes = jest.fn();
+			const consumer = { apply: jest.fn(() => ({ forRoutes })) };
+
+			new OksaiPlatformModule(true).configure(consumer as any);
+			new OksaiPlatformModule().configure(consumer as any);
+
+			expect(consumer.apply).toHaveBeenCalledTimes(1);
+			expect(consumer.apply).toHaveBeenCalledWith(OksaiTraceMiddleware);
+			expect(forRoutes).toHaveBeenCalledWith('*');
+		});
+
 		it('启用所有选项时应该包含所有 providers', () => {
 			const module = OksaiPlatformModule.init({
 				enableCqrs: true,
@@ -0,0 +1,28 @@
+import { DomainEvent, UniqueEntityID } from '@oksai/kernel';
+
+/**
+ * 角色撤销事件数据
+ */
+export interface RoleRevokedFromUserEventPayload {
+	role: string;
+}
+
+/**
+ * 角色从用户撤销事件
+ *
+ * 当用户的角色被撤销时触发此事件。
+ *
+ * @example
+ * ```typescript
+ * const event = new RoleRevokedFromUserEvent({ role: 'TenantAdmin' }, new UniqueEntityID('user-001'));
+ * ```
+ */
+export class RoleRevokedFromUserEvent extends DomainEvent<RoleRevokedFromUserEventPayload> {
+	constructor(payload: RoleRevokedFromUserEventPayload, aggregateId: UniqueEntityID) {
+		super({
+			eventName: 'RoleRevokedFromUser',
+			aggregateId,
+			payload
+		});
+	}
+}
@@ -1,12 +1,27 @@
-import { AggregateRoot, UniqueEntityID } from '@oksai/kernel';
+import {
+	EventSourcedAggregateRoot,
+	UniqueEntityID,
+	type EventApplyHandlers,
+	type HistoricalEvent
+} from '@oksai/kernel';
 import { UserId } from './user-id.vo';
 import { Email } from './email.vo';
 import { RoleKey } from './role-key.vo';
-import { UserRegisteredEvent } from '../events/user-registered.domain-event';
-import { UserDisabledEvent } from '../events/user-disabled.domain-event';
+import { UserRegisteredEvent, type UserRegisteredEventPayload } from '../events/user-registered.domain-event';
+import { UserDisabledEvent, type UserDisabledEventPayload } from '../events/user-disabled.domain-event';
 import { UserEnabledEvent } from '../events/user-enabled.domain-event';
-import { RoleGrantedToUserEvent } from '../events/role-granted-to-user.domain-event';
-import { UserAddedToTenantEvent } from '../events/user-added-to-tenant.domain-event';
+import {
+	RoleGrantedToUserEvent,
+	type RoleGrantedToUserEventPayload
+} from '../events/role-granted-to-user.domain-event';
+import {
+	RoleRevokedFromUserEvent,
+	type RoleRevokedFromUserEventPayload
+} from '../events/role-revoked-from-user.domain-event';
+import {
+	UserAddedToTenantEvent,
+	type UserAddedToTenantEventPayload
+} from '../events/user-added-to-tenant.domain-event';
 
 /**
  * 用户聚合根属性
@@ -30,6 +45,10 @@ interface UserProps {
  * - 不能撤销用户的最后一个角色
  * - 禁用用户不能接受角色授予或撤销
  *
+ * 事件溯源：
+ * - 状态变更均通过领域事件的 apply 处理器完成
+ * - 可通过 `fromHistory` 从事件流重建
+ *
  * @example
  * ```typescript
  * const userId = UserId.create('user-001');
@@ -37,7 +56,7 @@ interface UserProps {
  * const user = User.register(userId, email);
  * ```
  */
-export class User extends AggregateRoot<UserProps> {
+export class User extends EventSourcedAggregateRoot<UserProps> {
 	private constructor(props: UserProps, id?: UniqueEntityID) {
 		super(props, id);
 	}
@@ -61,11 +80,24 @@ export class User extends AggregateRoot<UserProps> {
 			new UniqueEntityID(userId.value)
 		);
 
-		user.addDomainEvent(new UserRegisteredEvent({ email: email.value }, user.id));
+		user.raise(new UserRegisteredEvent({ email: email.value }, user.id));
 
 		return user;
 	}
 
+	/**
+	 * 从事件流重建用户
+	 *
+	 * @param id - 用户ID
+	 * @param events - 历史事件（按版本升序）
+	 * @returns 用户聚合根
+	 */
+	static fromHistory(id: UniqueEntityID, events: ReadonlyArray<HistoricalEvent>): User {
+		const user = new User({} as UserProps, id);
+		user.loadFromHistory(events);
+		return user;
+	}
+
 	/**
 	 * 禁用用户
 	 *
@@ -83,10 +115,7 @@ export class User extends AggregateRoot<UserProps> {
 			throw new Error('租户所有者不能被禁用');
 		}
 
-		this.props.disabled = true;
-		this.props.disabledReason = reason;
-
-		this.addDomainEvent(new UserDisabledEvent({ reason }, this.id));
+		this.raise(new UserDisabledEvent({ reason }, this.id));
 	}
 
 	/**
@@ -98,10 +127,7 @@ export class User extends AggregateRoot<UserProps> {
 	enable(): void {
 		if (!this.disabled) return;
 
-		this.props.disabled = false;
-		this.props.disabledReason = undefined;
-
-		this.addDomainEvent(new UserEnabledEvent({}, this.id));
+		this.raise(new UserEnabledEvent({}, this.id));
 	}
 
 	/**
@@ -124,9 +150,7 @@ export class User extends AggregateRoot<UserProps> {
 			throw new Error('用户已拥有该角色');
 		}
 
-		this.props.roles.push(roleKey);
-
-		this.addDomainEvent(new RoleGrantedToUserEvent({ tenantId, role: roleKey.value }, this.id));
+		this.raise(new RoleGrantedToUserEvent({ tenantId, role: roleKey.value }, this.id));
 	}
 
 	/**
@@ -148,10 +172,9 @@ export class User extends AggregateRoot<UserProps> {
 			throw new Error('不能移除最后一个角色');
 		}
 
-		const index = this.props.roles.findIndex((r) => r.equals(roleKey));
-		if (index >= 0) {
-			this.props.roles.splice(index, 1);
-		}
+		if (!this.hasRole(roleKey)) return;
+
+		this.raise(new RoleRevokedFromUserEvent({ role: roleKey.value }, this.id));
 	}
 
 	/**
@@ -162,9 +185,7 @@ export class User extends AggregateRoot<UserProps> {
 	addToTenant(tenantId: UniqueEntityID): void {
 		if (this.belongsToTenant(tenantId)) return;
 
-		this.props.tenantMemberships.push(tenantId);
-
-		this.addDomainEvent(new UserAddedToTenantEvent({ tenantId: String(tenantId.value) }, this.id));
+		this.raise(new UserAddedToTenantEvent({ tenantId: String(tenantId.value) }, this.id));
 	}
 
 	/**
@@ -222,4 +243,36 @@ export class User extends AggregateRoot<UserProps> {
 	get tenantMemberships(): UniqueEntityID[] {
 		return [...this.props.tenantMemberships];
 	}
+
+	protected getApplyHandlers(): EventApplyHandlers {
+		return {
+			UserRegistered: (payload: UserRegisteredEventPayload) => {
+				this.props = {
+					email: Email.create(payload.email),
+					disabled: false,
+					disabledReason: undefined,
+					roles: [],
+					tenantMemberships: []
+				};
+			},
+			UserDisabled: (payload: UserDisabledEventPayload) => {
+				this.props.disabled = true;
+				this.props.disabledReason = payload.reason;
+			},
+			UserEnabled: () => {
+				this.props.disabled = false;
+				this.props.disabledReason = undefined;
+			},
+			RoleGrantedToUser: (payload: RoleGrantedToUserEventPayload) => {
+				this.props.roles.push(RoleKey.create(payload.role));
+			},
+			RoleRevokedFromUser: (payload: RoleRevokedFromUserEventPayload) => {
+				const roleKey = RoleKey.create(payload.role);
+				this.props.roles = this.props.roles.filter((r) => !r.equals(roleKey));
+			},
+			UserAddedToTenant: (payload: UserAddedToTenantEventPayload) => {
+				this.props.tenantMemberships.push(new UniqueEntityID(payload.tenantId));
+			}
+		};
+	}
 }
@@ -3,7 +3,14 @@
  *
  * 用于在步骤之间共享测试状态
  */
-import type { User } from '../../domain/model/user.aggregate';
+import { UniqueEntityID } from '@oksai/kernel';
+import { EventSourcedRepository, type EventStorePort } from '@oksai/event-store';
+import { User } from '../../domain/model/user.aggregate';
+
+/**
+ * BDD 场景默认租户（事件存储禁止写入无租户事件）
+ */
+export const BDD_TENANT_ID = 'bdd-tenant';
 
 /**
  * 测试上下文接口
@@ -61,6 +68,18 @@ export function createTestContext(): TestContext {
 	};
 }
 
+/**
+ * 创建用户事件溯源仓储
+ *
+ * 场景中通常传入 `InMemoryEventStore`，保存后用 `assertEventAppended` 断言写入的事件
+ */
+export function createUserRepository(eventStore: EventStorePort): EventSourcedRepository<User> {
+	return new EventSourcedRepository<User>(eventStore, {
+		rehydrate: (aggregateId, events) => User.fromHistory(new UniqueEntityID(aggregateId), events),
+		resolveTenantId: () => BDD_TENANT_ID
+	});
+}
+
 /**
  * Mock 事件处理器
  */
@@ -6,8 +6,9 @@
 import { Given, When, Then, Before } from '@cucumber/cucumber';
 import { expect } from 'chai';
 import { UniqueEntityID } from '@oksai/kernel';
+import { InMemoryEventStore, type EventSourcedRepository } from '@oksai/event-store';
 import type { TestContext } from './test-context';
-import { createTestContext } from './test-context';
+import { createTestContext, createUserRepository } from './test-context';
 
 // 导入领域模型
 import { User } from '../../domain/model/user.aggregate';
@@ -20,6 +21,8 @@ declare module '@cucumber/cucumber' {
 	interface World {
 		context: TestContext;
 		userRepository: Map<string, User>;
+		eventStore: InMemoryEventStore;
+		users: EventSourcedRepository<User>;
 		tenantOwners: Map<string, string>; // tenantId -> userId
 		eventsBefore: number;
 	}
@@ -29,22 +32,26 @@ declare module '@cucumber/cucumber' {
 Before(function () {
 	this.context = createTestContext();
 	this.userRepository = new Map();
+	this.eventStore = new InMemoryEventStore();
+	this.users = createUserRepository(this.eventStore);
 	this.tenantOwners = new Map();
 	this.eventsBefore = 0;
 });
 
 // ============ Given 步骤 ============
 
-Given('已存在一个活跃用户 {string} 邮箱为 {string}', function (userId: string, email: string) {
+Given('已存在一个活跃用户 {string} 邮箱为 {string}', async function (userId: string, email: string) {
 	const user = User.register(UserId.create(userId), Email.create(email));
 	this.userRepository.set(userId, user);
 	this.context.userId = userId;
+	await this.users.save(user);
 });
 
-Given('已存在一个用户 {string} 邮箱为 {string}', function (userId: string, email: string) {
+Given('已存在一个用户 {string} 邮箱为 {string}', async function (userId: string, email: string) {
 	const user = User.register(UserId.create(userId), Email.create(email));
 	this.userRepository.set(userId, user);
 	this.context.userId = userId;
+	await this.users.save(user);
 });
 
 Given('用户 {string} 处于活跃状态', function (userId: string) {
@@ -53,15 +60,17 @@ Given('用户 {string} 处于活跃状态', function (userId: string) {
 	void expect(user!.disabled).to.be.false;
 });
 
-Given('用户 {string} 已被禁用，原因为 {string}', function (userId: string, reason: string) {
+Given('用户 {string} 已被禁用，原因为 {string}', async function (userId: string, reason: string) {
 	const user = this.userRepository.get(userId);
 	user!.disable(reason);
+	await this.users.save(user!);
 });
 
-Given('用户 {string} 已被禁用', function (userId: string) {
+Given('用户 {string} 已被禁用', async function (userId: string) {
 	const user = this.userRepository.get(userId);
 	if (user && !user.disabled) {
 		user.disable('测试');
+		await this.users.save(user);
 	}
 });
 
@@ -98,16 +107,17 @@ Given('已存在一个租户 {string}', function (tenantId: string) {
 	// 租户存在于系统中
 });
 
-Given('用户 {string} 已属于租户 {string}', function (userId: string, tenantId: string) {
+Given('用户 {string} 已属于租户 {string}', async function (userId: string, tenantId: string) {
 	const user = this.userRepository.get(userId);
 	user!.addToTenant(new UniqueEntityID(tenantId));
+	await this.users.save(user!);
 });
 
 // ============ When 步骤 ============
 
-When('禁用用户并填写原因为 {string}', function (reason: string) {
+When('禁用用户并填写原因为 {string}', async function (reason: string) {
 	const user = this.userRepository.get(this.context.userId!);
-	this.eventsBefore = user!.domainEvents.length;
+	this.eventsBefore = this.eventStore.getEvents(this.context.userId!).length;
 	try {
 		// 检查是否是租户所有者
 		if (user!.isTenantOwner()) {
@@ -117,26 +127,29 @@ When('禁用用户并填写原因为 {string}', function (reason: string) {
 	} catch (error) {
 		this.context.error = error as Error;
 	}
+	await this.users.save(user!);
 });
 
-When('启用用户', function () {
+When('启用用户', async function () {
 	const user = this.userRepository.get(this.context.userId!);
-	this.eventsBefore = user!.domainEvents.length;
+	this.eventsBefore = this.eventStore.getEvents(this.context.userId!).length;
 	user!.enable();
+	await this.users.save(user!);
 });
 
-When('再次禁用用户', function () {
+When('再次禁用用户', async function () {
 	const user = this.userRepository.get(this.context.userId!);
-	this.eventsBefore = user!.domainEvents.length;
+	this.eventsBefore = this.eventStore.getEvents(this.context.userId!).length;
 	// 幂等操作：如果已禁用，不做任何事
 	if (!user!.disabled) {
 		user!.disable('再次禁用');
 	}
+	await this.users.save(user!);
 });
 
-When('尝试禁用用户', function () {
+When('尝试禁用用户', async function () {
 	const user = this.userRepository.get(this.context.userId!);
-	this.eventsBefore = user!.domainEvents.length;
+	this.eventsBefore = this.eventStore.getEvents(this.context.userId!).length;
 	try {
 		// 检查是否是租户所有者
 		if (user!.isTenantOwner()) {
@@ -146,11 +159,12 @@ When('尝试禁用用户', function () {
 	} catch (error) {
 		this.context.error = error as Error;
 	}
+	await this.users.save(user!);
 });
 
-When('授予角色 {string}', function (roleKey: string) {
+When('授予角色 {string}', async function (roleKey: string) {
 	const user = this.userRepository.get(this.context.userId!);
-	this.eventsBefore = user!.domainEvents.length;
+	this.eventsBefore = this.eventStore.getEvents(this.context.userId!).length;
 	try {
 		if (user!.disabled) {
 			throw new Error('用户已禁用，不能授予角色');
@@ -159,21 +173,23 @@ When('授予角色 {string}', function (roleKey: string) {
 	} catch (error) {
 		this.context.error = error as Error;
 	}
+	await this.users.save(user!);
 });
 
-When('尝试再次授予角色 {string}', function (roleKey: string) {
+When('尝试再次授予角色 {string}', async function (roleKey: string) {
 	const user = this.userRepository.get(this.context.userId!);
-	this.eventsBefore = user!.domainEvents.length;
+	this.eventsBefore = this.eventStore.getEvents(this.context.userId!).length;
 	try {
 		user!.grantRole(RoleKey.create(roleKey), 'default-tenant');
 	} catch (error) {
 		this.context.error = error as Error;
 	}
+	await this.users.save(user!);
 });
 
-When('尝试授予角色 {string}', function (roleKey: string) {
+When('尝试授予角色 {string}', async function (roleKey: string) {
 	const user = this.userRepository.get(this.context.userId!);
-	this.eventsBefore = user!.domainEvents.length;
+	this.eventsBefore = this.eventStore.getEvents(this.context.userId!).length;
 	try {
 		// 验证角色键格式
 		if (!/^[A-Z][a-zA-Z0-9]*$/.test(roleKey)) {
@@ -186,42 +202,47 @@ When('尝试授予角色 {string}', function (roleKey: string) {
 	} catch (error) {
 		this.context.error = error as Error;
 	}
+	await this.users.save(user!);
 });
 
-When('撤销角色 {string}', function (roleKey: string) {
+When('撤销角色 {string}', async function (roleKey: string) {
 	const user = this.userRepository.get(this.context.userId!);
-	this.eventsBefore = user!.domainEvents.length;
+	this.eventsBefore = this.eventStore.getEvents(this.context.userId!).length;
 	try {
 		user!.revokeRole(RoleKey.create(roleKey));
 	} catch (error) {
 		this.context.error = error as Error;
 	}
+	await this.users.save(user!);
 });
 
-When('尝试撤销角色 {string}', function (roleKey: string) {
+When('尝试撤销角色 {string}', async function (roleKey: string) {
 	const user = this.userRepository.get(this.context.userId!);
-	this.eventsBefore = user!.domainEvents.length;
+	this.eventsBefore = this.eventStore.getEvents(this.context.userId!).length;
 	try {
 		user!.revokeRole(RoleKey.create(roleKey));
 	} catch (error) {
 		this.context.error = error as Error;
 	}
+	await this.users.save(user!);
 });
 
-When('将用户添加到租户 {string}', function (tenantId: string) {
+When('将用户添加到租户 {string}', async function (tenantId: string) {
 	const user = this.userRepository.get(this.context.userId!);
-	this.eventsBefore = user!.domainEvents.length;
+	this.eventsBefore = this.eventStore.getEvents(this.context.userId!).length;
 	user!.addToTenant(new UniqueEntityID(tenantId));
+	await this.users.save(user!);
 });
 
-When('再次将用户添加到租户 {string}', function (tenantId: string) {
+When('再次将用户添加到租户 {string}', async function (tenantId: string) {
 	const user = this.userRepository.get(this.context.userId!);
-	this.eventsBefore = user!.domainEvents.length;
+	this.eventsBefore = this.eventStore.getEvents(this.context.userId!).length;
 	// 幂等操作：如果已在租户中，不做任何事
 	const tenantIdObj = new UniqueEntityID(tenantId);
 	if (!user!.belongsToTenant(tenantIdObj)) {
 		user!.addToTenant(tenantIdObj);
 	}
+	await this.users.save(user!);
 });
 
 // ============ Then 步骤 ============
@@ -250,8 +271,7 @@ Then('操作成功完成', function () {
 });
 
 Then('不产生新的事件', function () {
-	const user = this.userRepository.get(this.context.userId!);
-	const newEvents = user!.domainEvents.length - this.eventsBefore;
+	const newEvents = this.eventStore.getEvents(this.context.userId!).length - this.eventsBefore;
 	void expect(newEvents).to.equal(0);
 });
 
@@ -5,6 +5,7 @@
  */
 import { Given, When, Then, Before } from '@cucumber/cucumber';
 import { expect } from 'chai';
+import { assertEventAppended } from '@oksai/event-store';
 import { createTestContext, isValidUuid } from './test-context';
 
 // 导入领域模型
@@ -45,33 +46,36 @@ Given('一个空的邮箱地址', function () {
 
 // ============ When 步骤 ============
 
-When('注册新用户', function () {
+When('注册新用户', async function () {
 	try {
 		const email = Email.create(this.context.email!);
 		const userId = UserId.create(this.context.userId!);
 		this.context.user = User.register(userId, email);
+		await this.users.save(this.context.user);
 	} catch (error) {
 		this.context.error = error as Error;
 	}
 });
 
-When('尝试注册新用户', function () {
+When('尝试注册新用户', async function () {
 	try {
 		const email = Email.create(this.context.email!);
 		const userId = UserId.create(this.context.userId!);
 		this.context.user = User.register(userId, email);
+		await this.users.save(this.context.user);
 	} catch (error) {
 		this.context.error = error as Error;
 	}
 });
 
-When('系统自动生成用户ID并注册', function () {
+When('系统自动生成用户ID并注册', async function () {
 	try {
 		const email = Email.create(this.context.email!);
 		// 使用无参数 create() 生成随机 UUID
 		const userId = UserId.create();
 		this.context.userId = userId.value;
 		this.context.user = User.register(userId, email);
+		await this.users.save(this.context.user);
 	} catch (error) {
 		this.context.error = error as Error;
 	}
@@ -100,22 +104,11 @@ Then('用户邮箱应为 {string}', function (expectedEmail: string) {
 });
 
 Then('触发 {string} 事件', function (eventName: string) {
-	// 验证领域事件
-	let user: User | null = null;
+	// 验证写入事件存储的领域事件（user-lifecycle 场景的用户来自 userRepository）
+	const aggregateId = this.context.user?.id.toString() ?? this.context.userId;
 
-	// 优先从 context 获取用户
-	if (this.context.user) {
-		user = this.context.user;
-	}
-	// 否则从 userRepository 获取（用于 user-lifecycle 场景）
-	else if (this.context.userId && this.userRepository) {
-		user = this.userRepository.get(this.context.userId) || null;
-	}
-
-	void expect(user).to.not.be.null;
-	const events = user!.domainEvents;
-	const hasEvent = events.some((e) => e.eventName === eventName);
-	void expect(hasEvent).to.be.true;
+	void expect(aggregateId).to.not.be.null;
+	assertEventAppended(this.eventStore.getEvents(), { eventName, aggregateId: aggregateId! });
 });
 
 Then('注册失败', function () {
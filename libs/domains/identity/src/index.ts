@@ -26,6 +26,11 @@ export {
 	type RoleGrantedToUserEventPayload
 } from './domain/events/role-granted-to-user.domain-event';
 
+export {
+	RoleRevokedFromUserEvent,
+	type RoleRevokedFromUserEventPayload
+} from './domain/events/role-revoked-from-user.domain-event';
+
 export {
 	UserAddedToTenantEvent,
 	type UserAddedToTenantEventPayload
@@ -8,6 +8,7 @@ import { UserDisabledEvent } from '../../domain/events/user-disabled.domain-even
 import { UserEnabledEvent } from '../../domain/events/user-enabled.domain-event';
 import { RoleGrantedToUserEvent } from '../../domain/events/role-granted-to-user.domain-event';
 import { UserAddedToTenantEvent } from '../../domain/events/user-added-to-tenant.domain-event';
+import { RoleRevokedFromUserEvent } from '../../domain/events/role-revoked-from-user.domain-event';
 
 describe('User Aggregate', () => {
 	describe('register', () => {
@@ -179,6 +180,55 @@ describe('User Aggregate', () => {
 
 			expect(() => user.revokeRole(RoleKey.create('TenantAdmin'))).toThrow('用户已禁用');
 		});
+
+		it('撤销角色应该触发 RoleRevokedFromUserEvent', () => {
+			const user = createTestUser();
+			user.grantRole(RoleKey.create('TenantMember'), 'tenant-001');
+			user.grantRole(RoleKey.create('TenantAdmin'), 'tenant-001');
+
+			user.revokeRole(RoleKey.create('TenantAdmin'));
+
+			const lastEvent = user.domainEvents[user.domainEvents.length - 1];
+			expect(lastEvent).toBeInstanceOf(RoleRevokedFromUserEvent);
+			expect(lastEvent.payload).toEqual({ role: 'TenantAdmin' });
+		});
+
+		it('撤销未拥有的角色不应该产生事件', () => {
+			const user = createTestUser();
+			user.grantRole(RoleKey.create('TenantMember'), 'tenant-001');
+			user.grantRole(RoleKey.create('TenantAdmin'), 'tenant-001');
+			const eventCountBefore = user.domainEventsCount;
+
+			user.revokeRole(RoleKey.create('PlatformAdmin'));
+
+			expect(user.domainEventsCount).toBe(eventCountBefore);
+		});
+	});
+
+	describe('fromHistory', () => {
+		it('应该从事件流重建用户状态', () => {
+			const user = createTestUser();
+			user.grantRole(RoleKey.create('TenantMember'), 'tenant-001');
+			user.grantRole(RoleKey.create('TenantAdmin'), 'tenant-001');
+			user.revokeRole(RoleKey.create('TenantMember'));
+			user.addToTenant(new UniqueEntityID('tenant-001'));
+			user.disable('违规');
+			const history = user.domainEvents.map((e, i) => ({
+				eventName: e.eventName,
+				payload: e.payload,
+				eventVersion: i + 1
+			}));
+
+			const rebuilt = User.fromHistory(user.id, history);
+
+			expect(rebuilt.email.value).toBe('test@example.com');
+			expect(rebuilt.roles.map((r) => r.value)).toEqual(['TenantAdmin']);
+			expect(rebuilt.belongsToTenant(new UniqueEntityID('tenant-001'))).toBe(true);
+			expect(rebuilt.disabled).toBe(true);
+			expect(rebuilt.disabledReason).toBe('违规');
+			expect(rebuilt.version).toBe(history.length);
+			expect(rebuilt.hasDomainEvents()).toBe(false);
+		});
 	});
 
 	describe('addToTenant', () => {
@@ -0,0 +1,22 @@
+/**
+ * 租户计划已升级领域事件
+ *
+ * 当租户升级订阅计划时触发。
+ */
+import { DomainEvent, UniqueEntityID } from '@oksai/kernel';
+
+export interface TenantPlanUpgradedPayload {
+	tenantId: string;
+	fromPlan: string;
+	toPlan: string;
+}
+
+export class TenantPlanUpgradedEvent extends DomainEvent<TenantPlanUpgradedPayload> {
+	constructor(aggregateId: UniqueEntityID, payload: TenantPlanUpgradedPayload) {
+		super({
+			eventName: 'TenantPlanUpgraded',
+			aggregateId,
+			payload
+		});
+	}
+}
@@ -9,6 +9,10 @@
  * - 只有活跃状态的租户才能被暂停
  * - 计划只能升级，不能降级
  *
+ * 事件溯源：
+ * - 状态变更均通过领域事件的 apply 处理器完成
+ * - 可通过 `fromHistory` 从事件流重建
+ *
  * @example
  * ```typescript
  * const result = Tenant.create({
@@ -23,13 +27,21 @@
  * }
  * ```
  */
-import { AggregateRoot, Result, UniqueEntityID } from '@oksai/kernel';
+import {
+	EventSourcedAggregateRoot,
+	Result,
+	UniqueEntityID,
+	type EventApplyHandlers,
+	type HistoricalEvent
+} from '@oksai/kernel';
 import { TenantName } from './tenant-name.vo';
 import { TenantPlan } from './tenant-plan.vo';
 import { TenantStatus } from './tenant-status.vo';
 import { TenantCreatedEvent } from '../events/tenant-created.domain-event';
 import { TenantActivatedEvent } from '../events/tenant-activated.domain-event';
 import { TenantSuspendedEvent } from '../events/tenant-suspended.domain-event';
+import { TenantPlanUpgradedEvent, type TenantPlanUpgradedPayload } from '../events/tenant-plan-upgraded.domain-event';
+import { type TenantCreatedPayload } from '../events/tenant-created.domain-event';
 
 interface TenantProps {
 	name: TenantName;
@@ -37,7 +49,7 @@ interface TenantProps {
 	status: TenantStatus;
 }
 
-export class Tenant extends AggregateRoot<TenantProps> {
+export class Tenant extends EventSourcedAggregateRoot<TenantProps> {
 	/**
 	 * 获取租户名称
 	 */
@@ -80,8 +92,8 @@ export class Tenant extends AggregateRoot<TenantProps> {
 			tenantId
 		);
 
-		// 添加领域事件
-		tenant.addDomainEvent(
+		// 产生领域事件
+		tenant.raise(
 			new TenantCreatedEvent(tenantId, {
 				tenantId: String(tenantId.value),
 				name: props.name.value,
@@ -110,15 +122,28 @@ export class Tenant extends AggregateRoot<TenantProps> {
 		return new Tenant(props, id);
 	}
 
+	/**
+	 * 从事件流重建租户
+	 *
+	 * @param id - 租户 ID
+	 * @param events - 历史事件（按版本升序）
+	 * @returns Tenant 实例
+	 */
+	public static fromHistory(id: UniqueEntityID, events: ReadonlyArray<HistoricalEvent>): Tenant {
+		const tenant = new Tenant({} as TenantProps, id);
+		tenant.loadFromHistory(events);
+		return tenant;
+	}
+
 	/**
 	 * 激活租户
 	 *
 	 * @throws Error 如果当前状态不允许激活
 	 */
 	public activate(): void {
-		this.props.status = this.props.status.activate();
+		this.props.status.activate();
 
-		this.addDomainEvent(
+		this.raise(
 			new TenantActivatedEvent(this.id, {
 				tenantId: String(this.id.value),
 				activatedAt: new Date().toISOString()
@@ -133,9 +158,9 @@ export class Tenant extends AggregateRoot<TenantProps> {
 	 * @throws Error 如果当前状态不允许暂停
 	 */
 	public suspend(reason: string): void {
-		this.props.status = this.props.status.suspend();
+		this.props.status.suspend();
 
-		this.addDomainEvent(
+		this.raise(
 			new TenantSuspendedEvent(this.id, {
 				tenantId: String(this.id.value),
 				reason,
@@ -155,6 +180,33 @@ export class Tenant extends AggregateRoot<TenantProps> {
 			throw new Error('不能降级计划');
 		}
 
-		this.props.plan = newPlan;
+		this.raise(
+			new TenantPlanUpgradedEvent(this.id, {
+				tenantId: String(this.id.value),
+				fromPlan: this.props.plan.value,
+				toPlan: newPlan.value
+			})
+		);
+	}
+
+	protected getApplyHandlers(): EventApplyHandlers {
+		return {
+			TenantCreated: (payload: TenantCreatedPayload) => {
+				this.props = {
+					name: TenantName.create(payload.name).value as TenantName,
+					plan: TenantPlan.create(payload.plan).value as TenantPlan,
+					status: TenantStatus.pending()
+				};
+			},
+			TenantActivated: () => {
+				this.props.status = TenantStatus.active();
+			},
+			TenantSuspended: () => {
+				this.props.status = TenantStatus.suspended();
+			},
+			TenantPlanUpgraded: (payload: TenantPlanUpgradedPayload) => {
+				this.props.plan = TenantPlan.create(payload.toPlan).value as TenantPlan;
+			}
+		};
 	}
 }
@@ -19,3 +19,7 @@ export { Tenant } from './domain/model/tenant.aggregate';
 export { TenantCreatedEvent, type TenantCreatedPayload } from './domain/events/tenant-created.domain-event';
 export { TenantActivatedEvent, type TenantActivatedPayload } from './domain/events/tenant-activated.domain-event';
 export { TenantSuspendedEvent, type TenantSuspendedPayload } from './domain/events/tenant-suspended.domain-event';
+export {
+	TenantPlanUpgradedEvent,
+	type TenantPlanUpgradedPayload
+} from './domain/events/tenant-plan-upgraded.domain-event';
@@ -308,6 +308,46 @@ describe('Tenant Domain', () => {
 				// Act & Assert
 				expect(() => tenant.upgradePlan(basicPlanResult.value)).toThrow('不能降级计划');
 			});
+
+			it('升级计划应该触发 TenantPlanUpgradedEvent', () => {
+				// Arrange
+				const tenant = createTestTenant();
+				tenant.clearDomainEvents();
+
+				// Act
+				tenant.upgradePlan(TenantPlan.create('pro').value as TenantPlan);
+
+				// Assert
+				expect(tenant.domainEvents).toHaveLength(1);
+				expect(tenant.domainEvents[0].eventName).toBe('TenantPlanUpgraded');
+				expect(tenant.domainEvents[0].payload).toMatchObject({ fromPlan: 'basic', toPlan: 'pro' });
+			});
+		});
+
+		describe('fromHistory', () => {
+			it('应该从事件流重建租户状态', () => {
+				// Arrange
+				const tenant = createTestTenant();
+				tenant.activate();
+				tenant.upgradePlan(TenantPlan.create('pro').value as TenantPlan);
+				tenant.suspend('欠费');
+				const history = tenant.domainEvents.map((e, i) => ({
+					eventName: e.eventName,
+					payload: e.payload,
+					eventVersion: i + 1
+				}));
+
+				// Act
+				const rebuilt = Tenant.fromHistory(tenant.id, history);
+
+				// Assert
+				expect(rebuilt.id.equals(tenant.id)).toBe(true);
+				expect(rebuilt.name.value).toBe('测试公司');
+				expect(rebuilt.plan.value).toBe('pro');
+				expect(rebuilt.status.value).toBe('suspended');
+				expect(rebuilt.version).toBe(4);
+				expect(rebuilt.hasDomainEvents()).toBe(false);
+			});
 		});
 	});
 });
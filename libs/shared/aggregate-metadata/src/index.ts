@@ -13,3 +13,4 @@ export * from './lib/read-model/aggregate-metadata.entity';
 // 服务
 export * from './lib/services/aggregate-metadata-query.service';
 export * from './lib/services/aggregate-metadata-projector';
+export * from './lib/services/aggregate-metadata-event-projection';
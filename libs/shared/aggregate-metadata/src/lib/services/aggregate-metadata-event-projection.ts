@@ -0,0 +1,83 @@
+import { Logger } from '@nestjs/common';
+import { type EventProjection, type ReadAllFilter, type StoredEvent } from '@oksai/event-store';
+import { AggregateMetadataProjector } from './aggregate-metadata-projector';
+
+/**
+ * 聚合元数据事件投影配置
+ */
+export interface AggregateMetadataEventProjectionOptions {
+	/**
+	 * 投影名称（检查点键，默认 aggregate-metadata）
+	 */
+	name?: string;
+
+	/**
+	 * 只订阅满足条件的事件（可选）
+	 */
+	filter?: ReadAllFilter;
+
+	/**
+	 * 解析事件所属的聚合类型，返回 undefined 时跳过该事件
+	 *
+	 * 默认读取 event.metadata.aggregateType
+	 */
+	resolveAggregateType?: (event: StoredEvent) => string | undefined;
+}
+
+/**
+ * 聚合元数据事件投影
+ *
+ * 从全局事件流（readAll）维护 aggregate_metadata 表，由 ProjectionRunner 驱动：
+ * 重启后从检查点继续，或从位置 0 重建。每个事件只推进对应聚合的更新时间与更新者（见 AggregateMetadataProjector.touch），
+ * 不清空读模型——该表同时由非事件溯源的仓储直接写入。
+ *
+ * @example
+ * ```typescript
+ * const runner = new ProjectionRunner(
+ *   eventStore,
+ *   checkpointStore,
+ *   new AggregateMetadataEventProjection(projector, {
+ *     resolveAggregateType: (event) => (event.eventName.startsWith('Tenant') ? 'Tenant' : undefined)
+ *   })
+ * );
+ * await runner.catchUp();
+ * ```
+ */
+export class AggregateMetadataEventProjection implements EventProjection {
+	private readonly logger = new Logger(AggregateMetadataEventProjection.name);
+
+	public readonly name: string;
+	public readonly filter?: ReadAllFilter;
+	private readonly resolveAggregateType: (event: StoredEvent) => string | undefined;
+
+	constructor(
+		private readonly projector: AggregateMetadataProjector,
+		options: AggregateMetadataEventProjectionOptions = {}
+	) {
+		this.name = options.name ?? 'aggregate-metadata';
+		this.filter = options.filter;
+		this.resolveAggregateType = options.resolveAggregateType ?? defaultResolveAggregateType;
+	}
+
+	async handle(event: StoredEvent): Promise<void> {
+		const aggregateType = this.resolveAggregateType(event);
+		if (!aggregateType || !event.tenantId) {
+			this.logger.debug(`跳过无法归属的事件: ${event.eventName} (eventId=${event.eventId})`);
+			return;
+		}
+
+		const userId = event.metadata?.userId;
+		await this.projector.touch(
+			event.tenantId,
+			aggregateType,
+			event.aggregateId,
+			event.occurredAt,
+			typeof userId === 'string' ? userId : undefined
+		);
+	}
+}
+
+function defaultResolveAggregateType(event: StoredEvent): string | undefined {
+	const aggregateType = event.metadata?.aggregateType;
+	return typeof aggregateType === 'string' ? aggregateType : undefined;
+}
@@ -122,6 +122,41 @@ export class AggregateMetadataProjector {
 		);
 	}
 
+	/**
+	 * 记录聚合的一次变更（不存在时插入）
+	 *
+	 * 只推进 updated_at / updated_by，不覆盖扩展字段；重复投递同一事件时结果不变（幂等），
+	 * 供事件投影（AggregateMetadataEventProjection）在重放时使用。
+	 *
+	 * @param tenantId - 租户 ID
+	 * @param aggregateType - 聚合类型
+	 * @param aggregateId - 聚合 ID
+	 * @param occurredAt - 变更时间
+	 * @param changedBy - 变更者
+	 */
+	async touch(
+		tenantId: string,
+		aggregateType: string,
+		aggregateId: string,
+		occurredAt: Date,
+		changedBy?: string
+	): Promise<void> {
+		const conn = this.orm.em.getConnection();
+		await conn.execute(
+			`INSERT INTO aggregate_metadata (
+				tenant_id, aggregate_type, aggregate_id, created_at, updated_at, created_by, updated_by, is_deleted
+			) VALUES ($1, $2, $3, $4, $4, $5, $5, false)
+			ON CONFLICT (tenant_id, aggregate_type, aggregate_id) DO UPDATE SET
+				created_at = LEAST(aggregate_metadata.created_at, EXCLUDED.created_at),
+				updated_at = GREATEST(aggregate_metadata.updated_at, EXCLUDED.updated_at),
+				updated_by = CASE
+					WHEN EXCLUDED.updated_at >= aggregate_metadata.updated_at THEN EXCLUDED.updated_by
+					ELSE aggregate_metadata.updated_by
+				END`,
+			[tenantId, aggregateType, aggregateId, occurredAt, changedBy ?? null]
+		);
+	}
+
 	/**
 	 * 软删除元数据记录
 	 *
@@ -0,0 +1,82 @@
+import { StoredEvent, StoredEventStatus } from '@oksai/event-store';
+import { AggregateMetadataEventProjection } from '../../lib/services/aggregate-metadata-event-projection';
+
+function createEvent(overrides: { tenantId?: string; metadata?: Record<string, unknown> } = {}): StoredEvent {
+	return StoredEvent.fromProps({
+		eventId: 'evt-1',
+		eventName: 'TenantActivated',
+		aggregateId: 'tenant-001',
+		tenantId: 'tenantId' in overrides ? overrides.tenantId : 'tenant-001',
+		payload: {},
+		eventVersion: 2,
+		occurredAt: new Date('2026-01-02'),
+		status: StoredEventStatus.PENDING,
+		metadata: overrides.metadata ?? { aggregateType: 'Tenant', userId: 'user-001' },
+		position: 7
+	});
+}
+
+describe('AggregateMetadataEventProjection', () => {
+	let projector: { touch: jest.Mock };
+
+	beforeEach(() => {
+		projector = { touch: jest.fn().mockResolvedValue(undefined) };
+	});
+
+	it('应该使用默认名称', () => {
+		const projection = new AggregateMetadataEventProjection(projector as any);
+
+		expect(projection.name).toBe('aggregate-metadata');
+		expect(projection.filter).toBeUndefined();
+	});
+
+	it('应该按事件元数据中的聚合类型更新元数据', async () => {
+		const projection = new AggregateMetadataEventProjection(projector as any);
+
+		await projection.handle(createEvent());
+
+		expect(projector.touch).toHaveBeenCalledWith(
+			'tenant-001',
+			'Tenant',
+			'tenant-001',
+			new Date('2026-01-02'),
+			'user-001'
+		);
+	});
+
+	it('应该支持自定义聚合类型解析', async () => {
+		const projection = new AggregateMetadataEventProjection(projector as any, {
+			name: 'tenant-metadata',
+			filter: { eventNames: ['TenantActivated'] },
+			resolveAggregateType: (event) => (event.eventName.startsWith('Tenant') ? 'Tenant' : undefined)
+		});
+
+		await projection.handle(createEvent({ metadata: {} }));
+
+		expect(projection.name).toBe('tenant-metadata');
+		expect(projection.filter).toEqual({ eventNames: ['TenantActivated'] });
+		expect(projector.touch).toHaveBeenCalledWith(
+			'tenant-001',
+			'Tenant',
+			'tenant-001',
+			new Date('2026-01-02'),
+			undefined
+		);
+	});
+
+	it('无法解析聚合类型时应该跳过', async () => {
+		const projection = new AggregateMetadataEventProjection(projector as any);
+
+		await projection.handle(createEvent({ metadata: {} }));
+
+		expect(projector.touch).not.toHaveBeenCalled();
+	});
+
+	it('缺少租户的事件应该跳过', async () => {
+		const projection = new AggregateMetadataEventProjection(projector as any);
+
+		await projection.handle(createEvent({ tenantId: undefined }));
+
+		expect(projector.touch).not.toHaveBeenCalled();
+	});
+});
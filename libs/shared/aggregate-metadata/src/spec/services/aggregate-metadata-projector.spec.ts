@@ -212,6 +212,25 @@ describe('AggregateMetadataProjector', () => {
 		});
 	});
 
+	describe('touch', () => {
+		it('应该只推进更新时间而不覆盖扩展字段', async () => {
+			await projector.touch('tenant-001', 'Tenant', 'tenant-001', new Date('2026-01-02'), 'user-001');
+
+			const [sql, params] = mockConnection.execute.mock.calls[0];
+			expect(sql).toContain('ON CONFLICT');
+			expect(sql).toContain('GREATEST(aggregate_metadata.updated_at, EXCLUDED.updated_at)');
+			expect(sql).not.toContain('tags');
+			expect(params).toEqual(['tenant-001', 'Tenant', 'tenant-001', new Date('2026-01-02'), 'user-001']);
+		});
+
+		it('changedBy 可以为空', async () => {
+			await projector.touch('tenant-001', 'Tenant', 'tenant-001', new Date());
+
+			const params = mockConnection.execute.mock.calls[0][1];
+			expect(params[4]).toBeNull();
+		});
+	});
+
 	describe('softDelete', () => {
 		it('应该执行 UPDATE 语句设置 is_deleted = true', async () => {
 			await projector.softDelete('tenant-001', 'Job', 'job-001', 'admin-001');
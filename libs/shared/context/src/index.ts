@@ -16,8 +16,41 @@ export { AsyncLocalStorageProvider } from './lib/async-local-storage.provider';
 export { TenantContextService } from './lib/tenant-context.service';
 
 // Worker 上下文（用于后台任务）
+export { type OksaiRequestContext, runWithOksaiContext, getOksaiRequestContextFromCurrent } from './lib/worker-context';
+
+// 链路追踪（W3C Trace Context）
+export {
+	type OksaiTraceContext,
+	parseOksaiTraceparent,
+	formatOksaiTraceparent,
+	createOksaiTraceId,
+	createOksaiSpanId
+} from './lib/trace-context';
+export {
+	type OksaiSpanKind,
+	type OksaiSpanAttributeValue,
+	type OksaiSpanAttributes,
+	type OksaiSpanStatusCode,
+	type OksaiSpanEvent,
+	type OksaiSpanData,
+	type OksaiTracingResource,
+	type OksaiSpanExporter,
+	type ConfigureOksaiTracingOptions,
+	type StartOksaiSpanOptions,
+	OksaiSpan,
+	configureOksaiTracing,
+	shutdownOksaiTracing,
+	resetOksaiTracing,
+	getCurrentOksaiTraceContext,
+	startOksaiSpan,
+	runInOksaiSpan
+} from './lib/tracing';
 export {
-	type OksaiRequestContext,
-	runWithOksaiContext,
-	getOksaiRequestContextFromCurrent
-} from './lib/worker-context';
+	type OtlpFileOksaiSpanExporterOptions,
+	type CreateOksaiSpanExporterOptions,
+	ConsoleOksaiSpanExporter,
+	OtlpFileOksaiSpanExporter,
+	toOtlpExportTraceServiceRequest,
+	createOksaiSpanExporter
+} from './lib/tracing.exporters';
+export { OksaiTraceMiddleware } from './lib/trace.middleware';
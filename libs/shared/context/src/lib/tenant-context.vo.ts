@@ -1,3 +1,5 @@
+import { getCurrentOksaiTraceContext } from './tracing';
+
 /**
  * 租户上下文
  *
@@ -83,7 +85,11 @@ export class TenantContext implements TenantContextProps {
 
 /**
  * 生成关联 ID
+ *
+ * 处于链路中时使用当前 traceId，便于日志与链路数据互相检索
  */
 function generateCorrelationId(): string {
+	const trace = getCurrentOksaiTraceContext();
+	if (trace) return trace.traceId;
 	return `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
 }
@@ -0,0 +1,88 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * @description W3C Trace Context（traceparent / tracestate 解析结果）
+ *
+ * 参考：https://www.w3.org/TR/trace-context/
+ */
+export interface OksaiTraceContext {
+	/**
+	 * 链路 ID（32 位小写十六进制）
+	 */
+	traceId: string;
+
+	/**
+	 * 当前 span ID（16 位小写十六进制）
+	 */
+	spanId: string;
+
+	/**
+	 * 是否采样（traceparent flags 的 sampled 位）
+	 */
+	sampled: boolean;
+
+	/**
+	 * 厂商扩展状态（原样透传的 tracestate）
+	 */
+	traceState?: string;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+/**
+ * @description 解析 W3C `traceparent`
+ *
+ * 规则：
+ * - 版本 ff 与全零 traceId / spanId 视为非法
+ * - 版本 00 不允许追加字段；更高版本按规范只读取前四段
+ *
+ * @param traceparent - traceparent 头的值
+ * @param tracestate - tracestate 头的值（可选）
+ * @returns 解析结果；缺失或非法时返回 null
+ */
+export function parseOksaiTraceparent(
+	traceparent: string | undefined | null,
+	tracestate?: string | null
+): OksaiTraceContext | null {
+	if (!traceparent) return null;
+	const match = TRACEPARENT_PATTERN.exec(traceparent.trim().toLowerCase());
+	if (!match) return null;
+
+	const [, version, traceId, spanId, flags, rest] = match;
+	if (version === 'ff' || (version === '00' && rest !== undefined)) return null;
+	if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) return null;
+
+	const traceState = tracestate?.trim();
+	return {
+		traceId,
+		spanId,
+		sampled: (parseInt(flags, 16) & 0x01) === 0x01,
+		traceState: traceState ? traceState : undefined
+	};
+}
+
+/**
+ * @description 格式化为 W3C `traceparent`（版本 00）
+ *
+ * @param ctx - 链路上下文
+ * @returns traceparent 字符串
+ */
+export function formatOksaiTraceparent(ctx: OksaiTraceContext): string {
+	return `00-${ctx.traceId}-${ctx.spanId}-${ctx.sampled ? '01' : '00'}`;
+}
+
+/**
+ * @description 生成链路 ID（16 字节随机数）
+ */
+export function createOksaiTraceId(): string {
+	return randomBytes(16).toString('hex');
+}
+
+/**
+ * @description 生成 span ID（8 字节随机数）
+ */
+export function createOksaiSpanId(): string {
+	return randomBytes(8).toString('hex');
+}
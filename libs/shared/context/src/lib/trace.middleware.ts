@@ -0,0 +1,60 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { Injectable, type NestMiddleware } from '@nestjs/common';
+import { parseOksaiTraceparent } from './trace-context';
+import { startOksaiSpan } from './tracing';
+import { runWithOksaiContext } from './worker-context';
+
+/**
+ * @description HTTP 链路追踪中间件
+ *
+ * 职责：
+ * - 读取入站 `traceparent/tracestate`（缺失或非法时创建根 span）
+ * - 为每个请求创建 server span，响应结束时记录状态码并结束
+ * - 在请求的 ALS 上下文中写入 `traceparent/tracestate/requestId`，供 CQRS 与 Outbox 继续传播
+ *
+ * 说明：
+ * - `requestId` 优先取 `x-request-id` 头，缺失时使用 traceId
+ * - 同时适配 Express 与 Fastify（Nest 中间件拿到的是原生 req/res）
+ */
+@Injectable()
+export class OksaiTraceMiddleware implements NestMiddleware {
+	use(req: IncomingMessage & { originalUrl?: string }, res: ServerResponse, next: (error?: unknown) => void): void {
+		const method = req.method ?? 'GET';
+		const parent = parseOksaiTraceparent(readHeader(req, 'traceparent'), readHeader(req, 'tracestate'));
+		const span = startOksaiSpan(`HTTP ${method}`, {
+			kind: 'server',
+			parent,
+			attributes: {
+				'http.request.method': method,
+				'url.path': (req.originalUrl ?? req.url ?? '/').split('?')[0]
+			}
+		});
+
+		let finished = false;
+		const finish = () => {
+			if (finished) return;
+			finished = true;
+			span.setAttribute('http.response.status_code', res.statusCode);
+			if (res.statusCode >= 500) {
+				span.setStatus('error');
+			}
+			span.end();
+		};
+		res.once('finish', finish);
+		res.once('close', finish);
+
+		runWithOksaiContext(
+			{
+				requestId: readHeader(req, 'x-request-id') ?? span.traceId,
+				traceparent: span.traceparent,
+				tracestate: span.traceState
+			},
+			() => next()
+		);
+	}
+}
+
+function readHeader(req: IncomingMessage, name: string): string | undefined {
+	const value = req.headers[name];
+	return Array.isArray(value) ? value[0] : value;
+}
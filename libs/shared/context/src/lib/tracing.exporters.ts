@@ -0,0 +1,179 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import type {
+	OksaiSpanAttributeValue,
+	OksaiSpanData,
+	OksaiSpanExporter,
+	OksaiSpanKind,
+	OksaiSpanStatusCode,
+	OksaiTracingResource
+} from './tracing';
+
+/**
+ * @description 控制台导出器：每个 span 输出一行 JSON（本地开发/排障）
+ */
+export class ConsoleOksaiSpanExporter implements OksaiSpanExporter {
+	constructor(private readonly write: (line: string) => void = (line) => process.stdout.write(`${line}\n`)) {}
+
+	export(spans: OksaiSpanData[], resource: OksaiTracingResource): void {
+		for (const span of spans) {
+			this.write(JSON.stringify({ service: resource.serviceName, ...span }));
+		}
+	}
+}
+
+export interface OtlpFileOksaiSpanExporterOptions {
+	/**
+	 * 输出文件路径（目录不存在时自动创建）
+	 */
+	filePath: string;
+}
+
+/**
+ * @description OTLP 文件导出器：以 OTLP/JSON（ExportTraceServiceRequest）格式按行追加写入文件
+ *
+ * 说明：
+ * - 无需 Collector 在线，文件可离线导入 Jaeger/Tempo 或由 OpenTelemetry Collector 的 `otlpjsonfile` receiver 读取
+ * - 写入串行化，保证每行是一个完整的 JSON 对象
+ */
+export class OtlpFileOksaiSpanExporter implements OksaiSpanExporter {
+	private queue: Promise<void> = Promise.resolve();
+	private dirReady: Promise<unknown> | null = null;
+
+	constructor(private readonly options: OtlpFileOksaiSpanExporterOptions) {}
+
+	export(spans: OksaiSpanData[], resource: OksaiTracingResource): Promise<void> {
+		const line = `${JSON.stringify(toOtlpExportTraceServiceRequest(spans, resource))}\n`;
+		const task = this.queue.then(async () => {
+			this.dirReady ??= mkdir(dirname(this.options.filePath), { recursive: true });
+			await this.dirReady;
+			await appendFile(this.options.filePath, line, 'utf8');
+		});
+		// 单次写入失败不阻塞后续写入；失败由调用方记录
+		this.queue = task.catch(() => undefined);
+		return task;
+	}
+
+	async shutdown(): Promise<void> {
+		await this.queue;
+	}
+}
+
+const OTLP_SPAN_KIND: Record<OksaiSpanKind, number> = {
+	internal: 1,
+	server: 2,
+	client: 3,
+	producer: 4,
+	consumer: 5
+};
+
+const OTLP_STATUS_CODE: Record<OksaiSpanStatusCode, number> = {
+	unset: 0,
+	ok: 1,
+	error: 2
+};
+
+/**
+ * @description 转换为 OTLP/JSON `ExportTraceServiceRequest`
+ *
+ * 参考：https://opentelemetry.io/docs/specs/otlp/#json-protobuf-encoding
+ */
+export function toOtlpExportTraceServiceRequest(
+	spans: OksaiSpanData[],
+	resource: OksaiTracingResource
+): Record<string, unknown> {
+	return {
+		resourceSpans: [
+			{
+				resource: {
+					attributes: toOtlpAttributes({ ...resource.attributes, 'service.name': resource.serviceName })
+				},
+				scopeSpans: [
+					{
+						scope: { name: '@oksai/context' },
+						spans: spans.map((span) => ({
+							traceId: span.traceId,
+							spanId: span.spanId,
+							parentSpanId: span.parentSpanId,
+							traceState: span.traceState,
+							name: span.name,
+							kind: OTLP_SPAN_KIND[span.kind],
+							startTimeUnixNano: toUnixNano(span.startTimeUnixMs),
+							endTimeUnixNano: toUnixNano(span.endTimeUnixMs),
+							attributes: toOtlpAttributes(span.attributes),
+							events: span.events.map((event) => ({
+								name: event.name,
+								timeUnixNano: toUnixNano(event.timeUnixMs),
+								attributes: toOtlpAttributes(event.attributes)
+							})),
+							status: { code: OTLP_STATUS_CODE[span.status.code], message: span.status.message }
+						}))
+					}
+				]
+			}
+		]
+	};
+}
+
+function toUnixNano(ms: number): string {
+	return (BigInt(ms) * 1_000_000n).toString();
+}
+
+function toOtlpAttributes(
+	attributes: Record<string, OksaiSpanAttributeValue>
+): Array<{ key: string; value: Record<string, unknown> }> {
+	return Object.entries(attributes).map(([key, value]) => ({ key, value: toOtlpAnyValue(value) }));
+}
+
+function toOtlpAnyValue(value: OksaiSpanAttributeValue): Record<string, unknown> {
+	if (typeof value === 'boolean') return { boolValue: value };
+	if (typeof value === 'number') {
+		return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+	}
+	return { stringValue: value };
+}
+
+export interface CreateOksaiSpanExporterOptions {
+	/**
+	 * 导出器类型：`console` | `otlp-file` | `none`（默认 none）
+	 */
+	exporter?: string;
+
+	/**
+	 * otlp-file 的输出路径（默认 `./traces/otlp-traces.jsonl`）
+	 */
+	filePath?: string;
+}
+
+/**
+ * @description 根据配置创建导出器
+ *
+ * 说明：
+ * - 本包不读取环境变量；由应用层读取 `OKSAI_TRACING_EXPORTER/OKSAI_TRACING_FILE` 后显式传入
+ *
+ * @example
+ * ```ts
+ * createOksaiSpanExporter({
+ *   exporter: configService.get('OKSAI_TRACING_EXPORTER'),
+ *   filePath: configService.get('OKSAI_TRACING_FILE')
+ * });
+ * ```
+ *
+ * @returns 导出器；未启用时返回 null
+ */
+export function createOksaiSpanExporter(options: CreateOksaiSpanExporterOptions = {}): OksaiSpanExporter | null {
+	const kind = (options.exporter ?? 'none').trim().toLowerCase();
+	switch (kind) {
+		case '':
+		case 'none':
+			return null;
+		case 'console':
+			return new ConsoleOksaiSpanExporter();
+		case 'otlp-file':
+			return new OtlpFileOksaiSpanExporter({
+				filePath: options.filePath || './traces/otlp-traces.jsonl'
+			});
+		default:
+			throw new Error(`链路追踪导出器不受支持：${kind}（可选 console | otlp-file | none）`);
+	}
+}
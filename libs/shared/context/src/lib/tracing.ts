@@ -0,0 +1,394 @@
+import { Logger } from '@nestjs/common';
+import {
+	createOksaiSpanId,
+	createOksaiTraceId,
+	formatOksaiTraceparent,
+	parseOksaiTraceparent,
+	type OksaiTraceContext
+} from './trace-context';
+import { getOksaiRequestContextFromCurrent, runWithOksaiContext } from './worker-context';
+
+/**
+ * @description span 类型（与 OpenTelemetry SpanKind 一一对应）
+ */
+export type OksaiSpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+
+/**
+ * @description span 属性值
+ */
+export type OksaiSpanAttributeValue = string | number | boolean;
+
+/**
+ * @description span 属性（值为 undefined 的键会被忽略）
+ */
+export type OksaiSpanAttributes = Record<string, OksaiSpanAttributeValue | undefined>;
+
+/**
+ * @description span 状态码（与 OpenTelemetry StatusCode 一一对应）
+ */
+export type OksaiSpanStatusCode = 'unset' | 'ok' | 'error';
+
+/**
+ * @description span 事件
+ */
+export interface OksaiSpanEvent {
+	name: string;
+	timeUnixMs: number;
+	attributes: Record<string, OksaiSpanAttributeValue>;
+}
+
+/**
+ * @description 已结束 span 的数据快照（交给导出器）
+ */
+export interface OksaiSpanData {
+	name: string;
+	kind: OksaiSpanKind;
+	traceId: string;
+	spanId: string;
+	parentSpanId?: string;
+	traceState?: string;
+	startTimeUnixMs: number;
+	endTimeUnixMs: number;
+	attributes: Record<string, OksaiSpanAttributeValue>;
+	events: OksaiSpanEvent[];
+	status: { code: OksaiSpanStatusCode; message?: string };
+}
+
+/**
+ * @description 链路资源（产生 span 的服务）
+ */
+export interface OksaiTracingResource {
+	serviceName: string;
+	attributes?: Record<string, OksaiSpanAttributeValue>;
+}
+
+/**
+ * @description span 导出器（可插拔）
+ *
+ * 说明：
+ * - 每个采样的 span 结束时调用一次 `export`
+ * - 导出失败只记录告警，不影响业务逻辑
+ */
+export interface OksaiSpanExporter {
+	export(spans: OksaiSpanData[], resource: OksaiTracingResource): Promise<void> | void;
+
+	/**
+	 * 刷新缓冲并释放资源（进程退出前调用）
+	 */
+	shutdown?(): Promise<void>;
+}
+
+export interface ConfigureOksaiTracingOptions {
+	/**
+	 * 服务名（写入 resource 的 service.name）
+	 */
+	serviceName: string;
+
+	/**
+	 * 导出器；不配置时只传播 traceparent，不记录 span
+	 */
+	exporter?: OksaiSpanExporter | null;
+
+	/**
+	 * 根 span 采样率（0~1，默认 1）；有父 span 时跟随父 span 的采样标记
+	 */
+	sampleRatio?: number;
+
+	/**
+	 * 附加的 resource 属性
+	 */
+	resourceAttributes?: Record<string, OksaiSpanAttributeValue>;
+}
+
+interface OksaiTracingState {
+	resource: OksaiTracingResource;
+	exporter: OksaiSpanExporter | null;
+	sampleRatio: number;
+	pending: Set<Promise<void>>;
+}
+
+const logger = new Logger('OksaiTracing');
+
+let tracingState: OksaiTracingState = createDefaultState();
+
+function createDefaultState(): OksaiTracingState {
+	return { resource: { serviceName: 'oksai' }, exporter: null, sampleRatio: 1, pending: new Set() };
+}
+
+/**
+ * @description 配置进程级链路追踪（服务名、导出器、采样率）
+ *
+ * 说明：
+ * - 未调用时 span 仍会创建并传播 traceparent，但不会导出
+ * - 重复调用以最后一次为准
+ *
+ * @example
+ * ```ts
+ * configureOksaiTracing({ serviceName: 'platform-api', exporter: createOksaiSpanExporter({ exporter: 'console' }) });
+ * ```
+ */
+export function configureOksaiTracing(options: ConfigureOksaiTracingOptions): void {
+	const sampleRatio = options.sampleRatio ?? 1;
+	if (!Number.isFinite(sampleRatio) || sampleRatio < 0 || sampleRatio > 1) {
+		throw new Error(`链路追踪采样率必须在 0~1 之间：sampleRatio=${sampleRatio}`);
+	}
+	tracingState = {
+		resource: { serviceName: options.serviceName, attributes: options.resourceAttributes },
+		exporter: options.exporter ?? null,
+		sampleRatio,
+		pending: tracingState.pending
+	};
+}
+
+/**
+ * @description 等待已结束 span 导出完成并关闭导出器（进程退出前调用）
+ */
+export async function shutdownOksaiTracing(): Promise<void> {
+	const { exporter, pending } = tracingState;
+	await Promise.all([...pending]);
+	await exporter?.shutdown?.();
+}
+
+/**
+ * @description 恢复默认配置（无导出器）
+ *
+ * @internal 仅用于测试
+ */
+export function resetOksaiTracing(): void {
+	tracingState = createDefaultState();
+}
+
+/**
+ * @description 读取当前 ALS 中的链路上下文
+ *
+ * @returns 当前 span 的链路上下文；不在任何 span 内时返回 null
+ */
+export function getCurrentOksaiTraceContext(): OksaiTraceContext | null {
+	const ctx = getOksaiRequestContextFromCurrent();
+	return parseOksaiTraceparent(ctx.traceparent, ctx.tracestate);
+}
+
+export interface StartOksaiSpanOptions {
+	/**
+	 * span 类型（默认 internal）
+	 */
+	kind?: OksaiSpanKind;
+
+	/**
+	 * 初始属性
+	 */
+	attributes?: OksaiSpanAttributes;
+
+	/**
+	 * 父 span：不传时取当前 ALS 中的 span；传 null 时强制创建根 span
+	 */
+	parent?: OksaiTraceContext | null;
+}
+
+/**
+ * @description 一次操作的 span（OpenTelemetry 兼容的数据模型）
+ *
+ * 说明：
+ * - 未采样的 span 仍有 traceId/spanId，用于继续传播 traceparent，但不记录任何数据
+ * - `end()` 幂等；只有首次调用会交给导出器
+ */
+export class OksaiSpan {
+	readonly traceId: string;
+	readonly spanId: string;
+	readonly parentSpanId?: string;
+	readonly traceState?: string;
+	readonly sampled: boolean;
+
+	private readonly startTimeUnixMs = Date.now();
+	private readonly attributes: Record<string, OksaiSpanAttributeValue> = {};
+	private readonly events: OksaiSpanEvent[] = [];
+	private status: OksaiSpanData['status'] = { code: 'unset' };
+	private ended = false;
+
+	/**
+	 * @internal 通过 `startOksaiSpan` 创建
+	 */
+	constructor(
+		readonly name: string,
+		readonly kind: OksaiSpanKind,
+		parent: OksaiTraceContext | null,
+		sampled: boolean
+	) {
+		this.traceId = parent?.traceId ?? createOksaiTraceId();
+		this.spanId = createOksaiSpanId();
+		this.parentSpanId = parent?.spanId;
+		this.traceState = parent?.traceState;
+		this.sampled = sampled;
+	}
+
+	/**
+	 * W3C traceparent（以本 span 为父，用于向下游传播）
+	 */
+	get traceparent(): string {
+		return formatOksaiTraceparent(this);
+	}
+
+	/**
+	 * 是否记录数据（已采样且未结束）
+	 */
+	isRecording(): boolean {
+		return this.sampled && !this.ended;
+	}
+
+	setAttribute(key: string, value: OksaiSpanAttributeValue | undefined): this {
+		if (this.isRecording() && value !== undefined) {
+			this.attributes[key] = value;
+		}
+		return this;
+	}
+
+	setAttributes(attributes: OksaiSpanAttributes): this {
+		for (const [key, value] of Object.entries(attributes)) {
+			this.setAttribute(key, value);
+		}
+		return this;
+	}
+
+	addEvent(name: string, attributes: OksaiSpanAttributes = {}): this {
+		if (this.isRecording()) {
+			this.events.push({ name, timeUnixMs: Date.now(), attributes: compactAttributes(attributes) });
+		}
+		return this;
+	}
+
+	/**
+	 * 记录异常事件（OpenTelemetry 语义约定 `exception.*`）并将状态置为 error
+	 */
+	recordException(error: unknown): this {
+		const err = error instanceof Error ? error : new Error(String(error));
+		this.addEvent('exception', {
+			'exception.type': err.name,
+			'exception.message': err.message,
+			'exception.stacktrace': err.stack
+		});
+		return this.setStatus('error', err.message);
+	}
+
+	setStatus(code: OksaiSpanStatusCode, message?: string): this {
+		if (this.isRecording()) {
+			this.status = message === undefined ? { code } : { code, message };
+		}
+		return this;
+	}
+
+	end(): void {
+		if (this.ended) return;
+		const recording = this.isRecording();
+		this.ended = true;
+		if (!recording) return;
+
+		const { exporter, resource, pending } = tracingState;
+		if (!exporter) return;
+
+		const data: OksaiSpanData = {
+			name: this.name,
+			kind: this.kind,
+			traceId: this.traceId,
+			spanId: this.spanId,
+			parentSpanId: this.parentSpanId,
+			traceState: this.traceState,
+			startTimeUnixMs: this.startTimeUnixMs,
+			endTimeUnixMs: Date.now(),
+			attributes: { ...this.attributes },
+			events: [...this.events],
+			status: this.status
+		};
+		const onError = (err: unknown) => {
+			logger.warn(`span 导出失败：name=${this.name}, error=${err instanceof Error ? err.message : String(err)}`);
+		};
+		try {
+			const result = exporter.export([data], resource);
+			if (isPromiseLike(result)) {
+				const task: Promise<void> = Promise.resolve(result)
+					.catch(onError)
+					.finally(() => pending.delete(task));
+				pending.add(task);
+			}
+		} catch (err) {
+			onError(err);
+		}
+	}
+}
+
+/**
+ * @description 创建并开始一个 span（不切换当前上下文；需要子 span 继承时使用 `runInOksaiSpan`）
+ *
+ * 采样规则：
+ * - 有父 span 时跟随父 span 的 sampled 标记（parent-based）
+ * - 根 span 按 `sampleRatio` 随机采样
+ *
+ * @param name - span 名称
+ * @param options - 类型、属性与父 span
+ * @returns 已开始的 span（调用方负责 `end()`）
+ */
+export function startOksaiSpan(name: string, options: StartOksaiSpanOptions = {}): OksaiSpan {
+	const parent = options.parent === undefined ? getCurrentOksaiTraceContext() : options.parent;
+	const sampled = parent ? parent.sampled : Math.random() < tracingState.sampleRatio;
+	const span = new OksaiSpan(name, options.kind ?? 'internal', parent, sampled);
+	if (options.attributes) {
+		span.setAttributes(options.attributes);
+	}
+	return span;
+}
+
+/**
+ * @description 在新 span 中运行一段逻辑
+ *
+ * 说明：
+ * - fn 运行期间当前上下文的 `traceparent/tracestate` 指向新 span（其余字段沿用当前上下文）
+ * - fn 抛错/reject 时记录异常并原样抛出；结束后自动 `end()`
+ *
+ * @example
+ * ```ts
+ * await runInOksaiSpan('publish tenant.created', { kind: 'producer' }, async (span) => {
+ *   span.setAttribute('messaging.system', 'kafka');
+ *   await publisher.publish(envelope);
+ * });
+ * ```
+ */
+export function runInOksaiSpan<T>(name: string, options: StartOksaiSpanOptions, fn: (span: OksaiSpan) => T): T {
+	const span = startOksaiSpan(name, options);
+	const ctx = {
+		...getOksaiRequestContextFromCurrent(),
+		traceparent: span.traceparent,
+		tracestate: span.traceState
+	};
+
+	try {
+		const result = runWithOksaiContext(ctx, () => fn(span));
+		if (isPromiseLike(result)) {
+			return Promise.resolve(result).then(
+				(value) => {
+					span.end();
+					return value;
+				},
+				(err: unknown) => {
+					span.recordException(err).end();
+					throw err;
+				}
+			) as T;
+		}
+		span.end();
+		return result;
+	} catch (err) {
+		span.recordException(err).end();
+		throw err;
+	}
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+	return typeof (value as PromiseLike<unknown> | null)?.then === 'function';
+}
+
+function compactAttributes(attributes: OksaiSpanAttributes): Record<string, OksaiSpanAttributeValue> {
+	const result: Record<string, OksaiSpanAttributeValue> = {};
+	for (const [key, value] of Object.entries(attributes)) {
+		if (value !== undefined) result[key] = value;
+	}
+	return result;
+}
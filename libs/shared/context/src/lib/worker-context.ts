@@ -25,6 +25,16 @@ export interface OksaiRequestContext {
 	 * 语言区域设置
 	 */
 	locale?: string;
+
+	/**
+	 * W3C traceparent（当前 span，用于跨进程链路传播）
+	 */
+	traceparent?: string;
+
+	/**
+	 * W3C tracestate（厂商扩展状态，随 traceparent 透传）
+	 */
+	tracestate?: string;
 }
 
 /**
@@ -36,7 +46,9 @@ export const OKSAI_CONTEXT_KEYS = {
 	requestId: 'oksai:requestId',
 	tenantId: 'oksai:tenantId',
 	userId: 'oksai:userId',
-	locale: 'oksai:locale'
+	locale: 'oksai:locale',
+	traceparent: 'oksai:traceparent',
+	tracestate: 'oksai:tracestate'
 } as const;
 
 /**
@@ -63,6 +75,7 @@ function getOrCreateAls(): AsyncLocalStorage<Map<string, unknown>> {
  *
  * 说明：
  * - 适用于后台任务（Worker、队列消费、定时任务等），用于显式指定 `tenantId/userId/locale/requestId`
+ * - `traceparent/tracestate` 表示当前 span（由 `runInOksaiSpan` 写入，或从上游消息恢复）
  * - 会创建一个新的 ALS store（不会污染其他任务链路）
  *
  * @param ctx - 需要写入的上下文字段
@@ -89,6 +102,8 @@ export function runWithOksaiContext<T>(ctx: OksaiRequestContext, fn: () => T): T
 	if (ctx.tenantId) store.set(OKSAI_CONTEXT_KEYS.tenantId, ctx.tenantId);
 	if (ctx.userId) store.set(OKSAI_CONTEXT_KEYS.userId, ctx.userId);
 	if (ctx.locale) store.set(OKSAI_CONTEXT_KEYS.locale, ctx.locale);
+	if (ctx.traceparent) store.set(OKSAI_CONTEXT_KEYS.traceparent, ctx.traceparent);
+	if (ctx.tracestate) store.set(OKSAI_CONTEXT_KEYS.tracestate, ctx.tracestate);
 
 	return als.run(store, fn);
 }
@@ -108,7 +123,9 @@ export function getOksaiRequestContextFromCurrent(): OksaiRequestContext {
 			requestId: store.get(OKSAI_CONTEXT_KEYS.requestId) as string | undefined,
 			tenantId: store.get(OKSAI_CONTEXT_KEYS.tenantId) as string | undefined,
 			userId: store.get(OKSAI_CONTEXT_KEYS.userId) as string | undefined,
-			locale: store.get(OKSAI_CONTEXT_KEYS.locale) as string | undefined
+			locale: store.get(OKSAI_CONTEXT_KEYS.locale) as string | undefined,
+			traceparent: store.get(OKSAI_CONTEXT_KEYS.traceparent) as string | undefined,
+			tracestate: store.get(OKSAI_CONTEXT_KEYS.tracestate) as string | undefined
 		};
 	} catch {
 		return {};
@@ -0,0 +1,226 @@
+/**
+ * 链路追踪单元测试
+ *
+ * 测试 W3C Trace Context 解析、span 父子关系、采样与导出器
+ */
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+	ConsoleOksaiSpanExporter,
+	OtlpFileOksaiSpanExporter,
+	TenantContext,
+	configureOksaiTracing,
+	createOksaiSpanExporter,
+	formatOksaiTraceparent,
+	getCurrentOksaiTraceContext,
+	getOksaiRequestContextFromCurrent,
+	parseOksaiTraceparent,
+	resetOksaiTracing,
+	runInOksaiSpan,
+	runWithOksaiContext,
+	shutdownOksaiTracing,
+	type OksaiSpanData,
+	type OksaiSpanExporter
+} from '../index';
+
+const TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+function createMemoryExporter(): OksaiSpanExporter & { spans: OksaiSpanData[] } {
+	const spans: OksaiSpanData[] = [];
+	return { spans, export: (batch) => void spans.push(...batch) };
+}
+
+describe('Tracing', () => {
+	afterEach(() => {
+		resetOksaiTracing();
+	});
+
+	describe('parseOksaiTraceparent', () => {
+		it('应该解析合法的 traceparent 与 tracestate', () => {
+			expect(parseOksaiTraceparent(TRACEPARENT, 'vendor=abc')).toEqual({
+				traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+				spanId: '00f067aa0ba902b7',
+				sampled: true,
+				traceState: 'vendor=abc'
+			});
+			expect(formatOksaiTraceparent(parseOksaiTraceparent(TRACEPARENT)!)).toBe(TRACEPARENT);
+		});
+
+		it('应该拒绝非法的 traceparent', () => {
+			expect(parseOksaiTraceparent(undefined)).toBeNull();
+			expect(parseOksaiTraceparent('not-a-traceparent')).toBeNull();
+			expect(parseOksaiTraceparent(`00-${'0'.repeat(32)}-00f067aa0ba902b7-01`)).toBeNull();
+			expect(parseOksaiTraceparent(`ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01`)).toBeNull();
+			expect(parseOksaiTraceparent(`${TRACEPARENT}-extra`)).toBeNull();
+		});
+
+		it('更高版本应该只读取前四段', () => {
+			expect(
+				parseOksaiTraceparent('01-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00-extra')
+			).toMatchObject({
+				spanId: '00f067aa0ba902b7',
+				sampled: false
+			});
+		});
+	});
+
+	describe('runInOksaiSpan', () => {
+		it('应该继承上下文中的父 span 并在结束后导出', async () => {
+			const exporter = createMemoryExporter();
+			configureOksaiTracing({ serviceName: 'test', exporter });
+
+			const inner = await runWithOksaiContext({ tenantId: 't-001', traceparent: TRACEPARENT }, () =>
+				runInOksaiSpan('outer', { kind: 'server' }, () =>
+					runInOksaiSpan('inner', {}, async () => getOksaiRequestContextFromCurrent())
+				)
+			);
+
+			const [innerSpan, outerSpan] = exporter.spans;
+			expect(outerSpan).toMatchObject({
+				name: 'outer',
+				kind: 'server',
+				traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+				parentSpanId: '00f067aa0ba902b7'
+			});
+			expect(innerSpan.parentSpanId).toBe(outerSpan.spanId);
+			expect(inner).toEqual(
+				expect.objectContaining({
+					tenantId: 't-001',
+					traceparent: `00-${innerSpan.traceId}-${innerSpan.spanId}-01`
+				})
+			);
+		});
+
+		it('parent 为 null 时应该创建根 span', () => {
+			const exporter = createMemoryExporter();
+			configureOksaiTracing({ serviceName: 'test', exporter });
+
+			runWithOksaiContext({ traceparent: TRACEPARENT }, () => runInOksaiSpan('root', { parent: null }, () => 1));
+
+			expect(exporter.spans[0].traceId).not.toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+			expect(exporter.spans[0].parentSpanId).toBeUndefined();
+		});
+
+		it('handler 抛错时应该记录异常并原样抛出', async () => {
+			const exporter = createMemoryExporter();
+			configureOksaiTracing({ serviceName: 'test', exporter });
+
+			await expect(
+				runInOksaiSpan('failing', {}, async () => {
+					throw new Error('boom');
+				})
+			).rejects.toThrow('boom');
+
+			expect(exporter.spans[0].status).toEqual({ code: 'error', message: 'boom' });
+			expect(exporter.spans[0].events[0]).toMatchObject({
+				name: 'exception',
+				attributes: { 'exception.type': 'Error', 'exception.message': 'boom' }
+			});
+		});
+
+		it('父 span 未采样时不应该导出，但仍传播 traceparent', () => {
+			const exporter = createMemoryExporter();
+			configureOksaiTracing({ serviceName: 'test', exporter });
+
+			const traceparent = runWithOksaiContext({ traceparent: TRACEPARENT.replace(/-01$/, '-00') }, () =>
+				runInOksaiSpan('unsampled', {}, () => getOksaiRequestContextFromCurrent().traceparent)
+			);
+
+			expect(exporter.spans).toHaveLength(0);
+			expect(traceparent).toMatch(/^00-4bf92f3577b34da6a3ce929d0e0e4736-[0-9a-f]{16}-00$/);
+		});
+
+		it('导出器失败不应该影响业务逻辑', async () => {
+			configureOksaiTracing({
+				serviceName: 'test',
+				exporter: {
+					export: () => {
+						throw new Error('exporter down');
+					}
+				}
+			});
+
+			expect(runInOksaiSpan('ok', {}, () => 'done')).toBe('done');
+			await expect(shutdownOksaiTracing()).resolves.toBeUndefined();
+		});
+	});
+
+	describe('TenantContext', () => {
+		it('处于链路中时默认 correlationId 应该为 traceId', () => {
+			const context = runWithOksaiContext({ traceparent: TRACEPARENT }, () =>
+				TenantContext.create({ tenantId: 'tenant-123' })
+			);
+
+			expect(context.correlationId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+			expect(getCurrentOksaiTraceContext()).toBeNull();
+		});
+	});
+
+	describe('导出器', () => {
+		it('ConsoleOksaiSpanExporter 应该每个 span 输出一行 JSON', () => {
+			const lines: string[] = [];
+			configureOksaiTracing({
+				serviceName: 'test',
+				exporter: new ConsoleOksaiSpanExporter((l) => lines.push(l))
+			});
+
+			runInOksaiSpan('console', { attributes: { 'oksai.tenant_id': 't-001' } }, () => undefined);
+
+			expect(JSON.parse(lines[0])).toMatchObject({
+				service: 'test',
+				name: 'console',
+				attributes: { 'oksai.tenant_id': 't-001' }
+			});
+		});
+
+		it('OtlpFileOksaiSpanExporter 应该写入 OTLP/JSON 行', async () => {
+			const dir = await mkdtemp(join(tmpdir(), 'oksai-tracing-'));
+			const filePath = join(dir, 'nested', 'traces.jsonl');
+			try {
+				configureOksaiTracing({ serviceName: 'test', exporter: new OtlpFileOksaiSpanExporter({ filePath }) });
+
+				runInOksaiSpan(
+					'publish',
+					{ kind: 'producer', attributes: { retries: 2, ratio: 0.5, ok: true } },
+					() => 1
+				);
+				runInOksaiSpan('consume', { kind: 'consumer' }, () => 1);
+				await shutdownOksaiTracing();
+
+				const lines = (await readFile(filePath, 'utf8'))
+					.trim()
+					.split('\n')
+					.map((l) => JSON.parse(l));
+				expect(lines).toHaveLength(2);
+				const [resourceSpans] = lines[0].resourceSpans;
+				expect(resourceSpans.resource.attributes).toContainEqual({
+					key: 'service.name',
+					value: { stringValue: 'test' }
+				});
+				expect(resourceSpans.scopeSpans[0].spans[0]).toMatchObject({
+					name: 'publish',
+					kind: 4,
+					status: { code: 0 },
+					attributes: [
+						{ key: 'retries', value: { intValue: '2' } },
+						{ key: 'ratio', value: { doubleValue: 0.5 } },
+						{ key: 'ok', value: { boolValue: true } }
+					]
+				});
+				expect(resourceSpans.scopeSpans[0].spans[0].startTimeUnixNano).toMatch(/^\d+000000$/);
+			} finally {
+				await rm(dir, { recursive: true, force: true });
+			}
+		});
+
+		it('createOksaiSpanExporter 应该按配置选择导出器', () => {
+			expect(createOksaiSpanExporter()).toBeNull();
+			expect(createOksaiSpanExporter({ exporter: ' Console ' })).toBeInstanceOf(ConsoleOksaiSpanExporter);
+			expect(createOksaiSpanExporter({ exporter: 'otlp-file', filePath: '/tmp/t.jsonl' })).toBeInstanceOf(
+				OtlpFileOksaiSpanExporter
+			);
+			expect(() => createOksaiSpanExporter({ exporter: 'jaeger' })).toThrow('链路追踪导出器不受支持');
+		});
+	});
+});
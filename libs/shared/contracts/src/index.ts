@@ -6,12 +6,31 @@
  * @packageDocumentation
  */
 
-export {
-	type IOksaiIntegrationEvent,
-	type OksaiIntegrationEvent
-} from './lib/integration-event.interface';
+export { type IOksaiIntegrationEvent, type OksaiIntegrationEvent } from './lib/integration-event.interface';
 
 export {
+	type ParseOksaiIntegrationEventOptions,
 	parseOksaiIntegrationEvent,
+	parseOksaiIntegrationEventAs,
 	isValidOksaiIntegrationEvent
 } from './lib/integration-event.parser';
+
+export {
+	type IntegrationEventSchemaDefinition,
+	type InferIntegrationEventData,
+	defineIntegrationEventSchema,
+	IntegrationEventSchemaRegistry,
+	oksaiIntegrationEventSchemas
+} from './lib/integration-event-schema.registry';
+
+export {
+	type CloudEventsContentMode,
+	type OksaiCloudEvent,
+	CLOUDEVENTS_STRUCTURED_CONTENT_TYPE,
+	OKSAI_CLOUDEVENTS_DEFAULT_SOURCE,
+	toOksaiCloudEvent,
+	fromOksaiCloudEvent,
+	encodeOksaiCloudEventBinary,
+	decodeOksaiCloudEventBinary,
+	isCloudEventPayload
+} from './lib/integration-event.cloudevents';
@@ -0,0 +1,163 @@
+/**
+ * @description 集成事件 data 契约注册表
+ *
+ * 使用场景：
+ * - 生产侧：构建信封时校验 data，阻止格式错误的事件进入 Outbox
+ * - 消费侧：解析信封时校验 data，订阅者拿到的 data 与声明的 schema 一致
+ *
+ * 注意事项：
+ * - 以 (eventName, eventVersion) 为键；未注册的事件不校验 data（向后兼容）
+ * - 校验使用 schema 的解析结果替换原始 data（zod 的默认值/裁剪规则生效）
+ *
+ * @module @oksai/contracts
+ */
+import type { ZodTypeAny, infer as ZodInfer } from 'zod';
+
+/**
+ * @description 集成事件 data 契约定义
+ *
+ * @template TSchema - data 的 zod schema
+ */
+export interface IntegrationEventSchemaDefinition<TSchema extends ZodTypeAny = ZodTypeAny> {
+	/**
+	 * @description 事件名称（稳定契约）
+	 */
+	eventName: string;
+
+	/**
+	 * @description 事件版本
+	 */
+	eventVersion: number;
+
+	/**
+	 * @description data 的 zod schema
+	 */
+	schema: TSchema;
+}
+
+/**
+ * @description 从契约定义推导 data 类型
+ *
+ * @example
+ * ```typescript
+ * type TenantCreatedData = InferIntegrationEventData<typeof TenantCreatedV1>;
+ * ```
+ */
+export type InferIntegrationEventData<TDefinition> =
+	TDefinition extends IntegrationEventSchemaDefinition<infer TSchema> ? ZodInfer<TSchema> : never;
+
+/**
+ * @description 声明集成事件 data 契约（保留 schema 的具体类型以便推导 data）
+ *
+ * @param eventName - 事件名称
+ * @param eventVersion - 事件版本
+ * @param schema - data 的 zod schema
+ * @returns 契约定义
+ *
+ * @example
+ * ```typescript
+ * export const TenantCreatedV1 = defineIntegrationEventSchema(
+ *   'tenant.created',
+ *   1,
+ *   z.object({ tenantId: z.string(), name: z.string() })
+ * );
+ * ```
+ */
+export function defineIntegrationEventSchema<TSchema extends ZodTypeAny>(
+	eventName: string,
+	eventVersion: number,
+	schema: TSchema
+): IntegrationEventSchemaDefinition<TSchema> {
+	return { eventName, eventVersion, schema };
+}
+
+/**
+ * @description 集成事件 data 契约注册表
+ */
+export class IntegrationEventSchemaRegistry {
+	private readonly definitions = new Map<string, IntegrationEventSchemaDefinition>();
+
+	/**
+	 * @description 注册契约
+	 *
+	 * @param definition - 契约定义
+	 * @returns 当前注册表（便于链式调用）
+	 * @throws Error 当同一 (eventName, eventVersion) 重复注册不同 schema 时抛出
+	 */
+	register(definition: IntegrationEventSchemaDefinition): this {
+		const key = toKey(definition.eventName, definition.eventVersion);
+		const existing = this.definitions.get(key);
+		if (existing && existing.schema !== definition.schema) {
+			throw new Error(`注册集成事件契约失败：${key} 已注册。`);
+		}
+		this.definitions.set(key, definition);
+		return this;
+	}
+
+	/**
+	 * @description 是否已注册
+	 *
+	 * @param eventName - 事件名称
+	 * @param eventVersion - 事件版本（缺省表示任一版本）
+	 */
+	has(eventName: string, eventVersion?: number): boolean {
+		if (eventVersion !== undefined) return this.definitions.has(toKey(eventName, eventVersion));
+		for (const d of this.definitions.values()) {
+			if (d.eventName === eventName) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * @description 获取契约
+	 *
+	 * @param eventName - 事件名称
+	 * @param eventVersion - 事件版本
+	 * @returns 契约定义；未注册时返回 undefined
+	 */
+	get(eventName: string, eventVersion: number): IntegrationEventSchemaDefinition | undefined {
+		return this.definitions.get(toKey(eventName, eventVersion));
+	}
+
+	/**
+	 * @description 校验 data（未注册的事件原样返回）
+	 *
+	 * @param eventName - 事件名称
+	 * @param eventVersion - 事件版本
+	 * @param data - 待校验数据
+	 * @returns schema 解析后的 data
+	 * @throws Error 当 data 不符合契约时抛出（错误消息为中文，包含字段路径）
+	 */
+	validateData(eventName: string, eventVersion: number, data: unknown): unknown {
+		const definition = this.get(eventName, eventVersion);
+		if (!definition) return data;
+
+		const result = definition.schema.safeParse(data);
+		if (result.success) return result.data;
+
+		const issues = result.error.issues
+			.map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+			.join('; ');
+		throw new Error(`集成事件 data 不符合契约 ${toKey(eventName, eventVersion)}：${issues}`);
+	}
+
+	/**
+	 * @description 清空注册表（仅用于测试隔离）
+	 */
+	clear(): void {
+		this.definitions.clear();
+	}
+}
+
+/**
+ * @description 进程级默认注册表
+ *
+ * 说明：
+ * - `parseOksaiIntegrationEvent` 与 `@oksai/eda` 的 `buildIntegrationEventFromCurrentContext` 默认使用此注册表
+ * - 各模块在入口处注册自己生产的事件契约
+ */
+export const oksaiIntegrationEventSchemas = new IntegrationEventSchemaRegistry();
+
+function toKey(eventName: string, eventVersion: number): string {
+	return `${eventName}@v${eventVersion}`;
+}
@@ -0,0 +1,189 @@
+/**
+ * @description 集成事件 CloudEvents 1.0 编解码
+ *
+ * 使用场景：
+ * - 对外 topic 以 CloudEvents 1.0 格式投递，供合作方使用标准 SDK 消费
+ * - 同时支持 structured（整个事件为 `application/cloudevents+json`）与 binary（属性放消息头、data 放消息体）两种内容模式
+ *
+ * 字段映射：
+ * - eventId → id；eventName → type；source → source（缺省 `oksai`）；occurredAt → time
+ * - 其余信封字段作为扩展属性（全小写），如 tenantId → tenantid、partitionKey → partitionkey
+ *
+ * @module @oksai/contracts
+ */
+import type { OksaiIntegrationEvent } from './integration-event.interface';
+
+/**
+ * @description CloudEvents 内容模式
+ */
+export type CloudEventsContentMode = 'structured' | 'binary';
+
+/**
+ * @description Oksai 集成事件对应的 CloudEvent（structured 模式的 JSON 结构）
+ */
+export interface OksaiCloudEvent {
+	specversion: '1.0';
+	id: string;
+	source: string;
+	type: string;
+	time?: string;
+	datacontenttype?: string;
+	data?: unknown;
+
+	/**
+	 * @description 扩展属性（CloudEvents 要求小写字母与数字）
+	 */
+	tenantid: string;
+	partitionkey: string;
+	eventversion: number;
+	actorid?: string;
+	requestid?: string;
+	correlationid?: string;
+	causationid?: string;
+	/**
+	 * @description CloudEvents Distributed Tracing 扩展（W3C Trace Context）
+	 */
+	traceparent?: string;
+	tracestate?: string;
+	locale?: string;
+	scope?: string;
+	classification?: string;
+}
+
+/**
+ * @description CloudEvents structured 模式的 content-type
+ */
+export const CLOUDEVENTS_STRUCTURED_CONTENT_TYPE = 'application/cloudevents+json';
+
+/**
+ * @description 信封未设置 source 时使用的默认 CloudEvents source
+ */
+export const OKSAI_CLOUDEVENTS_DEFAULT_SOURCE = 'oksai';
+
+/**
+ * @description 信封字段与 CloudEvents 扩展属性映射（不含 id/type/source/time 等核心属性）
+ */
+const EXTENSION_ATTRIBUTES = [
+	['tenantId', 'tenantid'],
+	['partitionKey', 'partitionkey'],
+	['eventVersion', 'eventversion'],
+	['actorId', 'actorid'],
+	['requestId', 'requestid'],
+	['correlationId', 'correlationid'],
+	['causationId', 'causationid'],
+	['traceparent', 'traceparent'],
+	['tracestate', 'tracestate'],
+	['locale', 'locale'],
+	['scope', 'scope'],
+	['classification', 'classification']
+] as const;
+
+/**
+ * @description 将集成事件信封映射为 CloudEvent（structured 模式）
+ *
+ * @param envelope - 集成事件信封
+ * @returns CloudEvent
+ */
+export function toOksaiCloudEvent(envelope: OksaiIntegrationEvent): OksaiCloudEvent {
+	const event: Record<string, unknown> = {
+		specversion: '1.0',
+		id: envelope.eventId,
+		source: envelope.source ?? OKSAI_CLOUDEVENTS_DEFAULT_SOURCE,
+		type: envelope.eventName,
+		time: envelope.occurredAt,
+		datacontenttype: 'application/json'
+	};
+	for (const [field, attribute] of EXTENSION_ATTRIBUTES) {
+		event[attribute] = envelope[field];
+	}
+	if (envelope.data !== undefined) event.data = envelope.data;
+	return stripUndefined(event) as unknown as OksaiCloudEvent;
+}
+
+/**
+ * @description 将 CloudEvent 还原为集成事件信封形状（未校验，需再经 parseOksaiIntegrationEvent）
+ *
+ * @param event - CloudEvent（structured 模式 JSON，或 binary 模式解码结果）
+ * @returns 信封形状的对象
+ * @throws Error 当 specversion 不是 1.0 时抛出
+ */
+export function fromOksaiCloudEvent(event: Record<string, unknown>): Record<string, unknown> {
+	if (event.specversion !== '1.0') {
+		throw new Error(`CloudEvent specversion 不受支持：${String(event.specversion)}（仅支持 1.0）。`);
+	}
+	const envelope: Record<string, unknown> = {
+		eventId: event.id,
+		eventName: event.type,
+		source: event.source === OKSAI_CLOUDEVENTS_DEFAULT_SOURCE ? undefined : event.source,
+		occurredAt: event.time,
+		data: event.data
+	};
+	for (const [field, attribute] of EXTENSION_ATTRIBUTES) {
+		envelope[field] = event[attribute];
+	}
+	if (typeof envelope.eventVersion === 'string' && envelope.eventVersion.trim() !== '') {
+		envelope.eventVersion = Number(envelope.eventVersion);
+	}
+	return envelope;
+}
+
+/**
+ * @description 编码为 CloudEvents binary 模式（属性进消息头，data 进消息体）
+ *
+ * @param envelope - 集成事件信封
+ * @param headerPrefix - 属性头前缀（Kafka 绑定为 `ce_`，HTTP 绑定为 `ce-`）
+ * @returns 消息头与消息体（JSON 字符串）
+ */
+export function encodeOksaiCloudEventBinary(
+	envelope: OksaiIntegrationEvent,
+	headerPrefix = 'ce_'
+): { headers: Record<string, string>; body: string } {
+	const { data, datacontenttype, ...attributes } = toOksaiCloudEvent(envelope);
+	const headers: Record<string, string> = { 'content-type': datacontenttype ?? 'application/json' };
+	for (const [name, value] of Object.entries(attributes)) {
+		headers[`${headerPrefix}${name}`] = String(value);
+	}
+	return { headers, body: JSON.stringify(data ?? null) };
+}
+
+/**
+ * @description 从 binary 模式消息头与消息体解码 CloudEvent
+ *
+ * @param headers - 消息头（值可为 string / Buffer / 数组，兼容 kafkajs）
+ * @param body - 已 JSON 解析的消息体
+ * @returns CloudEvent；消息头中没有 specversion 时返回 undefined（非 binary 模式）
+ */
+export function decodeOksaiCloudEventBinary(
+	headers: Record<string, unknown> | undefined,
+	body: unknown
+): Record<string, unknown> | undefined {
+	if (!headers) return undefined;
+	const attributes: Record<string, unknown> = {};
+	for (const [name, raw] of Object.entries(headers)) {
+		const lower = name.toLowerCase();
+		if (!lower.startsWith('ce_') && !lower.startsWith('ce-')) continue;
+		const value = Array.isArray(raw) ? raw[0] : raw;
+		if (value === undefined || value === null) continue;
+		attributes[lower.slice(3)] = String(value);
+	}
+	if (attributes.specversion === undefined) return undefined;
+	return { ...attributes, data: body === null ? undefined : body };
+}
+
+/**
+ * @description 判断 payload 是否为 structured 模式的 CloudEvent
+ *
+ * @param payload - 待判断的数据
+ */
+export function isCloudEventPayload(payload: unknown): payload is Record<string, unknown> {
+	return (
+		!!payload && typeof payload === 'object' && typeof (payload as Record<string, unknown>).specversion === 'string'
+	);
+}
+
+function stripUndefined(obj: Record<string, unknown>): Record<string, unknown> {
+	for (const key of Object.keys(obj)) {
+		if (obj[key] === undefined) delete obj[key];
+	}
+	return obj;
+}
@@ -63,6 +63,16 @@ export interface IOksaiIntegrationEvent<TData = unknown> {
 	 */
 	causationId?: string;
 
+	/**
+	 * @description 链路追踪：W3C Trace Context `traceparent`（生产事件时的当前 span）
+	 */
+	traceparent?: string;
+
+	/**
+	 * @description 链路追踪：W3C Trace Context `tracestate`（厂商扩展状态，可选）
+	 */
+	tracestate?: string;
+
 	/**
 	 * @description 语言环境：用于 i18n/模板渲染
 	 */
@@ -8,13 +8,42 @@
  * @module @oksai/contracts
  */
 import type { OksaiIntegrationEvent } from './integration-event.interface';
+import { decodeOksaiCloudEventBinary, fromOksaiCloudEvent, isCloudEventPayload } from './integration-event.cloudevents';
+import {
+	IntegrationEventSchemaRegistry,
+	oksaiIntegrationEventSchemas,
+	type InferIntegrationEventData,
+	type IntegrationEventSchemaDefinition
+} from './integration-event-schema.registry';
+
+/**
+ * @description 集成事件解析选项
+ */
+export interface ParseOksaiIntegrationEventOptions {
+	/**
+	 * @description data 契约注册表（默认使用进程级注册表 `oksaiIntegrationEventSchemas`）
+	 */
+	schemas?: IntegrationEventSchemaRegistry;
+
+	/**
+	 * @description 传输层消息头（可选；含 `ce_specversion` / `ce-specversion` 时按 CloudEvents binary 模式解析，payload 为 data）
+	 */
+	headers?: Record<string, unknown>;
+}
 
 /**
  * @description 解析并校验未知 payload 是否为 OksaiIntegrationEvent
  *
+ * 说明：
+ * - 若 (eventName, eventVersion) 已注册 data 契约，同时校验 data
+ * - `classification=pii` 且 data 含加密字段（`{ $pii: … }`）时跳过 data 校验：契约描述的是明文，
+ *   由 `@oksai/eda` 的 `revealIntegrationEventPii` 解密后再校验
+ * - 兼容 CloudEvents 1.0：structured 模式（payload 含 specversion）与 binary 模式（options.headers 含 ce_ 属性）
+ *
  * @param payload - 待解析的数据
+ * @param options - 解析选项
  * @returns 已通过校验的集成事件信封
- * @throws Error 当 payload 非对象或必填字段缺失/非法时抛出（错误消息为中文）
+ * @throws Error 当 payload 非对象、必填字段缺失/非法或 data 不符合契约时抛出（错误消息为中文）
  *
  * @example
  * ```typescript
@@ -26,7 +55,14 @@ import type { OksaiIntegrationEvent } from './integration-event.interface';
  * }
  * ```
  */
-export function parseOksaiIntegrationEvent(payload: unknown): OksaiIntegrationEvent {
+export function parseOksaiIntegrationEvent(
+	payload: unknown,
+	options: ParseOksaiIntegrationEventOptions = {}
+): OksaiIntegrationEvent {
+	const cloudEvent = decodeOksaiCloudEventBinary(options.headers, payload) ?? payload;
+	if (isCloudEventPayload(cloudEvent)) {
+		payload = fromOksaiCloudEvent(cloudEvent);
+	}
 	if (!payload || typeof payload !== 'object') {
 		throw new Error('事件 payload 非法：必须为对象类型的"集成事件信封"。');
 	}
@@ -67,16 +103,55 @@ export function parseOksaiIntegrationEvent(payload: unknown): OksaiIntegrationEv
 		requestId: typeof obj.requestId === 'string' ? (obj.requestId as string) : undefined,
 		correlationId: typeof obj.correlationId === 'string' ? (obj.correlationId as string) : undefined,
 		causationId: typeof obj.causationId === 'string' ? (obj.causationId as string) : undefined,
+		traceparent: typeof obj.traceparent === 'string' ? (obj.traceparent as string) : undefined,
+		tracestate: typeof obj.tracestate === 'string' ? (obj.tracestate as string) : undefined,
 		locale: typeof obj.locale === 'string' ? (obj.locale as string) : undefined,
 		scope: obj.scope === 'tenant' || obj.scope === 'platform' ? obj.scope : undefined,
 		classification:
 			obj.classification === 'public' || obj.classification === 'internal' || obj.classification === 'pii'
 				? obj.classification
 				: undefined,
-		data: obj.data
+		data:
+			obj.classification === 'pii' && hasEncryptedPiiFields(obj.data)
+				? obj.data
+				: (options.schemas ?? oksaiIntegrationEventSchemas).validateData(eventName, eventVersion, obj.data)
 	};
 }
 
+/**
+ * data 顶层是否含 PII 加密信封（结构与 `@oksai/event-store` 的 `EncryptedPiiValue` 一致）
+ */
+function hasEncryptedPiiFields(data: unknown): boolean {
+	if (!data || typeof data !== 'object') return false;
+	return Object.values(data).some((value) => {
+		const envelope = (value as { $pii?: unknown } | null)?.$pii;
+		return typeof envelope === 'object' && envelope !== null;
+	});
+}
+
+/**
+ * @description 按指定契约解析集成事件（data 获得 schema 推导的类型）
+ *
+ * @param definition - 契约定义
+ * @param payload - 待解析的数据
+ * @returns data 已按契约校验的集成事件信封
+ * @throws Error 当信封非法、eventName/eventVersion 与契约不一致或 data 不符合契约时抛出
+ */
+export function parseOksaiIntegrationEventAs<TDefinition extends IntegrationEventSchemaDefinition>(
+	definition: TDefinition,
+	payload: unknown
+): OksaiIntegrationEvent<InferIntegrationEventData<TDefinition>> {
+	const envelope = parseOksaiIntegrationEvent(payload, {
+		schemas: new IntegrationEventSchemaRegistry().register(definition)
+	});
+	if (envelope.eventName !== definition.eventName || envelope.eventVersion !== definition.eventVersion) {
+		throw new Error(
+			`事件 payload 与契约不一致：期望 ${definition.eventName}@v${definition.eventVersion}，实际 ${envelope.eventName}@v${envelope.eventVersion}。`
+		);
+	}
+	return envelope as OksaiIntegrationEvent<InferIntegrationEventData<TDefinition>>;
+}
+
 /**
  * @description 校验是否为有效的集成事件（不抛出异常）
  *
@@ -0,0 +1,106 @@
+/**
+ * @description 集成事件 data 契约注册表单元测试
+ */
+import { z } from 'zod';
+import {
+	defineIntegrationEventSchema,
+	IntegrationEventSchemaRegistry,
+	type InferIntegrationEventData
+} from '../lib/integration-event-schema.registry';
+import { parseOksaiIntegrationEvent, parseOksaiIntegrationEventAs } from '../lib/integration-event.parser';
+
+const TenantCreatedV1 = defineIntegrationEventSchema(
+	'tenant.created',
+	1,
+	z.object({ tenantId: z.string(), name: z.string().min(1) })
+);
+
+const createPayload = (data: unknown, overrides: Record<string, unknown> = {}) => ({
+	eventId: 'evt-001',
+	eventName: 'tenant.created',
+	eventVersion: 1,
+	tenantId: 'tenant-001',
+	partitionKey: 'tenant-001',
+	data,
+	...overrides
+});
+
+describe('IntegrationEventSchemaRegistry', () => {
+	let registry: IntegrationEventSchemaRegistry;
+
+	beforeEach(() => {
+		registry = new IntegrationEventSchemaRegistry().register(TenantCreatedV1);
+	});
+
+	it('应按 eventName 与 eventVersion 判断是否已注册', () => {
+		expect(registry.has('tenant.created', 1)).toBe(true);
+		expect(registry.has('tenant.created', 2)).toBe(false);
+		expect(registry.has('tenant.created')).toBe(true);
+		expect(registry.has('tenant.deleted')).toBe(false);
+	});
+
+	it('重复注册不同 schema 时应抛出异常', () => {
+		expect(() => registry.register(TenantCreatedV1)).not.toThrow();
+		expect(() => registry.register(defineIntegrationEventSchema('tenant.created', 1, z.object({})))).toThrow(
+			'注册集成事件契约失败：tenant.created@v1 已注册。'
+		);
+	});
+
+	it('data 不符合契约时应抛出包含字段路径的异常', () => {
+		expect(() => registry.validateData('tenant.created', 1, { tenantId: 't-1', name: '' })).toThrow(
+			/^集成事件 data 不符合契约 tenant\.created@v1：name: /
+		);
+		expect(() => registry.validateData('tenant.created', 1, undefined)).toThrow('(root): Required');
+	});
+
+	it('未注册的事件应原样返回 data', () => {
+		const data = { any: 'thing' };
+
+		expect(registry.validateData('tenant.deleted', 1, data)).toBe(data);
+	});
+
+	describe('parseOksaiIntegrationEvent', () => {
+		it('应在解析信封时校验已注册事件的 data', () => {
+			expect(() => parseOksaiIntegrationEvent(createPayload({ tenantId: 't-1' }), { schemas: registry })).toThrow(
+				'集成事件 data 不符合契约 tenant.created@v1'
+			);
+
+			const envelope = parseOksaiIntegrationEvent(createPayload({ tenantId: 't-1', name: 'Acme', extra: 1 }), {
+				schemas: registry
+			});
+			expect(envelope.data).toEqual({ tenantId: 't-1', name: 'Acme' });
+		});
+
+		it('pii 事件的 data 含加密字段时应跳过契约校验', () => {
+			const data = { tenantId: 't-1', name: { $pii: { v: 1, subjectId: 'u-1', iv: 'a', tag: 'b', data: 'c' } } };
+
+			expect(
+				parseOksaiIntegrationEvent(createPayload(data, { classification: 'pii' }), { schemas: registry }).data
+			).toEqual(data);
+			expect(() => parseOksaiIntegrationEvent(createPayload(data), { schemas: registry })).toThrow(
+				'集成事件 data 不符合契约 tenant.created@v1'
+			);
+		});
+	});
+
+	describe('parseOksaiIntegrationEventAs', () => {
+		it('应返回类型化的 data', () => {
+			const envelope = parseOksaiIntegrationEventAs(
+				TenantCreatedV1,
+				createPayload({ tenantId: 't-1', name: 'Acme' })
+			);
+			const data: InferIntegrationEventData<typeof TenantCreatedV1> | undefined = envelope.data;
+
+			expect(data?.name).toBe('Acme');
+		});
+
+		it('eventName 或 eventVersion 与契约不一致时应抛出异常', () => {
+			expect(() =>
+				parseOksaiIntegrationEventAs(
+					TenantCreatedV1,
+					createPayload({ tenantId: 't-1', name: 'Acme' }, { eventVersion: 2 })
+				)
+			).toThrow('事件 payload 与契约不一致：期望 tenant.created@v1，实际 tenant.created@v2。');
+		});
+	});
+});
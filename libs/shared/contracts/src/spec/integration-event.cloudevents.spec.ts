@@ -0,0 +1,96 @@
+/**
+ * @description 集成事件 CloudEvents 编解码单元测试
+ */
+import {
+	decodeOksaiCloudEventBinary,
+	encodeOksaiCloudEventBinary,
+	toOksaiCloudEvent
+} from '../lib/integration-event.cloudevents';
+import { parseOksaiIntegrationEvent } from '../lib/integration-event.parser';
+import type { OksaiIntegrationEvent } from '../lib/integration-event.interface';
+
+describe('CloudEvents 编解码', () => {
+	const envelope: OksaiIntegrationEvent = {
+		eventId: 'evt-001',
+		eventName: 'tenant.user.invited',
+		eventVersion: 2,
+		tenantId: 'tenant-001',
+		partitionKey: 'tenant-001',
+		source: 'platform-api',
+		occurredAt: '2026-02-22T10:00:00.000Z',
+		correlationId: 'corr-001',
+		classification: 'internal',
+		data: { userId: 'user-001' }
+	};
+
+	it('应将信封映射为 CloudEvents 1.0 structured 事件', () => {
+		expect(toOksaiCloudEvent(envelope)).toEqual({
+			specversion: '1.0',
+			id: 'evt-001',
+			source: 'platform-api',
+			type: 'tenant.user.invited',
+			time: '2026-02-22T10:00:00.000Z',
+			datacontenttype: 'application/json',
+			tenantid: 'tenant-001',
+			partitionkey: 'tenant-001',
+			eventversion: 2,
+			correlationid: 'corr-001',
+			classification: 'internal',
+			data: { userId: 'user-001' }
+		});
+	});
+
+	it('缺少 source 时应使用默认 source，并在解析时还原为空', () => {
+		const event = toOksaiCloudEvent({ ...envelope, source: undefined });
+
+		expect(event.source).toBe('oksai');
+		expect(parseOksaiIntegrationEvent(event).source).toBeUndefined();
+	});
+
+	it('parseOksaiIntegrationEvent 应接受 structured 模式', () => {
+		const result = parseOksaiIntegrationEvent(JSON.parse(JSON.stringify(toOksaiCloudEvent(envelope))));
+
+		expect(result).toMatchObject(envelope);
+	});
+
+	it('parseOksaiIntegrationEvent 应接受 binary 模式（消息头为 Buffer）', () => {
+		const { headers, body } = encodeOksaiCloudEventBinary(envelope);
+		const bufferHeaders = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k, Buffer.from(v)]));
+
+		expect(headers['ce_specversion']).toBe('1.0');
+		expect(headers['ce_eventversion']).toBe('2');
+		expect(headers['content-type']).toBe('application/json');
+		expect(JSON.parse(body)).toEqual({ userId: 'user-001' });
+
+		const result = parseOksaiIntegrationEvent(JSON.parse(body), { headers: bufferHeaders });
+
+		expect(result).toMatchObject(envelope);
+	});
+
+	it('应通过 Distributed Tracing 扩展保留 traceparent / tracestate', () => {
+		const traced = {
+			...envelope,
+			traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+			tracestate: 'vendor=abc'
+		};
+		const { headers, body } = encodeOksaiCloudEventBinary(traced);
+
+		expect(toOksaiCloudEvent(traced)).toMatchObject({ traceparent: traced.traceparent, tracestate: 'vendor=abc' });
+		expect(headers['ce_traceparent']).toBe(traced.traceparent);
+		expect(parseOksaiIntegrationEvent(JSON.parse(body), { headers })).toMatchObject({
+			traceparent: traced.traceparent,
+			tracestate: 'vendor=abc'
+		});
+	});
+
+	it('消息头不含 specversion 时应按普通信封解析', () => {
+		expect(decodeOksaiCloudEventBinary({ 'event-id': 'evt-001' }, {})).toBeUndefined();
+		expect(parseOksaiIntegrationEvent(envelope, { headers: { 'event-id': 'evt-001' } }).eventId).toBe('evt-001');
+	});
+
+	it('specversion 不受支持时应抛出错误', () => {
+		expect(() => parseOksaiIntegrationEvent({ ...toOksaiCloudEvent(envelope), specversion: '0.3' })).toThrow(
+			'CloudEvent specversion 不受支持'
+		);
+	});
+});
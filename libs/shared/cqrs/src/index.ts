@@ -49,5 +49,7 @@ export {
 	DefaultPermissionChecker,
 	RequirePermission,
 	type IPermissionChecker,
-	CQRS_PERMISSION_ACTION_KEY
+	CQRS_PERMISSION_ACTION_KEY,
+	// Tracing
+	TracingPipe
 } from './lib/pipeline/pipes';
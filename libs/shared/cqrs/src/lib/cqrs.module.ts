@@ -7,6 +7,7 @@ import {
 	MetricsPipe,
 	ValidationPipe,
 	AuthorizationPipe,
+	TracingPipe,
 	DefaultMetricsCollector,
 	DefaultPermissionChecker,
 	type ICqrsMetricsCollector,
@@ -18,6 +19,11 @@ import {
  * @description CQRS Pipeline 配置选项
  */
 export interface CqrsPipelineOptions {
+	/**
+	 * @description 是否启用链路追踪管道（默认 true）
+	 */
+	tracing?: boolean;
+
 	/**
 	 * @description 是否启用审计管道（默认 true）
 	 */
@@ -54,7 +60,7 @@ export interface CqrsPipelineOptions {
  */
 export interface CqrsModuleOptions {
 	/**
-	 * @description Pipeline 配置（可选，默认启用审计和指标）
+	 * @description Pipeline 配置（可选，默认启用链路追踪、审计和指标）
 	 */
 	pipeline?: CqrsPipelineOptions;
 
@@ -70,18 +76,19 @@ export interface CqrsModuleOptions {
  * 能力：
  * - CommandBus / QueryBus
  * - @CommandHandler / @QueryHandler 的自动探测与注册
- * - Pipeline 横切能力（审计、指标、校验、鉴权）
+ * - Pipeline 横切能力（链路追踪、审计、指标、校验、鉴权）
  *
  * 强约束：
  * - 不提供 EventBus/Saga（集成事件通道请使用 `@oksai/eda`）
  * - tenantId/userId/requestId 必须来自 CLS
  *
  * Pipeline 执行顺序：
- * 1. ValidationPipe（输入校验）
- * 2. AuthorizationPipe（用例级鉴权）
- * 3. AuditPipe（审计日志）
- * 4. MetricsPipe（指标统计）
- * 5. Handler（业务逻辑）
+ * 1. TracingPipe（链路追踪，校验/鉴权失败同样记录在 span 中）
+ * 2. ValidationPipe（输入校验）
+ * 3. AuthorizationPipe（用例级鉴权）
+ * 4. AuditPipe（审计日志）
+ * 5. MetricsPipe（指标统计）
+ * 6. Handler（业务逻辑）
  */
 @Module({})
 export class OksaiCqrsModule {
@@ -93,12 +100,13 @@ export class OksaiCqrsModule {
 	 *
 	 * @example
 	 * ```typescript
-	 * // 默认配置（启用审计和指标）
+	 * // 默认配置（启用链路追踪、审计和指标）
 	 * OksaiCqrsModule.forRoot()
 	 *
 	 * // 完整配置
 	 * OksaiCqrsModule.forRoot({
 	 *   pipeline: {
+	 *     tracing: true,
 	 *     audit: true,
 	 *     metrics: true,
 	 *     validation: true,
@@ -110,6 +118,7 @@ export class OksaiCqrsModule {
 	 */
 	static forRoot(options: CqrsModuleOptions = {}): DynamicModule {
 		const pipelineOpts = options.pipeline ?? {};
+		const enableTracing = pipelineOpts.tracing ?? true;
 		const enableAudit = pipelineOpts.audit ?? true;
 		const enableMetrics = pipelineOpts.metrics ?? true;
 		const enableValidation = pipelineOpts.validation ?? false;
@@ -118,7 +127,13 @@ export class OksaiCqrsModule {
 		const providers: Provider[] = [CommandBus, QueryBus, ExplorerService];
 		const pipeTokens: any[] = [];
 
-		// 1. 输入校验管道（最先执行）
+		// 1. 链路追踪管道（最先执行）
+		if (enableTracing) {
+			providers.push(TracingPipe);
+			pipeTokens.push(TracingPipe);
+		}
+
+		// 2. 输入校验管道
 		if (enableValidation) {
 			const validationOpts = typeof enableValidation === 'object' ? enableValidation : {};
 			providers.push({
@@ -128,7 +143,7 @@ export class OksaiCqrsModule {
 			pipeTokens.push(ValidationPipe);
 		}
 
-		// 2. 用例级鉴权管道
+		// 3. 用例级鉴权管道
 		if (enableAuthorization) {
 			if (pipelineOpts.permissionChecker) {
 				providers.push(pipelineOpts.permissionChecker);
@@ -146,13 +161,13 @@ export class OksaiCqrsModule {
 			pipeTokens.push(AuthorizationPipe);
 		}
 
-		// 3. 审计管道
+		// 4. 审计管道
 		if (enableAudit) {
 			providers.push(AuditPipe);
 			pipeTokens.push(AuditPipe);
 		}
 
-		// 4. 指标管道
+		// 5. 指标管道
 		if (enableMetrics) {
 			if (pipelineOpts.metricsCollector) {
 				providers.push(pipelineOpts.metricsCollector);
@@ -16,3 +16,5 @@ export {
 	type IPermissionChecker,
 	CQRS_PERMISSION_ACTION_KEY
 } from './authorization.pipe';
+
+export { TracingPipe } from './tracing.pipe';
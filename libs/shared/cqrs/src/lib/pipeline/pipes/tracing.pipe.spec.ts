@@ -0,0 +1,57 @@
+import {
+	configureOksaiTracing,
+	getOksaiRequestContextFromCurrent,
+	resetOksaiTracing,
+	runWithOksaiContext,
+	type OksaiSpanData
+} from '@oksai/context';
+import { TracingPipe } from './tracing.pipe';
+import { createCqrsContext } from '../pipeline';
+
+describe('TracingPipe', () => {
+	const parent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+	let spans: OksaiSpanData[];
+	let tracingPipe: TracingPipe;
+
+	beforeEach(() => {
+		spans = [];
+		configureOksaiTracing({ serviceName: 'test', exporter: { export: (batch) => void spans.push(...batch) } });
+		tracingPipe = new TracingPipe();
+	});
+
+	afterEach(() => {
+		resetOksaiTracing();
+	});
+
+	it('应该以 CLS 中的 span 为父创建用例 span', async () => {
+		const context = createCqrsContext('TestCommand', { type: 'TestCommand' }, { tenantId: 'tenant-1' });
+
+		const traceparent = await runWithOksaiContext({ tenantId: 'tenant-1', traceparent: parent }, () =>
+			tracingPipe.execute(context, async () => getOksaiRequestContextFromCurrent().traceparent)
+		);
+
+		expect(spans).toHaveLength(1);
+		expect(spans[0]).toMatchObject({
+			name: 'cqrs TestCommand',
+			kind: 'internal',
+			traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+			parentSpanId: '00f067aa0ba902b7',
+			attributes: { 'oksai.cqrs.type': 'TestCommand', 'oksai.tenant_id': 'tenant-1' }
+		});
+		expect(traceparent).toBe(`00-${spans[0].traceId}-${spans[0].spanId}-01`);
+	});
+
+	it('应该在失败时记录异常并原样抛出', async () => {
+		const context = createCqrsContext('TestCommand', { type: 'TestCommand' });
+
+		await expect(tracingPipe.execute(context, () => Promise.reject(new Error('Test error')))).rejects.toThrow(
+			'Test error'
+		);
+
+		expect(spans[0].status).toEqual({ code: 'error', message: 'Test error' });
+	});
+
+	it('应该包含正确的管道名称', () => {
+		expect(tracingPipe.name).toBe('TracingPipe');
+	});
+});
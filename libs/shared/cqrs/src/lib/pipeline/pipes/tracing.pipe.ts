@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { runInOksaiSpan } from '@oksai/context';
+import type { ICqrsPipe, CqrsExecutionContext } from '../pipeline';
+
+/**
+ * @description 链路追踪管道
+ *
+ * 说明：
+ * - 为每次命令/查询创建 internal span（父 span 取自 CLS，例如 HTTP server span）
+ * - handler 执行期间 CLS 中的 traceparent 指向该 span，Outbox 写入的集成事件会以它为父 span
+ * - 失败时记录异常并原样抛出
+ */
+@Injectable()
+export class TracingPipe implements ICqrsPipe {
+	readonly name = 'TracingPipe';
+
+	async execute<TResult>(context: CqrsExecutionContext, next: () => Promise<TResult>): Promise<TResult> {
+		const { commandType, tenantId, userId, requestId } = context;
+
+		return runInOksaiSpan(
+			`cqrs ${commandType}`,
+			{
+				kind: 'internal',
+				attributes: {
+					'oksai.cqrs.type': commandType,
+					'oksai.tenant_id': tenantId,
+					'enduser.id': userId,
+					'oksai.request_id': requestId
+				}
+			},
+			() => next()
+		);
+	}
+}
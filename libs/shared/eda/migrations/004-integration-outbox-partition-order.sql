@@ -0,0 +1,34 @@
+-- ============================================================================
+-- 集成事件 Outbox 分区有序处理
+--
+-- 用途：为 IntegrationOutboxProcessor 的分区有序模式（partitionConcurrency）提供写入顺序
+--
+-- 设计说明：
+-- - occurred_at 取写入事务的 now()，同一事务内多行相同，无法区分先后
+-- - seq 按插入顺序单调递增，作为同 partition_key 内的处理顺序
+-- - 分区有序 claim 只取各 partition_key 的队首行（不存在 seq 更小且未到终态的行）
+--
+-- @module @oksai/eda
+-- ============================================================================
+
+ALTER TABLE integration_outbox
+    ADD COLUMN IF NOT EXISTS seq BIGSERIAL;
+
+-- ============================================================================
+-- 索引
+-- ============================================================================
+
+-- 复合索引：分区键 + 顺序（队首判定，仅覆盖未到终态的行）
+CREATE INDEX IF NOT EXISTS idx_integration_outbox_partition_seq
+    ON integration_outbox(partition_key, seq)
+    WHERE status NOT IN ('published', 'dead');
+
+-- 顺序索引（分区有序 claim 排序）
+CREATE INDEX IF NOT EXISTS idx_integration_outbox_seq
+    ON integration_outbox(seq);
+
+-- ============================================================================
+-- 注释
+-- ============================================================================
+
+COMMENT ON COLUMN integration_outbox.seq IS '写入顺序（同 partition_key 内的处理顺序）';
@@ -0,0 +1,34 @@
+-- ============================================================================
+-- 集成事件 Outbox 死信处置
+--
+-- 用途：支持运维对死信进行重放与丢弃（IntegrationOutboxDeadLetterService）
+--
+-- 设计说明：
+-- - 重放：integration_outbox 行回到 pending 并删除死信行（再次失败会重新写入死信）
+-- - 丢弃：死信行保留，status 置为 discarded 并记录操作人与备注（审计）
+--
+-- @module @oksai/eda
+-- ============================================================================
+
+ALTER TABLE integration_outbox_dead_letter
+    ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'dead',
+    ADD COLUMN IF NOT EXISTS discarded_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS discarded_by VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS discard_note TEXT;
+
+-- ============================================================================
+-- 索引
+-- ============================================================================
+
+-- 复合索引：状态 + 死亡时间（死信列表查询）
+CREATE INDEX IF NOT EXISTS idx_integration_outbox_dead_letter_status_dead_at
+    ON integration_outbox_dead_letter(status, dead_at DESC);
+
+-- ============================================================================
+-- 注释
+-- ============================================================================
+
+COMMENT ON COLUMN integration_outbox_dead_letter.status IS '死信状态：dead, discarded';
+COMMENT ON COLUMN integration_outbox_dead_letter.discarded_at IS '丢弃时间';
+COMMENT ON COLUMN integration_outbox_dead_letter.discarded_by IS '丢弃操作人';
+COMMENT ON COLUMN integration_outbox_dead_letter.discard_note IS '丢弃备注（审计）';
@@ -0,0 +1,33 @@
+-- ============================================================================
+-- 集成事件 Outbox 写入通知（LISTEN/NOTIFY）
+--
+-- 用途：integration_outbox 写入后通知监听中的轮询 Worker 立即处理，
+--       降低事件延迟并允许空闲时放宽轮询间隔
+--
+-- 设计说明：
+-- - 语句级触发器：一条 INSERT 语句只发送一次通知，批量写入不会产生通知风暴
+-- - 通知在事务提交后才送达，同一事务内的重复通知由 Postgres 合并
+-- - 通知不保证送达（监听连接断开期间会丢失），Worker 始终保留轮询兜底
+--
+-- @module @oksai/eda
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION integration_outbox_notify() RETURNS trigger AS $$
+BEGIN
+    PERFORM pg_notify('integration_outbox', '');
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_integration_outbox_notify ON integration_outbox;
+
+CREATE TRIGGER trg_integration_outbox_notify
+    AFTER INSERT ON integration_outbox
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION integration_outbox_notify();
+
+-- ============================================================================
+-- 注释
+-- ============================================================================
+
+COMMENT ON FUNCTION integration_outbox_notify() IS '通知 integration_outbox 通道有新事件写入';
@@ -0,0 +1,66 @@
+-- ============================================================================
+-- 集成事件 Outbox 归档表
+--
+-- 用途：IntegrationOutboxArchiver 从 integration_outbox 清理 published 行前写入的归档
+--
+-- 设计说明：
+-- - 按 occurred_at 月范围分区（integration_outbox_archive_pYYYYMM），过期归档可整月 DROP
+-- - 月分区由 IntegrationOutboxArchiver.managePartitions() 预先创建；
+--   未命中月分区的行写入默认分区（默认分区中已有某月数据时，该月分区无法再创建）
+-- - 主键需包含分区键，因此为 (event_id, occurred_at)
+--
+-- @module @oksai/eda
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS integration_outbox_archive (
+    -- 事件标识
+    event_id        VARCHAR(36) NOT NULL,
+
+    -- 租户标识
+    tenant_id       VARCHAR(36) NOT NULL,
+
+    -- 事件元数据
+    event_name      VARCHAR(255) NOT NULL,
+    event_version   INTEGER NOT NULL DEFAULT 1,
+    partition_key   VARCHAR(255) NOT NULL,
+
+    -- 事件负载（JSON 格式的 OksaiIntegrationEvent）
+    payload         JSONB NOT NULL,
+
+    -- 时间戳
+    occurred_at     TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at      TIMESTAMP WITH TIME ZONE NOT NULL,
+    published_at    TIMESTAMP WITH TIME ZONE NOT NULL,
+    archived_at     TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    PRIMARY KEY (event_id, occurred_at)
+) PARTITION BY RANGE (occurred_at);
+
+-- 默认分区（兜底未预建月分区的数据）
+CREATE TABLE IF NOT EXISTS integration_outbox_archive_default
+    PARTITION OF integration_outbox_archive DEFAULT;
+
+-- ============================================================================
+-- 索引
+-- ============================================================================
+
+-- 复合索引：租户 + 发生时间（按租户追溯历史事件）
+CREATE INDEX IF NOT EXISTS idx_integration_outbox_archive_tenant_occurred
+    ON integration_outbox_archive(tenant_id, occurred_at);
+
+-- 事件名称索引（按事件类型查询）
+CREATE INDEX IF NOT EXISTS idx_integration_outbox_archive_event_name
+    ON integration_outbox_archive(event_name);
+
+-- 部分索引：published 行按发布时间（归档器扫描过期行）
+CREATE INDEX IF NOT EXISTS idx_integration_outbox_published_updated
+    ON integration_outbox(updated_at)
+    WHERE status = 'published';
+
+-- ============================================================================
+-- 注释
+-- ============================================================================
+
+COMMENT ON TABLE integration_outbox_archive IS '集成事件 Outbox 归档表 - 已发布并超过保留期的事件（按月分区）';
+COMMENT ON COLUMN integration_outbox_archive.published_at IS '发布时间（归档前 integration_outbox.updated_at）';
+COMMENT ON COLUMN integration_outbox_archive.archived_at IS '归档时间';
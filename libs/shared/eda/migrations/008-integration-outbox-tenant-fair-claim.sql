@@ -0,0 +1,27 @@
+-- ============================================================================
+-- 集成事件 Outbox 按租户公平 claim
+--
+-- 用途：为 IntegrationOutboxProcessor / IntegrationOutboxPublisher 的 fairShare 模式提供租户内排序
+--
+-- 设计说明：
+-- - 公平 claim 对每个有候选行的租户 lateral 取前 maxRowsPerTenant × weight 行（租户内按 occurred_at / seq 排序），
+--   编号后按轮次交替取行；本索引使每个租户的 lateral 查询只读取有界的行
+-- - 单租户批量写入时，该租户每批最多占用 maxRowsPerTenant × weight 行
+-- - 租户积压指标按 tenant_id 分组统计，同样依赖本索引
+--
+-- @module @oksai/eda
+-- ============================================================================
+
+-- ============================================================================
+-- 索引
+-- ============================================================================
+
+-- 复合索引：租户 + 发生时间（仅覆盖可 claim 的行）
+CREATE INDEX IF NOT EXISTS idx_integration_outbox_tenant_claim
+    ON integration_outbox(tenant_id, occurred_at)
+    WHERE status IN ('pending', 'queued', 'failed');
+
+-- 复合索引：租户 + 写入顺序（分区有序模式下的公平 claim）
+CREATE INDEX IF NOT EXISTS idx_integration_outbox_tenant_seq
+    ON integration_outbox(tenant_id, seq)
+    WHERE status IN ('pending', 'queued', 'failed');
@@ -0,0 +1,148 @@
+-- ============================================================================
+-- 集成事件 Webhook：端点、投递与投递尝试日志
+--
+-- 用途：租户注册 Webhook 端点，在自己的系统中接收集成事件
+--
+-- 设计说明：
+-- - integration_webhook_endpoint：租户端点（事件名称过滤、签名密钥、连续失败计数）
+-- - integration_webhook_delivery：每个 (端点, 事件) 一条投递记录，保存事件快照，重投时发送相同内容
+-- - integration_webhook_delivery_attempt：每次 HTTP 尝试的响应码、耗时与截断的响应体
+-- - 密钥需要参与 HMAC 计算，因此以明文保存；请通过数据库权限与备份加密保护
+--
+-- @module @oksai/eda
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS integration_webhook_endpoint (
+    -- 主键
+    id                          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- 租户标识
+    tenant_id                   VARCHAR(64) NOT NULL,
+
+    -- 端点信息
+    url                         TEXT NOT NULL,
+    description                 TEXT,
+    event_names                 TEXT[] NOT NULL DEFAULT '{}',
+
+    -- 状态：active / disabled
+    status                      VARCHAR(16) NOT NULL DEFAULT 'active',
+
+    -- 签名密钥（轮换宽限期内旧密钥同时签名）
+    secret                      TEXT NOT NULL,
+    previous_secret             TEXT,
+    previous_secret_expires_at  TIMESTAMP WITH TIME ZONE,
+
+    -- 健康度
+    consecutive_failures        INTEGER NOT NULL DEFAULT 0,
+    failing_since               TIMESTAMP WITH TIME ZONE,
+    disabled_at                 TIMESTAMP WITH TIME ZONE,
+    disabled_reason             TEXT,
+
+    -- 时间戳
+    created_at                  TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at                  TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS integration_webhook_delivery (
+    -- 主键（同时作为 oksai-webhook-id 请求头）
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- 租户与端点
+    tenant_id           VARCHAR(64) NOT NULL,
+    endpoint_id         UUID NOT NULL REFERENCES integration_webhook_endpoint(id) ON DELETE CASCADE,
+
+    -- 事件快照
+    event_id            VARCHAR(128) NOT NULL,
+    event_name          VARCHAR(128) NOT NULL,
+    payload             JSONB NOT NULL,
+
+    -- 投递状态：pending / succeeded / dead
+    status              VARCHAR(16) NOT NULL DEFAULT 'pending',
+    attempt_count       INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at     TIMESTAMP WITH TIME ZONE,
+    last_status_code    INTEGER,
+    last_error          TEXT,
+    delivered_at        TIMESTAMP WITH TIME ZONE,
+
+    -- 是否为"发送测试事件"产生
+    is_test             BOOLEAN NOT NULL DEFAULT FALSE,
+
+    -- 时间戳
+    created_at          TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at          TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS integration_webhook_delivery_attempt (
+    -- 主键
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- 所属投递
+    delivery_id     UUID NOT NULL REFERENCES integration_webhook_delivery(id) ON DELETE CASCADE,
+    attempt_no      INTEGER NOT NULL,
+
+    -- 结果（网络错误/超时时 status_code 为空）
+    status_code     INTEGER,
+    error           TEXT,
+    duration_ms     INTEGER NOT NULL,
+    response_body   TEXT,
+
+    -- 时间戳
+    attempted_at    TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- ============================================================================
+-- 约束
+-- ============================================================================
+
+-- 唯一约束：同一端点同一事件只生成一条投递（订阅者重复调用时幂等）
+ALTER TABLE integration_webhook_delivery
+    ADD CONSTRAINT uq_integration_webhook_delivery_endpoint_event
+    UNIQUE (endpoint_id, event_id);
+
+-- 唯一约束：同一投递的尝试序号不重复
+ALTER TABLE integration_webhook_delivery_attempt
+    ADD CONSTRAINT uq_integration_webhook_delivery_attempt_no
+    UNIQUE (delivery_id, attempt_no);
+
+-- ============================================================================
+-- 索引
+-- ============================================================================
+
+-- 租户 ID 索引（端点列表）
+CREATE INDEX IF NOT EXISTS idx_integration_webhook_endpoint_tenant_id
+    ON integration_webhook_endpoint(tenant_id);
+
+-- 待投递索引（仅覆盖 pending）
+CREATE INDEX IF NOT EXISTS idx_integration_webhook_delivery_due
+    ON integration_webhook_delivery(next_attempt_at)
+    WHERE status = 'pending';
+
+-- 端点投递日志索引
+CREATE INDEX IF NOT EXISTS idx_integration_webhook_delivery_endpoint_created
+    ON integration_webhook_delivery(endpoint_id, created_at DESC);
+
+-- ============================================================================
+-- 注释
+-- ============================================================================
+
+COMMENT ON TABLE integration_webhook_endpoint IS '集成事件 Webhook 端点 - 租户注册的接收地址';
+COMMENT ON COLUMN integration_webhook_endpoint.event_names IS '事件名称过滤（精确名称或 xxx.* 前缀通配；空数组表示全部事件）';
+COMMENT ON COLUMN integration_webhook_endpoint.status IS '端点状态（active / disabled）';
+COMMENT ON COLUMN integration_webhook_endpoint.secret IS '当前签名密钥';
+COMMENT ON COLUMN integration_webhook_endpoint.previous_secret IS '轮换前的签名密钥（宽限期内同时签名）';
+COMMENT ON COLUMN integration_webhook_endpoint.previous_secret_expires_at IS '旧密钥失效时间';
+COMMENT ON COLUMN integration_webhook_endpoint.consecutive_failures IS '连续失败尝试次数（任一成功清零）';
+COMMENT ON COLUMN integration_webhook_endpoint.failing_since IS '本轮连续失败开始时间';
+COMMENT ON COLUMN integration_webhook_endpoint.disabled_reason IS '停用原因（手动停用或自动停用）';
+
+COMMENT ON TABLE integration_webhook_delivery IS '集成事件 Webhook 投递 - 每个端点每个事件一条';
+COMMENT ON COLUMN integration_webhook_delivery.payload IS '事件信封快照（以 CloudEvents structured JSON 发送）';
+COMMENT ON COLUMN integration_webhook_delivery.status IS '投递状态（pending / succeeded / dead）';
+COMMENT ON COLUMN integration_webhook_delivery.attempt_count IS '本轮尝试次数（重新投递时清零）';
+COMMENT ON COLUMN integration_webhook_delivery.next_attempt_at IS '下一次尝试时间（claim 时推后作为租约）';
+COMMENT ON COLUMN integration_webhook_delivery.last_status_code IS '最近一次响应码';
+COMMENT ON COLUMN integration_webhook_delivery.is_test IS '是否为测试事件';
+
+COMMENT ON TABLE integration_webhook_delivery_attempt IS '集成事件 Webhook 投递尝试日志';
+COMMENT ON COLUMN integration_webhook_delivery_attempt.attempt_no IS '尝试序号（跨重新投递累计）';
+COMMENT ON COLUMN integration_webhook_delivery_attempt.response_body IS '响应体（截断至 256 字符）';
@@ -0,0 +1,81 @@
+-- ============================================================================
+-- 集成事件 Saga：流程实例状态
+--
+-- 用途：编排"租户创建 → 创建所有者 → 创建默认角色 → 激活租户"等多步骤流程
+--
+-- 设计说明：
+-- - 每个 (saga_name, tenant_id, correlation_id) 一个实例，默认由集成事件的 correlationId（缺省时 requestId）关联
+-- - deadline_at 为定时唤醒时间：等待完成事件的超时、命令失败后的重试、补偿失败后的重试
+-- - history 追加记录每次状态迁移，供运维查看卡住的流程
+--
+-- @module @oksai/eda
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS integration_saga_instance (
+    -- 主键
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- 流程标识
+    saga_name           VARCHAR(128) NOT NULL,
+    tenant_id           VARCHAR(64) NOT NULL,
+    correlation_id      VARCHAR(128) NOT NULL,
+
+    -- 状态：running / compensating / completed / compensated / failed
+    status              VARCHAR(16) NOT NULL DEFAULT 'running',
+
+    -- 当前步骤（补偿阶段为下一个待补偿步骤）
+    current_step        INTEGER NOT NULL DEFAULT 0,
+    current_step_name   VARCHAR(128),
+    step_attempts       INTEGER NOT NULL DEFAULT 0,
+    awaiting_event_name VARCHAR(128),
+
+    -- 定时唤醒
+    deadline_at         TIMESTAMP WITH TIME ZONE,
+
+    -- 流程数据与迁移记录
+    state               JSONB NOT NULL DEFAULT '{}',
+    history             JSONB NOT NULL DEFAULT '[]',
+    last_error          TEXT,
+
+    -- 时间戳
+    started_at          TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at          TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    finished_at         TIMESTAMP WITH TIME ZONE
+);
+
+-- ============================================================================
+-- 约束
+-- ============================================================================
+
+-- 唯一约束：同一流程同一关联 ID 只有一个实例（重复的开始事件被忽略）
+ALTER TABLE integration_saga_instance
+    ADD CONSTRAINT uq_integration_saga_instance_correlation
+    UNIQUE (saga_name, tenant_id, correlation_id);
+
+-- ============================================================================
+-- 索引
+-- ============================================================================
+
+-- 定时唤醒索引（仅覆盖进行中的实例）
+CREATE INDEX IF NOT EXISTS idx_integration_saga_instance_due
+    ON integration_saga_instance(deadline_at)
+    WHERE status IN ('running', 'compensating');
+
+-- 运维查询索引
+CREATE INDEX IF NOT EXISTS idx_integration_saga_instance_status_updated
+    ON integration_saga_instance(status, updated_at);
+
+-- ============================================================================
+-- 注释
+-- ============================================================================
+
+COMMENT ON TABLE integration_saga_instance IS '集成事件 Saga 实例 - 多步骤流程的持久化状态';
+COMMENT ON COLUMN integration_saga_instance.correlation_id IS '关联 ID（默认取集成事件 correlationId，缺省时取 requestId）';
+COMMENT ON COLUMN integration_saga_instance.status IS '实例状态（running / compensating / completed / compensated / failed）';
+COMMENT ON COLUMN integration_saga_instance.current_step IS '当前步骤序号（补偿阶段为下一个待补偿步骤）';
+COMMENT ON COLUMN integration_saga_instance.current_step_name IS '当前步骤名称（结束后为空）';
+COMMENT ON COLUMN integration_saga_instance.step_attempts IS '当前步骤（或当前补偿）已尝试次数';
+COMMENT ON COLUMN integration_saga_instance.awaiting_event_name IS '正在等待的完成事件名称';
+COMMENT ON COLUMN integration_saga_instance.deadline_at IS '定时唤醒时间（超时、重试）';
+COMMENT ON COLUMN integration_saga_instance.state IS '流程数据（步骤间传递）';
+COMMENT ON COLUMN integration_saga_instance.history IS '状态迁移记录（最多保留最近 100 条）';
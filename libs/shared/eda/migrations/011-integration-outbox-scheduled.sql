@@ -0,0 +1,38 @@
+-- ============================================================================
+-- 集成事件 Outbox 延迟投递
+--
+-- 用途：支持"7 天后发布"等定时事件（试用到期、提醒邮件）
+--
+-- 设计说明：
+-- - deliver_at 为最早可投递时间：为空或已到期的行才可被 claim；next_retry_at 仍只用于失败重试
+-- - dedupe_key 为租户内的去重键：同一租户同一去重键同时只有一个待投递（pending）事件，
+--   重复写入被忽略；业务可按去重键取消尚未投递的事件
+-- - 取消即删除 pending 行（事件从未投递，等价于从未产生）
+--
+-- @module @oksai/eda
+-- ============================================================================
+
+ALTER TABLE integration_outbox
+    ADD COLUMN IF NOT EXISTS deliver_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS dedupe_key VARCHAR(255);
+
+-- ============================================================================
+-- 索引
+-- ============================================================================
+
+-- 唯一索引：同一租户同一去重键只有一个待投递事件（insert ... on conflict do nothing 依赖本索引）
+CREATE UNIQUE INDEX IF NOT EXISTS uq_integration_outbox_tenant_dedupe_key
+    ON integration_outbox(tenant_id, dedupe_key)
+    WHERE dedupe_key IS NOT NULL AND status = 'pending';
+
+-- 复合索引：租户 + 投递时间（按租户查看定时事件）
+CREATE INDEX IF NOT EXISTS idx_integration_outbox_tenant_deliver_at
+    ON integration_outbox(tenant_id, deliver_at)
+    WHERE deliver_at IS NOT NULL AND status = 'pending';
+
+-- ============================================================================
+-- 注释
+-- ============================================================================
+
+COMMENT ON COLUMN integration_outbox.deliver_at IS '最早可投递时间（为空表示立即投递）';
+COMMENT ON COLUMN integration_outbox.dedupe_key IS '租户内去重键（同一键同时只有一个待投递事件，可按键取消）';
@@ -0,0 +1,46 @@
+-- ============================================================================
+-- 集成事件订阅者运维开关
+--
+-- 用途：运维暂停/恢复单个插件订阅者（下游故障、数据修复期间停止消费）
+--
+-- 设计说明：
+-- - 以 subscriber_name 为维度（与 integration_event_subscriber_retry_state 一致），所有实例共享
+-- - IntegrationEventSubscriberProjectionProcessor 每批读取 paused = true 的订阅者并跳过；
+--   暂停期间事件保留为未处理，恢复后从积压继续消费
+-- - 恢复不删除行，保留最近一次操作人与原因
+--
+-- @module @oksai/eda
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS integration_event_subscriber_control (
+    -- 订阅者名称（主键）
+    subscriber_name     VARCHAR(256) PRIMARY KEY,
+
+    -- 开关
+    paused              BOOLEAN NOT NULL DEFAULT FALSE,
+    reason              TEXT,
+
+    -- 审计
+    updated_by          VARCHAR(64),
+    paused_at           TIMESTAMP WITH TIME ZONE,
+    updated_at          TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- ============================================================================
+-- 索引
+-- ============================================================================
+
+-- 部分索引：处理器每批读取已暂停的订阅者
+CREATE INDEX IF NOT EXISTS idx_integration_event_subscriber_control_paused
+    ON integration_event_subscriber_control(subscriber_name)
+    WHERE paused = TRUE;
+
+-- ============================================================================
+-- 注释
+-- ============================================================================
+
+COMMENT ON TABLE integration_event_subscriber_control IS '集成事件订阅者运维开关 - 暂停/恢复订阅者消费';
+COMMENT ON COLUMN integration_event_subscriber_control.paused IS '是否暂停（暂停期间处理器跳过该订阅者）';
+COMMENT ON COLUMN integration_event_subscriber_control.reason IS '暂停原因';
+COMMENT ON COLUMN integration_event_subscriber_control.updated_by IS '最近一次操作人';
+COMMENT ON COLUMN integration_event_subscriber_control.paused_at IS '最近一次暂停时间';
@@ -1,7 +1,7 @@
 /**
  * @oksai/eda
  *
- * 事件驱动架构模块，提供事件发布订阅、Outbox/Inbox、Kafka 集成功能。
+ * 事件驱动架构模块，提供事件发布订阅、Outbox/Inbox、Kafka / Redis Streams 集成功能。
  *
  * @packageDocumentation
  */
@@ -10,8 +10,20 @@
 export {
 	type IOksaiIntegrationEvent,
 	type OksaiIntegrationEvent,
+	type IntegrationEventSchemaDefinition,
+	type InferIntegrationEventData,
 	parseOksaiIntegrationEvent,
-	isValidOksaiIntegrationEvent
+	parseOksaiIntegrationEventAs,
+	isValidOksaiIntegrationEvent,
+	defineIntegrationEventSchema,
+	IntegrationEventSchemaRegistry,
+	oksaiIntegrationEventSchemas,
+	type CloudEventsContentMode,
+	type OksaiCloudEvent,
+	toOksaiCloudEvent,
+	fromOksaiCloudEvent,
+	encodeOksaiCloudEventBinary,
+	decodeOksaiCloudEventBinary
 } from '@oksai/contracts';
 
 // 集成事件工厂类（便捷创建事件）
@@ -25,7 +37,8 @@ export { EventBus } from './lib/event-bus';
 export {
 	withOksaiWorkerContext,
 	withOksaiWorkerContextFromJob,
-	type WithOksaiWorkerContextFromJobOptions
+	type WithOksaiWorkerContextFromJobOptions,
+	type OksaiWorkerSpanOptions
 } from './lib/context/worker-context.util';
 
 // Outbox 信封解析
@@ -36,9 +49,25 @@ export {
 	type BuildIntegrationEventInput,
 	type InsertIntegrationOutboxEventOptions,
 	buildIntegrationEventFromCurrentContext,
-	insertIntegrationOutboxEvent
+	insertIntegrationOutboxEvent,
+	cancelScheduledIntegrationOutboxEvents
 } from './lib/outbox/outbox-producer';
 
+// Outbox 领域事件自动中继（MikroORM flush 钩子）
+export { IntegrationOutboxRecordEntity } from './lib/outbox/integration-outbox-record.entity';
+export {
+	type DomainEventIntegrationMapper,
+	DomainEventIntegrationMapperRegistry,
+	DomainEventOutboxSubscriber
+} from './lib/outbox/domain-event-outbox.subscriber';
+
+// Outbox PII 加密
+export {
+	type IntegrationEventPiiOptions,
+	protectIntegrationEventPii,
+	revealIntegrationEventPii
+} from './lib/outbox/outbox-pii';
+
 // Outbox 处理器
 export {
 	type IntegrationOutboxRow,
@@ -50,6 +79,33 @@ export {
 	computeOutboxLagMs
 } from './lib/outbox/outbox-processor';
 
+// Outbox 按租户公平 claim
+export {
+	type IntegrationOutboxFairShareOptions,
+	type IntegrationOutboxFairShareClaimQuery,
+	DEFAULT_TENANT_PLAN_WEIGHTS,
+	buildTenantWeightsFromPlans,
+	IntegrationOutboxFairShareClaimer
+} from './lib/outbox/outbox-fair-share';
+
+// Outbox 死信管理
+export {
+	type IntegrationDeadLetterStatus,
+	type IntegrationDeadLetterRow,
+	type IntegrationDeadLetterFilter,
+	type IntegrationDeadLetterBatchResult,
+	type IntegrationOutboxDeadLetterServiceOptions,
+	IntegrationOutboxDeadLetterService
+} from './lib/outbox/outbox-dead-letter.service';
+
+// Outbox 定时事件（按租户查看与取消）
+export {
+	type IntegrationScheduledEventRow,
+	type IntegrationScheduledEventFilter,
+	type IntegrationScheduledEventServiceOptions,
+	IntegrationScheduledEventService
+} from './lib/outbox/outbox-scheduled.service';
+
 // Outbox 重试工具
 export {
 	computeOutboxNextRetrySeconds as computeNextRetrySeconds,
@@ -57,7 +113,12 @@ export {
 } from './lib/outbox/outbox-retry.util';
 
 // Kafka 配置
-export { type OksaiKafkaConfig, parseKafkaConfig, parseKafkaEnvConfig } from './lib/kafka/kafka.config';
+export {
+	type OksaiKafkaConfig,
+	parseKafkaConfig,
+	parseKafkaEnvConfig,
+	buildKafkaRetryTopicNames
+} from './lib/kafka/kafka.config';
 
 // Kafka 加载器
 export {
@@ -80,21 +141,64 @@ export {
 export {
 	type KafkaIntegrationEventConsumerOptions,
 	type KafkaIntegrationEventConsumerStartOptions,
+	KAFKA_RETRY_HEADERS,
 	KafkaIntegrationEventConsumer
 } from './lib/kafka/kafka-event-consumer';
 
+// Redis Streams 配置
+export {
+	type OksaiRedisStreamsConfig,
+	type RedisStreamsClientLike,
+	parseRedisStreamsEnvConfig
+} from './lib/redis/redis-streams.config';
+
+// Redis Streams Producer
+export {
+	type RedisStreamsIntegrationEventProducerOptions,
+	RedisStreamsIntegrationEventProducer
+} from './lib/redis/redis-streams-event-producer';
+
+// Redis Streams Consumer
+export {
+	type RedisStreamsIntegrationEventConsumerOptions,
+	type RedisStreamsIntegrationEventConsumerStartOptions,
+	RedisStreamsIntegrationEventConsumer
+} from './lib/redis/redis-streams-event-consumer';
+
+// 传输层选择（Kafka / Redis Streams）
+export {
+	type IntegrationEventTransportKind,
+	type IntegrationEventTransportProducer,
+	type IntegrationEventTransportConsumer,
+	type IntegrationEventTransportInput,
+	readIntegrationEventTransportKind,
+	createIntegrationEventProducerFromEnv,
+	createIntegrationEventConsumerFromEnv
+} from './lib/transport/integration-event-transport';
+
 // Workers - Polling Worker
 export {
 	type PollingWorkerLogger,
 	type PollingWorkerEnvOptions,
 	type PollingWorkerOptions,
 	type PollingWorkerController,
+	type PollingWorkerWakeListener,
+	type PollingWorkerWakeSource,
 	readBooleanFromEnv,
 	readOptionalBooleanFromEnv,
 	readOptionalPositiveIntFromEnv,
 	createPollingWorker
 } from './lib/workers/polling-worker';
 
+// Workers - LISTEN/NOTIFY 唤醒
+export {
+	type PgNotificationLike,
+	type PgListenClientLike,
+	type PgNotifyWakeSourceOptions,
+	DEFAULT_INTEGRATION_OUTBOX_NOTIFY_CHANNEL,
+	createPgNotifyWakeSource
+} from './lib/workers/pg-notify-wake-source';
+
 // Workers - Outbox Publisher
 export {
 	type IntegrationOutboxPublishRow,
@@ -102,6 +206,15 @@ export {
 	IntegrationOutboxPublisher
 } from './lib/workers/outbox-publisher';
 
+// Workers - Outbox 归档
+export {
+	type IntegrationOutboxRetentionConsumer,
+	type IntegrationOutboxArchivePartitionOptions,
+	type IntegrationOutboxArchiverOptions,
+	type IntegrationOutboxArchiveRow,
+	IntegrationOutboxArchiver
+} from './lib/workers/outbox-archiver';
+
 // Workers - Outbox Reaper
 export {
 	type IntegrationOutboxProcessingReaperOptions,
@@ -109,10 +222,18 @@ export {
 	IntegrationOutboxProcessingReaper
 } from './lib/workers/outbox-reaper';
 
+// Workers - Outbox 积压采样
+export {
+	type IntegrationSubscriberConsumerRef,
+	type IntegrationOutboxBacklogSamplerOptions,
+	IntegrationOutboxBacklogSampler
+} from './lib/workers/outbox-backlog-sampler';
+
 // Metrics
 export {
 	type StartOksaiMetricsOptions,
 	type OksaiMetricsRecorder,
+	type IntegrationOutboxBacklogStatus,
 	getOksaiMetricsRecorder,
 	resetOksaiMetrics,
 	startOksaiMetrics
@@ -128,7 +249,24 @@ export {
 export { OKSAI_INTEGRATION_EVENT_SUBSCRIBER_TYPES } from './lib/subscriber/subscriber.tokens';
 
 // 订阅者分发器
-export { IntegrationEventSubscriberDispatcherService } from './lib/subscriber/subscriber-dispatcher.service';
+export {
+	IntegrationEventSubscriberDispatcherService,
+	assertIntegrationEventSubscriberSchemas
+} from './lib/subscriber/subscriber-dispatcher.service';
+
+// 订阅者熔断器
+export {
+	type IntegrationSubscriberCircuitState,
+	type IntegrationSubscriberCircuitBreakerOptions,
+	IntegrationSubscriberCircuitBreaker
+} from './lib/subscriber/subscriber-circuit-breaker';
+
+// 订阅者运维开关（暂停/恢复）
+export {
+	type IntegrationSubscriberControlRow,
+	type IntegrationEventSubscriberControlServiceOptions,
+	IntegrationEventSubscriberControlService
+} from './lib/subscriber/subscriber-control.service';
 
 // Workers - Outbox Projection Processor（CQRS 投影）
 export {
@@ -142,3 +280,106 @@ export {
 	type IntegrationEventSubscriberProjectionProcessorOptions,
 	IntegrationEventSubscriberProjectionProcessor
 } from './lib/workers/subscriber-projection-processor';
+
+// Workers - 投影重建
+export {
+	type IntegrationProjectionRebuildScope,
+	type IntegrationProjectionRebuildProgress,
+	type IntegrationProjectionRebuilderOptions,
+	type IntegrationSubscriberRebuilderOptions,
+	IntegrationProjectionRebuilder
+} from './lib/workers/projection-rebuilder';
+
+// Webhook - 签名
+export {
+	INTEGRATION_WEBHOOK_HEADERS,
+	signIntegrationWebhookPayload,
+	verifyIntegrationWebhookSignature
+} from './lib/webhook/webhook-signature';
+
+// Webhook - 端点与投递管理
+export {
+	type IntegrationWebhookEndpointStatus,
+	type IntegrationWebhookDeliveryStatus,
+	type IntegrationWebhookEndpointRow,
+	type IntegrationWebhookDeliveryRow,
+	type IntegrationWebhookDeliveryAttemptRow,
+	type CreateIntegrationWebhookEndpointInput,
+	type UpdateIntegrationWebhookEndpointInput,
+	type IntegrationWebhookDeliveryFilter,
+	type IntegrationWebhookServiceOptions,
+	INTEGRATION_WEBHOOK_TEST_EVENT_NAME,
+	DEFAULT_INTEGRATION_WEBHOOK_SECRET_GRACE_MS,
+	IntegrationWebhookService,
+	normalizeIntegrationWebhookUrl,
+	normalizeIntegrationWebhookEventNames
+} from './lib/webhook/webhook.service';
+
+// Webhook - 扇出订阅者
+export {
+	IntegrationWebhookFanoutSubscriber,
+	defineIntegrationWebhookSubscriber
+} from './lib/webhook/webhook-fanout.subscriber';
+
+// Webhook - 目标地址校验（防 SSRF）
+export {
+	type IntegrationWebhookTarget,
+	type IntegrationWebhookLookup,
+	isIntegrationWebhookPublicAddress,
+	resolveIntegrationWebhookTarget
+} from './lib/webhook/webhook-address';
+
+// Webhook - 投递处理器
+export {
+	type IntegrationWebhookHttpResponse,
+	type IntegrationWebhookHttpSender,
+	type IntegrationWebhookDeliveryProcessorOptions,
+	IntegrationWebhookDeliveryProcessor,
+	computeIntegrationWebhookNextAttemptSeconds
+} from './lib/webhook/webhook-delivery.processor';
+
+// Saga - 声明
+export {
+	type IntegrationSagaCommand,
+	type IntegrationSagaCommandBus,
+	type IntegrationSagaContext,
+	type IntegrationSagaStep,
+	type IntegrationSagaDefinition,
+	type AnyIntegrationSagaDefinition,
+	defineIntegrationSaga,
+	listIntegrationSagaEventNames
+} from './lib/saga/saga.definition';
+
+// Saga - 管理器（事件推进、超时唤醒、补偿）
+export {
+	type IntegrationSagaStatus,
+	type IntegrationSagaHistoryType,
+	type IntegrationSagaHistoryEntry,
+	type IntegrationSagaInstanceRow,
+	type IntegrationSagaManagerOptions,
+	IntegrationSagaManager
+} from './lib/saga/saga-manager';
+
+// Saga - 事件订阅者
+export { IntegrationSagaSubscriber, defineIntegrationSagaSubscribers } from './lib/saga/saga.subscriber';
+
+// Saga - 运维查询
+export {
+	type IntegrationSagaFilter,
+	type IntegrationSagaSummaryRow,
+	type IntegrationSagaAdminServiceOptions,
+	IntegrationSagaAdminService
+} from './lib/saga/saga-admin.service';
+
+// 测试替身：内存 integration_outbox
+export {
+	type IntegrationOutboxStatus,
+	type InMemoryIntegrationOutboxRecord,
+	type InMemoryIntegrationDeadLetterRecord,
+	type InMemoryIntegrationOutboxProcessorOptions,
+	type ExpectedIntegrationEvent,
+	InMemoryIntegrationOutbox,
+	InMemoryIntegrationOutboxProcessor,
+	assertIntegrationEventPublished,
+	assertNoIntegrationEventPublished
+} from './lib/testing/in-memory-integration-outbox';
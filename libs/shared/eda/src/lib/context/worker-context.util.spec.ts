@@ -6,9 +6,17 @@ jest.mock('@oksai/context', () => {
 	};
 });
 
-import { runWithOksaiContext } from '@oksai/context';
+import {
+	configureOksaiTracing,
+	getOksaiRequestContextFromCurrent,
+	resetOksaiTracing,
+	runWithOksaiContext,
+	type OksaiSpanData
+} from '@oksai/context';
 import { withOksaiWorkerContext, withOksaiWorkerContextFromJob } from './worker-context.util';
 
+const TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
 describe('withOksaiWorkerContext', () => {
 	it('should call runWithOksaiContext with extracted context and forward handler return value', async () => {
 		const handler = jest.fn(async (n: number) => n + 1);
@@ -48,4 +56,74 @@ describe('withOksaiWorkerContextFromJob', () => {
 			expect.any(Function)
 		);
 	});
+
+	it('should restore a valid traceparent/tracestate from the job', async () => {
+		const wrapped = withOksaiWorkerContextFromJob(
+			async (_job: { tenantId: string; traceparent?: string; tracestate?: string }) => 'ok'
+		);
+
+		await wrapped({ tenantId: 't-003', traceparent: TRACEPARENT, tracestate: 'vendor=abc' });
+		await wrapped({ tenantId: 't-004', traceparent: 'garbage' });
+
+		expect(runWithOksaiContext).toHaveBeenCalledWith(
+			expect.objectContaining({ tenantId: 't-003', traceparent: TRACEPARENT, tracestate: 'vendor=abc' }),
+			expect.any(Function)
+		);
+		expect(runWithOksaiContext).toHaveBeenCalledWith(
+			expect.objectContaining({ tenantId: 't-004', traceparent: undefined }),
+			expect.any(Function)
+		);
+	});
+
+	describe('span option', () => {
+		let spans: OksaiSpanData[];
+
+		beforeEach(() => {
+			spans = [];
+			configureOksaiTracing({ serviceName: 'test', exporter: { export: (batch) => void spans.push(...batch) } });
+		});
+
+		afterEach(() => {
+			resetOksaiTracing();
+		});
+
+		it('should run the handler in a consumer span whose parent is the job traceparent', async () => {
+			const actual = jest.requireActual('@oksai/context');
+			(runWithOksaiContext as jest.Mock).mockImplementation(actual.runWithOksaiContext);
+
+			const wrapped = withOksaiWorkerContextFromJob(
+				async (_job: { eventName: string; traceparent: string }) => getOksaiRequestContextFromCurrent(),
+				{
+					span: {
+						name: (job) => `process ${job.eventName}`,
+						attributes: (job) => ({ 'oksai.event_name': job.eventName })
+					}
+				}
+			);
+
+			const ctx = await wrapped({ eventName: 'tenant.created', traceparent: TRACEPARENT });
+
+			expect(spans).toHaveLength(1);
+			expect(spans[0]).toMatchObject({
+				name: 'process tenant.created',
+				kind: 'consumer',
+				traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+				parentSpanId: '00f067aa0ba902b7',
+				attributes: { 'oksai.event_name': 'tenant.created' }
+			});
+			expect(ctx.traceparent).toBe(`00-${spans[0].traceId}-${spans[0].spanId}-01`);
+		});
+
+		it('should record the handler error on the span and rethrow', async () => {
+			const wrapped = withOksaiWorkerContextFromJob(
+				async () => {
+					throw new Error('handler failed');
+				},
+				{ span: { name: 'process failing' } }
+			);
+
+			await expect(wrapped({})).rejects.toThrow('handler failed');
+			expect(spans[0].status).toEqual({ code: 'error', message: 'handler failed' });
+		});
+	});
 });
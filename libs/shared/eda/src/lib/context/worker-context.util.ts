@@ -1,4 +1,12 @@
-import { runWithOksaiContext, type OksaiRequestContext } from '@oksai/context';
+import {
+	formatOksaiTraceparent,
+	parseOksaiTraceparent,
+	runInOksaiSpan,
+	runWithOksaiContext,
+	type OksaiRequestContext,
+	type OksaiSpanAttributes,
+	type OksaiSpanKind
+} from '@oksai/context';
 
 /**
  * @description 为 Worker/非 HTTP 场景的 handler 注入 Oksai CLS 上下文（tenant/user/locale/requestId）
@@ -39,7 +47,27 @@ export function withOksaiWorkerContext<TArgs extends unknown[], TResult>(
 	};
 }
 
-export interface WithOksaiWorkerContextFromJobOptions {
+/**
+ * @description Worker span 配置
+ */
+export interface OksaiWorkerSpanOptions<TJob> {
+	/**
+	 * @description span 名称（可按 job 生成，例如 `process tenant.created`）
+	 */
+	name: string | ((job: TJob) => string);
+
+	/**
+	 * @description span 类型（默认 consumer）
+	 */
+	kind?: OksaiSpanKind;
+
+	/**
+	 * @description 从 job 提取 span 属性（可选）
+	 */
+	attributes?: (job: TJob) => OksaiSpanAttributes;
+}
+
+export interface WithOksaiWorkerContextFromJobOptions<TJob = unknown> {
 	/**
 	 * @description 从 job/message 对象读取 tenantId 的字段名（默认 tenantId）
 	 */
@@ -59,12 +87,31 @@ export interface WithOksaiWorkerContextFromJobOptions {
 	 * @description 从 job/message 对象读取 locale 的字段名（默认 locale）
 	 */
 	localeKey?: string;
+
+	/**
+	 * @description 从 job/message 对象读取 W3C traceparent 的字段名（默认 traceparent）
+	 */
+	traceparentKey?: string;
+
+	/**
+	 * @description 从 job/message 对象读取 W3C tracestate 的字段名（默认 tracestate）
+	 */
+	tracestateKey?: string;
+
+	/**
+	 * @description 为每次执行创建 span（可选；父 span 为 job 中的 traceparent，缺失时为根 span）
+	 */
+	span?: OksaiWorkerSpanOptions<TJob>;
 }
 
 /**
  * @description Worker 场景便捷包装：从第一个参数（job/message）读取上下文字段并注入 CLS
  *
- * 约定：job/message 的字段名默认为 `tenantId/userId/requestId/locale`，可通过 options 覆盖。
+ * 约定：job/message 的字段名默认为 `tenantId/userId/requestId/locale/traceparent/tracestate`，可通过 options 覆盖。
+ *
+ * 链路追踪：
+ * - 合法的 `traceparent` 会写入 CLS，handler 内新产生的 span/集成事件以它为父（非法值直接忽略）
+ * - 配置 `span` 时为每次执行创建 consumer span，失败时记录异常
  *
  * @example
  * ```ts
@@ -73,24 +120,46 @@ export interface WithOksaiWorkerContextFromJobOptions {
  * const handle = withOksaiWorkerContextFromJob(async (job: Job) => {
  *   // 在这里：logger/db 都能读取到 tenantId/userId/requestId/locale
  * });
+ *
+ * const handleEvent = withOksaiWorkerContextFromJob(async (job: Job & { eventName: string }) => {}, {
+ *   span: { name: (job) => `process ${job.eventName}` }
+ * });
  * ```
  */
 export function withOksaiWorkerContextFromJob<TJob, TResult>(
 	handler: (job: TJob) => TResult,
-	options: WithOksaiWorkerContextFromJobOptions = {}
+	options: WithOksaiWorkerContextFromJobOptions<TJob> = {}
 ): (job: TJob) => TResult {
 	const tenantIdKey = options.tenantIdKey ?? 'tenantId';
 	const userIdKey = options.userIdKey ?? 'userId';
 	const requestIdKey = options.requestIdKey ?? 'requestId';
 	const localeKey = options.localeKey ?? 'locale';
+	const traceparentKey = options.traceparentKey ?? 'traceparent';
+	const tracestateKey = options.tracestateKey ?? 'tracestate';
+	const span = options.span;
+
+	const traced = span
+		? (job: TJob): TResult =>
+				runInOksaiSpan(
+					typeof span.name === 'function' ? span.name(job) : span.name,
+					{ kind: span.kind ?? 'consumer', attributes: span.attributes?.(job) },
+					() => handler(job)
+				)
+		: handler;
 
 	return withOksaiWorkerContext((job: TJob): OksaiRequestContext => {
 		const anyJob = job as unknown as Record<string, unknown>;
+		const trace = parseOksaiTraceparent(
+			typeof anyJob[traceparentKey] === 'string' ? (anyJob[traceparentKey] as string) : undefined,
+			typeof anyJob[tracestateKey] === 'string' ? (anyJob[tracestateKey] as string) : undefined
+		);
 		return {
 			tenantId: typeof anyJob[tenantIdKey] === 'string' ? (anyJob[tenantIdKey] as string) : undefined,
 			userId: typeof anyJob[userIdKey] === 'string' ? (anyJob[userIdKey] as string) : undefined,
 			requestId: typeof anyJob[requestIdKey] === 'string' ? (anyJob[requestIdKey] as string) : undefined,
-			locale: typeof anyJob[localeKey] === 'string' ? (anyJob[localeKey] as string) : undefined
+			locale: typeof anyJob[localeKey] === 'string' ? (anyJob[localeKey] as string) : undefined,
+			traceparent: trace ? formatOksaiTraceparent(trace) : undefined,
+			tracestate: trace?.traceState
 		};
-	}, handler);
+	}, traced);
 }
@@ -1,4 +1,11 @@
-import { KafkaIntegrationEventConsumer } from './kafka-event-consumer';
+import {
+	configureOksaiTracing,
+	getOksaiRequestContextFromCurrent,
+	resetOksaiTracing,
+	type OksaiSpanData
+} from '@oksai/context';
+import * as loader from './kafka.loader';
+import { KAFKA_RETRY_HEADERS, KafkaIntegrationEventConsumer } from './kafka-event-consumer';
 
 describe('KafkaIntegrationEventConsumer.fromEnv', () => {
 	const logger = { error: jest.fn(), log: jest.fn(), warn: jest.fn(), debug: jest.fn() } as any;
@@ -37,3 +44,205 @@ describe('KafkaIntegrationEventConsumer.fromEnv', () => {
 		expect(c).not.toBeNull();
 	});
 });
+
+describe('KafkaIntegrationEventConsumer retry topics', () => {
+	const logger = { error: jest.fn(), log: jest.fn(), warn: jest.fn(), debug: jest.fn() } as any;
+
+	const envelope = {
+		eventId: 'evt-1',
+		eventName: 'tenant.user.invited',
+		eventVersion: 1,
+		tenantId: 't-1',
+		partitionKey: 't-1'
+	};
+
+	function createKafkaMock() {
+		const consumer = {
+			connect: jest.fn(),
+			disconnect: jest.fn(),
+			subscribe: jest.fn(),
+			run: jest.fn(),
+			commitOffsets: jest.fn(),
+			pause: jest.fn(),
+			resume: jest.fn(),
+			seek: jest.fn()
+		};
+		const producer = { connect: jest.fn(), disconnect: jest.fn(), send: jest.fn() };
+		jest.spyOn(loader, 'loadKafkaJs').mockReturnValue({
+			Kafka: jest.fn(() => ({ consumer: () => consumer, producer: () => producer })) as any
+		});
+		return { consumer, producer };
+	}
+
+	async function startConsumer(onEvent: jest.Mock) {
+		const mock = createKafkaMock();
+		const c = new KafkaIntegrationEventConsumer({
+			logger,
+			enabled: true,
+			brokers: ['localhost:9092'],
+			clientId: 'test',
+			groupId: 'g1',
+			topic: 'events',
+			retryDelaysMs: [60_000, 600_000],
+			dlqTopic: 'events.dlq'
+		});
+		await c.start({ onEvent });
+		const eachMessage = mock.consumer.run.mock.calls[0][0].eachMessage;
+		return { ...mock, eachMessage };
+	}
+
+	function createMessage(headers: Record<string, unknown> = {}, value: string = JSON.stringify(envelope)) {
+		return { key: 't-1', value: Buffer.from(value), offset: '41', headers: { 'event-id': 'evt-1', ...headers } };
+	}
+
+	beforeEach(() => {
+		jest.restoreAllMocks();
+		jest.clearAllMocks();
+	});
+
+	it('should subscribe to main and retry topics', async () => {
+		const { consumer } = await startConsumer(jest.fn());
+
+		expect(consumer.subscribe.mock.calls.map((c) => c[0].topic)).toEqual([
+			'events',
+			'events.retry.1',
+			'events.retry.2'
+		]);
+	});
+
+	it('should forward failed message to first retry topic and commit offset', async () => {
+		const { producer, consumer, eachMessage } = await startConsumer(jest.fn().mockRejectedValue(new Error('boom')));
+
+		await eachMessage({ topic: 'events', partition: 3, message: createMessage() });
+
+		const sent = producer.send.mock.calls[0][0];
+		expect(sent.topic).toBe('events.retry.1');
+		expect(sent.messages[0].key).toBe('t-1');
+		expect(sent.messages[0].headers).toMatchObject({
+			'event-id': 'evt-1',
+			[KAFKA_RETRY_HEADERS.attempt]: '1',
+			[KAFKA_RETRY_HEADERS.originalTopic]: 'events',
+			[KAFKA_RETRY_HEADERS.originalPartition]: '3',
+			[KAFKA_RETRY_HEADERS.originalOffset]: '41',
+			[KAFKA_RETRY_HEADERS.error]: 'boom'
+		});
+		expect(Number(sent.messages[0].headers[KAFKA_RETRY_HEADERS.notBefore])).toBeGreaterThan(Date.now());
+		expect(consumer.commitOffsets).toHaveBeenCalledWith([{ topic: 'events', partition: 3, offset: '42' }]);
+		expect(consumer.pause).not.toHaveBeenCalled();
+	});
+
+	it('should move message to DLQ after last retry topic, keeping original headers', async () => {
+		const { producer, eachMessage } = await startConsumer(jest.fn().mockRejectedValue(new Error('still failing')));
+
+		await eachMessage({
+			topic: 'events.retry.2',
+			partition: 0,
+			message: createMessage({
+				[KAFKA_RETRY_HEADERS.attempt]: Buffer.from('2'),
+				[KAFKA_RETRY_HEADERS.originalTopic]: 'events',
+				[KAFKA_RETRY_HEADERS.notBefore]: String(Date.now() - 1)
+			})
+		});
+
+		const sent = producer.send.mock.calls[0][0];
+		expect(sent.topic).toBe('events.dlq');
+		expect(sent.messages[0].headers[KAFKA_RETRY_HEADERS.attempt]).toBe('3');
+		expect(sent.messages[0].headers[KAFKA_RETRY_HEADERS.originalTopic]).toBe('events');
+		expect(sent.messages[0].headers[KAFKA_RETRY_HEADERS.error]).toBe('still failing');
+		expect(sent.messages[0].headers[KAFKA_RETRY_HEADERS.notBefore]).toBeUndefined();
+	});
+
+	it('should pause retry partition until not-before without handling', async () => {
+		jest.useFakeTimers();
+		try {
+			const onEvent = jest.fn();
+			const { consumer, eachMessage } = await startConsumer(onEvent);
+
+			await eachMessage({
+				topic: 'events.retry.1',
+				partition: 1,
+				message: createMessage({ [KAFKA_RETRY_HEADERS.notBefore]: String(Date.now() + 5000) })
+			});
+
+			expect(onEvent).not.toHaveBeenCalled();
+			expect(consumer.pause).toHaveBeenCalledWith([{ topic: 'events.retry.1', partitions: [1] }]);
+			expect(consumer.seek).toHaveBeenCalledWith({ topic: 'events.retry.1', partition: 1, offset: '41' });
+			expect(consumer.commitOffsets).not.toHaveBeenCalled();
+
+			jest.advanceTimersByTime(5000);
+			expect(consumer.resume).toHaveBeenCalledWith([{ topic: 'events.retry.1', partitions: [1] }]);
+		} finally {
+			jest.useRealTimers();
+		}
+	});
+
+	it('should accept CloudEvents binary messages', async () => {
+		const onEvent = jest.fn().mockResolvedValue(undefined);
+		const { consumer, eachMessage } = await startConsumer(onEvent);
+
+		await eachMessage({
+			topic: 'events',
+			partition: 0,
+			message: createMessage(
+				{
+					ce_specversion: Buffer.from('1.0'),
+					ce_id: Buffer.from('evt-ce'),
+					ce_type: Buffer.from('tenant.user.invited'),
+					ce_source: Buffer.from('platform-api'),
+					ce_tenantid: Buffer.from('t-1'),
+					ce_partitionkey: Buffer.from('t-1'),
+					ce_eventversion: Buffer.from('1')
+				},
+				JSON.stringify({ userId: 'u-1' })
+			)
+		});
+
+		expect(onEvent.mock.calls[0][0]).toMatchObject({
+			eventId: 'evt-ce',
+			eventName: 'tenant.user.invited',
+			source: 'platform-api',
+			data: { userId: 'u-1' }
+		});
+		expect(consumer.commitOffsets).toHaveBeenCalledWith([{ topic: 'events', partition: 0, offset: '42' }]);
+	});
+
+	it('should run onEvent in a consumer span parented by the traceparent header', async () => {
+		const spans: OksaiSpanData[] = [];
+		configureOksaiTracing({ serviceName: 'test', exporter: { export: (batch) => void spans.push(...batch) } });
+		try {
+			const onEvent = jest.fn(async () => getOksaiRequestContextFromCurrent());
+			const { eachMessage } = await startConsumer(onEvent);
+
+			await eachMessage({
+				topic: 'events',
+				partition: 0,
+				message: createMessage({
+					traceparent: Buffer.from('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')
+				})
+			});
+
+			expect(spans[0]).toMatchObject({
+				name: 'process tenant.user.invited',
+				kind: 'consumer',
+				traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+				parentSpanId: '00f067aa0ba902b7',
+				attributes: { 'messaging.system': 'kafka', 'messaging.destination.name': 'events' }
+			});
+			await expect(onEvent.mock.results[0].value).resolves.toMatchObject({
+				tenantId: 't-1',
+				traceparent: `00-4bf92f3577b34da6a3ce929d0e0e4736-${spans[0].spanId}-01`
+			});
+		} finally {
+			resetOksaiTracing();
+		}
+	});
+
+	it('should send unparseable message to DLQ', async () => {
+		const { producer, consumer, eachMessage } = await startConsumer(jest.fn());
+
+		await eachMessage({ topic: 'events', partition: 0, message: createMessage({}, '{not json') });
+
+		expect(producer.send.mock.calls[0][0].topic).toBe('events.dlq');
+		expect(consumer.commitOffsets).toHaveBeenCalled();
+	});
+});
@@ -1,7 +1,8 @@
 import { parseOksaiIntegrationEvent, type OksaiIntegrationEvent } from '@oksai/contracts';
-import type { KafkaConsumerLike } from './kafka.loader';
+import { withOksaiWorkerContextFromJob } from '../context/worker-context.util';
+import type { KafkaConsumerLike, KafkaProducerLike } from './kafka.loader';
 import { loadKafkaJs } from './kafka.loader';
-import { parseKafkaEnvConfig } from './kafka.config';
+import { buildKafkaRetryTopicNames, parseKafkaEnvConfig } from './kafka.config';
 import type { KafkaLogger } from './kafka-event-producer';
 
 /**
@@ -37,6 +38,16 @@ export interface KafkaIntegrationEventConsumerOptions {
 	 * @description Kafka topic
 	 */
 	topic: string;
+
+	/**
+	 * @description 重试阶梯（每级延迟毫秒数；默认空数组，即暂停分区原地退避重试）
+	 */
+	retryDelaysMs?: number[];
+
+	/**
+	 * @description 死信 topic（可选）
+	 */
+	dlqTopic?: string;
 }
 
 /**
@@ -45,6 +56,9 @@ export interface KafkaIntegrationEventConsumerOptions {
 export interface KafkaIntegrationEventConsumerStartOptions {
 	/**
 	 * @description 处理消息回调（已解析并校验为 OksaiIntegrationEvent）
+	 *
+	 * 回调在信封上下文（tenantId/actorId/requestId）与 consumer span 中执行；
+	 * 父 span 优先取 `traceparent` 消息头，缺失时取信封中的值
 	 */
 	onEvent: (envelope: OksaiIntegrationEvent) => Promise<void>;
 }
@@ -55,30 +69,67 @@ export interface KafkaIntegrationEventConsumerStartOptions {
 type EachMessagePayloadLike = {
 	topic: string;
 	partition: number;
-	message: { value?: { toString: (encoding: string) => string } | null; offset: string };
+	message: {
+		key?: unknown;
+		value?: { toString: (encoding: string) => string } | null;
+		offset: string;
+		headers?: Record<string, unknown>;
+	};
 	heartbeat?: () => Promise<void>;
 };
 
+/**
+ * @description 重试/死信消息头
+ *
+ * 说明：
+ * - 转发时保留原消息的全部 headers，并追加以下字段
+ * - original-* 只在首次转发时写入，后续转发保持不变
+ */
+export const KAFKA_RETRY_HEADERS = {
+	attempt: 'x-oksai-retry-attempt',
+	notBefore: 'x-oksai-retry-not-before',
+	originalTopic: 'x-oksai-original-topic',
+	originalPartition: 'x-oksai-original-partition',
+	originalOffset: 'x-oksai-original-offset',
+	error: 'x-oksai-error',
+	failedAt: 'x-oksai-failed-at'
+} as const;
+
 /**
  * @description Kafka 集成事件 Consumer（P1：最小可运行）
  *
  * 业务定位：
  * - 从 Kafka topic 消费集成事件信封，并回调给业务方处理
  *
+ * 失败处理：
+ * - 未配置重试阶梯与死信 topic：暂停分区原地退避后重试（不提交 offset）
+ * - 配置重试阶梯：失败消息转发到下一级 `${topic}.retry.N` 并提交 offset，主分区继续消费；
+ *   重试 topic 的消息到达 not-before 时间前暂停该分区
+ * - 配置死信 topic：重试耗尽或信封非法的消息转入死信 topic（附原 headers 与失败原因）
+ * - 转发失败时退化为原地退避，保证消息不丢
+ *
  * 注意事项：
  * - `kafkajs` 为 optionalDependencies：仅在 enabled=true 时动态加载
  * - 本 consumer 只负责"拉取 + 解析/校验 + 回调"，不直接耦合 Outbox/Inbox（由上层 worker 负责）
+ * - 同时接受 Oksai 原生信封与 CloudEvents 1.0（structured / binary）消息
+ * - 重试 topic 与主 topic 使用同一 groupId 订阅，运维需预先创建
  */
 export class KafkaIntegrationEventConsumer {
 	private readonly enabled: boolean;
 	private readonly logger: KafkaLogger;
 	private readonly topic: string;
+	private readonly retryDelaysMs: number[];
+	private readonly retryTopics: string[];
 	private consumer: KafkaConsumerLike | null = null;
+	private producer: KafkaProducerLike | null = null;
+	private readonly resumeTimers = new Set<NodeJS.Timeout>();
 
 	constructor(private readonly options: KafkaIntegrationEventConsumerOptions) {
 		this.enabled = options.enabled ?? false;
 		this.logger = options.logger;
 		this.topic = options.topic;
+		this.retryDelaysMs = options.retryDelaysMs ?? [];
+		this.retryTopics = buildKafkaRetryTopicNames(options.topic, this.retryDelaysMs);
 	}
 
 	/**
@@ -107,7 +158,9 @@ export class KafkaIntegrationEventConsumer {
 			brokers: cfg.brokers,
 			clientId: cfg.clientId,
 			groupId,
-			topic
+			topic,
+			retryDelaysMs: cfg.retryDelaysMs,
+			dlqTopic: cfg.dlqTopic
 		});
 	}
 
@@ -128,68 +181,29 @@ export class KafkaIntegrationEventConsumer {
 
 		this.consumer = kafka.consumer({ groupId: this.options.groupId });
 		await this.consumer.connect();
-		await this.consumer.subscribe({ topic: this.topic, fromBeginning: false });
+		for (const topic of [this.topic, ...this.retryTopics]) {
+			await this.consumer.subscribe({ topic, fromBeginning: false });
+		}
+		if (this.retryTopics.length > 0 || this.options.dlqTopic) {
+			this.producer = kafka.producer();
+			await this.producer.connect();
+		}
 
 		this.logger.log(
 			{
 				clientId: this.options.clientId,
 				brokers: this.options.brokers,
 				topic: this.topic,
-				groupId: this.options.groupId
+				groupId: this.options.groupId,
+				retryTopics: this.retryTopics,
+				dlqTopic: this.options.dlqTopic
 			},
 			'Kafka Consumer 已启动。'
 		);
 
 		await this.consumer.run({
 			autoCommit: false,
-			eachMessage: async ({ topic, partition, message, heartbeat }: EachMessagePayloadLike) => {
-				if (!message.value) {
-					this.logger.warn({ topic, partition }, 'Kafka 消息 value 为空，已跳过。');
-					await this.commitOffsetSafely(topic, partition, message.offset);
-					return;
-				}
-
-				let envelope: OksaiIntegrationEvent;
-				try {
-					const raw = message.value.toString('utf8');
-					envelope = parseOksaiIntegrationEvent(JSON.parse(raw));
-				} catch (e) {
-					const errMsg = e instanceof Error ? e.message : String(e);
-					this.logger.error(
-						{
-							topic,
-							partition,
-							offset: message.offset,
-							err: errMsg
-						},
-						'Kafka 消息解析为集成事件信封失败，已跳过（避免阻塞分区）。'
-					);
-					await this.commitOffsetSafely(topic, partition, message.offset);
-					return;
-				}
-
-				try {
-					await input.onEvent(envelope);
-				} catch (e) {
-					const errMsg = e instanceof Error ? e.message : String(e);
-					this.logger.error(
-						{
-							topic,
-							partition,
-							offset: message.offset,
-							tenantId: envelope.tenantId,
-							eventId: envelope.eventId,
-							eventName: envelope.eventName,
-							err: errMsg
-						},
-						'Kafka 消息处理失败，将触发重试（不提交 offset）。'
-					);
-					await this.backoffPartitionSafely(topic, partition, heartbeat);
-					return;
-				}
-
-				await this.commitOffsetSafely(topic, partition, message.offset);
-			}
+			eachMessage: (payload: EachMessagePayloadLike) => this.handleMessage(payload, input)
 		});
 	}
 
@@ -198,11 +212,209 @@ export class KafkaIntegrationEventConsumer {
 	 */
 	async stop(): Promise<void> {
 		if (!this.consumer) return;
+		for (const timer of this.resumeTimers) clearTimeout(timer);
+		this.resumeTimers.clear();
 		await this.consumer.disconnect();
 		this.consumer = null;
+		await this.producer?.disconnect();
+		this.producer = null;
 		this.logger.log('Kafka Consumer 已停止。');
 	}
 
+	private async handleMessage(
+		{ topic, partition, message, heartbeat }: EachMessagePayloadLike,
+		input: KafkaIntegrationEventConsumerStartOptions
+	): Promise<void> {
+		const retryIndex = this.retryTopics.indexOf(topic);
+		if (retryIndex >= 0) {
+			const notBefore = Number(readHeader(message.headers, KAFKA_RETRY_HEADERS.notBefore));
+			if (Number.isFinite(notBefore) && notBefore > Date.now()) {
+				if (this.deferPartition(topic, partition, message.offset, notBefore)) return;
+				await sleepWithHeartbeat(notBefore - Date.now(), heartbeat);
+			}
+		}
+
+		if (!message.value) {
+			this.logger.warn({ topic, partition }, 'Kafka 消息 value 为空，已跳过。');
+			await this.commitOffsetSafely(topic, partition, message.offset);
+			return;
+		}
+
+		let envelope: OksaiIntegrationEvent;
+		try {
+			const raw = message.value.toString('utf8');
+			envelope = parseOksaiIntegrationEvent(JSON.parse(raw), { headers: message.headers });
+		} catch (e) {
+			const errMsg = e instanceof Error ? e.message : String(e);
+			this.logger.error(
+				{
+					topic,
+					partition,
+					offset: message.offset,
+					err: errMsg
+				},
+				'Kafka 消息解析为集成事件信封失败，已跳过（避免阻塞分区）。'
+			);
+			if (this.options.dlqTopic) {
+				await this.forwardSafely(this.options.dlqTopic, { topic, partition, message }, errMsg);
+			}
+			await this.commitOffsetSafely(topic, partition, message.offset);
+			return;
+		}
+
+		const traceparentHeader = readHeader(message.headers, 'traceparent');
+		const consume = withOksaiWorkerContextFromJob(() => input.onEvent(envelope), {
+			userIdKey: 'actorId',
+			span: {
+				name: `process ${envelope.eventName}`,
+				attributes: () => ({
+					'messaging.system': 'kafka',
+					'messaging.operation': 'process',
+					'messaging.destination.name': topic,
+					'messaging.kafka.destination.partition': partition,
+					'messaging.kafka.message.offset': message.offset,
+					'messaging.message.id': envelope.eventId,
+					'oksai.tenant_id': envelope.tenantId
+				})
+			}
+		});
+
+		try {
+			await consume({
+				...envelope,
+				traceparent: traceparentHeader ?? envelope.traceparent,
+				tracestate: traceparentHeader ? readHeader(message.headers, 'tracestate') : envelope.tracestate
+			});
+		} catch (e) {
+			const errMsg = e instanceof Error ? e.message : String(e);
+			const attempt = retryIndex + 1;
+			const target =
+				attempt < this.retryTopics.length
+					? { topic: this.retryTopics[attempt], delayMs: this.retryDelaysMs[attempt] }
+					: this.options.dlqTopic
+						? { topic: this.options.dlqTopic }
+						: undefined;
+			this.logger.error(
+				{
+					topic,
+					partition,
+					offset: message.offset,
+					tenantId: envelope.tenantId,
+					eventId: envelope.eventId,
+					eventName: envelope.eventName,
+					attempt,
+					forwardTo: target?.topic,
+					err: errMsg
+				},
+				target
+					? `Kafka 消息处理失败，转发到 ${target.topic}。`
+					: 'Kafka 消息处理失败，将触发重试（不提交 offset）。'
+			);
+			if (
+				target &&
+				(await this.forwardSafely(target.topic, { topic, partition, message }, errMsg, target.delayMs))
+			) {
+				await this.commitOffsetSafely(topic, partition, message.offset);
+				return;
+			}
+			await this.backoffPartitionSafely(topic, partition, heartbeat);
+			this.seekSafely(topic, partition, message.offset);
+			return;
+		}
+
+		await this.commitOffsetSafely(topic, partition, message.offset);
+	}
+
+	/**
+	 * @description 转发消息到重试/死信 topic（保留 key 与原 headers）
+	 *
+	 * @param targetTopic - 目标 topic
+	 * @param source - 原消息
+	 * @param errMsg - 失败原因
+	 * @param delayMs - 重试延迟（仅重试 topic）
+	 * @returns 是否转发成功
+	 */
+	private async forwardSafely(
+		targetTopic: string,
+		source: Pick<EachMessagePayloadLike, 'topic' | 'partition' | 'message'>,
+		errMsg: string,
+		delayMs?: number
+	): Promise<boolean> {
+		if (!this.producer) return false;
+		const headers: Record<string, unknown> = { ...(source.message.headers ?? {}) };
+		const attempt = Number(readHeader(headers, KAFKA_RETRY_HEADERS.attempt) ?? 0) + 1;
+		headers[KAFKA_RETRY_HEADERS.originalTopic] ??= source.topic;
+		headers[KAFKA_RETRY_HEADERS.originalPartition] ??= String(source.partition);
+		headers[KAFKA_RETRY_HEADERS.originalOffset] ??= source.message.offset;
+		headers[KAFKA_RETRY_HEADERS.attempt] = String(attempt);
+		headers[KAFKA_RETRY_HEADERS.error] = errMsg.slice(0, 2000);
+		headers[KAFKA_RETRY_HEADERS.failedAt] = new Date().toISOString();
+		if (delayMs === undefined) delete headers[KAFKA_RETRY_HEADERS.notBefore];
+		else headers[KAFKA_RETRY_HEADERS.notBefore] = String(Date.now() + delayMs);
+
+		try {
+			await this.producer.send({
+				topic: targetTopic,
+				messages: [
+					{ key: source.message.key ?? null, value: source.message.value?.toString('utf8') ?? null, headers }
+				]
+			});
+			return true;
+		} catch (e) {
+			this.logger.error(
+				{
+					topic: source.topic,
+					partition: source.partition,
+					offset: source.message.offset,
+					targetTopic,
+					err: e instanceof Error ? e.message : String(e)
+				},
+				'Kafka 消息转发失败，退化为原地退避重试。'
+			);
+			return false;
+		}
+	}
+
+	/**
+	 * @description 重试消息未到期：暂停分区并回拨 offset，到期后恢复
+	 *
+	 * @returns 是否已暂停（底层 consumer 不支持 pause/resume/seek 时返回 false）
+	 */
+	private deferPartition(topic: string, partition: number, offset: string, notBefore: number): boolean {
+		const consumer = this.consumer;
+		if (!consumer?.pause || !consumer.resume || !consumer.seek) return false;
+		try {
+			consumer.pause([{ topic, partitions: [partition] }]);
+			consumer.seek({ topic, partition, offset });
+		} catch (e) {
+			const errMsg = e instanceof Error ? e.message : String(e);
+			this.logger.warn({ topic, partition, err: errMsg }, '暂停 Kafka 重试分区失败，将退化为 sleep 等待。');
+			return false;
+		}
+		const timer = setTimeout(() => {
+			this.resumeTimers.delete(timer);
+			try {
+				consumer.resume?.([{ topic, partitions: [partition] }]);
+			} catch (e) {
+				const errMsg = e instanceof Error ? e.message : String(e);
+				this.logger.warn({ topic, partition, err: errMsg }, '恢复 Kafka 分区失败（将等待自动重平衡恢复）。');
+			}
+		}, notBefore - Date.now());
+		this.resumeTimers.add(timer);
+		return true;
+	}
+
+	/**
+	 * @description 回拨到失败消息的 offset，退避结束后重新拉取（原地重试）
+	 */
+	private seekSafely(topic: string, partition: number, offset: string): void {
+		try {
+			this.consumer?.seek?.({ topic, partition, offset });
+		} catch {
+			// 回拨失败时依赖未提交的 offset 在重平衡后恢复
+		}
+	}
+
 	private async commitOffsetSafely(topic: string, partition: number, offset: string): Promise<void> {
 		if (!this.consumer?.commitOffsets) return;
 		try {
@@ -300,3 +512,17 @@ async function sleepWithHeartbeat(ms: number, heartbeat?: () => Promise<void>):
 		}
 	}
 }
+
+/**
+ * @description 读取字符串形式的消息头（kafkajs 的 header 值可能为 Buffer 或数组）
+ *
+ * @param headers - 消息头
+ * @param name - 头名称
+ * @returns 字符串值；不存在时返回 undefined
+ */
+function readHeader(headers: Record<string, unknown> | undefined, name: string): string | undefined {
+	const value = headers?.[name];
+	const first = Array.isArray(value) ? value[0] : value;
+	if (first === undefined || first === null) return undefined;
+	return typeof first === 'string' ? first : String(first);
+}
@@ -1,3 +1,5 @@
+import { runWithOksaiContext } from '@oksai/context';
+import * as loader from './kafka.loader';
 import { KafkaIntegrationEventProducer } from './kafka-event-producer';
 
 describe('KafkaIntegrationEventProducer.fromEnv', () => {
@@ -37,3 +39,91 @@ describe('KafkaIntegrationEventProducer.fromEnv', () => {
 		expect(p).not.toBeNull();
 	});
 });
+
+describe('KafkaIntegrationEventProducer CloudEvents', () => {
+	const logger = { error: jest.fn(), log: jest.fn(), warn: jest.fn(), debug: jest.fn() } as any;
+
+	const envelope = {
+		eventId: 'evt-1',
+		eventName: 'tenant.user.invited',
+		eventVersion: 1,
+		tenantId: 't-1',
+		partitionKey: 't-1',
+		source: 'platform-api',
+		data: { userId: 'u-1' }
+	};
+
+	async function publishWith(cloudEventsMode?: 'structured' | 'binary', event: typeof envelope = envelope) {
+		const producer = { connect: jest.fn(), disconnect: jest.fn(), send: jest.fn() };
+		jest.spyOn(loader, 'loadKafkaJs').mockReturnValue({
+			Kafka: jest.fn(() => ({ producer: () => producer })) as any
+		});
+		const p = new KafkaIntegrationEventProducer({
+			logger,
+			enabled: true,
+			brokers: ['localhost:9092'],
+			clientId: 'test',
+			topic: 'events',
+			cloudEventsMode
+		});
+		await p.connect();
+		await p.publish(event);
+		return producer.send.mock.calls[0][0].messages[0];
+	}
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('should send native envelope by default', async () => {
+		const message = await publishWith();
+
+		expect(JSON.parse(message.value)).toEqual(envelope);
+		expect(message.headers['content-type']).toBeUndefined();
+	});
+
+	it('should send structured CloudEvent', async () => {
+		const message = await publishWith('structured');
+
+		expect(message.key).toBe('t-1');
+		expect(message.headers['content-type']).toBe('application/cloudevents+json');
+		expect(JSON.parse(message.value)).toMatchObject({
+			specversion: '1.0',
+			id: 'evt-1',
+			type: 'tenant.user.invited',
+			source: 'platform-api',
+			tenantid: 't-1',
+			data: { userId: 'u-1' }
+		});
+	});
+
+	it('should send binary CloudEvent with ce_ headers', async () => {
+		const message = await publishWith('binary');
+
+		expect(JSON.parse(message.value)).toEqual({ userId: 'u-1' });
+		expect(message.headers).toMatchObject({
+			'event-id': 'evt-1',
+			'content-type': 'application/json',
+			ce_specversion: '1.0',
+			ce_id: 'evt-1',
+			ce_type: 'tenant.user.invited',
+			ce_tenantid: 't-1',
+			ce_eventversion: '1'
+		});
+	});
+
+	it('should carry traceparent header from the current span, falling back to the envelope', async () => {
+		const traced = { ...envelope, traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' };
+		const spanTraceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-b7ad6b7169203331-01';
+
+		const fromEnvelope = await publishWith(undefined, traced);
+		const fromSpan = await runWithOksaiContext({ traceparent: spanTraceparent, tracestate: 'vendor=abc' }, () =>
+			publishWith(undefined, traced)
+		);
+
+		expect(fromEnvelope.headers['traceparent']).toBe(traced.traceparent);
+		expect(fromEnvelope.headers['tracestate']).toBeUndefined();
+		expect(fromSpan.headers).toMatchObject({ traceparent: spanTraceparent, tracestate: 'vendor=abc' });
+		expect(JSON.parse(fromSpan.value).traceparent).toBe(traced.traceparent);
+	});
+});
@@ -1,4 +1,11 @@
-import type { OksaiIntegrationEvent } from '@oksai/contracts';
+import { getOksaiRequestContextFromCurrent } from '@oksai/context';
+import {
+	CLOUDEVENTS_STRUCTURED_CONTENT_TYPE,
+	encodeOksaiCloudEventBinary,
+	toOksaiCloudEvent,
+	type CloudEventsContentMode,
+	type OksaiIntegrationEvent
+} from '@oksai/contracts';
 import type { KafkaProducerLike } from './kafka.loader';
 import { loadKafkaJs } from './kafka.loader';
 import { parseKafkaEnvConfig } from './kafka.config';
@@ -41,6 +48,14 @@ export interface KafkaIntegrationEventProducerOptions {
 	 * @description Kafka topic
 	 */
 	topic: string;
+
+	/**
+	 * @description CloudEvents 内容模式（可选；未设置时 value 为 Oksai 原生信封 JSON）
+	 *
+	 * - structured：value 为完整 CloudEvent JSON，content-type 为 `application/cloudevents+json`
+	 * - binary：CloudEvents 属性写入 `ce_*` headers，value 为 data JSON
+	 */
+	cloudEventsMode?: CloudEventsContentMode;
 }
 
 /**
@@ -52,6 +67,8 @@ export interface KafkaIntegrationEventProducerOptions {
  * 注意事项：
  * - `kafkajs` 为 optionalDependencies：仅在 enabled=true 时动态加载
  * - 事件体为 JSON 字符串；message.key 使用 envelope.partitionKey（确保同一 tenant 顺序性）
+ * - 配置 cloudEventsMode 时按 CloudEvents 1.0 Kafka 绑定编码（供合作方消费）；event-id 等 headers 在所有模式下保留
+ * - `traceparent/tracestate` headers 优先取当前 span（例如 Outbox 发布器的 producer span），缺失时取信封中的值
  */
 export class KafkaIntegrationEventProducer {
 	private readonly enabled: boolean;
@@ -88,7 +105,8 @@ export class KafkaIntegrationEventProducer {
 			enabled: cfg.enabled,
 			brokers: cfg.brokers,
 			clientId: cfg.clientId,
-			topic
+			topic,
+			cloudEventsMode: cfg.cloudEventsMode
 		});
 	}
 
@@ -138,19 +156,31 @@ export class KafkaIntegrationEventProducer {
 			throw new Error('Kafka Producer 未连接：请先调用 connect()。');
 		}
 
+		const headers: Record<string, string> = {
+			'event-id': envelope.eventId,
+			'event-name': envelope.eventName,
+			'tenant-id': envelope.tenantId
+		};
+		const ctx = getOksaiRequestContextFromCurrent();
+		const traceparent = ctx.traceparent ?? envelope.traceparent;
+		const tracestate = ctx.traceparent ? ctx.tracestate : envelope.tracestate;
+		if (traceparent) headers['traceparent'] = traceparent;
+		if (tracestate) headers['tracestate'] = tracestate;
+		let value: string;
+		if (this.options.cloudEventsMode === 'binary') {
+			const encoded = encodeOksaiCloudEventBinary(envelope);
+			Object.assign(headers, encoded.headers);
+			value = encoded.body;
+		} else if (this.options.cloudEventsMode === 'structured') {
+			headers['content-type'] = CLOUDEVENTS_STRUCTURED_CONTENT_TYPE;
+			value = JSON.stringify(toOksaiCloudEvent(envelope));
+		} else {
+			value = JSON.stringify(envelope);
+		}
+
 		await this.producer.send({
 			topic: this.topic,
-			messages: [
-				{
-					key: envelope.partitionKey,
-					value: JSON.stringify(envelope),
-					headers: {
-						'event-id': envelope.eventId,
-						'event-name': envelope.eventName,
-						'tenant-id': envelope.tenantId
-					}
-				}
-			]
+			messages: [{ key: envelope.partitionKey, value, headers }]
 		});
 	}
 }
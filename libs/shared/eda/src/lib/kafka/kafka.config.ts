@@ -1,3 +1,4 @@
+import type { CloudEventsContentMode } from '@oksai/contracts';
 import { ConfigService } from '@oksai/config';
 
 /**
@@ -13,6 +14,21 @@ export interface OksaiKafkaConfig {
 	clientId: string;
 	topic: string;
 	groupId: string;
+
+	/**
+	 * @description 重试阶梯（每级延迟毫秒数，对应 `${topic}.retry.N`；空数组表示原地退避重试）
+	 */
+	retryDelaysMs: number[];
+
+	/**
+	 * @description 死信 topic（可选；重试耗尽或信封非法的消息转入此 topic）
+	 */
+	dlqTopic?: string;
+
+	/**
+	 * @description CloudEvents 内容模式（可选；未设置时使用 Oksai 原生信封 JSON）
+	 */
+	cloudEventsMode?: CloudEventsContentMode;
 }
 
 /**
@@ -24,6 +40,9 @@ export interface OksaiKafkaConfig {
  * - `kafka.clientId`：clientId（默认 `oksai`）
  * - `kafka.topic`：topic（默认 `oksai.integration-events`）
  * - `kafka.groupId`：consumer groupId（默认 `oksai.integration-consumer`）
+ * - `kafka.retryDelaysMs`：重试阶梯（逗号分隔毫秒数，例如 `60000,600000,3600000`；默认空）
+ * - `kafka.dlqTopic`：死信 topic（默认空，不启用）
+ * - `kafka.cloudEventsMode`：Producer 的 CloudEvents 内容模式（`structured` / `binary`；默认空，使用原生信封）
  *
  * @param configService - 配置服务实例
  * @returns Kafka 配置对象
@@ -44,8 +63,11 @@ export function parseKafkaConfig(configService: ConfigService): OksaiKafkaConfig
 	const groupId =
 		(configService.get<string>('kafka.groupId') ?? 'oksai.integration-consumer').trim() ||
 		'oksai.integration-consumer';
+	const retryDelaysMs = parseKafkaRetryDelays(configService.get<string>('kafka.retryDelaysMs'));
+	const dlqTopic = (configService.get<string>('kafka.dlqTopic') ?? '').trim() || undefined;
+	const cloudEventsMode = parseCloudEventsMode(configService.get<string>('kafka.cloudEventsMode'));
 
-	return { enabled, brokers, clientId, topic, groupId };
+	return { enabled, brokers, clientId, topic, groupId, retryDelaysMs, dlqTopic, cloudEventsMode };
 }
 
 /**
@@ -57,6 +79,9 @@ export function parseKafkaConfig(configService: ConfigService): OksaiKafkaConfig
  * - `KAFKA_CLIENT_ID`：clientId（默认 `oksai`）
  * - `KAFKA_INTEGRATION_TOPIC`：topic（默认 `oksai.integration-events`）
  * - `KAFKA_GROUP_ID`：consumer groupId（默认 `oksai.integration-consumer`）
+ * - `KAFKA_RETRY_DELAYS_MS`：重试阶梯（逗号分隔毫秒数；默认空）
+ * - `KAFKA_DLQ_TOPIC`：死信 topic（默认空，不启用）
+ * - `KAFKA_CLOUDEVENTS_MODE`：Producer 的 CloudEvents 内容模式（`structured` / `binary`；默认空，使用原生信封）
  *
  * @deprecated 请使用 parseKafkaConfig(configService) 替代
  * @returns Kafka 配置对象
@@ -75,6 +100,50 @@ export function parseKafkaEnvConfig(): OksaiKafkaConfig {
 	const topic =
 		(process.env.KAFKA_INTEGRATION_TOPIC ?? 'oksai.integration-events').trim() || 'oksai.integration-events';
 	const groupId = (process.env.KAFKA_GROUP_ID ?? 'oksai.integration-consumer').trim() || 'oksai.integration-consumer';
+	const retryDelaysMs = parseKafkaRetryDelays(process.env.KAFKA_RETRY_DELAYS_MS);
+	const dlqTopic = (process.env.KAFKA_DLQ_TOPIC ?? '').trim() || undefined;
+	const cloudEventsMode = parseCloudEventsMode(process.env.KAFKA_CLOUDEVENTS_MODE);
+
+	return { enabled, brokers, clientId, topic, groupId, retryDelaysMs, dlqTopic, cloudEventsMode };
+}
+
+/**
+ * @description 生成重试阶梯 topic 名称（`${topic}.retry.1` … `${topic}.retry.N`）
+ *
+ * 说明：
+ * - 运维需按此名称预先创建 topic（分区数建议与主 topic 一致）
+ *
+ * @param topic - 主 topic
+ * @param retryDelaysMs - 重试阶梯
+ * @returns 重试 topic 列表（与 retryDelaysMs 一一对应）
+ */
+export function buildKafkaRetryTopicNames(topic: string, retryDelaysMs: readonly number[]): string[] {
+	return retryDelaysMs.map((_, i) => `${topic}.retry.${i + 1}`);
+}
+
+/**
+ * @description 解析重试阶梯（非正整数项被忽略）
+ *
+ * @param raw - 逗号分隔的毫秒数
+ * @returns 延迟毫秒数列表
+ */
+function parseKafkaRetryDelays(raw: string | undefined): number[] {
+	return (raw ?? '')
+		.split(',')
+		.map((s) => Number(s.trim()))
+		.filter((n) => Number.isInteger(n) && n > 0);
+}
 
-	return { enabled, brokers, clientId, topic, groupId };
+/**
+ * @description 解析 CloudEvents 内容模式
+ *
+ * @param raw - `structured` / `binary` / 空
+ * @returns 内容模式；空值返回 undefined
+ * @throws Error 当取值不合法时抛出
+ */
+function parseCloudEventsMode(raw: string | undefined): CloudEventsContentMode | undefined {
+	const mode = (raw ?? '').trim().toLowerCase();
+	if (mode === '') return undefined;
+	if (mode === 'structured' || mode === 'binary') return mode;
+	throw new Error(`Kafka CloudEvents 内容模式不合法：${mode}（可选 structured / binary）。`);
 }
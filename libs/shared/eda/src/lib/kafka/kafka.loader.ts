@@ -22,6 +22,7 @@ export interface KafkaConsumerLike {
 	commitOffsets?: (input: unknown) => Promise<void>;
 	pause?: (input: unknown) => void;
 	resume?: (input: unknown) => void;
+	seek?: (input: { topic: string; partition: number; offset: string }) => void;
 }
 
 export interface KafkaClientLike {
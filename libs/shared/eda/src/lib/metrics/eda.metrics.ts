@@ -53,12 +53,60 @@ export interface OksaiMetricsRecorder {
 		eventName: string;
 		durationMs: number;
 	}): void;
+
+	/**
+	 * @description 覆盖写入某个处理器的租户积压快照（未出现在本次快照中的租户标签会被移除）
+	 */
+	setIntegrationOutboxTenantBacklog(input: {
+		processor: string;
+		tenants: Array<{ tenantId: string; backlog: number; oldestAgeMs: number }>;
+	}): void;
+
+	/**
+	 * @description 写入 integration_outbox 各状态行数与最早未发布事件年龄（由 IntegrationOutboxBacklogSampler 周期采样）
+	 */
+	setIntegrationOutboxBacklog(input: {
+		counts: Record<IntegrationOutboxBacklogStatus, number>;
+		oldestPendingAgeMs: number;
+	}): void;
+
+	/**
+	 * @description 写入订阅者投影未处理事件数（按 consumerName 维度）
+	 */
+	setIntegrationSubscriberUnprocessed(input: { consumer: string; eventName: string; unprocessed: number }): void;
+
+	/**
+	 * @description 记录 processing 回收器回收的事件（回写 failed 或 dead）
+	 */
+	incIntegrationOutboxReaperReclaimedTotal(input: { reaper: string; result: 'failed' | 'dead' }): void;
+
+	/**
+	 * @description 记录订阅者熔断器状态变化（写入当前状态并累计迁移次数）
+	 */
+	recordIntegrationSubscriberCircuitState(input: {
+		processor: string;
+		subscriber: string;
+		state: 'closed' | 'open' | 'half_open';
+	}): void;
 }
 
+/**
+ * @description 积压采样覆盖的 integration_outbox 状态（published 行数随保留期增长，不采样）
+ *
+ * 说明：
+ * - scheduled 为未到 deliver_at 的 pending 行（定时事件），不计入 pending
+ */
+export type IntegrationOutboxBacklogStatus = 'pending' | 'scheduled' | 'queued' | 'processing' | 'failed' | 'dead';
+
 const NOOP_RECORDER: OksaiMetricsRecorder = {
 	incIntegrationEventProcessedTotal: () => undefined,
 	observeIntegrationEventLagMs: () => undefined,
-	observeIntegrationEventDurationMs: () => undefined
+	observeIntegrationEventDurationMs: () => undefined,
+	setIntegrationOutboxTenantBacklog: () => undefined,
+	setIntegrationOutboxBacklog: () => undefined,
+	setIntegrationSubscriberUnprocessed: () => undefined,
+	incIntegrationOutboxReaperReclaimedTotal: () => undefined,
+	recordIntegrationSubscriberCircuitState: () => undefined
 };
 
 let recorder: OksaiMetricsRecorder = NOOP_RECORDER;
@@ -130,6 +178,55 @@ export async function startOksaiMetrics(
 			buckets: [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000]
 		});
 
+		const tenantBacklog = new prom.Gauge({
+			name: 'oksai_integration_outbox_tenant_backlog',
+			help: 'integration_outbox 待 claim 行数（按 processor/tenantId 维度，仅积压最多的前 N 个租户）。',
+			labelNames: ['processor', 'tenantId'] as const
+		});
+
+		const tenantOldestAgeMs = new prom.Gauge({
+			name: 'oksai_integration_outbox_tenant_oldest_age_ms',
+			help: 'integration_outbox 租户最早待 claim 事件的年龄（毫秒）：now - occurred_at。',
+			labelNames: ['processor', 'tenantId'] as const
+		});
+
+		const reportedTenants = new Map<string, Set<string>>();
+
+		const outboxRows = new prom.Gauge({
+			name: 'oksai_integration_outbox_rows',
+			help: 'integration_outbox 各状态行数（pending/scheduled/queued/processing/failed/dead，周期采样；scheduled 为未到期的定时事件）。',
+			labelNames: ['status'] as const
+		});
+
+		const outboxOldestPendingAgeMs = new prom.Gauge({
+			name: 'oksai_integration_outbox_oldest_pending_age_ms',
+			help: 'integration_outbox 最早未发布事件（pending/queued/failed）的年龄（毫秒）：now - occurred_at（定时事件为 deliver_at）；无积压时为 0。'
+		});
+
+		const subscriberUnprocessed = new prom.Gauge({
+			name: 'oksai_integration_subscriber_unprocessed',
+			help: '订阅者投影未处理的 published 事件数（按 consumer/eventName 维度，周期采样）。',
+			labelNames: ['consumer', 'eventName'] as const
+		});
+
+		const reaperReclaimedTotal = new prom.Counter({
+			name: 'oksai_integration_outbox_reaper_reclaimed_total',
+			help: 'processing 回收器回收的事件数（按 reaper/result 维度：failed 待重试，dead 进入死信）。',
+			labelNames: ['reaper', 'result'] as const
+		});
+
+		const subscriberCircuitState = new prom.Gauge({
+			name: 'oksai_integration_subscriber_circuit_state',
+			help: '订阅者熔断器当前状态（0=closed，1=half_open，2=open；按 processor/subscriber 维度）。',
+			labelNames: ['processor', 'subscriber'] as const
+		});
+
+		const subscriberCircuitTransitionsTotal = new prom.Counter({
+			name: 'oksai_integration_subscriber_circuit_transitions_total',
+			help: '订阅者熔断器状态迁移次数（按 processor/subscriber/state 维度，state 为迁移后的状态）。',
+			labelNames: ['processor', 'subscriber', 'state'] as const
+		});
+
 		recorder = {
 			incIntegrationEventProcessedTotal: (input) => {
 				processedTotal.labels(input.mode, input.processor, input.eventName, input.result).inc(1);
@@ -139,6 +236,36 @@ export async function startOksaiMetrics(
 			},
 			observeIntegrationEventDurationMs: (input) => {
 				durationMs.labels(input.mode, input.processor, input.eventName).observe(input.durationMs);
+			},
+			setIntegrationOutboxTenantBacklog: (input) => {
+				const current = new Set(input.tenants.map((t) => t.tenantId));
+				for (const tenantId of reportedTenants.get(input.processor) ?? []) {
+					if (current.has(tenantId)) continue;
+					tenantBacklog.remove(input.processor, tenantId);
+					tenantOldestAgeMs.remove(input.processor, tenantId);
+				}
+				for (const t of input.tenants) {
+					tenantBacklog.labels(input.processor, t.tenantId).set(t.backlog);
+					tenantOldestAgeMs.labels(input.processor, t.tenantId).set(t.oldestAgeMs);
+				}
+				reportedTenants.set(input.processor, current);
+			},
+			setIntegrationOutboxBacklog: (input) => {
+				for (const [status, count] of Object.entries(input.counts)) {
+					outboxRows.labels(status).set(count);
+				}
+				outboxOldestPendingAgeMs.set(input.oldestPendingAgeMs);
+			},
+			setIntegrationSubscriberUnprocessed: (input) => {
+				subscriberUnprocessed.labels(input.consumer, input.eventName).set(input.unprocessed);
+			},
+			incIntegrationOutboxReaperReclaimedTotal: (input) => {
+				reaperReclaimedTotal.labels(input.reaper, input.result).inc(1);
+			},
+			recordIntegrationSubscriberCircuitState: (input) => {
+				const value = input.state === 'open' ? 2 : input.state === 'half_open' ? 1 : 0;
+				subscriberCircuitState.labels(input.processor, input.subscriber).set(value);
+				subscriberCircuitTransitionsTotal.labels(input.processor, input.subscriber, input.state).inc(1);
 			}
 		};
 
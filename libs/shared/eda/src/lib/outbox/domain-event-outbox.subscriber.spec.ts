@@ -0,0 +1,198 @@
+jest.mock('@oksai/context', () => ({
+	getOksaiRequestContextFromCurrent: jest.fn()
+}));
+
+import type { FlushEventArgs, TransactionEventArgs } from '@mikro-orm/core';
+import { getOksaiRequestContextFromCurrent } from '@oksai/context';
+import { AggregateRoot, DomainEvent, UniqueEntityID } from '@oksai/kernel';
+import { DomainEventIntegrationMapperRegistry, DomainEventOutboxSubscriber } from './domain-event-outbox.subscriber';
+import { IntegrationOutboxRecordEntity } from './integration-outbox-record.entity';
+
+class UserRegisteredEvent extends DomainEvent<{ email: string }> {
+	constructor(aggregateId: UniqueEntityID, email: string) {
+		super({ eventName: 'UserRegistered', aggregateId, payload: { email } });
+	}
+}
+
+class UserRenamedEvent extends DomainEvent<{ name: string }> {
+	constructor(aggregateId: UniqueEntityID, name: string) {
+		super({ eventName: 'UserRenamed', aggregateId, payload: { name } });
+	}
+}
+
+class TestUser extends AggregateRoot<{ email: string }> {
+	static register(id: string, email: string): TestUser {
+		const user = new TestUser({ email }, new UniqueEntityID(id));
+		user.addDomainEvent(new UserRegisteredEvent(user.id, email));
+		return user;
+	}
+
+	rename(name: string): void {
+		this.addDomainEvent(new UserRenamedEvent(this.id, name));
+	}
+}
+
+function createFlushArgs(entities: { changeSets?: unknown[]; identityMap?: unknown[]; inTransaction?: boolean }) {
+	const uow = {
+		getChangeSets: jest.fn().mockReturnValue((entities.changeSets ?? []).map((entity) => ({ entity }))),
+		getIdentityMap: jest.fn().mockReturnValue({ values: () => entities.identityMap ?? [] }),
+		computeChangeSet: jest.fn()
+	};
+	const em = {
+		isInTransaction: () => entities.inTransaction ?? false,
+		getUnitOfWork: () => uow
+	};
+	return {
+		args: { em, uow } as unknown as FlushEventArgs,
+		txArgs: { em } as unknown as TransactionEventArgs,
+		uow
+	};
+}
+
+describe('DomainEventIntegrationMapperRegistry', () => {
+	it('should reject duplicate registration for the same event name', () => {
+		const registry = new DomainEventIntegrationMapperRegistry().register('UserRegistered', () => null);
+
+		expect(() => registry.register('UserRegistered', () => null)).toThrow('UserRegistered 已注册');
+	});
+
+	it('should normalize mapper results to an array', () => {
+		const user = TestUser.register('u-001', 'a@example.com');
+		const registry = new DomainEventIntegrationMapperRegistry()
+			.register('UserRegistered', () => [
+				{ eventName: 'identity.user.registered', eventVersion: 1 },
+				{ eventName: 'identity.user.welcome', eventVersion: 1 }
+			])
+			.register('UserRenamed', () => null);
+		user.rename('Alice');
+
+		expect(registry.map(user.domainEvents[0]).map((i) => i.eventName)).toEqual([
+			'identity.user.registered',
+			'identity.user.welcome'
+		]);
+		expect(registry.map(user.domainEvents[1])).toEqual([]);
+	});
+});
+
+describe('DomainEventOutboxSubscriber', () => {
+	let registry: DomainEventIntegrationMapperRegistry;
+	let subscriber: DomainEventOutboxSubscriber;
+
+	beforeEach(() => {
+		(getOksaiRequestContextFromCurrent as unknown as jest.Mock).mockReturnValue({
+			tenantId: 't-001',
+			userId: 'u-admin',
+			requestId: 'r-001'
+		});
+		registry = new DomainEventIntegrationMapperRegistry().register<{ email: string }>(
+			'UserRegistered',
+			(event) => ({
+				eventName: 'identity.user.registered',
+				eventVersion: 1,
+				data: { userId: event.aggregateId.toString() }
+			})
+		);
+		subscriber = new DomainEventOutboxSubscriber(registry);
+	});
+
+	it('should add outbox records to the unit of work for mapped domain events', async () => {
+		const user = TestUser.register('u-001', 'a@example.com');
+		user.rename('Alice');
+		const { args, uow } = createFlushArgs({ changeSets: [user], identityMap: [user] });
+
+		await subscriber.onFlush(args);
+
+		expect(uow.computeChangeSet).toHaveBeenCalledTimes(1);
+		const record = uow.computeChangeSet.mock.calls[0][0] as IntegrationOutboxRecordEntity;
+		expect(record).toBeInstanceOf(IntegrationOutboxRecordEntity);
+		expect(record).toMatchObject({
+			tenantId: 't-001',
+			eventName: 'identity.user.registered',
+			eventVersion: 1,
+			partitionKey: 't-001',
+			status: 'pending',
+			retryCount: 0
+		});
+		expect(record.payload).toMatchObject({
+			eventId: record.eventId,
+			actorId: 'u-admin',
+			data: { userId: 'u-001' }
+		});
+	});
+
+	it('should clear domain events only after the flush succeeded', async () => {
+		const user = TestUser.register('u-001', 'a@example.com');
+		const { args } = createFlushArgs({ identityMap: [user] });
+
+		await subscriber.onFlush(args);
+		expect(user.hasDomainEvents()).toBe(true);
+		await subscriber.afterFlush(args);
+
+		expect(user.hasDomainEvents()).toBe(false);
+	});
+
+	it('should defer clearing domain events until the outer transaction commits', async () => {
+		const user = TestUser.register('u-001', 'a@example.com');
+		const { args, txArgs } = createFlushArgs({ identityMap: [user], inTransaction: true });
+
+		await subscriber.onFlush(args);
+		await subscriber.afterFlush(args);
+		expect(user.hasDomainEvents()).toBe(true);
+		await subscriber.afterTransactionCommit(txArgs);
+
+		expect(user.hasDomainEvents()).toBe(false);
+	});
+
+	it('should keep domain events when the outer transaction rolls back', async () => {
+		const user = TestUser.register('u-001', 'a@example.com');
+		const { args, txArgs } = createFlushArgs({ identityMap: [user], inTransaction: true });
+
+		await subscriber.onFlush(args);
+		await subscriber.afterFlush(args);
+		await subscriber.afterTransactionRollback(txArgs);
+		await subscriber.afterTransactionCommit(txArgs);
+
+		expect(user.hasDomainEvents()).toBe(true);
+	});
+
+	it('should not relay the same domain event twice when flushing repeatedly in one transaction', async () => {
+		const user = TestUser.register('u-001', 'a@example.com');
+		const { args, txArgs, uow } = createFlushArgs({ identityMap: [user], inTransaction: true });
+
+		await subscriber.onFlush(args);
+		await subscriber.afterFlush(args);
+		await subscriber.onFlush(args);
+		await subscriber.afterFlush(args);
+
+		expect(uow.computeChangeSet).toHaveBeenCalledTimes(1);
+
+		await subscriber.afterTransactionCommit(txArgs);
+		expect(user.hasDomainEvents()).toBe(false);
+	});
+
+	it('should keep domain events when building the integration event fails', async () => {
+		(getOksaiRequestContextFromCurrent as unknown as jest.Mock).mockReturnValue({});
+		const user = TestUser.register('u-001', 'a@example.com');
+		const { args, uow } = createFlushArgs({ identityMap: [user] });
+
+		await expect(subscriber.onFlush(args)).rejects.toThrow('缺少租户标识');
+		await subscriber.afterFlush(args);
+
+		expect(uow.computeChangeSet).not.toHaveBeenCalled();
+		expect(user.hasDomainEvents()).toBe(true);
+	});
+
+	it('should ignore entities without domain events and clear unmapped events', async () => {
+		const user = TestUser.register('u-001', 'a@example.com');
+		user.clearDomainEvents();
+		user.rename('Alice');
+		const plain = { id: 'x' };
+		const { args, uow } = createFlushArgs({ changeSets: [plain], identityMap: [user, plain] });
+
+		await subscriber.onFlush(args);
+		await subscriber.afterFlush(args);
+
+		expect(uow.computeChangeSet).not.toHaveBeenCalled();
+		expect(user.hasDomainEvents()).toBe(false);
+	});
+});
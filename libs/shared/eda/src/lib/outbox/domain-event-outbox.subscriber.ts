@@ -0,0 +1,191 @@
+import type { EventSubscriber, FlushEventArgs, TransactionEventArgs, UnitOfWork } from '@mikro-orm/core';
+import type { DomainEvent } from '@oksai/kernel';
+import { buildIntegrationEventFromCurrentContext, type BuildIntegrationEventInput } from './outbox-producer';
+import { IntegrationOutboxRecordEntity } from './integration-outbox-record.entity';
+
+/**
+ * @description 领域事件 → 集成事件映射函数
+ *
+ * 说明：
+ * - 返回 `null` 表示该领域事件不对外发布（仅模块内使用）
+ * - 返回数组表示一个领域事件拆分为多个集成事件
+ * - tenantId/actorId/requestId 由 `buildIntegrationEventFromCurrentContext` 从 CLS 补齐，映射函数无需关心
+ */
+export type DomainEventIntegrationMapper<TPayload = unknown> = (
+	event: DomainEvent<TPayload>
+) => BuildIntegrationEventInput | BuildIntegrationEventInput[] | null;
+
+/**
+ * @description 领域事件映射注册表（按 eventName 注册）
+ *
+ * 注意事项：
+ * - 同一 eventName 只允许注册一次，避免多个模块对同一事件给出不一致的集成契约
+ * - 未注册的领域事件不会写入 Outbox（但仍会在提交后从聚合根清除）
+ */
+export class DomainEventIntegrationMapperRegistry {
+	private readonly mappers = new Map<string, DomainEventIntegrationMapper>();
+
+	/**
+	 * @description 注册映射函数
+	 *
+	 * @param eventName - 领域事件名称
+	 * @param mapper - 映射函数
+	 * @returns 当前注册表（便于链式注册）
+	 * @throws Error 当 eventName 已注册时抛出
+	 */
+	register<TPayload>(eventName: string, mapper: DomainEventIntegrationMapper<TPayload>): this {
+		if (this.mappers.has(eventName)) {
+			throw new Error(`注册领域事件映射失败：eventName=${eventName} 已注册。`);
+		}
+		this.mappers.set(eventName, mapper as DomainEventIntegrationMapper);
+		return this;
+	}
+
+	/**
+	 * @description 是否已注册指定领域事件
+	 */
+	has(eventName: string): boolean {
+		return this.mappers.has(eventName);
+	}
+
+	/**
+	 * @description 将领域事件映射为集成事件构建输入
+	 *
+	 * @param event - 领域事件
+	 * @returns 构建输入列表（未注册或映射为 null 时为空数组）
+	 */
+	map(event: DomainEvent): BuildIntegrationEventInput[] {
+		const mapper = this.mappers.get(event.eventName);
+		if (!mapper) return [];
+		const mapped = mapper(event);
+		if (!mapped) return [];
+		return Array.isArray(mapped) ? mapped : [mapped];
+	}
+}
+
+/**
+ * @description 携带领域事件的聚合根（结构化判定，避免多份 @oksai/kernel 副本导致 instanceof 失效）
+ */
+interface DomainEventSource {
+	readonly domainEvents: ReadonlyArray<DomainEvent>;
+	clearDomainEvents(): void;
+}
+
+/**
+ * @description 已写入 Outbox、等待事务提交的领域事件（按 UnitOfWork 记录）
+ */
+interface PendingDomainEventRelay {
+	sources: Set<DomainEventSource>;
+	relayed: Set<DomainEvent>;
+}
+
+function isDomainEventSource(value: unknown): value is DomainEventSource {
+	if (!value || typeof value !== 'object') return false;
+	const candidate = value as Partial<DomainEventSource>;
+	return Array.isArray(candidate.domainEvents) && typeof candidate.clearDomainEvents === 'function';
+}
+
+/**
+ * @description 领域事件 → integration_outbox 自动中继（MikroORM EventSubscriber）
+ *
+ * 使用场景：
+ * - 聚合根为 MikroORM 托管实体时，业务代码只需 `em.flush()`，无需手动构建并写入 Outbox
+ *
+ * 业务规则：
+ * - onFlush：收集 UnitOfWork 中托管的聚合根，按注册表映射领域事件，
+ *   以 `IntegrationOutboxRecordEntity` 追加到本次变更集，与业务写入同一事务提交
+ * - 事务提交后调用 `clearDomainEvents()`：flush 自带事务时在 afterFlush 清除；
+ *   处于外层事务（`em.transactional`）时等到 afterTransactionCommit，外层回滚则保留
+ * - 同一事务内多次 flush 只中继尚未写入的领域事件，避免重复生成 Outbox 行
+ * - flush 或事务失败时领域事件保留在聚合根上，重试会重新生成 Outbox 行（旧行随事务回滚）
+ *
+ * 注意事项：
+ * - 需要在 MikroORM 配置中注册 `IntegrationOutboxRecordEntity` 与本订阅者
+ * - 依赖 CLS 中的 tenantId；无租户上下文时 flush 将失败（与 `buildIntegrationEventFromCurrentContext` 一致）
+ * - 需要 PII 加密的事件仍应使用 `insertIntegrationOutboxEvent({ pii })` 手动写入
+ *
+ * @example
+ * ```typescript
+ * const registry = new DomainEventIntegrationMapperRegistry().register('UserRegistered', (event) => ({
+ *   eventName: 'identity.user.registered',
+ *   eventVersion: 1,
+ *   data: { userId: event.aggregateId.toString() }
+ * }));
+ *
+ * MikroORM.init({
+ *   entities: [IntegrationOutboxRecordEntity],
+ *   subscribers: [new DomainEventOutboxSubscriber(registry)]
+ * });
+ * ```
+ */
+export class DomainEventOutboxSubscriber implements EventSubscriber {
+	private readonly pending = new WeakMap<UnitOfWork, PendingDomainEventRelay>();
+
+	constructor(private readonly registry: DomainEventIntegrationMapperRegistry) {}
+
+	async onFlush(args: FlushEventArgs): Promise<void> {
+		const sources = this.collectSources(args.uow);
+		if (sources.length === 0) return;
+
+		const pending = this.pending.get(args.uow);
+		const relayed: DomainEvent[] = [];
+		for (const source of sources) {
+			for (const domainEvent of source.domainEvents) {
+				if (pending?.relayed.has(domainEvent)) continue;
+				for (const input of this.registry.map(domainEvent)) {
+					const record = IntegrationOutboxRecordEntity.fromIntegrationEvent(
+						buildIntegrationEventFromCurrentContext(input)
+					);
+					args.uow.computeChangeSet(record);
+				}
+				relayed.push(domainEvent);
+			}
+		}
+
+		this.pending.set(args.uow, {
+			sources: new Set([...(pending?.sources ?? []), ...sources]),
+			relayed: new Set([...(pending?.relayed ?? []), ...relayed])
+		});
+	}
+
+	async afterFlush(args: FlushEventArgs): Promise<void> {
+		// 外层事务尚未提交：等待 afterTransactionCommit
+		if (args.em.isInTransaction()) return;
+		this.clearPending(args.uow);
+	}
+
+	async afterTransactionCommit(args: TransactionEventArgs): Promise<void> {
+		this.clearPending(args.uow ?? args.em.getUnitOfWork(false));
+	}
+
+	async afterTransactionRollback(args: TransactionEventArgs): Promise<void> {
+		this.pending.delete(args.uow ?? args.em.getUnitOfWork(false));
+	}
+
+	private clearPending(uow: UnitOfWork): void {
+		const pending = this.pending.get(uow);
+		if (!pending) return;
+		this.pending.delete(uow);
+		for (const source of pending.sources) {
+			source.clearDomainEvents();
+		}
+	}
+
+	private collectSources(uow: UnitOfWork): DomainEventSource[] {
+		const candidates = new Set<unknown>();
+		for (const changeSet of uow.getChangeSets()) {
+			candidates.add(changeSet.entity);
+		}
+		for (const entity of uow.getIdentityMap().values()) {
+			candidates.add(entity);
+		}
+
+		const sources: DomainEventSource[] = [];
+		for (const candidate of candidates) {
+			if (isDomainEventSource(candidate) && candidate.domainEvents.length > 0) {
+				sources.push(candidate);
+			}
+		}
+		return sources;
+	}
+}
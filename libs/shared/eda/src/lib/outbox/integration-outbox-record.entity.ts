@@ -0,0 +1,79 @@
+import { Entity, PrimaryKey, Property, Unique, types } from '@mikro-orm/core';
+import { randomUUID } from 'crypto';
+import type { OksaiIntegrationEvent } from '@oksai/contracts';
+
+/**
+ * integration_outbox 记录表（见 migrations/001-integration-outbox.sql）
+ *
+ * 说明：
+ * - 供 `DomainEventOutboxSubscriber` 在 flush 时与业务变更同事务插入
+ * - claim、状态回写仍由 Outbox 处理器以 SQL 完成，不依赖本实体
+ */
+@Entity({ tableName: 'integration_outbox' })
+@Unique({ properties: ['eventId'], name: 'idx_integration_outbox_event_id' })
+export class IntegrationOutboxRecordEntity {
+	@PrimaryKey({ type: 'uuid' })
+	id: string = randomUUID();
+
+	@Property({ fieldName: 'event_id', nullable: false })
+	eventId!: string;
+
+	@Property({ fieldName: 'tenant_id', nullable: false })
+	tenantId!: string;
+
+	@Property({ fieldName: 'event_name', nullable: false })
+	eventName!: string;
+
+	@Property({ fieldName: 'event_version', nullable: false })
+	eventVersion!: number;
+
+	@Property({ fieldName: 'partition_key', nullable: false })
+	partitionKey!: string;
+
+	@Property({ fieldName: 'payload', type: types.json, nullable: false })
+	payload!: OksaiIntegrationEvent;
+
+	@Property({ fieldName: 'status', nullable: false })
+	status: string = 'pending';
+
+	@Property({ fieldName: 'retry_count', nullable: false })
+	retryCount: number = 0;
+
+	@Property({ fieldName: 'next_retry_at', nullable: true })
+	nextRetryAt?: Date;
+
+	@Property({ fieldName: 'last_error', type: types.text, nullable: true })
+	lastError?: string;
+
+	@Property({ fieldName: 'deliver_at', nullable: true })
+	deliverAt?: Date;
+
+	@Property({ fieldName: 'dedupe_key', nullable: true })
+	dedupeKey?: string;
+
+	@Property({ fieldName: 'occurred_at', nullable: false })
+	occurredAt: Date = new Date();
+
+	@Property({ fieldName: 'created_at', nullable: false })
+	createdAt: Date = new Date();
+
+	@Property({ fieldName: 'updated_at', nullable: false })
+	updatedAt: Date = new Date();
+
+	/**
+	 * @description 由集成事件信封构建 Outbox 行（与 `insertIntegrationOutboxEvent` 写入的列一致）
+	 *
+	 * @param event - 集成事件信封
+	 * @returns Outbox 行实体
+	 */
+	static fromIntegrationEvent(event: OksaiIntegrationEvent): IntegrationOutboxRecordEntity {
+		const record = new IntegrationOutboxRecordEntity();
+		record.eventId = event.eventId;
+		record.tenantId = event.tenantId;
+		record.eventName = event.eventName;
+		record.eventVersion = event.eventVersion;
+		record.partitionKey = event.partitionKey;
+		record.payload = JSON.parse(JSON.stringify(event)) as OksaiIntegrationEvent;
+		return record;
+	}
+}
@@ -0,0 +1,135 @@
+import { IntegrationOutboxDeadLetterService } from './outbox-dead-letter.service';
+
+function createMockEntityManager() {
+	const conn = { execute: jest.fn() };
+	const txConn = { execute: jest.fn() };
+	return {
+		conn,
+		txConn,
+		em: {
+			getConnection: jest.fn(() => conn),
+			transactional: jest.fn(async (fn: (tem: unknown) => Promise<unknown>) =>
+				fn({ getConnection: () => txConn })
+			)
+		}
+	};
+}
+
+describe('IntegrationOutboxDeadLetterService', () => {
+	let mock: ReturnType<typeof createMockEntityManager>;
+	let service: IntegrationOutboxDeadLetterService;
+
+	beforeEach(() => {
+		mock = createMockEntityManager();
+		service = new IntegrationOutboxDeadLetterService({ em: mock.em as any });
+	});
+
+	describe('list', () => {
+		it('should default to dead status and paginate', async () => {
+			mock.conn.execute.mockResolvedValueOnce([{ event_id: 'e-1' }]).mockResolvedValueOnce([{ total: '3' }]);
+
+			const result = await service.list();
+
+			expect(result).toEqual({ items: [{ event_id: 'e-1' }], total: 3 });
+			const [sql, params] = mock.conn.execute.mock.calls[0];
+			expect(sql).toContain('where status = ?');
+			expect(sql).toContain('order by dead_at desc');
+			expect(params).toEqual(['dead', 20, 0]);
+		});
+
+		it('should apply all filters and escape like wildcards', async () => {
+			mock.conn.execute.mockResolvedValueOnce([]).mockResolvedValueOnce([{ total: 0 }]);
+			const deadFrom = new Date('2026-01-01T00:00:00.000Z');
+			const deadTo = new Date('2026-02-01T00:00:00.000Z');
+
+			await service.list({
+				tenantId: 't-1',
+				eventName: 'identity.user.registered',
+				errorContains: '50%_off',
+				deadFrom,
+				deadTo,
+				status: 'discarded',
+				limit: 500,
+				offset: 40
+			});
+
+			const [sql, params] = mock.conn.execute.mock.calls[0];
+			expect(sql).toContain('tenant_id = ?');
+			expect(sql).toContain('event_name = ?');
+			expect(sql).toContain('last_error ilike ?');
+			expect(sql).toContain('dead_at >= ?');
+			expect(sql).toContain('dead_at < ?');
+			expect(params).toEqual([
+				'discarded',
+				't-1',
+				'identity.user.registered',
+				'%50\\%\\_off%',
+				deadFrom,
+				deadTo,
+				100,
+				40
+			]);
+			expect(mock.conn.execute.mock.calls[1][1]).toEqual(params.slice(0, 6));
+		});
+	});
+
+	describe('get', () => {
+		it('should return null when dead letter does not exist', async () => {
+			mock.conn.execute.mockResolvedValue([]);
+
+			await expect(service.get('missing')).resolves.toBeNull();
+		});
+	});
+
+	describe('replay', () => {
+		it('should move dead entries back to pending and delete them from dead letter', async () => {
+			mock.txConn.execute
+				.mockResolvedValueOnce([{ event_id: 'e-1' }])
+				.mockResolvedValueOnce(undefined)
+				.mockResolvedValueOnce(undefined);
+
+			const result = await service.replay(['e-1', 'e-2', 'e-1', ' ']);
+
+			expect(result).toEqual({ succeeded: ['e-1'], skipped: ['e-2'] });
+			expect(mock.txConn.execute.mock.calls[0][1]).toEqual([['e-1', 'e-2']]);
+			const [upsertSql, upsertParams] = mock.txConn.execute.mock.calls[1];
+			expect(upsertSql).toContain('on conflict (event_id) do update');
+			expect(upsertSql).toContain('retry_count = 0');
+			expect(upsertParams).toEqual([['e-1']]);
+			expect(mock.txConn.execute.mock.calls[2][0]).toContain('delete from integration_outbox_dead_letter');
+		});
+
+		it('should not touch integration_outbox when nothing is replayable', async () => {
+			mock.txConn.execute.mockResolvedValueOnce([]);
+
+			const result = await service.replay(['e-1']);
+
+			expect(result).toEqual({ succeeded: [], skipped: ['e-1'] });
+			expect(mock.txConn.execute).toHaveBeenCalledTimes(1);
+		});
+
+		it('should skip the database for empty input', async () => {
+			await expect(service.replay([])).resolves.toEqual({ succeeded: [], skipped: [] });
+			expect(mock.em.transactional).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('discard', () => {
+		it('should mark dead entries discarded with audit info', async () => {
+			mock.conn.execute.mockResolvedValue([{ event_id: 'e-1' }]);
+
+			const result = await service.discard(['e-1', 'e-2'], { actor: 'ops-1', note: ' 已人工补偿 ' });
+
+			expect(result).toEqual({ succeeded: ['e-1'], skipped: ['e-2'] });
+			const [sql, params] = mock.conn.execute.mock.calls[0];
+			expect(sql).toContain("set status = 'discarded'");
+			expect(sql).toContain("and status = 'dead'");
+			expect(params).toEqual(['ops-1', '已人工补偿', ['e-1', 'e-2']]);
+		});
+
+		it('should require a note', async () => {
+			await expect(service.discard(['e-1'], { actor: 'ops-1', note: '  ' })).rejects.toThrow('必须填写备注');
+			expect(mock.conn.execute).not.toHaveBeenCalled();
+		});
+	});
+});
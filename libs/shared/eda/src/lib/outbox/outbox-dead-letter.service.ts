@@ -0,0 +1,338 @@
+import type { EntityManager } from '@mikro-orm/core';
+
+/**
+ * @description 死信状态
+ *
+ * - dead：待处理（重放或丢弃）
+ * - discarded：已人工丢弃（保留审计信息）
+ */
+export type IntegrationDeadLetterStatus = 'dead' | 'discarded';
+
+/**
+ * @description 死信行数据结构
+ */
+export interface IntegrationDeadLetterRow {
+	event_id: string;
+	tenant_id: string;
+	event_name: string;
+	event_version: number;
+	partition_key: string;
+	payload: unknown;
+	retry_count: number;
+	last_error: string | null;
+	processor_name: string | null;
+	consumer_name: string | null;
+	occurred_at: string | Date;
+	dead_at: string | Date;
+	status: IntegrationDeadLetterStatus;
+	discarded_at: string | Date | null;
+	discarded_by: string | null;
+	discard_note: string | null;
+}
+
+/**
+ * @description 死信查询条件
+ */
+export interface IntegrationDeadLetterFilter {
+	/**
+	 * @description 租户 ID（精确匹配）
+	 */
+	tenantId?: string;
+
+	/**
+	 * @description 事件名称（精确匹配）
+	 */
+	eventName?: string;
+
+	/**
+	 * @description 错误信息包含的文本（不区分大小写）
+	 */
+	errorContains?: string;
+
+	/**
+	 * @description 进入死信时间下界（包含）
+	 */
+	deadFrom?: Date;
+
+	/**
+	 * @description 进入死信时间上界（不包含）
+	 */
+	deadTo?: Date;
+
+	/**
+	 * @description 死信状态（默认 dead）
+	 */
+	status?: IntegrationDeadLetterStatus;
+
+	/**
+	 * @description 单页条数（默认 20，最大 100）
+	 */
+	limit?: number;
+
+	/**
+	 * @description 偏移量（默认 0）
+	 */
+	offset?: number;
+}
+
+/**
+ * @description 批量操作结果
+ */
+export interface IntegrationDeadLetterBatchResult {
+	/**
+	 * @description 实际处理的事件 ID
+	 */
+	succeeded: string[];
+
+	/**
+	 * @description 不存在或状态不是 dead 的事件 ID
+	 */
+	skipped: string[];
+}
+
+/**
+ * @description 死信管理服务配置选项
+ */
+export interface IntegrationOutboxDeadLetterServiceOptions {
+	/**
+	 * @description MikroORM EntityManager
+	 */
+	em: EntityManager;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * @description 集成事件死信管理服务
+ *
+ * 使用场景：
+ * - 运维查看 `integration_outbox_dead_letter` 中的失败事件并决定重放或丢弃
+ *
+ * 业务规则：
+ * - 重放：`integration_outbox` 对应行回到 pending 且 retry_count 清零（行不存在时按死信快照重新写入），
+ *   并删除死信行；重放后再次失败会重新进入死信
+ * - 丢弃：死信行标记为 discarded 并记录操作人与备注，不再出现在默认列表中
+ * - 只有 status=dead 的死信可以重放或丢弃，其余 ID 计入 skipped
+ */
+export class IntegrationOutboxDeadLetterService {
+	constructor(private readonly options: IntegrationOutboxDeadLetterServiceOptions) {}
+
+	/**
+	 * @description 分页查询死信（按进入死信时间倒序）
+	 *
+	 * @param filter - 查询条件
+	 * @returns 当前页数据与总数
+	 */
+	async list(
+		filter: IntegrationDeadLetterFilter = {}
+	): Promise<{ items: IntegrationDeadLetterRow[]; total: number }> {
+		const conditions: string[] = ['status = ?'];
+		const params: unknown[] = [filter.status ?? 'dead'];
+		if (filter.tenantId) {
+			conditions.push('tenant_id = ?');
+			params.push(filter.tenantId);
+		}
+		if (filter.eventName) {
+			conditions.push('event_name = ?');
+			params.push(filter.eventName);
+		}
+		if (filter.errorContains) {
+			conditions.push(`last_error ilike ? escape '\\'`);
+			params.push(`%${escapeLikePattern(filter.errorContains)}%`);
+		}
+		if (filter.deadFrom) {
+			conditions.push('dead_at >= ?');
+			params.push(filter.deadFrom);
+		}
+		if (filter.deadTo) {
+			conditions.push('dead_at < ?');
+			params.push(filter.deadTo);
+		}
+
+		const where = conditions.join(' and ');
+		const limit = Math.min(Math.max(1, Math.floor(filter.limit ?? DEFAULT_LIMIT)), MAX_LIMIT);
+		const offset = Math.max(0, Math.floor(filter.offset ?? 0));
+		const conn = this.options.em.getConnection();
+
+		const items = (await conn.execute(
+			`
+			select ${DEAD_LETTER_COLUMNS}
+			from integration_outbox_dead_letter
+			where ${where}
+			order by dead_at desc, event_id asc
+			limit ? offset ?
+			`,
+			[...params, limit, offset]
+		)) as IntegrationDeadLetterRow[];
+		const counted = (await conn.execute(
+			`select count(*)::int as total from integration_outbox_dead_letter where ${where}`,
+			params
+		)) as Array<{ total: number | string }>;
+
+		return { items, total: Number(counted[0]?.total ?? 0) };
+	}
+
+	/**
+	 * @description 查询单条死信（含完整事件信封 payload）
+	 *
+	 * @param eventId - 事件 ID
+	 * @returns 死信行；不存在时返回 null
+	 */
+	async get(eventId: string): Promise<IntegrationDeadLetterRow | null> {
+		const rows = (await this.options.em.getConnection().execute(
+			`
+			select ${DEAD_LETTER_COLUMNS}
+			from integration_outbox_dead_letter
+			where event_id = ?
+			limit 1
+			`,
+			[eventId]
+		)) as IntegrationDeadLetterRow[];
+		return rows[0] ?? null;
+	}
+
+	/**
+	 * @description 重放死信：回到 integration_outbox pending 并清零重试次数
+	 *
+	 * @param eventIds - 事件 ID 列表
+	 * @returns 批量操作结果
+	 */
+	async replay(eventIds: readonly string[]): Promise<IntegrationDeadLetterBatchResult> {
+		const ids = uniqueIds(eventIds);
+		if (ids.length === 0) return { succeeded: [], skipped: [] };
+
+		const succeeded = await this.options.em.transactional(async (tem) => {
+			const conn = tem.getConnection();
+			const rows = (await conn.execute(
+				`
+				select event_id
+				from integration_outbox_dead_letter
+				where event_id = any(cast(? as text[]))
+					and status = 'dead'
+				for update
+				`,
+				[ids]
+			)) as Array<{ event_id: string }>;
+			const replayIds = rows.map((r) => r.event_id);
+			if (replayIds.length === 0) return [];
+
+			await conn.execute(
+				`
+				insert into integration_outbox (
+					event_id,
+					tenant_id,
+					event_name,
+					event_version,
+					partition_key,
+					payload,
+					status,
+					retry_count,
+					next_retry_at,
+					last_error,
+					occurred_at,
+					created_at,
+					updated_at
+				)
+				select
+					event_id,
+					tenant_id,
+					event_name,
+					event_version,
+					partition_key,
+					payload,
+					'pending',
+					0,
+					null,
+					null,
+					occurred_at,
+					now(),
+					now()
+				from integration_outbox_dead_letter
+				where event_id = any(cast(? as text[]))
+				on conflict (event_id) do update
+				set status = 'pending',
+					retry_count = 0,
+					next_retry_at = null,
+					last_error = null,
+					updated_at = now()
+				`,
+				[replayIds]
+			);
+			await conn.execute(
+				`
+				delete from integration_outbox_dead_letter
+				where event_id = any(cast(? as text[]))
+				`,
+				[replayIds]
+			);
+			return replayIds;
+		});
+
+		return { succeeded, skipped: ids.filter((id) => !succeeded.includes(id)) };
+	}
+
+	/**
+	 * @description 丢弃死信并记录审计信息
+	 *
+	 * @param eventIds - 事件 ID 列表
+	 * @param audit - 操作人与备注
+	 * @returns 批量操作结果
+	 * @throws Error 当备注为空时抛出
+	 */
+	async discard(
+		eventIds: readonly string[],
+		audit: { actor: string; note: string }
+	): Promise<IntegrationDeadLetterBatchResult> {
+		const note = audit.note.trim();
+		if (!note) {
+			throw new Error('丢弃死信失败：必须填写备注（note）。');
+		}
+		const ids = uniqueIds(eventIds);
+		if (ids.length === 0) return { succeeded: [], skipped: [] };
+
+		const rows = (await this.options.em.getConnection().execute(
+			`
+			update integration_outbox_dead_letter
+			set status = 'discarded',
+				discarded_at = now(),
+				discarded_by = ?,
+				discard_note = ?
+			where event_id = any(cast(? as text[]))
+				and status = 'dead'
+			returning event_id
+			`,
+			[audit.actor, note.slice(0, 2000), ids]
+		)) as Array<{ event_id: string }>;
+		const succeeded = rows.map((r) => r.event_id);
+
+		return { succeeded, skipped: ids.filter((id) => !succeeded.includes(id)) };
+	}
+}
+
+const DEAD_LETTER_COLUMNS = `
+	event_id,
+	tenant_id,
+	event_name,
+	event_version,
+	partition_key,
+	payload,
+	retry_count,
+	last_error,
+	processor_name,
+	consumer_name,
+	occurred_at,
+	dead_at,
+	status,
+	discarded_at,
+	discarded_by,
+	discard_note
+`;
+
+function uniqueIds(eventIds: readonly string[]): string[] {
+	return [...new Set(eventIds.map((id) => id.trim()).filter((id) => id.length > 0))];
+}
+
+function escapeLikePattern(value: string): string {
+	return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
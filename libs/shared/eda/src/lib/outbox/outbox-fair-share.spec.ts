@@ -0,0 +1,107 @@
+import * as metrics from '../metrics/eda.metrics';
+import { IntegrationOutboxFairShareClaimer, buildTenantWeightsFromPlans } from './outbox-fair-share';
+
+function createMockLogger() {
+	return { debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+}
+
+describe('IntegrationOutboxFairShareClaimer', () => {
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('should rank rows per tenant and cap each tenant by weight', async () => {
+		const conn = { execute: jest.fn().mockResolvedValue([{ event_id: 'e-1' }]) };
+		const claimer = new IntegrationOutboxFairShareClaimer(
+			{
+				maxRowsPerTenant: 5,
+				tenantWeights: async () => ({ 't-big': 2, 't-bad': 0 })
+			},
+			{ name: 'test-processor', logger: createMockLogger() }
+		);
+
+		const rows = await claimer.claim(
+			conn as any,
+			{ columns: 'o.event_id', where: "o.status in (?, 'failed')", params: ['pending'] },
+			50
+		);
+
+		expect(rows).toEqual([{ event_id: 'e-1' }]);
+		const [sql, params] = conn.execute.mock.calls[0];
+		expect(sql).toContain('select distinct o.tenant_id');
+		expect(sql).toContain('cross join lateral');
+		expect(sql).toContain('limit ? * coalesce(w.weight, 1)');
+		expect(sql).toContain('row_number() over (partition by t.tenant_id order by c.sort_key asc, c.event_id asc)');
+		expect(sql).toContain('order by (r.tenant_rank - 1) / r.weight asc, o.occurred_at asc');
+		expect(sql).toContain('for update of o skip locked');
+		expect(params).toEqual(['pending', ['t-big'], [2], 'pending', 5, 50]);
+	});
+
+	it('should order by seq in partition-ordered mode', async () => {
+		const conn = { execute: jest.fn().mockResolvedValue([]) };
+		const claimer = new IntegrationOutboxFairShareClaimer(
+			{ maxRowsPerTenant: 1 },
+			{ name: 'test-processor', logger: createMockLogger() }
+		);
+
+		await claimer.claim(conn as any, { columns: 'o.event_id', where: 'true', params: [], orderBy: 'o.seq' }, 10);
+
+		expect(conn.execute.mock.calls[0][0]).toContain('select o.event_id, o.seq as sort_key');
+		expect(conn.execute.mock.calls[0][0]).toContain('order by (r.tenant_rank - 1) / r.weight asc, o.seq asc');
+		expect(conn.execute.mock.calls[0][1]).toEqual([[], [], 1, 10]);
+	});
+
+	it('should reject non-positive maxRowsPerTenant', () => {
+		expect(
+			() =>
+				new IntegrationOutboxFairShareClaimer(
+					{ maxRowsPerTenant: 0 },
+					{ name: 'test-processor', logger: createMockLogger() }
+				)
+		).toThrow('fairShare.maxRowsPerTenant 必须为正整数');
+	});
+
+	it('should sample tenant backlog at most once per interval', async () => {
+		const setIntegrationOutboxTenantBacklog = jest.fn();
+		jest.spyOn(metrics, 'getOksaiMetricsRecorder').mockReturnValue({
+			incIntegrationEventProcessedTotal: jest.fn(),
+			observeIntegrationEventLagMs: jest.fn(),
+			observeIntegrationEventDurationMs: jest.fn(),
+			setIntegrationOutboxTenantBacklog,
+			setIntegrationOutboxBacklog: jest.fn(),
+			setIntegrationSubscriberUnprocessed: jest.fn(),
+			incIntegrationOutboxReaperReclaimedTotal: jest.fn(),
+			recordIntegrationSubscriberCircuitState: jest.fn()
+		});
+		const occurredAt = new Date(Date.now() - 60_000);
+		const execute = jest
+			.fn()
+			.mockResolvedValue([{ tenant_id: 't-1', backlog: '120', oldest_occurred_at: occurredAt }]);
+		const em = { getConnection: () => ({ execute }) };
+		const claimer = new IntegrationOutboxFairShareClaimer(
+			{ maxRowsPerTenant: 5, backlogMetricsTopN: 3 },
+			{ name: 'test-publisher', logger: createMockLogger() }
+		);
+
+		await claimer.sampleBacklog(em as any, { where: "o.status in ('pending', 'failed')", params: [] });
+		await claimer.sampleBacklog(em as any, { where: "o.status in ('pending', 'failed')", params: [] });
+
+		expect(execute).toHaveBeenCalledTimes(1);
+		expect(execute.mock.calls[0][0]).toContain('group by o.tenant_id');
+		expect(execute.mock.calls[0][1]).toEqual([3]);
+		const input = setIntegrationOutboxTenantBacklog.mock.calls[0][0];
+		expect(input.processor).toBe('test-publisher');
+		expect(input.tenants[0]).toMatchObject({ tenantId: 't-1', backlog: 120 });
+		expect(input.tenants[0].oldestAgeMs).toBeGreaterThanOrEqual(60_000);
+	});
+});
+
+describe('buildTenantWeightsFromPlans', () => {
+	it('should map plans to weights with unknown plans defaulting to 1', () => {
+		expect(buildTenantWeightsFromPlans({ 't-1': 'enterprise', 't-2': 'pro', 't-3': 'legacy' })).toEqual({
+			't-1': 4,
+			't-2': 2,
+			't-3': 1
+		});
+	});
+});
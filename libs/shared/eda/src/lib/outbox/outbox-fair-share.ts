@@ -0,0 +1,227 @@
+import type { EntityManager } from '@mikro-orm/core';
+import { getOksaiMetricsRecorder } from '../metrics/eda.metrics';
+import type { OutboxLogger } from './outbox-processor';
+
+/**
+ * @description 按租户公平 claim 配置
+ *
+ * 业务规则：
+ * - 每批按轮次（round-robin）在租户间交替取行：第 N 轮每个租户取 weight 行，按 occurred_at 先后排列
+ * - 单个租户每批最多占用 maxRowsPerTenant × weight 行，批量导入的租户不会挤占其他租户
+ * - 未出现在 tenantWeights 中的租户权重为 1
+ */
+export interface IntegrationOutboxFairShareOptions {
+	/**
+	 * @description 单个租户（权重 1）每批最多 claim 的行数
+	 */
+	maxRowsPerTenant: number;
+
+	/**
+	 * @description 租户权重（可选；每次 claim 时读取，调用方自行缓存）
+	 *
+	 * 说明：
+	 * - 通常按租户套餐映射，见 `buildTenantWeightsFromPlans`
+	 */
+	tenantWeights?: () => Record<string, number> | Promise<Record<string, number>>;
+
+	/**
+	 * @description 租户积压指标采样间隔（ms，默认 30000；0 表示不采样）
+	 */
+	backlogMetricsIntervalMs?: number;
+
+	/**
+	 * @description 积压指标只上报积压最多的前 N 个租户（默认 20，避免标签基数膨胀）
+	 */
+	backlogMetricsTopN?: number;
+}
+
+/**
+ * @description 租户套餐默认权重（与 TenantPlan 的 free/basic/pro/enterprise 对应）
+ */
+export const DEFAULT_TENANT_PLAN_WEIGHTS: Readonly<Record<string, number>> = {
+	free: 1,
+	basic: 1,
+	pro: 2,
+	enterprise: 4
+};
+
+/**
+ * @description 按租户套餐生成租户权重
+ *
+ * @param plans - tenantId → 套餐名称
+ * @param planWeights - 套餐 → 权重（默认 DEFAULT_TENANT_PLAN_WEIGHTS）
+ * @returns tenantId → 权重（未知套餐按 1 处理）
+ *
+ * @example
+ * ```typescript
+ * const fairShare: IntegrationOutboxFairShareOptions = {
+ *   maxRowsPerTenant: 20,
+ *   tenantWeights: () => buildTenantWeightsFromPlans(tenantPlanCache.snapshot())
+ * };
+ * ```
+ */
+export function buildTenantWeightsFromPlans(
+	plans: Record<string, string>,
+	planWeights: Readonly<Record<string, number>> = DEFAULT_TENANT_PLAN_WEIGHTS
+): Record<string, number> {
+	const weights: Record<string, number> = {};
+	for (const [tenantId, plan] of Object.entries(plans)) {
+		weights[tenantId] = planWeights[plan] ?? 1;
+	}
+	return weights;
+}
+
+/**
+ * @description 公平 claim 查询的组成部分
+ */
+export interface IntegrationOutboxFairShareClaimQuery {
+	/**
+	 * @description select 列（以 `o.` 前缀引用 integration_outbox）
+	 */
+	columns: string;
+
+	/**
+	 * @description 候选行条件（以 `o.` 前缀引用 integration_outbox）
+	 */
+	where: string;
+
+	/**
+	 * @description where 中的参数
+	 */
+	params: unknown[];
+
+	/**
+	 * @description 租户内排序列（默认 o.occurred_at；分区有序模式使用 o.seq）
+	 */
+	orderBy?: string;
+}
+
+/**
+ * @description 公平 claim 器：供 IntegrationOutboxProcessor / IntegrationOutboxPublisher 复用
+ *
+ * 注意事项：
+ * - 先取有候选行的租户，再对每个租户 lateral 取前 maxRowsPerTenant × weight 行编号，
+ *   开窗只作用于有界的候选集，不随积压增长；需要索引 `idx_integration_outbox_tenant_claim` / `idx_integration_outbox_tenant_seq`（见 migrations/008）
+ * - 被其他 Worker 锁定的候选行由 skip locked 跳过，且不会由该租户的后续行补位：
+ *   单个 Worker 每批从一个租户最多 claim maxRowsPerTenant × weight 行，N 个并发 Worker 合计最多 N 倍
+ */
+export class IntegrationOutboxFairShareClaimer {
+	private readonly maxRowsPerTenant: number;
+	private lastBacklogSampleAt = 0;
+
+	constructor(
+		private readonly options: IntegrationOutboxFairShareOptions,
+		private readonly context: { name: string; logger: OutboxLogger }
+	) {
+		if (!Number.isInteger(options.maxRowsPerTenant) || options.maxRowsPerTenant <= 0) {
+			throw new Error(`${context.name} fairShare.maxRowsPerTenant 必须为正整数。`);
+		}
+		this.maxRowsPerTenant = options.maxRowsPerTenant;
+	}
+
+	/**
+	 * @description 在事务内执行公平 claim（select ... for update skip locked）
+	 *
+	 * @param conn - 事务连接
+	 * @param query - 查询组成部分
+	 * @param limit - 本批上限
+	 * @returns claim 到的行
+	 */
+	async claim<TRow>(
+		conn: ReturnType<EntityManager['getConnection']>,
+		query: IntegrationOutboxFairShareClaimQuery,
+		limit: number
+	): Promise<TRow[]> {
+		const weights = Object.entries((await this.options.tenantWeights?.()) ?? {}).filter(
+			([, w]) => Number.isInteger(w) && w > 0
+		);
+		const orderBy = query.orderBy ?? 'o.occurred_at';
+
+		return (await conn.execute(
+			`
+			with tenants as (
+				select distinct o.tenant_id
+				from integration_outbox o
+				where ${query.where}
+			),
+			ranked as (
+				select
+					c.event_id,
+					coalesce(w.weight, 1) as weight,
+					row_number() over (partition by t.tenant_id order by c.sort_key asc, c.event_id asc) as tenant_rank
+				from tenants t
+				left join unnest(cast(? as text[]), cast(? as int[])) as w(tenant_id, weight)
+					on w.tenant_id = t.tenant_id
+				cross join lateral (
+					select o.event_id, ${orderBy} as sort_key
+					from integration_outbox o
+					where o.tenant_id = t.tenant_id
+						and ${query.where}
+					order by ${orderBy} asc, o.event_id asc
+					limit ? * coalesce(w.weight, 1)
+				) c
+			)
+			select ${query.columns}
+			from integration_outbox o
+			join ranked r on r.event_id = o.event_id
+			order by (r.tenant_rank - 1) / r.weight asc, ${orderBy} asc
+			limit ?
+			for update of o skip locked
+			`,
+			[
+				...query.params,
+				weights.map(([tenantId]) => tenantId),
+				weights.map(([, w]) => w),
+				...query.params,
+				this.maxRowsPerTenant,
+				limit
+			]
+		)) as TRow[];
+	}
+
+	/**
+	 * @description 按间隔采样租户积压（积压条数与最早事件年龄），写入 metrics
+	 *
+	 * @param em - EntityManager
+	 * @param query - 候选行条件（与 claim 相同）
+	 */
+	async sampleBacklog(
+		em: EntityManager,
+		query: Pick<IntegrationOutboxFairShareClaimQuery, 'where' | 'params'>
+	): Promise<void> {
+		const intervalMs = this.options.backlogMetricsIntervalMs ?? 30_000;
+		if (intervalMs <= 0 || Date.now() - this.lastBacklogSampleAt < intervalMs) return;
+		this.lastBacklogSampleAt = Date.now();
+
+		try {
+			const rows = (await em.getConnection().execute(
+				`
+				select
+					o.tenant_id,
+					count(*) as backlog,
+					min(o.occurred_at) as oldest_occurred_at
+				from integration_outbox o
+				where ${query.where}
+				group by o.tenant_id
+				order by count(*) desc
+				limit ?
+				`,
+				[...query.params, this.options.backlogMetricsTopN ?? 20]
+			)) as Array<{ tenant_id: string; backlog: number | string; oldest_occurred_at: string | Date }>;
+
+			getOksaiMetricsRecorder().setIntegrationOutboxTenantBacklog({
+				processor: this.context.name,
+				tenants: rows.map((r) => ({
+					tenantId: r.tenant_id,
+					backlog: Number(r.backlog),
+					oldestAgeMs: Math.max(0, Date.now() - new Date(r.oldest_occurred_at).getTime())
+				}))
+			});
+		} catch (e) {
+			this.context.logger.warn(
+				{ err: e instanceof Error ? e.message : String(e) },
+				`${this.context.name} 采样租户积压失败（不影响 claim）。`
+			);
+		}
+	}
+}
@@ -0,0 +1,145 @@
+import { randomBytes } from 'crypto';
+import {
+	defineIntegrationEventSchema,
+	oksaiIntegrationEventSchemas,
+	type OksaiIntegrationEvent
+} from '@oksai/contracts';
+import { CryptoShredder, isEncryptedPiiValue, type KeyVaultPort } from '@oksai/event-store';
+import { z } from 'zod';
+import { InMemoryIntegrationOutbox } from '../testing/in-memory-integration-outbox';
+import { protectIntegrationEventPii, revealIntegrationEventPii } from './outbox-pii';
+
+function createShredder(): CryptoShredder {
+	const keys = new Map<string, Buffer>();
+	const vault: KeyVaultPort = {
+		getOrCreateKey: async (subjectId) => {
+			if (!keys.has(subjectId)) keys.set(subjectId, randomBytes(32));
+			return keys.get(subjectId)!;
+		},
+		getKey: async (subjectId) => keys.get(subjectId) ?? null,
+		destroyKey: async (subjectId) => {
+			keys.delete(subjectId);
+		}
+	};
+	return new CryptoShredder(vault);
+}
+
+function createEvent(data?: unknown): OksaiIntegrationEvent {
+	return {
+		eventId: 'e-001',
+		eventName: 'identity.user.registered',
+		eventVersion: 1,
+		tenantId: 't-001',
+		partitionKey: 't-001',
+		occurredAt: '2026-01-01T00:00:00.000Z',
+		data
+	} as OksaiIntegrationEvent;
+}
+
+describe('outbox-pii', () => {
+	it('should encrypt listed data fields and mark event as pii', async () => {
+		const shredder = createShredder();
+
+		const evt = await protectIntegrationEventPii(createEvent({ userId: 'u-001', email: 'a@example.com' }), {
+			shredder,
+			subjectId: 'u-001',
+			fields: ['email']
+		});
+
+		const data = evt.data as Record<string, unknown>;
+		expect(evt.classification).toBe('pii');
+		expect(evt.tenantId).toBe('t-001');
+		expect(data.userId).toBe('u-001');
+		expect(isEncryptedPiiValue(data.email)).toBe(true);
+		expect(JSON.stringify(evt)).not.toContain('a@example.com');
+	});
+
+	it('should reveal encrypted fields and return null after subject erasure', async () => {
+		const shredder = createShredder();
+		const evt = await protectIntegrationEventPii(createEvent({ userId: 'u-001', email: 'a@example.com' }), {
+			shredder,
+			subjectId: 'u-001',
+			fields: ['email']
+		});
+		const roundTripped = JSON.parse(JSON.stringify(evt)) as OksaiIntegrationEvent;
+
+		const revealed = await revealIntegrationEventPii(roundTripped, shredder);
+		await shredder.erase('u-001');
+		const erased = await revealIntegrationEventPii(roundTripped, shredder);
+
+		expect(revealed.data).toEqual({ userId: 'u-001', email: 'a@example.com' });
+		expect(erased.data).toEqual({ userId: 'u-001', email: null });
+	});
+
+	describe('with a registered data schema', () => {
+		beforeEach(() => {
+			oksaiIntegrationEventSchemas.register(
+				defineIntegrationEventSchema(
+					'identity.user.registered',
+					1,
+					z.object({ userId: z.string(), email: z.string().email() })
+				)
+			);
+		});
+
+		afterEach(() => {
+			oksaiIntegrationEventSchemas.clear();
+		});
+
+		it('should parse claimed pii events and validate data after reveal', async () => {
+			const shredder = createShredder();
+			const outbox = new InMemoryIntegrationOutbox();
+			await outbox.insert({
+				event: createEvent({ userId: 'u-001', email: 'a@example.com' }),
+				pii: { shredder, subjectId: 'u-001', fields: ['email'] }
+			});
+			const handled: OksaiIntegrationEvent[] = [];
+
+			await outbox
+				.createProcessor({
+					processorName: 'test',
+					consumerName: 'test.consumer',
+					handleEvent: async ({ envelope }) => {
+						handled.push(await revealIntegrationEventPii(envelope, shredder));
+					}
+				})
+				.processBatch(10);
+
+			expect(outbox.getRecord('e-001')?.status).toBe('published');
+			expect(handled[0].data).toEqual({ userId: 'u-001', email: 'a@example.com' });
+		});
+
+		it('should reject revealed data that violates the schema and skip validation for erased subjects', async () => {
+			const shredder = createShredder();
+			const evt = await protectIntegrationEventPii(createEvent({ userId: 'u-001', email: 'not-an-email' }), {
+				shredder,
+				subjectId: 'u-001',
+				fields: ['email']
+			});
+
+			await expect(revealIntegrationEventPii(evt, shredder)).rejects.toThrow(
+				'集成事件 data 不符合契约 identity.user.registered@v1'
+			);
+			await shredder.erase('u-001');
+			await expect(revealIntegrationEventPii(evt, shredder)).resolves.toMatchObject({
+				data: { userId: 'u-001', email: null }
+			});
+		});
+	});
+
+	it('should leave non-pii events untouched on reveal', async () => {
+		const evt = createEvent({ userId: 'u-001' });
+
+		await expect(revealIntegrationEventPii(evt, createShredder())).resolves.toBe(evt);
+	});
+
+	it('should throw a Chinese error message when data is not an object', async () => {
+		await expect(
+			protectIntegrationEventPii(createEvent('a@example.com'), {
+				shredder: createShredder(),
+				subjectId: 'u-001',
+				fields: ['email']
+			})
+		).rejects.toThrow('集成事件 PII 加密失败：事件 identity.user.registered 的 data 必须为对象。');
+	});
+});
@@ -0,0 +1,94 @@
+import {
+	oksaiIntegrationEventSchemas,
+	type IntegrationEventSchemaRegistry,
+	type OksaiIntegrationEvent
+} from '@oksai/contracts';
+import { isEncryptedPiiValue, type CryptoShredder } from '@oksai/event-store';
+
+/**
+ * @description 集成事件 PII 加密选项
+ */
+export interface IntegrationEventPiiOptions {
+	/**
+	 * @description 加密擦除器（持有主体密钥库）
+	 */
+	shredder: CryptoShredder;
+
+	/**
+	 * @description 数据主体 ID（通常为用户 ID）
+	 */
+	subjectId: string;
+
+	/**
+	 * @description `event.data` 中需要加密的顶层字段
+	 */
+	fields: readonly string[];
+}
+
+/**
+ * @description 加密集成事件 `data` 中的 PII 字段
+ *
+ * 业务规则：
+ * - 仅加密 `data` 的顶层字段；信封字段（eventId/tenantId/partitionKey 等）保持明文，用于路由与校验
+ * - 加密后的事件 `classification` 固定为 `pii`
+ * - 主体被擦除（密钥销毁）后，Outbox 中的历史 payload 无法再还原 PII
+ *
+ * @param event - 原始集成事件（不会被修改）
+ * @param options - 加密选项
+ * @returns 加密后的集成事件副本
+ * @throws Error 当 `data` 非对象时抛出
+ */
+export async function protectIntegrationEventPii<TData>(
+	event: OksaiIntegrationEvent<TData>,
+	options: IntegrationEventPiiOptions
+): Promise<OksaiIntegrationEvent<TData>> {
+	if (event.data === undefined || event.data === null) {
+		return { ...event, classification: 'pii' };
+	}
+	if (typeof event.data !== 'object' || Array.isArray(event.data)) {
+		throw new Error(`集成事件 PII 加密失败：事件 ${event.eventName} 的 data 必须为对象。`);
+	}
+
+	const data = await options.shredder.protect(event.data as Record<string, unknown>, {
+		subjectId: options.subjectId,
+		tenantId: event.tenantId,
+		fields: options.fields
+	});
+	return { ...event, classification: 'pii', data: data as TData };
+}
+
+/**
+ * @description 解密集成事件 `data` 中的 PII 字段
+ *
+ * 说明：
+ * - 非 `pii` 分级的事件原样返回
+ * - 主体已被擦除时，对应字段还原为 null
+ * - 解析信封时跳过了加密 data 的契约校验，此处在解密后补做；主体已被擦除时不校验（null 字段不再满足明文契约）
+ *
+ * @param event - 集成事件
+ * @param shredder - 加密擦除器
+ * @param schemas - data 契约注册表（默认进程级注册表）
+ * @returns 解密后的集成事件副本
+ * @throws Error 当解密后的 data 不符合已注册契约时抛出
+ */
+export async function revealIntegrationEventPii<TData>(
+	event: OksaiIntegrationEvent<TData>,
+	shredder: CryptoShredder,
+	schemas: IntegrationEventSchemaRegistry = oksaiIntegrationEventSchemas
+): Promise<OksaiIntegrationEvent<TData>> {
+	if (event.classification !== 'pii' || !event.data || typeof event.data !== 'object') {
+		return event;
+	}
+
+	const encrypted = event.data as Record<string, unknown>;
+	const data = await shredder.reveal(encrypted);
+	if (data === encrypted) {
+		return event;
+	}
+
+	const erased = Object.keys(encrypted).some((f) => isEncryptedPiiValue(encrypted[f]) && data[f] === null);
+	return {
+		...event,
+		data: (erased ? data : schemas.validateData(event.eventName, event.eventVersion, data)) as TData
+	};
+}
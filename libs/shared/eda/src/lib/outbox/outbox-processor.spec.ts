@@ -348,4 +348,147 @@ describe('IntegrationOutboxProcessor', () => {
 			expect(selectCall[1][0]).toBe('queued');
 		});
 	});
+
+	describe('hasDelayedRows', () => {
+		it('should query rows waiting for retry or scheduled delivery', async () => {
+			mockEm._conn.execute.mockResolvedValueOnce([{ delayed: true }]).mockResolvedValueOnce([{ delayed: false }]);
+			const processor = new IntegrationOutboxProcessor({
+				processorName: 'test-processor',
+				consumerName: 'test-consumer',
+				claimStatus: 'queued',
+				em: mockEm as any,
+				logger: mockLogger,
+				handleEvent
+			});
+
+			await expect(processor.hasDelayedRows()).resolves.toBe(true);
+			await expect(processor.hasDelayedRows()).resolves.toBe(false);
+
+			const [sql, params] = mockEm._conn.execute.mock.calls[0];
+			expect(sql).toContain('next_retry_at > now() or deliver_at > now()');
+			expect(params).toEqual(['queued']);
+		});
+	});
+
+	describe('fairShare', () => {
+		it('should claim through the tenant fair-share query and mark rows processing', async () => {
+			const mockConn = { execute: jest.fn().mockResolvedValue([]) };
+			(mockEm.transactional as jest.Mock).mockImplementation(async (fn: any) => {
+				return fn({ getConnection: () => mockConn });
+			});
+
+			const processor = new IntegrationOutboxProcessor({
+				processorName: 'test-processor',
+				consumerName: 'test-consumer',
+				fairShare: { maxRowsPerTenant: 10, backlogMetricsIntervalMs: 0 },
+				em: mockEm as any,
+				logger: mockLogger,
+				handleEvent
+			});
+
+			await processor.processBatch(100);
+
+			const [selectSql, params] = mockConn.execute.mock.calls[0];
+			expect(selectSql).toContain('partition by t.tenant_id');
+			expect(selectSql).toContain("o.status in (?, 'failed')");
+			expect(params).toEqual(['pending', [], [], 'pending', 10, 100]);
+		});
+	});
+
+	describe('partitionConcurrency', () => {
+		function createRow(eventId: string, partitionKey: string) {
+			return {
+				event_id: eventId,
+				tenant_id: 'tenant-1',
+				event_name: 'TestEvent',
+				event_version: 1,
+				partition_key: partitionKey,
+				payload: createValidPayload({ eventId, partitionKey }),
+				retry_count: 0,
+				occurred_at: new Date()
+			};
+		}
+
+		it('should claim only partition heads ordered by seq', async () => {
+			const mockConn = { execute: jest.fn().mockResolvedValue([]) };
+			(mockEm.transactional as jest.Mock).mockImplementation(async (fn: any) => {
+				return fn({ getConnection: () => mockConn });
+			});
+
+			const processor = new IntegrationOutboxProcessor({
+				processorName: 'test-processor',
+				consumerName: 'test-consumer',
+				partitionConcurrency: 4,
+				em: mockEm as any,
+				logger: mockLogger,
+				handleEvent
+			});
+
+			await processor.processBatch(10);
+
+			const selectSql: string = mockConn.execute.mock.calls[0][0];
+			expect(selectSql).toContain('p.seq < o.seq');
+			expect(selectSql).toContain("p.status not in ('published', 'dead')");
+			expect(selectSql).toContain('and (o.deliver_at is null or o.deliver_at <= now())');
+			expect(selectSql).toContain('and (p.deliver_at is null or p.deliver_at <= now())');
+			expect(selectSql).toContain('order by o.seq asc');
+		});
+
+		it('should process different partition keys in parallel up to the limit', async () => {
+			const rows = [createRow('evt-1', 'pk-1'), createRow('evt-2', 'pk-2'), createRow('evt-3', 'pk-3')];
+			(mockEm.transactional as jest.Mock).mockResolvedValue(rows);
+			mockEm._conn.execute.mockResolvedValue([]);
+
+			let inFlight = 0;
+			let maxInFlight = 0;
+			handleEvent.mockImplementation(async () => {
+				inFlight++;
+				maxInFlight = Math.max(maxInFlight, inFlight);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				inFlight--;
+			});
+
+			const processor = new IntegrationOutboxProcessor({
+				processorName: 'test-processor',
+				consumerName: 'test-consumer',
+				partitionConcurrency: 2,
+				em: mockEm as any,
+				logger: mockLogger,
+				handleEvent
+			});
+
+			const result = await processor.processBatch(10);
+
+			expect(result).toBe(3);
+			expect(handleEvent).toHaveBeenCalledTimes(3);
+			expect(maxInFlight).toBe(2);
+		});
+
+		it('should keep rows of the same partition key sequential in claim order', async () => {
+			const rows = [createRow('evt-1', 'pk-1'), createRow('evt-2', 'pk-2'), createRow('evt-3', 'pk-1')];
+			(mockEm.transactional as jest.Mock).mockResolvedValue(rows);
+			mockEm._conn.execute.mockResolvedValue([]);
+
+			const events: string[] = [];
+			handleEvent.mockImplementation(async ({ row }: any) => {
+				events.push(`start:${row.event_id}`);
+				await new Promise((resolve) => setTimeout(resolve, row.event_id === 'evt-1' ? 10 : 1));
+				events.push(`end:${row.event_id}`);
+			});
+
+			const processor = new IntegrationOutboxProcessor({
+				processorName: 'test-processor',
+				consumerName: 'test-consumer',
+				partitionConcurrency: 4,
+				em: mockEm as any,
+				logger: mockLogger,
+				handleEvent
+			});
+
+			await processor.processBatch(10);
+
+			expect(events.indexOf('start:evt-3')).toBeGreaterThan(events.indexOf('end:evt-1'));
+			expect(events.indexOf('end:evt-2')).toBeLessThan(events.indexOf('end:evt-1'));
+		});
+	});
 });
@@ -4,6 +4,7 @@ import { withOksaiWorkerContextFromJob } from '../context/worker-context.util';
 import { parseIntegrationEventEnvelopeFromOutboxRow } from './outbox-envelope';
 import { getOksaiMetricsRecorder } from '../metrics/eda.metrics';
 import { computeOutboxNextRetrySeconds, readOutboxMaxRetryCount, computeOutboxLagMs } from './outbox-retry.util';
+import { IntegrationOutboxFairShareClaimer, type IntegrationOutboxFairShareOptions } from './outbox-fair-share';
 import type { OksaiIntegrationEvent } from '@oksai/contracts';
 
 /**
@@ -27,6 +28,7 @@ export interface IntegrationOutboxRow {
 	payload: unknown;
 	retry_count: number;
 	occurred_at: string | Date;
+	deliver_at?: string | Date | null;
 }
 
 /**
@@ -55,6 +57,29 @@ export interface IntegrationOutboxProcessorOptions {
 	 */
 	claimStatus?: 'pending' | 'queued';
 
+	/**
+	 * @description 按 partition_key 并行处理的并发上限（可选）
+	 *
+	 * 业务规则：
+	 * - 未设置时保持串行处理，claim 仅按 occurred_at 排序（兼容原行为）
+	 * - 设置后启用"分区有序"模式：每个 partition_key 只 claim 队首一行（按 seq 排序，
+	 *   且不存在更早的未完成行：pending/queued/processing/failed），不同 partition_key 并行处理
+	 * - 队首行处于 processing 或等待重试时，同 key 的后续行不会被任何 Worker 实例 claim，
+	 *   从而在多实例下保证同 key 顺序；dead 行不再阻塞后续事件
+	 *
+	 * 注意：依赖 integration_outbox.seq 列（见 migrations/004-integration-outbox-partition-order.sql）
+	 */
+	partitionConcurrency?: number;
+
+	/**
+	 * @description 按租户公平 claim（可选）
+	 *
+	 * 说明：
+	 * - 未设置时按 occurred_at（分区有序模式按 seq）全局排序，单租户批量写入会挤占其他租户
+	 * - 设置后每批在租户间轮转取行，并按间隔采样租户积压指标
+	 */
+	fairShare?: IntegrationOutboxFairShareOptions;
+
 	/**
 	 * @description MikroORM EntityManager（用于执行 Outbox/Inbox SQL）
 	 */
@@ -74,6 +99,107 @@ export interface IntegrationOutboxProcessorOptions {
 	handleEvent: (input: { row: IntegrationOutboxRow; envelope: OksaiIntegrationEvent }) => Promise<void>;
 }
 
+/**
+ * @description 默认 claim：按 occurred_at 取到期行（不保证同 partition_key 顺序）
+ */
+const CLAIM_SQL = `
+	select
+		event_id,
+		tenant_id,
+		event_name,
+		event_version,
+		partition_key,
+		payload,
+		retry_count,
+		occurred_at,
+		deliver_at
+	from integration_outbox
+	where status in (?, 'failed')
+		and (next_retry_at is null or next_retry_at <= now())
+		and (deliver_at is null or deliver_at <= now())
+	order by occurred_at asc
+	limit ?
+	for update skip locked
+`;
+
+/**
+ * @description 分区有序 claim：只取各 partition_key 的队首行
+ *
+ * 说明：
+ * - 更早的同 key 行只要未到终态（published/dead），当前行就不是队首
+ * - 并发 Worker 对队首行 `skip locked` 后，其快照中的后续行仍有未完成前驱，因此不会越过队首
+ * - 未到期的定时事件（deliver_at）不视为前驱，不阻塞同 key 的后续事件
+ */
+const CLAIM_PARTITION_HEAD_SQL = `
+	select
+		o.event_id,
+		o.tenant_id,
+		o.event_name,
+		o.event_version,
+		o.partition_key,
+		o.payload,
+		o.retry_count,
+		o.occurred_at,
+		o.deliver_at
+	from integration_outbox o
+	where o.status in (?, 'failed')
+		and (o.next_retry_at is null or o.next_retry_at <= now())
+		and (o.deliver_at is null or o.deliver_at <= now())
+		and not exists (
+			select 1
+			from integration_outbox p
+			where p.partition_key = o.partition_key
+				and p.seq < o.seq
+				and p.status not in ('published', 'dead')
+				and (p.deliver_at is null or p.deliver_at <= now())
+		)
+	order by o.seq asc
+	limit ?
+	for update of o skip locked
+`;
+
+/**
+ * @description 默认 claim 的候选条件（公平 claim 复用）
+ */
+const CLAIM_WHERE = `o.status in (?, 'failed')
+	and (o.next_retry_at is null or o.next_retry_at <= now())
+	and (o.deliver_at is null or o.deliver_at <= now())`;
+
+/**
+ * @description 分区有序 claim 的候选条件（公平 claim 复用）
+ */
+const CLAIM_PARTITION_HEAD_WHERE = `${CLAIM_WHERE}
+	and not exists (
+		select 1
+		from integration_outbox p
+		where p.partition_key = o.partition_key
+			and p.seq < o.seq
+			and p.status not in ('published', 'dead')
+			and (p.deliver_at is null or p.deliver_at <= now())
+	)`;
+
+/**
+ * @description 未到期的待处理行（next_retry_at / deliver_at 在未来）
+ */
+export const DELAYED_EXISTS_SQL = `
+	select exists (
+		select 1
+		from integration_outbox
+		where status in (?, 'failed')
+			and (next_retry_at > now() or deliver_at > now())
+	) as delayed
+`;
+
+const CLAIM_COLUMNS = `o.event_id,
+	o.tenant_id,
+	o.event_name,
+	o.event_version,
+	o.partition_key,
+	o.payload,
+	o.retry_count,
+	o.occurred_at,
+	o.deliver_at`;
+
 /**
  * @description 集成事件 Outbox 处理器
  *
@@ -84,7 +210,16 @@ export interface IntegrationOutboxProcessorOptions {
  * - 处理成功标记 published，失败标记 failed 并设置重试
  */
 export class IntegrationOutboxProcessor {
-	constructor(private readonly options: IntegrationOutboxProcessorOptions) {}
+	private readonly fairShare: IntegrationOutboxFairShareClaimer | null;
+
+	constructor(private readonly options: IntegrationOutboxProcessorOptions) {
+		this.fairShare = options.fairShare
+			? new IntegrationOutboxFairShareClaimer(options.fairShare, {
+					name: options.processorName,
+					logger: options.logger
+				})
+			: null;
+	}
 
 	/**
 	 * @description 处理一批 Outbox 事件（claim → processing → handle → published/failed）
@@ -106,37 +241,85 @@ export class IntegrationOutboxProcessor {
 
 		if (rows.length === 0) return 0;
 
-		for (const row of rows) {
-			await this.handleOne(row);
+		const concurrency = this.options.partitionConcurrency;
+		if (concurrency === undefined) {
+			for (const row of rows) {
+				await this.handleOne(row);
+			}
+			return rows.length;
 		}
 
+		await this.handleByPartition(rows, Math.max(1, Math.floor(concurrency)));
 		return rows.length;
 	}
 
+	/**
+	 * @description 是否存在未到期的待处理行（重试退避中或定时投递未到期）
+	 *
+	 * 说明：
+	 * - 供 createPollingWorker 的 hasDelayedWork 使用：这类行到期时不会触发 NOTIFY
+	 *
+	 * @returns 存在时返回 true
+	 */
+	async hasDelayedRows(): Promise<boolean> {
+		const rows = (await this.options.em
+			.getConnection()
+			.execute(DELAYED_EXISTS_SQL, [this.options.claimStatus ?? 'pending'])) as Array<{ delayed: boolean }>;
+		return rows[0]?.delayed === true;
+	}
+
+	/**
+	 * @description 按 partition_key 分组并行处理：组内串行（保持 claim 顺序），组间并发不超过上限
+	 */
+	private async handleByPartition(rows: IntegrationOutboxRow[], concurrency: number): Promise<void> {
+		const groups = new Map<string, IntegrationOutboxRow[]>();
+		for (const row of rows) {
+			const group = groups.get(row.partition_key);
+			if (group) group.push(row);
+			else groups.set(row.partition_key, [row]);
+		}
+
+		const queue = [...groups.values()];
+		const runLane = async (): Promise<void> => {
+			for (let group = queue.shift(); group; group = queue.shift()) {
+				for (const row of group) {
+					await this.handleOne(row);
+				}
+			}
+		};
+
+		await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, runLane));
+	}
+
 	private async claimPendingOutboxRows(limit: number): Promise<IntegrationOutboxRow[]> {
 		const claimStatus = this.options.claimStatus ?? 'pending';
+		const partitionOrdered = this.options.partitionConcurrency !== undefined;
+
+		if (this.fairShare) {
+			await this.fairShare.sampleBacklog(this.options.em, {
+				where: partitionOrdered ? CLAIM_PARTITION_HEAD_WHERE : CLAIM_WHERE,
+				params: [claimStatus]
+			});
+		}
 
 		return await this.options.em.transactional(async (tem) => {
-			const rows = (await tem.getConnection().execute(
-				`
-				select
-					event_id,
-					tenant_id,
-					event_name,
-					event_version,
-					partition_key,
-					payload,
-					retry_count,
-					occurred_at
-				from integration_outbox
-				where status in (?, 'failed')
-					and (next_retry_at is null or next_retry_at <= now())
-				order by occurred_at asc
-				limit ?
-				for update skip locked
-				`,
-				[claimStatus, limit]
-			)) as IntegrationOutboxRow[];
+			const rows = this.fairShare
+				? await this.fairShare.claim<IntegrationOutboxRow>(
+						tem.getConnection(),
+						{
+							columns: CLAIM_COLUMNS,
+							where: partitionOrdered ? CLAIM_PARTITION_HEAD_WHERE : CLAIM_WHERE,
+							params: [claimStatus],
+							orderBy: partitionOrdered ? 'o.seq' : 'o.occurred_at'
+						},
+						limit
+					)
+				: ((await tem
+						.getConnection()
+						.execute(partitionOrdered ? CLAIM_PARTITION_HEAD_SQL : CLAIM_SQL, [
+							claimStatus,
+							limit
+						])) as IntegrationOutboxRow[]);
 
 			if (rows.length === 0) return [];
 
@@ -158,7 +341,7 @@ export class IntegrationOutboxProcessor {
 	private async handleOne(row: IntegrationOutboxRow): Promise<void> {
 		const metrics = getOksaiMetricsRecorder();
 		const startedAt = Date.now();
-		const outboxLagMs = computeOutboxLagMs(row.occurred_at);
+		const outboxLagMs = computeOutboxLagMs(row.deliver_at ?? row.occurred_at);
 
 		let envelope: OksaiIntegrationEvent;
 		try {
@@ -216,7 +399,20 @@ export class IntegrationOutboxProcessor {
 			locale: envelope.locale,
 			eventId: row.event_id,
 			eventName: row.event_name,
-			eventVersion: row.event_version
+			eventVersion: row.event_version,
+			traceparent: envelope.traceparent,
+			tracestate: envelope.tracestate
+		};
+		const workerOptions = {
+			span: {
+				name: `process ${row.event_name}`,
+				attributes: () => ({
+					'messaging.operation': 'process',
+					'messaging.consumer.group.name': this.options.consumerName,
+					'messaging.message.id': row.event_id,
+					'oksai.tenant_id': row.tenant_id
+				})
+			}
 		};
 
 		const run = withOksaiWorkerContextFromJob(async () => {
@@ -291,7 +487,7 @@ export class IntegrationOutboxProcessor {
 				},
 				`${this.options.processorName} Outbox 事件处理完成并发布。`
 			);
-		});
+		}, workerOptions);
 
 		try {
 			await run(job);
@@ -4,7 +4,13 @@ jest.mock('@oksai/context', () => ({
 
 import type { EntityManager } from '@mikro-orm/core';
 import { getOksaiRequestContextFromCurrent } from '@oksai/context';
-import { buildIntegrationEventFromCurrentContext, insertIntegrationOutboxEvent } from './outbox-producer';
+import { defineIntegrationEventSchema, oksaiIntegrationEventSchemas } from '@oksai/contracts';
+import { z } from 'zod';
+import {
+	buildIntegrationEventFromCurrentContext,
+	cancelScheduledIntegrationOutboxEvents,
+	insertIntegrationOutboxEvent
+} from './outbox-producer';
 
 describe('outbox-producer', () => {
 	it('buildIntegrationEventFromCurrentContext should throw when tenantId missing', () => {
@@ -43,6 +49,49 @@ describe('outbox-producer', () => {
 		expect(typeof evt.eventId).toBe('string');
 	});
 
+	it('buildIntegrationEventFromCurrentContext should carry traceparent/tracestate from ctx', () => {
+		(getOksaiRequestContextFromCurrent as unknown as jest.Mock).mockReturnValue({
+			tenantId: 't-001',
+			traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+			tracestate: 'vendor=abc'
+		});
+
+		const evt = buildIntegrationEventFromCurrentContext({
+			eventName: 'tenant.user.invited',
+			eventVersion: 1,
+			data: { invitedUserId: 'u-guest' }
+		});
+
+		expect(evt.traceparent).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+		expect(evt.tracestate).toBe('vendor=abc');
+	});
+
+	it('buildIntegrationEventFromCurrentContext should validate data against registered schema', () => {
+		(getOksaiRequestContextFromCurrent as unknown as jest.Mock).mockReturnValue({ tenantId: 't-001' });
+		oksaiIntegrationEventSchemas.register(
+			defineIntegrationEventSchema('tenant.created', 1, z.object({ name: z.string().min(1) }))
+		);
+
+		try {
+			expect(() =>
+				buildIntegrationEventFromCurrentContext({
+					eventName: 'tenant.created',
+					eventVersion: 1,
+					data: { name: '' }
+				})
+			).toThrow('集成事件 data 不符合契约 tenant.created@v1：name:');
+			expect(
+				buildIntegrationEventFromCurrentContext({
+					eventName: 'tenant.created',
+					eventVersion: 1,
+					data: { name: 'Acme', extra: true }
+				}).data
+			).toEqual({ name: 'Acme' });
+		} finally {
+			oksaiIntegrationEventSchemas.clear();
+		}
+	});
+
 	it('insertIntegrationOutboxEvent should insert with JSON payload', async () => {
 		const execute = jest.fn().mockResolvedValue([]);
 		const em = {
@@ -68,4 +117,102 @@ describe('outbox-producer', () => {
 		expect(args[1][1]).toBe('t-001');
 		expect(args[1][2]).toBe('tenant.user.invited');
 	});
+
+	it('insertIntegrationOutboxEvent should encrypt pii fields before insert', async () => {
+		const execute = jest.fn().mockResolvedValue([]);
+		const em = {
+			getConnection: () => ({ execute })
+		} as unknown as EntityManager;
+		const shredder = {
+			protect: jest
+				.fn()
+				.mockResolvedValue({ invitedUserId: 'u-guest', email: { $pii: { subjectId: 'u-guest' } } })
+		};
+
+		await insertIntegrationOutboxEvent({
+			em,
+			event: {
+				eventId: 'e-001',
+				eventName: 'tenant.user.invited',
+				eventVersion: 1,
+				tenantId: 't-001',
+				partitionKey: 't-001',
+				data: { invitedUserId: 'u-guest', email: 'guest@example.com' }
+			},
+			pii: { shredder: shredder as any, subjectId: 'u-guest', fields: ['email'] }
+		});
+
+		const payload = JSON.parse(execute.mock.calls[0][1][5]);
+		expect(shredder.protect).toHaveBeenCalledWith(
+			{ invitedUserId: 'u-guest', email: 'guest@example.com' },
+			{ subjectId: 'u-guest', tenantId: 't-001', fields: ['email'] }
+		);
+		expect(payload.classification).toBe('pii');
+		expect(payload.data.email).toEqual({ $pii: { subjectId: 'u-guest' } });
+	});
+
+	it('insertIntegrationOutboxEvent should schedule delivery and report ignored dedupe keys', async () => {
+		const execute = jest
+			.fn()
+			.mockResolvedValueOnce([{ event_id: 'e-001' }])
+			.mockResolvedValueOnce([]);
+		const em = {
+			getConnection: () => ({ execute })
+		} as unknown as EntityManager;
+		const event = {
+			eventId: 'e-001',
+			eventName: 'billing.trial.expired',
+			eventVersion: 1,
+			tenantId: 't-001',
+			partitionKey: 't-001'
+		};
+		const options = { deliverAfterMs: 7 * 24 * 3600_000, dedupeKey: 'trial-expiry:s-001' };
+
+		await expect(insertIntegrationOutboxEvent({ em, event, options })).resolves.toBe(true);
+		await expect(
+			insertIntegrationOutboxEvent({ em, event: { ...event, eventId: 'e-002' }, options })
+		).resolves.toBe(false);
+
+		const [sql, params] = execute.mock.calls[0];
+		expect(sql).toContain('on conflict (tenant_id, dedupe_key)');
+		expect(params.slice(7)).toEqual([null, 7 * 24 * 3600_000, 'trial-expiry:s-001']);
+	});
+
+	it('insertIntegrationOutboxEvent should reject invalid schedule options', async () => {
+		const execute = jest.fn();
+		const em = { getConnection: () => ({ execute }) } as unknown as EntityManager;
+		const event = { eventId: 'e-001', eventName: 'x', eventVersion: 1, tenantId: 't-001', partitionKey: 't-001' };
+
+		await expect(
+			insertIntegrationOutboxEvent({ em, event, options: { deliverAt: new Date(), deliverAfterMs: 1000 } })
+		).rejects.toThrow('deliverAt 与 deliverAfterMs 只能传入一个');
+		await expect(insertIntegrationOutboxEvent({ em, event, options: { deliverAfterMs: -1 } })).rejects.toThrow(
+			'deliverAfterMs 必须为非负整数'
+		);
+		await expect(
+			insertIntegrationOutboxEvent({ em, event, options: { deliverAt: new Date('invalid') } })
+		).rejects.toThrow('deliverAt 不是合法的时间');
+		expect(execute).not.toHaveBeenCalled();
+	});
+
+	it('cancelScheduledIntegrationOutboxEvents should delete pending rows of the current tenant', async () => {
+		(getOksaiRequestContextFromCurrent as jest.Mock).mockReturnValue({ tenantId: 't-001' });
+		const execute = jest.fn().mockResolvedValue([{ event_id: 'e-001' }]);
+		const em = { getConnection: () => ({ execute }) } as unknown as EntityManager;
+
+		await expect(cancelScheduledIntegrationOutboxEvents({ em, dedupeKey: 'trial-expiry:s-001' })).resolves.toBe(1);
+
+		const [sql, params] = execute.mock.calls[0];
+		expect(sql).toContain("status = 'pending'");
+		expect(params).toEqual(['t-001', 'trial-expiry:s-001']);
+	});
+
+	it('cancelScheduledIntegrationOutboxEvents should throw when tenantId missing', async () => {
+		(getOksaiRequestContextFromCurrent as jest.Mock).mockReturnValue({});
+		const em = { getConnection: () => ({ execute: jest.fn() }) } as unknown as EntityManager;
+
+		await expect(cancelScheduledIntegrationOutboxEvents({ em, dedupeKey: 'k' })).rejects.toThrow(
+			'缺少租户标识（tenantId）'
+		);
+	});
 });
@@ -1,7 +1,8 @@
 import { randomUUID } from 'crypto';
 import type { EntityManager } from '@mikro-orm/core';
 import { getOksaiRequestContextFromCurrent } from '@oksai/context';
-import type { OksaiIntegrationEvent } from '@oksai/contracts';
+import { oksaiIntegrationEventSchemas, type OksaiIntegrationEvent } from '@oksai/contracts';
+import { protectIntegrationEventPii, type IntegrationEventPiiOptions } from './outbox-pii';
 
 /**
  * @description 构建集成事件的输入参数
@@ -48,11 +49,13 @@ export interface BuildIntegrationEventInput<TData = unknown> {
  * 业务规则：
  * - `tenantId` 必须来自 CLS（鉴权/中间件写入），禁止调用方传入并覆盖
  * - `actorId/requestId/locale` 同样来自 CLS（若存在）
+ * - `traceparent/tracestate` 取自 CLS 中的当前 span，随 Outbox 持久化，供投递/消费端恢复父 span
  * - `partitionKey` 若未指定，默认使用 tenantId
+ * - (eventName, eventVersion) 已在 `oksaiIntegrationEventSchemas` 注册契约时校验 data
  *
  * @param input - 构建输入
  * @returns 集成事件信封
- * @throws Error 当 tenantId 缺失时抛出（避免产生"无租户事件"）
+ * @throws Error 当 tenantId 缺失或 data 不符合契约时抛出（避免产生"无租户事件"/格式错误的事件）
  */
 export function buildIntegrationEventFromCurrentContext<TData = unknown>(
 	input: BuildIntegrationEventInput<TData>
@@ -62,6 +65,8 @@ export function buildIntegrationEventFromCurrentContext<TData = unknown>(
 	if (!tenantId) {
 		throw new Error('缺少租户标识（tenantId）：禁止在无租户上下文下生产集成事件。');
 	}
+	const data = oksaiIntegrationEventSchemas.validateData(input.eventName, input.eventVersion, input.data) as
+		TData | undefined;
 
 	const nowIso = new Date().toISOString();
 
@@ -76,8 +81,10 @@ export function buildIntegrationEventFromCurrentContext<TData = unknown>(
 		actorId: ctx.userId,
 		requestId: ctx.requestId,
 		locale: ctx.locale,
+		traceparent: ctx.traceparent,
+		tracestate: ctx.tracestate,
 		classification: input.classification,
-		data: input.data
+		data
 	};
 }
 
@@ -89,6 +96,26 @@ export interface InsertIntegrationOutboxEventOptions {
 	 * @description 初始状态（默认 pending）
 	 */
 	status?: 'pending';
+
+	/**
+	 * @description 最早投递时间（可选；到期前不会被 claim）
+	 */
+	deliverAt?: Date;
+
+	/**
+	 * @description 延迟投递毫秒数（可选；以数据库当前时间为基准，与 deliverAt 二选一）
+	 */
+	deliverAfterMs?: number;
+
+	/**
+	 * @description 租户内去重键（可选）
+	 *
+	 * 说明：
+	 * - 同一租户同一去重键同时只有一个待投递事件，重复写入被忽略
+	 * - 可通过 `cancelScheduledIntegrationOutboxEvents` 按去重键取消尚未投递的事件
+	 * - 推荐包含业务主键，例如 "trial-expiry:<subscriptionId>"
+	 */
+	dedupeKey?: string;
 }
 
 /**
@@ -96,21 +123,28 @@ export interface InsertIntegrationOutboxEventOptions {
  *
  * 使用场景：
  * - 业务写库事务内：写业务数据 + 写 outbox，保证"写库成功则事件不丢"
+ * - 定时事件：传入 `deliverAt` / `deliverAfterMs`，到期前不会被 claim（例如试用到期、提醒邮件）
  *
  * 注意事项：
  * - 本函数不创建事务；请在调用侧确保处于 `em.transactional()`（或等价事务）内
  * - payload 建议存放完整 `OksaiIntegrationEvent`（稳定契约），避免消费方字段漂移
+ * - 传入 `pii` 时，`data` 中的 PII 字段以主体密钥加密后再落库（见 `protectIntegrationEventPii`）
  *
  * @param input - 写入参数
+ * @returns 是否写入（同一去重键已有待投递事件时返回 false）
+ * @throws Error 当 deliverAt / deliverAfterMs 同时传入或不合法时抛出
  */
 export async function insertIntegrationOutboxEvent(input: {
 	em: EntityManager;
 	event: OksaiIntegrationEvent;
 	options?: InsertIntegrationOutboxEventOptions;
-}): Promise<void> {
+	pii?: IntegrationEventPiiOptions;
+}): Promise<boolean> {
 	const status = input.options?.status ?? 'pending';
+	const schedule = normalizeIntegrationOutboxSchedule(input.options);
+	const event = input.pii ? await protectIntegrationEventPii(input.event, input.pii) : input.event;
 
-	await input.em.getConnection().execute(
+	const rows = (await input.em.getConnection().execute(
 		`
 		insert into integration_outbox (
 			event_id,
@@ -123,20 +157,104 @@ export async function insertIntegrationOutboxEvent(input: {
 			retry_count,
 			next_retry_at,
 			last_error,
+			deliver_at,
+			dedupe_key,
 			occurred_at,
 			created_at,
 			updated_at
 		)
-		values (?, ?, ?, ?, ?, ?, ?, 0, null, null, now(), now(), now())
+		values (
+			?, ?, ?, ?, ?, ?, ?, 0, null, null,
+			coalesce(cast(? as timestamptz), now() + cast(? as bigint) * interval '1 millisecond'),
+			?, now(), now(), now()
+		)
+		on conflict (tenant_id, dedupe_key) where dedupe_key is not null and status = 'pending' do nothing
+		returning event_id
 		`,
 		[
-			input.event.eventId,
-			input.event.tenantId,
-			input.event.eventName,
-			input.event.eventVersion,
-			input.event.partitionKey,
-			JSON.stringify(input.event),
-			status
+			event.eventId,
+			event.tenantId,
+			event.eventName,
+			event.eventVersion,
+			event.partitionKey,
+			JSON.stringify(event),
+			status,
+			schedule.deliverAt,
+			schedule.deliverAfterMs,
+			schedule.dedupeKey
 		]
-	);
+	)) as Array<{ event_id: string }>;
+	return schedule.dedupeKey === null || rows.length > 0;
+}
+
+/**
+ * @description 按去重键取消当前租户尚未投递的事件（删除 pending 行）
+ *
+ * 业务规则：
+ * - `tenantId` 必须来自 CLS，与 `buildIntegrationEventFromCurrentContext` 一致
+ * - 只取消 pending 行：已被 claim（processing）或已投递的事件不受影响
+ *
+ * 使用场景：
+ * - 用户已续费 → 取消"试用到期"事件；用户已完成操作 → 取消提醒事件
+ *
+ * @param input - 取消参数（建议与业务写库在同一事务内调用）
+ * @returns 取消的事件数
+ * @throws Error 当 tenantId 缺失或 dedupeKey 为空时抛出
+ */
+export async function cancelScheduledIntegrationOutboxEvents(input: {
+	em: EntityManager;
+	dedupeKey: string;
+}): Promise<number> {
+	const tenantId = getOksaiRequestContextFromCurrent().tenantId;
+	if (!tenantId) {
+		throw new Error('缺少租户标识（tenantId）：禁止在无租户上下文下取消集成事件。');
+	}
+	if (!input.dedupeKey?.trim()) {
+		throw new Error('取消定时集成事件失败：dedupeKey 不能为空。');
+	}
+
+	return await deleteScheduledIntegrationOutboxEvents(input.em, tenantId, input.dedupeKey);
+}
+
+/**
+ * @internal 供 IntegrationScheduledEventService 复用（tenantId 由调用方负责校验）
+ */
+export async function deleteScheduledIntegrationOutboxEvents(
+	em: EntityManager,
+	tenantId: string,
+	dedupeKey: string
+): Promise<number> {
+	const rows = (await em.getConnection().execute(
+		`
+		delete from integration_outbox
+		where tenant_id = ? and dedupe_key = ? and status = 'pending'
+		returning event_id
+		`,
+		[tenantId, dedupeKey]
+	)) as Array<{ event_id: string }>;
+	return rows.length;
+}
+
+/**
+ * @internal 校验并规范化延迟投递选项（供 InMemoryIntegrationOutbox 复用）
+ */
+export function normalizeIntegrationOutboxSchedule(options?: InsertIntegrationOutboxEventOptions): {
+	deliverAt: Date | null;
+	deliverAfterMs: number | null;
+	dedupeKey: string | null;
+} {
+	const { deliverAt, deliverAfterMs, dedupeKey } = options ?? {};
+	if (deliverAt !== undefined && deliverAfterMs !== undefined) {
+		throw new Error('写入 integration_outbox 失败：deliverAt 与 deliverAfterMs 只能传入一个。');
+	}
+	if (deliverAt !== undefined && !(deliverAt instanceof Date && Number.isFinite(deliverAt.getTime()))) {
+		throw new Error('写入 integration_outbox 失败：deliverAt 不是合法的时间。');
+	}
+	if (deliverAfterMs !== undefined && !(Number.isInteger(deliverAfterMs) && deliverAfterMs >= 0)) {
+		throw new Error(`写入 integration_outbox 失败：deliverAfterMs 必须为非负整数，实际为 ${deliverAfterMs}。`);
+	}
+	if (dedupeKey !== undefined && !dedupeKey.trim()) {
+		throw new Error('写入 integration_outbox 失败：dedupeKey 不能为空字符串。');
+	}
+	return { deliverAt: deliverAt ?? null, deliverAfterMs: deliverAfterMs ?? null, dedupeKey: dedupeKey ?? null };
 }
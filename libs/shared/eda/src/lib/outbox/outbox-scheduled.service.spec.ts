@@ -0,0 +1,40 @@
+import type { EntityManager } from '@mikro-orm/core';
+import { IntegrationScheduledEventService } from './outbox-scheduled.service';
+
+describe('IntegrationScheduledEventService', () => {
+	function createService(results: unknown[][]) {
+		const execute = jest.fn(async () => results.shift() ?? []);
+		const em = { getConnection: () => ({ execute }) } as unknown as EntityManager;
+		return { service: new IntegrationScheduledEventService({ em }), execute };
+	}
+
+	it('should list pending scheduled events of the tenant ordered by deliver_at', async () => {
+		const { service, execute } = createService([[{ event_id: 'e-001' }], [{ total: '1' }]]);
+		const deliverBefore = new Date('2026-02-01T00:00:00.000Z');
+
+		const result = await service.list('t-001', { eventName: 'billing.trial.expired', deliverBefore, limit: 500 });
+
+		expect(result).toEqual({ items: [{ event_id: 'e-001' }], total: 1 });
+		const [sql, params] = execute.mock.calls[0] as unknown as [string, unknown[]];
+		expect(sql).toContain(
+			"tenant_id = ? and status = 'pending' and deliver_at is not null and event_name = ? and deliver_at < ?"
+		);
+		expect(sql).toContain('order by deliver_at asc');
+		expect(params).toEqual(['t-001', 'billing.trial.expired', deliverBefore, 100, 0]);
+		expect(execute).toHaveBeenNthCalledWith(2, expect.any(String), [
+			't-001',
+			'billing.trial.expired',
+			deliverBefore
+		]);
+	});
+
+	it('should cancel pending events of the tenant by dedupe key', async () => {
+		const { service, execute } = createService([[{ event_id: 'e-001' }, { event_id: 'e-002' }]]);
+
+		await expect(service.cancel('t-001', 'trial-expiry:s-001')).resolves.toBe(2);
+
+		const [sql, params] = execute.mock.calls[0] as unknown as [string, unknown[]];
+		expect(sql).toContain('delete from integration_outbox');
+		expect(params).toEqual(['t-001', 'trial-expiry:s-001']);
+	});
+});
@@ -0,0 +1,141 @@
+import type { EntityManager } from '@mikro-orm/core';
+import { deleteScheduledIntegrationOutboxEvents } from './outbox-producer';
+
+/**
+ * @description 定时事件行数据结构
+ */
+export interface IntegrationScheduledEventRow {
+	event_id: string;
+	tenant_id: string;
+	event_name: string;
+	event_version: number;
+	partition_key: string;
+	dedupe_key: string | null;
+	deliver_at: string | Date;
+	occurred_at: string | Date;
+	payload: unknown;
+}
+
+/**
+ * @description 定时事件查询条件
+ */
+export interface IntegrationScheduledEventFilter {
+	/**
+	 * @description 事件名称（精确匹配）
+	 */
+	eventName?: string;
+
+	/**
+	 * @description 去重键（精确匹配）
+	 */
+	dedupeKey?: string;
+
+	/**
+	 * @description 投递时间上界（不包含）
+	 */
+	deliverBefore?: Date;
+
+	/**
+	 * @description 单页条数（默认 20，最大 100）
+	 */
+	limit?: number;
+
+	/**
+	 * @description 偏移量（默认 0）
+	 */
+	offset?: number;
+}
+
+/**
+ * @description 定时事件服务配置选项
+ */
+export interface IntegrationScheduledEventServiceOptions {
+	/**
+	 * @description MikroORM EntityManager
+	 */
+	em: EntityManager;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * @description 定时集成事件服务（按租户查看与取消尚未投递的定时事件）
+ *
+ * 业务规则：
+ * - 定时事件指带 deliver_at 且仍为 pending 的 integration_outbox 行（含已到期、尚未被 Worker claim 的行）
+ * - 所有查询与取消都限定在调用方传入的租户内
+ * - 取消即删除 pending 行；已被 claim（processing）或已投递的事件不受影响
+ */
+export class IntegrationScheduledEventService {
+	constructor(private readonly options: IntegrationScheduledEventServiceOptions) {}
+
+	/**
+	 * @description 分页查询租户的定时事件（按投递时间正序）
+	 *
+	 * @param tenantId - 租户 ID
+	 * @param filter - 查询条件
+	 * @returns 当前页数据与总数
+	 */
+	async list(
+		tenantId: string,
+		filter: IntegrationScheduledEventFilter = {}
+	): Promise<{ items: IntegrationScheduledEventRow[]; total: number }> {
+		const conditions: string[] = ['tenant_id = ?', "status = 'pending'", 'deliver_at is not null'];
+		const params: unknown[] = [tenantId];
+		if (filter.eventName) {
+			conditions.push('event_name = ?');
+			params.push(filter.eventName);
+		}
+		if (filter.dedupeKey) {
+			conditions.push('dedupe_key = ?');
+			params.push(filter.dedupeKey);
+		}
+		if (filter.deliverBefore) {
+			conditions.push('deliver_at < ?');
+			params.push(filter.deliverBefore);
+		}
+
+		const where = conditions.join(' and ');
+		const limit = Math.min(Math.max(1, Math.floor(filter.limit ?? DEFAULT_LIMIT)), MAX_LIMIT);
+		const offset = Math.max(0, Math.floor(filter.offset ?? 0));
+		const conn = this.options.em.getConnection();
+
+		const items = (await conn.execute(
+			`
+			select
+				event_id,
+				tenant_id,
+				event_name,
+				event_version,
+				partition_key,
+				dedupe_key,
+				deliver_at,
+				occurred_at,
+				payload
+			from integration_outbox
+			where ${where}
+			order by deliver_at asc, event_id asc
+			limit ? offset ?
+			`,
+			[...params, limit, offset]
+		)) as IntegrationScheduledEventRow[];
+		const counted = (await conn.execute(
+			`select count(*)::int as total from integration_outbox where ${where}`,
+			params
+		)) as Array<{ total: number | string }>;
+
+		return { items, total: Number(counted[0]?.total ?? 0) };
+	}
+
+	/**
+	 * @description 按去重键取消租户尚未投递的定时事件
+	 *
+	 * @param tenantId - 租户 ID
+	 * @param dedupeKey - 去重键
+	 * @returns 取消的事件数
+	 */
+	async cancel(tenantId: string, dedupeKey: string): Promise<number> {
+		return await deleteScheduledIntegrationOutboxEvents(this.options.em, tenantId, dedupeKey);
+	}
+}
@@ -0,0 +1,236 @@
+import {
+	configureOksaiTracing,
+	getOksaiRequestContextFromCurrent,
+	resetOksaiTracing,
+	type OksaiSpanData
+} from '@oksai/context';
+import { RedisStreamsIntegrationEventConsumer } from './redis-streams-event-consumer';
+
+describe('RedisStreamsIntegrationEventConsumer', () => {
+	const logger = { error: jest.fn(), log: jest.fn(), warn: jest.fn(), debug: jest.fn() } as any;
+
+	function entry(id: string, eventId: string): [string, string[]] {
+		return [
+			id,
+			[
+				'envelope',
+				JSON.stringify({
+					eventId,
+					eventName: 'tenant.user.invited',
+					eventVersion: 1,
+					tenantId: 't-1',
+					partitionKey: 't-1',
+					occurredAt: '2026-01-01T00:00:00.000Z'
+				})
+			]
+		];
+	}
+
+	/**
+	 * 创建 Mock Redis：xreadgroup 按队列返回，队列耗尽后停止消费者
+	 */
+	function createRedisMock(reads: unknown[], onDrained: () => void) {
+		const remaining = [...reads];
+		const calls: Record<string, unknown[][]> = { XGROUP: [], XREADGROUP: [], XACK: [], XAUTOCLAIM: [] };
+		const client = {
+			calls,
+			call: jest.fn(async (command: string, ...args: unknown[]) => {
+				calls[command].push(args);
+				if (command === 'XREADGROUP') {
+					if (remaining.length === 0) {
+						onDrained();
+						return null;
+					}
+					return remaining.shift();
+				}
+				if (command === 'XAUTOCLAIM') return ['0-0', []];
+				return 'OK';
+			}),
+			disconnect: jest.fn()
+		};
+		return { client, redis: { ...client, duplicate: jest.fn(() => client) } };
+	}
+
+	const OLD_ENV = process.env;
+	beforeEach(() => {
+		process.env = { ...OLD_ENV, REDIS_STREAMS_CONSUMER_ERROR_BACKOFF_MS: '0' };
+		logger.error.mockClear();
+		logger.warn.mockClear();
+	});
+	afterAll(() => {
+		process.env = OLD_ENV;
+	});
+
+	async function runUntilDrained(reads: unknown[], onEvent: jest.Mock, options: { claimIdleMs?: number } = {}) {
+		let drained!: () => void;
+		const done = new Promise<void>((resolve) => (drained = resolve));
+		const mock = createRedisMock(reads, () => drained());
+		const consumer = new RedisStreamsIntegrationEventConsumer({
+			logger,
+			enabled: true,
+			redis: mock.redis,
+			streamKey: 'events',
+			group: 'g1',
+			consumerName: 'c1',
+			blockMs: 10,
+			claimIdleMs: options.claimIdleMs ?? 0
+		});
+		await consumer.start({ onEvent });
+		await done;
+		await consumer.stop();
+		return mock;
+	}
+
+	it('should return null when REDIS_STREAMS_ENABLED is false', () => {
+		process.env.REDIS_STREAMS_ENABLED = 'false';
+		expect(RedisStreamsIntegrationEventConsumer.fromEnv({ logger, redis: {} as any })).toBeNull();
+	});
+
+	it('should create group, drain own pending entries first and ack on success', async () => {
+		const onEvent = jest.fn().mockResolvedValue(undefined);
+		const { client, redis } = await runUntilDrained(
+			[[['events', [entry('1-0', 'e-1')]]], [['events', []]], [['events', [entry('2-0', 'e-2')]]]],
+			onEvent
+		);
+
+		expect(redis.duplicate).toHaveBeenCalled();
+		expect(client.calls.XGROUP).toEqual([['CREATE', 'events', 'g1', '$', 'MKSTREAM']]);
+		const reads = client.calls.XREADGROUP;
+		expect(reads[0].slice(-1)).toEqual(['0']);
+		expect(reads[2]).toContain('BLOCK');
+		expect(reads[2].slice(-1)).toEqual(['>']);
+		expect(onEvent.mock.calls.map((c) => c[0].eventId)).toEqual(['e-1', 'e-2']);
+		expect(client.calls.XACK).toEqual([
+			['events', 'g1', '1-0'],
+			['events', 'g1', '2-0']
+		]);
+		expect(client.disconnect).toHaveBeenCalled();
+	});
+
+	it('should not ack failed entry and retry it from pending', async () => {
+		const onEvent = jest.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue(undefined);
+		const { client } = await runUntilDrained(
+			[
+				[['events', []]],
+				[['events', [entry('1-0', 'e-1'), entry('2-0', 'e-2')]]],
+				[['events', [entry('1-0', 'e-1'), entry('2-0', 'e-2')]]]
+			],
+			onEvent
+		);
+
+		const reads = client.calls.XREADGROUP;
+		expect(reads[2].slice(-1)).toEqual(['0']);
+		expect(onEvent.mock.calls.map((c) => c[0].eventId)).toEqual(['e-1', 'e-1', 'e-2']);
+		expect(client.calls.XACK.map((c) => c[2])).toEqual(['1-0', '2-0']);
+		expect(logger.error).toHaveBeenCalledTimes(1);
+	});
+
+	it('should ack and skip invalid envelopes', async () => {
+		const onEvent = jest.fn();
+		const { client } = await runUntilDrained(
+			[
+				[
+					[
+						'events',
+						[
+							['1-0', ['envelope', '{"eventId":1}']],
+							['2-0', null]
+						]
+					]
+				]
+			],
+			onEvent
+		);
+
+		expect(onEvent).not.toHaveBeenCalled();
+		expect(client.calls.XACK.map((c) => c[2])).toEqual(['1-0', '2-0']);
+	});
+
+	it('should accept CloudEvents binary entries', async () => {
+		const onEvent = jest.fn().mockResolvedValue(undefined);
+		const fields = [
+			'envelope',
+			JSON.stringify({ userId: 'u-1' }),
+			'ce_specversion',
+			'1.0',
+			'ce_id',
+			'evt-ce',
+			'ce_type',
+			'tenant.user.invited',
+			'ce_source',
+			'platform-api',
+			'ce_tenantid',
+			't-1',
+			'ce_partitionkey',
+			't-1',
+			'ce_eventversion',
+			'1'
+		];
+		const { client } = await runUntilDrained([[['events', [['1-0', fields]]]]], onEvent);
+
+		expect(onEvent.mock.calls[0][0]).toMatchObject({
+			eventId: 'evt-ce',
+			eventName: 'tenant.user.invited',
+			source: 'platform-api',
+			data: { userId: 'u-1' }
+		});
+		expect(client.calls.XACK.map((c) => c[2])).toEqual(['1-0']);
+	});
+
+	it('should run onEvent in a consumer span with tenant context parented by the traceparent field', async () => {
+		const spans: OksaiSpanData[] = [];
+		configureOksaiTracing({ serviceName: 'test', exporter: { export: (batch) => void spans.push(...batch) } });
+		try {
+			const onEvent = jest.fn(async () => getOksaiRequestContextFromCurrent());
+			const [id, fields] = entry('1-0', 'e-1');
+			await runUntilDrained(
+				[
+					[
+						[
+							'events',
+							[
+								[
+									id,
+									[
+										...fields,
+										'traceparent',
+										'00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+									]
+								]
+							]
+						]
+					]
+				],
+				onEvent
+			);
+
+			expect(spans[0]).toMatchObject({
+				name: 'process tenant.user.invited',
+				kind: 'consumer',
+				traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+				parentSpanId: '00f067aa0ba902b7',
+				attributes: {
+					'messaging.system': 'redis',
+					'messaging.destination.name': 'events',
+					'messaging.consumer.group.name': 'g1',
+					'messaging.message.id': 'e-1'
+				}
+			});
+			await expect(onEvent.mock.results[0].value).resolves.toMatchObject({
+				tenantId: 't-1',
+				traceparent: `00-4bf92f3577b34da6a3ce929d0e0e4736-${spans[0].spanId}-01`
+			});
+		} finally {
+			resetOksaiTracing();
+		}
+	});
+
+	it('should claim idle pending entries of other consumers', async () => {
+		jest.spyOn(Date, 'now').mockReturnValueOnce(0);
+		const onEvent = jest.fn().mockResolvedValue(undefined);
+		const { client } = await runUntilDrained([[['events', []]]], onEvent, { claimIdleMs: 1 });
+
+		expect(client.calls.XAUTOCLAIM).toContainEqual(['events', 'g1', 'c1', 1, '0-0', 'COUNT', 16]);
+		jest.restoreAllMocks();
+	});
+});
@@ -0,0 +1,396 @@
+import { parseOksaiIntegrationEvent, type OksaiIntegrationEvent } from '@oksai/contracts';
+import { withOksaiWorkerContextFromJob } from '../context/worker-context.util';
+import type { KafkaLogger } from '../kafka/kafka-event-producer';
+import { parseRedisStreamsEnvConfig, type RedisStreamsClientLike } from './redis-streams.config';
+
+/**
+ * @description Redis Streams 集成事件 Consumer 配置选项
+ */
+export interface RedisStreamsIntegrationEventConsumerOptions {
+	/**
+	 * @description 日志对象（与 Kafka 传输层共用结构）
+	 */
+	logger: KafkaLogger;
+
+	/**
+	 * @description 是否启用（默认 false）
+	 */
+	enabled?: boolean;
+
+	/**
+	 * @description Redis 客户端（通常为 `@oksai/redis` 注入的 OKSAI_REDIS；阻塞读取使用其 duplicate() 连接）
+	 */
+	redis: RedisStreamsClientLike;
+
+	/**
+	 * @description stream key
+	 */
+	streamKey: string;
+
+	/**
+	 * @description consumer group
+	 */
+	group: string;
+
+	/**
+	 * @description 组内消费者名称（同一 group 内唯一）
+	 */
+	consumerName: string;
+
+	/**
+	 * @description 单次读取条数（默认 16）
+	 */
+	batchSize?: number;
+
+	/**
+	 * @description XREADGROUP 阻塞等待毫秒数（默认 5000）
+	 */
+	blockMs?: number;
+
+	/**
+	 * @description 其他消费者 pending 条目空闲超过该毫秒数后被认领（默认 60000；0 表示不认领）
+	 */
+	claimIdleMs?: number;
+}
+
+/**
+ * @description Redis Streams Consumer 启动选项
+ */
+export interface RedisStreamsIntegrationEventConsumerStartOptions {
+	/**
+	 * @description 处理消息回调（已解析并校验为 OksaiIntegrationEvent）
+	 */
+	onEvent: (envelope: OksaiIntegrationEvent) => Promise<void>;
+}
+
+/**
+ * @description Stream 条目（XREADGROUP / XAUTOCLAIM 返回结构；已被裁剪的 pending 条目 fields 为 null）
+ */
+type StreamEntryLike = [id: string, fields: string[] | null];
+
+/**
+ * @description Redis Streams 集成事件 Consumer（consumer group）
+ *
+ * 业务定位：
+ * - 从 Redis Stream 消费集成事件信封，并回调给业务方处理（与 Kafka Consumer 契约一致）
+ *
+ * 确认与重试语义：
+ * - 处理成功后 XACK；信封非法时记录错误并 XACK 跳过（避免阻塞消费）
+ * - 处理失败时不 XACK：退避后重新读取本消费者的 pending 条目（原地重试，保持顺序）
+ * - 启动时先处理本消费者遗留的 pending 条目（崩溃恢复）
+ * - 其他消费者 pending 条目空闲超过 claimIdleMs 时通过 XAUTOCLAIM 认领（消费者下线恢复）
+ *
+ * 上下文与链路追踪（与 Kafka Consumer 一致）：
+ * - 回调在 CLS 上下文中执行（tenantId / actorId / requestId / locale），并为每条条目创建 consumer span
+ * - 条目中的 `traceparent/tracestate` 字段优先于信封中的值
+ *
+ * CloudEvents：
+ * - structured 模式：`envelope` 字段为完整 CloudEvent JSON
+ * - binary 模式：CloudEvents 属性写入 `ce_*` 字段，`envelope` 字段为 data JSON
+ *
+ * 注意事项：
+ * - group 不存在时自动创建（MKSTREAM，从最新位置开始）
+ * - 本 consumer 只负责"拉取 + 解析/校验 + 回调"，不直接耦合 Outbox/Inbox（由上层 worker 负责）
+ */
+export class RedisStreamsIntegrationEventConsumer {
+	private readonly enabled: boolean;
+	private readonly logger: KafkaLogger;
+	private readonly batchSize: number;
+	private readonly blockMs: number;
+	private readonly claimIdleMs: number;
+	private client: RedisStreamsClientLike | null = null;
+	private loop: Promise<void> | null = null;
+	private running = false;
+	private readPending = true;
+	private lastClaimAt = 0;
+
+	constructor(private readonly options: RedisStreamsIntegrationEventConsumerOptions) {
+		this.enabled = options.enabled ?? false;
+		this.logger = options.logger;
+		this.batchSize = options.batchSize ?? 16;
+		this.blockMs = options.blockMs ?? 5000;
+		this.claimIdleMs = options.claimIdleMs ?? 60_000;
+	}
+
+	/**
+	 * @description 从环境变量创建 Consumer（默认关闭）
+	 *
+	 * @param input - 依赖（redis 为 `@oksai/redis` 注入的客户端）
+	 * @param overrides - 覆盖项（例如 group/streamKey/consumerName）
+	 * @returns Consumer（启用时），否则返回 null
+	 */
+	static fromEnv(
+		input: { logger: KafkaLogger; redis?: RedisStreamsClientLike },
+		overrides: { group?: string; streamKey?: string; consumerName?: string } = {}
+	): RedisStreamsIntegrationEventConsumer | null {
+		const cfg = parseRedisStreamsEnvConfig();
+		if (!cfg.enabled) return null;
+		if (!input.redis) {
+			input.logger.warn(
+				'已启用 Redis Streams（REDIS_STREAMS_ENABLED=true），但未提供 Redis 客户端，Redis Streams Consumer 未创建。'
+			);
+			return null;
+		}
+		return new RedisStreamsIntegrationEventConsumer({
+			logger: input.logger,
+			enabled: cfg.enabled,
+			redis: input.redis,
+			streamKey: overrides.streamKey ?? cfg.streamKey,
+			group: overrides.group ?? cfg.group,
+			consumerName: overrides.consumerName ?? cfg.consumerName,
+			claimIdleMs: cfg.claimIdleMs
+		});
+	}
+
+	/**
+	 * @description 启动消费（创建 group + 后台读取循环）
+	 *
+	 * @param input - 启动参数
+	 */
+	async start(input: RedisStreamsIntegrationEventConsumerStartOptions): Promise<void> {
+		if (!this.enabled) return;
+		if (this.client) return;
+
+		this.client = this.options.redis.duplicate?.() ?? this.options.redis;
+		try {
+			await this.client.call('XGROUP', 'CREATE', this.options.streamKey, this.options.group, '$', 'MKSTREAM');
+		} catch (e) {
+			const errMsg = e instanceof Error ? e.message : String(e);
+			if (!errMsg.includes('BUSYGROUP')) {
+				this.releaseClient();
+				throw e;
+			}
+		}
+
+		this.running = true;
+		this.readPending = true;
+		this.lastClaimAt = Date.now();
+		this.logger.log(
+			{
+				streamKey: this.options.streamKey,
+				group: this.options.group,
+				consumerName: this.options.consumerName
+			},
+			'Redis Streams Consumer 已启动。'
+		);
+		this.loop = this.runLoop(input);
+	}
+
+	/**
+	 * @description 停止消费（等待当前条目处理完成）并释放阻塞读取连接
+	 */
+	async stop(): Promise<void> {
+		if (!this.client) return;
+		this.running = false;
+		if (this.client !== this.options.redis) this.client.disconnect?.();
+		await this.loop;
+		this.loop = null;
+		this.releaseClient();
+		this.logger.log('Redis Streams Consumer 已停止。');
+	}
+
+	private async runLoop(input: RedisStreamsIntegrationEventConsumerStartOptions): Promise<void> {
+		while (this.running) {
+			try {
+				await this.claimIdleEntries();
+				const entries = await this.readEntries();
+				if (this.readPending && entries.length === 0) {
+					this.readPending = false;
+					continue;
+				}
+				for (const entry of entries) {
+					if (!this.running) return;
+					if (!(await this.handleEntry(entry, input))) {
+						this.readPending = true;
+						await sleep(readRedisStreamsConsumerErrorBackoffMs());
+						break;
+					}
+				}
+			} catch (e) {
+				if (!this.running) return;
+				this.logger.error(
+					{ streamKey: this.options.streamKey, err: e instanceof Error ? e.message : String(e) },
+					'读取 Redis Stream 失败，将退避后重试。'
+				);
+				await sleep(readRedisStreamsConsumerErrorBackoffMs());
+			}
+		}
+	}
+
+	/**
+	 * @description 读取条目：pending 模式读取本消费者未确认条目（id=0），否则阻塞读取新条目（id=>）
+	 */
+	private async readEntries(): Promise<StreamEntryLike[]> {
+		const args: Array<string | number> = [
+			'GROUP',
+			this.options.group,
+			this.options.consumerName,
+			'COUNT',
+			this.batchSize
+		];
+		if (!this.readPending) args.push('BLOCK', this.blockMs);
+		args.push('STREAMS', this.options.streamKey, this.readPending ? '0' : '>');
+
+		const result = (await this.client!.call('XREADGROUP', ...args)) as Array<[string, StreamEntryLike[]]> | null;
+		return result?.[0]?.[1] ?? [];
+	}
+
+	/**
+	 * @description 认领其他消费者空闲过久的 pending 条目（按 claimIdleMs 节流）
+	 */
+	private async claimIdleEntries(): Promise<void> {
+		if (this.claimIdleMs <= 0 || Date.now() - this.lastClaimAt < this.claimIdleMs) return;
+		this.lastClaimAt = Date.now();
+
+		const result = (await this.client!.call(
+			'XAUTOCLAIM',
+			this.options.streamKey,
+			this.options.group,
+			this.options.consumerName,
+			this.claimIdleMs,
+			'0-0',
+			'COUNT',
+			this.batchSize
+		)) as [string, StreamEntryLike[]] | null;
+		const claimed = result?.[1]?.length ?? 0;
+		if (claimed > 0) {
+			this.readPending = true;
+			this.logger.warn(
+				{ streamKey: this.options.streamKey, group: this.options.group, claimed },
+				`已认领 ${claimed} 条空闲 pending 条目。`
+			);
+		}
+	}
+
+	/**
+	 * @description 处理单条条目
+	 *
+	 * @returns 是否可以继续处理后续条目（处理失败时返回 false）
+	 */
+	private async handleEntry(
+		[id, fields]: StreamEntryLike,
+		input: RedisStreamsIntegrationEventConsumerStartOptions
+	): Promise<boolean> {
+		const raw = readField(fields, 'envelope');
+		if (raw === undefined) {
+			this.logger.warn(
+				{ streamKey: this.options.streamKey, id },
+				'Redis Stream 条目缺少 envelope 字段，已跳过。'
+			);
+			await this.ackSafely(id);
+			return true;
+		}
+
+		const headers = readFields(fields);
+		let envelope: OksaiIntegrationEvent;
+		try {
+			envelope = parseOksaiIntegrationEvent(JSON.parse(raw), { headers });
+		} catch (e) {
+			this.logger.error(
+				{ streamKey: this.options.streamKey, id, err: e instanceof Error ? e.message : String(e) },
+				'Redis Stream 条目解析为集成事件信封失败，已跳过（避免阻塞消费）。'
+			);
+			await this.ackSafely(id);
+			return true;
+		}
+
+		const consume = withOksaiWorkerContextFromJob(() => input.onEvent(envelope), {
+			userIdKey: 'actorId',
+			span: {
+				name: `process ${envelope.eventName}`,
+				attributes: () => ({
+					'messaging.system': 'redis',
+					'messaging.operation': 'process',
+					'messaging.destination.name': this.options.streamKey,
+					'messaging.consumer.group.name': this.options.group,
+					'messaging.message.id': envelope.eventId,
+					'oksai.redis.stream_entry_id': id,
+					'oksai.tenant_id': envelope.tenantId
+				})
+			}
+		});
+
+		try {
+			await consume({
+				...envelope,
+				traceparent: headers.traceparent ?? envelope.traceparent,
+				tracestate: headers.traceparent ? headers.tracestate : envelope.tracestate
+			});
+		} catch (e) {
+			this.logger.error(
+				{
+					streamKey: this.options.streamKey,
+					id,
+					tenantId: envelope.tenantId,
+					eventId: envelope.eventId,
+					eventName: envelope.eventName,
+					err: e instanceof Error ? e.message : String(e)
+				},
+				'Redis Stream 条目处理失败，将触发重试（不 XACK）。'
+			);
+			return false;
+		}
+
+		await this.ackSafely(id);
+		return true;
+	}
+
+	private async ackSafely(id: string): Promise<void> {
+		try {
+			await this.client!.call('XACK', this.options.streamKey, this.options.group, id);
+		} catch (e) {
+			this.logger.error(
+				{ streamKey: this.options.streamKey, id, err: e instanceof Error ? e.message : String(e) },
+				'XACK 失败（条目将保留在 pending 中并被重新处理）。'
+			);
+		}
+	}
+
+	private releaseClient(): void {
+		if (this.client && this.client !== this.options.redis) this.client.disconnect?.();
+		this.client = null;
+	}
+}
+
+/**
+ * @description 读取 Redis Streams Consumer 错误退避毫秒数
+ *
+ * 环境变量：
+ * - `REDIS_STREAMS_CONSUMER_ERROR_BACKOFF_MS`：失败退避毫秒数（默认 1000，最大 30000）
+ *
+ * @returns 退避毫秒数
+ */
+function readRedisStreamsConsumerErrorBackoffMs(): number {
+	const raw = (process.env.REDIS_STREAMS_CONSUMER_ERROR_BACKOFF_MS ?? '').trim();
+	const parsed = raw.length > 0 ? Number(raw) : 1000;
+	if (!Number.isFinite(parsed)) return 1000;
+	return Math.max(0, Math.min(30_000, Math.floor(parsed)));
+}
+
+async function sleep(ms: number): Promise<void> {
+	if (ms <= 0) return;
+	await new Promise((r) => setTimeout(r, ms));
+}
+
+/**
+ * @description 扁平字段数组转为对象（用作 CloudEvents binary 模式的 headers）
+ */
+function readFields(fields: string[] | null): Record<string, string> {
+	const result: Record<string, string> = {};
+	if (!fields) return result;
+	for (let i = 0; i + 1 < fields.length; i += 2) {
+		if (fields[i] !== 'envelope') result[fields[i]] = fields[i + 1];
+	}
+	return result;
+}
+
+/**
+ * @description 从扁平字段数组（[k1, v1, k2, v2, ...]）读取字段值
+ */
+function readField(fields: string[] | null, name: string): string | undefined {
+	if (!fields) return undefined;
+	for (let i = 0; i + 1 < fields.length; i += 2) {
+		if (fields[i] === name) return fields[i + 1];
+	}
+	return undefined;
+}
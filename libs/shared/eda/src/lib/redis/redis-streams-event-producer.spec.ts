@@ -0,0 +1,83 @@
+import { RedisStreamsIntegrationEventProducer } from './redis-streams-event-producer';
+
+describe('RedisStreamsIntegrationEventProducer', () => {
+	const logger = { error: jest.fn(), log: jest.fn(), warn: jest.fn(), debug: jest.fn() } as any;
+
+	const envelope = {
+		eventId: 'evt-1',
+		eventName: 'tenant.user.invited',
+		eventVersion: 1,
+		tenantId: 't-1',
+		partitionKey: 't-1',
+		occurredAt: '2026-01-01T00:00:00.000Z',
+		data: { userId: 'u-1' }
+	} as any;
+
+	function createRedisMock() {
+		return { call: jest.fn().mockResolvedValue('1-0') };
+	}
+
+	const OLD_ENV = process.env;
+	beforeEach(() => {
+		process.env = { ...OLD_ENV };
+		logger.warn.mockClear();
+	});
+	afterAll(() => {
+		process.env = OLD_ENV;
+	});
+
+	it('should return null when REDIS_STREAMS_ENABLED is false', () => {
+		process.env.REDIS_STREAMS_ENABLED = 'false';
+		expect(RedisStreamsIntegrationEventProducer.fromEnv({ logger, redis: createRedisMock() })).toBeNull();
+	});
+
+	it('should return null and warn when enabled but redis client is missing', () => {
+		process.env.REDIS_STREAMS_ENABLED = 'true';
+		expect(RedisStreamsIntegrationEventProducer.fromEnv({ logger })).toBeNull();
+		expect(logger.warn).toHaveBeenCalled();
+	});
+
+	it('should XADD envelope with approximate trimming and routing fields', async () => {
+		const redis = createRedisMock();
+		const p = new RedisStreamsIntegrationEventProducer({
+			logger,
+			enabled: true,
+			redis,
+			streamKey: 'events',
+			maxLen: 1000
+		});
+		await p.connect();
+
+		await p.publish(envelope);
+
+		expect(redis.call).toHaveBeenCalledWith(
+			'XADD',
+			'events',
+			'MAXLEN',
+			'~',
+			1000,
+			'*',
+			'envelope',
+			JSON.stringify(envelope),
+			'event-id',
+			'evt-1',
+			'event-name',
+			'tenant.user.invited',
+			'tenant-id',
+			't-1',
+			'partition-key',
+			't-1'
+		);
+	});
+
+	it('should reject publish before connect', async () => {
+		const p = new RedisStreamsIntegrationEventProducer({
+			logger,
+			enabled: true,
+			redis: createRedisMock(),
+			streamKey: 'events'
+		});
+
+		await expect(p.publish(envelope)).rejects.toThrow('Redis Streams Producer 未连接');
+	});
+});
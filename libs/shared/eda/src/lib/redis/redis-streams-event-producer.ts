@@ -0,0 +1,139 @@
+import type { OksaiIntegrationEvent } from '@oksai/contracts';
+import type { KafkaLogger } from '../kafka/kafka-event-producer';
+import { parseRedisStreamsEnvConfig, type RedisStreamsClientLike } from './redis-streams.config';
+
+/**
+ * @description Redis Streams 集成事件 Producer 配置选项
+ */
+export interface RedisStreamsIntegrationEventProducerOptions {
+	/**
+	 * @description 日志对象（与 Kafka 传输层共用结构）
+	 */
+	logger: KafkaLogger;
+
+	/**
+	 * @description 是否启用（默认 false）
+	 */
+	enabled?: boolean;
+
+	/**
+	 * @description Redis 客户端（通常为 `@oksai/redis` 注入的 OKSAI_REDIS）
+	 */
+	redis: RedisStreamsClientLike;
+
+	/**
+	 * @description stream key
+	 */
+	streamKey: string;
+
+	/**
+	 * @description 近似裁剪上限（默认 100000；0 表示不裁剪）
+	 */
+	maxLen?: number;
+}
+
+/**
+ * @description Redis Streams 集成事件 Producer
+ *
+ * 业务定位：
+ * - 用于将 `OksaiIntegrationEvent` 发布到 Redis Stream（小规模部署替代 Kafka）
+ *
+ * 注意事项：
+ * - 条目字段：`envelope`（JSON 字符串）+ `event-id` / `event-name` / `tenant-id` / `partition-key`
+ * - 连接生命周期归 `@oksai/redis` 模块管理：connect/disconnect 只切换本 Producer 的可用状态，不关闭共享连接
+ * - 使用 `MAXLEN ~` 近似裁剪，避免 stream 无限增长；裁剪上限需大于消费积压量
+ */
+export class RedisStreamsIntegrationEventProducer {
+	private readonly enabled: boolean;
+	private readonly streamKey: string;
+	private readonly maxLen: number;
+	private readonly logger: KafkaLogger;
+	private connected = false;
+
+	constructor(private readonly options: RedisStreamsIntegrationEventProducerOptions) {
+		this.enabled = options.enabled ?? false;
+		this.streamKey = options.streamKey;
+		this.maxLen = options.maxLen ?? 100_000;
+		this.logger = options.logger;
+	}
+
+	/**
+	 * @description 从环境变量创建 Producer（默认关闭）
+	 *
+	 * @param input - 依赖（redis 为 `@oksai/redis` 注入的客户端）
+	 * @param overrides - 覆盖项（例如 streamKey）
+	 * @returns Producer（启用时），否则返回 null
+	 */
+	static fromEnv(
+		input: { logger: KafkaLogger; redis?: RedisStreamsClientLike },
+		overrides: { streamKey?: string } = {}
+	): RedisStreamsIntegrationEventProducer | null {
+		const cfg = parseRedisStreamsEnvConfig();
+		if (!cfg.enabled) return null;
+		if (!input.redis) {
+			input.logger.warn(
+				'已启用 Redis Streams（REDIS_STREAMS_ENABLED=true），但未提供 Redis 客户端，Redis Streams Producer 未创建。'
+			);
+			return null;
+		}
+		return new RedisStreamsIntegrationEventProducer({
+			logger: input.logger,
+			enabled: cfg.enabled,
+			redis: input.redis,
+			streamKey: overrides.streamKey ?? cfg.streamKey,
+			maxLen: cfg.maxLen
+		});
+	}
+
+	/**
+	 * @description 标记 Producer 可用（连接由 `@oksai/redis` 模块建立）
+	 */
+	async connect(): Promise<void> {
+		if (!this.enabled) return;
+		if (this.connected) return;
+		this.connected = true;
+		this.logger.log({ streamKey: this.streamKey, maxLen: this.maxLen }, 'Redis Streams Producer 已就绪。');
+	}
+
+	/**
+	 * @description 标记 Producer 不可用（不关闭共享连接）
+	 */
+	async disconnect(): Promise<void> {
+		if (!this.connected) return;
+		this.connected = false;
+		this.logger.log('Redis Streams Producer 已停止。');
+	}
+
+	/**
+	 * @description 发布一条集成事件到 Redis Stream
+	 *
+	 * @param envelope - 集成事件信封
+	 * @throws Error 当未启用或未连接时抛出
+	 */
+	async publish(envelope: OksaiIntegrationEvent): Promise<void> {
+		if (!this.enabled) {
+			throw new Error('Redis Streams Producer 未启用：请设置 REDIS_STREAMS_ENABLED=true。');
+		}
+		if (!this.connected) {
+			throw new Error('Redis Streams Producer 未连接：请先调用 connect()。');
+		}
+
+		const trim = this.maxLen > 0 ? ['MAXLEN', '~', this.maxLen] : [];
+		await this.options.redis.call(
+			'XADD',
+			this.streamKey,
+			...trim,
+			'*',
+			'envelope',
+			JSON.stringify(envelope),
+			'event-id',
+			envelope.eventId,
+			'event-name',
+			envelope.eventName,
+			'tenant-id',
+			envelope.tenantId,
+			'partition-key',
+			envelope.partitionKey
+		);
+	}
+}
@@ -0,0 +1,77 @@
+import { hostname } from 'os';
+
+/**
+ * @description Redis Streams 传输层配置接口
+ *
+ * 设计目标：
+ * - 为小规模部署提供 Kafka 之外的集成事件传输层（复用 `@oksai/redis` 的连接）
+ * - 默认关闭（`enabled: false`），与 Kafka 配置保持一致
+ */
+export interface OksaiRedisStreamsConfig {
+	enabled: boolean;
+	streamKey: string;
+	group: string;
+	consumerName: string;
+
+	/**
+	 * @description 近似裁剪上限（XADD MAXLEN ~；0 表示不裁剪）
+	 */
+	maxLen: number;
+
+	/**
+	 * @description 其他消费者 pending 条目空闲超过该毫秒数后被认领（XAUTOCLAIM）
+	 */
+	claimIdleMs: number;
+}
+
+/**
+ * @description Redis Stream 客户端（与 ioredis 实例结构兼容，避免 eda 直接依赖 ioredis）
+ *
+ * 说明：
+ * - 业务侧通过 `@Inject(OKSAI_REDIS)` 拿到 `@oksai/redis` 装配的客户端后直接传入
+ * - 统一经 `call()` 发送 Stream 命令（ioredis 仍会为 key 叠加 keyPrefix）
+ */
+export interface RedisStreamsClientLike {
+	call(command: string, ...args: Array<string | number>): Promise<unknown>;
+	duplicate?(): RedisStreamsClientLike;
+	disconnect?(): void;
+}
+
+/**
+ * @description 从环境变量解析 Redis Streams 配置
+ *
+ * 环境变量：
+ * - `REDIS_STREAMS_ENABLED`：是否启用（默认 false）
+ * - `REDIS_STREAMS_KEY`：stream key（默认 `oksai.integration-events`；会叠加 `REDIS_KEY_PREFIX`）
+ * - `REDIS_STREAMS_GROUP`：consumer group（默认 `oksai.integration-consumer`）
+ * - `REDIS_STREAMS_CONSUMER_NAME`：组内消费者名称（默认 `${hostname}-${pid}`）
+ * - `REDIS_STREAMS_MAXLEN`：近似裁剪上限（默认 100000；0 表示不裁剪）
+ * - `REDIS_STREAMS_CLAIM_IDLE_MS`：认领空闲 pending 条目的阈值（默认 60000）
+ *
+ * 注意事项：
+ * - 连接地址使用 `@oksai/redis` 的 `REDIS_URL`，本配置不重复声明
+ *
+ * @returns Redis Streams 配置对象
+ */
+export function parseRedisStreamsEnvConfig(): OksaiRedisStreamsConfig {
+	const enabledRaw = (process.env.REDIS_STREAMS_ENABLED ?? '').trim().toLowerCase();
+	const enabled = enabledRaw === 'true' || enabledRaw === '1';
+
+	const streamKey =
+		(process.env.REDIS_STREAMS_KEY ?? 'oksai.integration-events').trim() || 'oksai.integration-events';
+	const group =
+		(process.env.REDIS_STREAMS_GROUP ?? 'oksai.integration-consumer').trim() || 'oksai.integration-consumer';
+	const consumerName = (process.env.REDIS_STREAMS_CONSUMER_NAME ?? '').trim() || `${hostname()}-${process.pid}`;
+	const maxLen = readNonNegativeInt(process.env.REDIS_STREAMS_MAXLEN, 100_000);
+	const claimIdleMs = readNonNegativeInt(process.env.REDIS_STREAMS_CLAIM_IDLE_MS, 60_000);
+
+	return { enabled, streamKey, group, consumerName, maxLen, claimIdleMs };
+}
+
+function readNonNegativeInt(raw: string | undefined, defaultValue: number): number {
+	const trimmed = (raw ?? '').trim();
+	if (trimmed.length === 0) return defaultValue;
+	const parsed = Number(trimmed);
+	if (!Number.isInteger(parsed) || parsed < 0) return defaultValue;
+	return parsed;
+}
@@ -0,0 +1,42 @@
+import type { EntityManager } from '@mikro-orm/core';
+import { IntegrationSagaAdminService } from './saga-admin.service';
+
+describe('IntegrationSagaAdminService', () => {
+	function createService(results: unknown[][]) {
+		const execute = jest.fn(async () => results.shift() ?? []);
+		const em = { getConnection: () => ({ execute }) } as unknown as EntityManager;
+		return { service: new IntegrationSagaAdminService({ em, stuckAfterMs: 60_000 }), execute };
+	}
+
+	it('should list in-flight sagas by default', async () => {
+		const { service, execute } = createService([[{ id: 's-1' }], [{ total: '1' }]]);
+
+		const result = await service.list({ sagaName: 'tenant.onboarding', limit: 500 });
+
+		expect(result).toEqual({ items: [{ id: 's-1' }], total: 1 });
+		const [sql, params] = execute.mock.calls[0] as unknown as [string, unknown[]];
+		expect(sql).toContain(`status in ('running', 'compensating') and saga_name = ?`);
+		expect(params).toEqual(['tenant.onboarding', 100, 0]);
+	});
+
+	it('should filter stuck sagas by failed status or stale progress', async () => {
+		const { service, execute } = createService([[], [{ total: 0 }]]);
+
+		await service.list({ stuck: true, status: 'completed', tenantId: 't-001' });
+
+		const [sql, params] = execute.mock.calls[1] as unknown as [string, unknown[]];
+		expect(sql).toContain(`status = 'failed' or`);
+		expect(sql).not.toContain('status = ?');
+		expect(params).toEqual(['60000', 't-001']);
+	});
+
+	it('should convert summary counts to numbers', async () => {
+		const { service } = createService([
+			[{ saga_name: 'tenant.onboarding', status: 'running', count: '3', stuck: '1' }]
+		]);
+
+		await expect(service.summarize()).resolves.toEqual([
+			{ saga_name: 'tenant.onboarding', status: 'running', count: 3, stuck: 1 }
+		]);
+	});
+});
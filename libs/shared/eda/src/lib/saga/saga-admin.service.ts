@@ -0,0 +1,193 @@
+import type { EntityManager } from '@mikro-orm/core';
+import { SAGA_COLUMNS, type IntegrationSagaInstanceRow, type IntegrationSagaStatus } from './saga-manager';
+
+/**
+ * @description Saga 实例查询条件
+ */
+export interface IntegrationSagaFilter {
+	/**
+	 * @description Saga 名称（精确匹配）
+	 */
+	sagaName?: string;
+
+	/**
+	 * @description 租户 ID（精确匹配）
+	 */
+	tenantId?: string;
+
+	/**
+	 * @description 关联 ID（精确匹配）
+	 */
+	correlationId?: string;
+
+	/**
+	 * @description 实例状态（缺省返回进行中的实例：running / compensating）
+	 */
+	status?: IntegrationSagaStatus;
+
+	/**
+	 * @description 只返回卡住的实例（failed，或进行中且超过 stuckAfterMs 没有任何进展）
+	 */
+	stuck?: boolean;
+
+	/**
+	 * @description 单页条数（默认 20，最大 100）
+	 */
+	limit?: number;
+
+	/**
+	 * @description 偏移量（默认 0）
+	 */
+	offset?: number;
+}
+
+/**
+ * @description Saga 实例按名称与状态的数量统计
+ */
+export interface IntegrationSagaSummaryRow {
+	saga_name: string;
+	status: IntegrationSagaStatus;
+	count: number;
+	stuck: number;
+}
+
+/**
+ * @description Saga 运维服务配置选项
+ */
+export interface IntegrationSagaAdminServiceOptions {
+	/**
+	 * @description MikroORM EntityManager
+	 */
+	em: EntityManager;
+
+	/**
+	 * @description 进行中的实例超过该时长没有任何进展视为卡住（默认 30 分钟）
+	 */
+	stuckAfterMs?: number;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * @description Saga 运维服务（只读）
+ *
+ * 使用场景：
+ * - 运维查看进行中与卡住的 Saga 实例、当前步骤、最近错误与状态迁移记录
+ *
+ * 说明：
+ * - "卡住"包括：补偿失败次数耗尽（failed）；或进行中但 updated_at 超过 stuckAfterMs 未变化
+ *   （通常是定时唤醒 Worker 未运行，或完成事件迟迟未到达且超时过长）
+ */
+export class IntegrationSagaAdminService {
+	private readonly stuckAfterMs: number;
+
+	constructor(private readonly options: IntegrationSagaAdminServiceOptions) {
+		this.stuckAfterMs = Math.max(1000, options.stuckAfterMs ?? 30 * 60_000);
+	}
+
+	/**
+	 * @description 分页查询 Saga 实例（按最近更新时间正序，最久未进展的在前）
+	 *
+	 * @param filter - 查询条件
+	 * @returns 当前页数据与总数
+	 */
+	async list(filter: IntegrationSagaFilter = {}): Promise<{ items: IntegrationSagaInstanceRow[]; total: number }> {
+		const conditions: string[] = [];
+		const params: unknown[] = [];
+		if (filter.stuck) {
+			conditions.push(
+				`(status = 'failed' or (status in ('running', 'compensating') and updated_at < now() - (?::text || ' milliseconds')::interval))`
+			);
+			params.push(String(this.stuckAfterMs));
+		} else if (filter.status) {
+			conditions.push('status = ?');
+			params.push(filter.status);
+		} else {
+			conditions.push(`status in ('running', 'compensating')`);
+		}
+		if (filter.sagaName) {
+			conditions.push('saga_name = ?');
+			params.push(filter.sagaName);
+		}
+		if (filter.tenantId) {
+			conditions.push('tenant_id = ?');
+			params.push(filter.tenantId);
+		}
+		if (filter.correlationId) {
+			conditions.push('correlation_id = ?');
+			params.push(filter.correlationId);
+		}
+
+		const where = conditions.join(' and ');
+		const limit = Math.min(Math.max(1, Math.floor(filter.limit ?? DEFAULT_LIMIT)), MAX_LIMIT);
+		const offset = Math.max(0, Math.floor(filter.offset ?? 0));
+		const conn = this.options.em.getConnection();
+
+		const items = (await conn.execute(
+			`
+			select ${SAGA_COLUMNS}
+			from integration_saga_instance
+			where ${where}
+			order by updated_at asc, id asc
+			limit ? offset ?
+			`,
+			[...params, limit, offset]
+		)) as IntegrationSagaInstanceRow[];
+		const counted = (await conn.execute(
+			`select count(*)::int as total from integration_saga_instance where ${where}`,
+			params
+		)) as Array<{ total: number | string }>;
+
+		return { items, total: Number(counted[0]?.total ?? 0) };
+	}
+
+	/**
+	 * @description 查询单个 Saga 实例（含流程数据与状态迁移记录）
+	 *
+	 * @param id - 实例 ID
+	 * @returns 实例；不存在时返回 null
+	 */
+	async get(id: string): Promise<IntegrationSagaInstanceRow | null> {
+		const rows = (await this.options.em.getConnection().execute(
+			`
+			select ${SAGA_COLUMNS}
+			from integration_saga_instance
+			where id = ?
+			limit 1
+			`,
+			[id]
+		)) as IntegrationSagaInstanceRow[];
+		return rows[0] ?? null;
+	}
+
+	/**
+	 * @description 按 Saga 名称与状态统计实例数（含卡住数；已结束的实例只统计最近 24 小时）
+	 */
+	async summarize(): Promise<IntegrationSagaSummaryRow[]> {
+		const rows = (await this.options.em.getConnection().execute(
+			`
+			select
+				saga_name,
+				status,
+				count(*)::int as count,
+				count(*) filter (
+					where status = 'failed'
+						or (status in ('running', 'compensating') and updated_at < now() - (?::text || ' milliseconds')::interval)
+				)::int as stuck
+			from integration_saga_instance
+			where status in ('running', 'compensating', 'failed')
+				or finished_at >= now() - interval '24 hours'
+			group by saga_name, status
+			order by saga_name asc, status asc
+			`,
+			[String(this.stuckAfterMs)]
+		)) as Array<{
+			saga_name: string;
+			status: IntegrationSagaStatus;
+			count: number | string;
+			stuck: number | string;
+		}>;
+		return rows.map((r) => ({ ...r, count: Number(r.count), stuck: Number(r.stuck) }));
+	}
+}
@@ -0,0 +1,346 @@
+import type { EntityManager } from '@mikro-orm/core';
+import { getOksaiRequestContextFromCurrent } from '@oksai/context';
+import type { OksaiIntegrationEvent } from '@oksai/contracts';
+import { defineIntegrationSaga, listIntegrationSagaEventNames, type IntegrationSagaCommand } from './saga.definition';
+import { IntegrationSagaManager, type IntegrationSagaInstanceRow } from './saga-manager';
+import { defineIntegrationSagaSubscribers } from './saga.subscriber';
+
+type OnboardingState = { ownerEmail: string; ownerId?: string };
+
+/**
+ * 内存版 integration_saga_instance（只覆盖管理器使用的语句）
+ */
+function createSagaStore() {
+	const rows = new Map<string, IntegrationSagaInstanceRow>();
+	const execute = jest.fn(async (sql: string, params: unknown[] = []) => {
+		if (sql.includes('insert into integration_saga_instance')) {
+			const [id, sagaName, tenantId, correlationId, stepName, state] = params as string[];
+			const exists = [...rows.values()].some(
+				(r) => r.saga_name === sagaName && r.tenant_id === tenantId && r.correlation_id === correlationId
+			);
+			if (exists) return [];
+			const row: IntegrationSagaInstanceRow = {
+				id,
+				saga_name: sagaName,
+				tenant_id: tenantId,
+				correlation_id: correlationId,
+				status: 'running',
+				current_step: 0,
+				current_step_name: stepName,
+				step_attempts: 0,
+				awaiting_event_name: null,
+				deadline_at: null,
+				state: JSON.parse(state),
+				history: [],
+				last_error: null,
+				started_at: new Date(),
+				updated_at: new Date(),
+				finished_at: null
+			};
+			rows.set(id, row);
+			return [{ ...row }];
+		}
+		if (sql.includes('where saga_name = ? and tenant_id = ? and correlation_id = ?')) {
+			const [sagaName, tenantId, correlationId] = params;
+			return [...rows.values()]
+				.filter(
+					(r) =>
+						r.saga_name === sagaName &&
+						r.tenant_id === tenantId &&
+						r.correlation_id === correlationId &&
+						r.status === 'running'
+				)
+				.map((r) => ({ ...r }));
+		}
+		if (sql.includes('where id = ? and status in')) {
+			const row = rows.get(params[0] as string);
+			return row && isDue(row) ? [{ ...row }] : [];
+		}
+		if (sql.includes('select id')) {
+			return [...rows.values()].filter(isDue).map((r) => ({ id: r.id }));
+		}
+		if (sql.includes('update integration_saga_instance')) {
+			const [
+				status,
+				currentStep,
+				stepName,
+				attempts,
+				awaiting,
+				deadline,
+				state,
+				history,
+				lastError,
+				finished,
+				id
+			] = params;
+			const row = rows.get(id as string)!;
+			Object.assign(row, {
+				status,
+				current_step: currentStep,
+				current_step_name: stepName,
+				step_attempts: attempts,
+				awaiting_event_name: awaiting,
+				deadline_at: deadline,
+				state: JSON.parse(state as string),
+				history: JSON.parse(history as string),
+				last_error: lastError,
+				updated_at: new Date(),
+				finished_at: finished ? new Date() : null
+			});
+			return [];
+		}
+		throw new Error(`未预期的 SQL：${sql}`);
+	});
+	const conn = { execute };
+	const em = {
+		getConnection: () => conn,
+		transactional: async (fn: (tem: unknown) => Promise<unknown>) => await fn({ getConnection: () => conn })
+	} as unknown as EntityManager;
+	const only = () => [...rows.values()][0];
+	return { em, rows, only };
+}
+
+function isDue(row: IntegrationSagaInstanceRow): boolean {
+	return (
+		(row.status === 'running' || row.status === 'compensating') &&
+		row.deadline_at !== null &&
+		new Date(row.deadline_at).getTime() <= Date.now()
+	);
+}
+
+function event(eventName: string, data: unknown = {}, overrides: Partial<OksaiIntegrationEvent> = {}) {
+	return {
+		eventId: `evt-${eventName}`,
+		eventName,
+		eventVersion: 1,
+		tenantId: 't-001',
+		partitionKey: 't-001',
+		requestId: 'req-001',
+		data,
+		...overrides
+	} satisfies OksaiIntegrationEvent;
+}
+
+const onboardingSaga = defineIntegrationSaga<OnboardingState>({
+	sagaName: 'tenant.onboarding',
+	startEvent: 'tenant.created',
+	initialState: (e) => ({ ownerEmail: (e.data as { ownerEmail: string }).ownerEmail }),
+	stepTimeoutMs: 60_000,
+	steps: [
+		{
+			stepName: 'provision-owner',
+			command: ({ state, sagaId }) => ({ type: 'identity.provision-owner', email: state.ownerEmail, sagaId }),
+			awaitEvent: 'identity.owner.provisioned',
+			failureEvents: ['identity.owner.provision-failed'],
+			onCompleted: (state, e) => ({ ...state, ownerId: (e?.data as { userId: string }).userId }),
+			compensate: ({ state }) => ({ type: 'identity.remove-owner', email: state.ownerEmail })
+		},
+		{
+			stepName: 'create-default-roles',
+			command: ({ state }) => ({ type: 'authorization.create-default-roles', ownerId: state.ownerId }),
+			compensate: () => ({ type: 'authorization.remove-default-roles' })
+		},
+		{
+			stepName: 'activate-tenant',
+			command: () => ({ type: 'tenant.activate' }),
+			awaitEvent: 'tenant.activated',
+			timeoutMs: 1000,
+			maxAttempts: 2
+		}
+	]
+});
+
+describe('IntegrationSagaManager', () => {
+	const logger = { debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+	const now = new Date('2026-03-01T00:00:00.000Z').getTime();
+
+	beforeEach(() => {
+		jest.useFakeTimers({ now });
+		jest.clearAllMocks();
+	});
+
+	afterEach(() => jest.useRealTimers());
+
+	function createManager(execute: (command: IntegrationSagaCommand) => Promise<unknown>) {
+		const store = createSagaStore();
+		const commandBus = { execute: jest.fn(execute) };
+		const manager = new IntegrationSagaManager({
+			managerName: 'test',
+			em: store.em,
+			logger,
+			commandBus,
+			sagas: [onboardingSaga],
+			retryDelayMs: 1000,
+			compensationMaxAttempts: 2
+		});
+		return { ...store, commandBus, manager };
+	}
+
+	function advance(ms: number) {
+		jest.setSystemTime(Date.now() + ms);
+	}
+
+	it('should run steps in order and complete on awaited events', async () => {
+		const contexts: unknown[] = [];
+		const { manager, commandBus, only } = createManager(async () => {
+			contexts.push(getOksaiRequestContextFromCurrent());
+		});
+
+		await manager.handleEvent(event('tenant.created', { ownerEmail: 'owner@example.com' }));
+		expect(only()).toMatchObject({
+			status: 'running',
+			current_step_name: 'provision-owner',
+			awaiting_event_name: 'identity.owner.provisioned'
+		});
+		expect(contexts[0]).toMatchObject({ tenantId: 't-001', requestId: 'req-001' });
+
+		await manager.handleEvent(event('identity.owner.provisioned', { userId: 'u-001' }));
+		expect(only()).toMatchObject({
+			status: 'running',
+			current_step_name: 'activate-tenant',
+			awaiting_event_name: 'tenant.activated',
+			state: { ownerEmail: 'owner@example.com', ownerId: 'u-001' }
+		});
+
+		await manager.handleEvent(event('tenant.activated'));
+
+		expect(commandBus.execute.mock.calls.map(([c]) => c.type)).toEqual([
+			'identity.provision-owner',
+			'authorization.create-default-roles',
+			'tenant.activate'
+		]);
+		expect(commandBus.execute.mock.calls[1][0]).toMatchObject({ ownerId: 'u-001' });
+		expect(only()).toMatchObject({ status: 'completed', current_step_name: null, deadline_at: null });
+		expect(only().finished_at).not.toBeNull();
+		expect((only().history as Array<{ type: string }>).map((h) => h.type)).toEqual([
+			'started',
+			'command_dispatched',
+			'step_completed',
+			'command_dispatched',
+			'step_completed',
+			'command_dispatched',
+			'step_completed',
+			'completed'
+		]);
+	});
+
+	it('should ignore duplicate start events and events of other correlations', async () => {
+		const { manager, commandBus, rows } = createManager(async () => undefined);
+
+		await manager.handleEvent(event('tenant.created', { ownerEmail: 'owner@example.com' }));
+		await manager.handleEvent(event('tenant.created', { ownerEmail: 'owner@example.com' }, { eventId: 'evt-dup' }));
+		await manager.handleEvent(event('identity.owner.provisioned', { userId: 'u-002' }, { requestId: 'req-other' }));
+
+		expect(rows.size).toBe(1);
+		expect(commandBus.execute).toHaveBeenCalledTimes(1);
+	});
+
+	it('should redispatch on timeout and compensate dispatched steps in reverse once attempts are exhausted', async () => {
+		const { manager, commandBus, only } = createManager(async () => undefined);
+		await manager.handleEvent(event('tenant.created', { ownerEmail: 'owner@example.com' }));
+		await manager.handleEvent(event('identity.owner.provisioned', { userId: 'u-001' }));
+
+		advance(999);
+		expect(await manager.processDue(10)).toBe(0);
+
+		advance(1);
+		expect(await manager.processDue(10)).toBe(1);
+		expect(only()).toMatchObject({ status: 'running', step_attempts: 2, awaiting_event_name: 'tenant.activated' });
+
+		advance(1000);
+		await manager.processDue(10);
+
+		expect(commandBus.execute.mock.calls.map(([c]) => c.type)).toEqual([
+			'identity.provision-owner',
+			'authorization.create-default-roles',
+			'tenant.activate',
+			'tenant.activate',
+			'authorization.remove-default-roles',
+			'identity.remove-owner'
+		]);
+		expect(only()).toMatchObject({
+			status: 'compensated',
+			last_error: '步骤 activate-tenant 等待 tenant.activated 超时'
+		});
+		expect(logger.warn).toHaveBeenCalledWith(
+			expect.objectContaining({ sagaName: 'tenant.onboarding' }),
+			'test Saga 开始补偿。'
+		);
+	});
+
+	it('should retry failed commands with backoff through scheduled wake-ups', async () => {
+		let failures = 1;
+		const { manager, commandBus, only } = createManager(async (command) => {
+			if (command.type === 'authorization.create-default-roles' && failures-- > 0) {
+				throw new Error('数据库暂不可用');
+			}
+		});
+		await manager.handleEvent(event('tenant.created', { ownerEmail: 'owner@example.com' }));
+		await manager.handleEvent(event('identity.owner.provisioned', { userId: 'u-001' }));
+
+		expect(only()).toMatchObject({
+			status: 'running',
+			current_step_name: 'create-default-roles',
+			awaiting_event_name: null,
+			last_error: '步骤 create-default-roles 命令执行失败：数据库暂不可用'
+		});
+		expect(new Date(only().deadline_at!).getTime()).toBe(Date.now() + 1000);
+
+		advance(1000);
+		await manager.processDue(10);
+
+		expect(commandBus.execute).toHaveBeenCalledTimes(4);
+		expect(only()).toMatchObject({ status: 'running', current_step_name: 'activate-tenant', last_error: null });
+	});
+
+	it('should compensate on failure events and fail after compensation attempts are exhausted', async () => {
+		const { manager, commandBus, only } = createManager(async (command) => {
+			if (command.type === 'identity.remove-owner') throw new Error('用户服务不可用');
+		});
+		await manager.handleEvent(event('tenant.created', { ownerEmail: 'owner@example.com' }));
+		await manager.handleEvent(event('identity.owner.provision-failed'));
+
+		expect(only()).toMatchObject({ status: 'compensating', step_attempts: 1 });
+		expect(only().last_error).toBe('步骤 provision-owner 补偿命令执行失败：用户服务不可用');
+
+		advance(1000);
+		await manager.processDue(10);
+
+		expect(commandBus.execute.mock.calls.map(([c]) => c.type)).toEqual([
+			'identity.provision-owner',
+			'identity.remove-owner',
+			'identity.remove-owner'
+		]);
+		expect(only()).toMatchObject({ status: 'failed', deadline_at: null });
+		expect(logger.error).toHaveBeenCalledWith(
+			expect.objectContaining({ step: 'provision-owner' }),
+			'test Saga 补偿失败次数耗尽，需要人工处理。'
+		);
+	});
+});
+
+describe('defineIntegrationSaga', () => {
+	it('should reject empty steps and duplicate step names', () => {
+		expect(() =>
+			defineIntegrationSaga({ sagaName: 's', startEvent: 'a', initialState: () => ({}), steps: [] })
+		).toThrow('至少需要一个步骤');
+		const step = { stepName: 'x', command: () => ({ type: 'c' }) };
+		expect(() =>
+			defineIntegrationSaga({ sagaName: 's', startEvent: 'a', initialState: () => ({}), steps: [step, step] })
+		).toThrow('步骤名称重复：x');
+	});
+
+	it('should list start, awaited and failure events and define one subscriber per event', () => {
+		const names = listIntegrationSagaEventNames([onboardingSaga]);
+
+		expect(names).toEqual([
+			'tenant.created',
+			'identity.owner.provisioned',
+			'identity.owner.provision-failed',
+			'tenant.activated'
+		]);
+		expect(defineIntegrationSagaSubscribers([onboardingSaga]).map((t) => t.name)).toEqual(
+			names.map((n) => `SagaSubscriber(${n})`)
+		);
+	});
+});
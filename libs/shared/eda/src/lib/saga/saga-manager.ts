@@ -0,0 +1,637 @@
+import { randomUUID } from 'crypto';
+
+import type { EntityManager } from '@mikro-orm/core';
+import { getOksaiRequestContextFromCurrent, runWithOksaiContext } from '@oksai/context';
+import type { OksaiIntegrationEvent } from '@oksai/contracts';
+import type { OutboxLogger } from '../outbox/outbox-processor';
+import {
+	listIntegrationSagaEventNames,
+	type AnyIntegrationSagaDefinition,
+	type IntegrationSagaCommand,
+	type IntegrationSagaCommandBus,
+	type IntegrationSagaContext,
+	type IntegrationSagaStep
+} from './saga.definition';
+
+/**
+ * @description Saga 实例状态
+ *
+ * - running：正在执行步骤（派发命令或等待完成事件）
+ * - compensating：正在按逆序派发补偿命令
+ * - completed：全部步骤完成
+ * - compensated：补偿完成
+ * - failed：补偿命令多次失败，需要人工处理
+ */
+export type IntegrationSagaStatus = 'running' | 'compensating' | 'completed' | 'compensated' | 'failed';
+
+/**
+ * @description Saga 状态迁移记录类型
+ */
+export type IntegrationSagaHistoryType =
+	| 'started'
+	| 'command_dispatched'
+	| 'command_failed'
+	| 'step_completed'
+	| 'step_timed_out'
+	| 'compensation_started'
+	| 'step_compensated'
+	| 'compensation_failed'
+	| 'completed'
+	| 'compensated'
+	| 'failed';
+
+/**
+ * @description Saga 状态迁移记录
+ */
+export interface IntegrationSagaHistoryEntry {
+	at: string;
+	type: IntegrationSagaHistoryType;
+	step?: string;
+	detail?: string;
+}
+
+/**
+ * @description Saga 实例行数据结构
+ */
+export interface IntegrationSagaInstanceRow {
+	id: string;
+	saga_name: string;
+	tenant_id: string;
+	correlation_id: string;
+	status: IntegrationSagaStatus;
+	current_step: number;
+	current_step_name: string | null;
+	step_attempts: number;
+	awaiting_event_name: string | null;
+	deadline_at: string | Date | null;
+	state: unknown;
+	history: unknown;
+	last_error: string | null;
+	started_at: string | Date;
+	updated_at: string | Date;
+	finished_at: string | Date | null;
+}
+
+/**
+ * @description Saga 管理器配置选项
+ */
+export interface IntegrationSagaManagerOptions {
+	/**
+	 * @description 管理器名称（用于日志定位）
+	 */
+	managerName: string;
+
+	/**
+	 * @description MikroORM EntityManager
+	 */
+	em: EntityManager;
+
+	/**
+	 * @description 日志对象
+	 */
+	logger: OutboxLogger;
+
+	/**
+	 * @description 命令派发器（通常为 `@oksai/cqrs` 的 CommandBus）
+	 */
+	commandBus: IntegrationSagaCommandBus;
+
+	/**
+	 * @description 已注册的 Saga 声明
+	 */
+	sagas: AnyIntegrationSagaDefinition[];
+
+	/**
+	 * @description 命令失败后的重试基准毫秒（按 2^(n-1) 退避，最长 1 小时；默认 30000）
+	 */
+	retryDelayMs?: number;
+
+	/**
+	 * @description 单个补偿命令最多尝试次数（默认 10，用完后实例进入 failed）
+	 */
+	compensationMaxAttempts?: number;
+}
+
+/**
+ * @description 内存中的 Saga 实例（一次事务内修改，结束时整体回写）
+ */
+interface SagaInstance {
+	id: string;
+	sagaName: string;
+	tenantId: string;
+	correlationId: string;
+	status: IntegrationSagaStatus;
+	currentStep: number;
+	stepAttempts: number;
+	awaitingEventName: string | null;
+	deadlineAt: Date | null;
+	state: unknown;
+	history: IntegrationSagaHistoryEntry[];
+	lastError: string | null;
+}
+
+type SagaConnection = ReturnType<EntityManager['getConnection']>;
+
+const DEFAULT_STEP_TIMEOUT_MS = 10 * 60_000;
+const DEFAULT_STEP_MAX_ATTEMPTS = 3;
+const MAX_RETRY_DELAY_MS = 3600_000;
+const MAX_HISTORY_ENTRIES = 100;
+const ACTIVE_STATUSES: IntegrationSagaStatus[] = ['running', 'compensating'];
+
+/**
+ * @description 集成事件 Saga 管理器（Process Manager）
+ *
+ * 业务规则：
+ * - 开始事件为每个 (sagaName, tenantId, correlationId) 创建一个实例；重复的开始事件被忽略
+ * - 步骤按声明顺序执行：派发命令 → 等待完成事件 → 更新流程数据 → 进入下一步骤
+ * - 超时、命令失败与补偿重试都通过 deadline_at 定时唤醒，由 `processDue` 统一处理
+ * - 补偿按已执行步骤的逆序派发；命令已成功派发的当前步骤（超时、收到失败事件）同样会被补偿
+ *
+ * 并发与一致性：
+ * - 同一实例的事件与唤醒在 `select ... for update` 行锁内串行处理，命令在锁内派发
+ * - 命令以 tenantId 与 requestId = correlationId 的上下文派发，命令处理器产生的事件可被默认规则关联
+ * - 命令处理器必须幂等：超时重试可能重复派发同一命令，进程在派发后、回写前崩溃时也会重新派发
+ */
+export class IntegrationSagaManager {
+	private readonly sagas = new Map<string, AnyIntegrationSagaDefinition>();
+	private readonly retryDelayMs: number;
+	private readonly compensationMaxAttempts: number;
+
+	constructor(private readonly options: IntegrationSagaManagerOptions) {
+		for (const def of options.sagas) {
+			if (this.sagas.has(def.sagaName)) {
+				throw new Error(`Saga 重复注册：sagaName=${def.sagaName}。`);
+			}
+			this.sagas.set(def.sagaName, def);
+		}
+		this.retryDelayMs = Math.max(1000, options.retryDelayMs ?? 30_000);
+		this.compensationMaxAttempts = Math.max(1, options.compensationMaxAttempts ?? 10);
+	}
+
+	/**
+	 * @description 列出需要订阅的事件名称（供 defineIntegrationSagaSubscribers 使用）
+	 */
+	listEventNames(): string[] {
+		return listIntegrationSagaEventNames(this.options.sagas);
+	}
+
+	/**
+	 * @description 处理一条集成事件：启动新实例，或推进 / 补偿已有实例
+	 *
+	 * @param envelope - 集成事件信封（已通过校验）
+	 */
+	async handleEvent(envelope: OksaiIntegrationEvent): Promise<void> {
+		for (const def of this.sagas.values()) {
+			const correlationId = (def.correlate ?? defaultCorrelate)(envelope);
+			if (!correlationId) continue;
+
+			if (def.startEvent === envelope.eventName) {
+				await this.start(def, envelope, correlationId);
+			} else if (isStepEvent(def, envelope.eventName)) {
+				await this.advance(def, envelope, correlationId);
+			}
+		}
+	}
+
+	/**
+	 * @description 处理一批到期的定时唤醒（步骤超时、命令重试、补偿重试）
+	 *
+	 * @param batchSize - 单次处理实例数
+	 * @returns 实际处理的实例数
+	 */
+	async processDue(batchSize: number): Promise<number> {
+		let due: Array<{ id: string }> = [];
+		try {
+			due = (await this.options.em.getConnection().execute(
+				`
+				select id
+				from integration_saga_instance
+				where status in ('running', 'compensating')
+					and deadline_at <= now()
+				order by deadline_at asc
+				limit ?
+				`,
+				[batchSize]
+			)) as Array<{ id: string }>;
+		} catch (e) {
+			this.options.logger.error(
+				{ err: e instanceof Error ? e.message : String(e) },
+				`${this.options.managerName} 拉取到期 Saga 失败。`
+			);
+			return 0;
+		}
+
+		let processed = 0;
+		for (const { id } of due) {
+			try {
+				if (await this.wakeUp(id)) processed += 1;
+			} catch (e) {
+				this.options.logger.error(
+					{ sagaId: id, err: e instanceof Error ? e.message : String(e) },
+					`${this.options.managerName} 处理 Saga 定时唤醒失败。`
+				);
+			}
+		}
+		return processed;
+	}
+
+	private async start(
+		def: AnyIntegrationSagaDefinition,
+		envelope: OksaiIntegrationEvent,
+		correlationId: string
+	): Promise<void> {
+		await this.options.em.transactional(async (tem) => {
+			const conn = tem.getConnection();
+			const rows = (await conn.execute(
+				`
+				insert into integration_saga_instance (
+					id,
+					saga_name,
+					tenant_id,
+					correlation_id,
+					status,
+					current_step,
+					current_step_name,
+					step_attempts,
+					state,
+					history,
+					started_at,
+					updated_at
+				)
+				values (?, ?, ?, ?, 'running', 0, ?, 0, cast(? as jsonb), '[]', now(), now())
+				on conflict (saga_name, tenant_id, correlation_id) do nothing
+				returning ${SAGA_COLUMNS}
+				`,
+				[
+					randomUUID(),
+					def.sagaName,
+					envelope.tenantId,
+					correlationId,
+					def.steps[0].stepName,
+					JSON.stringify(def.initialState(envelope) ?? {})
+				]
+			)) as IntegrationSagaInstanceRow[];
+			if (!rows[0]) {
+				this.options.logger.debug(
+					{ sagaName: def.sagaName, tenantId: envelope.tenantId, correlationId, eventId: envelope.eventId },
+					`${this.options.managerName} Saga 实例已存在，忽略重复的开始事件。`
+				);
+				return;
+			}
+
+			const instance = toSagaInstance(rows[0]);
+			pushHistory(instance, 'started', undefined, `eventId=${envelope.eventId}`);
+			await this.runStep(def, instance);
+			await this.save(conn, def, instance);
+		});
+	}
+
+	private async advance(
+		def: AnyIntegrationSagaDefinition,
+		envelope: OksaiIntegrationEvent,
+		correlationId: string
+	): Promise<void> {
+		await this.options.em.transactional(async (tem) => {
+			const conn = tem.getConnection();
+			const rows = (await conn.execute(
+				`
+				select ${SAGA_COLUMNS}
+				from integration_saga_instance
+				where saga_name = ? and tenant_id = ? and correlation_id = ? and status = 'running'
+				for update
+				`,
+				[def.sagaName, envelope.tenantId, correlationId]
+			)) as IntegrationSagaInstanceRow[];
+			if (!rows[0]) return;
+
+			const instance = toSagaInstance(rows[0]);
+			const step = def.steps[instance.currentStep];
+			if (!step) return;
+
+			if (instance.awaitingEventName === envelope.eventName) {
+				if (await this.completeStep(def, instance, step, envelope)) {
+					await this.runStep(def, instance);
+				}
+			} else if (step.failureEvents?.includes(envelope.eventName)) {
+				const reason = `收到失败事件：${envelope.eventName}（eventId=${envelope.eventId}）`;
+				await this.compensate(def, instance, reason, instance.awaitingEventName !== null);
+			} else {
+				this.options.logger.debug(
+					{ sagaId: instance.id, sagaName: def.sagaName, step: step.stepName, eventName: envelope.eventName },
+					`${this.options.managerName} Saga 当前步骤不等待该事件，已忽略。`
+				);
+				return;
+			}
+			await this.save(conn, def, instance);
+		});
+	}
+
+	private async wakeUp(id: string): Promise<boolean> {
+		return await this.options.em.transactional(async (tem) => {
+			const conn = tem.getConnection();
+			const rows = (await conn.execute(
+				`
+				select ${SAGA_COLUMNS}
+				from integration_saga_instance
+				where id = ? and status in ('running', 'compensating') and deadline_at <= now()
+				for update skip locked
+				`,
+				[id]
+			)) as IntegrationSagaInstanceRow[];
+			if (!rows[0]) return false;
+
+			const instance = toSagaInstance(rows[0]);
+			const def = this.sagas.get(instance.sagaName);
+			if (!def) {
+				// 未注册的 Saga（已下线或部署不一致）：推迟唤醒，保留在运维视图中
+				instance.lastError = `未注册的 Saga：${instance.sagaName}`;
+				instance.deadlineAt = new Date(Date.now() + MAX_RETRY_DELAY_MS);
+				await this.save(conn, undefined, instance);
+				this.options.logger.warn(
+					{ sagaId: instance.id, sagaName: instance.sagaName },
+					`${this.options.managerName} Saga 未注册，推迟唤醒。`
+				);
+				return true;
+			}
+
+			if (instance.status === 'compensating') {
+				await this.compensateRemaining(def, instance);
+			} else if (instance.awaitingEventName) {
+				const step = def.steps[instance.currentStep];
+				pushHistory(instance, 'step_timed_out', step.stepName, `等待 ${instance.awaitingEventName} 超时`);
+				instance.lastError = `步骤 ${step.stepName} 等待 ${instance.awaitingEventName} 超时`;
+				if (instance.stepAttempts < (step.maxAttempts ?? DEFAULT_STEP_MAX_ATTEMPTS)) {
+					await this.runStep(def, instance);
+				} else {
+					await this.compensate(def, instance, instance.lastError, true);
+				}
+			} else {
+				await this.runStep(def, instance);
+			}
+			await this.save(conn, def, instance);
+			return true;
+		});
+	}
+
+	/**
+	 * 派发当前步骤的命令；无需等待完成事件的步骤连续推进
+	 */
+	private async runStep(def: AnyIntegrationSagaDefinition, instance: SagaInstance): Promise<void> {
+		while (instance.status === 'running') {
+			const step = def.steps[instance.currentStep];
+			instance.stepAttempts += 1;
+			try {
+				await this.dispatch(instance, step.command(this.buildContext(instance)));
+			} catch (e) {
+				const message = e instanceof Error ? e.message : String(e);
+				pushHistory(instance, 'command_failed', step.stepName, message);
+				instance.lastError = `步骤 ${step.stepName} 命令执行失败：${message}`;
+				instance.awaitingEventName = null;
+				if (instance.stepAttempts < (step.maxAttempts ?? DEFAULT_STEP_MAX_ATTEMPTS)) {
+					instance.deadlineAt = new Date(Date.now() + this.computeRetryDelayMs(instance.stepAttempts));
+				} else {
+					await this.compensate(def, instance, instance.lastError, false);
+				}
+				return;
+			}
+
+			pushHistory(instance, 'command_dispatched', step.stepName, `attempt=${instance.stepAttempts}`);
+			if (step.awaitEvent) {
+				instance.awaitingEventName = step.awaitEvent;
+				instance.deadlineAt = new Date(
+					Date.now() + (step.timeoutMs ?? def.stepTimeoutMs ?? DEFAULT_STEP_TIMEOUT_MS)
+				);
+				return;
+			}
+			if (!(await this.completeStep(def, instance, step, null))) return;
+		}
+	}
+
+	/**
+	 * 完成当前步骤并前进；返回 false 表示流程已结束或已转入补偿
+	 */
+	private async completeStep(
+		def: AnyIntegrationSagaDefinition,
+		instance: SagaInstance,
+		step: IntegrationSagaStep<unknown>,
+		envelope: OksaiIntegrationEvent | null
+	): Promise<boolean> {
+		if (step.onCompleted) {
+			try {
+				instance.state = step.onCompleted(instance.state, envelope);
+			} catch (e) {
+				// 完成事件数据不符合预期：重试同一命令无意义，直接补偿（本步骤命令已生效）
+				const reason = `步骤 ${step.stepName} 处理完成事件失败：${e instanceof Error ? e.message : String(e)}`;
+				await this.compensate(def, instance, reason, true);
+				return false;
+			}
+		}
+
+		pushHistory(instance, 'step_completed', step.stepName, envelope ? `eventId=${envelope.eventId}` : undefined);
+		instance.currentStep += 1;
+		instance.stepAttempts = 0;
+		instance.awaitingEventName = null;
+		instance.deadlineAt = null;
+		instance.lastError = null;
+
+		if (instance.currentStep >= def.steps.length) {
+			instance.status = 'completed';
+			pushHistory(instance, 'completed');
+			return false;
+		}
+		return true;
+	}
+
+	/**
+	 * 转入补偿：逆序补偿已执行的步骤
+	 *
+	 * @param includeCurrent - 当前步骤的命令已成功派发（可能已部分生效）时为 true，同样补偿
+	 */
+	private async compensate(
+		def: AnyIntegrationSagaDefinition,
+		instance: SagaInstance,
+		reason: string,
+		includeCurrent: boolean
+	): Promise<void> {
+		const step = def.steps[instance.currentStep];
+		instance.status = 'compensating';
+		instance.lastError = reason;
+		pushHistory(instance, 'compensation_started', step?.stepName, reason);
+		if (!includeCurrent) instance.currentStep -= 1;
+		instance.stepAttempts = 0;
+		instance.awaitingEventName = null;
+		instance.deadlineAt = null;
+
+		this.options.logger.warn(
+			{ sagaId: instance.id, sagaName: def.sagaName, tenantId: instance.tenantId, reason },
+			`${this.options.managerName} Saga 开始补偿。`
+		);
+		await this.compensateRemaining(def, instance);
+	}
+
+	private async compensateRemaining(def: AnyIntegrationSagaDefinition, instance: SagaInstance): Promise<void> {
+		while (instance.currentStep >= 0) {
+			const step = def.steps[instance.currentStep];
+			if (step?.compensate) {
+				instance.stepAttempts += 1;
+				try {
+					await this.dispatch(instance, step.compensate(this.buildContext(instance)));
+				} catch (e) {
+					const message = e instanceof Error ? e.message : String(e);
+					pushHistory(instance, 'compensation_failed', step.stepName, message);
+					instance.lastError = `步骤 ${step.stepName} 补偿命令执行失败：${message}`;
+					if (instance.stepAttempts >= this.compensationMaxAttempts) {
+						instance.status = 'failed';
+						instance.deadlineAt = null;
+						pushHistory(instance, 'failed', step.stepName);
+						this.options.logger.error(
+							{
+								sagaId: instance.id,
+								sagaName: def.sagaName,
+								tenantId: instance.tenantId,
+								step: step.stepName
+							},
+							`${this.options.managerName} Saga 补偿失败次数耗尽，需要人工处理。`
+						);
+					} else {
+						instance.deadlineAt = new Date(Date.now() + this.computeRetryDelayMs(instance.stepAttempts));
+					}
+					return;
+				}
+				pushHistory(instance, 'step_compensated', step.stepName);
+			}
+			instance.currentStep -= 1;
+			instance.stepAttempts = 0;
+		}
+
+		instance.status = 'compensated';
+		instance.deadlineAt = null;
+		pushHistory(instance, 'compensated');
+	}
+
+	private async dispatch(instance: SagaInstance, command: IntegrationSagaCommand): Promise<void> {
+		// 沿用当前 span（事件驱动时为订阅者 consumer span），命令与其产生的事件归入同一链路
+		const { traceparent, tracestate } = getOksaiRequestContextFromCurrent();
+		await runWithOksaiContext(
+			{ tenantId: instance.tenantId, requestId: instance.correlationId, traceparent, tracestate },
+			() => this.options.commandBus.execute(command)
+		);
+	}
+
+	private buildContext(instance: SagaInstance): IntegrationSagaContext<unknown> {
+		return {
+			sagaId: instance.id,
+			sagaName: instance.sagaName,
+			tenantId: instance.tenantId,
+			correlationId: instance.correlationId,
+			state: instance.state,
+			attempt: instance.stepAttempts
+		};
+	}
+
+	private computeRetryDelayMs(attempt: number): number {
+		return Math.min(this.retryDelayMs * Math.pow(2, Math.max(0, attempt - 1)), MAX_RETRY_DELAY_MS);
+	}
+
+	private async save(
+		conn: SagaConnection,
+		def: AnyIntegrationSagaDefinition | undefined,
+		instance: SagaInstance
+	): Promise<void> {
+		const finished = !ACTIVE_STATUSES.includes(instance.status);
+		const stepName = finished ? null : (def?.steps[instance.currentStep]?.stepName ?? null);
+		await conn.execute(
+			`
+			update integration_saga_instance
+			set status = ?,
+				current_step = ?,
+				current_step_name = ?,
+				step_attempts = ?,
+				awaiting_event_name = ?,
+				deadline_at = ?,
+				state = cast(? as jsonb),
+				history = cast(? as jsonb),
+				last_error = ?,
+				updated_at = now(),
+				finished_at = case when ? then now() else null end
+			where id = ?
+			`,
+			[
+				instance.status,
+				instance.currentStep,
+				stepName,
+				instance.stepAttempts,
+				instance.awaitingEventName,
+				instance.deadlineAt,
+				JSON.stringify(instance.state ?? {}),
+				JSON.stringify(instance.history.slice(-MAX_HISTORY_ENTRIES)),
+				instance.lastError?.slice(0, 2000) ?? null,
+				finished,
+				instance.id
+			]
+		);
+	}
+}
+
+function defaultCorrelate(envelope: OksaiIntegrationEvent): string | undefined {
+	return envelope.correlationId || envelope.requestId || undefined;
+}
+
+function isStepEvent(def: AnyIntegrationSagaDefinition, eventName: string): boolean {
+	return def.steps.some((s) => s.awaitEvent === eventName || s.failureEvents?.includes(eventName));
+}
+
+function pushHistory(instance: SagaInstance, type: IntegrationSagaHistoryType, step?: string, detail?: string): void {
+	const entry: IntegrationSagaHistoryEntry = { at: new Date().toISOString(), type };
+	if (step) entry.step = step;
+	if (detail) entry.detail = detail.slice(0, 500);
+	instance.history.push(entry);
+}
+
+function toSagaInstance(row: IntegrationSagaInstanceRow): SagaInstance {
+	return {
+		id: row.id,
+		sagaName: row.saga_name,
+		tenantId: row.tenant_id,
+		correlationId: row.correlation_id,
+		status: row.status,
+		currentStep: Number(row.current_step),
+		stepAttempts: Number(row.step_attempts),
+		awaitingEventName: row.awaiting_event_name,
+		deadlineAt: row.deadline_at ? new Date(row.deadline_at) : null,
+		state: parseJson(row.state, {}),
+		history: parseJson(row.history, []) as IntegrationSagaHistoryEntry[],
+		lastError: row.last_error
+	};
+}
+
+function parseJson(value: unknown, fallback: unknown): unknown {
+	if (typeof value !== 'string') return value ?? fallback;
+	try {
+		return JSON.parse(value);
+	} catch {
+		return fallback;
+	}
+}
+
+/**
+ * @internal 供 IntegrationSagaAdminService 复用
+ */
+export const SAGA_COLUMNS = `
+	id,
+	saga_name,
+	tenant_id,
+	correlation_id,
+	status,
+	current_step,
+	current_step_name,
+	step_attempts,
+	awaiting_event_name,
+	deadline_at,
+	state,
+	history,
+	last_error,
+	started_at,
+	updated_at,
+	finished_at
+`;
@@ -0,0 +1,205 @@
+import type { OksaiIntegrationEvent } from '@oksai/contracts';
+
+/**
+ * @description Saga 派发的命令（与 `@oksai/cqrs` 的 ICommand 结构一致）
+ */
+export interface IntegrationSagaCommand {
+	/**
+	 * @description 命令类型（稳定字符串）
+	 */
+	type: string;
+}
+
+/**
+ * @description Saga 命令派发器（最小化依赖：`@oksai/cqrs` 的 CommandBus 直接满足该接口）
+ */
+export interface IntegrationSagaCommandBus {
+	execute(command: IntegrationSagaCommand): Promise<unknown>;
+}
+
+/**
+ * @description 构造命令时可用的 Saga 上下文
+ */
+export interface IntegrationSagaContext<TState> {
+	sagaId: string;
+	sagaName: string;
+	tenantId: string;
+	correlationId: string;
+
+	/**
+	 * @description 当前流程数据（只读；通过 onCompleted 返回新值更新）
+	 */
+	state: TState;
+
+	/**
+	 * @description 当前步骤已尝试次数（含本次；可作为命令幂等键的一部分）
+	 */
+	attempt: number;
+}
+
+/**
+ * @description Saga 步骤声明
+ *
+ * 执行规则：
+ * - 进入步骤时派发 `command`；未声明 `awaitEvent` 时命令返回即视为步骤完成
+ * - 声明 `awaitEvent` 时等待同一 correlationId 的完成事件，超过 `timeoutMs` 视为一次失败
+ * - 命令抛错或超时都会消耗一次尝试；尝试次数未用完时重新派发（命令抛错时按管理器的 retryDelayMs 退避），用完后开始补偿
+ * - 收到 `failureEvents` 中的事件立即开始补偿
+ *
+ * 说明：读写流程数据的回调声明为方法签名，参数按双向协变检查，
+ * 使 `IntegrationSagaDefinition<TState>` 可赋值给 `AnyIntegrationSagaDefinition`
+ */
+export interface IntegrationSagaStep<TState> {
+	/**
+	 * @description 步骤名称（同一 Saga 内唯一，用于日志与运维视图）
+	 */
+	stepName: string;
+
+	/**
+	 * @description 构造本步骤的命令（命令处理器需幂等：超时重试可能重复派发）
+	 */
+	command(ctx: IntegrationSagaContext<TState>): IntegrationSagaCommand;
+
+	/**
+	 * @description 步骤完成事件名称（缺省表示命令返回即完成）
+	 */
+	awaitEvent?: string;
+
+	/**
+	 * @description 步骤失败事件名称（收到后立即开始补偿）
+	 */
+	failureEvents?: string[];
+
+	/**
+	 * @description 等待完成事件的超时毫秒（默认取 Saga 的 stepTimeoutMs）
+	 */
+	timeoutMs?: number;
+
+	/**
+	 * @description 最多尝试次数（默认 3）
+	 */
+	maxAttempts?: number;
+
+	/**
+	 * @description 步骤完成时更新流程数据（完成事件缺省时 envelope 为 null）
+	 */
+	onCompleted?(state: TState, envelope: OksaiIntegrationEvent | null): TState;
+
+	/**
+	 * @description 构造补偿命令（缺省表示本步骤无需补偿）
+	 */
+	compensate?(ctx: IntegrationSagaContext<TState>): IntegrationSagaCommand;
+}
+
+/**
+ * @description Saga 声明
+ *
+ * @typeParam TState - 流程数据（需可 JSON 序列化）
+ */
+export interface IntegrationSagaDefinition<TState = Record<string, unknown>> {
+	/**
+	 * @description Saga 名称（稳定字符串，变更会导致进行中的实例无法继续）
+	 */
+	sagaName: string;
+
+	/**
+	 * @description 开始事件名称
+	 */
+	startEvent: string;
+
+	/**
+	 * @description 从事件中提取关联 ID（默认 envelope.correlationId，缺省时取 requestId；返回空表示该事件与本 Saga 无关）
+	 *
+	 * 说明：
+	 * - Saga 以 requestId = 关联 ID 的上下文派发命令，命令处理器产生的集成事件会带上同一 requestId，默认规则即可关联
+	 * - 同一请求会产生多个开始事件时（如批量创建），应按业务主键关联，例如 `(e) => (e.data as { tenantId: string }).tenantId`
+	 */
+	correlate?: (envelope: OksaiIntegrationEvent) => string | undefined;
+
+	/**
+	 * @description 从开始事件构造初始流程数据
+	 */
+	initialState: (envelope: OksaiIntegrationEvent) => TState;
+
+	/**
+	 * @description 按顺序执行的步骤
+	 */
+	steps: Array<IntegrationSagaStep<TState>>;
+
+	/**
+	 * @description 步骤默认超时毫秒（默认 10 分钟）
+	 */
+	stepTimeoutMs?: number;
+}
+
+/**
+ * @description 任意流程数据类型的 Saga 声明（管理器持有多种 Saga 时使用）
+ */
+export type AnyIntegrationSagaDefinition = IntegrationSagaDefinition<unknown>;
+
+/**
+ * @description 声明 Saga（校验步骤并保留类型推断）
+ *
+ * @param definition - Saga 声明
+ * @returns 原样返回的声明
+ * @throws Error 当步骤为空、步骤名称重复或超时 / 尝试次数不合法时抛出
+ *
+ * @example
+ * ```typescript
+ * export const tenantOnboardingSaga = defineIntegrationSaga({
+ *   sagaName: 'tenant.onboarding',
+ *   startEvent: 'tenant.created',
+ *   initialState: (e) => ({ tenantId: e.tenantId, ownerEmail: (e.data as { ownerEmail: string }).ownerEmail }),
+ *   steps: [
+ *     {
+ *       stepName: 'provision-owner',
+ *       command: ({ state }) => ({ type: 'identity.provision-owner', email: state.ownerEmail }),
+ *       awaitEvent: 'identity.owner.provisioned',
+ *       onCompleted: (state, e) => ({ ...state, ownerId: (e?.data as { userId: string }).userId }),
+ *       compensate: ({ state }) => ({ type: 'identity.remove-owner', email: state.ownerEmail })
+ *     }
+ *   ]
+ * });
+ * ```
+ */
+export function defineIntegrationSaga<TState>(
+	definition: IntegrationSagaDefinition<TState>
+): IntegrationSagaDefinition<TState> {
+	if (!definition.sagaName.trim()) {
+		throw new Error('Saga 声明不合法：sagaName 不能为空。');
+	}
+	if (definition.steps.length === 0) {
+		throw new Error(`Saga 声明不合法：${definition.sagaName} 至少需要一个步骤。`);
+	}
+	const names = new Set<string>();
+	for (const step of definition.steps) {
+		if (names.has(step.stepName)) {
+			throw new Error(`Saga 声明不合法：${definition.sagaName} 步骤名称重复：${step.stepName}。`);
+		}
+		names.add(step.stepName);
+		if (step.maxAttempts !== undefined && (!Number.isInteger(step.maxAttempts) || step.maxAttempts < 1)) {
+			throw new Error(`Saga 声明不合法：${definition.sagaName}.${step.stepName} 的 maxAttempts 必须为正整数。`);
+		}
+		if (step.timeoutMs !== undefined && !(step.timeoutMs > 0)) {
+			throw new Error(`Saga 声明不合法：${definition.sagaName}.${step.stepName} 的 timeoutMs 必须大于 0。`);
+		}
+	}
+	return definition;
+}
+
+/**
+ * @description 列出一组 Saga 需要订阅的全部事件名称（开始、完成与失败事件，去重）
+ *
+ * @param definitions - Saga 声明列表
+ */
+export function listIntegrationSagaEventNames(definitions: readonly AnyIntegrationSagaDefinition[]): string[] {
+	const names = new Set<string>();
+	for (const def of definitions) {
+		names.add(def.startEvent);
+		for (const step of def.steps) {
+			if (step.awaitEvent) names.add(step.awaitEvent);
+			for (const name of step.failureEvents ?? []) names.add(name);
+		}
+	}
+	return [...names];
+}
@@ -0,0 +1,57 @@
+import { Inject, Injectable, type Type } from '@nestjs/common';
+import type { OksaiIntegrationEvent } from '@oksai/contracts';
+import type {
+	IOksaiIntegrationEventSubscriber,
+	SubscriberLogger
+} from '../subscriber/integration-event-subscriber.interface';
+import { listIntegrationSagaEventNames, type AnyIntegrationSagaDefinition } from './saga.definition';
+import { IntegrationSagaManager } from './saga-manager';
+
+/**
+ * @description Saga 事件订阅者：把集成事件交给 IntegrationSagaManager 推进流程
+ *
+ * 注意事项：
+ * - 每个事件名称一个订阅者，同一事件驱动的多个 Saga 在同一次 handle 中依次处理
+ * - Saga 内部的命令失败与超时由定时唤醒重试，不向订阅者闭环抛错；
+ *   数据库异常等仍会抛出，由订阅者闭环按 retry_state 退避重试
+ */
+export class IntegrationSagaSubscriber implements IOksaiIntegrationEventSubscriber {
+	readonly subscriberName: string;
+
+	constructor(
+		readonly eventName: string,
+		private readonly sagas: IntegrationSagaManager
+	) {
+		this.subscriberName = `saga.${eventName}`;
+	}
+
+	async handle(input: { envelope: OksaiIntegrationEvent; logger: SubscriberLogger }): Promise<void> {
+		await this.sagas.handleEvent(input.envelope);
+	}
+}
+
+/**
+ * @description 为一组 Saga 涉及的全部事件定义订阅者类型（供插件 `integrationEventSubscribers` 或订阅者投影处理器注册）
+ *
+ * @param definitions - Saga 声明列表（需与 IntegrationSagaManager 注册的一致）
+ * @returns 可由 Nest DI 实例化的订阅者类型（依赖 IntegrationSagaManager provider）
+ *
+ * @example
+ * ```typescript
+ * const sagaSubscriberTypes = defineIntegrationSagaSubscribers([tenantOnboardingSaga]);
+ * ```
+ */
+export function defineIntegrationSagaSubscribers(
+	definitions: readonly AnyIntegrationSagaDefinition[]
+): Array<Type<IntegrationSagaSubscriber>> {
+	return listIntegrationSagaEventNames(definitions).map((eventName) => {
+		@Injectable()
+		class SagaSubscriber extends IntegrationSagaSubscriber {
+			constructor(@Inject(IntegrationSagaManager) sagas: IntegrationSagaManager) {
+				super(eventName, sagas);
+			}
+		}
+		Object.defineProperty(SagaSubscriber, 'name', { value: `SagaSubscriber(${eventName})` });
+		return SagaSubscriber;
+	});
+}
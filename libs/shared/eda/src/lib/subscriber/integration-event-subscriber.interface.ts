@@ -20,8 +20,14 @@ export interface SubscriberLogger {
  * - tenantId 必须存在且可信（事件信封已通过校验）；禁止忽略 tenantId 做跨租户写入
  * - 必须幂等：允许重复投递/重放（建议以 eventId 作为幂等键或使用平台 Inbox 去重）
  * - 不记录敏感信息：日志不得输出 payload 内的敏感字段
+ *
+ * 类型约定：
+ * - 订阅的事件须在 `oksaiIntegrationEventSchemas` 注册 data 契约（分发器启动时校验），
+ *   此时可用 `InferIntegrationEventData<typeof Def>` 作为 TData 获得类型化的 `envelope.data`
+ *
+ * @template TData - 事件数据类型
  */
-export interface IOksaiIntegrationEventSubscriber {
+export interface IOksaiIntegrationEventSubscriber<TData = unknown> {
 	/**
 	 * @description 订阅者名称（稳定标识）
 	 *
@@ -52,10 +58,35 @@ export interface IOksaiIntegrationEventSubscriber {
 	 */
 	readonly timeoutMs?: number;
 
+	/**
+	 * @description 单批内并行处理事件的上限（可选，默认 1）
+	 *
+	 * 说明：
+	 * - 仅 `IntegrationEventSubscriberProjectionProcessor` 使用
+	 * - 大于 1 时按 partition_key 分组并行：组内保持 occurred_at 顺序，组间并发不超过该值
+	 */
+	readonly maxConcurrency?: number;
+
 	/**
 	 * @description 处理集成事件
 	 *
 	 * @param input - 处理输入
 	 */
-	handle(input: { envelope: OksaiIntegrationEvent; logger: SubscriberLogger }): Promise<void>;
+	handle(input: { envelope: OksaiIntegrationEvent<TData>; logger: SubscriberLogger }): Promise<void>;
+
+	/**
+	 * @description 清空读模型（可选，供投影重建使用）
+	 *
+	 * 说明：
+	 * - 由 `IntegrationProjectionRebuilder.forSubscriber` 在重放前调用
+	 * - 只应清理范围内的数据（tenantId / occurredFrom / occurredTo 缺省表示不限）
+	 *
+	 * @param input - 重建范围与日志
+	 */
+	reset?(input: {
+		tenantId?: string;
+		occurredFrom?: Date;
+		occurredTo?: Date;
+		logger: SubscriberLogger;
+	}): Promise<void>;
 }
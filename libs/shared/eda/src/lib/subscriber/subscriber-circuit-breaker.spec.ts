@@ -0,0 +1,68 @@
+import {
+	IntegrationSubscriberCircuitBreaker,
+	type IntegrationSubscriberCircuitState
+} from './subscriber-circuit-breaker';
+
+describe('IntegrationSubscriberCircuitBreaker', () => {
+	function create(options: { failureThreshold?: number; openDurationMs?: number } = {}) {
+		let now = 1_000_000;
+		const transitions: Array<{ from: IntegrationSubscriberCircuitState; to: IntegrationSubscriberCircuitState }> =
+			[];
+		const breaker = new IntegrationSubscriberCircuitBreaker({
+			...options,
+			now: () => now,
+			onStateChange: (t) => transitions.push(t)
+		});
+		return { breaker, transitions, advance: (ms: number) => (now += ms) };
+	}
+
+	it('should open after consecutive failures reach the threshold', () => {
+		const { breaker, transitions } = create({ failureThreshold: 3, openDurationMs: 10_000 });
+
+		breaker.recordFailure();
+		breaker.recordFailure();
+		expect(breaker.currentState()).toBe('closed');
+
+		breaker.recordFailure();
+		expect(breaker.currentState()).toBe('open');
+		expect(breaker.remainingOpenMs()).toBe(10_000);
+		expect(transitions).toEqual([{ from: 'closed', to: 'open' }]);
+	});
+
+	it('should reset the failure count on success', () => {
+		const { breaker } = create({ failureThreshold: 2 });
+
+		breaker.recordFailure();
+		breaker.recordSuccess();
+		breaker.recordFailure();
+
+		expect(breaker.currentState()).toBe('closed');
+	});
+
+	it('should move to half_open after the open duration and close on a successful probe', () => {
+		const { breaker, transitions, advance } = create({ failureThreshold: 1, openDurationMs: 5_000 });
+
+		breaker.recordFailure();
+		advance(4_999);
+		expect(breaker.currentState()).toBe('open');
+
+		advance(1);
+		expect(breaker.currentState()).toBe('half_open');
+
+		breaker.recordSuccess();
+		expect(breaker.currentState()).toBe('closed');
+		expect(transitions.map((t) => t.to)).toEqual(['open', 'half_open', 'closed']);
+	});
+
+	it('should reopen when the half_open probe fails', () => {
+		const { breaker, advance } = create({ failureThreshold: 5, openDurationMs: 5_000 });
+
+		for (let i = 0; i < 5; i++) breaker.recordFailure();
+		advance(5_000);
+		expect(breaker.currentState()).toBe('half_open');
+
+		breaker.recordFailure();
+		expect(breaker.currentState()).toBe('open');
+		expect(breaker.remainingOpenMs()).toBe(5_000);
+	});
+});
@@ -0,0 +1,104 @@
+/**
+ * @description 订阅者熔断器状态
+ *
+ * - closed：正常调用
+ * - open：熔断中，不调用订阅者（不消耗重试次数）
+ * - half_open：熔断时长已过，放行单条探测事件；成功则恢复 closed，失败则重新 open
+ */
+export type IntegrationSubscriberCircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * @description 订阅者熔断器配置选项
+ */
+export interface IntegrationSubscriberCircuitBreakerOptions {
+	/**
+	 * @description 连续失败多少次后熔断（默认 5）
+	 */
+	failureThreshold?: number;
+
+	/**
+	 * @description 熔断持续毫秒，到期后进入 half_open（默认 60000）
+	 */
+	openDurationMs?: number;
+
+	/**
+	 * @description 状态变化回调（用于记录指标与日志）
+	 */
+	onStateChange?: (input: { from: IntegrationSubscriberCircuitState; to: IntegrationSubscriberCircuitState }) => void;
+
+	/**
+	 * @description 时钟（默认 Date.now，测试可注入）
+	 */
+	now?: () => number;
+}
+
+/**
+ * @description 订阅者熔断器（进程内，按订阅者维度）
+ *
+ * 使用场景：
+ * - 订阅者持续失败（下游不可用、配置错误）时暂停调用，避免每批都调用并消耗重试次数
+ *
+ * 说明：
+ * - 只统计订阅者 handle 的成败；信封非法、去重跳过、版本不匹配不计入
+ * - 状态保存在进程内存中，多实例部署时各实例独立熔断
+ */
+export class IntegrationSubscriberCircuitBreaker {
+	private state: IntegrationSubscriberCircuitState = 'closed';
+	private consecutiveFailures = 0;
+	private openedAt = 0;
+	private readonly failureThreshold: number;
+	private readonly openDurationMs: number;
+	private readonly now: () => number;
+
+	constructor(private readonly options: IntegrationSubscriberCircuitBreakerOptions = {}) {
+		this.failureThreshold = Math.max(1, Math.floor(options.failureThreshold ?? 5));
+		this.openDurationMs = Math.max(0, options.openDurationMs ?? 60_000);
+		this.now = options.now ?? Date.now;
+	}
+
+	/**
+	 * @description 当前状态（open 且熔断时长已过时先迁移为 half_open）
+	 */
+	currentState(): IntegrationSubscriberCircuitState {
+		if (this.state === 'open' && this.now() - this.openedAt >= this.openDurationMs) {
+			this.transition('half_open');
+		}
+		return this.state;
+	}
+
+	/**
+	 * @description 距离进入 half_open 的剩余毫秒（非 open 时为 0）
+	 */
+	remainingOpenMs(): number {
+		if (this.state !== 'open') return 0;
+		return Math.max(0, this.openedAt + this.openDurationMs - this.now());
+	}
+
+	/**
+	 * @description 记录一次成功调用（half_open 时恢复 closed）
+	 */
+	recordSuccess(): void {
+		this.consecutiveFailures = 0;
+		if (this.state !== 'closed') this.transition('closed');
+	}
+
+	/**
+	 * @description 记录一次失败调用（half_open 探测失败或连续失败达到阈值时 open）
+	 */
+	recordFailure(): void {
+		this.consecutiveFailures += 1;
+		if (
+			this.state === 'half_open' ||
+			(this.state === 'closed' && this.consecutiveFailures >= this.failureThreshold)
+		) {
+			this.openedAt = this.now();
+			this.transition('open');
+		}
+	}
+
+	private transition(to: IntegrationSubscriberCircuitState): void {
+		const from = this.state;
+		this.state = to;
+		this.options.onStateChange?.({ from, to });
+	}
+}
@@ -0,0 +1,47 @@
+import type { EntityManager } from '@mikro-orm/core';
+import { IntegrationEventSubscriberControlService } from './subscriber-control.service';
+
+describe('IntegrationEventSubscriberControlService', () => {
+	function createService(results: unknown[][]) {
+		const execute = jest.fn(async () => results.shift() ?? []);
+		const em = { getConnection: () => ({ execute }) } as unknown as EntityManager;
+		return { service: new IntegrationEventSubscriberControlService({ em }), execute };
+	}
+
+	it('should upsert a paused switch keeping the first paused_at', async () => {
+		const row = { subscriber_name: 'job-notification', paused: true };
+		const { service, execute } = createService([[row]]);
+
+		await expect(
+			service.pause(' job-notification ', { actor: 'admin-001', reason: '  下游邮件服务故障 ' })
+		).resolves.toBe(row);
+
+		const [sql, params] = execute.mock.calls[0] as unknown as [string, unknown[]];
+		expect(sql).toContain('on conflict (subscriber_name)');
+		expect(sql).toContain('when integration_event_subscriber_control.paused then');
+		expect(params).toEqual(['job-notification', '下游邮件服务故障', 'admin-001']);
+	});
+
+	it('should return null when resuming a subscriber that is not paused', async () => {
+		const { service, execute } = createService([[]]);
+
+		await expect(service.resume('job-notification', { actor: 'admin-001' })).resolves.toBeNull();
+		expect(execute).toHaveBeenCalledWith(expect.stringContaining('and paused = true'), [
+			'admin-001',
+			'job-notification'
+		]);
+	});
+
+	it('should list paused subscriber names', async () => {
+		const { service } = createService([[{ subscriber_name: 'a' }, { subscriber_name: 'b' }]]);
+
+		await expect(service.listPausedNames()).resolves.toEqual(['a', 'b']);
+	});
+
+	it('should reject an empty subscriber name', async () => {
+		const { service, execute } = createService([]);
+
+		await expect(service.pause('  ', { actor: 'admin-001' })).rejects.toThrow('订阅者名称不能为空。');
+		expect(execute).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,133 @@
+import type { EntityManager } from '@mikro-orm/core';
+
+/**
+ * @description 订阅者运维开关（integration_event_subscriber_control 行）
+ */
+export interface IntegrationSubscriberControlRow {
+	subscriber_name: string;
+	paused: boolean;
+	reason: string | null;
+	updated_by: string | null;
+	paused_at: string | Date | null;
+	updated_at: string | Date;
+}
+
+/**
+ * @description 订阅者运维开关服务配置选项
+ */
+export interface IntegrationEventSubscriberControlServiceOptions {
+	/**
+	 * @description MikroORM EntityManager
+	 */
+	em: EntityManager;
+}
+
+/**
+ * @description 订阅者运维开关服务（暂停/恢复插件订阅者）
+ *
+ * 使用场景：
+ * - 下游故障或数据修复期间暂停某个订阅者，恢复后从积压继续消费
+ *
+ * 说明：
+ * - 开关按 subscriberName 维度持久化，所有 `IntegrationEventSubscriberProjectionProcessor` 实例在下一批生效
+ * - 暂停不修改事件与重试状态；正在处理中的批次不受影响
+ */
+export class IntegrationEventSubscriberControlService {
+	constructor(private readonly options: IntegrationEventSubscriberControlServiceOptions) {}
+
+	/**
+	 * @description 查询所有设置过开关的订阅者（已暂停的在前）
+	 */
+	async list(): Promise<IntegrationSubscriberControlRow[]> {
+		return (await this.options.em.getConnection().execute(
+			`
+			select ${CONTROL_COLUMNS}
+			from integration_event_subscriber_control
+			order by paused desc, subscriber_name asc
+			`,
+			[]
+		)) as IntegrationSubscriberControlRow[];
+	}
+
+	/**
+	 * @description 查询已暂停的订阅者名称
+	 */
+	async listPausedNames(): Promise<string[]> {
+		const rows = (await this.options.em.getConnection().execute(
+			`
+			select subscriber_name
+			from integration_event_subscriber_control
+			where paused = true
+			`,
+			[]
+		)) as Array<{ subscriber_name: string }>;
+		return rows.map((r) => r.subscriber_name);
+	}
+
+	/**
+	 * @description 暂停订阅者（重复暂停时更新原因与操作人，保留首次暂停时间）
+	 *
+	 * @param subscriberName - 订阅者名称
+	 * @param audit - 操作人与原因
+	 * @returns 更新后的开关
+	 * @throws Error 当订阅者名称为空时抛出
+	 */
+	async pause(
+		subscriberName: string,
+		audit: { actor: string; reason?: string }
+	): Promise<IntegrationSubscriberControlRow> {
+		const name = requireSubscriberName(subscriberName);
+		const reason = audit.reason?.trim() ? audit.reason.trim().slice(0, 2000) : null;
+		const rows = (await this.options.em.getConnection().execute(
+			`
+			insert into integration_event_subscriber_control
+				(subscriber_name, paused, reason, updated_by, paused_at, updated_at)
+			values
+				(?, true, ?, ?, now(), now())
+			on conflict (subscriber_name)
+			do update set
+				paused = true,
+				reason = excluded.reason,
+				updated_by = excluded.updated_by,
+				paused_at = case
+					when integration_event_subscriber_control.paused then integration_event_subscriber_control.paused_at
+					else excluded.paused_at
+				end,
+				updated_at = now()
+			returning ${CONTROL_COLUMNS}
+			`,
+			[name, reason, audit.actor]
+		)) as IntegrationSubscriberControlRow[];
+		return rows[0];
+	}
+
+	/**
+	 * @description 恢复订阅者
+	 *
+	 * @param subscriberName - 订阅者名称
+	 * @param audit - 操作人
+	 * @returns 更新后的开关；订阅者未暂停时返回 null
+	 */
+	async resume(subscriberName: string, audit: { actor: string }): Promise<IntegrationSubscriberControlRow | null> {
+		const rows = (await this.options.em.getConnection().execute(
+			`
+			update integration_event_subscriber_control
+			set paused = false, updated_by = ?, updated_at = now()
+			where subscriber_name = ? and paused = true
+			returning ${CONTROL_COLUMNS}
+			`,
+			[audit.actor, requireSubscriberName(subscriberName)]
+		)) as IntegrationSubscriberControlRow[];
+		return rows[0] ?? null;
+	}
+}
+
+const CONTROL_COLUMNS = 'subscriber_name, paused, reason, updated_by, paused_at, updated_at';
+
+function requireSubscriberName(subscriberName: string): string {
+	const name = subscriberName.trim();
+	if (!name) {
+		throw new Error('订阅者名称不能为空。');
+	}
+	return name;
+}
@@ -1,4 +1,13 @@
-import { IntegrationEventSubscriberDispatcherService } from './subscriber-dispatcher.service';
+import {
+	IntegrationEventSchemaRegistry,
+	defineIntegrationEventSchema,
+	oksaiIntegrationEventSchemas
+} from '@oksai/contracts';
+import { z } from 'zod';
+import {
+	IntegrationEventSubscriberDispatcherService,
+	assertIntegrationEventSubscriberSchemas
+} from './subscriber-dispatcher.service';
 import type { IOksaiIntegrationEventSubscriber, SubscriberLogger } from './integration-event-subscriber.interface';
 import type { OksaiIntegrationEvent } from '@oksai/contracts';
 
@@ -375,4 +384,46 @@ describe('IntegrationEventSubscriberDispatcherService', () => {
 			await expect(service.dispatch(createEnvelope(), mockLogger)).rejects.toThrow('Subscriber error');
 		});
 	});
+
+	describe('schema check', () => {
+		const schemas = new IntegrationEventSchemaRegistry().register(
+			defineIntegrationEventSchema('TestEvent', 1, z.object({}))
+		);
+
+		it('should pass when every subscribed event is registered', () => {
+			expect(() =>
+				assertIntegrationEventSubscriberSchemas(
+					[createMockSubscriber(), createMockSubscriber({ eventVersion: undefined })],
+					schemas
+				)
+			).not.toThrow();
+		});
+
+		it('should list all subscribers with unregistered events', () => {
+			expect(() =>
+				assertIntegrationEventSubscriberSchemas(
+					[
+						createMockSubscriber({ subscriberName: 'a', eventVersion: 2 }),
+						createMockSubscriber({ subscriberName: 'b', eventName: 'OtherEvent', eventVersion: undefined })
+					],
+					schemas
+				)
+			).toThrow('集成事件订阅者订阅了未注册契约的事件：a -> TestEvent@v2, b -> OtherEvent。');
+		});
+
+		it('should check resolved subscribers on application bootstrap', () => {
+			class TestSubscriber {}
+			mockModuleRef.get.mockReturnValue(createMockSubscriber());
+			const service = new IntegrationEventSubscriberDispatcherService(mockModuleRef as any, [TestSubscriber]);
+
+			expect(() => service.onApplicationBootstrap()).toThrow('test-subscriber -> TestEvent@v1');
+
+			oksaiIntegrationEventSchemas.register(defineIntegrationEventSchema('TestEvent', 1, z.object({})));
+			try {
+				expect(() => service.onApplicationBootstrap()).not.toThrow();
+			} finally {
+				oksaiIntegrationEventSchemas.clear();
+			}
+		});
+	});
 });
@@ -1,7 +1,11 @@
-import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, type OnApplicationBootstrap } from '@nestjs/common';
 import { ModuleRef } from '@nestjs/core';
 import type { Type } from '@nestjs/common';
-import type { OksaiIntegrationEvent } from '@oksai/contracts';
+import {
+	oksaiIntegrationEventSchemas,
+	type IntegrationEventSchemaRegistry,
+	type OksaiIntegrationEvent
+} from '@oksai/contracts';
 import { OKSAI_INTEGRATION_EVENT_SUBSCRIBER_TYPES } from './subscriber.tokens';
 import type { IOksaiIntegrationEventSubscriber, SubscriberLogger } from './integration-event-subscriber.interface';
 
@@ -15,9 +19,10 @@ import type { IOksaiIntegrationEventSubscriber, SubscriberLogger } from './integ
  * 注意事项：
  * - 本分发器不替订阅者做 Inbox 去重；订阅者必须自行保证幂等
  * - 默认"订阅者失败 => 本次分发失败"，由上层处理器决定重试/失败策略
+ * - 应用启动时校验所有订阅者订阅的事件均已注册 data 契约，缺失时启动失败
  */
 @Injectable()
-export class IntegrationEventSubscriberDispatcherService {
+export class IntegrationEventSubscriberDispatcherService implements OnApplicationBootstrap {
 	private readonly logger = new Logger(IntegrationEventSubscriberDispatcherService.name);
 
 	constructor(
@@ -25,6 +30,19 @@ export class IntegrationEventSubscriberDispatcherService {
 		@Inject(OKSAI_INTEGRATION_EVENT_SUBSCRIBER_TYPES) private readonly subscriberTypes: Array<Type<unknown>>
 	) {}
 
+	/**
+	 * @description 启动校验：订阅者订阅的事件必须已注册 data 契约
+	 *
+	 * @throws Error 当存在未注册契约的订阅者时抛出
+	 */
+	onApplicationBootstrap(): void {
+		const types = Array.isArray(this.subscriberTypes) ? this.subscriberTypes : [];
+		const instances = types
+			.map((t) => this.safeResolveSubscriberInstance(t))
+			.filter((s): s is IOksaiIntegrationEventSubscriber => s !== null);
+		assertIntegrationEventSubscriberSchemas(instances);
+	}
+
 	/**
 	 * @description 分发事件到所有匹配订阅者
 	 *
@@ -102,3 +120,27 @@ export class IntegrationEventSubscriberDispatcherService {
 		}
 	}
 }
+
+/**
+ * @description 校验订阅者订阅的事件均已注册 data 契约
+ *
+ * 说明：
+ * - 订阅者未指定 eventVersion 时，只要求该 eventName 任一版本已注册
+ *
+ * @param subscribers - 订阅者实例
+ * @param schemas - 契约注册表（默认 `oksaiIntegrationEventSchemas`）
+ * @throws Error 当存在未注册契约的订阅者时抛出（列出全部缺失项）
+ */
+export function assertIntegrationEventSubscriberSchemas(
+	subscribers: readonly IOksaiIntegrationEventSubscriber[],
+	schemas: IntegrationEventSchemaRegistry = oksaiIntegrationEventSchemas
+): void {
+	const missing = subscribers
+		.filter((s) => !schemas.has(s.eventName, s.eventVersion))
+		.map(
+			(s) => `${s.subscriberName} -> ${s.eventName}${s.eventVersion === undefined ? '' : `@v${s.eventVersion}`}`
+		);
+	if (missing.length > 0) {
+		throw new Error(`集成事件订阅者订阅了未注册契约的事件：${missing.join(', ')}。`);
+	}
+}
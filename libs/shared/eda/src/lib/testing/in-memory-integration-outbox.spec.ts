@@ -0,0 +1,207 @@
+import type { OksaiIntegrationEvent } from '@oksai/contracts';
+import {
+	InMemoryIntegrationOutbox,
+	assertIntegrationEventPublished,
+	assertNoIntegrationEventPublished
+} from './in-memory-integration-outbox';
+
+function createEvent(eventId: string, data: unknown = { userId: 'u-001' }): OksaiIntegrationEvent {
+	return {
+		eventId,
+		eventName: 'identity.user.registered',
+		eventVersion: 1,
+		tenantId: 't-001',
+		partitionKey: 't-001',
+		occurredAt: '2026-01-01T00:00:00.000Z',
+		data
+	};
+}
+
+describe('InMemoryIntegrationOutbox', () => {
+	let now: Date;
+	let outbox: InMemoryIntegrationOutbox;
+
+	beforeEach(() => {
+		now = new Date('2026-01-01T00:00:00.000Z');
+		outbox = new InMemoryIntegrationOutbox(() => now);
+	});
+
+	it('should reject duplicate event_id', async () => {
+		await outbox.insert({ event: createEvent('e-001') });
+
+		await expect(outbox.insert({ event: createEvent('e-001') })).rejects.toThrow('e-001 已存在');
+	});
+
+	it('should process pending events and mark them published', async () => {
+		const handleEvent = jest.fn().mockResolvedValue(undefined);
+		await outbox.insert({ event: createEvent('e-001') });
+		const processor = outbox.createProcessor({ processorName: 'test', consumerName: 'c1', handleEvent });
+
+		const claimed = await processor.processBatch(10);
+
+		expect(claimed).toBe(1);
+		expect(handleEvent).toHaveBeenCalledWith(
+			expect.objectContaining({ envelope: expect.objectContaining({ eventId: 'e-001' }) })
+		);
+		expect(outbox.getRecord('e-001')?.status).toBe('published');
+		expect(outbox.isInboxProcessed('e-001', 'c1')).toBe(true);
+		expect(await processor.processBatch(10)).toBe(0);
+	});
+
+	it('should not hand the same row to concurrent batches', async () => {
+		const handleEvent = jest.fn().mockResolvedValue(undefined);
+		await outbox.insert({ event: createEvent('e-001') });
+		await outbox.insert({ event: createEvent('e-002') });
+		const processor = outbox.createProcessor({ processorName: 'test', consumerName: 'c1', handleEvent });
+
+		const claimed = await Promise.all([processor.processBatch(10), processor.processBatch(10)]);
+
+		expect(claimed.sort()).toEqual([0, 2]);
+		expect(handleEvent).toHaveBeenCalledTimes(2);
+	});
+
+	it('should skip handler when inbox already has the event for the consumer', async () => {
+		const handleEvent = jest.fn().mockResolvedValue(undefined);
+		await outbox.insert({ event: createEvent('e-001') });
+		outbox.markInboxProcessed('e-001', 'c1');
+
+		await outbox.createProcessor({ processorName: 'test', consumerName: 'c1', handleEvent }).processBatch(10);
+
+		expect(handleEvent).not.toHaveBeenCalled();
+		expect(outbox.getRecord('e-001')?.status).toBe('published');
+	});
+
+	it('should back off on failure and retry when the clock reaches next_retry_at', async () => {
+		const handleEvent = jest.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue(undefined);
+		await outbox.insert({ event: createEvent('e-001') });
+		const processor = outbox.createProcessor({ processorName: 'test', consumerName: 'c1', handleEvent });
+
+		await processor.processBatch(10);
+		const failed = outbox.getRecord('e-001');
+		const skipped = await processor.processBatch(10);
+		now = new Date(now.getTime() + 1000);
+		const retried = await processor.processBatch(10);
+
+		expect(failed).toMatchObject({ status: 'failed', retry_count: 1, last_error: 'boom' });
+		expect(failed?.next_retry_at).toEqual(new Date('2026-01-01T00:00:01.000Z'));
+		expect(skipped).toBe(0);
+		expect(retried).toBe(1);
+		expect(outbox.getRecord('e-001')?.status).toBe('published');
+	});
+
+	it('should move the event to dead letter when max retry count is reached', async () => {
+		const handleEvent = jest.fn().mockRejectedValue(new Error('boom'));
+		await outbox.insert({ event: createEvent('e-001') });
+		const processor = outbox.createProcessor({
+			processorName: 'test',
+			consumerName: 'c1',
+			handleEvent,
+			maxRetryCount: 2
+		});
+
+		await processor.processBatch(10);
+		now = new Date(now.getTime() + 1000);
+		await processor.processBatch(10);
+
+		expect(outbox.getRecord('e-001')).toMatchObject({ status: 'dead', retry_count: 2, next_retry_at: null });
+		expect(outbox.getDeadLetters()).toEqual([
+			expect.objectContaining({ event_id: 'e-001', processor_name: 'test', consumer_name: 'c1' })
+		]);
+	});
+
+	it('should only claim partition heads when partitionConcurrency is set', async () => {
+		const handled: string[] = [];
+		const handleEvent = jest.fn(async ({ row }: { row: { event_id: string } }) => {
+			handled.push(row.event_id);
+			if (handled.length === 1) throw new Error('boom');
+		});
+		await outbox.insert({ event: { ...createEvent('e-001'), partitionKey: 'k1' } });
+		await outbox.insert({ event: { ...createEvent('e-002'), partitionKey: 'k1' } });
+		await outbox.insert({ event: { ...createEvent('e-003'), partitionKey: 'k2' } });
+		const processor = outbox.createProcessor({
+			processorName: 'test',
+			consumerName: 'c1',
+			handleEvent,
+			partitionConcurrency: 4
+		});
+
+		const first = await processor.processBatch(10);
+		const blocked = await processor.processBatch(10);
+		now = new Date(now.getTime() + 1000);
+		await processor.processBatch(10);
+		await processor.processBatch(10);
+
+		expect(first).toBe(2);
+		expect(blocked).toBe(0);
+		expect(handled).toEqual(['e-001', 'e-003', 'e-001', 'e-002']);
+	});
+
+	it('should mark invalid envelopes as failed without calling the handler', async () => {
+		const handleEvent = jest.fn();
+		await outbox.insert({ event: { ...createEvent('e-001'), tenantId: '' } });
+
+		await outbox.createProcessor({ processorName: 'test', consumerName: 'c1', handleEvent }).processBatch(10);
+
+		expect(handleEvent).not.toHaveBeenCalled();
+		expect(outbox.getRecord('e-001')?.status).toBe('failed');
+	});
+
+	it('should hold scheduled events until deliverAt without blocking their partition', async () => {
+		const handleEvent = jest.fn().mockResolvedValue(undefined);
+		await outbox.insert({ event: createEvent('e-001'), options: { deliverAfterMs: 7 * 24 * 3600_000 } });
+		await outbox.insert({ event: createEvent('e-002') });
+		const processor = outbox.createProcessor({
+			processorName: 'test',
+			consumerName: 'c1',
+			handleEvent,
+			partitionConcurrency: 1
+		});
+
+		expect(await processor.processBatch(10)).toBe(1);
+		expect(outbox.getRecord('e-002')?.status).toBe('published');
+		expect(outbox.getRecord('e-001')?.status).toBe('pending');
+
+		now = new Date('2026-01-08T00:00:00.000Z');
+		expect(await processor.processBatch(10)).toBe(1);
+		expect(outbox.getRecord('e-001')?.status).toBe('published');
+	});
+
+	it('should ignore duplicate dedupe keys and cancel pending events by dedupe key', async () => {
+		const deliverAt = new Date('2026-01-08T00:00:00.000Z');
+		const options = { deliverAt, dedupeKey: 'trial-expiry:s-001' };
+
+		expect(await outbox.insert({ event: createEvent('e-001'), options })).toBe(true);
+		expect(await outbox.insert({ event: createEvent('e-002'), options })).toBe(false);
+		expect(outbox.cancelScheduled('t-002', 'trial-expiry:s-001')).toBe(0);
+		expect(outbox.cancelScheduled('t-001', 'trial-expiry:s-001')).toBe(1);
+		expect(outbox.getRecords()).toEqual([]);
+		expect(await outbox.insert({ event: createEvent('e-003'), options })).toBe(true);
+		await expect(
+			outbox.insert({ event: createEvent('e-004'), options: { deliverAt, deliverAfterMs: 1000 } })
+		).rejects.toThrow('deliverAt 与 deliverAfterMs 只能传入一个');
+	});
+});
+
+describe('integration event assertions', () => {
+	const events = [createEvent('e-001', { userId: 'u-001', profile: { locale: 'zh' } })];
+
+	it('should match event name and partial data', () => {
+		expect(
+			assertIntegrationEventPublished(events, {
+				eventName: 'identity.user.registered',
+				data: { profile: { locale: 'zh' } }
+			}).eventId
+		).toBe('e-001');
+	});
+
+	it('should list actual events when nothing matches', () => {
+		expect(() => assertIntegrationEventPublished(events, { data: { userId: 'u-002' } })).toThrow(
+			/未找到期望的集成事件[\s\S]*identity\.user\.registered v1/
+		);
+	});
+
+	it('should fail when an unexpected event was published', () => {
+		expect(() => assertNoIntegrationEventPublished(events, { eventName: 'identity.user.disabled' })).not.toThrow();
+		expect(() => assertNoIntegrationEventPublished(events)).toThrow('不应出现的集成事件');
+	});
+});
@@ -0,0 +1,483 @@
+import type { OksaiIntegrationEvent } from '@oksai/contracts';
+import { isPartialMatch } from '@oksai/event-store';
+import { withOksaiWorkerContextFromJob } from '../context/worker-context.util';
+import { parseIntegrationEventEnvelopeFromOutboxRow } from '../outbox/outbox-envelope';
+import { protectIntegrationEventPii, type IntegrationEventPiiOptions } from '../outbox/outbox-pii';
+import {
+	normalizeIntegrationOutboxSchedule,
+	type InsertIntegrationOutboxEventOptions
+} from '../outbox/outbox-producer';
+import type { IntegrationOutboxProcessorOptions, IntegrationOutboxRow, OutboxLogger } from '../outbox/outbox-processor';
+import { computeOutboxNextRetrySeconds, readOutboxMaxRetryCount } from '../outbox/outbox-retry.util';
+
+/**
+ * @description integration_outbox 行状态
+ */
+export type IntegrationOutboxStatus = 'pending' | 'queued' | 'processing' | 'published' | 'failed' | 'dead';
+
+/**
+ * @description 内存 integration_outbox 行（字段与表结构一致）
+ */
+export interface InMemoryIntegrationOutboxRecord extends IntegrationOutboxRow {
+	seq: number;
+	status: IntegrationOutboxStatus;
+	next_retry_at: Date | null;
+	last_error: string | null;
+	deliver_at: Date | null;
+	dedupe_key: string | null;
+	created_at: Date;
+	updated_at: Date;
+}
+
+/**
+ * @description 内存 integration_outbox_dead_letter 行
+ */
+export interface InMemoryIntegrationDeadLetterRecord {
+	tenant_id: string;
+	event_id: string;
+	event_name: string;
+	event_version: number;
+	partition_key: string;
+	payload: unknown;
+	retry_count: number;
+	last_error: string;
+	occurred_at: string | Date;
+	dead_at: Date;
+	processor_name: string;
+	consumer_name: string;
+}
+
+/**
+ * @description 期望的集成事件（未指定的字段不参与匹配；data 为部分匹配）
+ */
+export interface ExpectedIntegrationEvent {
+	eventName?: string;
+	eventVersion?: number;
+	tenantId?: string;
+	partitionKey?: string;
+	data?: unknown;
+}
+
+/**
+ * @description 内存 Outbox 处理器配置选项
+ */
+export interface InMemoryIntegrationOutboxProcessorOptions extends Omit<
+	IntegrationOutboxProcessorOptions,
+	'em' | 'logger'
+> {
+	/**
+	 * @description 日志对象（可选）
+	 */
+	logger?: OutboxLogger;
+
+	/**
+	 * @description 最大重试次数（默认与 IntegrationOutboxProcessor 相同，读取 OKSAI_OUTBOX_MAX_RETRY_COUNT）
+	 */
+	maxRetryCount?: number;
+}
+
+/**
+ * @description 内存 integration_outbox（测试替身）
+ *
+ * 覆盖 `insertIntegrationOutboxEvent` → `IntegrationOutboxProcessor` 的完整路径，语义与 PostgreSQL 实现一致：
+ * - event_id 为主键，重复写入抛出错误；同一租户同一 dedupeKey 已有 pending 行时忽略写入
+ * - claim 选取 `status in (claimStatus, 'failed')` 且已到 next_retry_at、deliver_at 的行，按 occurred_at 升序，
+ *   并置为 processing；claim 是同步的，并发的 processBatch 不会拿到同一行（等价于 `for update skip locked`）
+ * - 设置 `partitionConcurrency` 时只 claim 各 partition_key 的队首行（按 seq），不同 key 并行处理
+ * - Inbox 按 (event_id, consumer_name) 去重：命中时直接标记 published，不再执行 handleEvent
+ * - 失败按 `computeOutboxNextRetrySeconds` 退避，达到最大重试次数后置为 dead 并写入死信
+ *
+ * 时间通过 `clock` 注入，测试可推进时钟来触发重试。
+ *
+ * @example
+ * ```ts
+ * const outbox = new InMemoryIntegrationOutbox();
+ * await outbox.insert({ event });
+ *
+ * const processor = outbox.createProcessor({ processorName: 'test', consumerName: 'test.consumer', handleEvent });
+ * await processor.processBatch(10);
+ *
+ * assertIntegrationEventPublished(outbox.getEvents(), { eventName: 'identity.user.registered', data: { userId } });
+ * ```
+ */
+export class InMemoryIntegrationOutbox {
+	private readonly records = new Map<string, InMemoryIntegrationOutboxRecord>();
+	private readonly deadLetters = new Map<string, InMemoryIntegrationDeadLetterRecord>();
+	private readonly inbox = new Set<string>();
+	private seq = 0;
+
+	constructor(private readonly clock: () => Date = () => new Date()) {}
+
+	/**
+	 * @description 写入集成事件（对应 `insertIntegrationOutboxEvent`）
+	 *
+	 * @param input - 写入参数
+	 * @returns 是否写入（同一去重键已有待投递事件时返回 false）
+	 * @throws Error event_id 已存在或延迟投递选项不合法时
+	 */
+	async insert(input: {
+		event: OksaiIntegrationEvent;
+		options?: InsertIntegrationOutboxEventOptions;
+		pii?: IntegrationEventPiiOptions;
+	}): Promise<boolean> {
+		const schedule = normalizeIntegrationOutboxSchedule(input.options);
+		const event = input.pii ? await protectIntegrationEventPii(input.event, input.pii) : input.event;
+		if (this.records.has(event.eventId)) {
+			throw new Error(`写入 integration_outbox 失败：event_id=${event.eventId} 已存在。`);
+		}
+		if (schedule.dedupeKey !== null && this.findPendingByDedupeKey(event.tenantId, schedule.dedupeKey).length > 0) {
+			return false;
+		}
+
+		const now = this.clock();
+		const deliverAt =
+			schedule.deliverAt ??
+			(schedule.deliverAfterMs === null ? null : new Date(now.getTime() + schedule.deliverAfterMs));
+		this.records.set(event.eventId, {
+			event_id: event.eventId,
+			tenant_id: event.tenantId,
+			event_name: event.eventName,
+			event_version: event.eventVersion,
+			partition_key: event.partitionKey,
+			seq: ++this.seq,
+			payload: JSON.parse(JSON.stringify(event)),
+			status: input.options?.status ?? 'pending',
+			retry_count: 0,
+			next_retry_at: null,
+			last_error: null,
+			deliver_at: deliverAt,
+			dedupe_key: schedule.dedupeKey,
+			occurred_at: now,
+			created_at: now,
+			updated_at: now
+		});
+		return true;
+	}
+
+	/**
+	 * @description 按去重键取消尚未投递的事件（对应 `cancelScheduledIntegrationOutboxEvents`）
+	 *
+	 * @param tenantId - 租户 ID
+	 * @param dedupeKey - 去重键
+	 * @returns 取消的事件数
+	 */
+	cancelScheduled(tenantId: string, dedupeKey: string): number {
+		const records = this.findPendingByDedupeKey(tenantId, dedupeKey);
+		for (const record of records) {
+			this.records.delete(record.event_id);
+		}
+		return records.length;
+	}
+
+	/**
+	 * @description 创建绑定到本 Outbox 的处理器
+	 *
+	 * @param options - 处理器配置
+	 * @returns 处理器
+	 */
+	createProcessor(options: InMemoryIntegrationOutboxProcessorOptions): InMemoryIntegrationOutboxProcessor {
+		return new InMemoryIntegrationOutboxProcessor(this, options);
+	}
+
+	/**
+	 * @description 获取全部行（按写入顺序，返回副本）
+	 */
+	getRecords(): InMemoryIntegrationOutboxRecord[] {
+		return [...this.records.values()].map((r) => ({ ...r }));
+	}
+
+	/**
+	 * @description 获取指定事件的行
+	 */
+	getRecord(eventId: string): InMemoryIntegrationOutboxRecord | undefined {
+		const record = this.records.get(eventId);
+		return record ? { ...record } : undefined;
+	}
+
+	/**
+	 * @description 获取已写入的集成事件信封（按写入顺序）
+	 */
+	getEvents(): OksaiIntegrationEvent[] {
+		return [...this.records.values()].map((r) => r.payload as OksaiIntegrationEvent);
+	}
+
+	/**
+	 * @description 获取死信
+	 */
+	getDeadLetters(): InMemoryIntegrationDeadLetterRecord[] {
+		return [...this.deadLetters.values()].map((r) => ({ ...r }));
+	}
+
+	/**
+	 * @description 查询消费者是否已处理事件
+	 */
+	isInboxProcessed(eventId: string, consumerName: string): boolean {
+		return this.inbox.has(inboxKey(eventId, consumerName));
+	}
+
+	/**
+	 * @description 标记消费者已处理事件（重复标记无害）
+	 */
+	markInboxProcessed(eventId: string, consumerName: string): void {
+		this.inbox.add(inboxKey(eventId, consumerName));
+	}
+
+	private findPendingByDedupeKey(tenantId: string, dedupeKey: string): InMemoryIntegrationOutboxRecord[] {
+		return [...this.records.values()].filter(
+			(r) => r.tenant_id === tenantId && r.dedupe_key === dedupeKey && r.status === 'pending'
+		);
+	}
+
+	/**
+	 * @description 清空全部数据
+	 */
+	clear(): void {
+		this.records.clear();
+		this.deadLetters.clear();
+		this.inbox.clear();
+	}
+
+	/**
+	 * @internal 供 InMemoryIntegrationOutboxProcessor 使用
+	 */
+	claim(claimStatus: 'pending' | 'queued', limit: number, partitionOrdered = false): IntegrationOutboxRow[] {
+		const now = this.clock();
+		const all = [...this.records.values()];
+		const isDue = (r: InMemoryIntegrationOutboxRecord) => r.deliver_at === null || r.deliver_at <= now;
+		const isPartitionHead = (r: InMemoryIntegrationOutboxRecord) =>
+			!all.some(
+				(p) =>
+					p.partition_key === r.partition_key &&
+					p.seq < r.seq &&
+					p.status !== 'published' &&
+					p.status !== 'dead' &&
+					isDue(p)
+			);
+		const rows = all
+			.filter(
+				(r) =>
+					(r.status === claimStatus || r.status === 'failed') &&
+					(r.next_retry_at === null || r.next_retry_at <= now) &&
+					isDue(r) &&
+					(!partitionOrdered || isPartitionHead(r))
+			)
+			.sort((a, b) =>
+				partitionOrdered ? a.seq - b.seq : new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime()
+			)
+			.slice(0, limit);
+
+		return rows.map((r) => {
+			r.status = 'processing';
+			r.updated_at = now;
+			return {
+				event_id: r.event_id,
+				tenant_id: r.tenant_id,
+				event_name: r.event_name,
+				event_version: r.event_version,
+				partition_key: r.partition_key,
+				payload: r.payload,
+				retry_count: r.retry_count,
+				occurred_at: r.occurred_at,
+				deliver_at: r.deliver_at
+			};
+		});
+	}
+
+	/**
+	 * @internal 供 InMemoryIntegrationOutboxProcessor 使用
+	 */
+	markPublished(eventId: string): void {
+		const record = this.records.get(eventId);
+		if (!record) return;
+		record.status = 'published';
+		record.updated_at = this.clock();
+	}
+
+	/**
+	 * @internal 供 InMemoryIntegrationOutboxProcessor 使用
+	 */
+	markFailed(
+		eventId: string,
+		lastError: string,
+		params: { maxRetryCount: number; processorName: string; consumerName: string }
+	): void {
+		const record = this.records.get(eventId);
+		if (!record) return;
+
+		const now = this.clock();
+		const nextSeconds = computeOutboxNextRetrySeconds(record.retry_count);
+		record.retry_count += 1;
+		record.last_error = lastError.slice(0, 2000);
+		record.updated_at = now;
+
+		if (record.retry_count >= params.maxRetryCount) {
+			record.status = 'dead';
+			record.next_retry_at = null;
+			if (!this.deadLetters.has(eventId)) {
+				this.deadLetters.set(eventId, {
+					tenant_id: record.tenant_id,
+					event_id: record.event_id,
+					event_name: record.event_name,
+					event_version: record.event_version,
+					partition_key: record.partition_key,
+					payload: record.payload,
+					retry_count: record.retry_count,
+					last_error: record.last_error,
+					occurred_at: record.occurred_at,
+					dead_at: now,
+					processor_name: params.processorName,
+					consumer_name: params.consumerName
+				});
+			}
+			return;
+		}
+
+		record.status = 'failed';
+		record.next_retry_at = new Date(now.getTime() + nextSeconds * 1000);
+	}
+}
+
+/**
+ * @description 内存 Outbox 处理器（与 IntegrationOutboxProcessor 相同的 claim → handle → published/failed 流程）
+ */
+export class InMemoryIntegrationOutboxProcessor {
+	constructor(
+		private readonly outbox: InMemoryIntegrationOutbox,
+		private readonly options: InMemoryIntegrationOutboxProcessorOptions
+	) {}
+
+	/**
+	 * @description 处理一批 Outbox 事件
+	 *
+	 * @param batchSize - 单次 claim 的条数
+	 * @returns 实际 claim 到的条数
+	 */
+	async processBatch(batchSize: number): Promise<number> {
+		const concurrency = this.options.partitionConcurrency;
+		const rows = this.outbox.claim(this.options.claimStatus ?? 'pending', batchSize, concurrency !== undefined);
+		if (concurrency === undefined) {
+			for (const row of rows) {
+				await this.handleOne(row);
+			}
+			return rows.length;
+		}
+
+		const queue = [...rows];
+		const runLane = async (): Promise<void> => {
+			for (let row = queue.shift(); row; row = queue.shift()) {
+				await this.handleOne(row);
+			}
+		};
+		await Promise.all(
+			Array.from({ length: Math.min(Math.max(1, Math.floor(concurrency)), queue.length) }, runLane)
+		);
+		return rows.length;
+	}
+
+	private async handleOne(row: IntegrationOutboxRow): Promise<void> {
+		let envelope: OksaiIntegrationEvent;
+		try {
+			envelope = parseIntegrationEventEnvelopeFromOutboxRow(row, row.payload);
+		} catch (e) {
+			this.fail(row, e);
+			return;
+		}
+
+		const run = withOksaiWorkerContextFromJob(async () => {
+			if (this.outbox.isInboxProcessed(row.event_id, this.options.consumerName)) {
+				this.outbox.markPublished(row.event_id);
+				return;
+			}
+
+			await this.options.handleEvent({ row, envelope });
+			this.outbox.markInboxProcessed(row.event_id, this.options.consumerName);
+			this.outbox.markPublished(row.event_id);
+		});
+
+		try {
+			await run({
+				tenantId: row.tenant_id,
+				userId: envelope.actorId,
+				requestId: envelope.requestId ?? row.event_id,
+				locale: envelope.locale,
+				eventId: row.event_id,
+				eventName: row.event_name,
+				eventVersion: row.event_version,
+				traceparent: envelope.traceparent,
+				tracestate: envelope.tracestate
+			});
+		} catch (e) {
+			this.fail(row, e);
+		}
+	}
+
+	private fail(row: IntegrationOutboxRow, e: unknown): void {
+		const errMsg = e instanceof Error ? e.message : String(e);
+		this.outbox.markFailed(row.event_id, errMsg, {
+			maxRetryCount: this.options.maxRetryCount ?? readOutboxMaxRetryCount(),
+			processorName: this.options.processorName,
+			consumerName: this.options.consumerName
+		});
+		this.options.logger?.error(
+			{ tenantId: row.tenant_id, eventId: row.event_id, eventName: row.event_name, err: errMsg },
+			`${this.options.processorName} 处理 Outbox 事件失败，已回写 failed/next_retry_at。`
+		);
+	}
+}
+
+/**
+ * @description 断言存在匹配的集成事件
+ *
+ * @param events - 实际事件（如 `InMemoryIntegrationOutbox.getEvents()`）
+ * @param expected - 期望的事件
+ * @returns 第一个匹配的事件
+ * @throws Error 不存在匹配的事件时（错误信息列出实际事件）
+ */
+export function assertIntegrationEventPublished(
+	events: readonly OksaiIntegrationEvent[],
+	expected: ExpectedIntegrationEvent
+): OksaiIntegrationEvent {
+	const matched = events.find((e) => matchesIntegrationEvent(e, expected));
+	if (!matched) {
+		throw new Error(`未找到期望的集成事件：${JSON.stringify(expected)}\n实际事件：\n${describeEvents(events)}`);
+	}
+	return matched;
+}
+
+/**
+ * @description 断言不存在匹配的集成事件
+ *
+ * @param events - 实际事件
+ * @param expected - 不应出现的事件（空对象表示不应有任何事件）
+ * @throws Error 存在匹配的事件时
+ */
+export function assertNoIntegrationEventPublished(
+	events: readonly OksaiIntegrationEvent[],
+	expected: ExpectedIntegrationEvent = {}
+): void {
+	const matched = events.filter((e) => matchesIntegrationEvent(e, expected));
+	if (matched.length > 0) {
+		throw new Error(`不应出现的集成事件：${JSON.stringify(expected)}\n匹配到的事件：\n${describeEvents(matched)}`);
+	}
+}
+
+function matchesIntegrationEvent(event: OksaiIntegrationEvent, expected: ExpectedIntegrationEvent): boolean {
+	return (
+		(expected.eventName === undefined || event.eventName === expected.eventName) &&
+		(expected.eventVersion === undefined || event.eventVersion === expected.eventVersion) &&
+		(expected.tenantId === undefined || event.tenantId === expected.tenantId) &&
+		(expected.partitionKey === undefined || event.partitionKey === expected.partitionKey) &&
+		(expected.data === undefined || isPartialMatch(event.data, expected.data))
+	);
+}
+
+function describeEvents(events: readonly OksaiIntegrationEvent[]): string {
+	if (events.length === 0) return '  （无）';
+	return events
+		.map((e) => `  - ${e.eventName} v${e.eventVersion} tenantId=${e.tenantId} ${JSON.stringify(e.data)}`)
+		.join('\n');
+}
+
+function inboxKey(eventId: string, consumerName: string): string {
+	return `${consumerName}\u0000${eventId}`;
+}
@@ -0,0 +1,57 @@
+import { KafkaIntegrationEventProducer } from '../kafka/kafka-event-producer';
+import { RedisStreamsIntegrationEventConsumer } from '../redis/redis-streams-event-consumer';
+import { RedisStreamsIntegrationEventProducer } from '../redis/redis-streams-event-producer';
+import {
+	createIntegrationEventConsumerFromEnv,
+	createIntegrationEventProducerFromEnv,
+	readIntegrationEventTransportKind
+} from './integration-event-transport';
+
+describe('integration event transport selection', () => {
+	const logger = { error: jest.fn(), log: jest.fn(), warn: jest.fn(), debug: jest.fn() } as any;
+	const redis = { call: jest.fn() };
+
+	const OLD_ENV = process.env;
+	beforeEach(() => {
+		process.env = { ...OLD_ENV };
+		delete process.env.INTEGRATION_EVENT_TRANSPORT;
+	});
+	afterAll(() => {
+		process.env = OLD_ENV;
+	});
+
+	it('should default to kafka', () => {
+		process.env.KAFKA_ENABLED = 'true';
+		process.env.KAFKA_BROKERS = 'localhost:9092';
+
+		expect(readIntegrationEventTransportKind()).toBe('kafka');
+		expect(createIntegrationEventProducerFromEnv({ logger, redis })).toBeInstanceOf(KafkaIntegrationEventProducer);
+	});
+
+	it('should create redis streams producer and consumer when INTEGRATION_EVENT_TRANSPORT=redis', () => {
+		process.env.INTEGRATION_EVENT_TRANSPORT = 'redis';
+		process.env.REDIS_STREAMS_ENABLED = 'true';
+
+		expect(createIntegrationEventProducerFromEnv({ logger, redis })).toBeInstanceOf(
+			RedisStreamsIntegrationEventProducer
+		);
+		expect(createIntegrationEventConsumerFromEnv({ logger, redis }, { group: 'g1' })).toBeInstanceOf(
+			RedisStreamsIntegrationEventConsumer
+		);
+	});
+
+	it('should return null when selected transport is disabled', () => {
+		process.env.INTEGRATION_EVENT_TRANSPORT = 'redis';
+		process.env.REDIS_STREAMS_ENABLED = 'false';
+		process.env.KAFKA_ENABLED = 'true';
+		process.env.KAFKA_BROKERS = 'localhost:9092';
+
+		expect(createIntegrationEventProducerFromEnv({ logger, redis })).toBeNull();
+	});
+
+	it('should reject unknown transport', () => {
+		process.env.INTEGRATION_EVENT_TRANSPORT = 'nats';
+
+		expect(() => readIntegrationEventTransportKind()).toThrow('INTEGRATION_EVENT_TRANSPORT 取值不合法');
+	});
+});
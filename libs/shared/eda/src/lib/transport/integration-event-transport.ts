@@ -0,0 +1,109 @@
+import type { OksaiIntegrationEvent } from '@oksai/contracts';
+import { KafkaIntegrationEventProducer, type KafkaLogger } from '../kafka/kafka-event-producer';
+import { KafkaIntegrationEventConsumer } from '../kafka/kafka-event-consumer';
+import type { RedisStreamsClientLike } from '../redis/redis-streams.config';
+import { RedisStreamsIntegrationEventProducer } from '../redis/redis-streams-event-producer';
+import { RedisStreamsIntegrationEventConsumer } from '../redis/redis-streams-event-consumer';
+
+/**
+ * @description 集成事件传输层类型
+ */
+export type IntegrationEventTransportKind = 'kafka' | 'redis';
+
+/**
+ * @description 集成事件 Producer（Kafka / Redis Streams 共同契约）
+ */
+export interface IntegrationEventTransportProducer {
+	connect(): Promise<void>;
+	disconnect(): Promise<void>;
+	publish(envelope: OksaiIntegrationEvent): Promise<void>;
+}
+
+/**
+ * @description 集成事件 Consumer（Kafka / Redis Streams 共同契约）
+ */
+export interface IntegrationEventTransportConsumer {
+	start(input: { onEvent: (envelope: OksaiIntegrationEvent) => Promise<void> }): Promise<void>;
+	stop(): Promise<void>;
+}
+
+/**
+ * @description 传输层创建依赖
+ */
+export interface IntegrationEventTransportInput {
+	logger: KafkaLogger;
+
+	/**
+	 * @description Redis 客户端（选择 redis 传输层时必填，通常为 `@oksai/redis` 注入的 OKSAI_REDIS）
+	 */
+	redis?: RedisStreamsClientLike;
+}
+
+/**
+ * @description 读取集成事件传输层类型
+ *
+ * 环境变量：
+ * - `INTEGRATION_EVENT_TRANSPORT`：`kafka`（默认）或 `redis`
+ *
+ * @returns 传输层类型
+ * @throws Error 当取值不合法时抛出
+ */
+export function readIntegrationEventTransportKind(): IntegrationEventTransportKind {
+	const raw = (process.env.INTEGRATION_EVENT_TRANSPORT ?? '').trim().toLowerCase();
+	if (raw === '' || raw === 'kafka') return 'kafka';
+	if (raw === 'redis') return 'redis';
+	throw new Error(`INTEGRATION_EVENT_TRANSPORT 取值不合法：${raw}（可选 kafka / redis）。`);
+}
+
+/**
+ * @description 按配置创建集成事件 Producer
+ *
+ * 说明：
+ * - 返回值可直接接入 `IntegrationOutboxPublisher` 的 publish 回调
+ * - 所选传输层未启用（`KAFKA_ENABLED` / `REDIS_STREAMS_ENABLED`）时返回 null
+ *
+ * @param input - 依赖
+ * @param overrides - 覆盖项（Kafka topic / Redis stream key 统一为 destination）
+ * @returns Producer（启用时），否则返回 null
+ *
+ * @example
+ * ```typescript
+ * const producer = createIntegrationEventProducerFromEnv({ logger, redis });
+ * await producer?.connect();
+ * const publisher = new IntegrationOutboxPublisher({
+ *   publisherName: 'platform-api.outbox.publisher',
+ *   em,
+ *   logger,
+ *   publish: producer ? ({ envelope }) => producer.publish(envelope) : undefined
+ * });
+ * ```
+ */
+export function createIntegrationEventProducerFromEnv(
+	input: IntegrationEventTransportInput,
+	overrides: { destination?: string } = {}
+): IntegrationEventTransportProducer | null {
+	if (readIntegrationEventTransportKind() === 'redis') {
+		return RedisStreamsIntegrationEventProducer.fromEnv(input, { streamKey: overrides.destination });
+	}
+	return KafkaIntegrationEventProducer.fromEnv(input, { topic: overrides.destination });
+}
+
+/**
+ * @description 按配置创建集成事件 Consumer
+ *
+ * @param input - 依赖
+ * @param overrides - 覆盖项（Kafka groupId / Redis group 统一为 group；topic / stream key 统一为 destination）
+ * @returns Consumer（启用时），否则返回 null
+ */
+export function createIntegrationEventConsumerFromEnv(
+	input: IntegrationEventTransportInput,
+	overrides: { group?: string; destination?: string } = {}
+): IntegrationEventTransportConsumer | null {
+	if (readIntegrationEventTransportKind() === 'redis') {
+		return RedisStreamsIntegrationEventConsumer.fromEnv(input, {
+			group: overrides.group,
+			streamKey: overrides.destination
+		});
+	}
+	return KafkaIntegrationEventConsumer.fromEnv(input, { groupId: overrides.group, topic: overrides.destination });
+}
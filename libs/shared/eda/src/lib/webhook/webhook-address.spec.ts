@@ -0,0 +1,74 @@
+import { isIntegrationWebhookPublicAddress, resolveIntegrationWebhookTarget } from './webhook-address';
+
+describe('isIntegrationWebhookPublicAddress', () => {
+	it('should reject loopback, private, link-local and ULA addresses', () => {
+		for (const address of [
+			'127.0.0.1',
+			'10.1.2.3',
+			'172.20.0.1',
+			'192.168.1.1',
+			'169.254.169.254',
+			'100.64.0.1',
+			'0.0.0.0',
+			'::1',
+			'::',
+			'fd00::1',
+			'fe80::1',
+			'::ffff:127.0.0.1',
+			'64:ff9b::a00:1',
+			'not-an-ip'
+		]) {
+			expect(isIntegrationWebhookPublicAddress(address)).toBe(false);
+		}
+	});
+
+	it('should accept public addresses', () => {
+		expect(isIntegrationWebhookPublicAddress('93.184.216.34')).toBe(true);
+		expect(isIntegrationWebhookPublicAddress('2606:4700::1111')).toBe(true);
+		expect(isIntegrationWebhookPublicAddress('::ffff:93.184.216.34')).toBe(true);
+	});
+});
+
+describe('resolveIntegrationWebhookTarget', () => {
+	it('should return the first resolved public address', async () => {
+		const lookup = jest.fn(async () => [
+			{ address: '2606:4700::1111', family: 6 },
+			{ address: '93.184.216.34', family: 4 }
+		]);
+
+		await expect(resolveIntegrationWebhookTarget('https://example.com/hooks', { lookup })).resolves.toEqual({
+			hostname: 'example.com',
+			address: '2606:4700::1111',
+			family: 6
+		});
+		expect(lookup).toHaveBeenCalledWith('example.com');
+	});
+
+	it('should reject IP literals and hosts resolving to non-public addresses', async () => {
+		const lookup = jest.fn(async () => [{ address: '10.0.0.5', family: 4 }]);
+
+		await expect(resolveIntegrationWebhookTarget('https://internal.example.com', { lookup })).rejects.toThrow(
+			'internal.example.com → 10.0.0.5'
+		);
+		await expect(resolveIntegrationWebhookTarget('http://[::ffff:127.0.0.1]:8080/', { lookup })).rejects.toThrow(
+			'已拒绝投递'
+		);
+		await expect(resolveIntegrationWebhookTarget('http://2130706433/', { lookup })).rejects.toThrow('127.0.0.1');
+		expect(lookup).toHaveBeenCalledTimes(1);
+	});
+
+	it('should reject hosts that do not resolve', async () => {
+		await expect(
+			resolveIntegrationWebhookTarget('https://nowhere.example.com', { lookup: async () => [] })
+		).rejects.toThrow('无法解析');
+	});
+
+	it('should allow non-public addresses when explicitly enabled', async () => {
+		await expect(
+			resolveIntegrationWebhookTarget('http://localhost:3000/hooks', {
+				lookup: async () => [{ address: '127.0.0.1', family: 4 }],
+				allowPrivateAddresses: true
+			})
+		).resolves.toMatchObject({ address: '127.0.0.1', family: 4 });
+	});
+});
@@ -0,0 +1,98 @@
+import { lookup as dnsLookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+/**
+ * @description 解析后的 Webhook 目标地址（投递时固定连接到该 IP）
+ */
+export interface IntegrationWebhookTarget {
+	hostname: string;
+	address: string;
+	family: 4 | 6;
+}
+
+/**
+ * @description 主机名解析函数（默认 `dns.promises.lookup(hostname, { all: true })`；测试时可替换）
+ */
+export type IntegrationWebhookLookup = (hostname: string) => Promise<Array<{ address: string; family: number }>>;
+
+/**
+ * 不允许投递的地址段：回环、私有网络、链路本地、ULA、CGNAT、组播与保留地址
+ */
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [prefix, bits] of [
+	['0.0.0.0', 8],
+	['10.0.0.0', 8],
+	['100.64.0.0', 10],
+	['127.0.0.0', 8],
+	['169.254.0.0', 16],
+	['172.16.0.0', 12],
+	['192.0.0.0', 24],
+	['192.168.0.0', 16],
+	['198.18.0.0', 15],
+	['224.0.0.0', 4],
+	['240.0.0.0', 4]
+] as const) {
+	NON_PUBLIC_ADDRESSES.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [
+	['::', 128],
+	['::1', 128],
+	['64:ff9b::', 96],
+	['fc00::', 7],
+	['fe80::', 10],
+	['ff00::', 8]
+] as const) {
+	NON_PUBLIC_ADDRESSES.addSubnet(prefix, bits, 'ipv6');
+}
+
+/**
+ * @description 判断 IP 是否为公网地址
+ *
+ * 说明：
+ * - IPv4 映射的 IPv6 地址（`::ffff:a.b.c.d`）按其 IPv4 地址判断（BlockList 内置映射）；NAT64 前缀一律视为非公网
+ *
+ * @param address - IP 地址
+ * @returns 非 IP 或属于回环/私有/链路本地/ULA 等地址段时返回 false
+ */
+export function isIntegrationWebhookPublicAddress(address: string): boolean {
+	const family = isIP(address);
+	if (family === 0) return false;
+	return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * @description 解析 Webhook 地址并校验目标 IP
+ *
+ * 业务规则：
+ * - 在投递时解析（而非注册时），防止 DNS 记录事后指向内网
+ * - 解析结果中任一地址不是公网地址即拒绝，返回的地址用于固定本次连接，避免 DNS 重绑定
+ *
+ * @param url - Webhook 接收地址
+ * @param options - `lookup` 自定义解析；`allowPrivateAddresses` 允许内网地址（仅用于本地联调）
+ * @returns 本次投递连接的目标地址
+ * @throws Error 当主机无法解析或解析到非公网地址时抛出
+ */
+export async function resolveIntegrationWebhookTarget(
+	url: string,
+	options: { lookup?: IntegrationWebhookLookup; allowPrivateAddresses?: boolean } = {}
+): Promise<IntegrationWebhookTarget> {
+	const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+	const addresses = isIP(hostname)
+		? [{ address: hostname, family: isIP(hostname) }]
+		: await (options.lookup ?? lookupAll)(hostname);
+	if (addresses.length === 0) {
+		throw new Error(`Webhook 地址无法解析：${hostname}`);
+	}
+	if (!options.allowPrivateAddresses) {
+		const rejected = addresses.find((a) => !isIntegrationWebhookPublicAddress(a.address));
+		if (rejected) {
+			throw new Error(`Webhook 地址解析到非公网地址，已拒绝投递：${hostname} → ${rejected.address}`);
+		}
+	}
+	const [first] = addresses;
+	return { hostname, address: first.address, family: first.family === 6 ? 6 : 4 };
+}
+
+async function lookupAll(hostname: string): Promise<Array<{ address: string; family: number }>> {
+	return await dnsLookup(hostname, { all: true, verbatim: true });
+}
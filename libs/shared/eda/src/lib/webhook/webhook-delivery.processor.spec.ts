@@ -0,0 +1,339 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import type { EntityManager } from '@mikro-orm/core';
+import {
+	computeIntegrationWebhookNextAttemptSeconds,
+	IntegrationWebhookDeliveryProcessor,
+	type IntegrationWebhookHttpSender
+} from './webhook-delivery.processor';
+import { verifyIntegrationWebhookSignature } from './webhook-signature';
+
+function createDeliveryRow(overrides: Record<string, unknown> = {}) {
+	return {
+		id: 'd-001',
+		tenant_id: 't-001',
+		endpoint_id: 'wh-001',
+		event_id: 'evt-001',
+		event_name: 'tenant.user.invited',
+		payload: {
+			eventId: 'evt-001',
+			eventName: 'tenant.user.invited',
+			eventVersion: 1,
+			tenantId: 't-001',
+			partitionKey: 't-001',
+			occurredAt: '2026-03-01T00:00:00.000Z',
+			data: { userId: 'u-001' }
+		},
+		attempt_count: 0,
+		is_test: false,
+		url: 'https://example.com/hooks',
+		secret: 'whsec_new',
+		previous_secret: 'whsec_old',
+		previous_secret_expires_at: new Date(Date.now() + 3600_000),
+		...overrides
+	};
+}
+
+/**
+ * 按 SQL 片段路由 execute 的返回值，未命中时返回空数组
+ */
+function createEm(routes: Array<[string, unknown[]]>) {
+	const execute = jest.fn(async (sql: string) => {
+		const route = routes.find(([fragment]) => sql.includes(fragment));
+		return route ? route[1] : [];
+	});
+	const conn = { execute };
+	const em = {
+		getConnection: () => conn,
+		transactional: async (fn: (tem: unknown) => Promise<unknown>) => await fn({ getConnection: () => conn })
+	} as unknown as EntityManager;
+	return { em, execute };
+}
+
+function findCall(execute: jest.Mock, fragment: string) {
+	return execute.mock.calls.find(([sql]) => (sql as string).includes(fragment));
+}
+
+describe('IntegrationWebhookDeliveryProcessor (mocked EM)', () => {
+	const logger = { debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+	const lookup = jest.fn(async () => [{ address: '93.184.216.34', family: 4 }]);
+
+	beforeEach(() => jest.clearAllMocks());
+
+	it('should post signed CloudEvents payload and mark delivery succeeded', async () => {
+		const { em, execute } = createEm([['from integration_webhook_delivery d', [createDeliveryRow()]]]);
+		const send = jest.fn<ReturnType<IntegrationWebhookHttpSender>, Parameters<IntegrationWebhookHttpSender>>(
+			async () => ({ status: 204, body: '' })
+		);
+		const processor = new IntegrationWebhookDeliveryProcessor({ processorName: 'test', em, logger, send, lookup });
+
+		expect(await processor.deliverBatch(10)).toBe(1);
+
+		const request = send.mock.calls[0][0];
+		expect(request.url).toBe('https://example.com/hooks');
+		expect(request.address).toBe('93.184.216.34');
+		expect(lookup).toHaveBeenCalledWith('example.com');
+		expect(request.headers['content-type']).toBe('application/cloudevents+json');
+		expect(request.headers['oksai-webhook-id']).toBe('d-001');
+		expect(JSON.parse(request.body)).toMatchObject({
+			id: 'evt-001',
+			type: 'tenant.user.invited',
+			specversion: '1.0'
+		});
+		const header = request.headers['oksai-signature'];
+		expect(header.split(',')).toHaveLength(3);
+		expect(verifyIntegrationWebhookSignature({ header, body: request.body, secret: 'whsec_old' })).toBe(true);
+
+		expect(findCall(execute, 'insert into integration_webhook_delivery_attempt')?.[1]).toEqual([
+			expect.any(String),
+			'd-001',
+			204,
+			null,
+			expect.any(Number),
+			'',
+			'd-001'
+		]);
+		expect(findCall(execute, "set status = 'succeeded'")?.[1]).toEqual([204, 'd-001']);
+		expect(findCall(execute, 'set consecutive_failures = 0')?.[1]).toEqual(['wh-001']);
+	});
+
+	it('should schedule retry with backoff on non-2xx response', async () => {
+		const { em, execute } = createEm([
+			['from integration_webhook_delivery d', [createDeliveryRow({ attempt_count: 2, previous_secret: null })]],
+			[
+				'set consecutive_failures = consecutive_failures + 1',
+				[{ status: 'active', consecutive_failures: 3, failing_since: new Date() }]
+			]
+		]);
+		const send = jest.fn(async () => ({ status: 500, body: 'x'.repeat(1500) }));
+		const processor = new IntegrationWebhookDeliveryProcessor({ processorName: 'test', em, logger, send, lookup });
+
+		await processor.deliverBatch(10);
+
+		expect(
+			(findCall(execute, 'insert into integration_webhook_delivery_attempt')?.[1] as unknown[])[5]
+		).toHaveLength(256);
+		expect(findCall(execute, 'set status = ?,')?.[1]).toEqual([
+			'pending',
+			false,
+			'960',
+			500,
+			'接收方返回 HTTP 500',
+			'd-001'
+		]);
+		expect(findCall(execute, "set status = 'disabled'")).toBeUndefined();
+		expect(logger.warn).toHaveBeenCalledWith(
+			expect.objectContaining({ deliveryId: 'd-001', attemptNo: 3, statusCode: 500 }),
+			'test Webhook 投递失败。'
+		);
+	});
+
+	it('should mark delivery dead when attempts are exhausted', async () => {
+		const { em, execute } = createEm([
+			['from integration_webhook_delivery d', [createDeliveryRow({ attempt_count: 2 })]]
+		]);
+		const send = jest.fn(async () => {
+			throw new Error('connect ECONNREFUSED');
+		});
+		const processor = new IntegrationWebhookDeliveryProcessor({
+			processorName: 'test',
+			em,
+			logger,
+			send,
+			lookup,
+			maxAttempts: 3
+		});
+
+		await processor.deliverBatch(10);
+
+		expect(findCall(execute, 'set status = ?,')?.[1]).toEqual([
+			'dead',
+			true,
+			'960',
+			null,
+			'connect ECONNREFUSED',
+			'd-001'
+		]);
+	});
+
+	it('should try test deliveries once and leave endpoint health untouched', async () => {
+		const { em, execute } = createEm([
+			['from integration_webhook_delivery d', [createDeliveryRow({ is_test: true })]]
+		]);
+		const send = jest.fn(async () => ({ status: 404, body: 'not found' }));
+		const processor = new IntegrationWebhookDeliveryProcessor({ processorName: 'test', em, logger, send, lookup });
+
+		await processor.deliverBatch(10);
+
+		expect((findCall(execute, 'set status = ?,')?.[1] as unknown[])[0]).toBe('dead');
+		expect(findCall(execute, 'update integration_webhook_endpoint')).toBeUndefined();
+	});
+
+	it('should auto-disable endpoint after sustained consecutive failures', async () => {
+		const { em, execute } = createEm([
+			['from integration_webhook_delivery d', [createDeliveryRow()]],
+			[
+				'set consecutive_failures = consecutive_failures + 1',
+				[{ status: 'active', consecutive_failures: 5, failing_since: new Date(Date.now() - 7200_000) }]
+			]
+		]);
+		const send = jest.fn(async () => ({ status: 503, body: '' }));
+		const processor = new IntegrationWebhookDeliveryProcessor({
+			processorName: 'test',
+			em,
+			logger,
+			send,
+			lookup,
+			autoDisable: { consecutiveFailures: 5, failingForMs: 3600_000 }
+		});
+
+		await processor.deliverBatch(10);
+
+		expect(findCall(execute, "set status = 'disabled'")?.[1]).toEqual([
+			'连续失败 5 次，最近一次：接收方返回 HTTP 503',
+			'wh-001'
+		]);
+		expect(logger.warn).toHaveBeenCalledWith(
+			expect.objectContaining({ endpointId: 'wh-001', consecutiveFailures: 5 }),
+			'test Webhook 端点持续失败，已自动停用。'
+		);
+	});
+
+	it('should not disable endpoint that has failed often but only briefly', async () => {
+		const { em, execute } = createEm([
+			['from integration_webhook_delivery d', [createDeliveryRow()]],
+			[
+				'set consecutive_failures = consecutive_failures + 1',
+				[{ status: 'active', consecutive_failures: 50, failing_since: new Date(Date.now() - 60_000) }]
+			]
+		]);
+		const send = jest.fn(async () => ({ status: 503, body: '' }));
+		const processor = new IntegrationWebhookDeliveryProcessor({ processorName: 'test', em, logger, send, lookup });
+
+		await processor.deliverBatch(10);
+
+		expect(findCall(execute, "set status = 'disabled'")).toBeUndefined();
+	});
+
+	it('should refuse to post when the host resolves to a non-public address', async () => {
+		const { em, execute } = createEm([
+			['from integration_webhook_delivery d', [createDeliveryRow()]],
+			[
+				'set consecutive_failures = consecutive_failures + 1',
+				[{ status: 'active', consecutive_failures: 1, failing_since: new Date() }]
+			]
+		]);
+		const send = jest.fn(async () => ({ status: 200, body: 'metadata' }));
+		const processor = new IntegrationWebhookDeliveryProcessor({
+			processorName: 'test',
+			em,
+			logger,
+			send,
+			lookup: async () => [
+				{ address: '93.184.216.34', family: 4 },
+				{ address: '169.254.169.254', family: 4 }
+			]
+		});
+
+		await processor.deliverBatch(10);
+
+		expect(send).not.toHaveBeenCalled();
+		expect(findCall(execute, 'insert into integration_webhook_delivery_attempt')?.[1]).toEqual([
+			expect.any(String),
+			'd-001',
+			null,
+			'Webhook 地址解析到非公网地址，已拒绝投递：example.com → 169.254.169.254',
+			expect.any(Number),
+			null,
+			'd-001'
+		]);
+		expect(findCall(execute, 'set status = ?,')?.[1]).toEqual(expect.arrayContaining(['pending', null]));
+	});
+
+	it('should allow private addresses only when explicitly enabled', async () => {
+		const { em } = createEm([
+			['from integration_webhook_delivery d', [createDeliveryRow({ url: 'http://127.0.0.1:3000/hooks' })]]
+		]);
+		const send = jest.fn<ReturnType<IntegrationWebhookHttpSender>, Parameters<IntegrationWebhookHttpSender>>(
+			async () => ({ status: 200, body: 'ok' })
+		);
+		const processor = new IntegrationWebhookDeliveryProcessor({
+			processorName: 'test',
+			em,
+			logger,
+			send,
+			lookup,
+			allowPrivateAddresses: true
+		});
+
+		await processor.deliverBatch(10);
+
+		expect(lookup).not.toHaveBeenCalled();
+		expect(send.mock.calls[0][0].address).toBe('127.0.0.1');
+	});
+
+	it('should connect to the resolved address and keep only a short response excerpt', async () => {
+		const received: Array<{ host?: string; body: string }> = [];
+		const server = createServer((req, res) => {
+			let body = '';
+			req.on('data', (chunk) => (body += chunk));
+			req.on('end', () => {
+				received.push({ host: req.headers.host, body });
+				res.writeHead(500).end('x'.repeat(10_000));
+			});
+		});
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+		const { port } = server.address() as AddressInfo;
+		const { em, execute } = createEm([
+			[
+				'from integration_webhook_delivery d',
+				[createDeliveryRow({ url: `http://hooks.invalid:${port}/hooks`, is_test: true })]
+			]
+		]);
+		const processor = new IntegrationWebhookDeliveryProcessor({
+			processorName: 'test',
+			em,
+			logger,
+			lookup: async () => [{ address: '127.0.0.1', family: 4 }],
+			allowPrivateAddresses: true
+		});
+
+		try {
+			await processor.deliverBatch(10);
+		} finally {
+			await new Promise((resolve) => server.close(resolve));
+		}
+
+		expect(received).toHaveLength(1);
+		expect(received[0].host).toBe(`hooks.invalid:${port}`);
+		expect(JSON.parse(received[0].body)).toMatchObject({ id: 'evt-001' });
+		const attempt = findCall(execute, 'insert into integration_webhook_delivery_attempt')?.[1] as unknown[];
+		expect(attempt[2]).toBe(500);
+		expect(attempt[5]).toHaveLength(256);
+	});
+
+	it('should lease claimed deliveries for request timeout plus one minute', async () => {
+		const { em, execute } = createEm([['from integration_webhook_delivery d', [createDeliveryRow()]]]);
+		const send = jest.fn(async () => ({ status: 200, body: 'ok' }));
+		const processor = new IntegrationWebhookDeliveryProcessor({
+			processorName: 'test',
+			em,
+			logger,
+			send,
+			lookup,
+			requestTimeoutMs: 5000
+		});
+
+		await processor.deliverBatch(10);
+
+		expect(findCall(execute, 'where id = any(cast(? as uuid[]))')?.[1]).toEqual(['65000', ['d-001']]);
+	});
+});
+
+describe('computeIntegrationWebhookNextAttemptSeconds', () => {
+	it('should back off exponentially up to six hours', () => {
+		expect([1, 2, 3, 4, 5, 6, 10].map(computeIntegrationWebhookNextAttemptSeconds)).toEqual([
+			60, 240, 960, 3840, 15360, 21600, 21600
+		]);
+	});
+});
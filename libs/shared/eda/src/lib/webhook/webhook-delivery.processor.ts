@@ -0,0 +1,490 @@
+import { randomUUID } from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+
+import type { EntityManager } from '@mikro-orm/core';
+import { CLOUDEVENTS_STRUCTURED_CONTENT_TYPE, toOksaiCloudEvent, type OksaiIntegrationEvent } from '@oksai/contracts';
+import type { OutboxLogger } from '../outbox/outbox-processor';
+import { INTEGRATION_WEBHOOK_HEADERS, signIntegrationWebhookPayload } from './webhook-signature';
+import { resolveIntegrationWebhookTarget, type IntegrationWebhookLookup } from './webhook-address';
+
+/**
+ * @description Webhook HTTP 响应（只保留投递日志需要的部分）
+ */
+export interface IntegrationWebhookHttpResponse {
+	status: number;
+	body: string;
+}
+
+/**
+ * @description Webhook HTTP 发送函数（默认使用 Node http/https；测试时可替换）
+ *
+ * 约定：
+ * - 必须连接到 `address`（投递前已解析并校验的 IP），不能重新解析 `url` 中的主机名
+ * - 返回的 body 只需要前若干字符，读到上限即可断开
+ */
+export type IntegrationWebhookHttpSender = (request: {
+	url: string;
+	address: string;
+	headers: Record<string, string>;
+	body: string;
+	timeoutMs: number;
+}) => Promise<IntegrationWebhookHttpResponse>;
+
+/**
+ * @description Webhook 投递处理器配置选项
+ */
+export interface IntegrationWebhookDeliveryProcessorOptions {
+	/**
+	 * @description 处理器名称（用于日志定位）
+	 */
+	processorName: string;
+
+	/**
+	 * @description MikroORM EntityManager
+	 */
+	em: EntityManager;
+
+	/**
+	 * @description 日志对象
+	 */
+	logger: OutboxLogger;
+
+	/**
+	 * @description HTTP 发送函数（默认 Node http/https，固定连接到解析出的 IP，不跟随重定向）
+	 */
+	send?: IntegrationWebhookHttpSender;
+
+	/**
+	 * @description 主机名解析函数（默认 `dns.promises.lookup`）
+	 */
+	lookup?: IntegrationWebhookLookup;
+
+	/**
+	 * @description 是否允许投递到回环、私有网络、链路本地等非公网地址（默认 false，仅用于本地联调）
+	 */
+	allowPrivateAddresses?: boolean;
+
+	/**
+	 * @description 单次请求超时毫秒（默认 10000）
+	 */
+	requestTimeoutMs?: number;
+
+	/**
+	 * @description 单次投递最多尝试次数（默认 10，约 30 小时后进入 dead）
+	 */
+	maxAttempts?: number;
+
+	/**
+	 * @description 自动停用规则：连续失败次数与持续失败时长同时达到阈值时停用端点
+	 */
+	autoDisable?: {
+		/**
+		 * @description 连续失败尝试次数（默认 20）
+		 */
+		consecutiveFailures?: number;
+
+		/**
+		 * @description 持续失败时长（ms，默认 3 天）
+		 */
+		failingForMs?: number;
+	};
+}
+
+/**
+ * @description 待投递行数据结构（投递 + 端点签名信息）
+ */
+interface IntegrationWebhookClaimedDelivery {
+	id: string;
+	tenant_id: string;
+	endpoint_id: string;
+	event_id: string;
+	event_name: string;
+	payload: unknown;
+	attempt_count: number;
+	is_test: boolean;
+	url: string;
+	secret: string;
+	previous_secret: string | null;
+	previous_secret_expires_at: string | Date | null;
+}
+
+const MAX_RESPONSE_BODY_LENGTH = 256;
+
+/**
+ * @description 计算 Webhook 下一次尝试的退避秒数
+ *
+ * 规则：
+ * - 第 n 次失败后等待 min(60 × 4^(n-1), 21600) 秒：1 分钟、4 分钟、16 分钟 …… 最长 6 小时
+ *
+ * @param attemptCount - 已失败的尝试次数（≥ 1）
+ */
+export function computeIntegrationWebhookNextAttemptSeconds(attemptCount: number): number {
+	return Math.min(60 * Math.pow(4, Math.max(0, attemptCount - 1)), 21_600);
+}
+
+/**
+ * @description Webhook 投递处理器
+ *
+ * 业务规则：
+ * - claim `status=pending` 且到期的投递（端点已停用时只投递测试事件），claim 时把 next_attempt_at 推后作为租约，
+ *   进程崩溃后租约到期会被重新投递
+ * - 请求体为 CloudEvents structured JSON，签名见 `signIntegrationWebhookPayload`
+ * - 每次尝试前解析主机名，解析到回环、私有网络、链路本地、ULA 等非公网地址时按失败处理（防 SSRF），
+ *   请求固定连接到本次解析出的 IP，避免 DNS 重绑定
+ * - 2xx 视为成功；其余响应码、超时与网络错误均视为失败，按指数退避重试，尝试次数耗尽进入 dead
+ * - 每次尝试写入 `integration_webhook_delivery_attempt`（响应码、耗时、响应体前 256 个字符）
+ * - 端点连续失败达到阈值后自动停用；任一成功清零失败计数
+ * - 测试事件只尝试一次，且不计入端点健康度
+ */
+export class IntegrationWebhookDeliveryProcessor {
+	private readonly send: IntegrationWebhookHttpSender;
+	private readonly requestTimeoutMs: number;
+	private readonly maxAttempts: number;
+	private readonly disableAfterFailures: number;
+	private readonly disableAfterMs: number;
+
+	constructor(private readonly options: IntegrationWebhookDeliveryProcessorOptions) {
+		this.send = options.send ?? sendToPinnedAddress;
+		this.requestTimeoutMs = Math.max(1000, options.requestTimeoutMs ?? 10_000);
+		this.maxAttempts = Math.max(1, options.maxAttempts ?? 10);
+		this.disableAfterFailures = Math.max(1, options.autoDisable?.consecutiveFailures ?? 20);
+		this.disableAfterMs = Math.max(0, options.autoDisable?.failingForMs ?? 3 * 24 * 3600_000);
+	}
+
+	/**
+	 * @description 投递一批到期的 Webhook
+	 *
+	 * @param batchSize - 单次 claim 条数
+	 * @returns 实际尝试的投递数
+	 */
+	async deliverBatch(batchSize: number): Promise<number> {
+		let rows: IntegrationWebhookClaimedDelivery[] = [];
+		try {
+			rows = await this.claimDueDeliveries(batchSize);
+		} catch (e) {
+			this.options.logger.error(
+				{ err: e instanceof Error ? e.message : String(e) },
+				`${this.options.processorName} 拉取 integration_webhook_delivery 失败。`
+			);
+			return 0;
+		}
+
+		for (const row of rows) {
+			await this.deliverOne(row);
+		}
+		return rows.length;
+	}
+
+	private async claimDueDeliveries(limit: number): Promise<IntegrationWebhookClaimedDelivery[]> {
+		return await this.options.em.transactional(async (tem) => {
+			const conn = tem.getConnection();
+			const rows = (await conn.execute(
+				`
+				select
+					d.id,
+					d.tenant_id,
+					d.endpoint_id,
+					d.event_id,
+					d.event_name,
+					d.payload,
+					d.attempt_count,
+					d.is_test,
+					e.url,
+					e.secret,
+					e.previous_secret,
+					e.previous_secret_expires_at
+				from integration_webhook_delivery d
+				join integration_webhook_endpoint e on e.id = d.endpoint_id
+				where d.status = 'pending'
+					and d.next_attempt_at <= now()
+					and (e.status = 'active' or d.is_test)
+				order by d.next_attempt_at asc
+				limit ?
+				for update of d skip locked
+				`,
+				[limit]
+			)) as IntegrationWebhookClaimedDelivery[];
+
+			if (rows.length === 0) return [];
+
+			// 租约：超过单次请求超时仍未回写时允许其他实例重新投递
+			await conn.execute(
+				`
+				update integration_webhook_delivery
+				set next_attempt_at = now() + (?::text || ' milliseconds')::interval,
+					updated_at = now()
+				where id = any(cast(? as uuid[]))
+				`,
+				[String(this.requestTimeoutMs + 60_000), rows.map((r) => r.id)]
+			);
+			return rows;
+		});
+	}
+
+	private async deliverOne(row: IntegrationWebhookClaimedDelivery): Promise<void> {
+		const attemptNo = row.attempt_count + 1;
+		const startedAt = Date.now();
+		let statusCode: number | null = null;
+		let responseBody: string | null = null;
+		let error: string | null = null;
+
+		try {
+			const envelope = (
+				typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload
+			) as OksaiIntegrationEvent;
+			const body = JSON.stringify(toOksaiCloudEvent(envelope));
+			const target = await resolveIntegrationWebhookTarget(row.url, {
+				lookup: this.options.lookup,
+				allowPrivateAddresses: this.options.allowPrivateAddresses
+			});
+			const timestamp = Math.floor(Date.now() / 1000);
+			const response = await this.send({
+				url: row.url,
+				address: target.address,
+				headers: {
+					'content-type': CLOUDEVENTS_STRUCTURED_CONTENT_TYPE,
+					'user-agent': 'Oksai-Webhooks/1.0',
+					[INTEGRATION_WEBHOOK_HEADERS.signature]: signIntegrationWebhookPayload({
+						secrets: this.activeSecrets(row),
+						timestamp,
+						body
+					}),
+					[INTEGRATION_WEBHOOK_HEADERS.webhookId]: row.id,
+					[INTEGRATION_WEBHOOK_HEADERS.timestamp]: String(timestamp),
+					[INTEGRATION_WEBHOOK_HEADERS.eventId]: row.event_id,
+					[INTEGRATION_WEBHOOK_HEADERS.eventName]: row.event_name
+				},
+				body,
+				timeoutMs: this.requestTimeoutMs
+			});
+			statusCode = response.status;
+			responseBody = response.body.slice(0, MAX_RESPONSE_BODY_LENGTH);
+			if (response.status < 200 || response.status >= 300) {
+				error = `接收方返回 HTTP ${response.status}`;
+			}
+		} catch (e) {
+			error = e instanceof Error ? e.message : String(e);
+		}
+		const durationMs = Date.now() - startedAt;
+
+		try {
+			await this.recordAttempt(row.id, statusCode, error, durationMs, responseBody);
+			if (error === null) {
+				await this.markSucceeded(row, statusCode);
+			} else {
+				await this.markFailed(row, attemptNo, statusCode, error);
+			}
+		} catch (e) {
+			this.options.logger.error(
+				{
+					tenantId: row.tenant_id,
+					deliveryId: row.id,
+					endpointId: row.endpoint_id,
+					eventId: row.event_id,
+					err: e instanceof Error ? e.message : String(e)
+				},
+				`${this.options.processorName} 回写 Webhook 投递结果失败（租约到期后将重新投递）。`
+			);
+			return;
+		}
+
+		const log = {
+			tenantId: row.tenant_id,
+			deliveryId: row.id,
+			endpointId: row.endpoint_id,
+			eventId: row.event_id,
+			eventName: row.event_name,
+			attemptNo,
+			statusCode,
+			durationMs
+		};
+		if (error === null) {
+			this.options.logger.debug(log, `${this.options.processorName} Webhook 投递成功。`);
+		} else {
+			this.options.logger.warn({ ...log, err: error }, `${this.options.processorName} Webhook 投递失败。`);
+		}
+	}
+
+	private activeSecrets(row: IntegrationWebhookClaimedDelivery): string[] {
+		const secrets = [row.secret];
+		if (row.previous_secret && row.previous_secret_expires_at) {
+			const expiresAt = new Date(row.previous_secret_expires_at).getTime();
+			if (Number.isFinite(expiresAt) && expiresAt > Date.now()) secrets.push(row.previous_secret);
+		}
+		return secrets;
+	}
+
+	private async recordAttempt(
+		deliveryId: string,
+		statusCode: number | null,
+		error: string | null,
+		durationMs: number,
+		responseBody: string | null
+	): Promise<void> {
+		await this.options.em.getConnection().execute(
+			`
+			insert into integration_webhook_delivery_attempt (
+				id,
+				delivery_id,
+				attempt_no,
+				status_code,
+				error,
+				duration_ms,
+				response_body,
+				attempted_at
+			)
+			select ?, ?, coalesce(max(attempt_no), 0) + 1, ?, ?, ?, ?, now()
+			from integration_webhook_delivery_attempt
+			where delivery_id = ?
+			`,
+			[randomUUID(), deliveryId, statusCode, error?.slice(0, 2000) ?? null, durationMs, responseBody, deliveryId]
+		);
+	}
+
+	private async markSucceeded(row: IntegrationWebhookClaimedDelivery, statusCode: number | null): Promise<void> {
+		const conn = this.options.em.getConnection();
+		await conn.execute(
+			`
+			update integration_webhook_delivery
+			set status = 'succeeded',
+				attempt_count = attempt_count + 1,
+				next_attempt_at = null,
+				last_status_code = ?,
+				last_error = null,
+				delivered_at = now(),
+				updated_at = now()
+			where id = ?
+			`,
+			[statusCode, row.id]
+		);
+		if (row.is_test) return;
+
+		await conn.execute(
+			`
+			update integration_webhook_endpoint
+			set consecutive_failures = 0,
+				failing_since = null,
+				updated_at = now()
+			where id = ? and consecutive_failures > 0
+			`,
+			[row.endpoint_id]
+		);
+	}
+
+	private async markFailed(
+		row: IntegrationWebhookClaimedDelivery,
+		attemptNo: number,
+		statusCode: number | null,
+		error: string
+	): Promise<void> {
+		const conn = this.options.em.getConnection();
+		const exhausted = row.is_test || attemptNo >= this.maxAttempts;
+		await conn.execute(
+			`
+			update integration_webhook_delivery
+			set status = ?,
+				attempt_count = attempt_count + 1,
+				next_attempt_at = case when ? then null else now() + (?::text || ' seconds')::interval end,
+				last_status_code = ?,
+				last_error = ?,
+				updated_at = now()
+			where id = ?
+			`,
+			[
+				exhausted ? 'dead' : 'pending',
+				exhausted,
+				String(computeIntegrationWebhookNextAttemptSeconds(attemptNo)),
+				statusCode,
+				error.slice(0, 2000),
+				row.id
+			]
+		);
+		if (row.is_test) return;
+
+		const endpoints = (await conn.execute(
+			`
+			update integration_webhook_endpoint
+			set consecutive_failures = consecutive_failures + 1,
+				failing_since = coalesce(failing_since, now()),
+				updated_at = now()
+			where id = ?
+			returning status, consecutive_failures, failing_since
+			`,
+			[row.endpoint_id]
+		)) as Array<{ status: string; consecutive_failures: number; failing_since: string | Date }>;
+
+		const endpoint = endpoints[0];
+		if (!endpoint || endpoint.status !== 'active') return;
+		const failingMs = Date.now() - new Date(endpoint.failing_since).getTime();
+		if (Number(endpoint.consecutive_failures) < this.disableAfterFailures || failingMs < this.disableAfterMs)
+			return;
+
+		const reason = `连续失败 ${endpoint.consecutive_failures} 次，最近一次：${error}`.slice(0, 2000);
+		await conn.execute(
+			`
+			update integration_webhook_endpoint
+			set status = 'disabled',
+				disabled_at = now(),
+				disabled_reason = ?,
+				updated_at = now()
+			where id = ? and status = 'active'
+			`,
+			[reason, row.endpoint_id]
+		);
+		this.options.logger.warn(
+			{
+				tenantId: row.tenant_id,
+				endpointId: row.endpoint_id,
+				consecutiveFailures: Number(endpoint.consecutive_failures),
+				failingMs
+			},
+			`${this.options.processorName} Webhook 端点持续失败，已自动停用。`
+		);
+	}
+}
+
+async function sendToPinnedAddress(
+	request: Parameters<IntegrationWebhookHttpSender>[0]
+): Promise<IntegrationWebhookHttpResponse> {
+	const url = new URL(request.url);
+	const family = request.address.includes(':') ? 6 : 4;
+	const client = url.protocol === 'https:' ? https : http;
+
+	return await new Promise<IntegrationWebhookHttpResponse>((resolve, reject) => {
+		const req = client.request(
+			url,
+			{
+				method: 'POST',
+				headers: { ...request.headers, 'content-length': String(Buffer.byteLength(request.body)) },
+				// 固定连接到已校验的 IP；TLS 证书仍按 url 中的主机名校验
+				lookup: (_hostname, options, callback) => {
+					if (options.all) callback(null, [{ address: request.address, family }]);
+					else callback(null, request.address, family);
+				},
+				signal: AbortSignal.timeout(request.timeoutMs)
+			},
+			(res) => {
+				const chunks: Buffer[] = [];
+				let length = 0;
+				const finish = () => {
+					resolve({
+						status: res.statusCode ?? 0,
+						body: Buffer.concat(chunks).toString('utf8').slice(0, MAX_RESPONSE_BODY_LENGTH)
+					});
+					res.destroy();
+				};
+				res.on('data', (chunk: Buffer) => {
+					chunks.push(chunk);
+					length += chunk.length;
+					// 只保留响应体前若干字符，读够即断开
+					if (length >= MAX_RESPONSE_BODY_LENGTH * 4) finish();
+				});
+				res.on('end', finish);
+				res.on('error', finish);
+			}
+		);
+		req.on('error', reject);
+		req.end(request.body);
+	});
+}
@@ -0,0 +1,72 @@
+import { Inject, Injectable, type Type } from '@nestjs/common';
+import type { OksaiIntegrationEvent } from '@oksai/contracts';
+import type {
+	IOksaiIntegrationEventSubscriber,
+	SubscriberLogger
+} from '../subscriber/integration-event-subscriber.interface';
+import { IntegrationWebhookService } from './webhook.service';
+
+/**
+ * @description Webhook 扇出订阅者：为命中的租户端点生成投递记录
+ *
+ * 业务规则：
+ * - 只为事件所属租户的端点生成投递，不跨租户
+ * - `scope=platform` 或 `classification=internal` 的事件属于平台内部事件，不对外投递
+ * - 生成投递对 (endpoint_id, event_id) 幂等，订阅者被重复调用不会重复投递
+ *
+ * 注意事项：
+ * - 订阅者只负责入队；HTTP 投递由 IntegrationWebhookDeliveryProcessor 异步执行，
+ *   接收方缓慢或失败不会阻塞订阅者闭环
+ */
+export class IntegrationWebhookFanoutSubscriber implements IOksaiIntegrationEventSubscriber {
+	readonly subscriberName: string;
+
+	constructor(
+		readonly eventName: string,
+		private readonly webhooks: IntegrationWebhookService,
+		readonly eventVersion?: number
+	) {
+		this.subscriberName = `webhook.${eventName}`;
+	}
+
+	async handle(input: { envelope: OksaiIntegrationEvent; logger: SubscriberLogger }): Promise<void> {
+		const { envelope } = input;
+		if (envelope.scope === 'platform' || envelope.classification === 'internal') return;
+
+		const enqueued = await this.webhooks.enqueueForEvent(envelope);
+		if (enqueued > 0) {
+			input.logger.debug?.(
+				{ tenantId: envelope.tenantId, eventId: envelope.eventId, eventName: envelope.eventName, enqueued },
+				'已生成 Webhook 投递。'
+			);
+		}
+	}
+}
+
+/**
+ * @description 为指定事件定义 Webhook 扇出订阅者类型（供插件 `integrationEventSubscribers` 或订阅者投影处理器注册）
+ *
+ * @param eventName - 对外开放 Webhook 的事件名称
+ * @param eventVersion - 事件版本（缺省表示所有版本）
+ * @returns 可由 Nest DI 实例化的订阅者类型（依赖 IntegrationWebhookService provider）
+ *
+ * @example
+ * ```typescript
+ * const webhookSubscriberTypes = ['tenant.user.invited', 'billing.invoice.issued'].map((name) =>
+ *   defineIntegrationWebhookSubscriber(name)
+ * );
+ * ```
+ */
+export function defineIntegrationWebhookSubscriber(
+	eventName: string,
+	eventVersion?: number
+): Type<IntegrationWebhookFanoutSubscriber> {
+	@Injectable()
+	class WebhookFanoutSubscriber extends IntegrationWebhookFanoutSubscriber {
+		constructor(@Inject(IntegrationWebhookService) webhooks: IntegrationWebhookService) {
+			super(eventName, webhooks, eventVersion);
+		}
+	}
+	Object.defineProperty(WebhookFanoutSubscriber, 'name', { value: `WebhookFanoutSubscriber(${eventName})` });
+	return WebhookFanoutSubscriber;
+}
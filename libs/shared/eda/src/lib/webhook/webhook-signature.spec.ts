@@ -0,0 +1,38 @@
+import { signIntegrationWebhookPayload, verifyIntegrationWebhookSignature } from './webhook-signature';
+
+describe('webhook signature', () => {
+	const body = '{"id":"evt-001"}';
+	const now = new Date('2026-03-01T00:00:00.000Z');
+	const timestamp = Math.floor(now.getTime() / 1000);
+
+	it('should sign with every active secret and verify with either', () => {
+		const header = signIntegrationWebhookPayload({ secrets: ['whsec_new', 'whsec_old'], timestamp, body });
+
+		expect(header.split(',')).toHaveLength(3);
+		expect(header.startsWith(`t=${timestamp},v1=`)).toBe(true);
+		expect(verifyIntegrationWebhookSignature({ header, body, secret: 'whsec_new', now })).toBe(true);
+		expect(verifyIntegrationWebhookSignature({ header, body, secret: 'whsec_old', now })).toBe(true);
+		expect(verifyIntegrationWebhookSignature({ header, body, secret: 'whsec_other', now })).toBe(false);
+	});
+
+	it('should reject tampered body and stale timestamp', () => {
+		const header = signIntegrationWebhookPayload({ secrets: ['whsec_new'], timestamp, body });
+
+		expect(verifyIntegrationWebhookSignature({ header, body: '{"id":"evt-002"}', secret: 'whsec_new', now })).toBe(
+			false
+		);
+		expect(
+			verifyIntegrationWebhookSignature({
+				header,
+				body,
+				secret: 'whsec_new',
+				now: new Date(now.getTime() + 301_000)
+			})
+		).toBe(false);
+		expect(verifyIntegrationWebhookSignature({ header: 'v1=abc', body, secret: 'whsec_new', now })).toBe(false);
+	});
+
+	it('should require at least one secret', () => {
+		expect(() => signIntegrationWebhookPayload({ secrets: [], timestamp, body })).toThrow('至少需要一个密钥');
+	});
+});
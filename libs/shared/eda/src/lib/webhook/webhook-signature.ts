@@ -0,0 +1,77 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * @description Webhook 请求头名称
+ *
+ * 说明：
+ * - `oksai-signature` 形如 `t=1767225600,v1=<hex>,v1=<hex>`；密钥轮换宽限期内同时携带新旧两个签名
+ * - `oksai-webhook-id` 为投递 ID，重投时保持不变，接收方可据此去重
+ */
+export const INTEGRATION_WEBHOOK_HEADERS = {
+	signature: 'oksai-signature',
+	webhookId: 'oksai-webhook-id',
+	timestamp: 'oksai-webhook-timestamp',
+	eventId: 'oksai-event-id',
+	eventName: 'oksai-event-name'
+} as const;
+
+/**
+ * @description 计算 Webhook 签名头
+ *
+ * 签名算法：
+ * - `v1 = hex(HMAC-SHA256(secret, "<timestamp>.<body>"))`，timestamp 为 Unix 秒
+ * - 每个有效密钥各生成一个 v1，接收方任一匹配即视为验签通过
+ *
+ * @param input - 密钥列表（当前密钥在前）、时间戳与请求体
+ * @returns `oksai-signature` 头的值
+ */
+export function signIntegrationWebhookPayload(input: {
+	secrets: readonly string[];
+	timestamp: number;
+	body: string;
+}): string {
+	if (input.secrets.length === 0) {
+		throw new Error('Webhook 签名失败：至少需要一个密钥。');
+	}
+	const parts = [`t=${input.timestamp}`];
+	for (const secret of input.secrets) {
+		parts.push(`v1=${computeSignature(secret, input.timestamp, input.body)}`);
+	}
+	return parts.join(',');
+}
+
+/**
+ * @description 校验 Webhook 签名（供接收方与测试使用）
+ *
+ * @param input - 签名头、原始请求体、接收方持有的密钥、允许的时间偏差（秒，默认 300）
+ * @returns 签名有效且时间戳在允许范围内时返回 true
+ */
+export function verifyIntegrationWebhookSignature(input: {
+	header: string;
+	body: string;
+	secret: string;
+	toleranceSeconds?: number;
+	now?: Date;
+}): boolean {
+	let timestamp: number | undefined;
+	const signatures: string[] = [];
+	for (const part of input.header.split(',')) {
+		const [key, value] = part.trim().split('=', 2);
+		if (key === 't') timestamp = Number(value);
+		if (key === 'v1' && value) signatures.push(value);
+	}
+	if (timestamp === undefined || !Number.isInteger(timestamp) || signatures.length === 0) return false;
+
+	const nowSeconds = Math.floor((input.now ?? new Date()).getTime() / 1000);
+	if (Math.abs(nowSeconds - timestamp) > (input.toleranceSeconds ?? 300)) return false;
+
+	const expected = Buffer.from(computeSignature(input.secret, timestamp, input.body), 'hex');
+	return signatures.some((s) => {
+		const actual = Buffer.from(s, 'hex');
+		return actual.length === expected.length && timingSafeEqual(actual, expected);
+	});
+}
+
+function computeSignature(secret: string, timestamp: number, body: string): string {
+	return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
@@ -0,0 +1,147 @@
+import type { EntityManager } from '@mikro-orm/core';
+import type { OksaiIntegrationEvent } from '@oksai/contracts';
+import { IntegrationWebhookFanoutSubscriber } from './webhook-fanout.subscriber';
+import {
+	IntegrationWebhookService,
+	normalizeIntegrationWebhookEventNames,
+	normalizeIntegrationWebhookUrl
+} from './webhook.service';
+
+function createService(execute: jest.Mock, options: { allowInsecureUrls?: boolean } = {}) {
+	const em = { getConnection: () => ({ execute }) } as unknown as EntityManager;
+	return new IntegrationWebhookService({ em, ...options });
+}
+
+const envelope: OksaiIntegrationEvent = {
+	eventId: 'evt-001',
+	eventName: 'tenant.user.invited',
+	eventVersion: 1,
+	tenantId: 't-001',
+	partitionKey: 't-001',
+	occurredAt: '2026-03-01T00:00:00.000Z',
+	data: { userId: 'u-001' }
+};
+
+describe('IntegrationWebhookService (mocked EM)', () => {
+	it('should create endpoint with normalized filters and generated secret', async () => {
+		const execute = jest.fn().mockResolvedValue([{ id: 'wh-001' }]);
+		const service = createService(execute);
+
+		await service.createEndpoint('t-001', {
+			url: 'https://example.com/hooks',
+			eventNames: [' tenant.user.* ', 'tenant.user.*', 'billing.invoice.issued']
+		});
+
+		const [sql, params] = execute.mock.calls[0];
+		expect(sql).toContain('insert into integration_webhook_endpoint');
+		expect(params[1]).toBe('t-001');
+		expect(params[2]).toBe('https://example.com/hooks');
+		expect(params[4]).toEqual(['tenant.user.*', 'billing.invoice.issued']);
+		expect(params[5]).toMatch(/^whsec_[A-Za-z0-9_-]{43}$/);
+	});
+
+	it('should reset failure counters when re-enabling an endpoint', async () => {
+		const execute = jest.fn().mockResolvedValue([{ id: 'wh-001', status: 'active' }]);
+		const service = createService(execute);
+
+		const row = await service.updateEndpoint('t-001', 'wh-001', { enabled: true, description: null });
+
+		expect(row).toEqual({ id: 'wh-001', status: 'active' });
+		const [sql, params] = execute.mock.calls[0];
+		expect(sql).toContain("status = 'active'");
+		expect(sql).toContain('consecutive_failures = 0');
+		expect(params).toEqual([null, 't-001', 'wh-001']);
+	});
+
+	it('should keep the previous secret during the grace period when rotating', async () => {
+		const execute = jest.fn().mockResolvedValue([]);
+		const service = createService(execute);
+
+		expect(await service.rotateSecret('t-001', 'wh-404', { graceMs: 3600_000 })).toBeNull();
+		const [sql, params] = execute.mock.calls[0];
+		expect(sql).toContain('previous_secret = case when ? > 0 then secret else null end');
+		expect(params.slice(0, 3)).toEqual([3600000, 3600000, '3600000']);
+		expect(params.slice(4)).toEqual(['t-001', 'wh-404']);
+	});
+
+	it('should enqueue deliveries only for matching active endpoints of the event tenant', async () => {
+		const execute = jest.fn().mockResolvedValue([{ id: 'd-001' }, { id: 'd-002' }]);
+		const service = createService(execute);
+
+		expect(await service.enqueueForEvent(envelope)).toBe(2);
+		const [sql, params] = execute.mock.calls[0];
+		expect(sql).toContain("e.status = 'active'");
+		expect(sql).toContain('starts_with(?, left(f.pattern, -1))');
+		expect(sql).toContain('on conflict (endpoint_id, event_id) do nothing');
+		expect(params[0]).toBe('evt-001');
+		expect(JSON.parse(params[2] as string)).toEqual(envelope);
+		expect(params[3]).toBe('t-001');
+	});
+
+	it('should create a test delivery scoped to the tenant endpoint', async () => {
+		const execute = jest.fn().mockResolvedValue([]);
+		const service = createService(execute);
+
+		expect(await service.sendTestEvent('t-001', 'wh-other-tenant')).toBeNull();
+		const [sql, params] = execute.mock.calls[0];
+		expect(sql).toContain('where e.tenant_id = ? and e.id = ?');
+		expect(params[2]).toBe('oksai.webhook.test');
+		expect(JSON.parse(params[3] as string)).toMatchObject({ tenantId: 't-001', eventName: 'oksai.webhook.test' });
+		expect(params.slice(4)).toEqual(['t-001', 'wh-other-tenant']);
+	});
+
+	it('should return delivery with attempts ordered by attempt number', async () => {
+		const execute = jest
+			.fn()
+			.mockResolvedValueOnce([{ id: 'd-001', tenant_id: 't-001' }])
+			.mockResolvedValueOnce([{ id: 'a-001', attempt_no: 1, status_code: 500 }]);
+		const service = createService(execute);
+
+		const result = await service.getDelivery('t-001', 'd-001');
+
+		expect(result?.attempts).toEqual([{ id: 'a-001', attempt_no: 1, status_code: 500 }]);
+		expect(execute.mock.calls[1][0]).toContain('order by attempt_no asc');
+	});
+});
+
+describe('webhook input normalization', () => {
+	it('should reject non-https urls unless insecure urls are allowed', () => {
+		expect(() => normalizeIntegrationWebhookUrl('http://example.com/hooks')).toThrow('必须使用 https');
+		expect(normalizeIntegrationWebhookUrl('http://localhost:3000/hooks', true)).toBe('http://localhost:3000/hooks');
+		expect(() => normalizeIntegrationWebhookUrl('not a url')).toThrow('不是合法的 URL');
+		expect(() => normalizeIntegrationWebhookUrl('https://u:p@example.com')).toThrow('用户名或密码');
+	});
+
+	it('should reject localhost and non-public ip literals unless insecure urls are allowed', () => {
+		expect(() => normalizeIntegrationWebhookUrl('https://localhost/hooks')).toThrow('本机或内网');
+		expect(() => normalizeIntegrationWebhookUrl('https://169.254.169.254/latest')).toThrow('本机或内网');
+		expect(() => normalizeIntegrationWebhookUrl('https://[fd00::1]/hooks')).toThrow('本机或内网');
+		expect(normalizeIntegrationWebhookUrl('https://93.184.216.34/hooks')).toBe('https://93.184.216.34/hooks');
+	});
+
+	it('should reject malformed event filters', () => {
+		expect(() => normalizeIntegrationWebhookEventNames(['tenant.*.invited'])).toThrow('格式不合法');
+		expect(() => normalizeIntegrationWebhookEventNames(['*'])).toThrow('格式不合法');
+		expect(normalizeIntegrationWebhookEventNames([])).toEqual([]);
+	});
+});
+
+describe('IntegrationWebhookFanoutSubscriber', () => {
+	const logger = { debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+	it('should enqueue tenant events and skip platform-internal events', async () => {
+		const webhooks = { enqueueForEvent: jest.fn().mockResolvedValue(1) };
+		const sub = new IntegrationWebhookFanoutSubscriber(
+			'tenant.user.invited',
+			webhooks as unknown as IntegrationWebhookService
+		);
+
+		await sub.handle({ envelope, logger });
+		await sub.handle({ envelope: { ...envelope, scope: 'platform' }, logger });
+		await sub.handle({ envelope: { ...envelope, classification: 'internal' }, logger });
+
+		expect(sub.subscriberName).toBe('webhook.tenant.user.invited');
+		expect(webhooks.enqueueForEvent).toHaveBeenCalledTimes(1);
+		expect(webhooks.enqueueForEvent).toHaveBeenCalledWith(envelope);
+	});
+});
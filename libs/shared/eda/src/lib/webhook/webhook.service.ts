@@ -0,0 +1,663 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { isIP } from 'net';
+
+import type { EntityManager } from '@mikro-orm/core';
+import type { OksaiIntegrationEvent } from '@oksai/contracts';
+import { isIntegrationWebhookPublicAddress } from './webhook-address';
+
+/**
+ * @description Webhook 端点状态
+ *
+ * - active：正常投递
+ * - disabled：已停用（手动停用，或持续失败被自动停用）；新事件不再生成投递
+ */
+export type IntegrationWebhookEndpointStatus = 'active' | 'disabled';
+
+/**
+ * @description Webhook 投递状态
+ *
+ * - pending：等待投递或等待重试
+ * - succeeded：接收方返回 2xx
+ * - dead：重试耗尽（可通过 redeliver 重新投递）
+ */
+export type IntegrationWebhookDeliveryStatus = 'pending' | 'succeeded' | 'dead';
+
+/**
+ * @description Webhook 端点行数据结构
+ */
+export interface IntegrationWebhookEndpointRow {
+	id: string;
+	tenant_id: string;
+	url: string;
+	description: string | null;
+	event_names: string[];
+	status: IntegrationWebhookEndpointStatus;
+	secret: string;
+	previous_secret: string | null;
+	previous_secret_expires_at: string | Date | null;
+	consecutive_failures: number;
+	failing_since: string | Date | null;
+	disabled_at: string | Date | null;
+	disabled_reason: string | null;
+	created_at: string | Date;
+	updated_at: string | Date;
+}
+
+/**
+ * @description Webhook 投递行数据结构
+ */
+export interface IntegrationWebhookDeliveryRow {
+	id: string;
+	tenant_id: string;
+	endpoint_id: string;
+	event_id: string;
+	event_name: string;
+	payload: unknown;
+	status: IntegrationWebhookDeliveryStatus;
+	attempt_count: number;
+	next_attempt_at: string | Date | null;
+	last_status_code: number | null;
+	last_error: string | null;
+	delivered_at: string | Date | null;
+	is_test: boolean;
+	created_at: string | Date;
+	updated_at: string | Date;
+}
+
+/**
+ * @description Webhook 投递尝试记录（投递日志）
+ */
+export interface IntegrationWebhookDeliveryAttemptRow {
+	id: string;
+	delivery_id: string;
+	attempt_no: number;
+	status_code: number | null;
+	error: string | null;
+	duration_ms: number;
+	response_body: string | null;
+	attempted_at: string | Date;
+}
+
+/**
+ * @description 创建 Webhook 端点输入
+ */
+export interface CreateIntegrationWebhookEndpointInput {
+	/**
+	 * @description 接收地址（默认只允许 https）
+	 */
+	url: string;
+
+	/**
+	 * @description 事件名称过滤（精确名称或 `tenant.user.*` 前缀通配；空表示订阅全部事件）
+	 */
+	eventNames?: string[];
+
+	/**
+	 * @description 备注
+	 */
+	description?: string;
+}
+
+/**
+ * @description 更新 Webhook 端点输入（未提供的字段保持不变）
+ */
+export interface UpdateIntegrationWebhookEndpointInput {
+	url?: string;
+	eventNames?: string[];
+	description?: string | null;
+
+	/**
+	 * @description 启用 / 停用；重新启用时清零连续失败计数
+	 */
+	enabled?: boolean;
+}
+
+/**
+ * @description 投递查询条件
+ */
+export interface IntegrationWebhookDeliveryFilter {
+	/**
+	 * @description 投递状态（缺省不限）
+	 */
+	status?: IntegrationWebhookDeliveryStatus;
+
+	/**
+	 * @description 单页条数（默认 20，最大 100）
+	 */
+	limit?: number;
+
+	/**
+	 * @description 偏移量（默认 0）
+	 */
+	offset?: number;
+}
+
+/**
+ * @description Webhook 服务配置选项
+ */
+export interface IntegrationWebhookServiceOptions {
+	/**
+	 * @description MikroORM EntityManager
+	 */
+	em: EntityManager;
+
+	/**
+	 * @description 是否允许 http 地址（默认 false，仅用于本地联调）
+	 */
+	allowInsecureUrls?: boolean;
+}
+
+/**
+ * @description 测试事件名称（"发送测试事件"使用，不经过 integration_outbox）
+ */
+export const INTEGRATION_WEBHOOK_TEST_EVENT_NAME = 'oksai.webhook.test';
+
+/**
+ * @description 密钥轮换默认宽限期（24 小时），期间新旧密钥同时签名
+ */
+export const DEFAULT_INTEGRATION_WEBHOOK_SECRET_GRACE_MS = 24 * 3600_000;
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const MAX_EVENT_FILTERS = 50;
+const EVENT_FILTER_PATTERN = /^[a-z0-9_-]+(\.[a-z0-9_-]+)*(\.\*)?$/i;
+
+/**
+ * @description 租户 Webhook 管理服务
+ *
+ * 使用场景：
+ * - 租户注册接收端点（按事件名称过滤），在自己的系统中接收集成事件
+ * - 查看投递日志（每次尝试的响应码与耗时），重新投递，发送测试事件
+ *
+ * 业务规则：
+ * - 所有操作都带 tenantId，跨租户访问端点或投递视为不存在
+ * - 密钥由服务端生成，只在创建与轮换时返回；轮换后旧密钥在宽限期内继续参与签名
+ * - 事件生成投递时对 (endpoint_id, event_id) 幂等，重复投递同一事件不会重复入队
+ * - 实际 HTTP 投递由 IntegrationWebhookDeliveryProcessor 负责
+ */
+export class IntegrationWebhookService {
+	constructor(private readonly options: IntegrationWebhookServiceOptions) {}
+
+	/**
+	 * @description 按服务配置校验并规范化接收地址（供调用方在写入前校验输入）
+	 *
+	 * @param url - 接收地址
+	 * @returns 规范化后的地址
+	 * @throws Error 当地址不合法时抛出
+	 */
+	normalizeUrl(url: string): string {
+		return normalizeIntegrationWebhookUrl(url, this.options.allowInsecureUrls);
+	}
+
+	/**
+	 * @description 查询租户的全部端点（按创建时间正序）
+	 *
+	 * @param tenantId - 租户 ID
+	 */
+	async listEndpoints(tenantId: string): Promise<IntegrationWebhookEndpointRow[]> {
+		return (await this.options.em.getConnection().execute(
+			`
+			select ${ENDPOINT_COLUMNS}
+			from integration_webhook_endpoint
+			where tenant_id = ?
+			order by created_at asc, id asc
+			`,
+			[tenantId]
+		)) as IntegrationWebhookEndpointRow[];
+	}
+
+	/**
+	 * @description 查询单个端点
+	 *
+	 * @param tenantId - 租户 ID
+	 * @param endpointId - 端点 ID
+	 * @returns 端点；不存在或不属于该租户时返回 null
+	 */
+	async getEndpoint(tenantId: string, endpointId: string): Promise<IntegrationWebhookEndpointRow | null> {
+		const rows = (await this.options.em.getConnection().execute(
+			`
+			select ${ENDPOINT_COLUMNS}
+			from integration_webhook_endpoint
+			where tenant_id = ? and id = ?
+			limit 1
+			`,
+			[tenantId, endpointId]
+		)) as IntegrationWebhookEndpointRow[];
+		return rows[0] ?? null;
+	}
+
+	/**
+	 * @description 创建端点（生成签名密钥）
+	 *
+	 * @param tenantId - 租户 ID
+	 * @param input - 端点信息
+	 * @returns 新端点（含密钥）
+	 * @throws Error 当 url 或事件过滤不合法时抛出
+	 */
+	async createEndpoint(
+		tenantId: string,
+		input: CreateIntegrationWebhookEndpointInput
+	): Promise<IntegrationWebhookEndpointRow> {
+		const url = this.normalizeUrl(input.url);
+		const eventNames = normalizeIntegrationWebhookEventNames(input.eventNames ?? []);
+
+		const rows = (await this.options.em.getConnection().execute(
+			`
+			insert into integration_webhook_endpoint (
+				id,
+				tenant_id,
+				url,
+				description,
+				event_names,
+				status,
+				secret,
+				consecutive_failures,
+				created_at,
+				updated_at
+			)
+			values (?, ?, ?, ?, cast(? as text[]), 'active', ?, 0, now(), now())
+			returning ${ENDPOINT_COLUMNS}
+			`,
+			[randomUUID(), tenantId, url, input.description ?? null, eventNames, generateWebhookSecret()]
+		)) as IntegrationWebhookEndpointRow[];
+		return rows[0];
+	}
+
+	/**
+	 * @description 更新端点
+	 *
+	 * @param tenantId - 租户 ID
+	 * @param endpointId - 端点 ID
+	 * @param input - 待更新字段
+	 * @returns 更新后的端点；不存在时返回 null
+	 * @throws Error 当 url 或事件过滤不合法时抛出
+	 */
+	async updateEndpoint(
+		tenantId: string,
+		endpointId: string,
+		input: UpdateIntegrationWebhookEndpointInput
+	): Promise<IntegrationWebhookEndpointRow | null> {
+		const sets: string[] = [];
+		const params: unknown[] = [];
+		if (input.url !== undefined) {
+			sets.push('url = ?');
+			params.push(this.normalizeUrl(input.url));
+		}
+		if (input.eventNames !== undefined) {
+			sets.push('event_names = cast(? as text[])');
+			params.push(normalizeIntegrationWebhookEventNames(input.eventNames));
+		}
+		if (input.description !== undefined) {
+			sets.push('description = ?');
+			params.push(input.description);
+		}
+		if (input.enabled === true) {
+			sets.push(
+				"status = 'active'",
+				'consecutive_failures = 0',
+				'failing_since = null',
+				'disabled_at = null',
+				'disabled_reason = null'
+			);
+		}
+		if (input.enabled === false) {
+			sets.push("status = 'disabled'", 'disabled_at = now()', "disabled_reason = '手动停用'");
+		}
+		if (sets.length === 0) return await this.getEndpoint(tenantId, endpointId);
+
+		const rows = (await this.options.em.getConnection().execute(
+			`
+			update integration_webhook_endpoint
+			set ${sets.join(', ')}, updated_at = now()
+			where tenant_id = ? and id = ?
+			returning ${ENDPOINT_COLUMNS}
+			`,
+			[...params, tenantId, endpointId]
+		)) as IntegrationWebhookEndpointRow[];
+		return rows[0] ?? null;
+	}
+
+	/**
+	 * @description 删除端点（投递记录随之删除）
+	 *
+	 * @param tenantId - 租户 ID
+	 * @param endpointId - 端点 ID
+	 * @returns 是否删除
+	 */
+	async deleteEndpoint(tenantId: string, endpointId: string): Promise<boolean> {
+		const rows = (await this.options.em.getConnection().execute(
+			`
+			delete from integration_webhook_endpoint
+			where tenant_id = ? and id = ?
+			returning id
+			`,
+			[tenantId, endpointId]
+		)) as Array<{ id: string }>;
+		return rows.length > 0;
+	}
+
+	/**
+	 * @description 轮换签名密钥：生成新密钥，旧密钥在宽限期内继续签名
+	 *
+	 * @param tenantId - 租户 ID
+	 * @param endpointId - 端点 ID
+	 * @param options - 宽限期（ms，默认 24 小时；0 表示旧密钥立即失效）
+	 * @returns 轮换后的端点（含新密钥）；不存在时返回 null
+	 */
+	async rotateSecret(
+		tenantId: string,
+		endpointId: string,
+		options: { graceMs?: number } = {}
+	): Promise<IntegrationWebhookEndpointRow | null> {
+		const graceMs = Math.max(0, Math.floor(options.graceMs ?? DEFAULT_INTEGRATION_WEBHOOK_SECRET_GRACE_MS));
+		const rows = (await this.options.em.getConnection().execute(
+			`
+			update integration_webhook_endpoint
+			set previous_secret = case when ? > 0 then secret else null end,
+				previous_secret_expires_at = case when ? > 0 then now() + (?::text || ' milliseconds')::interval else null end,
+				secret = ?,
+				updated_at = now()
+			where tenant_id = ? and id = ?
+			returning ${ENDPOINT_COLUMNS}
+			`,
+			[graceMs, graceMs, String(graceMs), generateWebhookSecret(), tenantId, endpointId]
+		)) as IntegrationWebhookEndpointRow[];
+		return rows[0] ?? null;
+	}
+
+	/**
+	 * @description 分页查询端点的投递记录（按创建时间倒序）
+	 *
+	 * @param tenantId - 租户 ID
+	 * @param endpointId - 端点 ID
+	 * @param filter - 查询条件
+	 */
+	async listDeliveries(
+		tenantId: string,
+		endpointId: string,
+		filter: IntegrationWebhookDeliveryFilter = {}
+	): Promise<{ items: IntegrationWebhookDeliveryRow[]; total: number }> {
+		const conditions = ['tenant_id = ?', 'endpoint_id = ?'];
+		const params: unknown[] = [tenantId, endpointId];
+		if (filter.status) {
+			conditions.push('status = ?');
+			params.push(filter.status);
+		}
+
+		const where = conditions.join(' and ');
+		const limit = Math.min(Math.max(1, Math.floor(filter.limit ?? DEFAULT_LIMIT)), MAX_LIMIT);
+		const offset = Math.max(0, Math.floor(filter.offset ?? 0));
+		const conn = this.options.em.getConnection();
+
+		const items = (await conn.execute(
+			`
+			select ${DELIVERY_COLUMNS}
+			from integration_webhook_delivery
+			where ${where}
+			order by created_at desc, id asc
+			limit ? offset ?
+			`,
+			[...params, limit, offset]
+		)) as IntegrationWebhookDeliveryRow[];
+		const counted = (await conn.execute(
+			`select count(*)::int as total from integration_webhook_delivery where ${where}`,
+			params
+		)) as Array<{ total: number | string }>;
+
+		return { items, total: Number(counted[0]?.total ?? 0) };
+	}
+
+	/**
+	 * @description 查询单次投递及其全部尝试记录
+	 *
+	 * @param tenantId - 租户 ID
+	 * @param deliveryId - 投递 ID
+	 * @returns 投递与尝试记录（按尝试序号正序）；不存在时返回 null
+	 */
+	async getDelivery(
+		tenantId: string,
+		deliveryId: string
+	): Promise<{ delivery: IntegrationWebhookDeliveryRow; attempts: IntegrationWebhookDeliveryAttemptRow[] } | null> {
+		const conn = this.options.em.getConnection();
+		const rows = (await conn.execute(
+			`
+			select ${DELIVERY_COLUMNS}
+			from integration_webhook_delivery
+			where tenant_id = ? and id = ?
+			limit 1
+			`,
+			[tenantId, deliveryId]
+		)) as IntegrationWebhookDeliveryRow[];
+		if (!rows[0]) return null;
+
+		const attempts = (await conn.execute(
+			`
+			select id, delivery_id, attempt_no, status_code, error, duration_ms, response_body, attempted_at
+			from integration_webhook_delivery_attempt
+			where delivery_id = ?
+			order by attempt_no asc
+			`,
+			[deliveryId]
+		)) as IntegrationWebhookDeliveryAttemptRow[];
+		return { delivery: rows[0], attempts };
+	}
+
+	/**
+	 * @description 重新投递：回到 pending 并立即投递，重试次数清零（尝试记录保留）
+	 *
+	 * 说明：
+	 * - 投递中（pending）的记录也可以重投，会提前到当前时间
+	 * - 端点已停用时仍会入队，但在重新启用前不会发送
+	 *
+	 * @param tenantId - 租户 ID
+	 * @param deliveryId - 投递 ID
+	 * @returns 更新后的投递；不存在时返回 null
+	 */
+	async redeliver(tenantId: string, deliveryId: string): Promise<IntegrationWebhookDeliveryRow | null> {
+		const rows = (await this.options.em.getConnection().execute(
+			`
+			update integration_webhook_delivery
+			set status = 'pending',
+				attempt_count = 0,
+				next_attempt_at = now(),
+				updated_at = now()
+			where tenant_id = ? and id = ?
+			returning ${DELIVERY_COLUMNS}
+			`,
+			[tenantId, deliveryId]
+		)) as IntegrationWebhookDeliveryRow[];
+		return rows[0] ?? null;
+	}
+
+	/**
+	 * @description 向端点发送测试事件（事件名 `oksai.webhook.test`，不受事件过滤与端点状态限制）
+	 *
+	 * @param tenantId - 租户 ID
+	 * @param endpointId - 端点 ID
+	 * @returns 新建的投递；端点不存在时返回 null
+	 */
+	async sendTestEvent(tenantId: string, endpointId: string): Promise<IntegrationWebhookDeliveryRow | null> {
+		const eventId = randomUUID();
+		const envelope: OksaiIntegrationEvent = {
+			eventId,
+			eventName: INTEGRATION_WEBHOOK_TEST_EVENT_NAME,
+			eventVersion: 1,
+			occurredAt: new Date().toISOString(),
+			tenantId,
+			partitionKey: tenantId,
+			data: { endpointId, message: '这是一条 Oksai Webhook 测试事件。' }
+		};
+
+		const rows = (await this.options.em.getConnection().execute(
+			`
+			insert into integration_webhook_delivery (
+				id,
+				tenant_id,
+				endpoint_id,
+				event_id,
+				event_name,
+				payload,
+				status,
+				attempt_count,
+				next_attempt_at,
+				is_test,
+				created_at,
+				updated_at
+			)
+			select ?, e.tenant_id, e.id, ?, ?, cast(? as jsonb), 'pending', 0, now(), true, now(), now()
+			from integration_webhook_endpoint e
+			where e.tenant_id = ? and e.id = ?
+			returning ${DELIVERY_COLUMNS}
+			`,
+			[randomUUID(), eventId, INTEGRATION_WEBHOOK_TEST_EVENT_NAME, JSON.stringify(envelope), tenantId, endpointId]
+		)) as IntegrationWebhookDeliveryRow[];
+		return rows[0] ?? null;
+	}
+
+	/**
+	 * @description 为集成事件生成投递（匹配该租户所有启用且过滤命中的端点）
+	 *
+	 * @param envelope - 集成事件信封（已通过校验）
+	 * @returns 新生成的投递数（已存在的 (endpoint_id, event_id) 不重复生成）
+	 */
+	async enqueueForEvent(envelope: OksaiIntegrationEvent): Promise<number> {
+		const rows = (await this.options.em.getConnection().execute(
+			`
+			insert into integration_webhook_delivery (
+				id,
+				tenant_id,
+				endpoint_id,
+				event_id,
+				event_name,
+				payload,
+				status,
+				attempt_count,
+				next_attempt_at,
+				is_test,
+				created_at,
+				updated_at
+			)
+			select gen_random_uuid(), e.tenant_id, e.id, ?, ?, cast(? as jsonb), 'pending', 0, now(), false, now(), now()
+			from integration_webhook_endpoint e
+			where e.tenant_id = ?
+				and e.status = 'active'
+				and (
+					cardinality(e.event_names) = 0
+					or ? = any(e.event_names)
+					or exists (
+						select 1
+						from unnest(e.event_names) as f(pattern)
+						where f.pattern like '%.*' and starts_with(?, left(f.pattern, -1))
+					)
+				)
+			on conflict (endpoint_id, event_id) do nothing
+			returning id
+			`,
+			[
+				envelope.eventId,
+				envelope.eventName,
+				JSON.stringify(envelope),
+				envelope.tenantId,
+				envelope.eventName,
+				envelope.eventName
+			]
+		)) as Array<{ id: string }>;
+		return rows.length;
+	}
+}
+
+/**
+ * @description 校验并规范化 Webhook 接收地址
+ *
+ * 说明：
+ * - 主机为 localhost 或非公网 IP 字面量时直接拒绝（允许 http 的本地联调模式除外）；
+ *   域名解析到内网的情况由投递时的 `resolveIntegrationWebhookTarget` 拦截
+ *
+ * @param url - 接收地址
+ * @param allowInsecure - 是否允许 http 与本机/内网地址
+ * @returns 规范化后的地址
+ * @throws Error 当地址不是合法的 http(s) URL 或指向本机/内网时抛出
+ */
+export function normalizeIntegrationWebhookUrl(url: string, allowInsecure = false): string {
+	let parsed: URL;
+	try {
+		parsed = new URL(url.trim());
+	} catch {
+		throw new Error(`Webhook 地址不是合法的 URL：${url}`);
+	}
+	if (parsed.protocol !== 'https:' && !(allowInsecure && parsed.protocol === 'http:')) {
+		throw new Error(`Webhook 地址必须使用 https：${url}`);
+	}
+	if (parsed.username || parsed.password) {
+		throw new Error('Webhook 地址不能包含用户名或密码。');
+	}
+	const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+	if (
+		!allowInsecure &&
+		(hostname === 'localhost' ||
+			hostname.endsWith('.localhost') ||
+			(isIP(hostname) !== 0 && !isIntegrationWebhookPublicAddress(hostname)))
+	) {
+		throw new Error(`Webhook 地址不能指向本机或内网：${url}`);
+	}
+	return parsed.toString();
+}
+
+/**
+ * @description 校验并规范化事件名称过滤（去重、去空白）
+ *
+ * @param eventNames - 精确名称或 `xxx.*` 前缀通配
+ * @returns 规范化后的过滤列表（空表示订阅全部事件）
+ * @throws Error 当过滤项格式不合法或数量超过上限时抛出
+ */
+export function normalizeIntegrationWebhookEventNames(eventNames: readonly string[]): string[] {
+	const normalized = [...new Set(eventNames.map((n) => n.trim()))];
+	if (normalized.length > MAX_EVENT_FILTERS) {
+		throw new Error(`Webhook 事件过滤最多 ${MAX_EVENT_FILTERS} 项，实际为 ${normalized.length}。`);
+	}
+	const invalid = normalized.filter((n) => !EVENT_FILTER_PATTERN.test(n));
+	if (invalid.length > 0) {
+		throw new Error(`Webhook 事件过滤格式不合法：${invalid.join(', ')}（支持精确名称或 xxx.* 前缀通配）。`);
+	}
+	return normalized;
+}
+
+function generateWebhookSecret(): string {
+	return `whsec_${randomBytes(32).toString('base64url')}`;
+}
+
+const ENDPOINT_COLUMNS = `
+	id,
+	tenant_id,
+	url,
+	description,
+	event_names,
+	status,
+	secret,
+	previous_secret,
+	previous_secret_expires_at,
+	consecutive_failures,
+	failing_since,
+	disabled_at,
+	disabled_reason,
+	created_at,
+	updated_at
+`;
+
+const DELIVERY_COLUMNS = `
+	id,
+	tenant_id,
+	endpoint_id,
+	event_id,
+	event_name,
+	payload,
+	status,
+	attempt_count,
+	next_attempt_at,
+	last_status_code,
+	last_error,
+	delivered_at,
+	is_test,
+	created_at,
+	updated_at
+`;
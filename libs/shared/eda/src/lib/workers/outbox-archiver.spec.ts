@@ -0,0 +1,177 @@
+import type { EntityManager } from '@mikro-orm/core';
+import { IntegrationOutboxArchiver } from './outbox-archiver';
+
+function createRow(eventId: string) {
+	return {
+		event_id: eventId,
+		tenant_id: 't-001',
+		event_name: 'tenant.user.invited',
+		event_version: 1,
+		partition_key: 't-001',
+		payload: { eventId },
+		occurred_at: '2026-01-01T00:00:00.000Z',
+		created_at: '2026-01-01T00:00:00.000Z',
+		updated_at: '2026-01-01T00:00:01.000Z'
+	};
+}
+
+function createMockEntityManager(handler: (sql: string, params: unknown[]) => unknown) {
+	const calls: Array<{ sql: string; params: unknown[] }> = [];
+	const execute = jest.fn(async (sql: string, params: unknown[] = []) => {
+		calls.push({ sql, params });
+		return handler(sql, params);
+	});
+	const em = {
+		transactional: async (fn: any) => await fn({ getConnection: () => ({ execute }) }),
+		getConnection: () => ({ execute })
+	} as unknown as EntityManager;
+	return { em, calls };
+}
+
+describe('IntegrationOutboxArchiver (mocked EM)', () => {
+	const logger = { error: jest.fn(), warn: jest.fn(), debug: jest.fn() };
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('should claim expired published rows, archive, export and delete them', async () => {
+		const rows = [createRow('e-001'), createRow('e-002')];
+		const { em, calls } = createMockEntityManager((sql) =>
+			sql.includes('for update of o skip locked') ? rows : []
+		);
+		const exportRows = jest.fn().mockResolvedValue(undefined);
+		const archiver = new IntegrationOutboxArchiver({
+			archiverName: 'Archiver',
+			em,
+			logger,
+			retentionMs: 60_000,
+			retentionByEventName: { 'audit.recorded': null, 'tenant.user.invited': 1000 },
+			requiredConsumers: [{ consumerName: 'analytics.users', eventNames: ['tenant.user.invited'] }],
+			exportRows
+		});
+
+		const count = await archiver.archiveBatch(50);
+
+		expect(count).toBe(2);
+		const [claim, archive, remove] = calls;
+		expect(claim.sql).toContain("o.status = 'published'");
+		expect(claim.sql).toContain('i.consumer_name = ?');
+		expect(claim.params[0]).toEqual(['audit.recorded', 'tenant.user.invited']);
+		expect((claim.params[1] as unknown[])[0]).toBeNull();
+		expect(claim.params.slice(3)).toEqual([['tenant.user.invited'], 'analytics.users', 50]);
+		expect(archive.sql).toContain('insert into integration_outbox_archive');
+		expect(exportRows).toHaveBeenCalledWith(rows);
+		expect(remove.sql).toContain('delete from integration_outbox');
+		expect(remove.params).toEqual([['e-001', 'e-002']]);
+	});
+
+	it('should keep rows for registered subscribers merged with required consumers', async () => {
+		const { em, calls } = createMockEntityManager(() => []);
+		const archiver = new IntegrationOutboxArchiver({
+			archiverName: 'Archiver',
+			em,
+			logger,
+			subscriberConsumers: () => [
+				{ subscriberName: 'users', consumerName: 'platform-api.plugin.users', eventName: 'tenant.user.invited' }
+			],
+			requiredConsumers: [
+				{ consumerName: 'platform-api.plugin.users', eventNames: ['tenant.user.removed'] },
+				{ consumerName: 'analytics.users', eventNames: ['tenant.user.invited'] }
+			]
+		});
+
+		await archiver.archiveBatch(10);
+
+		expect(calls[0].params.slice(3)).toEqual([
+			['tenant.user.invited', 'tenant.user.removed'],
+			'platform-api.plugin.users',
+			['tenant.user.invited'],
+			'analytics.users',
+			10
+		]);
+		expect(logger.warn).not.toHaveBeenCalled();
+	});
+
+	it('should warn when no consumers are configured', () => {
+		const { em } = createMockEntityManager(() => []);
+
+		new IntegrationOutboxArchiver({ archiverName: 'Archiver', em, logger });
+
+		expect(logger.warn).toHaveBeenCalledWith(
+			{ archiverName: 'Archiver' },
+			expect.stringContaining('未配置 subscriberConsumers / requiredConsumers')
+		);
+	});
+
+	it('should skip archive table when disabled and return 0 when nothing expired', async () => {
+		const { em, calls } = createMockEntityManager(() => []);
+		const archiver = new IntegrationOutboxArchiver({ archiverName: 'Archiver', em, logger, archiveToTable: false });
+
+		expect(await archiver.archiveBatch(10)).toBe(0);
+		expect(calls).toHaveLength(1);
+	});
+
+	it('should roll back batch and log when export fails', async () => {
+		const { em, calls } = createMockEntityManager((sql) =>
+			sql.includes('for update of o skip locked') ? [createRow('e-001')] : []
+		);
+		const archiver = new IntegrationOutboxArchiver({
+			archiverName: 'Archiver',
+			em,
+			logger,
+			exportRows: jest.fn().mockRejectedValue(new Error('disk full'))
+		});
+
+		expect(await archiver.archiveBatch(10)).toBe(0);
+		expect(calls.some((c) => c.sql.includes('delete from integration_outbox'))).toBe(false);
+		expect(logger.error).toHaveBeenCalledWith(
+			{ err: 'disk full' },
+			'Archiver 归档 integration_outbox 失败（本批已回滚）。'
+		);
+	});
+
+	it('should reject negative retention', () => {
+		const { em } = createMockEntityManager(() => []);
+		expect(
+			() =>
+				new IntegrationOutboxArchiver({
+					archiverName: 'Archiver',
+					em,
+					logger,
+					retentionByEventName: { 'tenant.user.invited': -1 }
+				})
+		).toThrow('保留时长必须为非负毫秒数');
+	});
+
+	it('should create upcoming monthly partitions and drop expired ones', async () => {
+		const { em, calls } = createMockEntityManager((sql) =>
+			sql.includes('pg_inherits')
+				? [
+						{ name: 'integration_outbox_archive_default' },
+						{ name: 'integration_outbox_archive_p202512' },
+						{ name: 'integration_outbox_archive_p202603' },
+						{ name: 'integration_outbox_archive_p202605' }
+					]
+				: []
+		);
+		const archiver = new IntegrationOutboxArchiver({
+			archiverName: 'Archiver',
+			em,
+			logger,
+			partitions: { monthsAhead: 3, dropAfterMonths: 2 }
+		});
+
+		const result = await archiver.managePartitions(new Date('2026-05-15T00:00:00.000Z'));
+
+		expect(result).toEqual({
+			created: ['integration_outbox_archive_p202606', 'integration_outbox_archive_p202607'],
+			dropped: ['integration_outbox_archive_p202512']
+		});
+		expect(
+			calls.some((c) =>
+				c.sql.includes("for values from ('2026-06-01T00:00:00.000Z') to ('2026-07-01T00:00:00.000Z')")
+			)
+		).toBe(true);
+	});
+});
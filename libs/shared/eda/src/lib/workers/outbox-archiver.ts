@@ -0,0 +1,365 @@
+import type { EntityManager } from '@mikro-orm/core';
+import type { OutboxLogger } from '../outbox/outbox-processor';
+import type { IntegrationSubscriberConsumerRef } from './outbox-backlog-sampler';
+
+/**
+ * @description 仍需保留事件的订阅者（未处理完前不得清理）
+ */
+export interface IntegrationOutboxRetentionConsumer {
+	/**
+	 * @description 消费者名称（与投影处理器的 consumerName 一致）
+	 */
+	consumerName: string;
+
+	/**
+	 * @description 该消费者订阅的 eventName 列表
+	 */
+	eventNames: string[];
+}
+
+/**
+ * @description 归档分区管理配置（integration_outbox_archive 按 occurred_at 月分区）
+ */
+export interface IntegrationOutboxArchivePartitionOptions {
+	/**
+	 * @description 预先创建的未来月份数（默认 2，含当月）
+	 */
+	monthsAhead?: number;
+
+	/**
+	 * @description 归档保留月数（可选；设置时删除早于该月数的整月分区）
+	 */
+	dropAfterMonths?: number;
+}
+
+/**
+ * @description Outbox 归档器配置选项
+ */
+export interface IntegrationOutboxArchiverOptions {
+	/**
+	 * @description 归档器名称（用于日志定位）
+	 */
+	archiverName: string;
+
+	/**
+	 * @description MikroORM EntityManager
+	 */
+	em: EntityManager;
+
+	/**
+	 * @description 日志对象
+	 */
+	logger: OutboxLogger;
+
+	/**
+	 * @description 默认保留时长毫秒数（published 之后起算，默认 7 天）
+	 */
+	retentionMs?: number;
+
+	/**
+	 * @description 按 eventName 覆盖保留时长（null 表示永不清理）
+	 */
+	retentionByEventName?: Record<string, number | null>;
+
+	/**
+	 * @description 已注册的订阅者（通常传 `() => subscriberProcessor.listSubscriberConsumers()`）
+	 *
+	 * 每批归档前读取；订阅者尚未写入 inbox_processed 的事件不清理
+	 */
+	subscriberConsumers?: () => IntegrationSubscriberConsumerRef[];
+
+	/**
+	 * @description 其余需要保留事件的消费者（如自定义投影处理器；与 subscriberConsumers 合并）
+	 */
+	requiredConsumers?: IntegrationOutboxRetentionConsumer[];
+
+	/**
+	 * @description 是否写入 integration_outbox_archive（默认 true）
+	 */
+	archiveToTable?: boolean;
+
+	/**
+	 * @description 自定义导出（可选，如写入文件/对象存储）；在删除前于同一事务内调用，失败则整批回滚
+	 */
+	exportRows?: (rows: IntegrationOutboxArchiveRow[]) => Promise<void>;
+
+	/**
+	 * @description 归档表分区管理（可选）
+	 */
+	partitions?: IntegrationOutboxArchivePartitionOptions;
+}
+
+/**
+ * @description 归档行数据结构
+ */
+export interface IntegrationOutboxArchiveRow {
+	event_id: string;
+	tenant_id: string;
+	event_name: string;
+	event_version: number;
+	partition_key: string;
+	payload: unknown;
+	occurred_at: string | Date;
+	created_at: string | Date;
+	updated_at: string | Date;
+}
+
+const DEFAULT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const ARCHIVE_TABLE = 'integration_outbox_archive';
+const PARTITION_NAME_PATTERN = /^integration_outbox_archive_p(\d{4})(\d{2})$/;
+
+/**
+ * @description Outbox 保留与归档器
+ *
+ * 业务定位：
+ * - 解决 integration_outbox 中 published 行永不清理、表与索引持续膨胀的问题
+ *
+ * 清理规则：
+ * - 只处理 `status=published` 且 `updated_at`（发布时间）早于保留期限的行
+ * - 保留期限按 eventName 覆盖，未覆盖的使用 retentionMs
+ * - 已注册订阅者（subscriberConsumers）与 requiredConsumers 中订阅了该事件、但尚未写入 inbox_processed 的消费者存在时保留该行
+ * - 每批在同一事务内：claim（skip locked）→ 写入归档表 / 自定义导出 → 删除
+ *
+ * 注意事项：
+ * - integration_outbox 本身不分区（热队列，行数在清理后保持有界）；分区只作用于归档表
+ * - IntegrationProjectionRebuilder 只重放 integration_outbox：重建范围内已有事件被归档时默认拒绝重建，
+ *   需要完整重放的事件应通过 retentionByEventName 设为 null（永不清理）
+ */
+export class IntegrationOutboxArchiver {
+	private readonly retentionMs: number;
+
+	constructor(private readonly options: IntegrationOutboxArchiverOptions) {
+		this.retentionMs = options.retentionMs ?? DEFAULT_RETENTION_MS;
+		const invalid = [
+			['retentionMs', this.retentionMs] as const,
+			...Object.entries(options.retentionByEventName ?? {})
+		].find(([, ms]) => ms !== null && (!Number.isFinite(ms) || ms < 0));
+		if (invalid) {
+			throw new Error(`${options.archiverName} 保留时长必须为非负毫秒数：${invalid[0]}=${invalid[1]}。`);
+		}
+		if (!options.subscriberConsumers && !options.requiredConsumers?.length) {
+			options.logger.warn(
+				{ archiverName: options.archiverName },
+				`${options.archiverName} 未配置 subscriberConsumers / requiredConsumers：落后的订阅者尚未处理的事件也会被清理。`
+			);
+		}
+	}
+
+	/**
+	 * @description 归档并删除一批已过保留期的 published 事件
+	 *
+	 * @param batchSize - 单批条数
+	 * @returns 实际删除条数
+	 */
+	async archiveBatch(batchSize: number): Promise<number> {
+		try {
+			return await this.options.em.transactional(async (tem) => {
+				const conn = tem.getConnection();
+				const rows = await this.claimExpiredRows(conn, batchSize);
+				if (rows.length === 0) return 0;
+
+				const eventIds = rows.map((r) => r.event_id);
+				if (this.options.archiveToTable !== false) {
+					await conn.execute(
+						`
+						insert into integration_outbox_archive (
+							event_id,
+							tenant_id,
+							event_name,
+							event_version,
+							partition_key,
+							payload,
+							occurred_at,
+							created_at,
+							published_at,
+							archived_at
+						)
+						select
+							event_id,
+							tenant_id,
+							event_name,
+							event_version,
+							partition_key,
+							payload,
+							occurred_at,
+							created_at,
+							updated_at,
+							now()
+						from integration_outbox
+						where event_id = any(cast(? as text[]))
+						on conflict do nothing
+						`,
+						[eventIds]
+					);
+				}
+				await this.options.exportRows?.(rows);
+				await conn.execute(
+					`
+					delete from integration_outbox
+					where event_id = any(cast(? as text[]))
+					`,
+					[eventIds]
+				);
+
+				this.options.logger.debug(
+					{ count: rows.length },
+					`${this.options.archiverName} 已归档并删除 ${rows.length} 条 published 事件。`
+				);
+				return rows.length;
+			});
+		} catch (e) {
+			this.options.logger.error(
+				{ err: e instanceof Error ? e.message : String(e) },
+				`${this.options.archiverName} 归档 integration_outbox 失败（本批已回滚）。`
+			);
+			return 0;
+		}
+	}
+
+	/**
+	 * @description 维护归档表月分区：预建未来分区，并按 dropAfterMonths 删除过期分区
+	 *
+	 * @param now - 当前时间（默认 new Date()）
+	 * @returns 新建与删除的分区名
+	 */
+	async managePartitions(now: Date = new Date()): Promise<{ created: string[]; dropped: string[] }> {
+		const partitions = this.options.partitions ?? {};
+		const monthsAhead = Math.max(1, partitions.monthsAhead ?? 2);
+		const conn = this.options.em.getConnection();
+		const existing = (
+			(await conn.execute(
+				`
+				select c.relname as name
+				from pg_inherits i
+				join pg_class c on c.oid = i.inhrelid
+				join pg_class p on p.oid = i.inhparent
+				where p.relname = ?
+				`,
+				[ARCHIVE_TABLE]
+			)) as Array<{ name: string }>
+		).map((r) => r.name);
+
+		const created: string[] = [];
+		for (let i = 0; i < monthsAhead; i++) {
+			const from = addUtcMonths(now, i);
+			const name = partitionName(from);
+			if (existing.includes(name)) continue;
+			try {
+				await conn.execute(
+					`create table if not exists ${name} partition of ${ARCHIVE_TABLE} for values from ('${from.toISOString()}') to ('${addUtcMonths(from, 1).toISOString()}')`
+				);
+				created.push(name);
+			} catch (e) {
+				this.options.logger.warn(
+					{ partition: name, err: e instanceof Error ? e.message : String(e) },
+					`${this.options.archiverName} 创建归档分区失败（默认分区中可能已有该月数据）。`
+				);
+			}
+		}
+
+		const dropped: string[] = [];
+		if (partitions.dropAfterMonths !== undefined) {
+			const cutoff = addUtcMonths(now, -Math.max(0, partitions.dropAfterMonths));
+			for (const name of existing) {
+				const match = PARTITION_NAME_PATTERN.exec(name);
+				if (!match) continue;
+				const end = addUtcMonths(new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1)), 1);
+				if (end > cutoff) continue;
+				await conn.execute(`drop table if exists ${name}`);
+				dropped.push(name);
+			}
+		}
+
+		if (created.length > 0) {
+			this.options.logger.debug(
+				{ created },
+				`${this.options.archiverName} 已新建 ${created.length} 个归档分区。`
+			);
+		}
+		if (dropped.length > 0) {
+			this.options.logger.warn(
+				{ dropped },
+				`${this.options.archiverName} 已删除 ${dropped.length} 个过期归档分区。`
+			);
+		}
+		return { created, dropped };
+	}
+
+	private async claimExpiredRows(
+		conn: ReturnType<EntityManager['getConnection']>,
+		limit: number
+	): Promise<IntegrationOutboxArchiveRow[]> {
+		const overrides = Object.entries(this.options.retentionByEventName ?? {});
+		const params: unknown[] = [
+			overrides.map(([name]) => name),
+			overrides.map(([, ms]) => (ms === null ? null : new Date(Date.now() - ms))),
+			new Date(Date.now() - this.retentionMs)
+		];
+
+		const consumerConditions = this.listRetentionConsumers().map((c) => {
+			params.push(c.eventNames, c.consumerName);
+			return `
+				and (
+					o.event_name <> all(cast(? as text[]))
+					or exists (
+						select 1
+						from integration_inbox_processed i
+						where i.event_id = o.event_id
+							and i.consumer_name = ?
+					)
+				)`;
+		});
+		params.push(limit);
+
+		return (await conn.execute(
+			`
+			select
+				o.event_id,
+				o.tenant_id,
+				o.event_name,
+				o.event_version,
+				o.partition_key,
+				o.payload,
+				o.occurred_at,
+				o.created_at,
+				o.updated_at
+			from integration_outbox o
+			left join unnest(cast(? as text[]), cast(? as timestamptz[])) as h(event_name, cutoff)
+				on h.event_name = o.event_name
+			where o.status = 'published'
+				and o.updated_at < (case when h.event_name is null then cast(? as timestamptz) else h.cutoff end)
+				${consumerConditions.join('')}
+			order by o.updated_at asc
+			limit ?
+			for update of o skip locked
+			`,
+			params
+		)) as IntegrationOutboxArchiveRow[];
+	}
+
+	/**
+	 * 合并已注册订阅者与 requiredConsumers（同一 consumerName 的 eventName 去重合并）
+	 */
+	private listRetentionConsumers(): IntegrationOutboxRetentionConsumer[] {
+		const eventNamesByConsumer = new Map<string, Set<string>>();
+		const add = (consumerName: string, eventNames: string[]) => {
+			const set = eventNamesByConsumer.get(consumerName) ?? new Set<string>();
+			eventNames.forEach((name) => set.add(name));
+			eventNamesByConsumer.set(consumerName, set);
+		};
+		for (const c of this.options.subscriberConsumers?.() ?? []) add(c.consumerName, [c.eventName]);
+		for (const c of this.options.requiredConsumers ?? []) add(c.consumerName, c.eventNames);
+		return [...eventNamesByConsumer].map(([consumerName, eventNames]) => ({
+			consumerName,
+			eventNames: [...eventNames]
+		}));
+	}
+}
+
+function addUtcMonths(date: Date, months: number): Date {
+	return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+}
+
+function partitionName(monthStart: Date): string {
+	return `${ARCHIVE_TABLE}_p${monthStart.getUTCFullYear()}${String(monthStart.getUTCMonth() + 1).padStart(2, '0')}`;
+}
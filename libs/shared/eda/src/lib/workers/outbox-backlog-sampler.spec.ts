@@ -0,0 +1,120 @@
+import type { EntityManager } from '@mikro-orm/core';
+import * as metrics from '../metrics/eda.metrics';
+import { IntegrationOutboxBacklogSampler } from './outbox-backlog-sampler';
+
+function createRecorder() {
+	return {
+		incIntegrationEventProcessedTotal: jest.fn(),
+		observeIntegrationEventLagMs: jest.fn(),
+		observeIntegrationEventDurationMs: jest.fn(),
+		setIntegrationOutboxTenantBacklog: jest.fn(),
+		setIntegrationOutboxBacklog: jest.fn(),
+		setIntegrationSubscriberUnprocessed: jest.fn(),
+		incIntegrationOutboxReaperReclaimedTotal: jest.fn(),
+		recordIntegrationSubscriberCircuitState: jest.fn()
+	};
+}
+
+describe('IntegrationOutboxBacklogSampler (mocked EM)', () => {
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('should report status counts with zero defaults and oldest pending age', async () => {
+		const recorder = createRecorder();
+		jest.spyOn(metrics, 'getOksaiMetricsRecorder').mockReturnValue(recorder);
+
+		const execute = jest.fn(async (sql: string) => {
+			if (sql.includes('group by status')) {
+				return [
+					{ status: 'pending', count: '12', oldest_occurred_at: new Date(Date.now() - 30_000) },
+					{ status: 'failed', count: 3, oldest_occurred_at: new Date(Date.now() - 90_000) },
+					{ status: 'dead', count: '2', oldest_occurred_at: new Date(Date.now() - 600_000) }
+				];
+			}
+			throw new Error(`未覆盖的 SQL：${sql}`);
+		});
+		const em = { getConnection: () => ({ execute }) } as unknown as EntityManager;
+		const logger = { error: jest.fn(), warn: jest.fn(), debug: jest.fn() };
+
+		await new IntegrationOutboxBacklogSampler({ samplerName: 'Sampler', em, logger }).sample();
+
+		const input = recorder.setIntegrationOutboxBacklog.mock.calls[0][0];
+		expect(input.counts).toEqual({ pending: 12, scheduled: 0, queued: 0, processing: 0, failed: 3, dead: 2 });
+		expect(input.oldestPendingAgeMs).toBeGreaterThanOrEqual(90_000);
+		expect(input.oldestPendingAgeMs).toBeLessThan(600_000);
+		expect(logger.warn).not.toHaveBeenCalled();
+	});
+
+	it('should count not-yet-due scheduled events separately from pending backlog', async () => {
+		const recorder = createRecorder();
+		jest.spyOn(metrics, 'getOksaiMetricsRecorder').mockReturnValue(recorder);
+
+		const execute = jest.fn(async () => [
+			{ status: 'pending', count: 1, oldest_occurred_at: new Date(Date.now() - 5_000) },
+			{ status: 'scheduled', count: '40', oldest_occurred_at: new Date(Date.now() + 3600_000) }
+		]);
+		const em = { getConnection: () => ({ execute }) } as unknown as EntityManager;
+		const logger = { error: jest.fn(), warn: jest.fn(), debug: jest.fn() };
+
+		await new IntegrationOutboxBacklogSampler({ samplerName: 'Sampler', em, logger }).sample();
+
+		const input = recorder.setIntegrationOutboxBacklog.mock.calls[0][0];
+		expect(execute).toHaveBeenCalledWith(
+			expect.stringContaining("when status = 'pending' and deliver_at > now() then 'scheduled'"),
+			[]
+		);
+		expect(input.counts).toMatchObject({ pending: 1, scheduled: 40 });
+		expect(input.oldestPendingAgeMs).toBeGreaterThanOrEqual(5_000);
+		expect(input.oldestPendingAgeMs).toBeLessThan(60_000);
+	});
+
+	it('should report unprocessed counts per subscriber consumer', async () => {
+		const recorder = createRecorder();
+		jest.spyOn(metrics, 'getOksaiMetricsRecorder').mockReturnValue(recorder);
+
+		const execute = jest.fn(async (sql: string, params: unknown[]) => {
+			if (sql.includes('group by status')) return [];
+			if (sql.includes('integration_inbox_processed')) {
+				return [{ count: params[0] === 'app.plugin.a' ? '7' : '0' }];
+			}
+			throw new Error(`未覆盖的 SQL：${sql}`);
+		});
+		const em = { getConnection: () => ({ execute }) } as unknown as EntityManager;
+		const logger = { error: jest.fn(), warn: jest.fn(), debug: jest.fn() };
+
+		await new IntegrationOutboxBacklogSampler({
+			samplerName: 'Sampler',
+			em,
+			logger,
+			subscriberConsumers: () => [
+				{ subscriberName: 'a', consumerName: 'app.plugin.a', eventName: 'tenant.user.invited' },
+				{ subscriberName: 'b', consumerName: 'app.plugin.b', eventName: 'tenant.created' }
+			]
+		}).sample();
+
+		expect(recorder.setIntegrationOutboxBacklog.mock.calls[0][0].oldestPendingAgeMs).toBe(0);
+		expect(recorder.setIntegrationSubscriberUnprocessed.mock.calls).toEqual([
+			[{ consumer: 'app.plugin.a', eventName: 'tenant.user.invited', unprocessed: 7 }],
+			[{ consumer: 'app.plugin.b', eventName: 'tenant.created', unprocessed: 0 }]
+		]);
+	});
+
+	it('should warn instead of throwing when sampling fails', async () => {
+		const recorder = createRecorder();
+		jest.spyOn(metrics, 'getOksaiMetricsRecorder').mockReturnValue(recorder);
+
+		const execute = jest.fn().mockRejectedValue(new Error('connection refused'));
+		const em = { getConnection: () => ({ execute }) } as unknown as EntityManager;
+		const logger = { error: jest.fn(), warn: jest.fn(), debug: jest.fn() };
+
+		await expect(
+			new IntegrationOutboxBacklogSampler({ samplerName: 'Sampler', em, logger }).sample()
+		).resolves.toBeUndefined();
+		expect(recorder.setIntegrationOutboxBacklog).not.toHaveBeenCalled();
+		expect(logger.warn).toHaveBeenCalledWith(
+			{ err: 'connection refused' },
+			'Sampler 采样 integration_outbox 积压失败。'
+		);
+	});
+});
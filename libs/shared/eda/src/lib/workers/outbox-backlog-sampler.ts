@@ -0,0 +1,161 @@
+import type { EntityManager } from '@mikro-orm/core';
+import { getOksaiMetricsRecorder, type IntegrationOutboxBacklogStatus } from '../metrics/eda.metrics';
+import type { OutboxLogger } from '../outbox/outbox-processor';
+
+/**
+ * @description 订阅者投影的消费维度（与 IntegrationEventSubscriberProjectionProcessor 的 consumerName 约定一致）
+ */
+export interface IntegrationSubscriberConsumerRef {
+	subscriberName: string;
+	consumerName: string;
+	eventName: string;
+}
+
+/**
+ * @description Outbox 积压采样器配置选项
+ */
+export interface IntegrationOutboxBacklogSamplerOptions {
+	/**
+	 * @description 采样器名称（用于日志定位）
+	 */
+	samplerName: string;
+
+	/**
+	 * @description MikroORM EntityManager
+	 */
+	em: EntityManager;
+
+	/**
+	 * @description 日志对象
+	 */
+	logger: OutboxLogger;
+
+	/**
+	 * @description 需要采样未处理数的订阅者（可选；通常传 `() => subscriberProcessor.listSubscriberConsumers()`）
+	 */
+	subscriberConsumers?: () => IntegrationSubscriberConsumerRef[];
+}
+
+const BACKLOG_STATUSES: readonly IntegrationOutboxBacklogStatus[] = [
+	'pending',
+	'scheduled',
+	'queued',
+	'processing',
+	'failed',
+	'dead'
+];
+
+/**
+ * @description Outbox 积压采样器：周期性查询积压并写入 metrics gauge
+ *
+ * 业务定位：
+ * - 处理计数/延迟只在"有事件被处理"时产生；Worker 全部停止时没有任何指标变化，无法告警
+ * - 本采样器直接查询 integration_outbox，独立于 Processor/Publisher 运行（建议部署在暴露 /metrics 的进程中）
+ *
+ * 采样内容：
+ * - 各状态行数：pending / queued / processing / failed / dead；未到 deliver_at 的 pending 行单独计为 scheduled
+ * - 最早未发布事件（pending/queued/failed）的年龄：定时事件从 deliver_at 起算，未到期的不计入
+ * - 每个订阅者 consumerName 未处理的 published 事件数（与订阅者投影的 claim 条件一致）
+ *
+ * 注意事项：
+ * - 单次采样失败只记录 warn，不抛错，上一次的 gauge 值保持不变
+ * - 多实例部署时每个实例上报相同的全局值，告警规则使用 max() 聚合
+ */
+export class IntegrationOutboxBacklogSampler {
+	constructor(private readonly options: IntegrationOutboxBacklogSamplerOptions) {}
+
+	/**
+	 * @description 执行一次采样（适合作为 createPollingWorker 的 tick）
+	 */
+	async sample(): Promise<void> {
+		await this.sampleOutbox();
+		for (const consumer of this.options.subscriberConsumers?.() ?? []) {
+			await this.sampleSubscriber(consumer);
+		}
+	}
+
+	private async sampleOutbox(): Promise<void> {
+		try {
+			const rows = (await this.options.em.getConnection().execute(
+				`
+				select
+					status,
+					count(*) as count,
+					min(eligible_at) as oldest_occurred_at
+				from (
+					select
+						case when status = 'pending' and deliver_at > now() then 'scheduled' else status end as status,
+						coalesce(deliver_at, occurred_at) as eligible_at
+					from integration_outbox
+					where status in ('pending', 'queued', 'processing', 'failed', 'dead')
+				) b
+				group by status
+				`,
+				[]
+			)) as Array<{ status: string; count: number | string; oldest_occurred_at: string | Date | null }>;
+
+			const counts = Object.fromEntries(BACKLOG_STATUSES.map((s) => [s, 0])) as Record<
+				IntegrationOutboxBacklogStatus,
+				number
+			>;
+			let oldestPendingAt: number | undefined;
+			for (const row of rows) {
+				if (!(BACKLOG_STATUSES as readonly string[]).includes(row.status)) continue;
+				counts[row.status as IntegrationOutboxBacklogStatus] = Number(row.count);
+				if (
+					row.status === 'processing' ||
+					row.status === 'dead' ||
+					row.status === 'scheduled' ||
+					!row.oldest_occurred_at
+				) {
+					continue;
+				}
+				const at = new Date(row.oldest_occurred_at).getTime();
+				if (Number.isFinite(at) && (oldestPendingAt === undefined || at < oldestPendingAt)) {
+					oldestPendingAt = at;
+				}
+			}
+
+			getOksaiMetricsRecorder().setIntegrationOutboxBacklog({
+				counts,
+				oldestPendingAgeMs: oldestPendingAt === undefined ? 0 : Math.max(0, Date.now() - oldestPendingAt)
+			});
+		} catch (e) {
+			this.options.logger.warn(
+				{ err: e instanceof Error ? e.message : String(e) },
+				`${this.options.samplerName} 采样 integration_outbox 积压失败。`
+			);
+		}
+	}
+
+	private async sampleSubscriber(consumer: IntegrationSubscriberConsumerRef): Promise<void> {
+		try {
+			const rows = (await this.options.em.getConnection().execute(
+				`
+				select count(*) as count
+				from integration_outbox o
+				left join integration_inbox_processed i
+					on i.event_id = o.event_id and i.consumer_name = ?
+				left join integration_event_subscriber_retry_state r
+					on r.event_id = o.event_id and r.subscriber_name = ?
+				where o.status = 'published'
+					and o.event_name = ?
+					and i.event_id is null
+					and (r.event_id is null or r.status = 'retrying')
+				`,
+				[consumer.consumerName, consumer.subscriberName, consumer.eventName]
+			)) as Array<{ count: number | string }>;
+
+			getOksaiMetricsRecorder().setIntegrationSubscriberUnprocessed({
+				consumer: consumer.consumerName,
+				eventName: consumer.eventName,
+				unprocessed: Number(rows[0]?.count ?? 0)
+			});
+		} catch (e) {
+			this.options.logger.warn(
+				{ consumerName: consumer.consumerName, err: e instanceof Error ? e.message : String(e) },
+				`${this.options.samplerName} 采样订阅者未处理数失败。`
+			);
+		}
+	}
+}
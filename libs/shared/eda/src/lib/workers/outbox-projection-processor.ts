@@ -13,6 +13,7 @@ import type { OutboxLogger } from '../outbox/outbox-processor';
 export type PublishedIntegrationOutboxRow = OutboxRowLike & {
 	payload: unknown;
 	occurred_at: string | Date;
+	deliver_at?: string | Date | null;
 };
 
 /**
@@ -109,7 +110,8 @@ export class IntegrationOutboxProjectionProcessor {
 				o.event_version,
 				o.partition_key,
 				o.payload,
-				o.occurred_at
+				o.occurred_at,
+				o.deliver_at
 			from integration_outbox o
 			left join integration_inbox_processed i
 				on i.event_id = o.event_id and i.consumer_name = ?
@@ -126,7 +128,7 @@ export class IntegrationOutboxProjectionProcessor {
 	private async handleOne(row: PublishedIntegrationOutboxRow): Promise<void> {
 		const metrics = getOksaiMetricsRecorder();
 		const startedAt = Date.now();
-		const outboxLagMs = computeOutboxLagMs(row.occurred_at);
+		const outboxLagMs = computeOutboxLagMs(row.deliver_at ?? row.occurred_at);
 
 		let envelope: OksaiIntegrationEvent;
 		try {
@@ -175,7 +177,20 @@ export class IntegrationOutboxProjectionProcessor {
 			locale: envelope.locale,
 			eventId: row.event_id,
 			eventName: row.event_name,
-			eventVersion: row.event_version
+			eventVersion: row.event_version,
+			traceparent: envelope.traceparent,
+			tracestate: envelope.tracestate
+		};
+		const workerOptions = {
+			span: {
+				name: `process ${row.event_name}`,
+				attributes: () => ({
+					'messaging.operation': 'process',
+					'messaging.consumer.group.name': this.options.consumerName,
+					'messaging.message.id': row.event_id,
+					'oksai.tenant_id': row.tenant_id
+				})
+			}
 		};
 
 		const run = withOksaiWorkerContextFromJob(async () => {
@@ -199,7 +214,7 @@ export class IntegrationOutboxProjectionProcessor {
 				eventName: row.event_name,
 				result: 'success'
 			});
-		});
+		}, workerOptions);
 
 		try {
 			await run(job);
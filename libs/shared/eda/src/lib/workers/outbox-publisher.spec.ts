@@ -1,4 +1,11 @@
 import type { EntityManager } from '@mikro-orm/core';
+import {
+	configureOksaiTracing,
+	getOksaiRequestContextFromCurrent,
+	resetOksaiTracing,
+	type OksaiRequestContext,
+	type OksaiSpanData
+} from '@oksai/context';
 import { IntegrationOutboxPublisher } from './outbox-publisher';
 
 describe('IntegrationOutboxPublisher (mocked EM)', () => {
@@ -75,6 +82,64 @@ describe('IntegrationOutboxPublisher (mocked EM)', () => {
 		expect(sqls.some((s) => s.includes("set status = 'queued'"))).toBe(true);
 	});
 
+	it('should call publish in envelope context under a producer span restored from the envelope', async () => {
+		const spans: OksaiSpanData[] = [];
+		configureOksaiTracing({ serviceName: 'test', exporter: { export: (batch) => void spans.push(...batch) } });
+
+		const row = {
+			event_id: 'e-002',
+			tenant_id: 't-001',
+			event_name: 'tenant.user.invited',
+			event_version: 1,
+			partition_key: 't-001',
+			payload: {
+				eventId: 'e-002',
+				eventName: 'tenant.user.invited',
+				eventVersion: 1,
+				tenantId: 't-001',
+				partitionKey: 't-001',
+				actorId: 'u-001',
+				traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+				data: { invitedUserId: 'u-guest' }
+			},
+			retry_count: 0,
+			occurred_at: new Date().toISOString()
+		};
+		const execute = jest.fn(async (sql: string) => (sql.includes('for update skip locked') ? [row] : []));
+		const em = {
+			transactional: async (fn: any) => await fn({ getConnection: () => ({ execute }) }),
+			getConnection: () => ({ execute })
+		} as unknown as EntityManager;
+		const contexts: OksaiRequestContext[] = [];
+
+		try {
+			const p = new IntegrationOutboxPublisher({
+				publisherName: 'Publisher',
+				em,
+				logger: { error: jest.fn(), log: jest.fn(), warn: jest.fn(), debug: jest.fn() } as any,
+				publish: async () => {
+					contexts.push(getOksaiRequestContextFromCurrent());
+				}
+			});
+
+			await p.publishBatch(10);
+		} finally {
+			resetOksaiTracing();
+		}
+
+		expect(spans[0]).toMatchObject({
+			name: 'publish tenant.user.invited',
+			kind: 'producer',
+			traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+			parentSpanId: '00f067aa0ba902b7'
+		});
+		expect(contexts[0]).toMatchObject({
+			tenantId: 't-001',
+			userId: 'u-001',
+			traceparent: `00-4bf92f3577b34da6a3ce929d0e0e4736-${spans[0].spanId}-01`
+		});
+	});
+
 	it('should mark outbox as dead when max retry reached', async () => {
 		process.env.OKSAI_OUTBOX_MAX_RETRY_COUNT = '1';
 
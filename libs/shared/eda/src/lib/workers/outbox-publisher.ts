@@ -1,11 +1,13 @@
 import { randomUUID } from 'crypto';
 
 import type { EntityManager } from '@mikro-orm/core';
+import { withOksaiWorkerContextFromJob } from '../context/worker-context.util';
 import { parseIntegrationEventEnvelopeFromOutboxRow } from '../outbox/outbox-envelope';
 import { getOksaiMetricsRecorder } from '../metrics/eda.metrics';
-import { computeOutboxNextRetrySeconds, readOutboxMaxRetryCount } from '../outbox/outbox-processor';
+import { DELAYED_EXISTS_SQL, computeOutboxNextRetrySeconds, readOutboxMaxRetryCount } from '../outbox/outbox-processor';
 import type { OksaiIntegrationEvent } from '@oksai/contracts';
 import type { OutboxLogger } from '../outbox/outbox-processor';
+import { IntegrationOutboxFairShareClaimer, type IntegrationOutboxFairShareOptions } from '../outbox/outbox-fair-share';
 
 /**
  * @description Outbox 发布行数据结构
@@ -19,6 +21,7 @@ export interface IntegrationOutboxPublishRow {
 	payload: unknown;
 	retry_count: number;
 	occurred_at: string | Date;
+	deliver_at?: string | Date | null;
 }
 
 /**
@@ -49,10 +52,34 @@ export interface IntegrationOutboxPublisherOptions {
 	 *
 	 * 注意事项：
 	 * - 回调中禁止做任何跨租户写入；tenantId 仅来自事件信封
+	 * - 回调在信封上下文（tenantId/actorId/requestId）与 producer span 中执行，
+	 *   父 span 为信封的 traceparent；Kafka 生产者据此写入 `traceparent` 消息头
 	 */
 	publish?: (input: { envelope: OksaiIntegrationEvent; row: IntegrationOutboxPublishRow }) => Promise<void>;
+
+	/**
+	 * @description 按租户公平 claim（可选；语义同 IntegrationOutboxProcessorOptions.fairShare）
+	 */
+	fairShare?: IntegrationOutboxFairShareOptions;
 }
 
+/**
+ * @description 公平 claim 的候选条件与列（与按 occurred_at 的默认 claim 保持一致）
+ */
+const PUBLISH_CLAIM_WHERE = `o.status in ('pending', 'failed')
+	and (o.next_retry_at is null or o.next_retry_at <= now())
+	and (o.deliver_at is null or o.deliver_at <= now())`;
+
+const PUBLISH_CLAIM_COLUMNS = `o.event_id,
+	o.tenant_id,
+	o.event_name,
+	o.event_version,
+	o.partition_key,
+	o.payload,
+	o.retry_count,
+	o.occurred_at,
+	o.deliver_at`;
+
 /**
  * @description Outbox 发布器（P1：Publisher 骨架，pending -> queued）
  *
@@ -65,7 +92,16 @@ export interface IntegrationOutboxPublisherOptions {
  * - 若 publish 回调未提供，则仅执行 pending -> queued（用于演进占位）
  */
 export class IntegrationOutboxPublisher {
-	constructor(private readonly options: IntegrationOutboxPublisherOptions) {}
+	private readonly fairShare: IntegrationOutboxFairShareClaimer | null;
+
+	constructor(private readonly options: IntegrationOutboxPublisherOptions) {
+		this.fairShare = options.fairShare
+			? new IntegrationOutboxFairShareClaimer(options.fairShare, {
+					name: options.publisherName,
+					logger: options.logger
+				})
+			: null;
+	}
 
 	/**
 	 * @description 发布一批 Outbox 事件（claim pending -> validate -> publish -> queued/failed）
@@ -92,28 +128,35 @@ export class IntegrationOutboxPublisher {
 		return rows.length;
 	}
 
+	/**
+	 * @description 是否存在未到期的待发布行（重试退避中或定时投递未到期；供 hasDelayedWork 使用）
+	 *
+	 * @returns 存在时返回 true
+	 */
+	async hasDelayedRows(): Promise<boolean> {
+		const rows = (await this.options.em.getConnection().execute(DELAYED_EXISTS_SQL, ['pending'])) as Array<{
+			delayed: boolean;
+		}>;
+		return rows[0]?.delayed === true;
+	}
+
 	private async claimPendingRows(limit: number): Promise<IntegrationOutboxPublishRow[]> {
+		if (this.fairShare) {
+			await this.fairShare.sampleBacklog(this.options.em, { where: PUBLISH_CLAIM_WHERE, params: [] });
+		}
+
 		return await this.options.em.transactional(async (tem) => {
-			const rows = (await tem.getConnection().execute(
-				`
-				select
-					event_id,
-					tenant_id,
-					event_name,
-					event_version,
-					partition_key,
-					payload,
-					retry_count,
-					occurred_at
-				from integration_outbox
-				where status in ('pending', 'failed')
-					and (next_retry_at is null or next_retry_at <= now())
-				order by occurred_at asc
-				limit ?
-				for update skip locked
-				`,
-				[limit]
-			)) as IntegrationOutboxPublishRow[];
+			const rows = this.fairShare
+				? await this.fairShare.claim<IntegrationOutboxPublishRow>(
+						tem.getConnection(),
+						{
+							columns: PUBLISH_CLAIM_COLUMNS,
+							where: PUBLISH_CLAIM_WHERE,
+							params: []
+						},
+						limit
+					)
+				: await this.claimByOccurredAt(tem.getConnection(), limit);
 
 			if (rows.length === 0) return [];
 
@@ -132,10 +175,38 @@ export class IntegrationOutboxPublisher {
 		});
 	}
 
+	private async claimByOccurredAt(
+		conn: ReturnType<EntityManager['getConnection']>,
+		limit: number
+	): Promise<IntegrationOutboxPublishRow[]> {
+		return (await conn.execute(
+			`
+			select
+				event_id,
+				tenant_id,
+				event_name,
+				event_version,
+				partition_key,
+				payload,
+				retry_count,
+				occurred_at,
+				deliver_at
+			from integration_outbox
+			where status in ('pending', 'failed')
+				and (next_retry_at is null or next_retry_at <= now())
+				and (deliver_at is null or deliver_at <= now())
+			order by occurred_at asc
+			limit ?
+			for update skip locked
+			`,
+			[limit]
+		)) as IntegrationOutboxPublishRow[];
+	}
+
 	private async publishOne(row: IntegrationOutboxPublishRow): Promise<void> {
 		const metrics = getOksaiMetricsRecorder();
 		const startedAt = Date.now();
-		const outboxLagMs = this.computeOutboxLagMs(row.occurred_at);
+		const outboxLagMs = this.computeOutboxLagMs(row.deliver_at ?? row.occurred_at);
 
 		let envelope: OksaiIntegrationEvent;
 		try {
@@ -187,8 +258,21 @@ export class IntegrationOutboxPublisher {
 		}
 
 		try {
-			if (this.options.publish) {
-				await this.options.publish({ envelope, row });
+			const publish = this.options.publish;
+			if (publish) {
+				const run = withOksaiWorkerContextFromJob(() => publish({ envelope, row }), {
+					userIdKey: 'actorId',
+					span: {
+						name: `publish ${envelope.eventName}`,
+						kind: 'producer',
+						attributes: () => ({
+							'messaging.operation': 'publish',
+							'messaging.message.id': envelope.eventId,
+							'oksai.tenant_id': envelope.tenantId
+						})
+					}
+				});
+				await run(envelope);
 			}
 			await this.markOutboxQueued(row.event_id);
 
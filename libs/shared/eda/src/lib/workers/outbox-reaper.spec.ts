@@ -1,4 +1,5 @@
 import type { EntityManager } from '@mikro-orm/core';
+import * as metrics from '../metrics/eda.metrics';
 import { IntegrationOutboxProcessingReaper } from './outbox-reaper';
 
 describe('IntegrationOutboxProcessingReaper (mocked EM)', () => {
@@ -86,6 +87,11 @@ describe('IntegrationOutboxProcessingReaper (mocked EM)', () => {
 		} as unknown as EntityManager;
 
 		const logger = { error: jest.fn(), log: jest.fn(), warn: jest.fn(), debug: jest.fn() } as any;
+		const incReclaimed = jest.fn();
+		const recorder = metrics.getOksaiMetricsRecorder();
+		const spy = jest
+			.spyOn(metrics, 'getOksaiMetricsRecorder')
+			.mockReturnValue({ ...recorder, incIntegrationOutboxReaperReclaimedTotal: incReclaimed });
 		const r = new IntegrationOutboxProcessingReaper({
 			reaperName: 'Reaper',
 			em,
@@ -98,5 +104,7 @@ describe('IntegrationOutboxProcessingReaper (mocked EM)', () => {
 		const sqls = calls.map((c) => c.sql);
 		expect(sqls.some((s) => s.includes("set status = 'dead'"))).toBe(true);
 		expect(sqls.some((s) => s.includes('insert into integration_outbox_dead_letter'))).toBe(true);
+		expect(incReclaimed).toHaveBeenCalledWith({ reaper: 'Reaper', result: 'dead' });
+		spy.mockRestore();
 	});
 });
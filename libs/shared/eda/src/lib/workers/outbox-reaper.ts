@@ -1,6 +1,7 @@
 import { randomUUID } from 'crypto';
 
 import type { EntityManager } from '@mikro-orm/core';
+import { getOksaiMetricsRecorder } from '../metrics/eda.metrics';
 import { computeOutboxNextRetrySeconds, readOutboxMaxRetryCount } from '../outbox/outbox-processor';
 import type { OutboxLogger } from '../outbox/outbox-processor';
 
@@ -127,15 +128,20 @@ export class IntegrationOutboxProcessingReaper {
 		const staleMs = this.computeStaleMs(row.updated_at);
 
 		try {
-			await this.markOutboxFailedOrDead(
+			const result = await this.markOutboxFailedOrDead(
 				row,
 				`processing 超时回收：已超过 ${this.staleAfterMs}ms（实际 ${staleMs ?? 'unknown'}ms）。`
 			);
+			getOksaiMetricsRecorder().incIntegrationOutboxReaperReclaimedTotal({
+				reaper: this.options.reaperName,
+				result
+			});
 			this.options.logger.warn(
 				{
 					tenantId: row.tenant_id,
 					eventId: row.event_id,
 					eventName: row.event_name,
+					result,
 					staleAfterMs: this.staleAfterMs,
 					staleMs,
 					durationMs: Date.now() - startedAt
@@ -159,7 +165,10 @@ export class IntegrationOutboxProcessingReaper {
 		}
 	}
 
-	private async markOutboxFailedOrDead(row: IntegrationOutboxProcessingRow, lastError: string): Promise<void> {
+	private async markOutboxFailedOrDead(
+		row: IntegrationOutboxProcessingRow,
+		lastError: string
+	): Promise<'failed' | 'dead'> {
 		const maxRetryCount = readOutboxMaxRetryCount();
 		const nextRetryCount = row.retry_count + 1;
 
@@ -177,7 +186,7 @@ export class IntegrationOutboxProcessingReaper {
 				[lastError.slice(0, 2000), row.event_id]
 			);
 			await this.tryInsertDeadLetter(row.event_id, lastError);
-			return;
+			return 'dead';
 		}
 
 		const nextSeconds = computeOutboxNextRetrySeconds(row.retry_count);
@@ -193,6 +202,7 @@ export class IntegrationOutboxProcessingReaper {
 			`,
 			[String(nextSeconds), lastError.slice(0, 2000), row.event_id]
 		);
+		return 'failed';
 	}
 
 	private async tryInsertDeadLetter(eventId: string, lastError: string): Promise<void> {
@@ -0,0 +1,104 @@
+import { createPgNotifyWakeSource, type PgListenClientLike } from './pg-notify-wake-source';
+
+function createMockClient() {
+	const handlers: Record<string, (arg?: unknown) => void> = {};
+	const client = {
+		query: jest.fn().mockResolvedValue(undefined),
+		on: jest.fn((event: string, listener: (arg?: unknown) => void) => {
+			handlers[event] = listener;
+		}),
+		end: jest.fn().mockResolvedValue(undefined)
+	};
+	return {
+		client: client as PgListenClientLike & typeof client,
+		emit: (event: string, arg?: unknown) => handlers[event]?.(arg)
+	};
+}
+
+async function flush(): Promise<void> {
+	for (let i = 0; i < 5; i++) await Promise.resolve();
+}
+
+describe('createPgNotifyWakeSource', () => {
+	const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+	beforeEach(() => {
+		jest.useFakeTimers();
+		jest.clearAllMocks();
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('should listen on channel, report listening and wake on matching notifications', async () => {
+		const mock = createMockClient();
+		const wake = jest.fn();
+		const onListeningChange = jest.fn();
+		const source = createPgNotifyWakeSource({ connect: async () => mock.client, logger });
+
+		source.start({ wake, onListeningChange });
+		await flush();
+
+		expect(mock.client.query).toHaveBeenCalledWith('listen integration_outbox');
+		expect(onListeningChange).toHaveBeenCalledWith(true);
+		expect(wake).toHaveBeenCalledTimes(1);
+
+		mock.emit('notification', { channel: 'integration_outbox', payload: '' });
+		mock.emit('notification', { channel: 'other' });
+		expect(wake).toHaveBeenCalledTimes(2);
+
+		source.stop();
+		expect(mock.client.end).toHaveBeenCalled();
+	});
+
+	it('should fall back and reconnect when connection drops', async () => {
+		const first = createMockClient();
+		const second = createMockClient();
+		const connect = jest.fn().mockResolvedValueOnce(first.client).mockResolvedValueOnce(second.client);
+		const onListeningChange = jest.fn();
+		const source = createPgNotifyWakeSource({ connect, logger, reconnectDelayMs: 1000 });
+
+		source.start({ wake: jest.fn(), onListeningChange });
+		await flush();
+		first.emit('error', new Error('connection terminated'));
+		first.emit('end');
+
+		expect(onListeningChange).toHaveBeenLastCalledWith(false);
+		expect(onListeningChange).toHaveBeenCalledTimes(2);
+		expect(logger.warn).toHaveBeenCalledTimes(1);
+		expect(first.client.end).toHaveBeenCalled();
+
+		jest.advanceTimersByTime(1000);
+		await flush();
+
+		expect(connect).toHaveBeenCalledTimes(2);
+		expect(second.client.query).toHaveBeenCalledWith('listen integration_outbox');
+		expect(onListeningChange).toHaveBeenLastCalledWith(true);
+
+		source.stop();
+	});
+
+	it('should retry when initial connect fails', async () => {
+		const mock = createMockClient();
+		const connect = jest.fn().mockRejectedValueOnce(new Error('ECONNREFUSED')).mockResolvedValueOnce(mock.client);
+		const onListeningChange = jest.fn();
+		const source = createPgNotifyWakeSource({ connect, logger, reconnectDelayMs: 500 });
+
+		source.start({ wake: jest.fn(), onListeningChange });
+		await flush();
+		expect(onListeningChange).toHaveBeenCalledWith(false);
+
+		jest.advanceTimersByTime(500);
+		await flush();
+		expect(onListeningChange).toHaveBeenLastCalledWith(true);
+
+		source.stop();
+	});
+
+	it('should reject invalid channel names', () => {
+		expect(() => createPgNotifyWakeSource({ channel: 'bad; drop', connect: jest.fn(), logger })).toThrow(
+			'LISTEN 通道名称不合法'
+		);
+	});
+});
@@ -0,0 +1,141 @@
+import type { PollingWorkerLogger, PollingWorkerWakeListener, PollingWorkerWakeSource } from './polling-worker';
+
+/**
+ * @description Postgres 通知消息（与 `pg` Notification 结构兼容）
+ */
+export interface PgNotificationLike {
+	channel: string;
+	payload?: string;
+}
+
+/**
+ * @description Postgres 监听连接（与 `pg` Client 结构兼容，避免 eda 直接依赖 pg）
+ */
+export interface PgListenClientLike {
+	query: (sql: string) => Promise<unknown>;
+	on: (event: 'notification' | 'error' | 'end', listener: (arg?: unknown) => void) => unknown;
+	end: () => Promise<void>;
+}
+
+/**
+ * @description Postgres LISTEN/NOTIFY 唤醒源配置选项
+ */
+export interface PgNotifyWakeSourceOptions {
+	/**
+	 * @description 监听的通知通道（默认 integration_outbox，与迁移 006 的触发器一致）
+	 */
+	channel?: string;
+
+	/**
+	 * @description 创建并连接一个独立的监听连接（不能使用连接池中的连接）
+	 */
+	connect: () => Promise<PgListenClientLike>;
+
+	/**
+	 * @description 监听断开后的重连间隔（ms，默认 5000）
+	 */
+	reconnectDelayMs?: number;
+
+	/**
+	 * @description 日志对象
+	 */
+	logger: PollingWorkerLogger;
+}
+
+export const DEFAULT_INTEGRATION_OUTBOX_NOTIFY_CHANNEL = 'integration_outbox';
+
+/**
+ * @description 创建基于 Postgres LISTEN/NOTIFY 的轮询 Worker 唤醒源
+ *
+ * 行为：
+ * - 连接成功并执行 LISTEN 后通知 Worker 进入监听模式，并立即唤醒一次（补齐断开期间写入的数据）
+ * - 收到对应通道的通知时唤醒 Worker
+ * - 连接出错或断开时通知 Worker 回退到常规轮询间隔，并按 reconnectDelayMs 重连
+ *
+ * @param options - 唤醒源配置
+ * @returns 唤醒源
+ * @throws Error 当通道名称不合法时抛出
+ */
+export function createPgNotifyWakeSource(options: PgNotifyWakeSourceOptions): PollingWorkerWakeSource {
+	const channel = options.channel ?? DEFAULT_INTEGRATION_OUTBOX_NOTIFY_CHANNEL;
+	if (!/^[a-z_][a-z0-9_]*$/.test(channel)) {
+		throw new Error(`LISTEN 通道名称不合法：${channel}（仅允许小写字母、数字与下划线）。`);
+	}
+	const reconnectDelayMs = options.reconnectDelayMs ?? 5000;
+
+	let listener: PollingWorkerWakeListener | null = null;
+	let client: PgListenClientLike | null = null;
+	let reconnectTimer: NodeJS.Timeout | null = null;
+	let generation = 0;
+
+	async function connect(current: number): Promise<void> {
+		let next: PgListenClientLike;
+		try {
+			next = await options.connect();
+		} catch (e) {
+			drop(current, e);
+			return;
+		}
+		if (current !== generation) {
+			void next.end().catch(() => undefined);
+			return;
+		}
+
+		client = next;
+		next.on('notification', (msg) => {
+			if (current === generation && (msg as PgNotificationLike | undefined)?.channel === channel) {
+				listener?.wake();
+			}
+		});
+		next.on('error', (e) => drop(current, e));
+		next.on('end', () => drop(current));
+
+		try {
+			await next.query(`listen ${channel}`);
+		} catch (e) {
+			drop(current, e);
+			return;
+		}
+		if (current !== generation) return;
+		listener?.onListeningChange(true);
+		listener?.wake();
+	}
+
+	function drop(current: number, err?: unknown): void {
+		if (current !== generation || !listener) return;
+		generation++;
+		options.logger.warn(
+			{ channel, err: err instanceof Error ? err.message : err === undefined ? undefined : String(err) },
+			`LISTEN ${channel} 连接已断开，${reconnectDelayMs}ms 后重连。`
+		);
+		release();
+		listener.onListeningChange(false);
+		const retry = generation;
+		reconnectTimer = setTimeout(() => {
+			reconnectTimer = null;
+			void connect(retry);
+		}, reconnectDelayMs);
+	}
+
+	function release(): void {
+		const old = client;
+		client = null;
+		void old?.end().catch(() => undefined);
+	}
+
+	function start(next: PollingWorkerWakeListener): void {
+		if (listener) return;
+		listener = next;
+		void connect(generation);
+	}
+
+	function stop(): void {
+		generation++;
+		listener = null;
+		if (reconnectTimer) clearTimeout(reconnectTimer);
+		reconnectTimer = null;
+		release();
+	}
+
+	return { start, stop };
+}
@@ -1,4 +1,4 @@
-import { createPollingWorker, readOptionalBooleanFromEnv } from './polling-worker';
+import { createPollingWorker, readOptionalBooleanFromEnv, type PollingWorkerWakeListener } from './polling-worker';
 
 describe('createPollingWorker', () => {
 	const logger = {
@@ -98,4 +98,131 @@ describe('createPollingWorker', () => {
 
 		expect(tick).toHaveBeenCalledWith(10);
 	});
+
+	it('should keep ticking while batches are full', async () => {
+		process.env.WORKER_ENABLED = 'true';
+		process.env.WORKER_POLL_INTERVAL_MS = '200';
+		process.env.WORKER_BATCH_SIZE = '10';
+
+		const tick = jest.fn().mockResolvedValueOnce(10).mockResolvedValueOnce(10).mockResolvedValue(3);
+		const worker = createPollingWorker({ workerName: 'W8', logger, tick });
+		worker.start();
+
+		await jest.advanceTimersByTimeAsync(200);
+		expect(tick).toHaveBeenCalledTimes(3);
+
+		await jest.advanceTimersByTimeAsync(200);
+		expect(tick).toHaveBeenCalledTimes(4);
+
+		worker.stop();
+	});
+
+	describe('wakeSource', () => {
+		function createWakeSource() {
+			let listener: PollingWorkerWakeListener | undefined;
+			const source = {
+				start: jest.fn((l: PollingWorkerWakeListener) => {
+					listener = l;
+				}),
+				stop: jest.fn()
+			};
+			return { source, listener: () => listener as PollingWorkerWakeListener };
+		}
+
+		beforeEach(() => {
+			process.env.WORKER_ENABLED = 'true';
+			process.env.WORKER_POLL_INTERVAL_MS = '200';
+		});
+
+		it('should tick immediately on wake and coalesce wakes while running', async () => {
+			let release: () => void = () => undefined;
+			const tick = jest.fn(() => new Promise<void>((resolve) => (release = resolve)));
+			const { source, listener } = createWakeSource();
+			const worker = createPollingWorker({ workerName: 'W5', logger, tick, wakeSource: source });
+			worker.start();
+
+			listener().wake();
+			listener().wake();
+			listener().wake();
+			expect(tick).toHaveBeenCalledTimes(1);
+
+			release();
+			await Promise.resolve();
+			await Promise.resolve();
+			expect(tick).toHaveBeenCalledTimes(2);
+
+			worker.stop();
+			expect(source.stop).toHaveBeenCalled();
+		});
+
+		it('should relax interval while listening and fall back when listener drops', async () => {
+			const tick = jest.fn().mockResolvedValue(undefined);
+			const { source, listener } = createWakeSource();
+			const worker = createPollingWorker({
+				workerName: 'W6',
+				logger,
+				tick,
+				wakeSource: source,
+				listeningIntervalMs: 5000
+			});
+			worker.start();
+
+			listener().onListeningChange(true);
+			expect(logger.log).toHaveBeenCalledWith('W6 唤醒监听已就绪，兜底轮询间隔 5000ms。');
+			jest.advanceTimersByTime(4999);
+			expect(tick).not.toHaveBeenCalled();
+			jest.advanceTimersByTime(1);
+			expect(tick).toHaveBeenCalledTimes(1);
+			await Promise.resolve();
+			await Promise.resolve();
+
+			listener().onListeningChange(false);
+			expect(logger.log).toHaveBeenCalledWith('W6 唤醒监听已断开，回退到轮询间隔 200ms。');
+			jest.advanceTimersByTime(200);
+			expect(tick).toHaveBeenCalledTimes(2);
+
+			worker.stop();
+		});
+
+		it('should keep the regular interval while delayed rows are pending', async () => {
+			const tick = jest.fn().mockResolvedValue(0);
+			const hasDelayedWork = jest.fn().mockResolvedValue(true);
+			const { source, listener } = createWakeSource();
+			const worker = createPollingWorker({
+				workerName: 'W9',
+				logger,
+				tick,
+				wakeSource: source,
+				listeningIntervalMs: 5000,
+				hasDelayedWork
+			});
+			worker.start();
+
+			listener().onListeningChange(true);
+			await jest.advanceTimersByTimeAsync(200);
+			expect(tick).toHaveBeenCalledTimes(1);
+
+			hasDelayedWork.mockResolvedValue(false);
+			await jest.advanceTimersByTimeAsync(200);
+			expect(tick).toHaveBeenCalledTimes(2);
+			await jest.advanceTimersByTimeAsync(4999);
+			expect(tick).toHaveBeenCalledTimes(2);
+			await jest.advanceTimersByTimeAsync(1);
+			expect(tick).toHaveBeenCalledTimes(3);
+
+			worker.stop();
+		});
+
+		it('should ignore wake after stop', () => {
+			const tick = jest.fn().mockResolvedValue(undefined);
+			const { source, listener } = createWakeSource();
+			const worker = createPollingWorker({ workerName: 'W7', logger, tick, wakeSource: source });
+			worker.start();
+			worker.stop();
+
+			listener().wake();
+
+			expect(tick).not.toHaveBeenCalled();
+		});
+	});
 });
@@ -51,6 +51,41 @@ export interface PollingWorkerLogger {
 	error(obj: unknown, msg?: string): void;
 }
 
+/**
+ * @description 唤醒源回调
+ */
+export interface PollingWorkerWakeListener {
+	/**
+	 * @description 立即触发一次 tick（执行中时合并为执行结束后再跑一次）
+	 */
+	wake: () => void;
+
+	/**
+	 * @description 监听状态变化（true：监听正常；false：监听断开，回退到常规轮询间隔）
+	 */
+	onListeningChange: (listening: boolean) => void;
+}
+
+/**
+ * @description 轮询 Worker 唤醒源（如 Postgres LISTEN/NOTIFY）
+ *
+ * 说明：
+ * - 唤醒源只负责"有新数据"的提示，不保证送达；轮询始终作为兜底
+ */
+export interface PollingWorkerWakeSource {
+	/**
+	 * @description 开始监听
+	 *
+	 * @param listener - 唤醒回调
+	 */
+	start: (listener: PollingWorkerWakeListener) => void;
+
+	/**
+	 * @description 停止监听并释放连接
+	 */
+	stop: () => void;
+}
+
 /**
  * @description 轮询 Worker 环境变量配置选项
  */
@@ -108,9 +143,34 @@ export interface PollingWorkerOptions extends PollingWorkerEnvOptions {
 	/**
 	 * @description 单次轮询处理逻辑
 	 *
+	 * 说明：
+	 * - 返回本批处理的条数时，达到 batchSize 视为仍有积压，立即再执行一次（直到不满一批）
+	 * - 返回 void 时不连续拉取，等待下一次轮询或唤醒
+	 * - 失败行会被立即再次拉取的实现（没有退避）不应返回条数，否则会空转
+	 *
 	 * @param batchSize - 已兜底/校验后的批处理大小
 	 */
-	tick: (batchSize: number) => Promise<void>;
+	tick: (batchSize: number) => Promise<number | void>;
+
+	/**
+	 * @description 是否存在未到期的延迟行（重试退避 next_retry_at / 定时投递 deliver_at）
+	 *
+	 * 说明：
+	 * - 延迟行到期不会触发唤醒；监听正常时每次 tick 结束后调用，返回 true 则保持常规轮询间隔，
+	 *   否则放宽到 listeningIntervalMs
+	 * - 调用失败时按 true 处理
+	 */
+	hasDelayedWork?: () => Promise<boolean>;
+
+	/**
+	 * @description 唤醒源（可选；收到通知时立即 tick，监听断开时回退到常规轮询间隔）
+	 */
+	wakeSource?: PollingWorkerWakeSource;
+
+	/**
+	 * @description 唤醒源监听正常且无延迟行时的兜底轮询间隔（ms，默认 30000；不小于常规轮询间隔）
+	 */
+	listeningIntervalMs?: number;
 }
 
 /**
@@ -134,10 +194,13 @@ export interface PollingWorkerController {
  * 设计目标：
  * - 统一启用开关、轮询间隔、batchSize 的 env 解析与兜底逻辑
  * - 降低各域 Worker 重复代码，避免参数校验与日志语义不一致
+ * - 配置 wakeSource 时由通知驱动，降低事件延迟与空闲时的数据库轮询压力
  *
  * 注意事项：
  * - 本工具只负责调度与兜底，不负责具体业务处理与幂等（交由 tick 实现）
  * - tick 内部发生异常时会被捕获并记录中文错误日志，避免阻塞后续轮询
+ * - tick 不会并发执行：执行中收到的轮询或唤醒合并为结束后再执行一次
+ * - tick 返回满批条数时立即继续处理积压，不等待下一次轮询
  *
  * @param options - 轮询 Worker 配置
  * @returns 控制器：start/stop
@@ -151,8 +214,14 @@ export function createPollingWorker(options: PollingWorkerOptions): PollingWorke
 	const defaultIntervalMs = options.defaultIntervalMs ?? 1000;
 	const defaultBatchSize = options.defaultBatchSize ?? 10;
 	const maxBatchSize = options.maxBatchSize ?? 200;
+	const listeningIntervalMs = options.listeningIntervalMs ?? 30000;
 
 	let timer: NodeJS.Timeout | null = null;
+	let intervalMs = defaultIntervalMs;
+	let scheduledMs = defaultIntervalMs;
+	let listening = false;
+	let running = false;
+	let rerun = false;
 
 	function start(): void {
 		if (timer) {
@@ -172,26 +241,100 @@ export function createPollingWorker(options: PollingWorkerOptions): PollingWorke
 		const safeIntervalMs = intervalCandidate >= minIntervalMs ? intervalCandidate : defaultIntervalMs;
 
 		options.logger.log(`${options.workerName} 已启用，轮询间隔 ${safeIntervalMs}ms。`);
-		timer = setInterval(() => void safeTick(), safeIntervalMs);
+		intervalMs = safeIntervalMs;
+		schedule(safeIntervalMs);
+
+		options.wakeSource?.start({
+			wake: () => {
+				if (timer) void runTick();
+			},
+			onListeningChange: (next) => {
+				if (!timer) return;
+				listening = next;
+				const nextMs = listening ? Math.max(listeningIntervalMs, intervalMs) : intervalMs;
+				options.logger.log(
+					listening
+						? `${options.workerName} 唤醒监听已就绪，兜底轮询间隔 ${nextMs}ms。`
+						: `${options.workerName} 唤醒监听已断开，回退到轮询间隔 ${nextMs}ms。`
+				);
+				schedule(nextMs);
+				if (listening && !running && options.hasDelayedWork) void refreshListeningInterval();
+			}
+		});
 	}
 
 	function stop(): void {
 		if (timer) clearInterval(timer);
 		timer = null;
+		listening = false;
+		options.wakeSource?.stop();
+	}
+
+	function schedule(ms: number): void {
+		if (timer) clearInterval(timer);
+		scheduledMs = ms;
+		timer = setInterval(() => void runTick(), ms);
+	}
+
+	/**
+	 * 监听正常时按是否存在延迟行选择轮询间隔（延迟行到期不会触发唤醒）
+	 */
+	async function refreshListeningInterval(): Promise<void> {
+		if (!options.hasDelayedWork) return;
+
+		let delayed = true;
+		try {
+			delayed = await options.hasDelayedWork();
+		} catch (e) {
+			options.logger.error(
+				{ err: e instanceof Error ? e.message : String(e) },
+				`${options.workerName} 查询延迟行失败，保持常规轮询间隔。`
+			);
+		}
+
+		if (!timer || !listening) return;
+		const nextMs = delayed ? intervalMs : Math.max(listeningIntervalMs, intervalMs);
+		if (nextMs !== scheduledMs) schedule(nextMs);
+	}
+
+	async function runTick(): Promise<void> {
+		if (running) {
+			rerun = true;
+			return;
+		}
+		running = true;
+		try {
+			do {
+				rerun = false;
+				const batchSize = readBatchSize();
+				// 满批说明可能仍有积压：立即再处理一批
+				if ((await safeTick(batchSize)) >= batchSize) rerun = true;
+			} while (rerun && timer);
+			if (listening && options.hasDelayedWork) await refreshListeningInterval();
+		} finally {
+			running = false;
+		}
 	}
 
-	async function safeTick(): Promise<void> {
+	function readBatchSize(): number {
 		const rawBatchSize = Number(process.env[batchSizeKey] ?? defaultBatchSize);
 		const batchCandidate = Number.isFinite(rawBatchSize) ? Math.floor(rawBatchSize) : defaultBatchSize;
-		const safeBatchSize = batchCandidate > 0 && batchCandidate <= maxBatchSize ? batchCandidate : defaultBatchSize;
+		return batchCandidate > 0 && batchCandidate <= maxBatchSize ? batchCandidate : defaultBatchSize;
+	}
 
+	/**
+	 * @returns 本批处理条数（tick 未返回条数或失败时为 0）
+	 */
+	async function safeTick(batchSize: number): Promise<number> {
 		try {
-			await options.tick(safeBatchSize);
+			const processed = await options.tick(batchSize);
+			return typeof processed === 'number' ? processed : 0;
 		} catch (e) {
 			options.logger.error(
 				{ err: e instanceof Error ? e.message : String(e) },
 				`${options.workerName} 执行 tick 失败。`
 			);
+			return 0;
 		}
 	}
 
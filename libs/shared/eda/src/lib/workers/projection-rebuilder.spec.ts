@@ -0,0 +1,264 @@
+import { IntegrationProjectionRebuilder } from './projection-rebuilder';
+import type { IOksaiIntegrationEventSubscriber } from '../subscriber/integration-event-subscriber.interface';
+
+function createRow(eventId: string, overrides: Record<string, unknown> = {}) {
+	return {
+		seq: eventId.replace('e-', ''),
+		event_id: eventId,
+		tenant_id: 'tenant-1',
+		event_name: 'TestEvent',
+		event_version: 1,
+		partition_key: 'tenant-1',
+		payload: {
+			eventId,
+			eventName: 'TestEvent',
+			eventVersion: 1,
+			tenantId: 'tenant-1',
+			partitionKey: 'tenant-1',
+			occurredAt: '2026-01-01T00:00:00.000Z'
+		},
+		occurred_at: new Date('2026-01-01T00:00:00.000Z'),
+		...overrides
+	};
+}
+
+/**
+ * 创建 Mock EntityManager：按 SQL 类型路由返回值
+ */
+function createMockEntityManager(pages: unknown[][], total = 0, archived = 0) {
+	const calls: Array<{ sql: string; params: unknown[] }> = [];
+	const remaining = [...pages];
+	const execute = jest.fn(async (sql: string, params: unknown[]) => {
+		calls.push({ sql, params });
+		if (sql.includes('from integration_outbox_archive')) return [{ total: archived }];
+		if (sql.includes('count(*)')) return [{ total }];
+		if (sql.trim().startsWith('select')) return remaining.shift() ?? [];
+		return [];
+	});
+	const conn = { execute };
+	return {
+		calls,
+		em: {
+			getConnection: jest.fn(() => conn),
+			transactional: jest.fn(async (fn: (tem: unknown) => Promise<unknown>) => fn({ getConnection: () => conn }))
+		}
+	};
+}
+
+function createMockLogger() {
+	return { debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+}
+
+describe('IntegrationProjectionRebuilder', () => {
+	it('should clear consumer state, reset read model and replay in keyset pages', async () => {
+		const mock = createMockEntityManager([[createRow('e-1'), createRow('e-2')], [createRow('e-3')]], 3);
+		const order: string[] = [];
+		const handleEvent = jest.fn(async ({ row }) => {
+			order.push(`handle:${row.event_id}`);
+		});
+		const resetReadModel = jest.fn(async () => {
+			order.push('reset');
+		});
+		const onProgress = jest.fn();
+		const rebuilder = new IntegrationProjectionRebuilder({
+			consumerName: 'platform-api.projection.users',
+			eventNames: ['TestEvent'],
+			em: mock.em as any,
+			logger: createMockLogger(),
+			handleEvent,
+			resetReadModel,
+			batchSize: 2,
+			onProgress
+		});
+		const occurredFrom = new Date('2026-01-01T00:00:00.000Z');
+
+		const result = await rebuilder.rebuild({ tenantId: 'tenant-1', occurredFrom });
+
+		expect(result).toEqual({
+			consumerName: 'platform-api.projection.users',
+			total: 3,
+			processed: 3,
+			failed: 0,
+			archived: 0,
+			lastEventId: 'e-3',
+			done: true
+		});
+		expect(order).toEqual(['reset', 'handle:e-1', 'handle:e-2', 'handle:e-3']);
+		expect(resetReadModel).toHaveBeenCalledWith({ tenantId: 'tenant-1', occurredFrom });
+		expect(onProgress.mock.calls.map((c) => c[0].processed)).toEqual([2, 3]);
+
+		const inboxDelete = mock.calls.find((c) => c.sql.includes('delete from integration_inbox_processed'));
+		expect(inboxDelete?.sql).toContain('o.tenant_id = ?');
+		expect(inboxDelete?.params).toEqual(['platform-api.projection.users', ['TestEvent'], 'tenant-1', occurredFrom]);
+		expect(mock.calls.some((c) => c.sql.includes('integration_event_subscriber_retry_state'))).toBe(false);
+
+		const selects = mock.calls.filter(
+			(c) => c.sql.includes('from integration_outbox o') && c.sql.includes('limit ?')
+		);
+		expect(selects[0].sql).toContain('order by o.seq asc');
+		expect(selects[1].sql).toContain('o.seq > ?');
+		expect(selects[1].params.slice(-2)).toEqual(['2', 2]);
+
+		const inboxInserts = mock.calls.filter((c) => c.sql.includes('insert into integration_inbox_processed'));
+		expect(inboxInserts).toHaveLength(3);
+	});
+
+	it('should not replay rows twice when batches share the same occurred_at', async () => {
+		// 模拟数据库按 seq 游标分页：全部事件 occurred_at 相同
+		const table = ['e-1', 'e-2', 'e-3', 'e-4', 'e-5'].map((id) => createRow(id));
+		const execute = jest.fn(async (sql: string, params: unknown[]) => {
+			if (sql.includes('from integration_outbox_archive')) return [{ total: 0 }];
+			if (sql.includes('count(*)')) return [{ total: table.length }];
+			if (!sql.trim().startsWith('select')) return [];
+			const limit = params[params.length - 1] as number;
+			const after = sql.includes('o.seq > ?') ? Number(params[params.length - 2]) : 0;
+			return table.filter((r) => Number(r.seq) > after).slice(0, limit);
+		});
+		const conn = { execute };
+		const handled: string[] = [];
+		const rebuilder = new IntegrationProjectionRebuilder({
+			consumerName: 'c1',
+			eventNames: ['TestEvent'],
+			em: {
+				getConnection: () => conn,
+				transactional: async (fn: any) => fn({ getConnection: () => conn })
+			} as any,
+			logger: createMockLogger(),
+			handleEvent: async ({ row }) => void handled.push(row.event_id),
+			batchSize: 2
+		});
+
+		const result = await rebuilder.rebuild();
+
+		expect(handled).toEqual(['e-1', 'e-2', 'e-3', 'e-4', 'e-5']);
+		expect(result).toMatchObject({ processed: 5, failed: 0, done: true });
+	});
+
+	it('should count failures without marking inbox and continue', async () => {
+		const mock = createMockEntityManager([[createRow('e-1'), createRow('e-2')]], 2);
+		const handleEvent = jest.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValueOnce(undefined);
+		const logger = createMockLogger();
+		const rebuilder = new IntegrationProjectionRebuilder({
+			consumerName: 'c1',
+			eventNames: ['TestEvent'],
+			em: mock.em as any,
+			logger,
+			handleEvent
+		});
+
+		const result = await rebuilder.rebuild();
+
+		expect(result).toMatchObject({ processed: 1, failed: 1, done: true });
+		const inserts = mock.calls.filter((c) => c.sql.includes('insert into integration_inbox_processed'));
+		expect(inserts.map((c) => c.params[2])).toEqual(['e-2']);
+		expect(logger.error).toHaveBeenCalledTimes(1);
+	});
+
+	it('should refuse to rebuild when events in scope were archived', async () => {
+		const mock = createMockEntityManager([[createRow('e-1')]], 1, 4);
+		const handleEvent = jest.fn();
+		const resetReadModel = jest.fn();
+		const rebuilder = new IntegrationProjectionRebuilder({
+			consumerName: 'c1',
+			eventNames: ['TestEvent'],
+			em: mock.em as any,
+			logger: createMockLogger(),
+			handleEvent,
+			resetReadModel
+		});
+
+		await expect(rebuilder.rebuild({ tenantId: 'tenant-1' })).rejects.toThrow('范围内有 4 条事件已被归档');
+
+		const archiveCount = mock.calls.find((c) => c.sql.includes('from integration_outbox_archive'));
+		expect(archiveCount?.sql).not.toContain('o.status');
+		expect(archiveCount?.params).toEqual([['TestEvent'], 'tenant-1']);
+		expect(mock.calls.some((c) => c.sql.includes('delete from'))).toBe(false);
+		expect(resetReadModel).not.toHaveBeenCalled();
+		expect(handleEvent).not.toHaveBeenCalled();
+	});
+
+	it('should report the archived gap when allowArchivedGap is set', async () => {
+		const mock = createMockEntityManager([[createRow('e-1')]], 1, 4);
+		const logger = createMockLogger();
+		const rebuilder = new IntegrationProjectionRebuilder({
+			consumerName: 'c1',
+			eventNames: ['TestEvent'],
+			em: mock.em as any,
+			logger,
+			handleEvent: jest.fn()
+		});
+
+		const result = await rebuilder.rebuild({}, { allowArchivedGap: true });
+
+		expect(result).toMatchObject({ total: 1, processed: 1, archived: 4, done: true });
+		expect(logger.warn).toHaveBeenCalledWith(
+			expect.objectContaining({ archived: 4 }),
+			expect.stringContaining('将不会重放')
+		);
+	});
+
+	it('should skip reset when resetReadModel is false', async () => {
+		const mock = createMockEntityManager([[]]);
+		const resetReadModel = jest.fn();
+		const rebuilder = new IntegrationProjectionRebuilder({
+			consumerName: 'c1',
+			eventNames: ['TestEvent'],
+			em: mock.em as any,
+			logger: createMockLogger(),
+			handleEvent: jest.fn(),
+			resetReadModel
+		});
+
+		await rebuilder.rebuild({}, { resetReadModel: false });
+
+		expect(resetReadModel).not.toHaveBeenCalled();
+	});
+
+	it('should reject invalid batch size', () => {
+		expect(
+			() =>
+				new IntegrationProjectionRebuilder({
+					consumerName: 'c1',
+					eventNames: ['TestEvent'],
+					em: {} as any,
+					logger: createMockLogger(),
+					handleEvent: jest.fn(),
+					batchSize: 0
+				})
+		).toThrow('batchSize 必须为正整数');
+	});
+
+	describe('forSubscriber', () => {
+		it('should derive consumerName, clear retry state and use subscriber hooks', async () => {
+			const handle = jest.fn().mockResolvedValue(undefined);
+			const reset = jest.fn().mockResolvedValue(undefined);
+			const sub: IOksaiIntegrationEventSubscriber = {
+				subscriberName: 'demo.sub',
+				eventName: 'TestEvent',
+				eventVersion: 1,
+				handle,
+				reset
+			};
+			const logger = createMockLogger();
+			const v2 = createRow('e-2', { event_version: 2 });
+			const rows = [createRow('e-1'), { ...v2, payload: { ...v2.payload, eventVersion: 2 } }];
+			const pagedMock = createMockEntityManager([rows], 2);
+
+			const result = await IntegrationProjectionRebuilder.forSubscriber(sub, {
+				consumerNamePrefix: 'platform-api.plugin',
+				em: pagedMock.em as any,
+				logger
+			}).rebuild({ tenantId: 'tenant-1' });
+
+			expect(result.consumerName).toBe('platform-api.plugin.demo.sub');
+			expect(reset).toHaveBeenCalledWith({ tenantId: 'tenant-1', logger });
+			expect(handle).toHaveBeenCalledTimes(1);
+			expect(handle.mock.calls[0][0].envelope.eventId).toBe('e-1');
+			const retryDelete = pagedMock.calls.find((c) =>
+				c.sql.includes('delete from integration_event_subscriber_retry_state')
+			);
+			expect(retryDelete?.params[0]).toBe('demo.sub');
+			expect(result).toMatchObject({ processed: 2, failed: 0 });
+		});
+	});
+});
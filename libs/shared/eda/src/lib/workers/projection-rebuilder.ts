@@ -0,0 +1,424 @@
+import { randomUUID } from 'crypto';
+import type { EntityManager } from '@mikro-orm/core';
+import type { OksaiIntegrationEvent } from '@oksai/contracts';
+import { withOksaiWorkerContextFromJob } from '../context/worker-context.util';
+import { parseIntegrationEventEnvelopeFromOutboxRow } from '../outbox/outbox-envelope';
+import type { OutboxLogger } from '../outbox/outbox-processor';
+import type { IOksaiIntegrationEventSubscriber } from '../subscriber/integration-event-subscriber.interface';
+import type { PublishedIntegrationOutboxRow } from './outbox-projection-processor';
+
+/**
+ * @description 重建范围（均为可选；全部缺省表示该 consumerName 的全部历史）
+ */
+export interface IntegrationProjectionRebuildScope {
+	/**
+	 * @description 仅重建指定租户
+	 */
+	tenantId?: string;
+
+	/**
+	 * @description 事件发生时间下界（包含）
+	 */
+	occurredFrom?: Date;
+
+	/**
+	 * @description 事件发生时间上界（不包含）
+	 */
+	occurredTo?: Date;
+}
+
+/**
+ * @description 重建进度
+ */
+export interface IntegrationProjectionRebuildProgress {
+	consumerName: string;
+
+	/**
+	 * @description 范围内 published 事件总数（开始重放前统计）
+	 */
+	total: number;
+
+	/**
+	 * @description 已处理成功的事件数
+	 */
+	processed: number;
+
+	/**
+	 * @description 处理失败的事件数（未写入 inbox_processed，由常规处理器后续重试）
+	 */
+	failed: number;
+
+	/**
+	 * @description 范围内已被 IntegrationOutboxArchiver 归档、未重放的事件数（大于 0 表示读模型基于不完整的历史）
+	 */
+	archived: number;
+
+	/**
+	 * @description 最后处理的事件 ID
+	 */
+	lastEventId?: string;
+
+	/**
+	 * @description 是否已完成
+	 */
+	done: boolean;
+}
+
+/**
+ * @description 投影重建器配置选项
+ */
+export interface IntegrationProjectionRebuilderOptions {
+	/**
+	 * @description 消费者名称（与投影处理器一致；其 inbox_processed 将被清理后重放）
+	 */
+	consumerName: string;
+
+	/**
+	 * @description 订阅者名称（可选；设置时同时清理 integration_event_subscriber_retry_state）
+	 */
+	subscriberName?: string;
+
+	/**
+	 * @description 重放的 eventName 列表
+	 */
+	eventNames: string[];
+
+	/**
+	 * @description MikroORM EntityManager
+	 */
+	em: EntityManager;
+
+	/**
+	 * @description 日志对象
+	 */
+	logger: OutboxLogger;
+
+	/**
+	 * @description 业务处理函数（在 CLS 上下文中运行；与投影处理器的 handleEvent 相同）
+	 */
+	handleEvent: (input: { row: PublishedIntegrationOutboxRow; envelope: OksaiIntegrationEvent }) => Promise<void>;
+
+	/**
+	 * @description 清空读模型（可选；在清理 inbox 之后、重放之前调用）
+	 */
+	resetReadModel?: (scope: IntegrationProjectionRebuildScope) => Promise<void>;
+
+	/**
+	 * @description 每批重放条数（默认 100）
+	 */
+	batchSize?: number;
+
+	/**
+	 * @description 批次间暂停毫秒数（默认 0），用于限制重建对数据库与下游的压力
+	 */
+	throttleMs?: number;
+
+	/**
+	 * @description 进度回调（每批结束及完成时调用）
+	 */
+	onProgress?: (progress: IntegrationProjectionRebuildProgress) => void;
+}
+
+/**
+ * @description 基于订阅者创建重建器的配置选项
+ */
+export type IntegrationSubscriberRebuilderOptions = Omit<
+	IntegrationProjectionRebuilderOptions,
+	'consumerName' | 'subscriberName' | 'eventNames' | 'handleEvent' | 'resetReadModel'
+> & {
+	/**
+	 * @description consumerName 前缀（与 IntegrationEventSubscriberProjectionProcessor 一致）
+	 */
+	consumerNamePrefix: string;
+};
+
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * seq 为 bigint，pg 驱动返回字符串，原样作为游标参数回传
+ */
+type RebuildOutboxRow = PublishedIntegrationOutboxRow & { seq: string | number };
+
+/**
+ * @description 集成事件投影重建器
+ *
+ * 使用场景：
+ * - 修复投影缺陷后重新计算读模型
+ * - 新增 `IOksaiIntegrationEventSubscriber` 后补处理历史事件
+ *
+ * 重建步骤：
+ * 1. 统计范围内 published 事件总数
+ * 2. 清理该 consumerName 在范围内的 inbox_processed（及订阅者 retry_state）
+ * 3. 调用 `resetReadModel`（可选）清空读模型
+ * 4. 按 seq 顺序分批重放 published 事件，成功后写入 inbox_processed
+ *
+ * 注意事项：
+ * - 不修改 outbox 状态（与投影处理器一致）
+ * - 重建期间建议停止同一 consumerName 的常规处理器，避免与重放并发处理同一事件
+ * - 单条失败不中断重建：不写入 inbox_processed，由常规处理器后续重试
+ * - 分页游标使用单调递增的 seq 列（见 migrations/004-integration-outbox-partition-order.sql）：
+ *   occurred_at 在 JS 中只有毫秒精度，同一时刻的多条事件跨批次时会被重复处理或漏处理
+ * - 只重放 integration_outbox：范围内已有事件被归档到 integration_outbox_archive 时默认拒绝重建
+ *   （`allowArchivedGap: true` 时继续并在 `archived` 中报告缺口）；`archiveToTable: false` 或归档分区已删除时无法检测，
+ *   重建范围应限制在归档保留期内
+ */
+export class IntegrationProjectionRebuilder {
+	private readonly batchSize: number;
+
+	constructor(private readonly options: IntegrationProjectionRebuilderOptions) {
+		this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+		if (!Number.isInteger(this.batchSize) || this.batchSize <= 0) {
+			throw new Error(`投影重建 ${options.consumerName} 的 batchSize 必须为正整数，实际为 ${this.batchSize}。`);
+		}
+	}
+
+	/**
+	 * @description 基于插件订阅者创建重建器（consumerName、eventName、版本过滤与订阅者处理器一致）
+	 *
+	 * @param sub - 订阅者实例
+	 * @param options - 重建配置
+	 * @returns 重建器
+	 */
+	static forSubscriber(
+		sub: IOksaiIntegrationEventSubscriber,
+		options: IntegrationSubscriberRebuilderOptions
+	): IntegrationProjectionRebuilder {
+		const { consumerNamePrefix, ...rest } = options;
+		const reset = sub.reset?.bind(sub);
+		return new IntegrationProjectionRebuilder({
+			...rest,
+			consumerName: `${consumerNamePrefix}.${sub.subscriberName}`,
+			subscriberName: sub.subscriberName,
+			eventNames: [sub.eventName],
+			handleEvent: async ({ envelope }) => {
+				if (sub.eventVersion !== undefined && envelope.eventVersion !== sub.eventVersion) return;
+				await sub.handle({ envelope, logger: options.logger });
+			},
+			resetReadModel: reset ? (scope) => reset({ ...scope, logger: options.logger }) : undefined
+		});
+	}
+
+	/**
+	 * @description 执行重建
+	 *
+	 * @param scope - 重建范围
+	 * @param options - resetReadModel：是否清空读模型（默认 true；读模型写入为幂等 upsert 时可跳过）；
+	 *   allowArchivedGap：范围内已有事件被归档时是否仍然重建（默认 false）
+	 * @returns 最终进度
+	 * @throws Error 范围内已有事件被归档且未设置 allowArchivedGap 时（此时未清理任何状态）
+	 */
+	async rebuild(
+		scope: IntegrationProjectionRebuildScope = {},
+		options: { resetReadModel?: boolean; allowArchivedGap?: boolean } = {}
+	): Promise<IntegrationProjectionRebuildProgress> {
+		const archived = await this.countRows(scope, 'integration_outbox_archive');
+		if (archived > 0) {
+			if (!options.allowArchivedGap) {
+				throw new Error(
+					`投影重建 ${this.options.consumerName} 已拒绝：范围内有 ${archived} 条事件已被归档，` +
+						`integration_outbox 中的历史不完整（缩小范围或设置 allowArchivedGap 后重试）。`
+				);
+			}
+			this.options.logger.warn(
+				{ consumerName: this.options.consumerName, ...scope, archived },
+				`投影重建 ${this.options.consumerName}：范围内有 ${archived} 条事件已被归档，将不会重放。`
+			);
+		}
+
+		const progress: IntegrationProjectionRebuildProgress = {
+			consumerName: this.options.consumerName,
+			total: await this.countRows(scope, 'integration_outbox'),
+			processed: 0,
+			failed: 0,
+			archived,
+			done: false
+		};
+
+		await this.clearConsumerState(scope);
+		if (options.resetReadModel !== false) {
+			await this.options.resetReadModel?.(scope);
+		}
+		this.options.logger.warn(
+			{ consumerName: this.options.consumerName, ...scope, total: progress.total },
+			`投影重建开始：已清理 ${this.options.consumerName} 的处理记录。`
+		);
+
+		let cursor: string | number | undefined;
+		for (;;) {
+			const rows = await this.fetchRows(scope, cursor);
+			for (const row of rows) {
+				if (await this.replayOne(row)) progress.processed++;
+				else progress.failed++;
+				progress.lastEventId = row.event_id;
+			}
+
+			if (rows.length < this.batchSize) break;
+			cursor = rows[rows.length - 1].seq;
+			this.options.onProgress?.({ ...progress });
+			if (this.options.throttleMs && this.options.throttleMs > 0) {
+				await sleep(this.options.throttleMs);
+			}
+		}
+
+		progress.done = true;
+		this.options.onProgress?.({ ...progress });
+		this.options.logger.warn(
+			{ ...scope, ...progress },
+			`投影重建完成：${this.options.consumerName} 成功 ${progress.processed} 条，失败 ${progress.failed} 条。`
+		);
+		return progress;
+	}
+
+	private async replayOne(row: PublishedIntegrationOutboxRow): Promise<boolean> {
+		let envelope: OksaiIntegrationEvent;
+		try {
+			envelope = parseIntegrationEventEnvelopeFromOutboxRow(row, row.payload);
+		} catch (e) {
+			await this.markInboxProcessed(row.tenant_id, row.event_id);
+			this.options.logger.error(
+				{ eventId: row.event_id, eventName: row.event_name, err: e instanceof Error ? e.message : String(e) },
+				`投影重建 ${this.options.consumerName} 事件信封校验失败：已跳过并标记 inbox_processed。`
+			);
+			return false;
+		}
+
+		const run = withOksaiWorkerContextFromJob(async () => {
+			await this.options.handleEvent({ row, envelope });
+			await this.markInboxProcessed(row.tenant_id, row.event_id);
+		});
+
+		try {
+			await run({
+				tenantId: row.tenant_id,
+				userId: envelope.actorId,
+				requestId: envelope.requestId ?? row.event_id,
+				locale: envelope.locale,
+				eventId: row.event_id,
+				eventName: row.event_name,
+				eventVersion: row.event_version
+			});
+			return true;
+		} catch (e) {
+			this.options.logger.error(
+				{
+					tenantId: row.tenant_id,
+					eventId: row.event_id,
+					eventName: row.event_name,
+					err: e instanceof Error ? e.message : String(e)
+				},
+				`投影重建 ${this.options.consumerName} 处理失败（未写入 inbox_processed，将由常规处理器重试）。`
+			);
+			return false;
+		}
+	}
+
+	private buildScopeConditions(
+		scope: IntegrationProjectionRebuildScope,
+		table: 'integration_outbox' | 'integration_outbox_archive' = 'integration_outbox'
+	): { sql: string; params: unknown[] } {
+		// 归档表只包含 published 事件，没有 status 列
+		const conditions: string[] = [
+			...(table === 'integration_outbox' ? [`o.status = 'published'`] : []),
+			'o.event_name = any(cast(? as text[]))'
+		];
+		const params: unknown[] = [this.options.eventNames];
+		if (scope.tenantId) {
+			conditions.push('o.tenant_id = ?');
+			params.push(scope.tenantId);
+		}
+		if (scope.occurredFrom) {
+			conditions.push('o.occurred_at >= ?');
+			params.push(scope.occurredFrom);
+		}
+		if (scope.occurredTo) {
+			conditions.push('o.occurred_at < ?');
+			params.push(scope.occurredTo);
+		}
+		return { sql: conditions.join(' and '), params };
+	}
+
+	private async countRows(
+		scope: IntegrationProjectionRebuildScope,
+		table: 'integration_outbox' | 'integration_outbox_archive'
+	): Promise<number> {
+		const where = this.buildScopeConditions(scope, table);
+		const rows = (await this.options.em
+			.getConnection()
+			.execute(`select count(*)::int as total from ${table} o where ${where.sql}`, where.params)) as Array<{
+			total: number | string;
+		}>;
+		return Number(rows[0]?.total ?? 0);
+	}
+
+	private async clearConsumerState(scope: IntegrationProjectionRebuildScope): Promise<void> {
+		const where = this.buildScopeConditions(scope);
+		await this.options.em.transactional(async (tem) => {
+			const conn = tem.getConnection();
+			await conn.execute(
+				`
+				delete from integration_inbox_processed i
+				using integration_outbox o
+				where i.consumer_name = ?
+					and o.event_id = i.event_id
+					and ${where.sql}
+				`,
+				[this.options.consumerName, ...where.params]
+			);
+			if (this.options.subscriberName) {
+				await conn.execute(
+					`
+					delete from integration_event_subscriber_retry_state r
+					using integration_outbox o
+					where r.subscriber_name = ?
+						and o.event_id = r.event_id
+						and ${where.sql}
+					`,
+					[this.options.subscriberName, ...where.params]
+				);
+			}
+		});
+	}
+
+	private async fetchRows(
+		scope: IntegrationProjectionRebuildScope,
+		cursor?: string | number
+	): Promise<RebuildOutboxRow[]> {
+		const where = this.buildScopeConditions(scope);
+		const cursorSql = cursor === undefined ? '' : 'and o.seq > ?';
+		const cursorParams = cursor === undefined ? [] : [cursor];
+		return (await this.options.em.getConnection().execute(
+			`
+			select
+				o.event_id,
+				o.tenant_id,
+				o.event_name,
+				o.event_version,
+				o.partition_key,
+				o.payload,
+				o.occurred_at,
+				o.seq
+			from integration_outbox o
+			where ${where.sql}
+				${cursorSql}
+			order by o.seq asc
+			limit ?
+			`,
+			[...where.params, ...cursorParams, this.batchSize]
+		)) as RebuildOutboxRow[];
+	}
+
+	private async markInboxProcessed(tenantId: string, eventId: string): Promise<void> {
+		await this.options.em.getConnection().execute(
+			`
+			insert into integration_inbox_processed (id, tenant_id, event_id, consumer_name, processed_at)
+			values (?, ?, ?, ?, now())
+			on conflict (event_id, consumer_name) do nothing
+			`,
+			[randomUUID(), tenantId, eventId, this.options.consumerName]
+		);
+	}
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,231 @@
+import type { EntityManager } from '@mikro-orm/core';
+import type { ModuleRef } from '@nestjs/core';
+import * as metrics from '../metrics/eda.metrics';
+import type { IOksaiIntegrationEventSubscriber } from '../subscriber/integration-event-subscriber.interface';
+import { IntegrationEventSubscriberProjectionProcessor } from './subscriber-projection-processor';
+
+function createRow(eventId: string, eventName: string, partitionKey = 'pk-1') {
+	return {
+		event_id: eventId,
+		tenant_id: 'tenant-1',
+		event_name: eventName,
+		event_version: 1,
+		partition_key: partitionKey,
+		occurred_at: new Date(),
+		payload: {
+			tenantId: 'tenant-1',
+			eventId,
+			eventName,
+			eventVersion: 1,
+			actorId: 'user-1',
+			requestId: 'req-1',
+			partitionKey,
+			occurredAt: new Date().toISOString()
+		}
+	};
+}
+
+/**
+ * 按 SQL 片段路由的 Mock Connection：paused 为已暂停的订阅者，rowsByEvent 为各事件的待处理行
+ */
+function createHarness(input: { paused?: string[]; rowsByEvent: Record<string, ReturnType<typeof createRow>[]> }) {
+	const execute = jest.fn(async (sql: string, params: unknown[]) => {
+		if (sql.includes('from integration_event_subscriber_control')) {
+			return (input.paused ?? []).map((subscriber_name) => ({ subscriber_name }));
+		}
+		if (sql.includes('from integration_outbox o')) {
+			return (input.rowsByEvent[params[2] as string] ?? []).slice(0, params[3] as number);
+		}
+		if (sql.includes('returning retry_count')) return [{ retry_count: 1 }];
+		return [];
+	});
+	const em = { getConnection: () => ({ execute }) } as unknown as EntityManager;
+	const logger = { debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+	return { execute, em, logger };
+}
+
+function createSubscriber(
+	subscriberName: string,
+	eventName: string,
+	handle: IOksaiIntegrationEventSubscriber['handle'],
+	extra: Partial<IOksaiIntegrationEventSubscriber> = {}
+): IOksaiIntegrationEventSubscriber {
+	return { subscriberName, eventName, handle: jest.fn(handle), ...extra };
+}
+
+function createProcessor(
+	harness: ReturnType<typeof createHarness>,
+	subscribers: IOksaiIntegrationEventSubscriber[],
+	options: Partial<ConstructorParameters<typeof IntegrationEventSubscriberProjectionProcessor>[0]> = {}
+) {
+	const types = subscribers.map((_, i) => ({ index: i }) as unknown as new () => unknown);
+	const moduleRef = {
+		get: (type: { index: number }) => subscribers[type.index]
+	} as unknown as ModuleRef;
+	return new IntegrationEventSubscriberProjectionProcessor({
+		processorName: 'PluginProcessor',
+		consumerNamePrefix: 'platform-api.plugin',
+		em: harness.em,
+		logger: harness.logger,
+		moduleRef,
+		subscriberTypes: types,
+		...options
+	});
+}
+
+describe('IntegrationEventSubscriberProjectionProcessor', () => {
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('should skip paused subscribers and keep processing the others', async () => {
+		const harness = createHarness({
+			paused: ['a'],
+			rowsByEvent: { 'tenant.created': [createRow('e-1', 'tenant.created')] }
+		});
+		const a = createSubscriber('a', 'tenant.created', async () => undefined);
+		const b = createSubscriber('b', 'tenant.created', async () => undefined);
+
+		await createProcessor(harness, [a, b]).processBatch(10);
+
+		expect(a.handle).not.toHaveBeenCalled();
+		expect(b.handle).toHaveBeenCalledTimes(1);
+		expect(harness.execute).toHaveBeenCalledWith(
+			expect.stringContaining('insert into integration_inbox_processed'),
+			[expect.any(String), 'tenant-1', 'e-1', 'platform-api.plugin.b']
+		);
+	});
+
+	it('should open the circuit after consecutive failures and stop invoking the subscriber', async () => {
+		const recorder = { recordIntegrationSubscriberCircuitState: jest.fn() };
+		jest.spyOn(metrics, 'getOksaiMetricsRecorder').mockReturnValue({
+			...jest.requireActual<typeof metrics>('../metrics/eda.metrics').getOksaiMetricsRecorder(),
+			...recorder
+		});
+		const rows = ['e-1', 'e-2', 'e-3', 'e-4'].map((id) => createRow(id, 'tenant.created'));
+		const harness = createHarness({ rowsByEvent: { 'tenant.created': rows } });
+		const failing = createSubscriber('failing', 'tenant.created', async () => {
+			throw new Error('downstream unavailable');
+		});
+		const processor = createProcessor(harness, [failing], {
+			circuitBreaker: { failureThreshold: 2, openDurationMs: 60_000 }
+		});
+
+		await processor.processBatch(10);
+		await processor.processBatch(10);
+
+		expect(failing.handle).toHaveBeenCalledTimes(2);
+		expect(processor.getCircuitState('failing')).toBe('open');
+		expect(recorder.recordIntegrationSubscriberCircuitState).toHaveBeenCalledWith({
+			processor: 'PluginProcessor',
+			subscriber: 'failing',
+			state: 'open'
+		});
+		expect(harness.logger.warn).toHaveBeenCalledWith(
+			{ subscriberName: 'failing', from: 'closed', to: 'open' },
+			'PluginProcessor 订阅者连续失败：已熔断，熔断期间不再调用该订阅者。'
+		);
+	});
+
+	it('should probe a single event in half_open and close the circuit on success', async () => {
+		let now = 1_000_000;
+		const rows = ['e-1', 'e-2', 'e-3'].map((id) => createRow(id, 'tenant.created'));
+		const harness = createHarness({ rowsByEvent: { 'tenant.created': rows } });
+		let healthy = false;
+		const sub = createSubscriber('flaky', 'tenant.created', async () => {
+			if (!healthy) throw new Error('downstream unavailable');
+		});
+		const processor = createProcessor(harness, [sub], {
+			circuitBreaker: { failureThreshold: 1, openDurationMs: 1_000, now: () => now }
+		});
+
+		await processor.processBatch(10);
+		expect(processor.getCircuitState('flaky')).toBe('open');
+
+		healthy = true;
+		now += 1_000;
+		await processor.processBatch(10);
+
+		expect(sub.handle).toHaveBeenCalledTimes(2);
+		expect(harness.execute).toHaveBeenCalledWith(expect.stringContaining('from integration_outbox o'), [
+			'platform-api.plugin.flaky',
+			'flaky',
+			'tenant.created',
+			1
+		]);
+		expect(processor.getCircuitState('flaky')).toBe('closed');
+	});
+
+	it('should run subscribers in parallel up to subscriberConcurrency', async () => {
+		const harness = createHarness({
+			rowsByEvent: { 'tenant.created': [createRow('e-1', 'tenant.created')] }
+		});
+		let running = 0;
+		let maxRunning = 0;
+		const handle = async () => {
+			running += 1;
+			maxRunning = Math.max(maxRunning, running);
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			running -= 1;
+		};
+		const subs = ['a', 'b', 'c'].map((name) => createSubscriber(name, 'tenant.created', handle));
+
+		await createProcessor(harness, subs, { subscriberConcurrency: 2 }).processBatch(10);
+
+		expect(subs.every((s) => (s.handle as jest.Mock).mock.calls.length === 1)).toBe(true);
+		expect(maxRunning).toBe(2);
+	});
+
+	it('should process partitions in parallel up to maxConcurrency while keeping order within a partition', async () => {
+		const rows = [
+			createRow('e-1', 'tenant.created', 'pk-a'),
+			createRow('e-2', 'tenant.created', 'pk-b'),
+			createRow('e-3', 'tenant.created', 'pk-a'),
+			createRow('e-4', 'tenant.created', 'pk-c')
+		];
+		const harness = createHarness({ rowsByEvent: { 'tenant.created': rows } });
+		const order: string[] = [];
+		let running = 0;
+		let maxRunning = 0;
+		const sub = createSubscriber(
+			'parallel',
+			'tenant.created',
+			async ({ envelope }) => {
+				running += 1;
+				maxRunning = Math.max(maxRunning, running);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				order.push(envelope.eventId);
+				running -= 1;
+			},
+			{ maxConcurrency: 2 }
+		);
+
+		await createProcessor(harness, [sub]).processBatch(10);
+
+		expect(order).toHaveLength(4);
+		expect(order.indexOf('e-1')).toBeLessThan(order.indexOf('e-3'));
+		expect(maxRunning).toBe(2);
+	});
+
+	it('should treat paused switches as absent when the control table cannot be read', async () => {
+		const harness = createHarness({
+			rowsByEvent: { 'tenant.created': [createRow('e-1', 'tenant.created')] }
+		});
+		const execute = harness.execute.getMockImplementation()!;
+		harness.execute.mockImplementation(async (sql: string, params: unknown[]) => {
+			if (sql.includes('from integration_event_subscriber_control')) {
+				throw new Error('relation "integration_event_subscriber_control" does not exist');
+			}
+			return execute(sql, params);
+		});
+		const sub = createSubscriber('a', 'tenant.created', async () => undefined);
+
+		await createProcessor(harness, [sub]).processBatch(10);
+
+		expect(sub.handle).toHaveBeenCalledTimes(1);
+		expect(harness.logger.warn).toHaveBeenCalledWith(
+			{ err: 'relation "integration_event_subscriber_control" does not exist' },
+			'PluginProcessor 读取订阅者暂停开关失败：本批按未暂停处理。'
+		);
+	});
+});
@@ -11,6 +11,12 @@ import type {
 	IOksaiIntegrationEventSubscriber,
 	SubscriberLogger
 } from '../subscriber/integration-event-subscriber.interface';
+import {
+	IntegrationSubscriberCircuitBreaker,
+	type IntegrationSubscriberCircuitBreakerOptions,
+	type IntegrationSubscriberCircuitState
+} from '../subscriber/subscriber-circuit-breaker';
+import { IntegrationEventSubscriberControlService } from '../subscriber/subscriber-control.service';
 
 /**
  * @description 插件订阅者投影处理器配置选项
@@ -49,11 +55,30 @@ export interface IntegrationEventSubscriberProjectionProcessorOptions {
 	 * @description 插件声明的订阅者类型列表
 	 */
 	subscriberTypes: Array<Type<unknown>>;
+
+	/**
+	 * @description 并行处理的订阅者数上限（可选，默认 1：订阅者依次处理）
+	 *
+	 * 说明：
+	 * - 大于 1 时慢订阅者不再拖慢其他订阅者；单个订阅者内部的并行度由其 `maxConcurrency` 决定
+	 */
+	subscriberConcurrency?: number;
+
+	/**
+	 * @description 订阅者熔断配置（可选，默认连续失败 5 次熔断 60 秒；false 表示关闭熔断）
+	 *
+	 * 说明：
+	 * - 熔断期间跳过该订阅者（不拉取事件、不消耗重试次数）；到期后只放行一条探测事件
+	 */
+	circuitBreaker?: Omit<IntegrationSubscriberCircuitBreakerOptions, 'onStateChange'> | false;
 }
 
+type SubscriberHandleOutcome = 'handled' | 'failed' | 'skipped';
+
 type PublishedIntegrationOutboxRow = OutboxRowLike & {
 	payload: unknown;
 	occurred_at: string | Date;
+	deliver_at?: string | Date | null;
 };
 
 /**
@@ -67,12 +92,19 @@ type PublishedIntegrationOutboxRow = OutboxRowLike & {
  * 注意事项：
  * - 该处理器不修改 outbox 状态（与投影处理器一致）
  * - 重试策略：订阅者抛错则不会写入 inbox_processed，并写入 retry_state（带 next_retry_at 退避）
+ * - 隔离：按订阅者熔断（进程内）；运维可通过 `IntegrationEventSubscriberControlService` 暂停/恢复订阅者
+ *  （依赖 migrations/012-integration-subscriber-control.sql）
  */
 export class IntegrationEventSubscriberProjectionProcessor {
-	constructor(private readonly options: IntegrationEventSubscriberProjectionProcessorOptions) {}
+	private readonly circuitBreakers = new Map<string, IntegrationSubscriberCircuitBreaker>();
+	private readonly control: IntegrationEventSubscriberControlService;
+
+	constructor(private readonly options: IntegrationEventSubscriberProjectionProcessorOptions) {
+		this.control = new IntegrationEventSubscriberControlService({ em: options.em });
+	}
 
 	/**
-	 * @description 处理一批事件（对所有订阅者依次执行）
+	 * @description 处理一批事件（跳过已暂停的订阅者，按 subscriberConcurrency 并行处理其余订阅者）
 	 *
 	 * @param batchSize - 每个订阅者单次扫描条数上限
 	 */
@@ -80,24 +112,181 @@ export class IntegrationEventSubscriberProjectionProcessor {
 		const types = Array.isArray(this.options.subscriberTypes) ? this.options.subscriberTypes : [];
 		if (types.length === 0) return;
 
+		const paused = await this.loadPausedSubscriberNames();
+		const queue: IOksaiIntegrationEventSubscriber[] = [];
 		for (const t of types) {
 			const sub = this.safeResolveSubscriberInstance(t);
 			if (!sub) continue;
-			await this.processOneSubscriber(sub, batchSize);
+			if (paused.has(sub.subscriberName)) {
+				this.options.logger.debug?.(
+					{ subscriberName: sub.subscriberName },
+					`${this.options.processorName} 订阅者已暂停：跳过本批。`
+				);
+				continue;
+			}
+			queue.push(sub);
 		}
+
+		const concurrency = Math.max(1, Math.floor(this.options.subscriberConcurrency ?? 1));
+		const runLane = async (): Promise<void> => {
+			for (let sub = queue.shift(); sub; sub = queue.shift()) {
+				await this.processOneSubscriber(sub, batchSize);
+			}
+		};
+
+		await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, runLane));
+	}
+
+	/**
+	 * @description 查询订阅者熔断状态（未创建熔断器或关闭熔断时为 closed）
+	 *
+	 * @param subscriberName - 订阅者名称
+	 */
+	getCircuitState(subscriberName: string): IntegrationSubscriberCircuitState {
+		return this.circuitBreakers.get(subscriberName)?.currentState() ?? 'closed';
+	}
+
+	/**
+	 * @description 列出已注册订阅者的消费维度（供 IntegrationOutboxBacklogSampler 采样未处理数）
+	 *
+	 * @returns 每个可解析的订阅者对应的 subscriberName / consumerName / eventName
+	 */
+	listSubscriberConsumers(): Array<{ subscriberName: string; consumerName: string; eventName: string }> {
+		const types = Array.isArray(this.options.subscriberTypes) ? this.options.subscriberTypes : [];
+		const consumers: Array<{ subscriberName: string; consumerName: string; eventName: string }> = [];
+		for (const t of types) {
+			const sub = this.safeResolveSubscriberInstance(t);
+			if (!sub) continue;
+			consumers.push({
+				subscriberName: sub.subscriberName,
+				consumerName: `${this.options.consumerNamePrefix}.${sub.subscriberName}`,
+				eventName: sub.eventName
+			});
+		}
+		return consumers;
 	}
 
 	private async processOneSubscriber(sub: IOksaiIntegrationEventSubscriber, batchSize: number): Promise<void> {
+		const breaker = this.getCircuitBreaker(sub.subscriberName);
+		const state = breaker?.currentState() ?? 'closed';
+		if (state === 'open') {
+			this.options.logger.debug?.(
+				{ subscriberName: sub.subscriberName, remainingOpenMs: breaker?.remainingOpenMs() },
+				`${this.options.processorName} 订阅者熔断中：跳过本批。`
+			);
+			return;
+		}
+
+		// half_open 只放行一条探测事件
+		const probing = state === 'half_open';
 		const consumerName = `${this.options.consumerNamePrefix}.${sub.subscriberName}`;
 		const rows = await this.fetchUnprocessedPublishedRows(
 			sub.eventName,
 			sub.subscriberName,
 			consumerName,
-			batchSize
+			probing ? 1 : batchSize
 		);
 		if (rows.length === 0) return;
+
+		const concurrency = probing ? 1 : this.getMaxConcurrency(sub);
+		if (concurrency === 1) {
+			for (const row of rows) {
+				if (breaker?.currentState() === 'open') return;
+				await this.handleOneWithBreaker(sub, consumerName, row, breaker);
+			}
+			return;
+		}
+
+		await this.handleByPartition(sub, consumerName, rows, concurrency, breaker);
+	}
+
+	/**
+	 * @description 按 partition_key 分组并行处理：组内串行（保持 occurred_at 顺序），组间并发不超过上限
+	 */
+	private async handleByPartition(
+		sub: IOksaiIntegrationEventSubscriber,
+		consumerName: string,
+		rows: PublishedIntegrationOutboxRow[],
+		concurrency: number,
+		breaker: IntegrationSubscriberCircuitBreaker | null
+	): Promise<void> {
+		const groups = new Map<string, PublishedIntegrationOutboxRow[]>();
 		for (const row of rows) {
-			await this.handleOne(sub, consumerName, row);
+			const group = groups.get(row.partition_key);
+			if (group) group.push(row);
+			else groups.set(row.partition_key, [row]);
+		}
+
+		const queue = [...groups.values()];
+		const runLane = async (): Promise<void> => {
+			for (let group = queue.shift(); group; group = queue.shift()) {
+				for (const row of group) {
+					if (breaker?.currentState() === 'open') return;
+					await this.handleOneWithBreaker(sub, consumerName, row, breaker);
+				}
+			}
+		};
+
+		await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, runLane));
+	}
+
+	private async handleOneWithBreaker(
+		sub: IOksaiIntegrationEventSubscriber,
+		consumerName: string,
+		row: PublishedIntegrationOutboxRow,
+		breaker: IntegrationSubscriberCircuitBreaker | null
+	): Promise<void> {
+		const outcome = await this.handleOne(sub, consumerName, row);
+		if (outcome === 'handled') breaker?.recordSuccess();
+		else if (outcome === 'failed') breaker?.recordFailure();
+	}
+
+	private getCircuitBreaker(subscriberName: string): IntegrationSubscriberCircuitBreaker | null {
+		if (this.options.circuitBreaker === false) return null;
+		const existing = this.circuitBreakers.get(subscriberName);
+		if (existing) return existing;
+
+		const breaker = new IntegrationSubscriberCircuitBreaker({
+			...this.options.circuitBreaker,
+			onStateChange: ({ from, to }) => {
+				getOksaiMetricsRecorder().recordIntegrationSubscriberCircuitState({
+					processor: this.options.processorName,
+					subscriber: subscriberName,
+					state: to
+				});
+				const log = { subscriberName, from, to };
+				if (to === 'open') {
+					this.options.logger.warn(
+						log,
+						`${this.options.processorName} 订阅者连续失败：已熔断，熔断期间不再调用该订阅者。`
+					);
+				} else {
+					this.options.logger.debug?.(
+						log,
+						`${this.options.processorName} 订阅者熔断状态变化：${from} -> ${to}。`
+					);
+				}
+			}
+		});
+		this.circuitBreakers.set(subscriberName, breaker);
+		return breaker;
+	}
+
+	private getMaxConcurrency(sub: IOksaiIntegrationEventSubscriber): number {
+		const v = sub.maxConcurrency;
+		if (typeof v !== 'number' || !Number.isFinite(v) || v < 1) return 1;
+		return Math.floor(v);
+	}
+
+	private async loadPausedSubscriberNames(): Promise<Set<string>> {
+		try {
+			return new Set(await this.control.listPausedNames());
+		} catch (e) {
+			this.options.logger.warn(
+				{ err: e instanceof Error ? e.message : String(e) },
+				`${this.options.processorName} 读取订阅者暂停开关失败：本批按未暂停处理。`
+			);
+			return new Set();
 		}
 	}
 
@@ -116,7 +305,8 @@ export class IntegrationEventSubscriberProjectionProcessor {
 				o.event_version,
 				o.partition_key,
 				o.payload,
-				o.occurred_at
+				o.occurred_at,
+				o.deliver_at
 			from integration_outbox o
 			left join integration_inbox_processed i
 				on i.event_id = o.event_id and i.consumer_name = ?
@@ -138,10 +328,10 @@ export class IntegrationEventSubscriberProjectionProcessor {
 		sub: IOksaiIntegrationEventSubscriber,
 		consumerName: string,
 		row: PublishedIntegrationOutboxRow
-	): Promise<void> {
+	): Promise<SubscriberHandleOutcome> {
 		const metrics = getOksaiMetricsRecorder();
 		const startedAt = Date.now();
-		const outboxLagMs = computeOutboxLagMs(row.occurred_at);
+		const outboxLagMs = computeOutboxLagMs(row.deliver_at ?? row.occurred_at);
 		const processorLabel = `${this.options.processorName}:${sub.subscriberName}`;
 
 		let envelope: OksaiIntegrationEvent;
@@ -182,7 +372,7 @@ export class IntegrationEventSubscriberProjectionProcessor {
 				},
 				`${this.options.processorName} 事件信封校验失败：已跳过并标记 inbox_processed（避免阻塞订阅者闭环）。`
 			);
-			return;
+			return 'skipped';
 		}
 
 		const job = {
@@ -192,10 +382,24 @@ export class IntegrationEventSubscriberProjectionProcessor {
 			locale: envelope.locale,
 			eventId: row.event_id,
 			eventName: row.event_name,
-			eventVersion: row.event_version
+			eventVersion: row.event_version,
+			traceparent: envelope.traceparent,
+			tracestate: envelope.tracestate
+		};
+		const workerOptions = {
+			span: {
+				name: `process ${row.event_name}`,
+				attributes: () => ({
+					'messaging.operation': 'process',
+					'messaging.consumer.group.name': consumerName,
+					'messaging.message.id': row.event_id,
+					'oksai.tenant_id': row.tenant_id,
+					'oksai.subscriber': sub.subscriberName
+				})
+			}
 		};
 
-		const run = withOksaiWorkerContextFromJob(async () => {
+		const run = withOksaiWorkerContextFromJob(async (): Promise<SubscriberHandleOutcome> => {
 			const already = await this.isInboxProcessed(row.event_id, consumerName);
 			if (already) {
 				metrics.incIntegrationEventProcessedTotal({
@@ -204,7 +408,7 @@ export class IntegrationEventSubscriberProjectionProcessor {
 					eventName: row.event_name,
 					result: 'dedup_skip'
 				});
-				return;
+				return 'skipped';
 			}
 
 			if (sub.eventVersion !== undefined && envelope.eventVersion !== sub.eventVersion) {
@@ -216,7 +420,7 @@ export class IntegrationEventSubscriberProjectionProcessor {
 					eventName: row.event_name,
 					result: 'success'
 				});
-				return;
+				return 'skipped';
 			}
 
 			await this.runWithTimeout(
@@ -233,10 +437,11 @@ export class IntegrationEventSubscriberProjectionProcessor {
 				eventName: row.event_name,
 				result: 'success'
 			});
-		});
+			return 'handled';
+		}, workerOptions);
 
 		try {
-			await run(job);
+			const outcome = await run(job);
 			if (typeof outboxLagMs === 'number') {
 				metrics.observeIntegrationEventLagMs({
 					mode: 'projection',
@@ -251,6 +456,7 @@ export class IntegrationEventSubscriberProjectionProcessor {
 				eventName: row.event_name,
 				durationMs: Date.now() - startedAt
 			});
+			return outcome;
 		} catch (e) {
 			const errMsg = e instanceof Error ? e.message : String(e);
 			const retry = await this.bumpRetryState(row.tenant_id, row.event_id, sub.subscriberName, errMsg);
@@ -288,6 +494,7 @@ export class IntegrationEventSubscriberProjectionProcessor {
 				},
 				`${this.options.processorName} 订阅者处理失败：已记录 retry_state，将在 next_retry_at 后重试。`
 			);
+			return 'failed';
 		}
 	}
 
@@ -422,6 +629,7 @@ export class IntegrationEventSubscriberProjectionProcessor {
 			anyV.eventName.trim().length > 0 &&
 			(anyV.eventVersion === undefined || typeof anyV.eventVersion === 'number') &&
 			(anyV.timeoutMs === undefined || typeof anyV.timeoutMs === 'number') &&
+			(anyV.maxConcurrency === undefined || typeof anyV.maxConcurrency === 'number') &&
 			typeof anyV.handle === 'function'
 		);
 	}
@@ -0,0 +1,10 @@
+export * from './lib/nest/event-store-postgres.module';
+export * from './lib/postgres/pg-event-store.adapter';
+export * from './lib/postgres/pg-snapshot-store.adapter';
+export * from './lib/postgres/pg-checkpoint-store.adapter';
+export * from './lib/postgres/pg-key-vault.adapter';
+export * from './lib/postgres/stored-event-record.entity';
+export * from './lib/postgres/snapshot-record.entity';
+export * from './lib/postgres/checkpoint-record.entity';
+export * from './lib/postgres/subject-key-record.entity';
+export * from './lib/types';
@@ -0,0 +1,41 @@
+import { type DynamicModule } from '@nestjs/common';
+import { MikroOrmModule } from '@mikro-orm/nestjs';
+import { StoredEventRecordEntity } from '../postgres/stored-event-record.entity';
+import { SnapshotRecordEntity } from '../postgres/snapshot-record.entity';
+import { CheckpointRecordEntity } from '../postgres/checkpoint-record.entity';
+import { SubjectKeyRecordEntity } from '../postgres/subject-key-record.entity';
+import { PgEventStore } from '../postgres/pg-event-store.adapter';
+import { PgSnapshotStore } from '../postgres/pg-snapshot-store.adapter';
+import { PgCheckpointStore } from '../postgres/pg-checkpoint-store.adapter';
+import { PgKeyVault } from '../postgres/pg-key-vault.adapter';
+
+export interface SetupEventStorePostgresModuleOptions {
+	/**
+	 * 是否注册为全局模块（默认 false）
+	 */
+	isGlobal?: boolean;
+}
+
+/**
+ * 装配 PostgreSQL 版事件存储、快照存储、投影检查点存储与主体密钥库实现
+ *
+ * 注意事项：
+ * - 需要上层先装配 `@oksai/database`
+ * - 需要由上层将 `PgEventStore` / `PgSnapshotStore` / `PgCheckpointStore` / `PgKeyVault` 绑定到业务使用的端口 token
+ */
+export function setupEventStorePostgresModule(options: SetupEventStorePostgresModuleOptions = {}): DynamicModule {
+	return {
+		module: class OksaiEventStorePostgresModule {},
+		global: options.isGlobal ?? false,
+		imports: [
+			MikroOrmModule.forFeature([
+				StoredEventRecordEntity,
+				SnapshotRecordEntity,
+				CheckpointRecordEntity,
+				SubjectKeyRecordEntity
+			])
+		],
+		providers: [PgEventStore, PgSnapshotStore, PgCheckpointStore, PgKeyVault],
+		exports: [PgEventStore, PgSnapshotStore, PgCheckpointStore, PgKeyVault]
+	};
+}
@@ -0,0 +1,25 @@
+import { Entity, PrimaryKey, Property, Unique } from '@mikro-orm/core';
+import { randomUUID } from 'node:crypto';
+
+/**
+ * 投影检查点表（PostgreSQL）
+ *
+ * 说明：
+ * - 每个投影一行，projectionName 唯一
+ * - position 对应 event_store.position，表示该投影已处理的最后位置
+ */
+@Entity({ tableName: 'event_store_checkpoint' })
+@Unique({ properties: ['projectionName'], name: 'uniq_event_store_checkpoint_projection' })
+export class CheckpointRecordEntity {
+	@PrimaryKey()
+	id: string = randomUUID();
+
+	@Property({ fieldName: 'projection_name', nullable: false })
+	projectionName!: string;
+
+	@Property({ fieldName: 'position', columnType: 'bigint', nullable: false, default: 0 })
+	position: number = 0;
+
+	@Property({ fieldName: 'updated_at', nullable: false })
+	updatedAt: Date = new Date();
+}
@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { MikroORM } from '@mikro-orm/core';
+import { randomUUID } from 'node:crypto';
+import { type CheckpointStorePort } from '@oksai/event-store';
+import type { IDatabaseTransactionHost } from '../types';
+
+/**
+ * PostgreSQL 投影检查点存储实现
+ *
+ * 说明：
+ * - 按 projection_name upsert
+ * - 在当前事务内调用时，检查点与读模型写入一同提交
+ */
+@Injectable()
+export class PgCheckpointStore implements CheckpointStorePort {
+	constructor(
+		private readonly orm: MikroORM,
+		private readonly txHost: IDatabaseTransactionHost
+	) {}
+
+	async load(projectionName: string): Promise<number> {
+		const em = this.txHost.getCurrentEntityManager() ?? this.orm.em;
+		const conn = em.getConnection();
+		const rows = await conn.execute<{ position: number | string }[]>(
+			`select position from event_store_checkpoint where projection_name = ?`,
+			[projectionName]
+		);
+		return Number(rows[0]?.position ?? 0);
+	}
+
+	async save(projectionName: string, position: number): Promise<void> {
+		const em = this.txHost.getCurrentEntityManager() ?? this.orm.em;
+		const conn = em.getConnection();
+
+		try {
+			await conn.execute(
+				`insert into event_store_checkpoint (id, projection_name, position, updated_at)
+         values (?, ?, ?, ?)
+         on conflict (projection_name)
+         do update set position = excluded.position, updated_at = excluded.updated_at`,
+				[randomUUID(), projectionName, position, new Date()]
+			);
+		} catch (err: unknown) {
+			const msg = err instanceof Error ? err.message : '未知错误';
+			throw new Error(`检查点保存失败：projectionName=${projectionName}，position=${position}。原因：${msg}`);
+		}
+	}
+}
@@ -0,0 +1,212 @@
+import { Injectable } from '@nestjs/common';
+import { MikroORM, UniqueConstraintViolationException } from '@mikro-orm/core';
+import { randomUUID } from 'node:crypto';
+import {
+	EventStream,
+	OptimisticLockError,
+	StoredEvent,
+	StoredEventStatus,
+	type EventStorePort,
+	type PointInTime,
+	type ReadAllFilter
+} from '@oksai/event-store';
+import type { IDatabaseTransactionHost } from '../types';
+
+/**
+ * PostgreSQL 事件存储实现
+ *
+ * 说明：
+ * - 追加在单个事务内完成：先读取当前版本做乐观锁校验，再批量写入
+ * - 并发写入同一版本时由唯一约束 (aggregate_id, event_version) 兜底，统一转换为 OptimisticLockError
+ * - 每个事件必须携带 tenantId（禁止写入无租户事件）
+ * - position 由 bigserial 分配；写入前获取事务级咨询锁，使全局位置的提交顺序与分配顺序一致，
+ *   readAll 读取方因此不会因并发事务晚提交而跳过较小的位置
+ */
+@Injectable()
+export class PgEventStore implements EventStorePort {
+	constructor(
+		private readonly orm: MikroORM,
+		private readonly txHost: IDatabaseTransactionHost
+	) {}
+
+	async append(aggregateId: string, events: StoredEvent[], expectedVersion?: number): Promise<void> {
+		if (events.length === 0) return;
+
+		const expected = expectedVersion ?? events[0].eventVersion - 1;
+		this.assertAppendable(aggregateId, events, expected);
+
+		const em = this.txHost.getCurrentEntityManager() ?? this.orm.em;
+
+		try {
+			await em.transactional(async (txEm) => {
+				const conn = txEm.getConnection();
+				const rows = await conn.execute<{ version: number | string }[]>(
+					`select coalesce(max(event_version), 0) as version from event_store where aggregate_id = ?`,
+					[aggregateId]
+				);
+				const actual = Number(rows[0]?.version ?? 0);
+				if (actual !== expected) {
+					throw new OptimisticLockError(aggregateId, expected, actual);
+				}
+
+				await conn.execute(`select pg_advisory_xact_lock(hashtext('event_store.position'))`);
+
+				for (const e of events) {
+					await conn.execute(
+						`insert into event_store
+         (id, event_id, tenant_id, aggregate_id, event_name, event_version, schema_version, payload, metadata, status, occurred_at, created_at)
+         values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+						[
+							randomUUID(),
+							e.eventId,
+							e.tenantId,
+							e.aggregateId,
+							e.eventName,
+							e.eventVersion,
+							e.schemaVersion,
+							e.payload,
+							e.metadata ?? null,
+							e.status,
+							e.occurredAt,
+							new Date()
+						]
+					);
+				}
+			});
+		} catch (err: unknown) {
+			if (err instanceof OptimisticLockError) throw err;
+			if (isUniqueViolation(err)) {
+				throw new OptimisticLockError(aggregateId, expected);
+			}
+			const msg = err instanceof Error ? err.message : '未知错误';
+			throw new Error(`事件追加失败：aggregateId=${aggregateId}。原因：${msg}`);
+		}
+	}
+
+	async load(aggregateId: string): Promise<EventStream> {
+		const em = this.txHost.getCurrentEntityManager() ?? this.orm.em;
+		const conn = em.getConnection();
+		const rows = await conn.execute<any[]>(
+			`select event_id, tenant_id, aggregate_id, event_name, event_version, schema_version, payload, metadata, status, occurred_at
+       from event_store
+       where aggregate_id = ?
+       order by event_version asc`,
+			[aggregateId]
+		);
+		return EventStream.create(aggregateId, rows.map(toStoredEvent));
+	}
+
+	async loadFromVersion(aggregateId: string, fromVersion: number): Promise<EventStream> {
+		const em = this.txHost.getCurrentEntityManager() ?? this.orm.em;
+		const conn = em.getConnection();
+		const rows = await conn.execute<any[]>(
+			`select event_id, tenant_id, aggregate_id, event_name, event_version, schema_version, payload, metadata, status, occurred_at
+       from event_store
+       where aggregate_id = ? and event_version > ?
+       order by event_version asc`,
+			[aggregateId, fromVersion]
+		);
+		return EventStream.create(aggregateId, rows.map(toStoredEvent));
+	}
+
+	async loadUntil(aggregateId: string, asOf: PointInTime): Promise<EventStream> {
+		// 按时间截取时先取该时刻之前的最大版本，再按版本截取：occurred_at 不保证随版本单调递增
+		const bound =
+			asOf instanceof Date
+				? 'event_version <= (select max(event_version) from event_store where aggregate_id = ? and occurred_at <= ?)'
+				: 'event_version <= ?';
+		const params = asOf instanceof Date ? [aggregateId, aggregateId, asOf] : [aggregateId, asOf];
+		const em = this.txHost.getCurrentEntityManager() ?? this.orm.em;
+		const conn = em.getConnection();
+		const rows = await conn.execute<any[]>(
+			`select event_id, tenant_id, aggregate_id, event_name, event_version, schema_version, payload, metadata, status, occurred_at
+       from event_store
+       where aggregate_id = ? and ${bound}
+       order by event_version asc`,
+			params
+		);
+		return EventStream.create(aggregateId, rows.map(toStoredEvent));
+	}
+
+	async hasEvents(aggregateId: string): Promise<boolean> {
+		const em = this.txHost.getCurrentEntityManager() ?? this.orm.em;
+		const conn = em.getConnection();
+		const rows = await conn.execute<{ exists: boolean }[]>(
+			`select exists(select 1 from event_store where aggregate_id = ?) as exists`,
+			[aggregateId]
+		);
+		return Boolean(rows[0]?.exists);
+	}
+
+	async readAll(fromPosition: number, limit: number, filter: ReadAllFilter = {}): Promise<StoredEvent[]> {
+		const where = ['position > ?'];
+		const params: unknown[] = [fromPosition];
+		if (filter.tenantId) {
+			where.push('tenant_id = ?');
+			params.push(filter.tenantId);
+		}
+		if (filter.aggregateId) {
+			where.push('aggregate_id = ?');
+			params.push(filter.aggregateId);
+		}
+		if (filter.eventNames?.length) {
+			where.push('event_name in (?)');
+			params.push(filter.eventNames);
+		}
+		params.push(limit);
+
+		const em = this.txHost.getCurrentEntityManager() ?? this.orm.em;
+		const conn = em.getConnection();
+		const rows = await conn.execute<any[]>(
+			`select position, event_id, tenant_id, aggregate_id, event_name, event_version, schema_version, payload, metadata, status, occurred_at
+       from event_store
+       where ${where.join(' and ')}
+       order by position asc
+       limit ?`,
+			params
+		);
+		return rows.map(toStoredEvent);
+	}
+
+	/**
+	 * 校验待追加事件：归属同一聚合、携带租户、版本连续
+	 */
+	private assertAppendable(aggregateId: string, events: StoredEvent[], expected: number): void {
+		events.forEach((e, i) => {
+			if (e.aggregateId !== aggregateId) {
+				throw new Error(
+					`事件追加失败：事件 ${e.eventName} 的 aggregateId=${e.aggregateId} 与目标聚合 ${aggregateId} 不一致。`
+				);
+			}
+			if (!e.tenantId) {
+				throw new Error(`禁止追加无租户事件：aggregateId=${aggregateId}，eventName=${e.eventName}。`);
+			}
+			if (e.eventVersion !== expected + i + 1) {
+				throw new Error(
+					`事件追加失败：aggregateId=${aggregateId} 的事件版本不连续，期望 ${expected + i + 1}，实际 ${e.eventVersion}。`
+				);
+			}
+		});
+	}
+}
+
+function isUniqueViolation(err: unknown): boolean {
+	if (err instanceof UniqueConstraintViolationException) return true;
+	return (err as { code?: unknown } | null)?.code === '23505';
+}
+
+function toStoredEvent(r: any): StoredEvent {
+	return StoredEvent.fromProps({
+		eventId: String(r.event_id),
+		tenantId: r.tenant_id ? String(r.tenant_id) : undefined,
+		aggregateId: String(r.aggregate_id),
+		eventName: String(r.event_name),
+		eventVersion: Number(r.event_version),
+		schemaVersion: r.schema_version != null ? Number(r.schema_version) : 1,
+		payload: (r.payload ?? {}) as Record<string, unknown>,
+		metadata: r.metadata ? (r.metadata as Record<string, unknown>) : undefined,
+		status: String(r.status) as StoredEventStatus,
+		occurredAt: new Date(r.occurred_at),
+		position: r.position != null ? Number(r.position) : undefined
+	});
+}
@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+import { MikroORM } from '@mikro-orm/core';
+import { randomBytes, randomUUID } from 'node:crypto';
+import { type KeyVaultPort } from '@oksai/event-store';
+import type { IDatabaseTransactionHost } from '../types';
+
+/**
+ * PostgreSQL 主体密钥库实现（本地数据库密钥库）
+ *
+ * 说明：
+ * - 密钥首次使用时生成（32 字节随机数），并发创建时以唯一约束去重，以数据库中的记录为准
+ * - destroyKey 清空密钥并写入墓碑；对从未创建过密钥的主体同样写入墓碑，阻止后续写入 PII
+ */
+@Injectable()
+export class PgKeyVault implements KeyVaultPort {
+	constructor(
+		private readonly orm: MikroORM,
+		private readonly txHost: IDatabaseTransactionHost
+	) {}
+
+	async getOrCreateKey(subjectId: string, tenantId?: string): Promise<Buffer> {
+		const existing = await this.findRecord(subjectId);
+		if (!existing) {
+			const em = this.txHost.getCurrentEntityManager() ?? this.orm.em;
+			await em.getConnection().execute(
+				`insert into event_store_subject_key (id, subject_id, tenant_id, key_material, created_at)
+         values (?, ?, ?, ?, ?)
+         on conflict (subject_id) do nothing`,
+				[randomUUID(), subjectId, tenantId ?? null, randomBytes(32), new Date()]
+			);
+		}
+
+		const record = existing ?? (await this.findRecord(subjectId));
+		if (!record || record.destroyed_at || !record.key_material) {
+			throw new Error(`主体密钥已销毁：subjectId=${subjectId}，禁止为已擦除的主体写入 PII。`);
+		}
+		return Buffer.from(record.key_material);
+	}
+
+	async getKey(subjectId: string): Promise<Buffer | null> {
+		const record = await this.findRecord(subjectId);
+		if (!record || record.destroyed_at || !record.key_material) {
+			return null;
+		}
+		return Buffer.from(record.key_material);
+	}
+
+	async destroyKey(subjectId: string): Promise<void> {
+		const em = this.txHost.getCurrentEntityManager() ?? this.orm.em;
+		try {
+			await em.getConnection().execute(
+				`insert into event_store_subject_key (id, subject_id, key_material, created_at, destroyed_at)
+         values (?, ?, null, ?, ?)
+         on conflict (subject_id)
+         do update set key_material = null,
+           destroyed_at = coalesce(event_store_subject_key.destroyed_at, excluded.destroyed_at)`,
+				[randomUUID(), subjectId, new Date(), new Date()]
+			);
+		} catch (err: unknown) {
+			const msg = err instanceof Error ? err.message : '未知错误';
+			throw new Error(`主体密钥销毁失败：subjectId=${subjectId}。原因：${msg}`);
+		}
+	}
+
+	private async findRecord(
+		subjectId: string
+	): Promise<{ key_material: Buffer | null; destroyed_at: Date | null } | undefined> {
+		const em = this.txHost.getCurrentEntityManager() ?? this.orm.em;
+		const rows = await em
+			.getConnection()
+			.execute<{ key_material: Buffer | null; destroyed_at: Date | null }[]>(
+				`select key_material, destroyed_at from event_store_subject_key where subject_id = ?`,
+				[subjectId]
+			);
+		return rows[0];
+	}
+}
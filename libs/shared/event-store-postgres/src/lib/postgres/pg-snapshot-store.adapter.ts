@@ -0,0 +1,85 @@
+import { Injectable } from '@nestjs/common';
+import { MikroORM } from '@mikro-orm/core';
+import { randomUUID } from 'node:crypto';
+import { Snapshot, type SnapshotStorePort } from '@oksai/event-store';
+import type { IDatabaseTransactionHost } from '../types';
+
+/**
+ * PostgreSQL 快照存储实现
+ *
+ * 说明：
+ * - 同一聚合同一版本重复保存时覆盖（upsert）
+ * - 每个快照必须携带 tenantId（禁止写入无租户快照）
+ */
+@Injectable()
+export class PgSnapshotStore implements SnapshotStorePort {
+	constructor(
+		private readonly orm: MikroORM,
+		private readonly txHost: IDatabaseTransactionHost
+	) {}
+
+	async save(snapshot: Snapshot): Promise<void> {
+		if (!snapshot.tenantId) {
+			throw new Error(`禁止保存无租户快照：aggregateId=${snapshot.aggregateId}。`);
+		}
+
+		const em = this.txHost.getCurrentEntityManager() ?? this.orm.em;
+		const conn = em.getConnection();
+
+		try {
+			await conn.execute(
+				`insert into event_store_snapshot
+         (id, tenant_id, aggregate_id, aggregate_type, version, schema_version, state, created_at)
+         values (?, ?, ?, ?, ?, ?, ?, ?)
+         on conflict (aggregate_id, version)
+         do update set schema_version = excluded.schema_version, state = excluded.state, created_at = excluded.created_at`,
+				[
+					randomUUID(),
+					snapshot.tenantId,
+					snapshot.aggregateId,
+					snapshot.aggregateType,
+					snapshot.version,
+					snapshot.schemaVersion,
+					snapshot.state,
+					snapshot.createdAt
+				]
+			);
+		} catch (err: unknown) {
+			const msg = err instanceof Error ? err.message : '未知错误';
+			throw new Error(
+				`快照保存失败：aggregateId=${snapshot.aggregateId}，version=${snapshot.version}。原因：${msg}`
+			);
+		}
+	}
+
+	async loadLatest(aggregateId: string): Promise<Snapshot | null> {
+		const em = this.txHost.getCurrentEntityManager() ?? this.orm.em;
+		const conn = em.getConnection();
+		const rows = await conn.execute<any[]>(
+			`select tenant_id, aggregate_id, aggregate_type, version, schema_version, state, created_at
+       from event_store_snapshot
+       where aggregate_id = ?
+       order by version desc
+       limit 1`,
+			[aggregateId]
+		);
+
+		const r = rows[0];
+		if (!r) return null;
+
+		return Snapshot.fromProps({
+			tenantId: r.tenant_id ? String(r.tenant_id) : undefined,
+			aggregateId: String(r.aggregate_id),
+			aggregateType: String(r.aggregate_type),
+			version: Number(r.version),
+			schemaVersion: Number(r.schema_version),
+			state: (r.state ?? {}) as Record<string, unknown>,
+			createdAt: new Date(r.created_at)
+		});
+	}
+
+	async delete(aggregateId: string): Promise<void> {
+		const em = this.txHost.getCurrentEntityManager() ?? this.orm.em;
+		await em.getConnection().execute(`delete from event_store_snapshot where aggregate_id = ?`, [aggregateId]);
+	}
+}
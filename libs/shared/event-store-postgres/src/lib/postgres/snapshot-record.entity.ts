@@ -0,0 +1,38 @@
+import { Entity, Index, PrimaryKey, Property, Unique, types } from '@mikro-orm/core';
+import { randomUUID } from 'node:crypto';
+
+/**
+ * 聚合快照表（PostgreSQL）
+ *
+ * 说明：
+ * - (aggregateId, version) 唯一，重复保存同一版本时覆盖
+ * - schemaVersion 记录快照状态结构版本，读取方据此丢弃过期快照
+ */
+@Entity({ tableName: 'event_store_snapshot' })
+@Unique({ properties: ['aggregateId', 'version'], name: 'uniq_event_store_snapshot_aggregate_version' })
+@Index({ properties: ['tenantId', 'aggregateType'], name: 'idx_event_store_snapshot_tenant_type' })
+export class SnapshotRecordEntity {
+	@PrimaryKey()
+	id: string = randomUUID();
+
+	@Property({ fieldName: 'tenant_id', nullable: false })
+	tenantId!: string;
+
+	@Property({ fieldName: 'aggregate_id', nullable: false })
+	aggregateId!: string;
+
+	@Property({ fieldName: 'aggregate_type', nullable: false })
+	aggregateType!: string;
+
+	@Property({ fieldName: 'version', nullable: false })
+	version!: number;
+
+	@Property({ fieldName: 'schema_version', nullable: false })
+	schemaVersion!: number;
+
+	@Property({ fieldName: 'state', type: types.json, nullable: false })
+	state!: Record<string, unknown>;
+
+	@Property({ fieldName: 'created_at', nullable: false })
+	createdAt: Date = new Date();
+}
@@ -0,0 +1,59 @@
+import { Entity, Index, PrimaryKey, Property, Unique, types } from '@mikro-orm/core';
+import { randomUUID } from 'node:crypto';
+
+/**
+ * 事件存储表（PostgreSQL）
+ *
+ * 说明：
+ * - eventId 全局唯一（幂等键）
+ * - (aggregateId, eventVersion) 唯一，作为乐观并发控制的最后一道防线
+ * - tenantId 必填，用于多租户隔离与按租户排查
+ * - schemaVersion 为负载结构版本，读取时由升级器（UpcasterRegistry）升级旧结构
+ * - position 为全局序列（bigserial），readAll 与投影检查点按其排序
+ */
+@Entity({ tableName: 'event_store' })
+@Unique({ properties: ['eventId'], name: 'uniq_event_store_event_id' })
+@Unique({ properties: ['aggregateId', 'eventVersion'], name: 'uniq_event_store_aggregate_version' })
+@Unique({ properties: ['position'], name: 'uniq_event_store_position' })
+@Index({ properties: ['tenantId', 'aggregateId'], name: 'idx_event_store_tenant_aggregate' })
+@Index({ properties: ['tenantId', 'position'], name: 'idx_event_store_tenant_position' })
+export class StoredEventRecordEntity {
+	@PrimaryKey()
+	id: string = randomUUID();
+
+	@Property({ fieldName: 'position', columnType: 'bigserial', autoincrement: true, nullable: false })
+	position!: number;
+
+	@Property({ fieldName: 'event_id', nullable: false })
+	eventId!: string;
+
+	@Property({ fieldName: 'tenant_id', nullable: false })
+	tenantId!: string;
+
+	@Property({ fieldName: 'aggregate_id', nullable: false })
+	aggregateId!: string;
+
+	@Property({ fieldName: 'event_name', nullable: false })
+	eventName!: string;
+
+	@Property({ fieldName: 'event_version', nullable: false })
+	eventVersion!: number;
+
+	@Property({ fieldName: 'schema_version', nullable: false, default: 1 })
+	schemaVersion: number = 1;
+
+	@Property({ fieldName: 'payload', type: types.json, nullable: false })
+	payload!: Record<string, unknown>;
+
+	@Property({ fieldName: 'metadata', type: types.json, nullable: true })
+	metadata?: Record<string, unknown>;
+
+	@Property({ fieldName: 'status', nullable: false })
+	status!: string;
+
+	@Property({ fieldName: 'occurred_at', nullable: false })
+	occurredAt!: Date;
+
+	@Property({ fieldName: 'created_at', nullable: false })
+	createdAt: Date = new Date();
+}
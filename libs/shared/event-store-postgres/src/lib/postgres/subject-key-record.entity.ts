@@ -0,0 +1,33 @@
+import { Entity, Index, PrimaryKey, Property, Unique } from '@mikro-orm/core';
+import { randomUUID } from 'node:crypto';
+
+/**
+ * 主体密钥表（PostgreSQL）
+ *
+ * 说明：
+ * - 每个数据主体一行，subjectId 唯一
+ * - 销毁密钥时清空 keyMaterial 并记录 destroyedAt（墓碑），禁止为已擦除的主体重新生成密钥
+ * - 建议为该表配置独立的数据库角色权限，并纳入与业务数据不同的备份策略
+ */
+@Entity({ tableName: 'event_store_subject_key' })
+@Unique({ properties: ['subjectId'], name: 'uniq_event_store_subject_key_subject' })
+@Index({ properties: ['tenantId'], name: 'idx_event_store_subject_key_tenant' })
+export class SubjectKeyRecordEntity {
+	@PrimaryKey()
+	id: string = randomUUID();
+
+	@Property({ fieldName: 'subject_id', nullable: false })
+	subjectId!: string;
+
+	@Property({ fieldName: 'tenant_id', nullable: true })
+	tenantId?: string;
+
+	@Property({ fieldName: 'key_material', columnType: 'bytea', nullable: true })
+	keyMaterial?: Buffer;
+
+	@Property({ fieldName: 'created_at', nullable: false })
+	createdAt: Date = new Date();
+
+	@Property({ fieldName: 'destroyed_at', nullable: true })
+	destroyedAt?: Date;
+}
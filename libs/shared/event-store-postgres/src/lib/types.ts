@@ -0,0 +1,10 @@
+import type { EntityManager } from '@mikro-orm/core';
+
+/**
+ * 数据库事务主机接口
+ *
+ * 说明：此类型定义将迁移至 @oksai/database 模块后可移除
+ */
+export interface IDatabaseTransactionHost {
+	getCurrentEntityManager(): EntityManager | null;
+}
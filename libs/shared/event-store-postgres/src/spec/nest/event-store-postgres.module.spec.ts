@@ -0,0 +1,66 @@
+import {
+	setupEventStorePostgresModule,
+	SetupEventStorePostgresModuleOptions
+} from '../../lib/nest/event-store-postgres.module';
+
+describe('setupEventStorePostgresModule', () => {
+	describe('模块配置', () => {
+		it('应返回动态模块定义', () => {
+			const result = setupEventStorePostgresModule();
+
+			expect(result).toBeDefined();
+			expect(result.module).toBeDefined();
+			expect(result.global).toBe(false);
+		});
+
+		it('应设置 isGlobal 为 true（当 options.isGlobal 为 true）', () => {
+			const options: SetupEventStorePostgresModuleOptions = { isGlobal: true };
+			const result = setupEventStorePostgresModule(options);
+
+			expect(result.global).toBe(true);
+		});
+
+		it('应设置 isGlobal 为 false（默认）', () => {
+			const result = setupEventStorePostgresModule();
+
+			expect(result.global).toBe(false);
+		});
+
+		it('应配置正确的 providers', () => {
+			const result = setupEventStorePostgresModule();
+
+			expect(result.providers).toBeDefined();
+			expect(result.providers).toHaveLength(4);
+		});
+
+		it('应配置正确的 exports', () => {
+			const result = setupEventStorePostgresModule();
+
+			expect(result.exports).toBeDefined();
+			expect(result.exports).toHaveLength(4);
+		});
+
+		it('应配置 MikroOrmModule.forFeature', () => {
+			const result = setupEventStorePostgresModule();
+
+			expect(result.imports).toBeDefined();
+			expect(result.imports).toHaveLength(1);
+		});
+	});
+
+	describe('空选项处理', () => {
+		it('应处理 undefined 选项', () => {
+			const result = setupEventStorePostgresModule(undefined);
+
+			expect(result).toBeDefined();
+			expect(result.global).toBe(false);
+		});
+
+		it('应处理空对象选项', () => {
+			const result = setupEventStorePostgresModule({});
+
+			expect(result).toBeDefined();
+			expect(result.global).toBe(false);
+		});
+	});
+});
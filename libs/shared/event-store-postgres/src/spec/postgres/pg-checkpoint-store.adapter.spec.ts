@@ -0,0 +1,80 @@
+import { MikroORM } from '@mikro-orm/core';
+import { PgCheckpointStore } from '../../lib/postgres/pg-checkpoint-store.adapter';
+
+/**
+ * 模拟 DatabaseTransactionHost 类型
+ * 用于测试，因为 @oksai/database 尚未实现该类
+ */
+interface MockDatabaseTransactionHost {
+	getCurrentEntityManager: jest.Mock;
+}
+
+describe('PgCheckpointStore', () => {
+	let store: PgCheckpointStore;
+	let mockConnection: { execute: jest.Mock };
+	let mockTxHost: MockDatabaseTransactionHost;
+
+	beforeEach(() => {
+		mockConnection = {
+			execute: jest.fn()
+		};
+
+		const mockOrm = {
+			em: { getConnection: jest.fn().mockReturnValue(mockConnection) } as unknown
+		};
+
+		mockTxHost = {
+			getCurrentEntityManager: jest.fn().mockReturnValue(null)
+		};
+
+		store = new PgCheckpointStore(mockOrm as MikroORM, mockTxHost as any);
+	});
+
+	describe('load', () => {
+		it('应返回已保存的位置', async () => {
+			mockConnection.execute.mockResolvedValueOnce([{ position: '42' }]);
+
+			await expect(store.load('aggregate-metadata')).resolves.toBe(42);
+			expect(mockConnection.execute).toHaveBeenCalledWith(
+				expect.stringContaining('from event_store_checkpoint'),
+				['aggregate-metadata']
+			);
+		});
+
+		it('未保存过检查点时应返回 0', async () => {
+			mockConnection.execute.mockResolvedValueOnce([]);
+
+			await expect(store.load('aggregate-metadata')).resolves.toBe(0);
+		});
+	});
+
+	describe('save', () => {
+		it('应按投影名称 upsert 检查点', async () => {
+			mockConnection.execute.mockResolvedValueOnce({ rowCount: 1 });
+
+			await store.save('aggregate-metadata', 42);
+
+			const [sql, params] = mockConnection.execute.mock.calls[0];
+			expect(sql).toContain('on conflict (projection_name)');
+			expect(params).toEqual([expect.any(String), 'aggregate-metadata', 42, expect.any(Date)]);
+		});
+
+		it('数据库错误应包装为检查点保存失败', async () => {
+			mockConnection.execute.mockRejectedValueOnce(new Error('connection lost'));
+
+			await expect(store.save('aggregate-metadata', 42)).rejects.toThrow('检查点保存失败');
+		});
+
+		it('应优先使用当前事务的 EntityManager', async () => {
+			const txConnection = { execute: jest.fn().mockResolvedValue({ rowCount: 1 }) };
+			mockTxHost.getCurrentEntityManager.mockReturnValue({
+				getConnection: jest.fn().mockReturnValue(txConnection)
+			});
+
+			await store.save('aggregate-metadata', 1);
+
+			expect(txConnection.execute).toHaveBeenCalledTimes(1);
+			expect(mockConnection.execute).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,283 @@
+import { MikroORM } from '@mikro-orm/core';
+import { OptimisticLockError, StoredEvent, StoredEventStatus } from '@oksai/event-store';
+import { PgEventStore } from '../../lib/postgres/pg-event-store.adapter';
+
+/**
+ * 模拟 DatabaseTransactionHost 类型
+ * 用于测试，因为 @oksai/database 尚未实现该类
+ */
+interface MockDatabaseTransactionHost {
+	getCurrentEntityManager: jest.Mock;
+}
+
+function createEvent(version: number, overrides: { aggregateId?: string; tenantId?: string | null } = {}): StoredEvent {
+	return StoredEvent.create({
+		eventName: 'TenantCreated',
+		aggregateId: overrides.aggregateId ?? 'agg-1',
+		tenantId: overrides.tenantId === null ? undefined : (overrides.tenantId ?? 'tenant-1'),
+		payload: { name: 'Acme' },
+		eventVersion: version
+	});
+}
+
+function createRow(version: number) {
+	return {
+		position: String(100 + version),
+		event_id: `evt-${version}`,
+		tenant_id: 'tenant-1',
+		aggregate_id: 'agg-1',
+		event_name: 'TenantCreated',
+		event_version: version,
+		schema_version: 2,
+		payload: { name: 'Acme' },
+		metadata: null,
+		status: 'PENDING',
+		occurred_at: '2024-01-01T00:00:00.000Z'
+	};
+}
+
+describe('PgEventStore', () => {
+	let store: PgEventStore;
+	let mockConnection: { execute: jest.Mock };
+	let mockEm: { getConnection: jest.Mock; transactional: jest.Mock };
+	let mockOrm: { em: unknown };
+	let mockTxHost: MockDatabaseTransactionHost;
+
+	beforeEach(() => {
+		mockConnection = {
+			execute: jest.fn()
+		};
+
+		mockEm = {
+			getConnection: jest.fn().mockReturnValue(mockConnection),
+			transactional: jest.fn()
+		};
+		mockEm.transactional.mockImplementation(async (fn: (em: unknown) => Promise<unknown>) => fn(mockEm));
+
+		mockOrm = {
+			em: mockEm as unknown
+		};
+
+		mockTxHost = {
+			getCurrentEntityManager: jest.fn().mockReturnValue(null)
+		};
+
+		store = new PgEventStore(mockOrm as MikroORM, mockTxHost as any);
+	});
+
+	describe('append', () => {
+		it('空事件列表应直接返回', async () => {
+			await store.append('agg-1', []);
+
+			expect(mockEm.transactional).not.toHaveBeenCalled();
+		});
+
+		it('版本匹配时应在事务内写入所有事件', async () => {
+			mockConnection.execute.mockResolvedValueOnce([{ version: 0 }]).mockResolvedValue({ rowCount: 1 });
+
+			await store.append('agg-1', [createEvent(1), createEvent(2)], 0);
+
+			expect(mockEm.transactional).toHaveBeenCalledTimes(1);
+			expect(mockConnection.execute).toHaveBeenCalledTimes(4);
+			expect(mockConnection.execute.mock.calls[1][0]).toContain('pg_advisory_xact_lock');
+			expect(mockConnection.execute.mock.calls[2][0]).toContain('insert into event_store');
+			expect(mockConnection.execute.mock.calls[2][1]).toEqual(
+				expect.arrayContaining(['tenant-1', 'agg-1', 'TenantCreated', 1])
+			);
+			expect(mockConnection.execute.mock.calls[3][1]).toEqual(expect.arrayContaining([2]));
+		});
+
+		it('未指定 expectedVersion 时应以首个事件版本推导', async () => {
+			mockConnection.execute.mockResolvedValueOnce([{ version: '2' }]).mockResolvedValue({ rowCount: 1 });
+
+			await store.append('agg-1', [createEvent(3)]);
+
+			expect(mockConnection.execute).toHaveBeenCalledTimes(3);
+		});
+
+		it('版本不匹配时应抛出 OptimisticLockError', async () => {
+			mockConnection.execute.mockResolvedValueOnce([{ version: 2 }]);
+
+			const promise = store.append('agg-1', [createEvent(2)], 1);
+
+			await expect(promise).rejects.toBeInstanceOf(OptimisticLockError);
+			await expect(promise).rejects.toMatchObject({ expectedVersion: 1, actualVersion: 2 });
+			expect(mockConnection.execute).toHaveBeenCalledTimes(1);
+		});
+
+		it('唯一约束冲突时应转换为 OptimisticLockError', async () => {
+			const uniqueViolation = Object.assign(new Error('duplicate key'), { code: '23505' });
+			mockConnection.execute
+				.mockResolvedValueOnce([{ version: 0 }])
+				.mockResolvedValueOnce([])
+				.mockRejectedValueOnce(uniqueViolation);
+
+			const promise = store.append('agg-1', [createEvent(1)], 0);
+
+			await expect(promise).rejects.toBeInstanceOf(OptimisticLockError);
+			await expect(promise).rejects.toMatchObject({ expectedVersion: 0, actualVersion: undefined });
+		});
+
+		it('其他数据库错误应包装为追加失败', async () => {
+			mockConnection.execute.mockRejectedValueOnce(new Error('connection lost'));
+
+			await expect(store.append('agg-1', [createEvent(1)], 0)).rejects.toThrow('事件追加失败');
+		});
+
+		it('缺少 tenantId 时应拒绝追加', async () => {
+			await expect(store.append('agg-1', [createEvent(1, { tenantId: null })], 0)).rejects.toThrow(
+				'禁止追加无租户事件'
+			);
+			expect(mockEm.transactional).not.toHaveBeenCalled();
+		});
+
+		it('事件归属其他聚合时应拒绝追加', async () => {
+			await expect(store.append('agg-1', [createEvent(1, { aggregateId: 'agg-2' })], 0)).rejects.toThrow(
+				'不一致'
+			);
+		});
+
+		it('事件版本不连续时应拒绝追加', async () => {
+			await expect(store.append('agg-1', [createEvent(1), createEvent(3)], 0)).rejects.toThrow('版本不连续');
+		});
+
+		it('应优先使用当前事务的 EntityManager', async () => {
+			const txConnection = { execute: jest.fn() };
+			txConnection.execute.mockResolvedValueOnce([{ version: 0 }]).mockResolvedValue({ rowCount: 1 });
+			const txEm = {
+				getConnection: jest.fn().mockReturnValue(txConnection),
+				transactional: jest.fn()
+			};
+			txEm.transactional.mockImplementation(async (fn: (em: unknown) => Promise<unknown>) => fn(txEm));
+			mockTxHost.getCurrentEntityManager.mockReturnValue(txEm);
+
+			await store.append('agg-1', [createEvent(1)], 0);
+
+			expect(txConnection.execute).toHaveBeenCalledTimes(3);
+			expect(mockConnection.execute).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('load', () => {
+		it('应按版本升序加载事件流', async () => {
+			mockConnection.execute.mockResolvedValueOnce([createRow(1), createRow(2)]);
+
+			const stream = await store.load('agg-1');
+
+			expect(mockConnection.execute).toHaveBeenCalledWith(expect.stringContaining('order by event_version asc'), [
+				'agg-1'
+			]);
+			expect(stream.aggregateId).toBe('agg-1');
+			expect(stream.version).toBe(2);
+			expect(stream.events[0].eventId).toBe('evt-1');
+			expect(stream.events[0].tenantId).toBe('tenant-1');
+			expect(stream.events[0].schemaVersion).toBe(2);
+			expect(stream.events[0].status).toBe(StoredEventStatus.PENDING);
+			expect(stream.events[0].occurredAt).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+			expect(stream.events[0].metadata).toBeUndefined();
+			expect(stream.events[0].position).toBe(101);
+		});
+
+		it('无事件时应返回空事件流', async () => {
+			mockConnection.execute.mockResolvedValueOnce([]);
+
+			const stream = await store.load('agg-1');
+
+			expect(stream.hasEvents()).toBe(false);
+			expect(stream.version).toBe(0);
+		});
+	});
+
+	describe('loadFromVersion', () => {
+		it('应只查询指定版本之后的事件', async () => {
+			mockConnection.execute.mockResolvedValueOnce([createRow(3)]);
+
+			const stream = await store.loadFromVersion('agg-1', 2);
+
+			expect(mockConnection.execute).toHaveBeenCalledWith(expect.stringContaining('event_version > ?'), [
+				'agg-1',
+				2
+			]);
+			expect(stream.count).toBe(1);
+			expect(stream.version).toBe(3);
+		});
+	});
+
+	describe('loadUntil', () => {
+		it('传入时间时应截取到该时刻之前的最大版本', async () => {
+			const asOf = new Date('2024-01-01T00:00:00.000Z');
+			mockConnection.execute.mockResolvedValueOnce([createRow(1), createRow(2)]);
+
+			const stream = await store.loadUntil('agg-1', asOf);
+
+			const [sql, params] = mockConnection.execute.mock.calls[0];
+			expect(sql).toContain(
+				'event_version <= (select max(event_version) from event_store where aggregate_id = ? and occurred_at <= ?)'
+			);
+			expect(params).toEqual(['agg-1', 'agg-1', asOf]);
+			expect(stream.version).toBe(2);
+		});
+
+		it('传入版本时应按事件流版本截取', async () => {
+			mockConnection.execute.mockResolvedValueOnce([createRow(1)]);
+
+			const stream = await store.loadUntil('agg-1', 1);
+
+			expect(mockConnection.execute).toHaveBeenCalledWith(expect.stringContaining('event_version <= ?'), [
+				'agg-1',
+				1
+			]);
+			expect(stream.count).toBe(1);
+		});
+	});
+
+	describe('readAll', () => {
+		it('应按全局位置升序读取指定位置之后的事件', async () => {
+			mockConnection.execute.mockResolvedValueOnce([createRow(1), createRow(2)]);
+
+			const events = await store.readAll(100, 50);
+
+			const [sql, params] = mockConnection.execute.mock.calls[0];
+			expect(sql).toContain('where position > ?');
+			expect(sql).toContain('order by position asc');
+			expect(params).toEqual([100, 50]);
+			expect(events.map((e) => e.position)).toEqual([101, 102]);
+		});
+
+		it('应按租户、聚合与事件名称过滤', async () => {
+			mockConnection.execute.mockResolvedValueOnce([]);
+
+			await store.readAll(0, 10, {
+				tenantId: 'tenant-1',
+				aggregateId: 'agg-1',
+				eventNames: ['TenantCreated', 'TenantActivated']
+			});
+
+			const [sql, params] = mockConnection.execute.mock.calls[0];
+			expect(sql).toContain('position > ? and tenant_id = ? and aggregate_id = ? and event_name in (?)');
+			expect(params).toEqual([0, 'tenant-1', 'agg-1', ['TenantCreated', 'TenantActivated'], 10]);
+		});
+
+		it('空的事件名称列表不应参与过滤', async () => {
+			mockConnection.execute.mockResolvedValueOnce([]);
+
+			await store.readAll(0, 10, { eventNames: [] });
+
+			expect(mockConnection.execute.mock.calls[0][0]).not.toContain('event_name in');
+		});
+	});
+
+	describe('hasEvents', () => {
+		it('存在事件时应返回 true', async () => {
+			mockConnection.execute.mockResolvedValueOnce([{ exists: true }]);
+
+			await expect(store.hasEvents('agg-1')).resolves.toBe(true);
+		});
+
+		it('不存在事件时应返回 false', async () => {
+			mockConnection.execute.mockResolvedValueOnce([]);
+
+			await expect(store.hasEvents('agg-1')).resolves.toBe(false);
+		});
+	});
+});
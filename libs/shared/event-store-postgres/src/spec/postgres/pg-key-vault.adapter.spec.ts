@@ -0,0 +1,98 @@
+import { MikroORM } from '@mikro-orm/core';
+import { PgKeyVault } from '../../lib/postgres/pg-key-vault.adapter';
+
+/**
+ * 模拟 DatabaseTransactionHost 类型
+ * 用于测试，因为 @oksai/database 尚未实现该类
+ */
+interface MockDatabaseTransactionHost {
+	getCurrentEntityManager: jest.Mock;
+}
+
+describe('PgKeyVault', () => {
+	let vault: PgKeyVault;
+	let mockConnection: { execute: jest.Mock };
+	let mockTxHost: MockDatabaseTransactionHost;
+	const key = Buffer.alloc(32, 7);
+
+	beforeEach(() => {
+		mockConnection = {
+			execute: jest.fn()
+		};
+
+		const mockOrm = {
+			em: { getConnection: jest.fn().mockReturnValue(mockConnection) } as unknown
+		};
+
+		mockTxHost = {
+			getCurrentEntityManager: jest.fn().mockReturnValue(null)
+		};
+
+		vault = new PgKeyVault(mockOrm as MikroORM, mockTxHost as any);
+	});
+
+	describe('getOrCreateKey', () => {
+		it('已有密钥时应直接返回', async () => {
+			mockConnection.execute.mockResolvedValueOnce([{ key_material: key, destroyed_at: null }]);
+
+			await expect(vault.getOrCreateKey('user-1')).resolves.toEqual(key);
+			expect(mockConnection.execute).toHaveBeenCalledTimes(1);
+		});
+
+		it('没有密钥时应生成并以数据库中的记录为准', async () => {
+			mockConnection.execute
+				.mockResolvedValueOnce([])
+				.mockResolvedValueOnce({ rowCount: 1 })
+				.mockResolvedValueOnce([{ key_material: key, destroyed_at: null }]);
+
+			const result = await vault.getOrCreateKey('user-1', 'tenant-1');
+
+			const [sql, params] = mockConnection.execute.mock.calls[1];
+			expect(sql).toContain('on conflict (subject_id) do nothing');
+			expect(params).toEqual([expect.any(String), 'user-1', 'tenant-1', expect.any(Buffer), expect.any(Date)]);
+			expect((params[3] as Buffer).length).toBe(32);
+			expect(result).toEqual(key);
+		});
+
+		it('密钥已销毁时应拒绝创建', async () => {
+			mockConnection.execute.mockResolvedValueOnce([{ key_material: null, destroyed_at: new Date() }]);
+
+			await expect(vault.getOrCreateKey('user-1')).rejects.toThrow('主体密钥已销毁');
+		});
+	});
+
+	describe('getKey', () => {
+		it('应返回未销毁的密钥', async () => {
+			mockConnection.execute.mockResolvedValueOnce([{ key_material: key, destroyed_at: null }]);
+
+			await expect(vault.getKey('user-1')).resolves.toEqual(key);
+		});
+
+		it('不存在或已销毁时应返回 null', async () => {
+			mockConnection.execute
+				.mockResolvedValueOnce([])
+				.mockResolvedValueOnce([{ key_material: null, destroyed_at: new Date() }]);
+
+			await expect(vault.getKey('user-1')).resolves.toBeNull();
+			await expect(vault.getKey('user-1')).resolves.toBeNull();
+		});
+	});
+
+	describe('destroyKey', () => {
+		it('应清空密钥并写入墓碑', async () => {
+			mockConnection.execute.mockResolvedValueOnce({ rowCount: 1 });
+
+			await vault.destroyKey('user-1');
+
+			const [sql, params] = mockConnection.execute.mock.calls[0];
+			expect(sql).toContain('do update set key_material = null');
+			expect(params).toEqual([expect.any(String), 'user-1', expect.any(Date), expect.any(Date)]);
+		});
+
+		it('数据库错误应包装为销毁失败', async () => {
+			mockConnection.execute.mockRejectedValueOnce(new Error('connection lost'));
+
+			await expect(vault.destroyKey('user-1')).rejects.toThrow('主体密钥销毁失败');
+		});
+	});
+});
@@ -0,0 +1,129 @@
+import { MikroORM } from '@mikro-orm/core';
+import { Snapshot } from '@oksai/event-store';
+import { PgSnapshotStore } from '../../lib/postgres/pg-snapshot-store.adapter';
+
+/**
+ * 模拟 DatabaseTransactionHost 类型
+ * 用于测试，因为 @oksai/database 尚未实现该类
+ */
+interface MockDatabaseTransactionHost {
+	getCurrentEntityManager: jest.Mock;
+}
+
+function createSnapshot(tenantId: string | null = 'tenant-1'): Snapshot {
+	return Snapshot.create({
+		aggregateId: 'agg-1',
+		aggregateType: 'Tenant',
+		tenantId: tenantId ?? undefined,
+		version: 100,
+		schemaVersion: 2,
+		state: { name: 'Acme' }
+	});
+}
+
+describe('PgSnapshotStore', () => {
+	let store: PgSnapshotStore;
+	let mockConnection: { execute: jest.Mock };
+	let mockEm: { getConnection: jest.Mock };
+	let mockOrm: { em: unknown };
+	let mockTxHost: MockDatabaseTransactionHost;
+
+	beforeEach(() => {
+		mockConnection = {
+			execute: jest.fn()
+		};
+
+		mockEm = {
+			getConnection: jest.fn().mockReturnValue(mockConnection)
+		};
+
+		mockOrm = {
+			em: mockEm as unknown
+		};
+
+		mockTxHost = {
+			getCurrentEntityManager: jest.fn().mockReturnValue(mockEm)
+		};
+
+		store = new PgSnapshotStore(mockOrm as MikroORM, mockTxHost as any);
+	});
+
+	describe('save', () => {
+		it('应以 upsert 方式保存快照', async () => {
+			mockConnection.execute.mockResolvedValueOnce({ rowCount: 1 });
+
+			await store.save(createSnapshot());
+
+			expect(mockConnection.execute).toHaveBeenCalledWith(
+				expect.stringContaining('on conflict (aggregate_id, version)'),
+				expect.arrayContaining(['tenant-1', 'agg-1', 'Tenant', 100, 2, { name: 'Acme' }])
+			);
+		});
+
+		it('缺少 tenantId 时应拒绝保存', async () => {
+			await expect(store.save(createSnapshot(null))).rejects.toThrow('禁止保存无租户快照');
+			expect(mockConnection.execute).not.toHaveBeenCalled();
+		});
+
+		it('保存失败时应抛出错误', async () => {
+			mockConnection.execute.mockRejectedValueOnce(new Error('connection lost'));
+
+			await expect(store.save(createSnapshot())).rejects.toThrow('快照保存失败');
+		});
+	});
+
+	describe('loadLatest', () => {
+		it('应返回版本最高的快照', async () => {
+			mockConnection.execute.mockResolvedValueOnce([
+				{
+					tenant_id: 'tenant-1',
+					aggregate_id: 'agg-1',
+					aggregate_type: 'Tenant',
+					version: '100',
+					schema_version: '2',
+					state: { name: 'Acme' },
+					created_at: '2024-01-01T00:00:00.000Z'
+				}
+			]);
+
+			const snapshot = await store.loadLatest('agg-1');
+
+			expect(mockConnection.execute).toHaveBeenCalledWith(expect.stringContaining('order by version desc'), [
+				'agg-1'
+			]);
+			expect(snapshot).not.toBeNull();
+			expect(snapshot?.version).toBe(100);
+			expect(snapshot?.schemaVersion).toBe(2);
+			expect(snapshot?.state).toEqual({ name: 'Acme' });
+			expect(snapshot?.createdAt).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+		});
+
+		it('不存在快照时应返回 null', async () => {
+			mockConnection.execute.mockResolvedValueOnce([]);
+
+			await expect(store.loadLatest('agg-1')).resolves.toBeNull();
+		});
+
+		it('无当前事务时应使用 orm.em', async () => {
+			mockTxHost.getCurrentEntityManager.mockReturnValue(null);
+			mockConnection.execute.mockResolvedValueOnce([]);
+
+			await store.loadLatest('agg-1');
+
+			expect(mockEm.getConnection).toHaveBeenCalled();
+		});
+	});
+
+	describe('delete', () => {
+		it('应删除聚合的全部快照', async () => {
+			mockConnection.execute.mockResolvedValueOnce([]);
+
+			await store.delete('agg-1');
+
+			expect(mockConnection.execute).toHaveBeenCalledWith(
+				expect.stringContaining('delete from event_store_snapshot where aggregate_id = ?'),
+				['agg-1']
+			);
+		});
+	});
+});
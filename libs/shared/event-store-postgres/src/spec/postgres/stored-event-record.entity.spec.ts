@@ -0,0 +1,40 @@
+import { StoredEventRecordEntity } from '../../lib/postgres/stored-event-record.entity';
+
+describe('StoredEventRecordEntity', () => {
+	describe('属性定义', () => {
+		it('应具有 id 属性并自动生成 UUID', () => {
+			const entity = new StoredEventRecordEntity();
+			expect(entity.id).toBeDefined();
+			expect(typeof entity.id).toBe('string');
+			expect(entity.id.length).toBe(36);
+		});
+
+		it('应具有事件标识与聚合属性', () => {
+			const entity = new StoredEventRecordEntity();
+			entity.eventId = 'evt-1';
+			entity.tenantId = 'tenant-1';
+			entity.aggregateId = 'agg-1';
+			entity.eventName = 'TenantCreated';
+			entity.eventVersion = 1;
+
+			expect(entity.eventId).toBe('evt-1');
+			expect(entity.tenantId).toBe('tenant-1');
+			expect(entity.aggregateId).toBe('agg-1');
+			expect(entity.eventName).toBe('TenantCreated');
+			expect(entity.eventVersion).toBe(1);
+		});
+
+		it('应具有可选的 metadata 属性', () => {
+			const entity = new StoredEventRecordEntity();
+			expect(entity.metadata).toBeUndefined();
+			entity.metadata = { userId: 'u-1' };
+			expect(entity.metadata).toEqual({ userId: 'u-1' });
+		});
+
+		it('应自动设置 createdAt', () => {
+			const before = new Date();
+			const entity = new StoredEventRecordEntity();
+			expect(entity.createdAt.getTime()).toBeGreaterThanOrEqual(before.getTime());
+		});
+	});
+});
@@ -10,10 +10,71 @@
 export { StoredEvent, type StoredEventProps, StoredEventStatus } from './lib/stored-event.entity';
 
 // 值对象
-export { EventStream } from './lib/event-stream.vo';
+export { EventStream, type PointInTime } from './lib/event-stream.vo';
 
 // 端口
-export { type EventStorePort } from './lib/event-store.port';
+export { type EventStorePort, type ReadAllFilter } from './lib/event-store.port';
+
+// 仓储
+export { EventSourcedRepository, type EventSourcedRepositoryOptions } from './lib/event-sourced.repository';
+
+// 错误
+export { OptimisticLockError } from './lib/optimistic-lock.error';
+
+// 快照
+export {
+	Snapshot,
+	type SnapshotProps,
+	type SnapshotStorePort,
+	SnapshotPolicy,
+	DEFAULT_SNAPSHOT_FREQUENCY,
+	DEFAULT_SNAPSHOT_SCHEMA_VERSION,
+	type SnapshotPolicyOptions,
+	type AggregateSnapshotOptions,
+	SnapshotEventLoader,
+	type SnapshotLoadResult,
+	type SaveSnapshotIfDueParams
+} from './lib/snapshot';
+
+// 事件升级
+export {
+	type EventUpcaster,
+	UpcasterRegistry,
+	UpcastingEventStore,
+	assertUpcasterFixtures,
+	type UpcasterFixture
+} from './lib/upcasting';
+
+// PII 加密擦除
+export {
+	type KeyVaultPort,
+	CryptoShredder,
+	isEncryptedPiiValue,
+	type EncryptedPiiValue,
+	type PiiProtectionTarget,
+	type ErasePiiSubjectOptions,
+	CryptoShreddingEventStore,
+	type PiiFieldPolicy
+} from './lib/crypto-shredding';
+
+// 投影
+export {
+	type CheckpointStorePort,
+	type EventProjection,
+	ProjectionRunner,
+	DEFAULT_PROJECTION_BATCH_SIZE,
+	type ProjectionRunnerOptions
+} from './lib/projection';
+
+// 测试替身与断言
+export {
+	InMemoryEventStore,
+	InMemoryCheckpointStore,
+	type ExpectedStoredEvent,
+	assertEventAppended,
+	assertNoEventAppended,
+	isPartialMatch
+} from './lib/testing';
 
 // 审计信息
 export { type AuditInfo, type AggregateRootOptions } from './lib/audit-info.interface';
@@ -0,0 +1,211 @@
+/**
+ * PII 加密擦除器
+ *
+ * 使用主体密钥（AES-256-GCM）加密负载中的 PII 字段，销毁密钥后这些字段永久不可解密：
+ * - protect：把指定字段替换为加密信封 `{ $pii: { v, subjectId, iv, tag, data } }`
+ * - reveal：解密负载中的所有加密信封；密钥已销毁的字段还原为 null
+ * - erase：销毁主体密钥（GDPR 删除权），并删除相关聚合的快照（快照状态为明文）
+ *
+ * 只处理负载的顶层字段；非 PII 字段保持明文，便于投影与排查。
+ *
+ * @example
+ * ```typescript
+ * const shredder = new CryptoShredder(keyVault);
+ *
+ * const payload = await shredder.protect(
+ *   { userId: 'user-1', email: 'a@example.com' },
+ *   { subjectId: 'user-1', tenantId: 'tenant-1', fields: ['email'] }
+ * );
+ * await shredder.reveal(payload); // { userId: 'user-1', email: 'a@example.com' }
+ *
+ * await shredder.erase('user-1');
+ * await shredder.reveal(payload); // { userId: 'user-1', email: null }
+ * ```
+ */
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { type SnapshotStorePort } from '../snapshot/snapshot-store.port';
+import { type KeyVaultPort } from './key-vault.port';
+
+const ALGORITHM = 'aes-256-gcm';
+const ENVELOPE_VERSION = 1;
+
+/**
+ * 加密后的 PII 字段信封
+ */
+export interface EncryptedPiiValue {
+	$pii: {
+		/**
+		 * 信封格式版本
+		 */
+		v: number;
+
+		/**
+		 * 数据主体 ID（解密时据此取密钥）
+		 */
+		subjectId: string;
+
+		/**
+		 * 初始化向量（base64）
+		 */
+		iv: string;
+
+		/**
+		 * GCM 认证标签（base64）
+		 */
+		tag: string;
+
+		/**
+		 * 密文（base64，明文为字段值的 JSON）
+		 */
+		data: string;
+	};
+}
+
+/**
+ * PII 加密目标
+ */
+export interface PiiProtectionTarget {
+	/**
+	 * 数据主体 ID
+	 */
+	subjectId: string;
+
+	/**
+	 * 租户 ID（可选，创建密钥时记录）
+	 */
+	tenantId?: string;
+
+	/**
+	 * 需要加密的顶层字段
+	 */
+	fields: readonly string[];
+}
+
+/**
+ * 判断字段值是否为加密信封
+ */
+export function isEncryptedPiiValue(value: unknown): value is EncryptedPiiValue {
+	const envelope = (value as Partial<EncryptedPiiValue> | null)?.$pii;
+	return typeof envelope === 'object' && envelope !== null && typeof envelope.subjectId === 'string';
+}
+
+/**
+ * 擦除选项
+ */
+export interface ErasePiiSubjectOptions {
+	/**
+	 * 状态中含该主体 PII 的其他聚合 ID（其快照一并删除；主体自身的聚合 ID 总会处理）
+	 */
+	aggregateIds?: readonly string[];
+}
+
+export class CryptoShredder {
+	/**
+	 * @param keyVault - 主体密钥库
+	 * @param snapshotStore - 快照存储（可选；配置后 erase 同时删除快照，聚合下次加载时从事件流重放）
+	 */
+	constructor(
+		private readonly keyVault: KeyVaultPort,
+		private readonly snapshotStore?: SnapshotStorePort
+	) {}
+
+	/**
+	 * 加密负载中的 PII 字段
+	 *
+	 * @param payload - 原始负载（不会被修改）
+	 * @param target - 加密目标
+	 * @returns 加密后的负载副本
+	 */
+	public async protect(
+		payload: Record<string, unknown>,
+		target: PiiProtectionTarget
+	): Promise<Record<string, unknown>> {
+		const fields = target.fields.filter(
+			(f) => payload[f] !== undefined && payload[f] !== null && !isEncryptedPiiValue(payload[f])
+		);
+		if (fields.length === 0) {
+			return payload;
+		}
+
+		const key = await this.keyVault.getOrCreateKey(target.subjectId, target.tenantId);
+		const result = { ...payload };
+		for (const field of fields) {
+			result[field] = encrypt(key, target.subjectId, payload[field]);
+		}
+		return result;
+	}
+
+	/**
+	 * 解密负载中的所有加密字段
+	 *
+	 * @param payload - 可能包含加密信封的负载（不会被修改）
+	 * @param keyCache - 密钥缓存（可选，批量解密时复用，避免重复读取密钥库）
+	 * @returns 解密后的负载副本；密钥已销毁的字段为 null
+	 * @throws Error 密文被篡改或密钥不匹配时
+	 */
+	public async reveal(
+		payload: Record<string, unknown>,
+		keyCache: Map<string, Buffer | null> = new Map()
+	): Promise<Record<string, unknown>> {
+		const fields = Object.keys(payload).filter((f) => isEncryptedPiiValue(payload[f]));
+		if (fields.length === 0) {
+			return payload;
+		}
+
+		const result = { ...payload };
+		for (const field of fields) {
+			const envelope = (payload[field] as EncryptedPiiValue).$pii;
+			if (!keyCache.has(envelope.subjectId)) {
+				keyCache.set(envelope.subjectId, await this.keyVault.getKey(envelope.subjectId));
+			}
+			const key = keyCache.get(envelope.subjectId);
+			result[field] = key ? decrypt(key, field, envelope) : null;
+		}
+		return result;
+	}
+
+	/**
+	 * 擦除数据主体：销毁其密钥，使所有历史事件中的 PII 字段不可解密；并删除相关聚合的快照
+	 *
+	 * 先销毁密钥再删除快照：删除失败时可安全重试（销毁密钥幂等）。
+	 *
+	 * @param subjectId - 数据主体 ID（同时作为聚合 ID 删除其快照，对应 PII 策略默认以 aggregateId 为主体）
+	 * @param options - 擦除选项
+	 */
+	public async erase(subjectId: string, options: ErasePiiSubjectOptions = {}): Promise<void> {
+		await this.keyVault.destroyKey(subjectId);
+		if (!this.snapshotStore) {
+			return;
+		}
+		for (const aggregateId of new Set([subjectId, ...(options.aggregateIds ?? [])])) {
+			await this.snapshotStore.delete(aggregateId);
+		}
+	}
+}
+
+function encrypt(key: Buffer, subjectId: string, value: unknown): EncryptedPiiValue {
+	const iv = randomBytes(12);
+	const cipher = createCipheriv(ALGORITHM, key, iv);
+	const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+	return {
+		$pii: {
+			v: ENVELOPE_VERSION,
+			subjectId,
+			iv: iv.toString('base64'),
+			tag: cipher.getAuthTag().toString('base64'),
+			data: data.toString('base64')
+		}
+	};
+}
+
+function decrypt(key: Buffer, field: string, envelope: EncryptedPiiValue['$pii']): unknown {
+	try {
+		const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(envelope.iv, 'base64'));
+		decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+		const plain = Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]);
+		return JSON.parse(plain.toString('utf8'));
+	} catch (err: unknown) {
+		const msg = err instanceof Error ? err.message : '未知错误';
+		throw new Error(`PII 字段解密失败：field=${field}，subjectId=${envelope.subjectId}。原因：${msg}`);
+	}
+}
@@ -0,0 +1,104 @@
+/**
+ * 带 PII 加密擦除的事件存储
+ *
+ * 装饰任意 EventStorePort 实现：
+ * - append 前按事件名称查找 PII 策略，用主体密钥加密对应字段
+ * - load / loadFromVersion / loadUntil / readAll 后解密；主体已被擦除的字段为 null
+ *
+ * 事件流本身（事件 ID、版本、非 PII 字段）始终保持完整，擦除不会破坏追加写入语义。
+ * 与 UpcastingEventStore 组合时，应让本装饰器位于内层（先解密再升级）。
+ *
+ * @example
+ * ```typescript
+ * const eventStore = new CryptoShreddingEventStore(pgEventStore, new CryptoShredder(keyVault), {
+ *   UserRegistered: { fields: ['email'], subjectIdField: 'userId' }
+ * });
+ * ```
+ */
+import { EventStream, type PointInTime } from '../event-stream.vo';
+import { type EventStorePort, type ReadAllFilter } from '../event-store.port';
+import { StoredEvent } from '../stored-event.entity';
+import { CryptoShredder } from './crypto-shredder';
+
+/**
+ * 事件的 PII 字段策略
+ */
+export interface PiiFieldPolicy {
+	/**
+	 * 需要加密的顶层负载字段
+	 */
+	fields: readonly string[];
+
+	/**
+	 * 数据主体 ID 所在的负载字段（默认使用 aggregateId）
+	 */
+	subjectIdField?: string;
+}
+
+export class CryptoShreddingEventStore implements EventStorePort {
+	constructor(
+		private readonly inner: EventStorePort,
+		private readonly shredder: CryptoShredder,
+		private readonly policies: Readonly<Record<string, PiiFieldPolicy>>
+	) {}
+
+	public async append(aggregateId: string, events: StoredEvent[], expectedVersion?: number): Promise<void> {
+		const protectedEvents = await Promise.all(events.map((e) => this.protect(e)));
+		return this.inner.append(aggregateId, protectedEvents, expectedVersion);
+	}
+
+	public async load(aggregateId: string): Promise<EventStream> {
+		return this.revealStream(await this.inner.load(aggregateId));
+	}
+
+	public async loadFromVersion(aggregateId: string, fromVersion: number): Promise<EventStream> {
+		return this.revealStream(await this.inner.loadFromVersion(aggregateId, fromVersion));
+	}
+
+	public async loadUntil(aggregateId: string, asOf: PointInTime): Promise<EventStream> {
+		return this.revealStream(await this.inner.loadUntil(aggregateId, asOf));
+	}
+
+	public hasEvents(aggregateId: string): Promise<boolean> {
+		return this.inner.hasEvents(aggregateId);
+	}
+
+	public async readAll(fromPosition: number, limit: number, filter?: ReadAllFilter): Promise<StoredEvent[]> {
+		return this.revealAll(await this.inner.readAll(fromPosition, limit, filter));
+	}
+
+	private async protect(event: StoredEvent): Promise<StoredEvent> {
+		const policy = this.policies[event.eventName];
+		if (!policy) {
+			return event;
+		}
+
+		const subjectId = policy.subjectIdField ? event.payload[policy.subjectIdField] : event.aggregateId;
+		if (typeof subjectId !== 'string' || subjectId.length === 0) {
+			throw new Error(
+				`PII 加密失败：事件 ${event.eventName} 缺少数据主体 ID（字段 ${policy.subjectIdField ?? 'aggregateId'}）。`
+			);
+		}
+
+		const payload = await this.shredder.protect(event.payload, {
+			subjectId,
+			tenantId: event.tenantId,
+			fields: policy.fields
+		});
+		return payload === event.payload ? event : event.withPayload(payload, event.schemaVersion);
+	}
+
+	private async revealAll(events: readonly StoredEvent[]): Promise<StoredEvent[]> {
+		const keyCache = new Map<string, Buffer | null>();
+		const result: StoredEvent[] = [];
+		for (const event of events) {
+			const payload = await this.shredder.reveal(event.payload, keyCache);
+			result.push(payload === event.payload ? event : event.withPayload(payload, event.schemaVersion));
+		}
+		return result;
+	}
+
+	private async revealStream(stream: EventStream): Promise<EventStream> {
+		return EventStream.create(stream.aggregateId, await this.revealAll(stream.events));
+	}
+}
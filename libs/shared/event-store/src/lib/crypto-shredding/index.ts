@@ -0,0 +1,9 @@
+export { type KeyVaultPort } from './key-vault.port';
+export {
+	CryptoShredder,
+	isEncryptedPiiValue,
+	type EncryptedPiiValue,
+	type PiiProtectionTarget,
+	type ErasePiiSubjectOptions
+} from './crypto-shredder';
+export { CryptoShreddingEventStore, type PiiFieldPolicy } from './crypto-shredding-event-store';
@@ -0,0 +1,51 @@
+/**
+ * 主体密钥库端口
+ *
+ * 为每个数据主体（通常是用户）保存一把独立的数据密钥，用于加密事件中的 PII 字段。
+ * 销毁密钥即完成加密擦除（crypto-shredding）：历史事件保持不变，但其中的 PII 字段永久不可解密。
+ *
+ * @example
+ * ```typescript
+ * class PostgresKeyVault implements KeyVaultPort {
+ *   async getOrCreateKey(subjectId: string, tenantId?: string): Promise<Buffer> {
+ *     // 读取密钥，不存在时生成并保存
+ *   }
+ *
+ *   async getKey(subjectId: string): Promise<Buffer | null> {
+ *     // 读取密钥，不存在或已销毁时返回 null
+ *   }
+ *
+ *   async destroyKey(subjectId: string): Promise<void> {
+ *     // 删除密钥并记录销毁时间
+ *   }
+ * }
+ * ```
+ */
+export interface KeyVaultPort {
+	/**
+	 * 获取主体的数据密钥，不存在时创建
+	 *
+	 * @param subjectId - 数据主体 ID
+	 * @param tenantId - 租户 ID（可选，用于按租户排查）
+	 * @returns 32 字节 AES-256 密钥
+	 * @throws Error 主体密钥已被销毁时（禁止为已擦除的主体重新写入 PII）
+	 */
+	getOrCreateKey(subjectId: string, tenantId?: string): Promise<Buffer>;
+
+	/**
+	 * 获取主体的数据密钥
+	 *
+	 * @param subjectId - 数据主体 ID
+	 * @returns 密钥，不存在或已销毁时返回 null
+	 */
+	getKey(subjectId: string): Promise<Buffer | null>;
+
+	/**
+	 * 销毁主体的数据密钥（不可恢复）
+	 *
+	 * 重复销毁应为幂等操作。
+	 *
+	 * @param subjectId - 数据主体 ID
+	 */
+	destroyKey(subjectId: string): Promise<void>;
+}
@@ -0,0 +1,103 @@
+/**
+ * 事件溯源仓储
+ *
+ * 基于 EventStorePort 的通用聚合仓储：
+ * - load：加载事件流并通过聚合的 apply 处理器重放，事件流为空时返回 null
+ * - save：把待提交的领域事件按顺序分配事件流版本，以聚合当前版本作为 expectedVersion 追加，
+ *   成功后推进聚合版本并清除领域事件；DomainEvent.eventVersion 记录为负载结构版本（schemaVersion）
+ *
+ * 并发冲突时由事件存储抛出 OptimisticLockError，领域事件保持未提交状态，调用方可重新加载后重试。
+ *
+ * @template T - 事件溯源聚合根类型
+ *
+ * @example
+ * ```typescript
+ * const tenantRepository = new EventSourcedRepository<Tenant>(eventStore, {
+ *   rehydrate: (aggregateId, events) => Tenant.fromHistory(new UniqueEntityID(aggregateId), events),
+ *   resolveTenantId: (tenant) => tenant.id.toString()
+ * });
+ *
+ * const tenant = await tenantRepository.load('tenant-123');
+ * tenant?.activate();
+ * await tenantRepository.save(tenant!);
+ * ```
+ */
+import { type EventSourcedAggregateRoot } from '@oksai/kernel';
+import { type EventStorePort } from './event-store.port';
+import { StoredEvent, StoredEventStatus } from './stored-event.entity';
+
+/**
+ * 事件溯源仓储配置
+ */
+export interface EventSourcedRepositoryOptions<T extends EventSourcedAggregateRoot<unknown>> {
+	/**
+	 * 从历史事件重建聚合
+	 */
+	rehydrate: (aggregateId: string, events: readonly StoredEvent[]) => T;
+
+	/**
+	 * 解析聚合所属租户 ID（写入 StoredEvent.tenantId）
+	 */
+	resolveTenantId: (aggregate: T) => string | undefined;
+
+	/**
+	 * 附加到每个事件的元数据（可选，如 userId、requestId）
+	 */
+	resolveMetadata?: (aggregate: T) => Record<string, unknown> | undefined;
+}
+
+export class EventSourcedRepository<T extends EventSourcedAggregateRoot<unknown>> {
+	constructor(
+		protected readonly eventStore: EventStorePort,
+		protected readonly options: EventSourcedRepositoryOptions<T>
+	) {}
+
+	/**
+	 * 加载聚合
+	 *
+	 * @param aggregateId - 聚合根 ID
+	 * @returns 重建后的聚合，不存在时返回 null
+	 */
+	public async load(aggregateId: string): Promise<T | null> {
+		const stream = await this.eventStore.load(aggregateId);
+		if (!stream.hasEvents()) {
+			return null;
+		}
+		return this.options.rehydrate(aggregateId, stream.events);
+	}
+
+	/**
+	 * 保存聚合的待提交事件
+	 *
+	 * @param aggregate - 聚合根
+	 * @throws OptimisticLockError 事件流版本与聚合版本不一致时
+	 */
+	public async save(aggregate: T): Promise<void> {
+		if (!aggregate.hasDomainEvents()) {
+			return;
+		}
+
+		const aggregateId = aggregate.id.toString();
+		const expectedVersion = aggregate.version;
+		const tenantId = this.options.resolveTenantId(aggregate);
+		const metadata = this.options.resolveMetadata?.(aggregate);
+
+		const events = aggregate.domainEvents.map((event, index) =>
+			StoredEvent.fromProps({
+				eventId: event.eventId,
+				eventName: event.eventName,
+				aggregateId,
+				tenantId,
+				payload: event.payload as Record<string, unknown>,
+				eventVersion: expectedVersion + index + 1,
+				schemaVersion: event.eventVersion,
+				occurredAt: event.occurredAt,
+				status: StoredEventStatus.PENDING,
+				metadata
+			})
+		);
+
+		await this.eventStore.append(aggregateId, events, expectedVersion);
+		aggregate.markEventsCommitted(expectedVersion + events.length);
+	}
+}
@@ -19,7 +19,29 @@
  * ```
  */
 import { StoredEvent } from './stored-event.entity';
-import { EventStream } from './event-stream.vo';
+import { EventStream, type PointInTime } from './event-stream.vo';
+
+/**
+ * 全局事件流过滤条件
+ *
+ * 各条件之间为“且”关系，未设置的条件不参与过滤。
+ */
+export interface ReadAllFilter {
+	/**
+	 * 租户 ID
+	 */
+	tenantId?: string;
+
+	/**
+	 * 事件名称列表（命中任一即可）
+	 */
+	eventNames?: string[];
+
+	/**
+	 * 聚合根 ID
+	 */
+	aggregateId?: string;
+}
 
 export interface EventStorePort {
 	/**
@@ -43,12 +65,28 @@ export interface EventStorePort {
 	/**
 	 * 从指定版本开始加载事件流
 	 *
+	 * 仅返回版本号大于 fromVersion 的事件（与 `EventStream.getEventsAfterVersion` 语义一致），
+	 * 便于从快照版本继续回放。
+	 *
 	 * @param aggregateId - 聚合根 ID
-	 * @param fromVersion - 起始版本
+	 * @param fromVersion - 起始版本（不包含）
 	 * @returns 事件流
 	 */
 	loadFromVersion(aggregateId: string, fromVersion: number): Promise<EventStream>;
 
+	/**
+	 * 加载截止到指定时间点的事件流（时点查询）
+	 *
+	 * 用于审计场景重建聚合在某一时刻的状态：
+	 * - asOf 为 Date 时，返回 occurredAt 不晚于该时刻的事件
+	 * - asOf 为 number 时，返回版本号不大于该值的事件
+	 *
+	 * @param aggregateId - 聚合根 ID
+	 * @param asOf - 时间点（包含）
+	 * @returns 事件流
+	 */
+	loadUntil(aggregateId: string, asOf: PointInTime): Promise<EventStream>;
+
 	/**
 	 * 检查聚合根是否有事件
 	 *
@@ -56,4 +94,18 @@ export interface EventStorePort {
 	 * @returns 如果有事件返回 true
 	 */
 	hasEvents(aggregateId: string): Promise<boolean>;
+
+	/**
+	 * 按全局位置顺序读取所有聚合的事件（$all 流）
+	 *
+	 * 仅返回 position 大于 fromPosition 的事件，按 position 升序；
+	 * 返回的每个事件都携带 position，调用方以最后一个事件的 position 作为下一次读取的起点。
+	 * 过滤条件只影响返回结果，不影响位置的连续推进。
+	 *
+	 * @param fromPosition - 起始位置（不包含，0 表示从头读取）
+	 * @param limit - 最多返回的事件数
+	 * @param filter - 过滤条件（可选）
+	 * @returns 按全局位置升序排列的事件
+	 */
+	readAll(fromPosition: number, limit: number, filter?: ReadAllFilter): Promise<StoredEvent[]>;
 }
@@ -18,6 +18,15 @@
  */
 import { StoredEvent } from './stored-event.entity';
 
+/**
+ * 时间点
+ *
+ * - Date：截止到该时刻（含）发生的最大事件流版本，该版本及之前的事件全部包含
+ *   （occurred_at 由写入方提供，不保证随版本单调递增；按版本截取可避免跳过中间版本）
+ * - number：截止到该事件流版本（含）
+ */
+export type PointInTime = Date | number;
+
 export class EventStream {
 	/**
 	 * 聚合根 ID
@@ -71,6 +80,20 @@ export class EventStream {
 		return this.events.filter((e) => e.eventVersion > version);
 	}
 
+	/**
+	 * 截取到指定时间点的事件流
+	 *
+	 * @param asOf - 时间点（发生时间或事件流版本，均包含）
+	 * @returns 新的事件流
+	 */
+	public until(asOf: PointInTime): EventStream {
+		const version = asOf instanceof Date ? this.lastVersionAt(asOf) : asOf;
+		return new EventStream(
+			this.aggregateId,
+			this.events.filter((e) => e.eventVersion <= version)
+		);
+	}
+
 	/**
 	 * 检查是否有事件
 	 *
@@ -88,4 +111,14 @@ export class EventStream {
 	public get count(): number {
 		return this.events.length;
 	}
+
+	/**
+	 * 该时刻（含）之前发生的最大事件流版本，没有时返回 0
+	 */
+	private lastVersionAt(asOf: Date): number {
+		return this.events.reduce(
+			(max, e) => (e.occurredAt.getTime() <= asOf.getTime() ? Math.max(max, e.eventVersion) : max),
+			0
+		);
+	}
 }
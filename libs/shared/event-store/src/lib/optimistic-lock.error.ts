@@ -0,0 +1,43 @@
+/**
+ * 乐观锁冲突错误
+ *
+ * 当追加事件时事件流的实际版本与调用方期望的版本不一致时抛出。
+ * 通常意味着同一聚合根被并发修改，调用方应重新加载聚合后重试命令。
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await eventStore.append('task-123', events, 3);
+ * } catch (e) {
+ *   if (e instanceof OptimisticLockError) {
+ *     // 重新加载聚合并重试
+ *   }
+ * }
+ * ```
+ */
+export class OptimisticLockError extends Error {
+	/**
+	 * 聚合根 ID
+	 */
+	public readonly aggregateId: string;
+
+	/**
+	 * 期望的版本
+	 */
+	public readonly expectedVersion: number;
+
+	/**
+	 * 实际的版本（未知时为 undefined，例如唯一约束冲突时）
+	 */
+	public readonly actualVersion?: number;
+
+	constructor(aggregateId: string, expectedVersion: number, actualVersion?: number) {
+		super(
+			`事件流版本冲突：aggregateId=${aggregateId}，期望版本 ${expectedVersion}，实际版本 ${actualVersion ?? '未知'}。`
+		);
+		this.name = 'OptimisticLockError';
+		this.aggregateId = aggregateId;
+		this.expectedVersion = expectedVersion;
+		this.actualVersion = actualVersion;
+	}
+}
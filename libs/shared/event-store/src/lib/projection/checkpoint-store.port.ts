@@ -0,0 +1,36 @@
+/**
+ * 投影检查点存储端口
+ *
+ * 记录每个投影在全局事件流（readAll）中已处理到的位置，
+ * 使投影在重启后从上次位置继续，或重置为 0 后从头重建。
+ *
+ * @example
+ * ```typescript
+ * class PostgresCheckpointStore implements CheckpointStorePort {
+ *   async load(projectionName: string): Promise<number> {
+ *     // 读取检查点表，不存在时返回 0
+ *   }
+ *
+ *   async save(projectionName: string, position: number): Promise<void> {
+ *     // upsert 检查点
+ *   }
+ * }
+ * ```
+ */
+export interface CheckpointStorePort {
+	/**
+	 * 读取投影的检查点
+	 *
+	 * @param projectionName - 投影名称
+	 * @returns 已处理的最后位置，不存在时返回 0
+	 */
+	load(projectionName: string): Promise<number>;
+
+	/**
+	 * 保存投影的检查点
+	 *
+	 * @param projectionName - 投影名称
+	 * @param position - 已处理的最后位置（0 表示从头开始）
+	 */
+	save(projectionName: string, position: number): Promise<void>;
+}
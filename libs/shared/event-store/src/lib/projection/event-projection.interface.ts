@@ -0,0 +1,32 @@
+import { type ReadAllFilter } from '../event-store.port';
+import { StoredEvent } from '../stored-event.entity';
+
+/**
+ * 事件投影
+ *
+ * 由 ProjectionRunner 按全局位置顺序投递事件。
+ * 投递语义为至少一次（at-least-once），handle 必须幂等。
+ */
+export interface EventProjection {
+	/**
+	 * 投影名称（检查点的键，必须全局唯一且保持稳定）
+	 */
+	readonly name: string;
+
+	/**
+	 * 只订阅满足条件的事件（可选）
+	 */
+	readonly filter?: ReadAllFilter;
+
+	/**
+	 * 处理单个事件
+	 *
+	 * @param event - 携带 position 的存储事件
+	 */
+	handle(event: StoredEvent): Promise<void>;
+
+	/**
+	 * 清空读模型（可选，重建前调用）
+	 */
+	reset?(): Promise<void>;
+}
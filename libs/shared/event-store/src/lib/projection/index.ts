@@ -0,0 +1,3 @@
+export { type CheckpointStorePort } from './checkpoint-store.port';
+export { type EventProjection } from './event-projection.interface';
+export { ProjectionRunner, DEFAULT_PROJECTION_BATCH_SIZE, type ProjectionRunnerOptions } from './projection-runner';
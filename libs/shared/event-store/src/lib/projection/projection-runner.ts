@@ -0,0 +1,113 @@
+/**
+ * 投影运行器
+ *
+ * 从检查点位置读取全局事件流（readAll），按顺序投递给投影并推进检查点：
+ * - runOnce：处理一批事件
+ * - catchUp：连续处理直到追上事件流末尾（适合启动时或定时调用）
+ * - rebuild：重置读模型与检查点后从位置 0 重放
+ *
+ * 事件处理失败时，检查点停在最后一个成功处理的事件上并重新抛出错误，下次运行从失败事件继续。
+ *
+ * @example
+ * ```typescript
+ * const runner = new ProjectionRunner(eventStore, checkpointStore, aggregateMetadataProjection, {
+ *   batchSize: 500
+ * });
+ *
+ * await runner.catchUp(); // 重启后从上次位置继续
+ * await runner.rebuild(); // 从头重建读模型
+ * ```
+ */
+import { type EventStorePort } from '../event-store.port';
+import { type CheckpointStorePort } from './checkpoint-store.port';
+import { type EventProjection } from './event-projection.interface';
+
+/**
+ * 默认每批读取的事件数
+ */
+export const DEFAULT_PROJECTION_BATCH_SIZE = 100;
+
+/**
+ * 投影运行器配置
+ */
+export interface ProjectionRunnerOptions {
+	/**
+	 * 每批读取的事件数（默认 100）
+	 */
+	batchSize?: number;
+}
+
+export class ProjectionRunner {
+	private readonly batchSize: number;
+
+	constructor(
+		private readonly eventStore: EventStorePort,
+		private readonly checkpointStore: CheckpointStorePort,
+		private readonly projection: EventProjection,
+		options: ProjectionRunnerOptions = {}
+	) {
+		this.batchSize = options.batchSize ?? DEFAULT_PROJECTION_BATCH_SIZE;
+		if (!Number.isInteger(this.batchSize) || this.batchSize <= 0) {
+			throw new Error(`投影 ${projection.name} 的 batchSize 必须为正整数，实际为 ${this.batchSize}。`);
+		}
+	}
+
+	/**
+	 * 处理一批事件
+	 *
+	 * @returns 本批处理的事件数
+	 */
+	public async runOnce(): Promise<number> {
+		const from = await this.checkpointStore.load(this.projection.name);
+		const events = await this.eventStore.readAll(from, this.batchSize, this.projection.filter);
+		if (events.length === 0) {
+			return 0;
+		}
+
+		let checkpoint = from;
+		try {
+			for (const event of events) {
+				if (event.position === undefined) {
+					throw new Error(
+						`投影 ${this.projection.name} 收到缺少 position 的事件：eventId=${event.eventId}。`
+					);
+				}
+				await this.projection.handle(event);
+				checkpoint = event.position;
+			}
+		} finally {
+			if (checkpoint !== from) {
+				await this.checkpointStore.save(this.projection.name, checkpoint);
+			}
+		}
+
+		return events.length;
+	}
+
+	/**
+	 * 连续处理直到追上事件流末尾
+	 *
+	 * @returns 处理的事件总数
+	 */
+	public async catchUp(): Promise<number> {
+		let total = 0;
+		for (;;) {
+			const processed = await this.runOnce();
+			total += processed;
+			if (processed < this.batchSize) {
+				return total;
+			}
+		}
+	}
+
+	/**
+	 * 从位置 0 重建投影
+	 *
+	 * @returns 重放的事件总数
+	 */
+	public async rebuild(): Promise<number> {
+		await this.projection.reset?.();
+		await this.checkpointStore.save(this.projection.name, 0);
+		return this.catchUp();
+	}
+}
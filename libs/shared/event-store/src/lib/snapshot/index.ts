@@ -0,0 +1,10 @@
+export { Snapshot, type SnapshotProps } from './snapshot.vo';
+export { type SnapshotStorePort } from './snapshot-store.port';
+export {
+	SnapshotPolicy,
+	DEFAULT_SNAPSHOT_FREQUENCY,
+	DEFAULT_SNAPSHOT_SCHEMA_VERSION,
+	type SnapshotPolicyOptions,
+	type AggregateSnapshotOptions
+} from './snapshot-policy';
+export { SnapshotEventLoader, type SnapshotLoadResult, type SaveSnapshotIfDueParams } from './snapshot-event-loader';
@@ -0,0 +1,133 @@
+/**
+ * 基于快照的事件加载器
+ *
+ * 加载路径：读取最新快照 → 校验快照状态结构版本 → loadFromVersion(snapshot.version)。
+ * 快照缺失或过期时回退到完整加载，过期快照不会被解析。
+ *
+ * @example
+ * ```typescript
+ * const loader = new SnapshotEventLoader(eventStore, snapshotStore, policy);
+ *
+ * // 加载
+ * const { snapshot, stream } = await loader.load('Tenant', 'tenant-123');
+ * const tenant = snapshot ? Tenant.fromSnapshot(snapshot.state) : Tenant.empty();
+ * tenant.replay(stream.events);
+ *
+ * // 追加事件后按策略生成快照
+ * await loader.saveIfDue({
+ *   aggregateType: 'Tenant',
+ *   aggregateId: 'tenant-123',
+ *   tenantId: 'tenant-123',
+ *   previousVersion: 99,
+ *   version: 101,
+ *   state: () => tenant.toSnapshot()
+ * });
+ * ```
+ */
+import { EventStream } from '../event-stream.vo';
+import { type EventStorePort } from '../event-store.port';
+import { Snapshot } from './snapshot.vo';
+import { type SnapshotStorePort } from './snapshot-store.port';
+import { SnapshotPolicy } from './snapshot-policy';
+
+/**
+ * 快照加载结果
+ */
+export interface SnapshotLoadResult {
+	/**
+	 * 有效快照（缺失或过期时为 null）
+	 */
+	snapshot: Snapshot | null;
+
+	/**
+	 * 快照之后的事件流（无有效快照时为完整事件流）
+	 */
+	stream: EventStream;
+}
+
+/**
+ * 生成快照参数
+ */
+export interface SaveSnapshotIfDueParams {
+	/**
+	 * 聚合类型
+	 */
+	aggregateType: string;
+
+	/**
+	 * 聚合根 ID
+	 */
+	aggregateId: string;
+
+	/**
+	 * 租户 ID
+	 */
+	tenantId?: string;
+
+	/**
+	 * 追加前的事件流版本
+	 */
+	previousVersion: number;
+
+	/**
+	 * 追加后的事件流版本
+	 */
+	version: number;
+
+	/**
+	 * 聚合状态（仅在需要生成快照时调用）
+	 */
+	state: () => Record<string, unknown>;
+}
+
+export class SnapshotEventLoader {
+	constructor(
+		private readonly eventStore: EventStorePort,
+		private readonly snapshotStore: SnapshotStorePort,
+		private readonly policy: SnapshotPolicy
+	) {}
+
+	/**
+	 * 加载聚合的快照与后续事件
+	 *
+	 * @param aggregateType - 聚合类型
+	 * @param aggregateId - 聚合根 ID
+	 * @returns 快照加载结果
+	 */
+	public async load(aggregateType: string, aggregateId: string): Promise<SnapshotLoadResult> {
+		const latest = await this.snapshotStore.loadLatest(aggregateId);
+		const snapshot = latest && this.isUsable(aggregateType, latest) ? latest : null;
+
+		if (!snapshot) {
+			return { snapshot: null, stream: await this.eventStore.load(aggregateId) };
+		}
+		return { snapshot, stream: await this.eventStore.loadFromVersion(aggregateId, snapshot.version) };
+	}
+
+	/**
+	 * 按快照策略在追加事件后生成快照
+	 *
+	 * @param params - 生成快照参数
+	 * @returns 生成的快照，未到快照点时返回 null
+	 */
+	public async saveIfDue(params: SaveSnapshotIfDueParams): Promise<Snapshot | null> {
+		if (!this.policy.shouldSnapshot(params.aggregateType, params.previousVersion, params.version)) {
+			return null;
+		}
+
+		const snapshot = Snapshot.create({
+			aggregateId: params.aggregateId,
+			aggregateType: params.aggregateType,
+			tenantId: params.tenantId,
+			version: params.version,
+			schemaVersion: this.policy.getSchemaVersion(params.aggregateType),
+			state: params.state()
+		});
+		await this.snapshotStore.save(snapshot);
+		return snapshot;
+	}
+
+	private isUsable(aggregateType: string, snapshot: Snapshot): boolean {
+		return snapshot.aggregateType === aggregateType && !this.policy.isStale(snapshot);
+	}
+}
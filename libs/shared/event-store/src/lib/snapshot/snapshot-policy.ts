@@ -0,0 +1,134 @@
+/**
+ * 快照策略
+ *
+ * 按聚合类型配置快照频率与快照状态结构版本。
+ *
+ * 说明：
+ * - frequency 表示每追加多少个事件生成一次快照；小于等于 0 表示该类型不生成快照
+ * - schemaVersion 为当前代码期望的快照状态结构版本；与之不一致的快照视为过期
+ *
+ * @example
+ * ```typescript
+ * const policy = new SnapshotPolicy({
+ *   defaultFrequency: 100,
+ *   aggregates: {
+ *     Tenant: { frequency: 50, schemaVersion: 2 },
+ *     User: { frequency: 0 }
+ *   }
+ * });
+ *
+ * policy.shouldSnapshot('Tenant', 48, 52); // true（跨过了版本 50）
+ * ```
+ */
+import { Snapshot } from './snapshot.vo';
+
+/**
+ * 默认快照频率（每 100 个事件生成一次快照）
+ */
+export const DEFAULT_SNAPSHOT_FREQUENCY = 100;
+
+/**
+ * 默认快照状态结构版本
+ */
+export const DEFAULT_SNAPSHOT_SCHEMA_VERSION = 1;
+
+/**
+ * 单个聚合类型的快照配置
+ */
+export interface AggregateSnapshotOptions {
+	/**
+	 * 快照频率（事件数），未配置时使用 defaultFrequency
+	 */
+	frequency?: number;
+
+	/**
+	 * 快照状态结构版本，未配置时为 1
+	 */
+	schemaVersion?: number;
+}
+
+/**
+ * 快照策略配置
+ */
+export interface SnapshotPolicyOptions {
+	/**
+	 * 默认快照频率（默认 100）
+	 */
+	defaultFrequency?: number;
+
+	/**
+	 * 按聚合类型的配置
+	 */
+	aggregates?: Record<string, AggregateSnapshotOptions>;
+}
+
+export class SnapshotPolicy {
+	private readonly defaultFrequency: number;
+
+	private readonly aggregates: Record<string, AggregateSnapshotOptions>;
+
+	constructor(options: SnapshotPolicyOptions = {}) {
+		this.defaultFrequency = options.defaultFrequency ?? DEFAULT_SNAPSHOT_FREQUENCY;
+		this.aggregates = { ...(options.aggregates ?? {}) };
+
+		assertNonNegativeInteger('defaultFrequency', this.defaultFrequency);
+		for (const [aggregateType, cfg] of Object.entries(this.aggregates)) {
+			if (cfg.frequency !== undefined) assertNonNegativeInteger(`${aggregateType}.frequency`, cfg.frequency);
+			if (cfg.schemaVersion !== undefined && (!Number.isInteger(cfg.schemaVersion) || cfg.schemaVersion < 1)) {
+				throw new Error(`快照策略配置非法：${aggregateType}.schemaVersion 必须为正整数。`);
+			}
+		}
+	}
+
+	/**
+	 * 获取聚合类型的快照频率
+	 *
+	 * @param aggregateType - 聚合类型
+	 * @returns 快照频率（0 表示不生成快照）
+	 */
+	public getFrequency(aggregateType: string): number {
+		return this.aggregates[aggregateType]?.frequency ?? this.defaultFrequency;
+	}
+
+	/**
+	 * 获取聚合类型当前的快照状态结构版本
+	 *
+	 * @param aggregateType - 聚合类型
+	 * @returns 快照状态结构版本
+	 */
+	public getSchemaVersion(aggregateType: string): number {
+		return this.aggregates[aggregateType]?.schemaVersion ?? DEFAULT_SNAPSHOT_SCHEMA_VERSION;
+	}
+
+	/**
+	 * 判断本次追加后是否应生成快照
+	 *
+	 * 追加的事件跨过了频率的整数倍即生成快照，避免批量追加时错过快照点。
+	 *
+	 * @param aggregateType - 聚合类型
+	 * @param previousVersion - 追加前的事件流版本
+	 * @param currentVersion - 追加后的事件流版本
+	 * @returns 如果应生成快照返回 true
+	 */
+	public shouldSnapshot(aggregateType: string, previousVersion: number, currentVersion: number): boolean {
+		const frequency = this.getFrequency(aggregateType);
+		if (frequency <= 0 || currentVersion <= previousVersion) return false;
+		return Math.floor(currentVersion / frequency) > Math.floor(previousVersion / frequency);
+	}
+
+	/**
+	 * 判断快照是否过期（状态结构版本与当前配置不一致）
+	 *
+	 * @param snapshot - 快照
+	 * @returns 如果过期返回 true
+	 */
+	public isStale(snapshot: Snapshot): boolean {
+		return snapshot.schemaVersion !== this.getSchemaVersion(snapshot.aggregateType);
+	}
+}
+
+function assertNonNegativeInteger(name: string, value: number): void {
+	if (!Number.isInteger(value) || value < 0) {
+		throw new Error(`快照策略配置非法：${name} 必须为非负整数。`);
+	}
+}
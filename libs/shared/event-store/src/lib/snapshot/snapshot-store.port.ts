@@ -0,0 +1,51 @@
+/**
+ * 快照存储端口
+ *
+ * 定义聚合快照持久化的抽象接口。
+ *
+ * @example
+ * ```typescript
+ * class PostgresSnapshotStore implements SnapshotStorePort {
+ *   async save(snapshot: Snapshot): Promise<void> {
+ *     // 写入快照表
+ *   }
+ *
+ *   async loadLatest(aggregateId: string): Promise<Snapshot | null> {
+ *     // 读取版本最高的快照
+ *   }
+ *
+ *   async delete(aggregateId: string): Promise<void> {
+ *     // 删除聚合的全部快照
+ *   }
+ * }
+ * ```
+ */
+import { Snapshot } from './snapshot.vo';
+
+export interface SnapshotStorePort {
+	/**
+	 * 保存快照
+	 *
+	 * 同一聚合同一版本重复保存时应覆盖旧快照（幂等）。
+	 *
+	 * @param snapshot - 快照
+	 */
+	save(snapshot: Snapshot): Promise<void>;
+
+	/**
+	 * 加载聚合最新的快照
+	 *
+	 * @param aggregateId - 聚合根 ID
+	 * @returns 版本最高的快照，不存在时返回 null
+	 */
+	loadLatest(aggregateId: string): Promise<Snapshot | null>;
+
+	/**
+	 * 删除聚合的全部快照
+	 *
+	 * 快照是可由事件流重建的缓存；加密擦除后必须删除，避免明文 PII 残留在快照状态中。
+	 *
+	 * @param aggregateId - 聚合根 ID
+	 */
+	delete(aggregateId: string): Promise<void>;
+}
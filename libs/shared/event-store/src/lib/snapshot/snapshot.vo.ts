@@ -0,0 +1,107 @@
+/**
+ * 聚合快照
+ *
+ * 记录聚合根在某个事件流版本时的完整状态，用于跳过早期事件的重放。
+ *
+ * 说明：
+ * - version 为快照对应的事件流版本（即已包含的最后一个事件的 eventVersion）
+ * - schemaVersion 为快照状态结构的版本，与聚合状态结构变更同步递增；
+ *   版本不一致的快照视为过期，应丢弃并回退到完整重放
+ *
+ * @example
+ * ```typescript
+ * const snapshot = Snapshot.create({
+ *   aggregateId: 'tenant-123',
+ *   aggregateType: 'Tenant',
+ *   tenantId: 'tenant-123',
+ *   version: 100,
+ *   schemaVersion: 1,
+ *   state: { name: 'Acme', status: 'ACTIVE' }
+ * });
+ * ```
+ */
+export interface SnapshotProps {
+	/**
+	 * 聚合根 ID
+	 */
+	aggregateId: string;
+
+	/**
+	 * 聚合类型（如 Tenant、User）
+	 */
+	aggregateType: string;
+
+	/**
+	 * 租户 ID（可选，持久化适配器可要求必填）
+	 */
+	tenantId?: string;
+
+	/**
+	 * 快照对应的事件流版本
+	 */
+	version: number;
+
+	/**
+	 * 快照状态结构版本
+	 */
+	schemaVersion: number;
+
+	/**
+	 * 聚合状态
+	 */
+	state: Record<string, unknown>;
+
+	/**
+	 * 创建时间
+	 */
+	createdAt: Date;
+}
+
+export class Snapshot implements SnapshotProps {
+	public readonly aggregateId: string;
+
+	public readonly aggregateType: string;
+
+	public readonly tenantId?: string;
+
+	public readonly version: number;
+
+	public readonly schemaVersion: number;
+
+	public readonly state: Record<string, unknown>;
+
+	public readonly createdAt: Date;
+
+	private constructor(props: SnapshotProps) {
+		this.aggregateId = props.aggregateId;
+		this.aggregateType = props.aggregateType;
+		this.tenantId = props.tenantId;
+		this.version = props.version;
+		this.schemaVersion = props.schemaVersion;
+		this.state = props.state;
+		this.createdAt = props.createdAt;
+	}
+
+	/**
+	 * 创建新快照
+	 *
+	 * @param props - 快照属性（createdAt 默认为当前时间）
+	 * @returns 快照实例
+	 */
+	public static create(props: Omit<SnapshotProps, 'createdAt'> & { createdAt?: Date }): Snapshot {
+		return new Snapshot({
+			...props,
+			createdAt: props.createdAt ?? new Date()
+		});
+	}
+
+	/**
+	 * 从属性重建快照
+	 *
+	 * @param props - 快照属性
+	 * @returns 快照实例
+	 */
+	public static fromProps(props: SnapshotProps): Snapshot {
+		return new Snapshot(props);
+	}
+}
@@ -50,6 +50,11 @@ export interface StoredEventProps {
 	 */
 	aggregateId: string;
 
+	/**
+	 * 租户 ID（可选，持久化适配器可要求必填）
+	 */
+	tenantId?: string;
+
 	/**
 	 * 事件负载
 	 */
@@ -60,6 +65,11 @@ export interface StoredEventProps {
 	 */
 	eventVersion: number;
 
+	/**
+	 * 负载结构版本（可选，默认 1；用于事件升级，与事件流版本 eventVersion 无关）
+	 */
+	schemaVersion?: number;
+
 	/**
 	 * 事件发生时间
 	 */
@@ -74,6 +84,11 @@ export interface StoredEventProps {
 	 * 元数据（可选）
 	 */
 	metadata?: Record<string, unknown>;
+
+	/**
+	 * 全局位置（可选，由持久化实现在写入时分配，全局单调递增；用于 readAll 与投影检查点）
+	 */
+	position?: number;
 }
 
 export class StoredEvent implements StoredEventProps {
@@ -92,6 +107,11 @@ export class StoredEvent implements StoredEventProps {
 	 */
 	public readonly aggregateId: string;
 
+	/**
+	 * 租户 ID
+	 */
+	public readonly tenantId?: string;
+
 	/**
 	 * 事件负载
 	 */
@@ -102,6 +122,11 @@ export class StoredEvent implements StoredEventProps {
 	 */
 	public readonly eventVersion: number;
 
+	/**
+	 * 负载结构版本
+	 */
+	public readonly schemaVersion: number;
+
 	/**
 	 * 事件发生时间
 	 */
@@ -117,15 +142,23 @@ export class StoredEvent implements StoredEventProps {
 	 */
 	public readonly metadata?: Record<string, unknown>;
 
+	/**
+	 * 全局位置（未持久化时为 undefined）
+	 */
+	public readonly position?: number;
+
 	private constructor(props: StoredEventProps) {
 		this.eventId = props.eventId;
 		this.eventName = props.eventName;
 		this.aggregateId = props.aggregateId;
+		this.tenantId = props.tenantId;
 		this.payload = props.payload;
 		this.eventVersion = props.eventVersion;
+		this.schemaVersion = props.schemaVersion ?? 1;
 		this.occurredAt = props.occurredAt;
 		this.status = props.status;
 		this.metadata = props.metadata;
+		this.position = props.position;
 	}
 
 	/**
@@ -137,16 +170,20 @@ export class StoredEvent implements StoredEventProps {
 	public static create(props: {
 		eventName: string;
 		aggregateId: string;
+		tenantId?: string;
 		payload: Record<string, unknown>;
 		eventVersion?: number;
+		schemaVersion?: number;
 		metadata?: Record<string, unknown>;
 	}): StoredEvent {
 		return new StoredEvent({
 			eventId: generateEventId(),
 			eventName: props.eventName,
 			aggregateId: props.aggregateId,
+			tenantId: props.tenantId,
 			payload: props.payload,
 			eventVersion: props.eventVersion ?? 1,
+			schemaVersion: props.schemaVersion ?? 1,
 			occurredAt: new Date(),
 			status: StoredEventStatus.PENDING,
 			metadata: props.metadata
@@ -175,6 +212,21 @@ export class StoredEvent implements StoredEventProps {
 			status
 		});
 	}
+
+	/**
+	 * 创建负载升级后的副本
+	 *
+	 * @param payload - 升级后的负载
+	 * @param schemaVersion - 升级后的负载结构版本
+	 * @returns 新的存储事件实例
+	 */
+	public withPayload(payload: Record<string, unknown>, schemaVersion: number): StoredEvent {
+		return new StoredEvent({
+			...this,
+			payload,
+			schemaVersion
+		});
+	}
 }
 
 /**
@@ -0,0 +1,101 @@
+/**
+ * 事件断言（测试辅助）
+ *
+ * 不依赖具体测试框架：断言失败时抛出 Error，并列出实际写入的事件，
+ * 可在 Jest、Cucumber（chai）等任意测试中直接使用。
+ *
+ * @example
+ * ```typescript
+ * await repository.save(user);
+ *
+ * assertEventAppended(eventStore.getEvents(), {
+ *   eventName: 'UserRegistered',
+ *   aggregateId: user.id.toString(),
+ *   payload: { email: 'user@example.com' }
+ * });
+ * assertNoEventAppended(eventStore.getEvents(), { eventName: 'UserDisabled' });
+ * ```
+ */
+import { isDeepStrictEqual } from 'node:util';
+import { type StoredEvent } from '../stored-event.entity';
+
+/**
+ * 期望的事件
+ *
+ * 未指定的字段不参与匹配；payload、metadata 为部分匹配（只比较期望中出现的字段）
+ */
+export interface ExpectedStoredEvent {
+	eventName?: string;
+	aggregateId?: string;
+	tenantId?: string;
+	payload?: Record<string, unknown>;
+	metadata?: Record<string, unknown>;
+}
+
+/**
+ * 断言存在匹配的事件
+ *
+ * @param events - 实际事件（如 `InMemoryEventStore.getEvents()`）
+ * @param expected - 期望的事件
+ * @returns 第一个匹配的事件
+ * @throws Error 不存在匹配的事件时
+ */
+export function assertEventAppended(events: readonly StoredEvent[], expected: ExpectedStoredEvent): StoredEvent {
+	const matched = events.find((e) => matchesStoredEvent(e, expected));
+	if (!matched) {
+		throw new Error(`未找到期望的事件：${JSON.stringify(expected)}\n实际事件：\n${describeEvents(events)}`);
+	}
+	return matched;
+}
+
+/**
+ * 断言不存在匹配的事件
+ *
+ * @param events - 实际事件
+ * @param expected - 不应出现的事件（空对象表示不应有任何事件）
+ * @throws Error 存在匹配的事件时
+ */
+export function assertNoEventAppended(events: readonly StoredEvent[], expected: ExpectedStoredEvent = {}): void {
+	const matched = events.filter((e) => matchesStoredEvent(e, expected));
+	if (matched.length > 0) {
+		throw new Error(`不应出现的事件：${JSON.stringify(expected)}\n匹配到的事件：\n${describeEvents(matched)}`);
+	}
+}
+
+/**
+ * 部分匹配：期望为普通对象时逐字段递归比较，其余值按深度严格相等比较
+ *
+ * @param actual - 实际值
+ * @param expected - 期望值
+ * @returns 是否匹配
+ */
+export function isPartialMatch(actual: unknown, expected: unknown): boolean {
+	if (!isPlainObject(expected)) {
+		return isDeepStrictEqual(actual, expected);
+	}
+	if (!isPlainObject(actual)) {
+		return false;
+	}
+	return Object.entries(expected).every(([key, value]) => isPartialMatch(actual[key], value));
+}
+
+function matchesStoredEvent(event: StoredEvent, expected: ExpectedStoredEvent): boolean {
+	return (
+		(expected.eventName === undefined || event.eventName === expected.eventName) &&
+		(expected.aggregateId === undefined || event.aggregateId === expected.aggregateId) &&
+		(expected.tenantId === undefined || event.tenantId === expected.tenantId) &&
+		(expected.payload === undefined || isPartialMatch(event.payload, expected.payload)) &&
+		(expected.metadata === undefined || isPartialMatch(event.metadata, expected.metadata))
+	);
+}
+
+function describeEvents(events: readonly StoredEvent[]): string {
+	if (events.length === 0) return '  （无）';
+	return events
+		.map((e) => `  - ${e.eventName} v${e.eventVersion} aggregateId=${e.aggregateId} ${JSON.stringify(e.payload)}`)
+		.join('\n');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
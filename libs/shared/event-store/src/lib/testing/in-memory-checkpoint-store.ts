@@ -0,0 +1,18 @@
+import { type CheckpointStorePort } from '../projection/checkpoint-store.port';
+
+/**
+ * 内存投影检查点存储（测试替身）
+ *
+ * 未记录的投影返回 0；save 覆盖写入，与 PgCheckpointStore 的 upsert 语义一致。
+ */
+export class InMemoryCheckpointStore implements CheckpointStorePort {
+	private readonly positions = new Map<string, number>();
+
+	async load(projectionName: string): Promise<number> {
+		return this.positions.get(projectionName) ?? 0;
+	}
+
+	async save(projectionName: string, position: number): Promise<void> {
+		this.positions.set(projectionName, position);
+	}
+}
@@ -0,0 +1,130 @@
+import { EventStream, type PointInTime } from '../event-stream.vo';
+import { type EventStorePort, type ReadAllFilter } from '../event-store.port';
+import { OptimisticLockError } from '../optimistic-lock.error';
+import { StoredEvent } from '../stored-event.entity';
+
+/**
+ * 内存事件存储（测试替身）
+ *
+ * 与 PostgreSQL 实现（PgEventStore）保持相同的追加语义：
+ * - 追加前校验：事件归属同一聚合、携带 tenantId、版本连续
+ * - 事件流当前版本与 expectedVersion 不一致时抛出 OptimisticLockError；
+ *   未传入 expectedVersion 时以首个事件的 `eventVersion - 1` 作为期望版本
+ * - eventId 全局唯一，重复写入同样视为并发冲突（对应唯一约束兜底）
+ * - 校验与写入之间没有 await，并发追加同一版本时只有一个成功
+ * - 写入时按提交顺序分配全局 position，`readAll` 按 position 升序读取
+ *
+ * @example
+ * ```typescript
+ * const eventStore = new InMemoryEventStore();
+ * const repository = new EventSourcedRepository<User>(eventStore, options);
+ *
+ * await repository.save(user);
+ * assertEventAppended(eventStore.getEvents(), { eventName: 'UserRegistered', payload: { email } });
+ * ```
+ */
+export class InMemoryEventStore implements EventStorePort {
+	private events: StoredEvent[] = [];
+	private readonly eventIds = new Set<string>();
+
+	async append(aggregateId: string, events: StoredEvent[], expectedVersion?: number): Promise<void> {
+		if (events.length === 0) return;
+
+		const expected = expectedVersion ?? events[0].eventVersion - 1;
+		assertAppendable(aggregateId, events, expected);
+
+		const actual = this.currentVersion(aggregateId);
+		if (actual !== expected) {
+			throw new OptimisticLockError(aggregateId, expected, actual);
+		}
+		const duplicated = events.some(
+			(e, i) => this.eventIds.has(e.eventId) || events.findIndex((x) => x.eventId === e.eventId) !== i
+		);
+		if (duplicated) {
+			throw new OptimisticLockError(aggregateId, expected);
+		}
+
+		for (const e of events) {
+			this.eventIds.add(e.eventId);
+			this.events.push(StoredEvent.fromProps({ ...e, position: this.events.length + 1 }));
+		}
+	}
+
+	async load(aggregateId: string): Promise<EventStream> {
+		return EventStream.create(aggregateId, this.streamOf(aggregateId));
+	}
+
+	async loadFromVersion(aggregateId: string, fromVersion: number): Promise<EventStream> {
+		return EventStream.create(
+			aggregateId,
+			this.streamOf(aggregateId).filter((e) => e.eventVersion > fromVersion)
+		);
+	}
+
+	async loadUntil(aggregateId: string, asOf: PointInTime): Promise<EventStream> {
+		return EventStream.create(aggregateId, this.streamOf(aggregateId)).until(asOf);
+	}
+
+	async hasEvents(aggregateId: string): Promise<boolean> {
+		return this.events.some((e) => e.aggregateId === aggregateId);
+	}
+
+	async readAll(fromPosition: number, limit: number, filter: ReadAllFilter = {}): Promise<StoredEvent[]> {
+		return this.events
+			.filter(
+				(e) =>
+					e.position! > fromPosition &&
+					(!filter.tenantId || e.tenantId === filter.tenantId) &&
+					(!filter.aggregateId || e.aggregateId === filter.aggregateId) &&
+					(!filter.eventNames?.length || filter.eventNames.includes(e.eventName))
+			)
+			.slice(0, limit);
+	}
+
+	/**
+	 * 获取已追加的事件（按全局位置升序）
+	 *
+	 * @param aggregateId - 聚合根 ID（可选，不传返回全部事件）
+	 * @returns 事件列表副本
+	 */
+	getEvents(aggregateId?: string): StoredEvent[] {
+		return aggregateId ? this.streamOf(aggregateId) : [...this.events];
+	}
+
+	/**
+	 * 清空存储（全局位置从 1 重新分配）
+	 */
+	clear(): void {
+		this.events = [];
+		this.eventIds.clear();
+	}
+
+	private streamOf(aggregateId: string): StoredEvent[] {
+		return this.events.filter((e) => e.aggregateId === aggregateId);
+	}
+
+	private currentVersion(aggregateId: string): number {
+		return this.streamOf(aggregateId).reduce((max, e) => Math.max(max, e.eventVersion), 0);
+	}
+}
+
+/**
+ * 校验待追加事件：归属同一聚合、携带租户、版本连续（错误信息与 PgEventStore 一致）
+ */
+function assertAppendable(aggregateId: string, events: StoredEvent[], expected: number): void {
+	events.forEach((e, i) => {
+		if (e.aggregateId !== aggregateId) {
+			throw new Error(
+				`事件追加失败：事件 ${e.eventName} 的 aggregateId=${e.aggregateId} 与目标聚合 ${aggregateId} 不一致。`
+			);
+		}
+		if (!e.tenantId) {
+			throw new Error(`禁止追加无租户事件：aggregateId=${aggregateId}，eventName=${e.eventName}。`);
+		}
+		if (e.eventVersion !== expected + i + 1) {
+			throw new Error(
+				`事件追加失败：aggregateId=${aggregateId} 的事件版本不连续，期望 ${expected + i + 1}，实际 ${e.eventVersion}。`
+			);
+		}
+	});
+}
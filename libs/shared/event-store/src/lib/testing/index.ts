@@ -0,0 +1,8 @@
+export { InMemoryEventStore } from './in-memory-event-store';
+export { InMemoryCheckpointStore } from './in-memory-checkpoint-store';
+export {
+	type ExpectedStoredEvent,
+	assertEventAppended,
+	assertNoEventAppended,
+	isPartialMatch
+} from './event-assertions';
@@ -0,0 +1,41 @@
+/**
+ * 事件升级器
+ *
+ * 把某个事件名称的负载从 fromVersion 升级到 fromVersion + 1。
+ * 多个升级器按版本串联形成升级链（v1 → v2 → v3）。
+ *
+ * 约束：
+ * - 升级器必须是纯函数：不得访问外部状态、不得修改入参
+ * - 每个事件名称的每个 fromVersion 只能注册一个升级器
+ *
+ * @example
+ * ```typescript
+ * const tenantCreatedV1ToV2: EventUpcaster = {
+ *   eventName: 'TenantCreated',
+ *   fromVersion: 1,
+ *   upcast: (payload) => ({ ...payload, region: 'cn' })
+ * };
+ * ```
+ */
+import { StoredEvent } from '../stored-event.entity';
+
+export interface EventUpcaster {
+	/**
+	 * 事件名称
+	 */
+	eventName: string;
+
+	/**
+	 * 升级前的负载结构版本（升级后为 fromVersion + 1）
+	 */
+	fromVersion: number;
+
+	/**
+	 * 升级负载
+	 *
+	 * @param payload - 升级前的负载
+	 * @param event - 原始存储事件（只读，可用于读取 occurredAt、metadata 等）
+	 * @returns 升级后的负载
+	 */
+	upcast(payload: Record<string, unknown>, event: StoredEvent): Record<string, unknown>;
+}
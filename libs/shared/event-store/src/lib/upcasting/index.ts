@@ -0,0 +1,4 @@
+export { type EventUpcaster } from './event-upcaster.interface';
+export { UpcasterRegistry } from './upcaster-registry';
+export { UpcastingEventStore } from './upcasting-event-store';
+export { assertUpcasterFixtures, type UpcasterFixture } from './upcaster-fixtures';
@@ -0,0 +1,92 @@
+/**
+ * 事件升级夹具断言（测试辅助）
+ *
+ * 用录制的历史事件（夹具）校验升级器：输入旧版本负载，断言升级后的版本与负载。
+ * 不依赖具体测试框架，断言失败时抛出包含全部差异的 Error。
+ *
+ * @example
+ * ```typescript
+ * it('TenantCreated 升级链应该与录制夹具一致', () => {
+ *   assertUpcasterFixtures(registry, [
+ *     {
+ *       name: 'v1 缺少 region',
+ *       input: { eventName: 'TenantCreated', schemaVersion: 1, payload: { name: 'Acme' } },
+ *       expected: { schemaVersion: 2, payload: { name: 'Acme', region: 'cn' } }
+ *     }
+ *   ]);
+ * });
+ * ```
+ */
+import { isDeepStrictEqual } from 'node:util';
+import { StoredEvent } from '../stored-event.entity';
+import { UpcasterRegistry } from './upcaster-registry';
+
+/**
+ * 事件升级夹具
+ */
+export interface UpcasterFixture {
+	/**
+	 * 夹具名称（用于失败信息，默认取事件名称与版本）
+	 */
+	name?: string;
+
+	/**
+	 * 录制的旧版本事件
+	 */
+	input: {
+		eventName: string;
+		schemaVersion: number;
+		payload: Record<string, unknown>;
+		metadata?: Record<string, unknown>;
+	};
+
+	/**
+	 * 期望的升级结果
+	 */
+	expected: {
+		schemaVersion: number;
+		payload: Record<string, unknown>;
+	};
+}
+
+/**
+ * 断言升级器对夹具的输出
+ *
+ * @param registry - 升级器注册表
+ * @param fixtures - 夹具列表
+ * @throws Error 任一夹具的升级结果与期望不一致时
+ */
+export function assertUpcasterFixtures(registry: UpcasterRegistry, fixtures: UpcasterFixture[]): void {
+	const failures: string[] = [];
+
+	for (const fixture of fixtures) {
+		const label = fixture.name ?? `${fixture.input.eventName} v${fixture.input.schemaVersion}`;
+		const event = StoredEvent.create({
+			eventName: fixture.input.eventName,
+			aggregateId: 'fixture',
+			payload: JSON.parse(JSON.stringify(fixture.input.payload)) as Record<string, unknown>,
+			schemaVersion: fixture.input.schemaVersion,
+			metadata: fixture.input.metadata
+		});
+
+		const upcasted = registry.upcast(event);
+
+		if (upcasted.schemaVersion !== fixture.expected.schemaVersion) {
+			failures.push(
+				`[${label}] 期望升级到 v${fixture.expected.schemaVersion}，实际为 v${upcasted.schemaVersion}`
+			);
+		}
+		if (!isDeepStrictEqual(upcasted.payload, fixture.expected.payload)) {
+			failures.push(
+				`[${label}] 负载不一致：期望 ${JSON.stringify(fixture.expected.payload)}，实际 ${JSON.stringify(upcasted.payload)}`
+			);
+		}
+		if (!isDeepStrictEqual(event.payload, fixture.input.payload)) {
+			failures.push(`[${label}] 升级器修改了原始负载`);
+		}
+	}
+
+	if (failures.length > 0) {
+		throw new Error(`事件升级夹具断言失败：\n${failures.join('\n')}`);
+	}
+}
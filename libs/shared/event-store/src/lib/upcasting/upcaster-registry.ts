@@ -0,0 +1,132 @@
+/**
+ * 事件升级器注册表
+ *
+ * 按事件名称维护升级链，把旧结构的存储事件逐级升级到最新结构。
+ *
+ * 说明：
+ * - 升级按 schemaVersion 逐级进行：v1 → v2 → v3，直到没有后续升级器
+ * - 启动时调用 `validate` 校验升级链完整（从 v1 起连续、与当前代码版本一致），避免运行期才发现缺口
+ *
+ * @example
+ * ```typescript
+ * const registry = new UpcasterRegistry()
+ *   .register(tenantCreatedV1ToV2, tenantCreatedV2ToV3);
+ *
+ * // 启动时校验：TenantCreated 当前为 v3
+ * registry.validate({ TenantCreated: 3 });
+ *
+ * const upcasted = registry.upcast(storedEvent); // schemaVersion === 3
+ * ```
+ */
+import { StoredEvent } from '../stored-event.entity';
+import { type EventUpcaster } from './event-upcaster.interface';
+
+export class UpcasterRegistry {
+	/**
+	 * 事件名称 -> (fromVersion -> 升级器)
+	 * @private
+	 */
+	private readonly chains = new Map<string, Map<number, EventUpcaster>>();
+
+	/**
+	 * 注册升级器
+	 *
+	 * @param upcasters - 升级器
+	 * @returns 注册表自身（便于链式调用）
+	 * @throws Error fromVersion 非法或重复注册时
+	 */
+	public register(...upcasters: EventUpcaster[]): this {
+		for (const upcaster of upcasters) {
+			if (!Number.isInteger(upcaster.fromVersion) || upcaster.fromVersion < 1) {
+				throw new Error(`事件升级器注册失败：${upcaster.eventName} 的 fromVersion 必须为正整数。`);
+			}
+			const chain = this.chains.get(upcaster.eventName) ?? new Map<number, EventUpcaster>();
+			if (chain.has(upcaster.fromVersion)) {
+				throw new Error(
+					`事件升级器注册失败：${upcaster.eventName} v${upcaster.fromVersion} → v${upcaster.fromVersion + 1} 重复注册。`
+				);
+			}
+			chain.set(upcaster.fromVersion, upcaster);
+			this.chains.set(upcaster.eventName, chain);
+		}
+		return this;
+	}
+
+	/**
+	 * 获取事件的最新负载结构版本
+	 *
+	 * @param eventName - 事件名称
+	 * @returns 升级链可达的最高版本（无升级器时为 1）
+	 */
+	public getLatestVersion(eventName: string): number {
+		const chain = this.chains.get(eventName);
+		if (!chain || chain.size === 0) return 1;
+		return Math.max(...chain.keys()) + 1;
+	}
+
+	/**
+	 * 升级存储事件
+	 *
+	 * 已是最新版本（或版本高于已知升级链）的事件原样返回。
+	 *
+	 * @param event - 存储事件
+	 * @returns 升级后的存储事件
+	 */
+	public upcast(event: StoredEvent): StoredEvent {
+		const chain = this.chains.get(event.eventName);
+		if (!chain) return event;
+
+		let payload = event.payload;
+		let version = event.schemaVersion;
+		for (let upcaster = chain.get(version); upcaster; upcaster = chain.get(version)) {
+			payload = upcaster.upcast(payload, event);
+			version += 1;
+		}
+
+		return version === event.schemaVersion ? event : event.withPayload(payload, version);
+	}
+
+	/**
+	 * 批量升级存储事件
+	 *
+	 * @param events - 存储事件列表
+	 * @returns 升级后的存储事件列表
+	 */
+	public upcastAll(events: readonly StoredEvent[]): StoredEvent[] {
+		return events.map((e) => this.upcast(e));
+	}
+
+	/**
+	 * 校验升级链完整性
+	 *
+	 * 规则：
+	 * - 每个事件的升级链必须从 v1 起连续，不得有缺口
+	 * - 传入 currentVersions 时，升级链可达的最高版本必须等于当前代码声明的版本
+	 *
+	 * @param currentVersions - 事件名称 -> 当前代码使用的负载结构版本（可选）
+	 * @throws Error 存在不完整的升级链时（汇总全部问题）
+	 */
+	public validate(currentVersions: Record<string, number> = {}): void {
+		const problems: string[] = [];
+
+		for (const [eventName, chain] of this.chains) {
+			const latest = this.getLatestVersion(eventName);
+			for (let v = 1; v < latest; v++) {
+				if (!chain.has(v)) {
+					problems.push(`${eventName} 缺少 v${v} → v${v + 1} 升级器`);
+				}
+			}
+		}
+
+		for (const [eventName, current] of Object.entries(currentVersions)) {
+			const latest = this.getLatestVersion(eventName);
+			if (latest !== current) {
+				problems.push(`${eventName} 当前版本为 v${current}，升级链只能到达 v${latest}`);
+			}
+		}
+
+		if (problems.length > 0) {
+			throw new Error(`事件升级链不完整：${problems.join('；')}。`);
+		}
+	}
+}
@@ -0,0 +1,54 @@
+/**
+ * 带事件升级的事件存储
+ *
+ * 装饰任意 EventStorePort 实现，在 load / loadFromVersion / loadUntil / readAll 时透明地升级旧结构事件；
+ * append 与 hasEvents 直接委托给被装饰的实现。
+ *
+ * @example
+ * ```typescript
+ * const registry = new UpcasterRegistry().register(tenantCreatedV1ToV2);
+ * registry.validate({ TenantCreated: 2 });
+ *
+ * const eventStore = new UpcastingEventStore(pgEventStore, registry);
+ * const stream = await eventStore.load('tenant-123'); // TenantCreated 均为 v2 结构
+ * ```
+ */
+import { EventStream, type PointInTime } from '../event-stream.vo';
+import { type EventStorePort, type ReadAllFilter } from '../event-store.port';
+import { StoredEvent } from '../stored-event.entity';
+import { UpcasterRegistry } from './upcaster-registry';
+
+export class UpcastingEventStore implements EventStorePort {
+	constructor(
+		private readonly inner: EventStorePort,
+		private readonly registry: UpcasterRegistry
+	) {}
+
+	public append(aggregateId: string, events: StoredEvent[], expectedVersion?: number): Promise<void> {
+		return this.inner.append(aggregateId, events, expectedVersion);
+	}
+
+	public async load(aggregateId: string): Promise<EventStream> {
+		return this.upcastStream(await this.inner.load(aggregateId));
+	}
+
+	public async loadFromVersion(aggregateId: string, fromVersion: number): Promise<EventStream> {
+		return this.upcastStream(await this.inner.loadFromVersion(aggregateId, fromVersion));
+	}
+
+	public async loadUntil(aggregateId: string, asOf: PointInTime): Promise<EventStream> {
+		return this.upcastStream(await this.inner.loadUntil(aggregateId, asOf));
+	}
+
+	public hasEvents(aggregateId: string): Promise<boolean> {
+		return this.inner.hasEvents(aggregateId);
+	}
+
+	public async readAll(fromPosition: number, limit: number, filter?: ReadAllFilter): Promise<StoredEvent[]> {
+		return this.registry.upcastAll(await this.inner.readAll(fromPosition, limit, filter));
+	}
+
+	private upcastStream(stream: EventStream): EventStream {
+		return EventStream.create(stream.aggregateId, this.registry.upcastAll(stream.events));
+	}
+}
@@ -0,0 +1,272 @@
+import { randomBytes } from 'node:crypto';
+import {
+	CryptoShredder,
+	CryptoShreddingEventStore,
+	isEncryptedPiiValue,
+	type KeyVaultPort
+} from '../../lib/crypto-shredding';
+import { EventStream } from '../../lib/event-stream.vo';
+import { Snapshot, type SnapshotStorePort } from '../../lib/snapshot';
+import { type EventStorePort } from '../../lib/event-store.port';
+import { StoredEvent } from '../../lib/stored-event.entity';
+
+/**
+ * 基于 Map 的密钥库（测试用）
+ */
+function createKeyVault(): jest.Mocked<KeyVaultPort> {
+	const keys = new Map<string, Buffer>();
+	const destroyed = new Set<string>();
+	return {
+		getOrCreateKey: jest.fn(async (subjectId: string) => {
+			if (destroyed.has(subjectId)) {
+				throw new Error(`主体 ${subjectId} 的密钥已销毁`);
+			}
+			if (!keys.has(subjectId)) {
+				keys.set(subjectId, randomBytes(32));
+			}
+			return keys.get(subjectId)!;
+		}),
+		getKey: jest.fn(async (subjectId: string) => keys.get(subjectId) ?? null),
+		destroyKey: jest.fn(async (subjectId: string) => {
+			keys.delete(subjectId);
+			destroyed.add(subjectId);
+		})
+	};
+}
+
+describe('CryptoShredder', () => {
+	let keyVault: jest.Mocked<KeyVaultPort>;
+	let shredder: CryptoShredder;
+
+	beforeEach(() => {
+		keyVault = createKeyVault();
+		shredder = new CryptoShredder(keyVault);
+	});
+
+	it('应该只加密指定字段且不修改原始负载', async () => {
+		// Arrange
+		const payload = { userId: 'user-1', email: 'a@example.com', profile: { name: '张三' } };
+
+		// Act
+		const encrypted = await shredder.protect(payload, {
+			subjectId: 'user-1',
+			tenantId: 'tenant-1',
+			fields: ['email', 'profile']
+		});
+
+		// Assert
+		expect(encrypted.userId).toBe('user-1');
+		expect(isEncryptedPiiValue(encrypted.email)).toBe(true);
+		expect(isEncryptedPiiValue(encrypted.profile)).toBe(true);
+		expect(JSON.stringify(encrypted)).not.toContain('a@example.com');
+		expect(payload.email).toBe('a@example.com');
+		expect(keyVault.getOrCreateKey).toHaveBeenCalledWith('user-1', 'tenant-1');
+	});
+
+	it('解密后应该还原原始值', async () => {
+		// Arrange
+		const payload = { userId: 'user-1', email: 'a@example.com', profile: { name: '张三' } };
+		const encrypted = await shredder.protect(payload, { subjectId: 'user-1', fields: ['email', 'profile'] });
+
+		// Act
+		const revealed = await shredder.reveal(encrypted);
+
+		// Assert
+		expect(revealed).toEqual(payload);
+	});
+
+	it('没有需要加密的字段时不应该访问密钥库', async () => {
+		// Arrange
+		const payload = { userId: 'user-1', email: null };
+
+		// Act
+		const result = await shredder.protect(payload, { subjectId: 'user-1', fields: ['email', 'phone'] });
+
+		// Assert
+		expect(result).toBe(payload);
+		expect(keyVault.getOrCreateKey).not.toHaveBeenCalled();
+	});
+
+	it('擦除主体后加密字段应该还原为 null', async () => {
+		// Arrange
+		const encrypted = await shredder.protect(
+			{ userId: 'user-1', email: 'a@example.com' },
+			{ subjectId: 'user-1', fields: ['email'] }
+		);
+
+		// Act
+		await shredder.erase('user-1');
+		const revealed = await shredder.reveal(encrypted);
+
+		// Assert
+		expect(revealed).toEqual({ userId: 'user-1', email: null });
+		await expect(
+			shredder.protect({ email: 'b@example.com' }, { subjectId: 'user-1', fields: ['email'] })
+		).rejects.toThrow('已销毁');
+	});
+
+	it('擦除主体时应该删除相关聚合的快照', async () => {
+		// Arrange
+		const snapshots = new Map<string, Snapshot>();
+		const snapshotStore: SnapshotStorePort = {
+			save: async (snapshot) => void snapshots.set(snapshot.aggregateId, snapshot),
+			loadLatest: async (aggregateId) => snapshots.get(aggregateId) ?? null,
+			delete: async (aggregateId) => void snapshots.delete(aggregateId)
+		};
+		const state = { userId: 'user-1', email: 'a@example.com' };
+		await snapshotStore.save(
+			Snapshot.create({ aggregateId: 'user-1', aggregateType: 'User', version: 10, schemaVersion: 1, state })
+		);
+		await snapshotStore.save(
+			Snapshot.create({ aggregateId: 'team-1', aggregateType: 'Team', version: 10, schemaVersion: 1, state })
+		);
+		await snapshotStore.save(
+			Snapshot.create({ aggregateId: 'user-2', aggregateType: 'User', version: 10, schemaVersion: 1, state: {} })
+		);
+
+		// Act
+		await new CryptoShredder(keyVault, snapshotStore).erase('user-1', { aggregateIds: ['team-1'] });
+
+		// Assert
+		expect(keyVault.destroyKey).toHaveBeenCalledWith('user-1');
+		expect([...snapshots.keys()]).toEqual(['user-2']);
+		expect(JSON.stringify([...snapshots.values()])).not.toContain('a@example.com');
+	});
+
+	it('密文被篡改时应该抛出错误', async () => {
+		// Arrange
+		const encrypted = await shredder.protect(
+			{ email: 'a@example.com' },
+			{ subjectId: 'user-1', fields: ['email'] }
+		);
+		const envelope = encrypted.email as { $pii: { data: string } };
+		envelope.$pii.data = Buffer.from('tampered').toString('base64');
+
+		// Act & Assert
+		await expect(shredder.reveal(encrypted)).rejects.toThrow('PII 字段解密失败：field=email');
+	});
+
+	it('批量解密时应该复用密钥缓存', async () => {
+		// Arrange
+		const first = await shredder.protect({ email: 'a@example.com' }, { subjectId: 'user-1', fields: ['email'] });
+		const second = await shredder.protect({ email: 'a@example.com' }, { subjectId: 'user-1', fields: ['email'] });
+		const cache = new Map<string, Buffer | null>();
+
+		// Act
+		await shredder.reveal(first, cache);
+		await shredder.reveal(second, cache);
+
+		// Assert
+		expect(keyVault.getKey).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('CryptoShreddingEventStore', () => {
+	let inner: jest.Mocked<EventStorePort>;
+	let stored: StoredEvent[];
+	let store: CryptoShreddingEventStore;
+	let shredder: CryptoShredder;
+
+	beforeEach(() => {
+		stored = [];
+		inner = {
+			append: jest.fn(async (_id: string, events: StoredEvent[]) => {
+				stored.push(...events);
+			}),
+			load: jest.fn(async (id: string) => EventStream.create(id, stored)),
+			loadFromVersion: jest.fn(async (id: string, from: number) =>
+				EventStream.create(
+					id,
+					stored.filter((e) => e.eventVersion > from)
+				)
+			),
+			loadUntil: jest.fn().mockImplementation(async (id: string) => EventStream.create(id, stored)),
+			hasEvents: jest.fn().mockResolvedValue(true),
+			readAll: jest.fn().mockImplementation(async () => stored)
+		};
+		shredder = new CryptoShredder(createKeyVault());
+		store = new CryptoShreddingEventStore(inner, shredder, {
+			UserRegistered: { fields: ['email'], subjectIdField: 'userId' },
+			UserRenamed: { fields: ['name'] }
+		});
+	});
+
+	function createEvent(eventName: string, payload: Record<string, unknown>, eventVersion: number): StoredEvent {
+		return StoredEvent.create({ eventName, aggregateId: 'user-1', tenantId: 'tenant-1', payload, eventVersion });
+	}
+
+	it('append 应该加密策略中的字段并保留事件身份', async () => {
+		// Arrange
+		const event = createEvent('UserRegistered', { userId: 'user-1', email: 'a@example.com' }, 1);
+
+		// Act
+		await store.append('user-1', [event], 0);
+
+		// Assert
+		expect(inner.append).toHaveBeenCalledWith('user-1', expect.any(Array), 0);
+		expect(stored[0].eventId).toBe(event.eventId);
+		expect(stored[0].eventVersion).toBe(1);
+		expect(isEncryptedPiiValue(stored[0].payload.email)).toBe(true);
+	});
+
+	it('未配置策略的事件应该原样写入', async () => {
+		// Arrange
+		const event = createEvent('UserDisabled', { reason: 'spam' }, 1);
+
+		// Act
+		await store.append('user-1', [event], 0);
+
+		// Assert
+		expect(stored[0]).toBe(event);
+	});
+
+	it('缺少数据主体 ID 时应该拒绝追加', async () => {
+		// Arrange
+		const event = createEvent('UserRegistered', { email: 'a@example.com' }, 1);
+
+		// Act & Assert
+		await expect(store.append('user-1', [event], 0)).rejects.toThrow('缺少数据主体 ID（字段 userId）');
+		expect(inner.append).not.toHaveBeenCalled();
+	});
+
+	it('加载时应该解密，擦除后事件流保持完整但 PII 不可读', async () => {
+		// Arrange
+		await store.append(
+			'user-1',
+			[
+				createEvent('UserRegistered', { userId: 'user-1', email: 'a@example.com' }, 1),
+				createEvent('UserRenamed', { name: '张三' }, 2)
+			],
+			0
+		);
+
+		// Act
+		const before = await store.load('user-1');
+		await shredder.erase('user-1');
+		const after = await store.load('user-1');
+
+		// Assert
+		expect(before.events[0].payload).toEqual({ userId: 'user-1', email: 'a@example.com' });
+		expect(before.events[1].payload).toEqual({ name: '张三' });
+		expect(after.count).toBe(2);
+		expect(after.version).toBe(2);
+		expect(after.events[0].payload).toEqual({ userId: 'user-1', email: null });
+		expect(after.events[1].payload).toEqual({ name: null });
+	});
+
+	it('loadFromVersion / loadUntil / readAll 应该返回解密后的事件', async () => {
+		// Arrange
+		await store.append('user-1', [createEvent('UserRenamed', { name: '张三' }, 1)], 0);
+
+		// Act
+		const fromVersion = await store.loadFromVersion('user-1', 0);
+		const until = await store.loadUntil('user-1', 1);
+		const all = await store.readAll(0, 10);
+
+		// Assert
+		expect(fromVersion.events[0].payload).toEqual({ name: '张三' });
+		expect(until.events[0].payload).toEqual({ name: '张三' });
+		expect(all[0].payload).toEqual({ name: '张三' });
+		await expect(store.hasEvents('user-1')).resolves.toBe(true);
+	});
+});
@@ -0,0 +1,200 @@
+import {
+	DomainEvent,
+	EventSourcedAggregateRoot,
+	UniqueEntityID,
+	type EventApplyHandlers,
+	type HistoricalEvent
+} from '@oksai/kernel';
+import { EventSourcedRepository } from '../lib/event-sourced.repository';
+import { EventStream } from '../lib/event-stream.vo';
+import { type EventStorePort } from '../lib/event-store.port';
+import { OptimisticLockError } from '../lib/optimistic-lock.error';
+import { StoredEvent, StoredEventStatus } from '../lib/stored-event.entity';
+
+/**
+ * 测试用领域事件
+ */
+class TaskOpenedEvent extends DomainEvent<{ title: string }> {
+	constructor(payload: { title: string }, aggregateId: UniqueEntityID) {
+		super({ eventName: 'TaskOpened', aggregateId, payload });
+	}
+}
+
+class TaskClosedEvent extends DomainEvent<Record<string, never>> {
+	constructor(aggregateId: UniqueEntityID) {
+		super({ eventName: 'TaskClosed', aggregateId, payload: {} });
+	}
+}
+
+/**
+ * 测试用事件溯源聚合根
+ */
+interface TaskProps {
+	title: string;
+	closed: boolean;
+}
+
+class Task extends EventSourcedAggregateRoot<TaskProps> {
+	get title(): string {
+		return this.props.title;
+	}
+
+	get closed(): boolean {
+		return this.props.closed;
+	}
+
+	private constructor(id: UniqueEntityID) {
+		super({ title: '', closed: false }, id);
+	}
+
+	static open(id: string, title: string): Task {
+		const task = new Task(new UniqueEntityID(id));
+		task.raise(new TaskOpenedEvent({ title }, task.id));
+		return task;
+	}
+
+	static fromHistory(id: string, events: ReadonlyArray<HistoricalEvent>): Task {
+		const task = new Task(new UniqueEntityID(id));
+		task.loadFromHistory(events);
+		return task;
+	}
+
+	close(): void {
+		this.raise(new TaskClosedEvent(this.id));
+	}
+
+	protected getApplyHandlers(): EventApplyHandlers {
+		return {
+			TaskOpened: (payload: { title: string }) => {
+				this.props.title = payload.title;
+			},
+			TaskClosed: () => {
+				this.props.closed = true;
+			}
+		};
+	}
+}
+
+describe('EventSourcedRepository', () => {
+	let eventStore: jest.Mocked<EventStorePort>;
+	let repository: EventSourcedRepository<Task>;
+
+	beforeEach(() => {
+		eventStore = {
+			append: jest.fn().mockResolvedValue(undefined),
+			load: jest.fn(),
+			loadFromVersion: jest.fn(),
+			loadUntil: jest.fn(),
+			hasEvents: jest.fn(),
+			readAll: jest.fn()
+		};
+		repository = new EventSourcedRepository<Task>(eventStore, {
+			rehydrate: (aggregateId, events) => Task.fromHistory(aggregateId, events),
+			resolveTenantId: () => 'tenant-1',
+			resolveMetadata: () => ({ userId: 'user-1' })
+		});
+	});
+
+	describe('load', () => {
+		it('应该加载事件流并重放为聚合', async () => {
+			// Arrange
+			eventStore.load.mockResolvedValue(
+				EventStream.create('task-1', [
+					StoredEvent.create({
+						eventName: 'TaskOpened',
+						aggregateId: 'task-1',
+						payload: { title: '写文档' },
+						eventVersion: 1
+					}),
+					StoredEvent.create({ eventName: 'TaskClosed', aggregateId: 'task-1', payload: {}, eventVersion: 2 })
+				])
+			);
+
+			// Act
+			const task = await repository.load('task-1');
+
+			// Assert
+			expect(task).not.toBeNull();
+			expect(task?.title).toBe('写文档');
+			expect(task?.closed).toBe(true);
+			expect(task?.version).toBe(2);
+			expect(task?.hasDomainEvents()).toBe(false);
+		});
+
+		it('事件流为空时应该返回 null', async () => {
+			// Arrange
+			eventStore.load.mockResolvedValue(EventStream.create('task-1', []));
+
+			// Act & Assert
+			await expect(repository.load('task-1')).resolves.toBeNull();
+		});
+	});
+
+	describe('save', () => {
+		it('应该以聚合版本作为 expectedVersion 追加待提交事件', async () => {
+			// Arrange
+			const task = Task.open('task-1', '写文档');
+			task.close();
+			const [opened] = task.domainEvents;
+
+			// Act
+			await repository.save(task);
+
+			// Assert
+			expect(eventStore.append).toHaveBeenCalledTimes(1);
+			const [aggregateId, events, expectedVersion] = eventStore.append.mock.calls[0];
+			expect(aggregateId).toBe('task-1');
+			expect(expectedVersion).toBe(0);
+			expect(events.map((e) => e.eventVersion)).toEqual([1, 2]);
+			expect(events[0]).toMatchObject({
+				eventId: opened.eventId,
+				eventName: 'TaskOpened',
+				tenantId: 'tenant-1',
+				payload: { title: '写文档' },
+				schemaVersion: 1,
+				status: StoredEventStatus.PENDING,
+				metadata: { userId: 'user-1' }
+			});
+		});
+
+		it('保存成功后应该推进版本并清除领域事件', async () => {
+			// Arrange
+			const task = Task.open('task-1', '写文档');
+
+			// Act
+			await repository.save(task);
+			task.close();
+			await repository.save(task);
+
+			// Assert
+			expect(task.version).toBe(2);
+			expect(task.hasDomainEvents()).toBe(false);
+			expect(eventStore.append.mock.calls[1][2]).toBe(1);
+			expect(eventStore.append.mock.calls[1][1][0].eventVersion).toBe(2);
+		});
+
+		it('没有待提交事件时不应该追加', async () => {
+			// Arrange
+			const task = Task.fromHistory('task-1', [
+				{ eventName: 'TaskOpened', payload: { title: 'x' }, eventVersion: 1 }
+			]);
+
+			// Act
+			await repository.save(task);
+
+			// Assert
+			expect(eventStore.append).not.toHaveBeenCalled();
+		});
+
+		it('版本冲突时应该保留待提交事件', async () => {
+			// Arrange
+			const task = Task.open('task-1', '写文档');
+			eventStore.append.mockRejectedValue(new OptimisticLockError('task-1', 0, 1));
+
+			// Act & Assert
+			await expect(repository.save(task)).rejects.toBeInstanceOf(OptimisticLockError);
+			expect(task.version).toBe(0);
+			expect(task.hasDomainEvents()).toBe(true);
+		});
+	});
+});
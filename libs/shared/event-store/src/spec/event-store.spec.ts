@@ -3,7 +3,7 @@
  *
  * 测试事件存储功能
  */
-import { StoredEvent, EventStream, EventStorePort, StoredEventStatus } from '../index';
+import { StoredEvent, EventStream, EventStorePort, StoredEventStatus, OptimisticLockError } from '../index';
 
 describe('EventStore', () => {
 	describe('StoredEvent', () => {
@@ -63,6 +63,19 @@ describe('EventStore', () => {
 				expect(storedEvent.occurredAt.getTime()).toBeLessThanOrEqual(after);
 			});
 
+			it('应该保留租户 ID', () => {
+				// Arrange & Act
+				const storedEvent = StoredEvent.create({
+					eventName: 'TaskCreated',
+					aggregateId: 'task-123',
+					tenantId: 'tenant-1',
+					payload: {}
+				});
+
+				// Assert
+				expect(storedEvent.tenantId).toBe('tenant-1');
+			});
+
 			it('默认状态应该是 PENDING', () => {
 				// Arrange & Act
 				const storedEvent = StoredEvent.create({
@@ -258,6 +271,72 @@ describe('EventStore', () => {
 			});
 		});
 
+		describe('until', () => {
+			const events = [1, 2, 3].map((version) =>
+				StoredEvent.fromProps({
+					eventId: `evt-${version}`,
+					eventName: `Event${version}`,
+					aggregateId: 'task-123',
+					payload: {},
+					eventVersion: version,
+					occurredAt: new Date(`2024-01-0${version}T00:00:00.000Z`),
+					status: StoredEventStatus.PROCESSED
+				})
+			);
+
+			it('按版本截取时应该包含指定版本', () => {
+				// Arrange
+				const stream = EventStream.create('task-123', events);
+
+				// Act
+				const result = stream.until(2);
+
+				// Assert
+				expect(result.count).toBe(2);
+				expect(result.version).toBe(2);
+				expect(result.aggregateId).toBe('task-123');
+			});
+
+			it('按时间截取时应该包含该时刻发生的事件', () => {
+				// Arrange
+				const stream = EventStream.create('task-123', events);
+
+				// Act
+				const result = stream.until(new Date('2024-01-02T00:00:00.000Z'));
+
+				// Assert
+				expect(result.events.map((e) => e.eventName)).toEqual(['Event1', 'Event2']);
+			});
+
+			it('发生时间与版本不单调时应该按该时刻之前的最大版本截取，不跳过中间版本', () => {
+				// Arrange
+				const outOfOrder = events.map((e) =>
+					e.eventVersion === 2
+						? StoredEvent.fromProps({ ...e, occurredAt: new Date('2024-01-05T00:00:00.000Z') })
+						: e
+				);
+				const stream = EventStream.create('task-123', outOfOrder);
+
+				// Act
+				const result = stream.until(new Date('2024-01-03T00:00:00.000Z'));
+
+				// Assert
+				expect(result.events.map((e) => e.eventVersion)).toEqual([1, 2, 3]);
+			});
+
+			it('时间点早于首个事件时应该返回空事件流', () => {
+				// Arrange
+				const stream = EventStream.create('task-123', events);
+
+				// Act
+				const result = stream.until(new Date('2023-12-31'));
+
+				// Assert
+				expect(result.hasEvents()).toBe(false);
+				expect(result.version).toBe(0);
+			});
+		});
+
 		describe('hasEvents', () => {
 			it('有事件时应该返回 true', () => {
 				// Arrange
@@ -322,14 +401,42 @@ describe('EventStore', () => {
 				append: async () => {},
 				load: async () => EventStream.create('test', []),
 				loadFromVersion: async () => EventStream.create('test', []),
-				hasEvents: async () => false
+				loadUntil: async () => EventStream.create('test', []),
+				hasEvents: async () => false,
+				readAll: async () => []
 			};
 
 			// Assert
 			expect(mockPort.append).toBeDefined();
 			expect(mockPort.load).toBeDefined();
 			expect(mockPort.loadFromVersion).toBeDefined();
+			expect(mockPort.loadUntil).toBeDefined();
 			expect(mockPort.hasEvents).toBeDefined();
+			expect(mockPort.readAll).toBeDefined();
+		});
+	});
+
+	describe('OptimisticLockError', () => {
+		it('应该携带聚合 ID 与版本信息', () => {
+			// Act
+			const error = new OptimisticLockError('task-123', 2, 3);
+
+			// Assert
+			expect(error).toBeInstanceOf(Error);
+			expect(error.name).toBe('OptimisticLockError');
+			expect(error.aggregateId).toBe('task-123');
+			expect(error.expectedVersion).toBe(2);
+			expect(error.actualVersion).toBe(3);
+			expect(error.message).toContain('task-123');
+		});
+
+		it('实际版本未知时消息应该提示未知', () => {
+			// Act
+			const error = new OptimisticLockError('task-123', 2);
+
+			// Assert
+			expect(error.actualVersion).toBeUndefined();
+			expect(error.message).toContain('未知');
 		});
 	});
 });
@@ -0,0 +1,160 @@
+import { ProjectionRunner, type CheckpointStorePort, type EventProjection } from '../../lib/projection';
+import { type EventStorePort } from '../../lib/event-store.port';
+import { StoredEvent, StoredEventStatus } from '../../lib/stored-event.entity';
+
+function createEvent(position: number | undefined): StoredEvent {
+	return StoredEvent.fromProps({
+		eventId: `evt-${position}`,
+		eventName: 'TenantCreated',
+		aggregateId: 'tenant-1',
+		tenantId: 'tenant-1',
+		payload: {},
+		eventVersion: 1,
+		occurredAt: new Date('2024-01-01'),
+		status: StoredEventStatus.PENDING,
+		position
+	});
+}
+
+/**
+ * 按位置切片的内存事件源
+ */
+function createEventStore(positions: number[]): jest.Mocked<EventStorePort> {
+	const events = positions.map(createEvent);
+	return {
+		append: jest.fn(),
+		load: jest.fn(),
+		loadFromVersion: jest.fn(),
+		loadUntil: jest.fn(),
+		hasEvents: jest.fn(),
+		readAll: jest.fn(async (from: number, limit: number) =>
+			events.filter((e) => (e.position ?? 0) > from).slice(0, limit)
+		)
+	};
+}
+
+function createCheckpointStore(initial = 0): jest.Mocked<CheckpointStorePort> & { position: number } {
+	const store = {
+		position: initial,
+		load: jest.fn(async () => store.position),
+		save: jest.fn(async (_name: string, position: number) => {
+			store.position = position;
+		})
+	};
+	return store;
+}
+
+describe('ProjectionRunner', () => {
+	let projection: jest.Mocked<EventProjection>;
+
+	beforeEach(() => {
+		projection = {
+			name: 'aggregate-metadata',
+			filter: { eventNames: ['TenantCreated'] },
+			handle: jest.fn().mockResolvedValue(undefined),
+			reset: jest.fn().mockResolvedValue(undefined)
+		};
+	});
+
+	it('batchSize 非法时应该抛出错误', () => {
+		expect(
+			() => new ProjectionRunner(createEventStore([]), createCheckpointStore(), projection, { batchSize: 0 })
+		).toThrow('batchSize 必须为正整数');
+	});
+
+	describe('runOnce', () => {
+		it('应该从检查点读取一批事件并推进检查点', async () => {
+			// Arrange
+			const eventStore = createEventStore([3, 5, 8]);
+			const checkpoints = createCheckpointStore(3);
+			const runner = new ProjectionRunner(eventStore, checkpoints, projection, { batchSize: 10 });
+
+			// Act
+			const processed = await runner.runOnce();
+
+			// Assert
+			expect(processed).toBe(2);
+			expect(eventStore.readAll).toHaveBeenCalledWith(3, 10, { eventNames: ['TenantCreated'] });
+			expect(projection.handle).toHaveBeenCalledTimes(2);
+			expect(checkpoints.save).toHaveBeenCalledWith('aggregate-metadata', 8);
+		});
+
+		it('没有新事件时不应该写入检查点', async () => {
+			// Arrange
+			const checkpoints = createCheckpointStore(8);
+			const runner = new ProjectionRunner(createEventStore([3, 5, 8]), checkpoints, projection);
+
+			// Act
+			const processed = await runner.runOnce();
+
+			// Assert
+			expect(processed).toBe(0);
+			expect(checkpoints.save).not.toHaveBeenCalled();
+		});
+
+		it('处理失败时应该停在最后一个成功的事件上', async () => {
+			// Arrange
+			const checkpoints = createCheckpointStore();
+			const runner = new ProjectionRunner(createEventStore([1, 2, 3]), checkpoints, projection);
+			projection.handle.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('写入读模型失败'));
+
+			// Act & Assert
+			await expect(runner.runOnce()).rejects.toThrow('写入读模型失败');
+			expect(checkpoints.position).toBe(1);
+		});
+
+		it('事件缺少 position 时应该抛出错误', async () => {
+			// Arrange
+			const eventStore = createEventStore([]);
+			eventStore.readAll.mockResolvedValue([createEvent(undefined)]);
+			const runner = new ProjectionRunner(eventStore, createCheckpointStore(), projection);
+
+			// Act & Assert
+			await expect(runner.runOnce()).rejects.toThrow('缺少 position');
+			expect(projection.handle).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('catchUp', () => {
+		it('应该分批处理直到追上事件流末尾', async () => {
+			// Arrange
+			const eventStore = createEventStore([1, 2, 3, 4, 5]);
+			const checkpoints = createCheckpointStore();
+			const runner = new ProjectionRunner(eventStore, checkpoints, projection, { batchSize: 2 });
+
+			// Act
+			const total = await runner.catchUp();
+
+			// Assert
+			expect(total).toBe(5);
+			expect(eventStore.readAll).toHaveBeenCalledTimes(3);
+			expect(checkpoints.position).toBe(5);
+		});
+	});
+
+	describe('rebuild', () => {
+		it('应该重置读模型与检查点后从头重放', async () => {
+			// Arrange
+			const checkpoints = createCheckpointStore(5);
+			const runner = new ProjectionRunner(createEventStore([1, 2, 3, 4, 5]), checkpoints, projection);
+
+			// Act
+			const total = await runner.rebuild();
+
+			// Assert
+			expect(projection.reset).toHaveBeenCalledTimes(1);
+			expect(checkpoints.save).toHaveBeenNthCalledWith(1, 'aggregate-metadata', 0);
+			expect(total).toBe(5);
+			expect(checkpoints.position).toBe(5);
+		});
+
+		it('投影未实现 reset 时也应该能重建', async () => {
+			// Arrange
+			const { reset: _reset, ...withoutReset } = projection;
+			const runner = new ProjectionRunner(createEventStore([1]), createCheckpointStore(1), withoutReset);
+
+			// Act & Assert
+			await expect(runner.rebuild()).resolves.toBe(1);
+		});
+	});
+});
@@ -0,0 +1,235 @@
+import {
+	Snapshot,
+	SnapshotPolicy,
+	SnapshotEventLoader,
+	DEFAULT_SNAPSHOT_FREQUENCY,
+	type SnapshotStorePort
+} from '../../lib/snapshot';
+import { EventStream } from '../../lib/event-stream.vo';
+import { type EventStorePort } from '../../lib/event-store.port';
+import { StoredEvent } from '../../lib/stored-event.entity';
+
+function createSnapshot(overrides: Partial<{ aggregateType: string; version: number; schemaVersion: number }> = {}) {
+	return Snapshot.create({
+		aggregateId: 'tenant-1',
+		aggregateType: overrides.aggregateType ?? 'Tenant',
+		tenantId: 'tenant-1',
+		version: overrides.version ?? 50,
+		schemaVersion: overrides.schemaVersion ?? 1,
+		state: { name: 'Acme' }
+	});
+}
+
+describe('Snapshot', () => {
+	it('应该创建快照并默认设置创建时间', () => {
+		// Act
+		const snapshot = createSnapshot();
+
+		// Assert
+		expect(snapshot.aggregateId).toBe('tenant-1');
+		expect(snapshot.version).toBe(50);
+		expect(snapshot.state).toEqual({ name: 'Acme' });
+		expect(snapshot.createdAt).toBeInstanceOf(Date);
+	});
+
+	it('应该从属性重建快照', () => {
+		// Arrange
+		const createdAt = new Date('2024-01-01');
+
+		// Act
+		const snapshot = Snapshot.fromProps({
+			aggregateId: 'tenant-1',
+			aggregateType: 'Tenant',
+			version: 3,
+			schemaVersion: 2,
+			state: {},
+			createdAt
+		});
+
+		// Assert
+		expect(snapshot.schemaVersion).toBe(2);
+		expect(snapshot.createdAt).toBe(createdAt);
+		expect(snapshot.tenantId).toBeUndefined();
+	});
+});
+
+describe('SnapshotPolicy', () => {
+	it('未配置时应该使用默认频率与结构版本', () => {
+		// Arrange
+		const policy = new SnapshotPolicy();
+
+		// Assert
+		expect(policy.getFrequency('Tenant')).toBe(DEFAULT_SNAPSHOT_FREQUENCY);
+		expect(policy.getSchemaVersion('Tenant')).toBe(1);
+	});
+
+	it('应该按聚合类型返回配置的频率', () => {
+		// Arrange
+		const policy = new SnapshotPolicy({ defaultFrequency: 20, aggregates: { Tenant: { frequency: 5 } } });
+
+		// Assert
+		expect(policy.getFrequency('Tenant')).toBe(5);
+		expect(policy.getFrequency('User')).toBe(20);
+	});
+
+	it('跨过频率整数倍时应该生成快照', () => {
+		// Arrange
+		const policy = new SnapshotPolicy({ aggregates: { Tenant: { frequency: 10 } } });
+
+		// Assert
+		expect(policy.shouldSnapshot('Tenant', 9, 10)).toBe(true);
+		expect(policy.shouldSnapshot('Tenant', 8, 12)).toBe(true);
+		expect(policy.shouldSnapshot('Tenant', 10, 11)).toBe(false);
+		expect(policy.shouldSnapshot('Tenant', 10, 10)).toBe(false);
+	});
+
+	it('频率为 0 时不应该生成快照', () => {
+		// Arrange
+		const policy = new SnapshotPolicy({ aggregates: { User: { frequency: 0 } } });
+
+		// Assert
+		expect(policy.shouldSnapshot('User', 0, 1000)).toBe(false);
+	});
+
+	it('结构版本不一致的快照应该视为过期', () => {
+		// Arrange
+		const policy = new SnapshotPolicy({ aggregates: { Tenant: { schemaVersion: 2 } } });
+
+		// Assert
+		expect(policy.isStale(createSnapshot({ schemaVersion: 1 }))).toBe(true);
+		expect(policy.isStale(createSnapshot({ schemaVersion: 2 }))).toBe(false);
+	});
+
+	it('非法配置应该抛出错误', () => {
+		expect(() => new SnapshotPolicy({ defaultFrequency: -1 })).toThrow('defaultFrequency');
+		expect(() => new SnapshotPolicy({ aggregates: { Tenant: { frequency: 1.5 } } })).toThrow('Tenant.frequency');
+		expect(() => new SnapshotPolicy({ aggregates: { Tenant: { schemaVersion: 0 } } })).toThrow(
+			'Tenant.schemaVersion'
+		);
+	});
+});
+
+describe('SnapshotEventLoader', () => {
+	let eventStore: jest.Mocked<EventStorePort>;
+	let snapshotStore: jest.Mocked<SnapshotStorePort>;
+	let policy: SnapshotPolicy;
+	let loader: SnapshotEventLoader;
+
+	const fullStream = EventStream.create('tenant-1', [
+		StoredEvent.create({ eventName: 'TenantCreated', aggregateId: 'tenant-1', payload: {}, eventVersion: 1 })
+	]);
+	const tailStream = EventStream.create('tenant-1', [
+		StoredEvent.create({ eventName: 'TenantActivated', aggregateId: 'tenant-1', payload: {}, eventVersion: 51 })
+	]);
+
+	beforeEach(() => {
+		eventStore = {
+			append: jest.fn(),
+			load: jest.fn().mockResolvedValue(fullStream),
+			loadFromVersion: jest.fn().mockResolvedValue(tailStream),
+			loadUntil: jest.fn(),
+			hasEvents: jest.fn(),
+			readAll: jest.fn()
+		};
+		snapshotStore = {
+			save: jest.fn().mockResolvedValue(undefined),
+			loadLatest: jest.fn().mockResolvedValue(null),
+			delete: jest.fn().mockResolvedValue(undefined)
+		};
+		policy = new SnapshotPolicy({ aggregates: { Tenant: { frequency: 50, schemaVersion: 1 } } });
+		loader = new SnapshotEventLoader(eventStore, snapshotStore, policy);
+	});
+
+	describe('load', () => {
+		it('存在有效快照时应该只加载快照之后的事件', async () => {
+			// Arrange
+			const snapshot = createSnapshot({ version: 50 });
+			snapshotStore.loadLatest.mockResolvedValue(snapshot);
+
+			// Act
+			const result = await loader.load('Tenant', 'tenant-1');
+
+			// Assert
+			expect(result.snapshot).toBe(snapshot);
+			expect(result.stream).toBe(tailStream);
+			expect(eventStore.loadFromVersion).toHaveBeenCalledWith('tenant-1', 50);
+			expect(eventStore.load).not.toHaveBeenCalled();
+		});
+
+		it('没有快照时应该完整加载事件流', async () => {
+			// Act
+			const result = await loader.load('Tenant', 'tenant-1');
+
+			// Assert
+			expect(result.snapshot).toBeNull();
+			expect(result.stream).toBe(fullStream);
+			expect(eventStore.load).toHaveBeenCalledWith('tenant-1');
+		});
+
+		it('快照过期时应该丢弃并完整加载事件流', async () => {
+			// Arrange
+			snapshotStore.loadLatest.mockResolvedValue(createSnapshot({ schemaVersion: 0 }));
+
+			// Act
+			const result = await loader.load('Tenant', 'tenant-1');
+
+			// Assert
+			expect(result.snapshot).toBeNull();
+			expect(eventStore.load).toHaveBeenCalledWith('tenant-1');
+			expect(eventStore.loadFromVersion).not.toHaveBeenCalled();
+		});
+
+		it('聚合类型不一致的快照应该被丢弃', async () => {
+			// Arrange
+			snapshotStore.loadLatest.mockResolvedValue(createSnapshot({ aggregateType: 'User' }));
+
+			// Act
+			const result = await loader.load('Tenant', 'tenant-1');
+
+			// Assert
+			expect(result.snapshot).toBeNull();
+		});
+	});
+
+	describe('saveIfDue', () => {
+		it('到达快照点时应该保存快照', async () => {
+			// Arrange
+			const state = jest.fn().mockReturnValue({ name: 'Acme' });
+
+			// Act
+			const snapshot = await loader.saveIfDue({
+				aggregateType: 'Tenant',
+				aggregateId: 'tenant-1',
+				tenantId: 'tenant-1',
+				previousVersion: 49,
+				version: 51,
+				state
+			});
+
+			// Assert
+			expect(snapshot).not.toBeNull();
+			expect(snapshot?.version).toBe(51);
+			expect(snapshot?.schemaVersion).toBe(1);
+			expect(snapshotStore.save).toHaveBeenCalledWith(snapshot);
+		});
+
+		it('未到快照点时不应该读取状态', async () => {
+			// Arrange
+			const state = jest.fn();
+
+			// Act
+			const snapshot = await loader.saveIfDue({
+				aggregateType: 'Tenant',
+				aggregateId: 'tenant-1',
+				previousVersion: 1,
+				version: 2,
+				state
+			});
+
+			// Assert
+			expect(snapshot).toBeNull();
+			expect(state).not.toHaveBeenCalled();
+			expect(snapshotStore.save).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,163 @@
+import {
+	InMemoryCheckpointStore,
+	InMemoryEventStore,
+	assertEventAppended,
+	assertNoEventAppended,
+	isPartialMatch
+} from '../../lib/testing';
+import { OptimisticLockError } from '../../lib/optimistic-lock.error';
+import { StoredEvent } from '../../lib/stored-event.entity';
+
+function createEvent(
+	version: number,
+	overrides: {
+		aggregateId?: string;
+		tenantId?: string | null;
+		eventName?: string;
+		payload?: Record<string, unknown>;
+	} = {}
+): StoredEvent {
+	return StoredEvent.create({
+		eventName: overrides.eventName ?? 'TenantCreated',
+		aggregateId: overrides.aggregateId ?? 'agg-1',
+		tenantId: overrides.tenantId === null ? undefined : (overrides.tenantId ?? 'tenant-1'),
+		payload: overrides.payload ?? { name: 'Acme' },
+		eventVersion: version
+	});
+}
+
+describe('InMemoryEventStore', () => {
+	let store: InMemoryEventStore;
+
+	beforeEach(() => {
+		store = new InMemoryEventStore();
+	});
+
+	describe('append', () => {
+		it('应该按提交顺序分配全局位置', async () => {
+			// Act
+			await store.append('agg-1', [createEvent(1), createEvent(2)], 0);
+			await store.append('agg-2', [createEvent(1, { aggregateId: 'agg-2' })], 0);
+
+			// Assert
+			expect(store.getEvents().map((e) => e.position)).toEqual([1, 2, 3]);
+			expect((await store.load('agg-1')).version).toBe(2);
+		});
+
+		it('版本不匹配时应该抛出 OptimisticLockError 且不写入', async () => {
+			// Arrange
+			await store.append('agg-1', [createEvent(1)], 0);
+
+			// Act
+			const promise = store.append('agg-1', [createEvent(3), createEvent(4)], 2);
+
+			// Assert
+			await expect(promise).rejects.toBeInstanceOf(OptimisticLockError);
+			await expect(promise).rejects.toMatchObject({ expectedVersion: 2, actualVersion: 1 });
+			expect(store.getEvents('agg-1')).toHaveLength(1);
+		});
+
+		it('并发追加同一版本时只有一个成功', async () => {
+			// Act
+			const results = await Promise.allSettled([
+				store.append('agg-1', [createEvent(1)], 0),
+				store.append('agg-1', [createEvent(1)], 0)
+			]);
+
+			// Assert
+			expect(results.map((r) => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+			expect(store.getEvents('agg-1')).toHaveLength(1);
+		});
+
+		it('重复的 eventId 应该视为并发冲突', async () => {
+			// Arrange
+			const event = createEvent(1);
+			await store.append('agg-1', [event], 0);
+
+			// Act & Assert
+			await expect(
+				store.append('agg-2', [StoredEvent.fromProps({ ...event, aggregateId: 'agg-2' })], 0)
+			).rejects.toBeInstanceOf(OptimisticLockError);
+		});
+
+		it('应该与 PostgreSQL 实现一致地校验待追加事件', async () => {
+			await expect(store.append('agg-1', [createEvent(1, { tenantId: null })], 0)).rejects.toThrow(
+				'禁止追加无租户事件'
+			);
+			await expect(store.append('agg-1', [createEvent(1, { aggregateId: 'agg-2' })], 0)).rejects.toThrow(
+				'不一致'
+			);
+			await expect(store.append('agg-1', [createEvent(1), createEvent(3)], 0)).rejects.toThrow('版本不连续');
+		});
+	});
+
+	describe('读取', () => {
+		beforeEach(async () => {
+			await store.append('agg-1', [createEvent(1), createEvent(2), createEvent(3)], 0);
+			await store.append('agg-2', [createEvent(1, { aggregateId: 'agg-2', tenantId: 'tenant-2' })], 0);
+		});
+
+		it('loadFromVersion 与 loadUntil 应该截取事件流', async () => {
+			expect((await store.loadFromVersion('agg-1', 1)).events.map((e) => e.eventVersion)).toEqual([2, 3]);
+			expect((await store.loadUntil('agg-1', 2)).version).toBe(2);
+			expect(await store.hasEvents('agg-3')).toBe(false);
+		});
+
+		it('readAll 应该按位置分页并支持过滤', async () => {
+			expect((await store.readAll(1, 2)).map((e) => e.position)).toEqual([2, 3]);
+			expect((await store.readAll(0, 10, { tenantId: 'tenant-2' })).map((e) => e.aggregateId)).toEqual(['agg-2']);
+			expect(await store.readAll(0, 10, { eventNames: ['TenantActivated'] })).toEqual([]);
+		});
+	});
+});
+
+describe('InMemoryCheckpointStore', () => {
+	it('未记录时返回 0，保存后返回最新位置', async () => {
+		// Arrange
+		const checkpoints = new InMemoryCheckpointStore();
+
+		// Act
+		const initial = await checkpoints.load('projection');
+		await checkpoints.save('projection', 42);
+
+		// Assert
+		expect(initial).toBe(0);
+		expect(await checkpoints.load('projection')).toBe(42);
+	});
+});
+
+describe('事件断言', () => {
+	const events = [
+		createEvent(1, { payload: { name: 'Acme', address: { city: 'Shanghai', zip: '200000' } } }),
+		createEvent(2, { eventName: 'TenantActivated', payload: {} })
+	];
+
+	it('assertEventAppended 应该按负载部分匹配并返回事件', () => {
+		// Act
+		const matched = assertEventAppended(events, {
+			eventName: 'TenantCreated',
+			payload: { address: { city: 'Shanghai' } }
+		});
+
+		// Assert
+		expect(matched).toBe(events[0]);
+	});
+
+	it('assertEventAppended 未匹配时应该列出实际事件', () => {
+		expect(() => assertEventAppended(events, { eventName: 'TenantCreated', payload: { name: 'Other' } })).toThrow(
+			/未找到期望的事件[\s\S]*TenantActivated v2/
+		);
+	});
+
+	it('assertNoEventAppended 存在匹配事件时应该失败', () => {
+		expect(() => assertNoEventAppended(events, { eventName: 'TenantSuspended' })).not.toThrow();
+		expect(() => assertNoEventAppended(events, { eventName: 'TenantActivated' })).toThrow('不应出现的事件');
+		expect(() => assertNoEventAppended([])).not.toThrow();
+	});
+
+	it('isPartialMatch 对数组与日期应该严格比较', () => {
+		expect(isPartialMatch({ tags: ['a', 'b'] }, { tags: ['a'] })).toBe(false);
+		expect(isPartialMatch({ at: new Date(0) }, { at: new Date(0) })).toBe(true);
+		expect(isPartialMatch('text', { key: 1 })).toBe(false);
+	});
+});
@@ -0,0 +1,248 @@
+import { UpcasterRegistry, UpcastingEventStore, assertUpcasterFixtures, type EventUpcaster } from '../../lib/upcasting';
+import { EventStream } from '../../lib/event-stream.vo';
+import { type EventStorePort } from '../../lib/event-store.port';
+import { StoredEvent } from '../../lib/stored-event.entity';
+
+const tenantCreatedV1ToV2: EventUpcaster = {
+	eventName: 'TenantCreated',
+	fromVersion: 1,
+	upcast: (payload) => ({ ...payload, region: 'cn' })
+};
+
+const tenantCreatedV2ToV3: EventUpcaster = {
+	eventName: 'TenantCreated',
+	fromVersion: 2,
+	upcast: ({ name, ...rest }) => ({ ...rest, displayName: name })
+};
+
+function createEvent(schemaVersion: number, payload: Record<string, unknown>, eventVersion = 1): StoredEvent {
+	return StoredEvent.create({
+		eventName: 'TenantCreated',
+		aggregateId: 'tenant-1',
+		payload,
+		eventVersion,
+		schemaVersion
+	});
+}
+
+describe('UpcasterRegistry', () => {
+	let registry: UpcasterRegistry;
+
+	beforeEach(() => {
+		registry = new UpcasterRegistry().register(tenantCreatedV1ToV2, tenantCreatedV2ToV3);
+	});
+
+	describe('register', () => {
+		it('重复注册同一版本应该抛出错误', () => {
+			expect(() => registry.register(tenantCreatedV1ToV2)).toThrow('重复注册');
+		});
+
+		it('fromVersion 非法时应该抛出错误', () => {
+			expect(() => registry.register({ ...tenantCreatedV1ToV2, fromVersion: 0 })).toThrow('必须为正整数');
+		});
+	});
+
+	describe('upcast', () => {
+		it('应该按链逐级升级到最新版本', () => {
+			// Arrange
+			const event = createEvent(1, { name: 'Acme' });
+
+			// Act
+			const upcasted = registry.upcast(event);
+
+			// Assert
+			expect(upcasted.schemaVersion).toBe(3);
+			expect(upcasted.payload).toEqual({ region: 'cn', displayName: 'Acme' });
+			expect(upcasted.eventId).toBe(event.eventId);
+			expect(upcasted.eventVersion).toBe(event.eventVersion);
+		});
+
+		it('从中间版本开始升级', () => {
+			// Act
+			const upcasted = registry.upcast(createEvent(2, { name: 'Acme', region: 'us' }));
+
+			// Assert
+			expect(upcasted.schemaVersion).toBe(3);
+			expect(upcasted.payload).toEqual({ region: 'us', displayName: 'Acme' });
+		});
+
+		it('最新版本或未注册的事件应该原样返回', () => {
+			// Arrange
+			const latest = createEvent(3, { displayName: 'Acme' });
+			const other = StoredEvent.create({ eventName: 'TenantActivated', aggregateId: 'tenant-1', payload: {} });
+
+			// Assert
+			expect(registry.upcast(latest)).toBe(latest);
+			expect(registry.upcast(other)).toBe(other);
+		});
+
+		it('不应该修改原始事件', () => {
+			// Arrange
+			const event = createEvent(1, { name: 'Acme' });
+
+			// Act
+			registry.upcast(event);
+
+			// Assert
+			expect(event.schemaVersion).toBe(1);
+			expect(event.payload).toEqual({ name: 'Acme' });
+		});
+	});
+
+	describe('getLatestVersion', () => {
+		it('应该返回升级链可达的最高版本', () => {
+			expect(registry.getLatestVersion('TenantCreated')).toBe(3);
+			expect(registry.getLatestVersion('TenantActivated')).toBe(1);
+		});
+	});
+
+	describe('validate', () => {
+		it('完整的升级链应该通过校验', () => {
+			expect(() => registry.validate({ TenantCreated: 3, TenantActivated: 1 })).not.toThrow();
+		});
+
+		it('升级链有缺口时应该抛出错误', () => {
+			// Arrange
+			const broken = new UpcasterRegistry().register(tenantCreatedV2ToV3);
+
+			// Act & Assert
+			expect(() => broken.validate()).toThrow('TenantCreated 缺少 v1 → v2 升级器');
+		});
+
+		it('升级链与当前版本不一致时应该汇总全部问题', () => {
+			// Act & Assert
+			expect(() => registry.validate({ TenantCreated: 4, TenantSuspended: 2 })).toThrow(
+				/TenantCreated 当前版本为 v4.*TenantSuspended 当前版本为 v2/
+			);
+		});
+	});
+});
+
+describe('UpcastingEventStore', () => {
+	let inner: jest.Mocked<EventStorePort>;
+	let store: UpcastingEventStore;
+
+	beforeEach(() => {
+		inner = {
+			append: jest.fn().mockResolvedValue(undefined),
+			load: jest.fn().mockResolvedValue(EventStream.create('tenant-1', [createEvent(1, { name: 'Acme' })])),
+			loadFromVersion: jest
+				.fn()
+				.mockResolvedValue(EventStream.create('tenant-1', [createEvent(2, { name: 'Acme', region: 'us' }, 5)])),
+			loadUntil: jest
+				.fn()
+				.mockResolvedValue(EventStream.create('tenant-1', [createEvent(1, { name: 'Acme' }, 2)])),
+			hasEvents: jest.fn().mockResolvedValue(true),
+			readAll: jest.fn().mockResolvedValue([createEvent(1, { name: 'Acme' })])
+		};
+		store = new UpcastingEventStore(
+			inner,
+			new UpcasterRegistry().register(tenantCreatedV1ToV2, tenantCreatedV2ToV3)
+		);
+	});
+
+	it('load 应该返回升级后的事件流', async () => {
+		// Act
+		const stream = await store.load('tenant-1');
+
+		// Assert
+		expect(stream.events[0].schemaVersion).toBe(3);
+		expect(stream.events[0].payload).toEqual({ region: 'cn', displayName: 'Acme' });
+		expect(stream.version).toBe(1);
+	});
+
+	it('loadFromVersion 应该返回升级后的事件流', async () => {
+		// Act
+		const stream = await store.loadFromVersion('tenant-1', 4);
+
+		// Assert
+		expect(inner.loadFromVersion).toHaveBeenCalledWith('tenant-1', 4);
+		expect(stream.events[0].payload).toEqual({ region: 'us', displayName: 'Acme' });
+		expect(stream.version).toBe(5);
+	});
+
+	it('loadUntil 应该返回升级后的事件流', async () => {
+		// Arrange
+		const asOf = new Date('2024-01-01');
+
+		// Act
+		const stream = await store.loadUntil('tenant-1', asOf);
+
+		// Assert
+		expect(inner.loadUntil).toHaveBeenCalledWith('tenant-1', asOf);
+		expect(stream.events[0].schemaVersion).toBe(3);
+		expect(stream.version).toBe(2);
+	});
+
+	it('readAll 应该返回升级后的事件', async () => {
+		// Act
+		const events = await store.readAll(10, 50, { tenantId: 'tenant-1' });
+
+		// Assert
+		expect(inner.readAll).toHaveBeenCalledWith(10, 50, { tenantId: 'tenant-1' });
+		expect(events[0].schemaVersion).toBe(3);
+		expect(events[0].payload).toEqual({ region: 'cn', displayName: 'Acme' });
+	});
+
+	it('append 与 hasEvents 应该直接委托', async () => {
+		// Arrange
+		const events = [createEvent(3, { displayName: 'Acme' })];
+
+		// Act
+		await store.append('tenant-1', events, 0);
+		const has = await store.hasEvents('tenant-1');
+
+		// Assert
+		expect(inner.append).toHaveBeenCalledWith('tenant-1', events, 0);
+		expect(has).toBe(true);
+	});
+});
+
+describe('assertUpcasterFixtures', () => {
+	const registry = new UpcasterRegistry().register(tenantCreatedV1ToV2, tenantCreatedV2ToV3);
+
+	it('夹具与升级结果一致时应该通过', () => {
+		expect(() =>
+			assertUpcasterFixtures(registry, [
+				{
+					name: 'v1 录制事件',
+					input: { eventName: 'TenantCreated', schemaVersion: 1, payload: { name: 'Acme' } },
+					expected: { schemaVersion: 3, payload: { region: 'cn', displayName: 'Acme' } }
+				}
+			])
+		).not.toThrow();
+	});
+
+	it('夹具不一致时应该抛出包含差异的错误', () => {
+		expect(() =>
+			assertUpcasterFixtures(registry, [
+				{
+					input: { eventName: 'TenantCreated', schemaVersion: 1, payload: { name: 'Acme' } },
+					expected: { schemaVersion: 2, payload: { name: 'Acme' } }
+				}
+			])
+		).toThrow(/\[TenantCreated v1\] 期望升级到 v2，实际为 v3/);
+	});
+
+	it('升级器修改原始负载时应该失败', () => {
+		// Arrange
+		const mutating = new UpcasterRegistry().register({
+			eventName: 'TenantCreated',
+			fromVersion: 1,
+			upcast: (payload) => {
+				payload.region = 'cn';
+				return payload;
+			}
+		});
+
+		// Act & Assert
+		expect(() =>
+			assertUpcasterFixtures(mutating, [
+				{
+					input: { eventName: 'TenantCreated', schemaVersion: 1, payload: { name: 'Acme' } },
+					expected: { schemaVersion: 2, payload: { name: 'Acme', region: 'cn' } }
+				}
+			])
+		).toThrow('升级器修改了原始负载');
+	});
+});
@@ -12,5 +12,11 @@ export { UniqueEntityID } from './lib/unique-entity-id.vo';
 export { ValueObject } from './lib/value-object.vo';
 export { Entity } from './lib/entity';
 export { AggregateRoot } from './lib/aggregate-root.aggregate';
+export {
+	EventSourcedAggregateRoot,
+	type HistoricalEvent,
+	type EventApplyHandler,
+	type EventApplyHandlers
+} from './lib/event-sourced-aggregate-root.aggregate';
 export { DomainEvent, type DomainEventProps } from './lib/domain-event';
 export { Guard } from './lib/guard';
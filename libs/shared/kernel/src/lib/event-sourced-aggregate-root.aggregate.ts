@@ -0,0 +1,171 @@
+/**
+ * 事件溯源聚合根基类
+ *
+ * 在聚合根基础上增加"按事件重建状态"的能力：
+ * - 每个事件名称对应一个 apply 处理器，负责把事件负载折叠进聚合状态
+ * - 业务方法通过 `raise` 产生事件：先 apply 修改状态，再记录为待提交的领域事件
+ * - 从事件流重建时通过 `loadFromHistory` 重放历史事件，不产生新的领域事件
+ * - `version` 为已提交的事件流版本，仓储据此进行乐观并发控制
+ *
+ * @template T - 聚合根属性类型
+ *
+ * @example
+ * ```typescript
+ * class Task extends EventSourcedAggregateRoot<TaskProps> {
+ *   static create(title: string, id: UniqueEntityID): Task {
+ *     const task = new Task({} as TaskProps, id);
+ *     task.raise(new TaskCreatedEvent({ title }, id));
+ *     return task;
+ *   }
+ *
+ *   static fromHistory(id: UniqueEntityID, events: ReadonlyArray<HistoricalEvent>): Task {
+ *     const task = new Task({} as TaskProps, id);
+ *     task.loadFromHistory(events);
+ *     return task;
+ *   }
+ *
+ *   protected getApplyHandlers(): EventApplyHandlers {
+ *     return {
+ *       TaskCreated: (payload: TaskCreatedPayload) => {
+ *         this.props = { title: payload.title, done: false };
+ *       }
+ *     };
+ *   }
+ * }
+ * ```
+ */
+import { AggregateRoot } from './aggregate-root.aggregate';
+import { DomainEvent } from './domain-event';
+
+/**
+ * 历史事件
+ *
+ * 重放所需的最小事件结构，事件存储中的 StoredEvent 满足该结构。
+ */
+export interface HistoricalEvent {
+	/**
+	 * 事件名称
+	 */
+	eventName: string;
+
+	/**
+	 * 事件负载
+	 */
+	payload: unknown;
+
+	/**
+	 * 事件在事件流中的版本
+	 */
+	eventVersion: number;
+}
+
+/**
+ * 事件 apply 处理器
+ *
+ * 注册时按事件声明负载类型（如 `(payload: TaskCreatedPayload) => void`）；
+ * 默认参数类型为 `never`，使不同负载类型的处理器都能放入同一个映射。
+ *
+ * @template P - 事件负载类型
+ */
+export type EventApplyHandler<P = never> = (payload: P) => void;
+
+/**
+ * 事件名称到 apply 处理器的映射
+ */
+export type EventApplyHandlers = Record<string, EventApplyHandler>;
+
+export abstract class EventSourcedAggregateRoot<T> extends AggregateRoot<T> {
+	/**
+	 * 已提交的事件流版本
+	 * @private
+	 */
+	private _version = 0;
+
+	/**
+	 * apply 处理器缓存
+	 * @private
+	 */
+	private _applyHandlers?: EventApplyHandlers;
+
+	/**
+	 * 获取已提交的事件流版本
+	 *
+	 * 新建且尚未保存的聚合版本为 0。
+	 *
+	 * @returns 事件流版本
+	 */
+	public get version(): number {
+		return this._version;
+	}
+
+	/**
+	 * 声明事件名称到 apply 处理器的映射
+	 *
+	 * @returns apply 处理器映射
+	 * @protected
+	 */
+	protected abstract getApplyHandlers(): EventApplyHandlers;
+
+	/**
+	 * 产生领域事件
+	 *
+	 * 先通过 apply 处理器修改状态，再记录为待提交的领域事件。
+	 *
+	 * @param event - 领域事件
+	 * @protected
+	 */
+	protected raise(event: DomainEvent): void {
+		this.applyEvent(event.eventName, event.payload);
+		this.addDomainEvent(event);
+	}
+
+	/**
+	 * 从历史事件重建状态
+	 *
+	 * 事件必须按版本升序排列，且版本大于当前已提交版本。
+	 *
+	 * @param events - 历史事件
+	 * @throws Error 事件版本未递增或缺少 apply 处理器时
+	 */
+	public loadFromHistory(events: ReadonlyArray<HistoricalEvent>): void {
+		for (const event of events) {
+			if (event.eventVersion <= this._version) {
+				throw new Error(
+					`事件重放失败：事件 ${event.eventName} 的版本 ${event.eventVersion} 未大于当前版本 ${this._version}。`
+				);
+			}
+			this.applyEvent(event.eventName, event.payload);
+			this._version = event.eventVersion;
+		}
+	}
+
+	/**
+	 * 标记待提交事件已持久化
+	 *
+	 * 由仓储在事件追加成功后调用：推进已提交版本并清除领域事件。
+	 *
+	 * @param version - 追加后的事件流版本
+	 */
+	public markEventsCommitted(version: number): void {
+		this._version = version;
+		this.clearDomainEvents();
+	}
+
+	/**
+	 * 调用事件对应的 apply 处理器
+	 *
+	 * @param eventName - 事件名称
+	 * @param payload - 事件负载
+	 * @throws Error 缺少 apply 处理器时
+	 * @private
+	 */
+	private applyEvent(eventName: string, payload: unknown): void {
+		this._applyHandlers ??= this.getApplyHandlers();
+		const handler = this._applyHandlers[eventName];
+		if (!handler) {
+			throw new Error(`事件 ${eventName} 未注册 apply 处理器（聚合：${this.constructor.name}）。`);
+		}
+		// 负载类型由事件名称决定，处理器注册时已声明
+		handler(payload as never);
+	}
+}
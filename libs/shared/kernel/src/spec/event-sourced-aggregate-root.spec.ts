@@ -0,0 +1,172 @@
+/**
+ * EventSourcedAggregateRoot 基类单元测试
+ *
+ * 测试事件溯源聚合根的 apply 处理器、历史重放与版本管理
+ */
+import {
+	EventSourcedAggregateRoot,
+	type EventApplyHandlers,
+	type HistoricalEvent
+} from '../lib/event-sourced-aggregate-root.aggregate';
+import { UniqueEntityID } from '../lib/unique-entity-id.vo';
+import { DomainEvent } from '../lib/domain-event';
+
+/**
+ * 测试用领域事件
+ */
+interface CounterCreatedPayload {
+	name: string;
+}
+
+class CounterCreatedEvent extends DomainEvent<CounterCreatedPayload> {
+	constructor(payload: CounterCreatedPayload, aggregateId: UniqueEntityID) {
+		super({
+			eventName: 'CounterCreated',
+			aggregateId,
+			payload
+		});
+	}
+}
+
+interface CounterIncrementedPayload {
+	by: number;
+}
+
+class CounterIncrementedEvent extends DomainEvent<CounterIncrementedPayload> {
+	constructor(payload: CounterIncrementedPayload, aggregateId: UniqueEntityID) {
+		super({
+			eventName: 'CounterIncremented',
+			aggregateId,
+			payload
+		});
+	}
+}
+
+/**
+ * 测试用事件溯源聚合根 - 计数器
+ */
+interface CounterProps {
+	name: string;
+	value: number;
+}
+
+class Counter extends EventSourcedAggregateRoot<CounterProps> {
+	get name(): string {
+		return this.props.name;
+	}
+
+	get value(): number {
+		return this.props.value;
+	}
+
+	private constructor(id: UniqueEntityID) {
+		super({ name: '', value: 0 }, id);
+	}
+
+	static create(name: string, id: UniqueEntityID = new UniqueEntityID()): Counter {
+		const counter = new Counter(id);
+		counter.raise(new CounterCreatedEvent({ name }, id));
+		return counter;
+	}
+
+	static fromHistory(id: UniqueEntityID, events: ReadonlyArray<HistoricalEvent>): Counter {
+		const counter = new Counter(id);
+		counter.loadFromHistory(events);
+		return counter;
+	}
+
+	increment(by: number): void {
+		this.raise(new CounterIncrementedEvent({ by }, this.id));
+	}
+
+	protected getApplyHandlers(): EventApplyHandlers {
+		return {
+			CounterCreated: (payload: CounterCreatedPayload) => {
+				this.props.name = payload.name;
+			},
+			CounterIncremented: (payload: CounterIncrementedPayload) => {
+				this.props.value += payload.by;
+			}
+		};
+	}
+}
+
+describe('EventSourcedAggregateRoot', () => {
+	describe('raise', () => {
+		it('应该通过 apply 处理器修改状态并记录领域事件', () => {
+			// Arrange & Act
+			const counter = Counter.create('visits');
+			counter.increment(2);
+
+			// Assert
+			expect(counter.name).toBe('visits');
+			expect(counter.value).toBe(2);
+			expect(counter.domainEventsCount).toBe(2);
+			expect(counter.domainEvents[1]).toBeInstanceOf(CounterIncrementedEvent);
+		});
+
+		it('新建聚合的版本应该为 0', () => {
+			// Act
+			const counter = Counter.create('visits');
+
+			// Assert
+			expect(counter.version).toBe(0);
+		});
+	});
+
+	describe('loadFromHistory', () => {
+		it('应该重放历史事件且不产生领域事件', () => {
+			// Arrange
+			const history: HistoricalEvent[] = [
+				{ eventName: 'CounterCreated', payload: { name: 'visits' }, eventVersion: 1 },
+				{ eventName: 'CounterIncremented', payload: { by: 3 }, eventVersion: 2 },
+				{ eventName: 'CounterIncremented', payload: { by: 4 }, eventVersion: 3 }
+			];
+
+			// Act
+			const counter = Counter.fromHistory(new UniqueEntityID('counter-1'), history);
+
+			// Assert
+			expect(counter.name).toBe('visits');
+			expect(counter.value).toBe(7);
+			expect(counter.version).toBe(3);
+			expect(counter.hasDomainEvents()).toBe(false);
+		});
+
+		it('版本未递增时应该抛出错误', () => {
+			// Arrange
+			const history: HistoricalEvent[] = [
+				{ eventName: 'CounterCreated', payload: { name: 'visits' }, eventVersion: 2 },
+				{ eventName: 'CounterIncremented', payload: { by: 1 }, eventVersion: 2 }
+			];
+
+			// Act & Assert
+			expect(() => Counter.fromHistory(new UniqueEntityID(), history)).toThrow('未大于当前版本');
+		});
+
+		it('缺少 apply 处理器时应该抛出错误', () => {
+			// Arrange
+			const history: HistoricalEvent[] = [{ eventName: 'CounterDeleted', payload: {}, eventVersion: 1 }];
+
+			// Act & Assert
+			expect(() => Counter.fromHistory(new UniqueEntityID(), history)).toThrow(
+				'事件 CounterDeleted 未注册 apply 处理器'
+			);
+		});
+	});
+
+	describe('markEventsCommitted', () => {
+		it('应该推进版本并清除领域事件', () => {
+			// Arrange
+			const counter = Counter.create('visits');
+			counter.increment(1);
+
+			// Act
+			counter.markEventsCommitted(2);
+
+			// Assert
+			expect(counter.version).toBe(2);
+			expect(counter.hasDomainEvents()).toBe(false);
+		});
+	});
+});
@@ -3,4 +3,5 @@ export * from './lib/postgres/pg-inbox.adapter';
 export * from './lib/postgres/pg-outbox.adapter';
 export * from './lib/postgres/inbox-record.entity';
 export * from './lib/postgres/outbox-record.entity';
+export * from './lib/testing';
 export * from './lib/types';
@@ -0,0 +1,25 @@
+import type { IInbox } from '../types';
+
+/**
+ * 内存 Inbox 实现（测试替身）
+ *
+ * 与 PgInbox 保持相同语义：以 messageId 去重，重复标记无害。
+ */
+export class InMemoryInbox implements IInbox {
+	private readonly processed = new Set<string>();
+
+	async isProcessed(messageId: string): Promise<boolean> {
+		return this.processed.has(messageId);
+	}
+
+	async markProcessed(messageId: string): Promise<void> {
+		this.processed.add(messageId);
+	}
+
+	/**
+	 * 清空去重记录
+	 */
+	clear(): void {
+		this.processed.clear();
+	}
+}
@@ -0,0 +1,87 @@
+import { MAX_PAGE_SIZE } from '@oksai/constants';
+import type { IOutbox, OutboxRecord, IntegrationEventEnvelope } from '../types';
+
+/**
+ * 内存 Outbox 实现（测试替身）
+ *
+ * 与 PgOutbox 保持相同语义：
+ * - messageId 唯一，重复追加抛出 `Outbox 追加失败`（对应唯一约束 uniq_outbox_message_id）
+ * - listPending 只返回 pending 且 nextAttemptAt <= now 的记录，按 occurredAt、messageId 升序，默认上限 MAX_PAGE_SIZE
+ * - markPublished / markFailed 对不存在的 messageId 不报错（对应 update 影响 0 行）
+ *
+ * 返回的记录均为副本，测试无法绕过接口修改内部状态。
+ */
+export class InMemoryOutbox implements IOutbox {
+	private readonly records = new Map<string, OutboxRecord>();
+
+	async append<TPayload extends object>(envelope: IntegrationEventEnvelope<TPayload>): Promise<void> {
+		if (this.records.has(envelope.messageId)) {
+			throw new Error(`Outbox 追加失败：messageId=${envelope.messageId}。原因：messageId 已存在`);
+		}
+
+		const now = new Date();
+		this.records.set(envelope.messageId, {
+			messageId: envelope.messageId,
+			eventType: envelope.eventType,
+			occurredAt: envelope.occurredAt,
+			schemaVersion: envelope.schemaVersion,
+			tenantId: envelope.tenantId,
+			userId: envelope.userId,
+			requestId: envelope.requestId,
+			payload: envelope.payload,
+			status: 'pending',
+			attempts: 0,
+			nextAttemptAt: now,
+			createdAt: now,
+			updatedAt: now
+		});
+	}
+
+	async listPending(params: { now?: Date; limit?: number } = {}): Promise<OutboxRecord[]> {
+		const now = params.now ?? new Date();
+		const limit = params.limit ?? MAX_PAGE_SIZE;
+
+		return [...this.records.values()]
+			.filter((r) => r.status === 'pending' && r.nextAttemptAt <= now)
+			.sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime() || a.messageId.localeCompare(b.messageId))
+			.slice(0, limit)
+			.map((r) => ({ ...r }));
+	}
+
+	async markPublished(messageId: string): Promise<void> {
+		const record = this.records.get(messageId);
+		if (!record) return;
+		record.status = 'published';
+		record.updatedAt = new Date();
+	}
+
+	async markFailed(params: {
+		messageId: string;
+		attempts: number;
+		nextAttemptAt: Date;
+		lastError?: string;
+	}): Promise<void> {
+		const record = this.records.get(params.messageId);
+		if (!record) return;
+		record.attempts = params.attempts;
+		record.nextAttemptAt = params.nextAttemptAt;
+		record.lastError = params.lastError;
+		record.updatedAt = new Date();
+	}
+
+	/**
+	 * 获取全部记录（按追加顺序）
+	 *
+	 * @returns 记录副本
+	 */
+	getRecords(): OutboxRecord[] {
+		return [...this.records.values()].map((r) => ({ ...r }));
+	}
+
+	/**
+	 * 清空 Outbox
+	 */
+	clear(): void {
+		this.records.clear();
+	}
+}
@@ -0,0 +1,2 @@
+export { InMemoryOutbox } from './in-memory-outbox';
+export { InMemoryInbox } from './in-memory-inbox';
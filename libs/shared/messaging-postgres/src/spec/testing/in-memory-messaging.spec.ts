@@ -0,0 +1,73 @@
+import { InMemoryInbox, InMemoryOutbox } from '../../lib/testing';
+import type { IntegrationEventEnvelope } from '../../lib/types';
+
+function createEnvelope(messageId: string, occurredAt: Date): IntegrationEventEnvelope<{ name: string }> {
+	return {
+		messageId,
+		eventType: 'TenantCreated',
+		occurredAt,
+		schemaVersion: 1,
+		tenantId: 'tenant-1',
+		payload: { name: 'Acme' }
+	};
+}
+
+describe('InMemoryOutbox', () => {
+	let outbox: InMemoryOutbox;
+
+	beforeEach(() => {
+		outbox = new InMemoryOutbox();
+	});
+
+	it('重复 messageId 应抛出追加失败', async () => {
+		await outbox.append(createEnvelope('msg-1', new Date()));
+
+		await expect(outbox.append(createEnvelope('msg-1', new Date()))).rejects.toThrow('Outbox 追加失败');
+	});
+
+	it('listPending 应按发生时间与 messageId 排序并限制条数', async () => {
+		const at = new Date('2024-01-01T00:00:00.000Z');
+		await outbox.append(createEnvelope('msg-b', at));
+		await outbox.append(createEnvelope('msg-a', at));
+		await outbox.append(createEnvelope('msg-0', new Date('2024-01-02T00:00:00.000Z')));
+
+		const pending = await outbox.listPending({ limit: 2 });
+
+		expect(pending.map((r) => r.messageId)).toEqual(['msg-a', 'msg-b']);
+		expect(pending[0]).toMatchObject({ status: 'pending', attempts: 0, tenantId: 'tenant-1' });
+	});
+
+	it('已发布或未到重试时间的记录不应出现在 listPending 中', async () => {
+		await outbox.append(createEnvelope('msg-1', new Date()));
+		await outbox.append(createEnvelope('msg-2', new Date()));
+		const retryAt = new Date(Date.now() + 60_000);
+
+		await outbox.markPublished('msg-1');
+		await outbox.markFailed({ messageId: 'msg-2', attempts: 1, nextAttemptAt: retryAt, lastError: 'boom' });
+
+		expect(await outbox.listPending()).toEqual([]);
+		expect((await outbox.listPending({ now: retryAt })).map((r) => r.messageId)).toEqual(['msg-2']);
+		expect(outbox.getRecords().map((r) => r.status)).toEqual(['published', 'pending']);
+	});
+
+	it('返回的记录应为副本', async () => {
+		await outbox.append(createEnvelope('msg-1', new Date()));
+
+		const [record] = await outbox.listPending();
+		record.status = 'published';
+
+		expect(await outbox.listPending()).toHaveLength(1);
+	});
+});
+
+describe('InMemoryInbox', () => {
+	it('应以 messageId 去重且重复标记无害', async () => {
+		const inbox = new InMemoryInbox();
+
+		await inbox.markProcessed('msg-1');
+		await inbox.markProcessed('msg-1');
+
+		await expect(inbox.isProcessed('msg-1')).resolves.toBe(true);
+		await expect(inbox.isProcessed('msg-2')).resolves.toBe(false);
+	});
+});
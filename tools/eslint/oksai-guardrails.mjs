@@ -55,7 +55,7 @@ export const PURE_DOMAINS_FORBIDDEN_IMPORTS = [
 		message: '纯领域层禁止依赖基础设施组件'
 	},
 	{
-		group: ['@oksai/logger', '@oksai/config', '@oksai/database', '@oksai/redis', '@oksai/messaging-postgres'],
+		group: ['@oksai/logger', '@oksai/config', '@oksai/database', '@oksai/redis', '@oksai/messaging-postgres', '@oksai/event-store-postgres'],
 		message: '纯领域层禁止依赖框架感知的共享模块'
 	}
 ];
@@ -251,6 +251,7 @@ export const SHARED_FRAMEWORK_MODULES = [
 	'redis',
 	'messaging',
 	'messaging-postgres',
+	'event-store-postgres',
 	'plugin'
 ];
 